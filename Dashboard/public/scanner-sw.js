@@ -0,0 +1,65 @@
+/**
+ * SRAtix check-in scanner service worker.
+ *
+ * Registered by the scanner page with scope /dashboard/events/ so the
+ * scanner opens without network once it has been loaded online:
+ *   - scanner page HTML: network first, cached copy when offline (all events
+ *     share the same pre-rendered shell, so it is cached under one key)
+ *   - /_next/static/*:    cache first (content-hashed, immutable)
+ *   - other same-origin GETs: network first with cache fallback
+ * API calls are never cached — the scanner keeps its own data in IndexedDB.
+ */
+const CACHE = 'sratix-scanner-v1';
+const SHELL_KEY = '/dashboard/events/_/check-in/scanner/';
+const SCANNER_PATH = /^\/dashboard\/events\/[^/]+\/check-in\/scanner\/?$/;
+
+self.addEventListener('install', () => self.skipWaiting());
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((k) => k.startsWith('sratix-scanner-') && k !== CACHE).map((k) => caches.delete(k))))
+      .then(() => self.clients.claim()),
+  );
+});
+
+async function networkFirst(request, cacheKey) {
+  const cache = await caches.open(CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(cacheKey, response.clone());
+    return response;
+  } catch (err) {
+    const cached = await cache.match(cacheKey);
+    if (cached) return cached;
+    throw err;
+  }
+}
+
+async function cacheFirst(request) {
+  const cache = await caches.open(CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) cache.put(request, response.clone());
+  return response;
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin || url.pathname.startsWith('/api')) return;
+
+  if (request.mode === 'navigate') {
+    if (SCANNER_PATH.test(url.pathname)) {
+      event.respondWith(networkFirst(request, SHELL_KEY));
+    }
+    return;
+  }
+  if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(cacheFirst(request));
+    return;
+  }
+  event.respondWith(networkFirst(request, request));
+});
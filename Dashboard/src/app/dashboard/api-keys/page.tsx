@@ -0,0 +1,391 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import { api, type ApiKey, type ApiKeyScopeDefinition, type Event } from '@/lib/api';
+import { Icons } from '@/components/icons';
+import { useI18n } from '@/i18n/i18n-provider';
+import { toast } from 'sonner';
+
+/**
+ * API keys for server-to-server integrations (CRM, SRA membership backend).
+ * The plain key is shown once, right after creation.
+ */
+export default function ApiKeysPage() {
+  const { t } = useI18n();
+  const [keys, setKeys] = useState<ApiKey[]>([]);
+  const [scopes, setScopes] = useState<ApiKeyScopeDefinition[]>([]);
+  const [events, setEvents] = useState<Event[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showCreate, setShowCreate] = useState(false);
+  const [created, setCreated] = useState<(ApiKey & { secret: string }) | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setKeys(await api.getApiKeys());
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : t('apiKeys.failedToLoad'));
+    } finally {
+      setLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    load();
+    api.getApiKeyScopes().then(setScopes).catch(() => setScopes([]));
+    api.getEvents().then(setEvents).catch(() => setEvents([]));
+  }, [load]);
+
+  const revoke = async (key: ApiKey) => {
+    if (!confirm(t('apiKeys.confirmRevoke', { name: key.name }))) return;
+    try {
+      await api.revokeApiKey(key.id);
+      toast.success(t('apiKeys.revoked'));
+      load();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : t('apiKeys.failedToRevoke'));
+    }
+  };
+
+  const formatDate = (iso: string | null) =>
+    iso
+      ? new Date(iso).toLocaleDateString('en-CH', {
+          day: '2-digit',
+          month: 'short',
+          year: 'numeric',
+          hour: '2-digit',
+          minute: '2-digit',
+        })
+      : t('common.never');
+
+  const status = (key: ApiKey) => {
+    if (key.revokedAt) return { label: t('apiKeys.status.revoked'), bg: 'var(--color-danger-light)', color: 'var(--color-danger)' };
+    if (key.expiresAt && new Date(key.expiresAt) <= new Date()) {
+      return { label: t('apiKeys.status.expired'), bg: 'var(--color-bg-muted)', color: 'var(--color-text-muted)' };
+    }
+    return { label: t('common.active'), bg: 'var(--color-success-light, #dcfce7)', color: 'var(--color-success, #16a34a)' };
+  };
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="mb-6 flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-xl font-bold sm:text-2xl" style={{ color: 'var(--color-text)' }}>
+            {t('apiKeys.title')}
+          </h1>
+          <p className="mt-1 text-sm" style={{ color: 'var(--color-text-secondary)' }}>
+            {t('apiKeys.subtitle')}
+          </p>
+        </div>
+        <button
+          onClick={() => setShowCreate(true)}
+          className="rounded-lg px-4 py-2 text-sm font-semibold text-white"
+          style={{ background: 'var(--color-primary)' }}
+        >
+          {t('apiKeys.create')}
+        </button>
+      </div>
+
+      {created && (
+        <div
+          className="mb-6 rounded-xl p-4"
+          style={{ background: 'var(--color-warning-bg, #fef3c7)', border: '1px solid #f59e0b' }}
+        >
+          <p className="mb-2 text-sm font-medium" style={{ color: '#92400e' }}>
+            {t('apiKeys.secretOnce', { name: created.name })}
+          </p>
+          <div className="flex items-center gap-2">
+            <code
+              className="flex-1 break-all rounded px-3 py-2 font-mono text-sm"
+              style={{ background: 'var(--color-bg-card)', color: 'var(--color-text)' }}
+            >
+              {created.secret}
+            </code>
+            <button
+              onClick={() => { navigator.clipboard.writeText(created.secret); toast.success(t('apiKeys.copied')); }}
+              className="rounded-lg px-3 py-2 text-sm"
+              style={{ background: 'var(--color-bg-card)', border: '1px solid var(--color-border)', color: 'var(--color-text)' }}
+              aria-label={t('apiKeys.copy')}
+            >
+              <Icons.Copy size={14} />
+            </button>
+            <button
+              onClick={() => setCreated(null)}
+              className="rounded-lg px-3 py-2 text-sm"
+              style={{ color: '#92400e' }}
+            >
+              {t('apiKeys.done')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Table */}
+      <div className="overflow-x-auto rounded-xl" style={{ background: 'var(--color-bg-card)', border: '1px solid var(--color-border)' }}>
+        <table className="w-full text-sm">
+          <thead>
+            <tr style={{ color: 'var(--color-text-secondary)', borderBottom: '1px solid var(--color-border)' }}>
+              <th className="whitespace-nowrap px-4 py-2 text-left font-medium">{t('apiKeys.col.name')}</th>
+              <th className="whitespace-nowrap px-4 py-2 text-left font-medium">{t('apiKeys.col.access')}</th>
+              <th className="whitespace-nowrap px-4 py-2 text-left font-medium">{t('apiKeys.col.scopes')}</th>
+              <th className="whitespace-nowrap px-4 py-2 text-left font-medium">{t('apiKeys.col.lastUsed')}</th>
+              <th className="whitespace-nowrap px-4 py-2 text-left font-medium">{t('apiKeys.col.expires')}</th>
+              <th className="whitespace-nowrap px-4 py-2 text-left font-medium">{t('apiKeys.col.status')}</th>
+              <th className="px-4 py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {loading ? (
+              [1, 2, 3].map((i) => (
+                <tr key={i}>
+                  <td colSpan={7} className="px-4 py-3">
+                    <div className="h-4 animate-pulse rounded" style={{ background: 'var(--color-bg-muted)' }} />
+                  </td>
+                </tr>
+              ))
+            ) : keys.length === 0 ? (
+              <tr>
+                <td colSpan={7} className="px-4 py-10 text-center" style={{ color: 'var(--color-text-muted)' }}>
+                  {t('apiKeys.empty')}
+                </td>
+              </tr>
+            ) : (
+              keys.map((key) => {
+                const s = status(key);
+                return (
+                  <tr key={key.id} style={{ borderBottom: '1px solid var(--color-border)' }}>
+                    <td className="px-4 py-3">
+                      <p className="font-medium" style={{ color: 'var(--color-text)' }}>{key.name}</p>
+                      <p className="font-mono text-xs" style={{ color: 'var(--color-text-muted)' }}>{key.prefix}…</p>
+                    </td>
+                    <td className="px-4 py-3 text-xs" style={{ color: 'var(--color-text-secondary)' }}>
+                      {key.eventId ? key.eventName : t('apiKeys.allEvents')}
+                      {key.ipAllowlist && key.ipAllowlist.length > 0 && (
+                        <p className="mt-0.5 font-mono" style={{ color: 'var(--color-text-muted)' }} title={key.ipAllowlist.join(', ')}>
+                          {t('apiKeys.ipCount', { count: key.ipAllowlist.length })}
+                        </p>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex flex-wrap gap-1">
+                        {key.scopes.map((sc) => (
+                          <span
+                            key={sc}
+                            className="rounded-full px-2 py-0.5 font-mono text-xs"
+                            style={{ background: 'var(--color-bg-muted)', color: 'var(--color-text-secondary)' }}
+                          >
+                            {sc}
+                          </span>
+                        ))}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 text-xs" style={{ color: 'var(--color-text-muted)' }}>
+                      {formatDate(key.lastUsedAt)}
+                      {key.lastUsedIp && <p className="font-mono">{key.lastUsedIp}</p>}
+                    </td>
+                    <td className="px-4 py-3 text-xs" style={{ color: 'var(--color-text-muted)' }}>
+                      {key.expiresAt ? formatDate(key.expiresAt) : '—'}
+                    </td>
+                    <td className="px-4 py-3">
+                      <span className="rounded-full px-2 py-0.5 text-xs font-medium" style={{ background: s.bg, color: s.color }}>
+                        {s.label}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      {!key.revokedAt && (
+                        <button
+                          onClick={() => revoke(key)}
+                          className="rounded px-2 py-1 text-xs"
+                          style={{ color: 'var(--color-danger)' }}
+                        >
+                          {t('apiKeys.revoke')}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {showCreate && (
+        <CreateApiKeyModal
+          scopes={scopes}
+          events={events}
+          onClose={() => setShowCreate(false)}
+          onCreated={(key) => {
+            setShowCreate(false);
+            setCreated(key);
+            load();
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+// ─── Create Modal ───────────────────────────────────────────────
+
+function CreateApiKeyModal({
+  scopes,
+  events,
+  onClose,
+  onCreated,
+}: {
+  scopes: ApiKeyScopeDefinition[];
+  events: Event[];
+  onClose: () => void;
+  onCreated: (key: ApiKey & { secret: string }) => void;
+}) {
+  const { t } = useI18n();
+  const [name, setName] = useState('');
+  const [eventId, setEventId] = useState('');
+  const [wholeOrg, setWholeOrg] = useState(false);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [ipAllowlist, setIpAllowlist] = useState('');
+  const [expiresAt, setExpiresAt] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const event = events.find((e) => e.id === eventId);
+
+  const toggle = (scope: string) =>
+    setSelected((prev) => (prev.includes(scope) ? prev.filter((s) => s !== scope) : [...prev, scope]));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || !event || selected.length === 0) return;
+    setSubmitting(true);
+    try {
+      const key = await api.createApiKey({
+        name: name.trim(),
+        scopes: selected,
+        ...(wholeOrg ? { orgId: event.orgId } : { eventId: event.id }),
+        ipAllowlist: ipAllowlist.split(/[\s,]+/).filter(Boolean),
+        expiresAt: expiresAt ? new Date(`${expiresAt}T23:59:59`).toISOString() : undefined,
+      });
+      onCreated(key);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : t('apiKeys.failedToCreate'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const inputStyle = {
+    background: 'var(--color-bg-subtle)',
+    border: '1px solid var(--color-border)',
+    color: 'var(--color-text)',
+  };
+  const labelClass = 'mb-1 block text-sm font-medium';
+  const labelStyle = { color: 'var(--color-text-secondary)' };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40">
+      <div
+        className="w-full max-w-lg rounded-2xl p-6"
+        style={{ background: 'var(--color-bg-card)', boxShadow: 'var(--shadow-lg)', border: '1px solid var(--color-border)' }}
+      >
+        <div className="mb-4 flex items-center justify-between">
+          <h2 className="text-lg font-bold" style={{ color: 'var(--color-text)' }}>
+            {t('apiKeys.newKey')}
+          </h2>
+          <button onClick={onClose} className="text-xl leading-none" style={{ color: 'var(--color-text-muted)' }}>
+            &times;
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className={labelClass} style={labelStyle}>{t('apiKeys.form.name')}</label>
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={t('apiKeys.form.namePlaceholder')}
+              maxLength={100}
+              className="w-full rounded-lg px-3 py-2 text-sm"
+              style={inputStyle}
+              autoFocus
+            />
+          </div>
+
+          <div>
+            <label className={labelClass} style={labelStyle}>{t('apiKeys.form.event')}</label>
+            <select value={eventId} onChange={(e) => setEventId(e.target.value)} className="w-full rounded-lg px-3 py-2 text-sm" style={inputStyle}>
+              <option value="">{t('apiKeys.form.selectEvent')}</option>
+              {events.map((ev) => (
+                <option key={ev.id} value={ev.id}>{ev.name}</option>
+              ))}
+            </select>
+            <label className="mt-2 flex items-center gap-2 text-xs" style={{ color: 'var(--color-text-secondary)' }}>
+              <input type="checkbox" checked={wholeOrg} onChange={(e) => setWholeOrg(e.target.checked)} />
+              {t('apiKeys.form.wholeOrg')}
+            </label>
+          </div>
+
+          <div>
+            <label className={labelClass} style={labelStyle}>{t('apiKeys.form.scopes')}</label>
+            <div className="grid grid-cols-2 gap-2">
+              {scopes.map((scope) => (
+                <button
+                  key={scope.key}
+                  type="button"
+                  onClick={() => toggle(scope.key)}
+                  className="rounded-lg px-3 py-2 text-left text-sm transition-colors"
+                  style={{
+                    background: selected.includes(scope.key) ? 'var(--color-primary-light)' : 'var(--color-bg-subtle)',
+                    border: `1px solid ${selected.includes(scope.key) ? 'var(--color-primary)' : 'var(--color-border)'}`,
+                    color: selected.includes(scope.key) ? 'var(--color-primary)' : 'var(--color-text)',
+                  }}
+                >
+                  <span className="font-mono text-xs font-medium">{scope.key}</span>
+                  <br />
+                  <span className="text-xs opacity-70">{scope.description}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass} style={labelStyle}>{t('apiKeys.form.ipAllowlist')}</label>
+            <textarea
+              value={ipAllowlist}
+              onChange={(e) => setIpAllowlist(e.target.value)}
+              placeholder="203.0.113.10, 198.51.100.0/24"
+              rows={2}
+              className="w-full rounded-lg px-3 py-2 font-mono text-sm"
+              style={inputStyle}
+            />
+            <p className="mt-1 text-xs" style={{ color: 'var(--color-text-muted)' }}>{t('apiKeys.form.ipAllowlistHint')}</p>
+          </div>
+
+          <div>
+            <label className={labelClass} style={labelStyle}>{t('apiKeys.form.expiresAt')}</label>
+            <input
+              type="date"
+              value={expiresAt}
+              onChange={(e) => setExpiresAt(e.target.value)}
+              className="rounded-lg px-3 py-2 text-sm"
+              style={inputStyle}
+            />
+          </div>
+
+          <div className="flex justify-end gap-2 pt-2">
+            <button type="button" onClick={onClose} className="rounded-lg px-4 py-2 text-sm" style={{ color: 'var(--color-text-secondary)' }}>
+              {t('common.cancel')}
+            </button>
+            <button
+              type="submit"
+              disabled={submitting || !name.trim() || !event || selected.length === 0}
+              className="rounded-lg px-4 py-2 text-sm font-semibold text-white disabled:opacity-50"
+              style={{ background: 'var(--color-primary)' }}
+            >
+              {submitting ? t('common.saving') : t('apiKeys.create')}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
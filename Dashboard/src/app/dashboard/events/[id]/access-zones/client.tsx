@@ -0,0 +1,386 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import { toast } from 'sonner';
+import { useEventId } from '@/hooks/use-event-id';
+import { api, type AccessZone, type TicketType, type ZoneEnforcement } from '@/lib/api';
+import { DataTable } from '@/components/data-table';
+import { Icons } from '@/components/icons';
+import { useI18n } from '@/i18n/i18n-provider';
+
+/** Comma-separated input → trimmed, de-duplicated list. */
+const splitList = (value: string) => [...new Set(value.split(',').map((v) => v.trim()).filter(Boolean))];
+
+/**
+ * Access zones — gated areas (VIP lounge, workshop rooms, exhibitor hall)
+ * and the ticket types, attendee tags and add-ons admitted to each.
+ * Scanners pick a zone; the rules apply online and offline.
+ */
+export default function AccessZonesPage() {
+  const { t } = useI18n();
+  const eventId = useEventId();
+  const [zones, setZones] = useState<AccessZone[]>([]);
+  const [ticketTypes, setTicketTypes] = useState<TicketType[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showModal, setShowModal] = useState(false);
+  const [editZone, setEditZone] = useState<AccessZone | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Form state
+  const [fName, setFName] = useState('');
+  const [fCapacity, setFCapacity] = useState('');
+  const [fTicketTypeIds, setFTicketTypeIds] = useState<string[]>([]);
+  const [fTags, setFTags] = useState('');
+  const [fAddOns, setFAddOns] = useState('');
+  const [fEnforcement, setFEnforcement] = useState<ZoneEnforcement>('reject');
+  const [fActive, setFActive] = useState(true);
+
+  const loadData = useCallback(async () => {
+    if (!eventId || eventId === '_') return;
+    try {
+      const [z, tts] = await Promise.all([api.getAccessZones(eventId), api.getTicketTypes(eventId)]);
+      setZones(z);
+      setTicketTypes(tts);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : t('zones.failedToLoad'));
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId, t]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const openForm = (zone: AccessZone | null) => {
+    setEditZone(zone);
+    setFName(zone?.name ?? '');
+    setFCapacity(zone?.capacity != null ? String(zone.capacity) : '');
+    setFTicketTypeIds(zone?.ticketTypeIds ?? []);
+    setFTags((zone?.tags ?? []).join(', '));
+    setFAddOns((zone?.addOns ?? []).join(', '));
+    setFEnforcement(zone?.enforcement ?? 'reject');
+    setFActive(zone?.active ?? true);
+    setError(null);
+    setShowModal(true);
+  };
+
+  const toggleTicketType = (id: string) =>
+    setFTicketTypeIds((ids) => (ids.includes(id) ? ids.filter((x) => x !== id) : [...ids, id]));
+
+  const handleSave = async () => {
+    if (!fName.trim()) { setError(t('zones.validation.nameRequired')); return; }
+    setSaving(true);
+    setError(null);
+
+    const payload = {
+      name: fName.trim(),
+      capacity: fCapacity ? parseInt(fCapacity, 10) : null,
+      ticketTypeIds: fTicketTypeIds,
+      tags: splitList(fTags),
+      addOns: splitList(fAddOns),
+      enforcement: fEnforcement,
+      active: fActive,
+    };
+
+    try {
+      if (editZone) {
+        await api.updateAccessZone(eventId, editZone.id, payload);
+      } else {
+        await api.createAccessZone(eventId, payload);
+      }
+      setShowModal(false);
+      await loadData();
+    } catch (err: any) {
+      setError(err?.message ?? t('zones.failedToSave'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (zone: AccessZone) => {
+    if (!confirm(t('zones.deleteConfirm').replace('{name}', zone.name))) return;
+    try {
+      await api.deleteAccessZone(eventId, zone.id);
+      await loadData();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : t('zones.failedToDelete'));
+    }
+  };
+
+  const ruleSummary = (zone: AccessZone) => {
+    const names = (zone.ticketTypeIds ?? []).map((id) => ticketTypes.find((tt) => tt.id === id)?.name ?? id);
+    const parts = [
+      ...names,
+      ...(zone.tags ?? []).map((tag) => `#${tag}`),
+      ...(zone.addOns ?? []).map((a) => `+${a}`),
+    ];
+    return parts.length ? parts.join(', ') : t('zones.openToAll');
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-3">
+        {[1, 2].map((i) => (
+          <div
+            key={i}
+            className="h-12 animate-pulse rounded-lg"
+            style={{ background: 'var(--color-bg-muted)' }}
+          />
+        ))}
+      </div>
+    );
+  }
+
+  const inputStyle = {
+    background: 'var(--color-bg-subtle)',
+    border: '1px solid var(--color-border)',
+    color: 'var(--color-text)',
+  };
+
+  return (
+    <div>
+      <div className="mb-6 flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-xl font-bold sm:text-2xl" style={{ color: 'var(--color-text)' }}>
+            {t('zones.title')}
+          </h1>
+          <p className="mt-1 text-sm" style={{ color: 'var(--color-text-secondary)' }}>
+            {t('zones.subtitle')}
+          </p>
+        </div>
+        <button
+          className="rounded-lg px-4 py-2 text-sm font-semibold text-white transition-colors"
+          style={{ background: 'var(--color-primary)' }}
+          onClick={() => openForm(null)}
+        >
+          <span className="inline-flex items-center gap-1"><Icons.Plus size={14} /> {t('zones.newZone')}</span>
+        </button>
+      </div>
+
+      <DataTable<AccessZone & Record<string, unknown>>
+        columns={[
+          {
+            key: 'name',
+            header: t('zones.column.name'),
+            render: (row) => (
+              <span className="font-medium" style={{ opacity: row.active ? 1 : 0.6 }}>
+                {row.name}
+                {!row.active && (
+                  <span className="ml-2 text-xs" style={{ color: 'var(--color-text-muted)' }}>
+                    {t('zones.inactive')}
+                  </span>
+                )}
+              </span>
+            ),
+          },
+          {
+            key: 'ticketTypeIds',
+            header: t('zones.column.admits'),
+            render: (row) => (
+              <span className="text-sm" style={{ color: 'var(--color-text-secondary)' }}>
+                {ruleSummary(row as AccessZone)}
+              </span>
+            ),
+          },
+          {
+            key: 'enforcement',
+            header: t('zones.column.enforcement'),
+            render: (row) => t(`zones.enforcement.${row.enforcement}`),
+          },
+          {
+            key: 'capacity',
+            header: t('zones.column.capacity'),
+            render: (row) => (row.capacity != null ? String(row.capacity) : '—'),
+          },
+          {
+            key: 'id',
+            header: '',
+            render: (row) => (
+              <div className="flex gap-1">
+                <button
+                  onClick={(e) => { e.stopPropagation(); openForm(row as AccessZone); }}
+                  className="rounded px-2 py-1 text-xs"
+                  style={{ color: 'var(--color-text-secondary)' }}
+                >
+                  <Icons.Edit size={14} />
+                </button>
+                <button
+                  onClick={(e) => { e.stopPropagation(); handleDelete(row as AccessZone); }}
+                  className="rounded px-2 py-1 text-xs"
+                  style={{ color: 'var(--color-danger, #ef4444)' }}
+                >
+                  <Icons.Trash size={14} />
+                </button>
+              </div>
+            ),
+          },
+        ]}
+        data={zones as (AccessZone & Record<string, unknown>)[]}
+        searchKeys={['name']}
+        emptyMessage={t('zones.empty')}
+      />
+
+      {/* ── Create / Edit Modal ── */}
+      {showModal && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center p-4"
+          style={{ background: 'rgba(0,0,0,0.5)' }}
+          onClick={(e) => {
+            if (e.target === e.currentTarget) setShowModal(false);
+          }}
+        >
+          <div
+            className="w-full max-w-lg overflow-hidden rounded-2xl"
+            style={{
+              background: 'var(--color-bg-card)',
+              border: '1px solid var(--color-border)',
+              boxShadow: 'var(--shadow-lg, 0 25px 50px -12px rgba(0,0,0,0.25))',
+            }}
+          >
+            <div
+              className="flex items-center justify-between border-b px-6 py-4"
+              style={{ borderColor: 'var(--color-border)' }}
+            >
+              <h2 className="text-lg font-semibold" style={{ color: 'var(--color-text)' }}>
+                {editZone ? t('zones.editZone') : t('zones.createZone')}
+              </h2>
+              <button
+                onClick={() => setShowModal(false)}
+                className="text-xl leading-none"
+                style={{ color: 'var(--color-text-muted)' }}
+              >
+                ×
+              </button>
+            </div>
+
+            <div className="max-h-[70vh] space-y-4 overflow-y-auto px-6 py-4">
+              {error && (
+                <div
+                  className="rounded-lg px-4 py-2 text-sm"
+                  style={{ background: 'var(--color-error-bg, #fee2e2)', color: 'var(--color-error-text, #991b1b)' }}
+                >
+                  {error}
+                </div>
+              )}
+
+              <div className="grid grid-cols-3 gap-3">
+                <label className="col-span-2 block text-sm font-medium" style={{ color: 'var(--color-text)' }}>
+                  {t('zones.form.name')}
+                  <input
+                    value={fName}
+                    onChange={(e) => setFName(e.target.value)}
+                    placeholder={t('zones.form.namePlaceholder')}
+                    maxLength={100}
+                    className="mt-1 w-full rounded-lg px-3 py-2 text-sm font-normal"
+                    style={inputStyle}
+                  />
+                </label>
+                <label className="block text-sm font-medium" style={{ color: 'var(--color-text)' }}>
+                  {t('zones.form.capacity')}
+                  <input
+                    type="number"
+                    min={0}
+                    value={fCapacity}
+                    onChange={(e) => setFCapacity(e.target.value)}
+                    placeholder="—"
+                    className="mt-1 w-full rounded-lg px-3 py-2 text-sm font-normal"
+                    style={inputStyle}
+                  />
+                </label>
+              </div>
+
+              <div>
+                <p className="mb-1 text-sm font-medium" style={{ color: 'var(--color-text)' }}>
+                  {t('zones.form.ticketTypes')}
+                </p>
+                <div className="space-y-1 rounded-lg p-3" style={inputStyle}>
+                  {ticketTypes.length === 0 ? (
+                    <p className="text-xs" style={{ color: 'var(--color-text-muted)' }}>{t('zones.form.noTicketTypes')}</p>
+                  ) : (
+                    ticketTypes.map((tt) => (
+                      <label key={tt.id} className="flex items-center gap-2 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={fTicketTypeIds.includes(tt.id)}
+                          onChange={() => toggleTicketType(tt.id)}
+                        />
+                        {tt.name}
+                      </label>
+                    ))
+                  )}
+                </div>
+              </div>
+
+              <label className="block text-sm font-medium" style={{ color: 'var(--color-text)' }}>
+                {t('zones.form.tags')}
+                <input
+                  value={fTags}
+                  onChange={(e) => setFTags(e.target.value)}
+                  placeholder={t('zones.form.tagsPlaceholder')}
+                  className="mt-1 w-full rounded-lg px-3 py-2 text-sm font-normal"
+                  style={inputStyle}
+                />
+              </label>
+
+              <label className="block text-sm font-medium" style={{ color: 'var(--color-text)' }}>
+                {t('zones.form.addOns')}
+                <input
+                  value={fAddOns}
+                  onChange={(e) => setFAddOns(e.target.value)}
+                  placeholder={t('zones.form.addOnsPlaceholder')}
+                  className="mt-1 w-full rounded-lg px-3 py-2 text-sm font-normal"
+                  style={inputStyle}
+                />
+              </label>
+
+              <p className="text-xs" style={{ color: 'var(--color-text-muted)' }}>
+                {t('zones.form.rulesHint')}
+              </p>
+
+              <label className="block text-sm font-medium" style={{ color: 'var(--color-text)' }}>
+                {t('zones.form.enforcement')}
+                <select
+                  value={fEnforcement}
+                  onChange={(e) => setFEnforcement(e.target.value as ZoneEnforcement)}
+                  className="mt-1 w-full rounded-lg px-3 py-2 text-sm font-normal"
+                  style={inputStyle}
+                >
+                  <option value="reject">{t('zones.enforcement.reject')}</option>
+                  <option value="flag">{t('zones.enforcement.flag')}</option>
+                </select>
+              </label>
+
+              <label className="flex items-center gap-2 text-sm" style={{ color: 'var(--color-text)' }}>
+                <input type="checkbox" checked={fActive} onChange={(e) => setFActive(e.target.checked)} />
+                {t('zones.form.active')}
+              </label>
+            </div>
+
+            <div
+              className="flex justify-end gap-2 border-t px-6 py-4"
+              style={{ borderColor: 'var(--color-border)' }}
+            >
+              <button
+                onClick={() => setShowModal(false)}
+                className="rounded-lg px-4 py-2 text-sm font-medium"
+                style={{ color: 'var(--color-text-secondary)', border: '1px solid var(--color-border)' }}
+              >
+                {t('common.cancel')}
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={saving || !fName.trim()}
+                className="rounded-lg px-4 py-2 text-sm font-semibold text-white transition-colors disabled:opacity-50"
+                style={{ background: 'var(--color-primary)' }}
+              >
+                {saving ? t('common.saving') : editZone ? t('common.saveChanges') : t('zones.createZone')}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -379,6 +379,17 @@ export default function AttendeesPage() {
               </option>
             ))}
           </select>
+          <a
+            href={`/dashboard/events/${eventId}/attendees/import/`}
+            className="rounded-lg px-4 py-2 text-sm font-medium transition-colors"
+            style={{
+              background: 'var(--color-bg-card)',
+              border: '1px solid var(--color-border)',
+              color: 'var(--color-text)',
+            }}
+          >
+            <span className="inline-flex items-center gap-1"><Icons.Upload size={14} /> {t('attendees.import')}</span>
+          </a>
           <button
             onClick={() => handleExport(api.exportAttendees(eventId), 'csv')}
             disabled={exporting !== null}
@@ -497,6 +508,16 @@ export default function AttendeesPage() {
               return <span className="text-xs whitespace-nowrap">{name}</span>;
             },
           },
+          {
+            key: '_addOns',
+            header: t('attendees.column.addOns'),
+            sortable: false,
+            render: (row) => {
+              const addOns = (row as unknown as Attendee).addOns ?? [];
+              if (addOns.length === 0) return <span style={{ color: 'var(--color-text-muted)' }}>—</span>;
+              return <span className="text-xs">{addOns.map((a) => resolveLabel(a.label)).join(', ')}</span>;
+            },
+          },
           {
             key: 'tickets',
             header: t('attendees.column.ticket'),
@@ -968,6 +989,26 @@ export default function AttendeesPage() {
                     </div>
                   )}
 
+                  {/* ── Add-ons (priced form options) ── */}
+                  {(detailAttendee.addOns?.length ?? 0) > 0 && (
+                    <div>
+                      <h3 className="mb-3 text-sm font-semibold uppercase tracking-wide" style={{ color: 'var(--color-text-muted)' }}>
+                        {t('attendees.column.addOns')}
+                      </h3>
+                      <div className="flex flex-wrap gap-1.5">
+                        {detailAttendee.addOns!.map((addOn, i) => (
+                          <span
+                            key={`${addOn.key}-${i}`}
+                            className="rounded-full px-2 py-0.5 text-xs"
+                            style={{ background: 'var(--color-bg-subtle)', border: '1px solid var(--color-border)', color: 'var(--color-text)' }}
+                          >
+                            {resolveLabel(addOn.label)}
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
                   {/* ── Orders ── */}
                   {(detailAttendee.orders?.length ?? 0) > 0 && (
                     <div>
@@ -1030,7 +1071,11 @@ export default function AttendeesPage() {
                       <div className="space-y-4">
                         {detailAttendee.formSubmissions!.map((sub) => {
                           const schemaDef = sub.formSchema?.fields as unknown as FormSchemaDefinition | null;
-                          const fields = schemaDef?.fields ?? [];
+                          // Prefer the unified view: older versions shown in the latest version's columns
+                          const columns = sub.unified
+                            ? sub.unified.columns.map((c) => ({ key: c.key, field: { ...c.field, label: c.label } as FormField }))
+                            : (schemaDef?.fields ?? []).map((field) => ({ key: field.id, field }));
+                          const answers = sub.unified?.data ?? sub.data;
 
                           return (
                             <div
@@ -1044,6 +1089,9 @@ export default function AttendeesPage() {
                                   {' '}
                                   <span className="text-xs" style={{ color: 'var(--color-text-muted)' }}>
                                     v{sub.formSchema?.version ?? 1}
+                                    {sub.unified && sub.unified.version !== sub.formSchema?.version && (
+                                      <> · {t('attendees.shownAsVersion', { version: sub.unified.version })}</>
+                                    )}
                                   </span>
                                 </span>
                                 <span className="text-xs" style={{ color: 'var(--color-text-muted)' }}>
@@ -1051,15 +1099,15 @@ export default function AttendeesPage() {
                                 </span>
                               </div>
 
-                              {fields.length > 0 ? (
+                              {columns.length > 0 ? (
                                 <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
-                                  {fields.map((field) => (
-                                    <div key={field.id}>
+                                  {columns.map(({ key, field }) => (
+                                    <div key={key}>
                                       <p className="text-xs font-medium" style={{ color: 'var(--color-text-muted)' }}>
                                         {resolveLabel(field.label)}
                                       </p>
                                       <p className="text-sm" style={{ color: 'var(--color-text)' }}>
-                                        {renderAnswerValue(field, sub.data[field.id])}
+                                        {renderAnswerValue(field, answers[key])}
                                       </p>
                                     </div>
                                   ))}
@@ -0,0 +1,563 @@
+'use client';
+
+import { useEffect, useState, useCallback, useMemo } from 'react';
+import { toast } from 'sonner';
+import { useEventId } from '@/hooks/use-event-id';
+import {
+  api,
+  type AttendeeImport,
+  type AttendeeImportIssue,
+  type AttendeeImportPreview,
+  type CompType,
+  type FormSchema,
+} from '@/lib/api';
+import { DataTable } from '@/components/data-table';
+import { StatusBadge } from '@/components/status-badge';
+import { Icons } from '@/components/icons';
+import { useI18n } from '@/i18n/i18n-provider';
+
+/** Poll interval while an import is queued or running. */
+const POLL_MS = 2000;
+
+/** Core attendee fields a column can map onto (server: CORE_TARGETS). */
+const CORE_TARGETS = [
+  'email', 'firstName', 'lastName', 'phone', 'company', 'badgeName',
+  'jobTitle', 'orgRole', 'dietaryNeeds', 'accessibilityNeeds', 'tags',
+] as const;
+
+/** Form field types the server accepts imported values for. */
+const IMPORTABLE_FIELD_TYPES = [
+  'text', 'email', 'phone', 'url', 'textarea', 'number', 'date', 'country', 'canton',
+  'select', 'radio', 'multi-select', 'checkbox', 'yes-no',
+];
+
+const COMP_TYPE_OPTIONS: { value: CompType; labelKey: string }[] = [
+  { value: 'staff', labelKey: 'staffPartners.type.staff' },
+  { value: 'volunteer', labelKey: 'staffPartners.type.volunteer' },
+  { value: 'partner', labelKey: 'staffPartners.type.partner' },
+  { value: 'sponsor_no_booth', labelKey: 'staffPartners.type.sponsorNoBooth' },
+  { value: 'sponsor_with_booth', labelKey: 'staffPartners.type.sponsorWithBooth' },
+];
+
+interface SchemaField {
+  id: string;
+  type: string;
+  label: Record<string, string>;
+}
+
+const inputStyle = {
+  background: 'var(--color-bg-card)',
+  border: '1px solid var(--color-border)',
+  color: 'var(--color-text)',
+};
+
+const cardStyle = {
+  background: 'var(--color-bg-card)',
+  border: '1px solid var(--color-border)',
+  boxShadow: 'var(--shadow-sm)',
+};
+
+export default function AttendeeImportPage() {
+  const { t, locale } = useI18n();
+  const eventId = useEventId();
+  const [imports, setImports] = useState<AttendeeImport[]>([]);
+  const [schemas, setSchemas] = useState<FormSchema[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [file, setFile] = useState<File | null>(null);
+  const [uploading, setUploading] = useState(false);
+
+  // Import being mapped or watched
+  const [current, setCurrent] = useState<AttendeeImport | null>(null);
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [formSchemaId, setFormSchemaId] = useState('');
+  const [compType, setCompType] = useState<CompType | ''>('');
+  const [sendInvitations, setSendInvitations] = useState(false);
+  const [preview, setPreview] = useState<AttendeeImportPreview | null>(null);
+  const [busy, setBusy] = useState<'preview' | 'start' | 'discard' | null>(null);
+
+  const loadImports = useCallback(async () => {
+    if (!eventId) return;
+    try {
+      const list = await api.getAttendeeImports(eventId);
+      setImports(list);
+      setCurrent((prev) => (prev ? { ...prev, ...list.find((x) => x.id === prev.id) } : prev));
+    } catch {
+      // silent
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    if (!eventId) return;
+    const controller = new AbortController();
+    Promise.all([
+      api.getAttendeeImports(eventId, controller.signal),
+      api.getFormSchemas(eventId, controller.signal),
+    ])
+      .then(([list, fs]) => {
+        setImports(list);
+        setSchemas(fs.filter((s) => s.active));
+      })
+      .catch(() => {})
+      .finally(() => setLoading(false));
+    return () => controller.abort();
+  }, [eventId]);
+
+  // Keep progress fresh while anything is in flight
+  const inFlight = imports.some((i) => i.status === 'queued' || i.status === 'running');
+  useEffect(() => {
+    if (!inFlight) return;
+    const timer = setInterval(loadImports, POLL_MS);
+    return () => clearInterval(timer);
+  }, [inFlight, loadImports]);
+
+  const open = (imp: AttendeeImport) => {
+    setCurrent(imp);
+    setMapping(imp.mapping ?? {});
+    setFormSchemaId(imp.options?.formSchemaId ?? '');
+    setCompType(imp.options?.compType ?? '');
+    setSendInvitations(!!imp.options?.sendInvitations);
+    setPreview(null);
+  };
+
+  const formFields = useMemo<SchemaField[]>(() => {
+    const schema = schemas.find((s) => s.id === formSchemaId);
+    const fields = (schema?.fields as { fields?: SchemaField[] } | undefined)?.fields ?? [];
+    return fields.filter((f) => IMPORTABLE_FIELD_TYPES.includes(f.type));
+  }, [schemas, formSchemaId]);
+
+  const fieldLabel = (f: SchemaField) => f.label?.[locale] || f.label?.en || f.id;
+
+  // Any change to the mapping or options invalidates the dry run
+  const updateMapping = (column: string, target: string) => {
+    setMapping((prev) => {
+      const next = { ...prev };
+      // A target can only be fed by one column
+      for (const [col, tgt] of Object.entries(next)) if (tgt === target && target) delete next[col];
+      if (target) next[column] = target;
+      else delete next[column];
+      return next;
+    });
+    setPreview(null);
+  };
+
+  const changeSchema = (id: string) => {
+    setFormSchemaId(id);
+    setMapping((prev) => Object.fromEntries(Object.entries(prev).filter(([, tgt]) => !tgt.startsWith('form:'))));
+    setPreview(null);
+  };
+
+  const runPayload = () => ({
+    mapping,
+    formSchemaId: formSchemaId || null,
+    compType: compType || null,
+    sendInvitations: !!compType && sendInvitations,
+  });
+
+  const handleUpload = async () => {
+    if (!file) return;
+    setUploading(true);
+    try {
+      const imp = await api.uploadAttendeeImport(eventId, file);
+      open(imp);
+      setFile(null);
+      await loadImports();
+    } catch (err: any) {
+      toast.error(err?.message ?? t('attendees.importPage.uploadError'));
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handlePreview = async () => {
+    if (!current) return;
+    setBusy('preview');
+    try {
+      setPreview(await api.previewAttendeeImport(current.id, eventId, runPayload()));
+    } catch (err: any) {
+      toast.error(err?.message ?? t('attendees.importPage.previewError'));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleStart = async () => {
+    if (!current || !preview) return;
+    if (compType && sendInvitations &&
+      !confirm(t('attendees.importPage.confirmInvitations').replace('{count}', String(preview.valid)))) {
+      return;
+    }
+    setBusy('start');
+    try {
+      const imp = await api.startAttendeeImport(current.id, eventId, runPayload());
+      setCurrent(imp);
+      setPreview(null);
+      toast.success(t('attendees.importPage.started'));
+      await loadImports();
+    } catch (err: any) {
+      toast.error(err?.message ?? t('attendees.importPage.startError'));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleDiscard = async () => {
+    if (!current) return;
+    setBusy('discard');
+    try {
+      await api.deleteAttendeeImport(current.id, eventId);
+      setCurrent(null);
+      setPreview(null);
+      await loadImports();
+    } catch (err: any) {
+      toast.error(err?.message ?? t('attendees.importPage.discardError'));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-3">
+        {[1, 2].map((i) => (
+          <div
+            key={i}
+            className="h-12 animate-pulse rounded-lg"
+            style={{ background: 'var(--color-bg-muted)' }}
+          />
+        ))}
+      </div>
+    );
+  }
+
+  const editable = current && (current.status === 'uploaded' || current.status === 'failed');
+
+  return (
+    <div>
+      <div className="mb-6 flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-xl font-bold sm:text-2xl" style={{ color: 'var(--color-text)' }}>
+            {t('attendees.importPage.title')}
+          </h1>
+          <p className="mt-1 text-sm" style={{ color: 'var(--color-text-secondary)' }}>
+            {t('attendees.importPage.subtitle')}
+          </p>
+        </div>
+        <a
+          href={`/dashboard/events/${eventId}/attendees/`}
+          className="text-sm font-medium"
+          style={{ color: 'var(--color-primary)' }}
+        >
+          ← {t('attendees.importPage.back')}
+        </a>
+      </div>
+
+      {/* Step 1 — upload */}
+      {!current && (
+        <div className="mb-6 rounded-xl p-5" style={cardStyle}>
+          <p className="mb-3 text-sm" style={{ color: 'var(--color-text-secondary)' }}>
+            {t('attendees.importPage.uploadHint')}
+          </p>
+          <div className="flex flex-col gap-3 sm:flex-row sm:items-center">
+            <input
+              type="file"
+              accept=".csv,.xlsx"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              className="text-sm"
+              style={{ color: 'var(--color-text)' }}
+            />
+            <button
+              onClick={handleUpload}
+              disabled={!file || uploading}
+              className="flex items-center justify-center gap-2 rounded-lg px-4 py-2 text-sm font-medium text-white disabled:opacity-50"
+              style={{ background: 'var(--color-primary)' }}
+            >
+              <Icons.Upload size={14} />
+              {uploading ? '…' : t('attendees.importPage.upload')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Step 2 — mapping, options and dry run */}
+      {current && editable && (
+        <div className="mb-6 space-y-5 rounded-xl p-5" style={cardStyle}>
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-sm font-medium" style={{ color: 'var(--color-text)' }}>
+              <Icons.FileText size={14} className="mr-1 inline" />
+              {current.fileName} · {t('attendees.importPage.rows').replace('{count}', String(current.total))}
+            </p>
+            <button
+              onClick={handleDiscard}
+              disabled={busy !== null}
+              className="text-xs font-medium disabled:opacity-50"
+              style={{ color: 'var(--color-danger)' }}
+            >
+              {t('attendees.importPage.discard')}
+            </button>
+          </div>
+          {current.status === 'failed' && current.error && (
+            <p className="text-xs" style={{ color: 'var(--color-danger)' }}>{current.error}</p>
+          )}
+
+          <div className="grid gap-4 sm:grid-cols-3">
+            <label className="block text-sm" style={{ color: 'var(--color-text-secondary)' }}>
+              {t('attendees.importPage.formSchema')}
+              <select
+                value={formSchemaId}
+                onChange={(e) => changeSchema(e.target.value)}
+                className="mt-1 w-full rounded-lg px-3 py-2 text-sm"
+                style={inputStyle}
+              >
+                <option value="">{t('attendees.importPage.noFormSchema')}</option>
+                {schemas.map((s) => (
+                  <option key={s.id} value={s.id}>{s.name} (v{s.version})</option>
+                ))}
+              </select>
+            </label>
+            <label className="block text-sm" style={{ color: 'var(--color-text-secondary)' }}>
+              {t('attendees.importPage.compType')}
+              <select
+                value={compType}
+                onChange={(e) => { setCompType(e.target.value as CompType | ''); setPreview(null); }}
+                className="mt-1 w-full rounded-lg px-3 py-2 text-sm"
+                style={inputStyle}
+              >
+                <option value="">{t('attendees.importPage.noCompTicket')}</option>
+                {COMP_TYPE_OPTIONS.map((o) => (
+                  <option key={o.value} value={o.value}>{t(o.labelKey)}</option>
+                ))}
+              </select>
+            </label>
+            <label
+              className="flex items-center gap-2 self-end pb-2 text-sm"
+              style={{ color: compType ? 'var(--color-text-secondary)' : 'var(--color-text-muted)' }}
+            >
+              <input
+                type="checkbox"
+                checked={!!compType && sendInvitations}
+                disabled={!compType}
+                onChange={(e) => setSendInvitations(e.target.checked)}
+              />
+              {t('attendees.importPage.sendInvitations')}
+            </label>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr style={{ color: 'var(--color-text-muted)' }}>
+                  <th className="py-2 pr-4 text-left font-medium">{t('attendees.importPage.column')}</th>
+                  <th className="py-2 pr-4 text-left font-medium">{t('attendees.importPage.example')}</th>
+                  <th className="py-2 text-left font-medium">{t('attendees.importPage.target')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {current.columns.map((column) => (
+                  <tr key={column} style={{ borderTop: '1px solid var(--color-border)' }}>
+                    <td className="py-2 pr-4 font-medium" style={{ color: 'var(--color-text)' }}>{column}</td>
+                    <td className="max-w-[14rem] truncate py-2 pr-4" style={{ color: 'var(--color-text-secondary)' }}>
+                      {current.sample?.find((r) => r[column])?.[column] ?? '—'}
+                    </td>
+                    <td className="py-2">
+                      <select
+                        value={mapping[column] ?? ''}
+                        onChange={(e) => updateMapping(column, e.target.value)}
+                        className="w-full rounded-lg px-3 py-1.5 text-sm"
+                        style={inputStyle}
+                      >
+                        <option value="">{t('attendees.importPage.ignore')}</option>
+                        <optgroup label={t('attendees.importPage.attendeeFields')}>
+                          {CORE_TARGETS.map((target) => (
+                            <option key={target} value={target}>
+                              {t(`attendees.importPage.target.${target}`)}
+                            </option>
+                          ))}
+                        </optgroup>
+                        {formFields.length > 0 && (
+                          <optgroup label={t('attendees.importPage.formFields')}>
+                            {formFields.map((f) => (
+                              <option key={f.id} value={`form:${f.id}`}>{fieldLabel(f)}</option>
+                            ))}
+                          </optgroup>
+                        )}
+                      </select>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex flex-col gap-2 sm:flex-row sm:justify-end">
+            <button
+              onClick={handlePreview}
+              disabled={busy !== null}
+              className="rounded-lg px-4 py-2 text-sm font-medium disabled:opacity-50"
+              style={inputStyle}
+            >
+              {busy === 'preview' ? '…' : t('attendees.importPage.dryRun')}
+            </button>
+            <button
+              onClick={handleStart}
+              disabled={busy !== null || !preview || preview.valid === 0}
+              title={!preview ? t('attendees.importPage.dryRunFirst') : undefined}
+              className="flex items-center justify-center gap-2 rounded-lg px-4 py-2 text-sm font-medium text-white disabled:opacity-50"
+              style={{ background: 'var(--color-primary)' }}
+            >
+              <Icons.Users size={14} />
+              {busy === 'start'
+                ? '…'
+                : t('attendees.importPage.start').replace('{count}', String(preview?.valid ?? 0))}
+            </button>
+          </div>
+
+          {preview && (
+            <div className="space-y-4">
+              <p className="text-sm" style={{ color: 'var(--color-text)' }}>
+                {t('attendees.importPage.previewSummary')
+                  .replace('{valid}', String(preview.valid))
+                  .replace('{total}', String(preview.total))
+                  .replace('{invalid}', String(preview.invalid))}
+              </p>
+              {preview.sample.length > 0 && (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr style={{ color: 'var(--color-text-muted)' }}>
+                        <th className="py-1 pr-4 text-left font-medium">{t('attendees.importPage.row')}</th>
+                        <th className="py-1 pr-4 text-left font-medium">{t('attendees.importPage.target.email')}</th>
+                        <th className="py-1 pr-4 text-left font-medium">{t('attendees.importPage.name')}</th>
+                        <th className="py-1 text-left font-medium">{t('attendees.importPage.target.company')}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {preview.sample.map((r) => (
+                        <tr key={r.row} style={{ borderTop: '1px solid var(--color-border)', color: 'var(--color-text)' }}>
+                          <td className="py-1 pr-4">{r.row}</td>
+                          <td className="py-1 pr-4">{r.email}</td>
+                          <td className="py-1 pr-4">{r.firstName} {r.lastName}</td>
+                          <td className="py-1">{r.company ?? '—'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+              <IssueList issues={preview.issues} />
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Step 3 — progress and report */}
+      {current && !editable && (
+        <div className="mb-6 space-y-4 rounded-xl p-5" style={cardStyle}>
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-sm font-medium" style={{ color: 'var(--color-text)' }}>
+              {current.fileName}
+            </p>
+            <StatusBadge status={current.status} />
+          </div>
+          <Progress done={current.done} total={current.total} />
+          {current.status === 'completed' && (
+            <>
+              <p className="text-sm" style={{ color: 'var(--color-text)' }}>
+                {t('attendees.importPage.result')
+                  .replace('{created}', String(current.created))
+                  .replace('{skipped}', String(current.skipped))}
+              </p>
+              <IssueList issues={current.issues ?? []} />
+            </>
+          )}
+          <button
+            onClick={() => setCurrent(null)}
+            className="text-sm font-medium"
+            style={{ color: 'var(--color-primary)' }}
+          >
+            {t('attendees.importPage.another')}
+          </button>
+        </div>
+      )}
+
+      <DataTable<AttendeeImport & Record<string, unknown>>
+        columns={[
+          {
+            key: 'createdAt',
+            header: t('attendees.importPage.column.created'),
+            render: (row) => new Date(row.createdAt as string).toLocaleString('en-CH'),
+          },
+          { key: 'fileName', header: t('attendees.importPage.column.file') },
+          {
+            key: 'status',
+            header: t('attendees.importPage.column.status'),
+            render: (row) => <StatusBadge status={row.status as string} />,
+          },
+          {
+            key: 'done',
+            header: t('attendees.importPage.column.progress'),
+            render: (row) => <Progress done={row.done as number} total={row.total as number} />,
+          },
+          {
+            key: 'created',
+            header: t('attendees.importPage.column.result'),
+            render: (row) =>
+              row.status === 'completed'
+                ? t('attendees.importPage.result')
+                    .replace('{created}', String(row.created))
+                    .replace('{skipped}', String(row.skipped))
+                : '—',
+          },
+        ]}
+        data={imports as (AttendeeImport & Record<string, unknown>)[]}
+        onRowClick={(row) => open(row as AttendeeImport)}
+        emptyMessage={t('attendees.importPage.empty')}
+      />
+    </div>
+  );
+}
+
+function Progress({ done, total }: { done: number; total: number }) {
+  const pct = total > 0 ? Math.round((done / total) * 100) : 0;
+  return (
+    <div className="w-full max-w-xs">
+      <div className="h-1.5 rounded-full" style={{ background: 'var(--color-bg-muted)' }}>
+        <div
+          className="h-1.5 rounded-full transition-all"
+          style={{ width: `${pct}%`, background: 'var(--color-primary)' }}
+        />
+      </div>
+      <p className="mt-1 text-xs" style={{ color: 'var(--color-text-muted)' }}>
+        {done} / {total}
+      </p>
+    </div>
+  );
+}
+
+function IssueList({ issues }: { issues: AttendeeImportIssue[] }) {
+  const { t } = useI18n();
+  if (issues.length === 0) return null;
+  return (
+    <div className="max-h-80 overflow-y-auto rounded-lg" style={{ border: '1px solid var(--color-border)' }}>
+      <p
+        className="sticky top-0 flex items-center gap-1 px-3 py-2 text-xs font-medium"
+        style={{ background: 'var(--color-bg-subtle)', color: 'var(--color-warning)' }}
+      >
+        <Icons.AlertTriangle size={13} />
+        {t('attendees.importPage.skippedRows').replace('{count}', String(issues.length))}
+      </p>
+      <ul className="text-sm">
+        {issues.map((issue) => (
+          <li
+            key={issue.row}
+            className="px-3 py-1.5"
+            style={{ borderTop: '1px solid var(--color-border)', color: 'var(--color-text)' }}
+          >
+            <span className="font-medium">{t('attendees.importPage.row')} {issue.row}</span>
+            {issue.email && <span style={{ color: 'var(--color-text-secondary)' }}> · {issue.email}</span>}
+            <span style={{ color: 'var(--color-danger)' }}> — {issue.errors.join('; ')}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -12,18 +12,32 @@ const PAGE_SIZE = 30;
 const ACTION_ICONS: Record<string, ReactNode> = {
   'event.created':          <Icons.Sparkles size={16} />,
   'event.updated':          <Icons.Edit size={16} />,
+  'event.cloned':           <Icons.Copy size={16} />,
   'ticket_type.created':    <Icons.Ticket size={16} />,
   'ticket_type.updated':    <Icons.Ticket size={16} />,
   'order.created':          <Icons.ShoppingCart size={16} />,
   'order.paid':             <Icons.DollarSign size={16} />,
   'order.refunded':         <Icons.Undo size={16} />,
   'order.cancelled':        <Icons.X size={16} />,
+  'order.invoice_issued':   <Icons.FileText size={16} />,
+  'bank.statement_imported': <Icons.Upload size={16} />,
+  'bank.transfer_matched':  <Icons.CreditCard size={16} />,
+  'box_office.sale':        <Icons.ShoppingCart size={16} />,
+  'box_office.drawer_closed': <Icons.Coins size={16} />,
+  'user.event_role_granted': <Icons.UserPlus size={16} />,
+  'user.event_role_revoked': <Icons.Ban size={16} />,
   'attendee.created':       <Icons.User size={16} />,
   'attendee.updated':       <Icons.User size={16} />,
+  'attendee_import.started': <Icons.Upload size={16} />,
+  'attendee_import.completed': <Icons.Users size={16} />,
   'check_in.recorded':      <Icons.CheckCircle size={16} />,
   'check_in.reverted':      <Icons.Undo size={16} />,
   'check_in.duplicate':     <Icons.AlertTriangle size={16} />,
   'check_in.offline_sync':  <Icons.CheckCircle size={16} />,
+  'check_in.manifest_issued': <Icons.QrCode size={16} />,
+  'check_in.zone_denied':   <Icons.Ban size={16} />,
+  'check_in.zone_flagged':  <Icons.AlertTriangle size={16} />,
+  'check_in.wrong_day':     <Icons.Calendar size={16} />,
   'promo_code.created':     <Icons.Tag size={16} />,
   'promo_code.updated':     <Icons.Tag size={16} />,
   'promo_code.deactivated': <Icons.Ban size={16} />,
@@ -31,11 +45,14 @@ const ACTION_ICONS: Record<string, ReactNode> = {
   'webhook.failed':         <Icons.AlertTriangle size={16} />,
   'webhook.endpoint_created': <Icons.Link size={16} />,
   'webhook.endpoint_deleted': <Icons.X size={16} />,
+  'api_key.created':        <Icons.Key size={16} />,
+  'api_key.revoked':        <Icons.Ban size={16} />,
   'setting.updated':        <Icons.Settings size={16} />,
   'auth.token_exchange':    <Icons.Key size={16} />,
   'auth.failed':            <Icons.AlertTriangle size={16} />,
   'ticket.issued':          <Icons.Ticket size={16} />,
   'ticket.voided':          <Icons.Ban size={16} />,
+  'ticket.transferred':     <Icons.ArrowRight size={16} />,
   'gdpr.data_access':       <Icons.Eye size={16} />,
   'gdpr.erasure':           <Icons.Trash size={16} />,
   'app.started':            <Icons.Zap size={16} />,
@@ -53,18 +70,32 @@ export default function AuditLogPage() {
     const labels: Record<string, string> = {
       'event.created':          t('audit.action.eventCreated'),
       'event.updated':          t('audit.action.eventUpdated'),
+      'event.cloned':           t('audit.action.eventCloned'),
       'ticket_type.created':    t('audit.action.ticketTypeCreated'),
       'ticket_type.updated':    t('audit.action.ticketTypeUpdated'),
       'order.created':          t('audit.action.orderCreated'),
       'order.paid':             t('audit.action.orderPaid'),
       'order.refunded':         t('audit.action.orderRefunded'),
       'order.cancelled':        t('audit.action.orderCancelled'),
+      'order.invoice_issued':   t('audit.action.orderInvoiceIssued'),
+      'bank.statement_imported': t('audit.action.bankStatementImported'),
+      'bank.transfer_matched':  t('audit.action.bankTransferMatched'),
+      'box_office.sale':        t('audit.action.boxOfficeSale'),
+      'box_office.drawer_closed': t('audit.action.boxOfficeDrawerClosed'),
+      'user.event_role_granted': t('audit.action.userEventRoleGranted'),
+      'user.event_role_revoked': t('audit.action.userEventRoleRevoked'),
       'attendee.created':       t('audit.action.attendeeCreated'),
       'attendee.updated':       t('audit.action.attendeeUpdated'),
+      'attendee_import.started': t('audit.action.attendeeImportStarted'),
+      'attendee_import.completed': t('audit.action.attendeeImportCompleted'),
       'check_in.recorded':      t('audit.action.checkInRecorded'),
       'check_in.reverted':      t('audit.action.checkInReverted'),
       'check_in.duplicate':     t('audit.action.checkInDuplicate'),
       'check_in.offline_sync':  t('audit.action.checkInOfflineSync'),
+      'check_in.manifest_issued': t('audit.action.checkInManifestIssued'),
+      'check_in.zone_denied':   t('audit.action.checkInZoneDenied'),
+      'check_in.zone_flagged':  t('audit.action.checkInZoneFlagged'),
+      'check_in.wrong_day':     t('audit.action.checkInWrongDay'),
       'promo_code.created':     t('audit.action.promoCodeCreated'),
       'promo_code.updated':     t('audit.action.promoCodeUpdated'),
       'promo_code.deactivated': t('audit.action.promoCodeDeactivated'),
@@ -72,11 +103,14 @@ export default function AuditLogPage() {
       'webhook.failed':         t('audit.action.webhookFailed'),
       'webhook.endpoint_created': t('audit.action.webhookEndpointCreated'),
       'webhook.endpoint_deleted': t('audit.action.webhookEndpointDeleted'),
+      'api_key.created': t('audit.action.apiKeyCreated'),
+      'api_key.revoked': t('audit.action.apiKeyRevoked'),
       'setting.updated':        t('audit.action.settingUpdated'),
       'auth.token_exchange':    t('audit.action.authTokenExchange'),
       'auth.failed':            t('audit.action.authFailed'),
       'ticket.issued':          t('audit.action.ticketIssued'),
       'ticket.voided':          t('audit.action.ticketVoided'),
+      'ticket.transferred':     t('audit.action.ticketTransferred'),
       'gdpr.data_access':       t('audit.action.gdprDataAccess'),
       'gdpr.erasure':           t('audit.action.gdprErasure'),
       'app.started':            t('audit.action.appStarted'),
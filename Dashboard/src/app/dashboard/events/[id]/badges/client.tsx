@@ -0,0 +1,341 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import { toast } from 'sonner';
+import { useEventId } from '@/hooks/use-event-id';
+import { api, downloadFile, type BadgeBatch, type BadgeTemplate, type TicketType } from '@/lib/api';
+import { DataTable } from '@/components/data-table';
+import { StatusBadge } from '@/components/status-badge';
+import { Icons } from '@/components/icons';
+import { useI18n } from '@/i18n/i18n-provider';
+
+/** Poll interval while a batch is queued or running. */
+const POLL_MS = 2000;
+
+const inputStyle = {
+  background: 'var(--color-bg-card)',
+  border: '1px solid var(--color-border)',
+  color: 'var(--color-text)',
+};
+
+export default function BadgesPage() {
+  const { t } = useI18n();
+  const eventId = useEventId();
+  const [templates, setTemplates] = useState<BadgeTemplate[]>([]);
+  const [ticketTypes, setTicketTypes] = useState<TicketType[]>([]);
+  const [batches, setBatches] = useState<BadgeBatch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [starting, setStarting] = useState(false);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+
+  // Batch form
+  const [templateId, setTemplateId] = useState('');
+  const [ticketTypeIds, setTicketTypeIds] = useState<string[]>([]);
+  const [tags, setTags] = useState('');
+  const [checkIn, setCheckIn] = useState<'all' | 'checked_in' | 'not_checked_in'>('all');
+  const [sort, setSort] = useState<'name' | 'company'>('name');
+  const [paper, setPaper] = useState<'A4' | 'Letter'>('A4');
+  const [cropMarks, setCropMarks] = useState(true);
+
+  const loadBatches = useCallback(async () => {
+    if (!eventId) return;
+    try {
+      setBatches(await api.getBadgeBatches(eventId));
+    } catch {
+      // silent
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    if (!eventId) return;
+    const controller = new AbortController();
+    Promise.all([
+      api.getBadgeTemplates(eventId, controller.signal),
+      api.getTicketTypes(eventId, controller.signal),
+      api.getBadgeBatches(eventId, controller.signal),
+    ])
+      .then(([tpl, tt, bb]) => {
+        const usable = tpl.filter((x) => x.active);
+        setTemplates(usable);
+        setTemplateId((usable.find((x) => x.isDefault) ?? usable[0])?.id ?? '');
+        setTicketTypes(tt);
+        setBatches(bb);
+      })
+      .catch(() => {})
+      .finally(() => setLoading(false));
+    return () => controller.abort();
+  }, [eventId]);
+
+  // Keep progress fresh while anything is in flight
+  const inFlight = batches.some((b) => b.status === 'queued' || b.status === 'running');
+  useEffect(() => {
+    if (!inFlight) return;
+    const timer = setInterval(loadBatches, POLL_MS);
+    return () => clearInterval(timer);
+  }, [inFlight, loadBatches]);
+
+  const toggleTicketType = (id: string) =>
+    setTicketTypeIds((prev) => (prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]));
+
+  const handleStart = async () => {
+    if (!templateId) return;
+    setStarting(true);
+    try {
+      const tagList = tags.split(',').map((s) => s.trim()).filter(Boolean);
+      const batch = await api.createBadgeBatch(eventId, {
+        templateId,
+        ticketTypeIds: ticketTypeIds.length ? ticketTypeIds : undefined,
+        tags: tagList.length ? tagList : undefined,
+        checkIn,
+        sort,
+        paper,
+        cropMarks,
+      });
+      toast.success(t('badges.started').replace('{count}', String(batch.total)));
+      await loadBatches();
+    } catch (err: any) {
+      toast.error(err?.message ?? t('badges.startError'));
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const handleDownload = async (batch: BadgeBatch) => {
+    setDownloadingId(batch.id);
+    try {
+      await downloadFile(api.badgeBatchUrl(batch.id, eventId), `badges-${batch.id.slice(0, 8)}.pdf`);
+    } catch (err: any) {
+      toast.error(err?.message ?? t('badges.downloadError'));
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-3">
+        {[1, 2].map((i) => (
+          <div
+            key={i}
+            className="h-12 animate-pulse rounded-lg"
+            style={{ background: 'var(--color-bg-muted)' }}
+          />
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-xl font-bold sm:text-2xl" style={{ color: 'var(--color-text)' }}>
+          {t('badges.title')}
+        </h1>
+        <p className="mt-1 text-sm" style={{ color: 'var(--color-text-secondary)' }}>
+          {t('badges.subtitle')}
+        </p>
+      </div>
+
+      <div
+        className="mb-6 rounded-xl p-5"
+        style={{
+          background: 'var(--color-bg-card)',
+          border: '1px solid var(--color-border)',
+          boxShadow: 'var(--shadow-sm)',
+        }}
+      >
+        {templates.length === 0 ? (
+          <p className="text-sm" style={{ color: 'var(--color-text-muted)' }}>
+            {t('badges.noTemplates')}
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+              <label className="block text-sm" style={{ color: 'var(--color-text-secondary)' }}>
+                {t('badges.template')}
+                <select
+                  value={templateId}
+                  onChange={(e) => setTemplateId(e.target.value)}
+                  className="mt-1 w-full rounded-lg px-3 py-2 text-sm"
+                  style={inputStyle}
+                >
+                  {templates.map((tpl) => (
+                    <option key={tpl.id} value={tpl.id}>
+                      {tpl.name} ({tpl.dimensions.widthMm}×{tpl.dimensions.heightMm} mm)
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="block text-sm" style={{ color: 'var(--color-text-secondary)' }}>
+                {t('badges.checkIn')}
+                <select
+                  value={checkIn}
+                  onChange={(e) => setCheckIn(e.target.value as typeof checkIn)}
+                  className="mt-1 w-full rounded-lg px-3 py-2 text-sm"
+                  style={inputStyle}
+                >
+                  <option value="all">{t('badges.checkIn.all')}</option>
+                  <option value="not_checked_in">{t('badges.checkIn.notCheckedIn')}</option>
+                  <option value="checked_in">{t('badges.checkIn.checkedIn')}</option>
+                </select>
+              </label>
+              <label className="block text-sm" style={{ color: 'var(--color-text-secondary)' }}>
+                {t('badges.sort')}
+                <select
+                  value={sort}
+                  onChange={(e) => setSort(e.target.value as typeof sort)}
+                  className="mt-1 w-full rounded-lg px-3 py-2 text-sm"
+                  style={inputStyle}
+                >
+                  <option value="name">{t('badges.sort.name')}</option>
+                  <option value="company">{t('badges.sort.company')}</option>
+                </select>
+              </label>
+              <label className="block text-sm" style={{ color: 'var(--color-text-secondary)' }}>
+                {t('badges.paper')}
+                <select
+                  value={paper}
+                  onChange={(e) => setPaper(e.target.value as typeof paper)}
+                  className="mt-1 w-full rounded-lg px-3 py-2 text-sm"
+                  style={inputStyle}
+                >
+                  <option value="A4">A4</option>
+                  <option value="Letter">US Letter</option>
+                </select>
+              </label>
+            </div>
+
+            {ticketTypes.length > 0 && (
+              <div>
+                <p className="mb-2 text-sm" style={{ color: 'var(--color-text-secondary)' }}>
+                  {t('badges.ticketTypes')}
+                </p>
+                <div className="flex flex-wrap gap-3">
+                  {ticketTypes.map((tt) => (
+                    <label
+                      key={tt.id}
+                      className="flex items-center gap-2 text-sm"
+                      style={{ color: 'var(--color-text)' }}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={ticketTypeIds.includes(tt.id)}
+                        onChange={() => toggleTicketType(tt.id)}
+                      />
+                      {tt.name}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="flex flex-col gap-3 sm:flex-row sm:items-end">
+              <label className="block flex-1 text-sm" style={{ color: 'var(--color-text-secondary)' }}>
+                {t('badges.tags')}
+                <input
+                  value={tags}
+                  onChange={(e) => setTags(e.target.value)}
+                  placeholder={t('badges.tagsPlaceholder')}
+                  className="mt-1 w-full rounded-lg px-3 py-2 text-sm"
+                  style={inputStyle}
+                />
+              </label>
+              <label className="flex items-center gap-2 pb-2 text-sm" style={{ color: 'var(--color-text-secondary)' }}>
+                <input type="checkbox" checked={cropMarks} onChange={(e) => setCropMarks(e.target.checked)} />
+                {t('badges.cropMarks')}
+              </label>
+              <button
+                onClick={handleStart}
+                disabled={starting || !templateId}
+                className="flex items-center justify-center gap-2 rounded-lg px-4 py-2 text-sm font-medium text-white disabled:opacity-50"
+                style={{ background: 'var(--color-primary)' }}
+              >
+                <Icons.Printer size={14} />
+                {starting ? '…' : t('badges.start')}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <DataTable<BadgeBatch & Record<string, unknown>>
+        columns={[
+          {
+            key: 'createdAt',
+            header: t('badges.column.created'),
+            render: (row) => new Date(row.createdAt as string).toLocaleString('en-CH'),
+          },
+          {
+            key: 'templateId',
+            header: t('badges.template'),
+            render: (row) => templates.find((x) => x.id === row.templateId)?.name ?? '—',
+          },
+          {
+            key: 'status',
+            header: t('badges.column.status'),
+            render: (row) => {
+              const batch = row as BadgeBatch;
+              return (
+                <div>
+                  <StatusBadge status={batch.status} />
+                  {batch.status === 'failed' && batch.error && (
+                    <p className="mt-1 text-xs" style={{ color: 'var(--color-danger)' }}>
+                      {batch.error}
+                    </p>
+                  )}
+                </div>
+              );
+            },
+          },
+          {
+            key: 'done',
+            header: t('badges.column.progress'),
+            render: (row) => {
+              const batch = row as BadgeBatch;
+              const pct = batch.total > 0 ? Math.round((batch.done / batch.total) * 100) : 0;
+              return (
+                <div className="w-32">
+                  <div className="h-1.5 rounded-full" style={{ background: 'var(--color-bg-muted)' }}>
+                    <div
+                      className="h-1.5 rounded-full transition-all"
+                      style={{ width: `${pct}%`, background: 'var(--color-primary)' }}
+                    />
+                  </div>
+                  <p className="mt-1 text-xs" style={{ color: 'var(--color-text-muted)' }}>
+                    {batch.done} / {batch.total}
+                  </p>
+                </div>
+              );
+            },
+          },
+          {
+            key: 'pages',
+            header: t('badges.column.sheets'),
+            render: (row) =>
+              row.pages ? `${row.pages} × ${(row as BadgeBatch).options.paper}` : '—',
+          },
+          {
+            key: 'id',
+            header: '',
+            render: (row) => {
+              const batch = row as BadgeBatch;
+              if (batch.status !== 'completed') return null;
+              return (
+                <button
+                  onClick={(e) => { e.stopPropagation(); handleDownload(batch); }}
+                  disabled={downloadingId === batch.id}
+                  className="inline-flex items-center gap-1 rounded px-2 py-1 text-xs font-medium disabled:opacity-50"
+                  style={{ color: 'var(--color-primary)' }}
+                >
+                  <Icons.Download size={14} /> {t('badges.download')}
+                </button>
+              );
+            },
+          },
+        ]}
+        data={batches as (BadgeBatch & Record<string, unknown>)[]}
+        emptyMessage={t('badges.empty')}
+      />
+    </div>
+  );
+}
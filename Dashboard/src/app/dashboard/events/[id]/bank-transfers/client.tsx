@@ -0,0 +1,282 @@
+'use client';
+
+import { useEffect, useRef, useState, useCallback } from 'react';
+import { toast } from 'sonner';
+import { useEventId } from '@/hooks/use-event-id';
+import {
+  api,
+  type BankTransaction,
+  type BankTransactionStatus,
+  type Order,
+  type StatementImportResult,
+} from '@/lib/api';
+import { DataTable } from '@/components/data-table';
+import { StatusBadge } from '@/components/status-badge';
+import { Icons } from '@/components/icons';
+import { useI18n } from '@/i18n/i18n-provider';
+
+const STATUSES: BankTransactionStatus[] = ['matched', 'unmatched', 'amount_mismatch', 'order_not_payable'];
+
+export default function BankTransfersPage() {
+  const { t } = useI18n();
+  const eventId = useEventId();
+  const [transactions, setTransactions] = useState<BankTransaction[]>([]);
+  const [awaiting, setAwaiting] = useState<Order[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<BankTransactionStatus | ''>('');
+  const [importing, setImporting] = useState(false);
+  const [lastImport, setLastImport] = useState<StatementImportResult | null>(null);
+  const [matchSelection, setMatchSelection] = useState<Record<string, string>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const loadData = useCallback(async () => {
+    if (!eventId) return;
+    try {
+      const [txs, orders] = await Promise.all([
+        api.getBankTransactions(eventId),
+        api.getOrders(eventId),
+      ]);
+      setTransactions(txs);
+      setAwaiting(orders.filter((o) => o.status === 'awaiting_payment'));
+    } catch {
+      // silent
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const handleImport = async (file: File) => {
+    setImporting(true);
+    try {
+      const result = await api.importBankStatement(eventId, file);
+      setLastImport(result);
+      toast.success(
+        t('bankTransfers.imported')
+          .replace('{matched}', String(result.matched))
+          .replace('{entries}', String(result.entries)),
+      );
+      await loadData();
+    } catch (err: any) {
+      toast.error(err?.message ?? t('bankTransfers.importError'));
+    } finally {
+      setImporting(false);
+      if (fileInput.current) fileInput.current.value = '';
+    }
+  };
+
+  const handleMatch = async (tx: BankTransaction) => {
+    const orderId = matchSelection[tx.id];
+    if (!orderId) return;
+    const order = awaiting.find((o) => o.id === orderId);
+    if (
+      order &&
+      tx.amountCents < order.totalCents &&
+      !confirm(
+        t('bankTransfers.underpaidConfirm')
+          .replace('{amount}', formatAmount(tx.amountCents, tx.currency))
+          .replace('{total}', formatAmount(order.totalCents, order.currency)),
+      )
+    ) {
+      return;
+    }
+    setBusyId(tx.id);
+    try {
+      await api.matchBankTransaction(eventId, tx.id, orderId);
+      toast.success(t('bankTransfers.matchedToast').replace('{order}', order?.orderNumber ?? ''));
+      await loadData();
+    } catch (err: any) {
+      toast.error(err?.message ?? t('bankTransfers.matchError'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const visible = statusFilter ? transactions.filter((tx) => tx.status === statusFilter) : transactions;
+  const openCount = transactions.filter((tx) => tx.status !== 'matched').length;
+
+  if (loading) {
+    return (
+      <div className="space-y-3">
+        {[1, 2].map((i) => (
+          <div
+            key={i}
+            className="h-12 animate-pulse rounded-lg"
+            style={{ background: 'var(--color-bg-muted)' }}
+          />
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="mb-6 flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-xl font-bold sm:text-2xl" style={{ color: 'var(--color-text)' }}>
+            {t('bankTransfers.title')}
+          </h1>
+          <p className="mt-1 text-sm" style={{ color: 'var(--color-text-secondary)' }}>
+            {t('bankTransfers.subtitle')
+              .replace('{awaiting}', String(awaiting.length))
+              .replace('{open}', String(openCount))}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            className="flex items-center gap-2 rounded-lg px-4 py-2 text-sm font-medium transition-colors"
+            style={{ border: '1px solid var(--color-border)', color: 'var(--color-text-secondary)' }}
+            onClick={() => loadData()}
+          >
+            <Icons.RefreshCw size={14} />
+          </button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".xml,application/xml,text/xml"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+            }}
+          />
+          <button
+            className="flex items-center gap-2 rounded-lg px-4 py-2 text-sm font-medium text-white transition-colors disabled:opacity-50"
+            style={{ background: 'var(--color-primary)' }}
+            disabled={importing}
+            onClick={() => fileInput.current?.click()}
+          >
+            <Icons.Upload size={14} />
+            {importing ? t('bankTransfers.importing') : t('bankTransfers.import')}
+          </button>
+        </div>
+      </div>
+
+      <p className="mb-4 text-xs" style={{ color: 'var(--color-text-muted)' }}>
+        {t('bankTransfers.hint')}
+      </p>
+
+      {lastImport && (
+        <div
+          className="mb-4 rounded-lg p-4 text-sm"
+          style={{ background: 'var(--color-bg-card)', border: '1px solid var(--color-border)', color: 'var(--color-text)' }}
+        >
+          <p className="font-medium">
+            {t('bankTransfers.summary.title').replace('{type}', lastImport.messageType)}
+          </p>
+          <p className="mt-1" style={{ color: 'var(--color-text-secondary)' }}>
+            {t('bankTransfers.summary.detail')
+              .replace('{entries}', String(lastImport.entries))
+              .replace('{matched}', String(lastImport.matched))
+              .replace('{review}', String(lastImport.unmatched + lastImport.amountMismatch + lastImport.orderNotPayable))
+              .replace('{duplicates}', String(lastImport.duplicates))
+              .replace('{otherEvent}', String(lastImport.otherEvent))}
+          </p>
+        </div>
+      )}
+
+      <div className="mb-4 flex flex-wrap items-center gap-3">
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as BankTransactionStatus | '')}
+          className="rounded-lg px-3 py-2 text-sm"
+          style={{
+            background: 'var(--color-bg-card)',
+            border: '1px solid var(--color-border)',
+            color: 'var(--color-text)',
+          }}
+        >
+          <option value="">{t('bankTransfers.filter.all')}</option>
+          {STATUSES.map((status) => (
+            <option key={status} value={status}>{status.replace(/_/g, ' ')}</option>
+          ))}
+        </select>
+      </div>
+
+      <DataTable<BankTransaction & Record<string, unknown>>
+        columns={[
+          {
+            key: 'bookingDate',
+            header: t('bankTransfers.column.booked'),
+            render: (row) =>
+              row.bookingDate ? new Date(row.bookingDate as string).toLocaleDateString('en-CH') : '—',
+          },
+          {
+            key: 'amountCents',
+            header: t('bankTransfers.column.amount'),
+            render: (row) => formatAmount(row.amountCents as number, row.currency as string),
+          },
+          {
+            key: 'debtorName',
+            header: t('bankTransfers.column.payer'),
+            render: (row) => (row.debtorName as string | null) ?? '—',
+          },
+          {
+            key: 'reference',
+            header: t('bankTransfers.column.reference'),
+            render: (row) => (
+              <span className="font-mono text-xs">{(row.reference as string | null) ?? '—'}</span>
+            ),
+          },
+          {
+            key: 'status',
+            header: t('bankTransfers.column.status'),
+            render: (row) => <StatusBadge status={row.status as string} />,
+          },
+          {
+            key: 'orderId',
+            header: t('bankTransfers.column.order'),
+            render: (row) => {
+              const tx = row as BankTransaction;
+              if (tx.status === 'matched' || tx.status === 'order_not_payable') {
+                return tx.order?.orderNumber ?? '—';
+              }
+              const candidates = awaiting.filter((o) => o.currency === tx.currency);
+              if (candidates.length === 0) return '—';
+              return (
+                <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+                  <select
+                    value={matchSelection[tx.id] ?? tx.orderId ?? ''}
+                    onChange={(e) => setMatchSelection((prev) => ({ ...prev, [tx.id]: e.target.value }))}
+                    className="rounded px-2 py-1 text-xs"
+                    style={{
+                      background: 'var(--color-bg-card)',
+                      border: '1px solid var(--color-border)',
+                      color: 'var(--color-text)',
+                    }}
+                  >
+                    <option value="">{t('bankTransfers.selectOrder')}</option>
+                    {candidates.map((o) => (
+                      <option key={o.id} value={o.id}>
+                        {o.orderNumber} · {o.customerName ?? ''} · {formatAmount(o.totalCents, o.currency)}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => handleMatch(tx)}
+                    disabled={busyId === tx.id || !matchSelection[tx.id]}
+                    className="rounded px-2 py-1 text-xs font-medium disabled:opacity-50"
+                    style={{ color: 'var(--color-primary)' }}
+                  >
+                    {t('bankTransfers.match')}
+                  </button>
+                </div>
+              );
+            },
+          },
+        ]}
+        data={visible as (BankTransaction & Record<string, unknown>)[]}
+        searchKeys={['reference', 'debtorName', 'entryRef']}
+        emptyMessage={t('bankTransfers.empty')}
+      />
+    </div>
+  );
+}
+
+function formatAmount(cents: number, currency: string): string {
+  return `${currency} ${(cents / 100).toFixed(2)}`;
+}
@@ -0,0 +1,725 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import { toast } from 'sonner';
+import { useEventId } from '@/hooks/use-event-id';
+import { useAuth } from '@/lib/auth';
+import {
+  api,
+  downloadFile,
+  type BoxOfficeCatalogItem,
+  type BoxOfficePaymentMethod,
+  type BoxOfficeSale,
+  type BoxOfficeSaleResult,
+  type CashDrawer,
+  type DrawerReport,
+} from '@/lib/api';
+import { DataTable } from '@/components/data-table';
+import { StatCard } from '@/components/stat-card';
+import { Icons } from '@/components/icons';
+import { useI18n } from '@/i18n/i18n-provider';
+
+const PAYMENT_METHODS: BoxOfficePaymentMethod[] = ['cash', 'card_terminal', 'comp'];
+
+const SUPERVISOR_ROLES = ['event_admin', 'admin', 'super_admin'];
+
+const INPUT_STYLE = {
+  background: 'var(--color-bg-card)',
+  borderColor: 'var(--color-border)',
+  color: 'var(--color-text)',
+};
+
+const EMPTY_ATTENDEE = { firstName: '', lastName: '', email: '', company: '' };
+
+export default function BoxOfficePage() {
+  const { t } = useI18n();
+  const [tab, setTab] = useState<'sell' | 'drawer'>('sell');
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-xl font-bold sm:text-2xl" style={{ color: 'var(--color-text)' }}>
+          {t('boxOffice.title')}
+        </h1>
+        <p className="mt-1 text-sm" style={{ color: 'var(--color-text-secondary)' }}>
+          {t('boxOffice.subtitle')}
+        </p>
+      </div>
+
+      <div className="mb-6 flex gap-1 border-b" style={{ borderColor: 'var(--color-border)' }}>
+        {(['sell', 'drawer'] as const).map((key) => (
+          <button
+            key={key}
+            onClick={() => setTab(key)}
+            className="-mb-px border-b-2 px-4 py-2 text-sm font-medium transition-colors"
+            style={{
+              borderColor: tab === key ? 'var(--color-primary)' : 'transparent',
+              color: tab === key ? 'var(--color-primary)' : 'var(--color-text-secondary)',
+            }}
+          >
+            {t(`boxOffice.tab.${key}`)}
+          </button>
+        ))}
+      </div>
+
+      {tab === 'sell' ? <SellPanel /> : <DrawerPanel />}
+    </div>
+  );
+}
+
+// ─── Sell ──────────────────────────────────────────────────────────
+
+function SellPanel() {
+  const { t } = useI18n();
+  const eventId = useEventId();
+  const [catalog, setCatalog] = useState<BoxOfficeCatalogItem[]>([]);
+  const [mySales, setMySales] = useState<BoxOfficeSale[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [cart, setCart] = useState<Record<string, number>>({});
+  const [attendee, setAttendee] = useState(EMPTY_ATTENDEE);
+  const [method, setMethod] = useState<BoxOfficePaymentMethod>('cash');
+  const [tendered, setTendered] = useState('');
+  const [terminalRef, setTerminalRef] = useState('');
+  const [compReason, setCompReason] = useState('');
+  const [printBadge, setPrintBadge] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [lastSale, setLastSale] = useState<BoxOfficeSaleResult | null>(null);
+
+  const loadData = useCallback(async () => {
+    if (!eventId) return;
+    try {
+      const [types, sales] = await Promise.all([
+        api.getBoxOfficeCatalog(eventId),
+        api.getMyBoxOfficeSales(eventId),
+      ]);
+      setCatalog(types);
+      setMySales(sales);
+    } catch {
+      // silent
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const currency = catalog[0]?.currency ?? 'CHF';
+  const lines = catalog
+    .filter((tt) => cart[tt.id])
+    .map((tt) => ({ tt, quantity: cart[tt.id] }));
+  const totalCents = method === 'comp'
+    ? 0
+    : lines.reduce((sum, line) => sum + line.tt.priceCents * line.quantity, 0);
+  const tenderedCents = Math.round(parseFloat(tendered || '0') * 100);
+  const changeCents = tenderedCents - totalCents;
+
+  const setQuantity = (tt: BoxOfficeCatalogItem, quantity: number) => {
+    const max = Math.min(tt.maxPerOrder, tt.available ?? Infinity);
+    setCart((prev) => {
+      const next = { ...prev };
+      if (quantity <= 0) delete next[tt.id];
+      else next[tt.id] = Math.min(quantity, max);
+      return next;
+    });
+  };
+
+  const canSubmit =
+    lines.length > 0 &&
+    attendee.firstName.trim() &&
+    attendee.lastName.trim() &&
+    attendee.email.trim() &&
+    (method !== 'cash' || changeCents >= 0) &&
+    (method !== 'comp' || compReason.trim());
+
+  const printBadges = async (sale: BoxOfficeSaleResult) => {
+    for (const ticket of sale.tickets) {
+      try {
+        await downloadFile(api.boxOfficeBadgeUrl(eventId, ticket.id), `badge-${ticket.code}.pdf`);
+      } catch (err: any) {
+        toast.error(err?.message ?? t('boxOffice.badgeError'));
+        return;
+      }
+    }
+  };
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    try {
+      const sale = await api.createBoxOfficeSale(eventId, {
+        items: lines.map((line) => ({ ticketTypeId: line.tt.id, quantity: line.quantity })),
+        attendee: {
+          firstName: attendee.firstName.trim(),
+          lastName: attendee.lastName.trim(),
+          email: attendee.email.trim(),
+          ...(attendee.company.trim() ? { company: attendee.company.trim() } : {}),
+        },
+        paymentMethod: method,
+        ...(method === 'cash' ? { tenderedCents } : {}),
+        ...(method === 'card_terminal' && terminalRef.trim() ? { terminalReference: terminalRef.trim() } : {}),
+        ...(method === 'comp' ? { compReason: compReason.trim() } : {}),
+      });
+      setLastSale(sale);
+      toast.success(
+        t('boxOffice.sold')
+          .replace('{order}', sale.orderNumber)
+          .replace('{count}', String(sale.tickets.length)),
+      );
+      if (printBadge) printBadges(sale);
+      loadData();
+    } catch (err: any) {
+      toast.error(err?.message ?? t('boxOffice.saleError'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const resetSale = () => {
+    setCart({});
+    setAttendee(EMPTY_ATTENDEE);
+    setTendered('');
+    setTerminalRef('');
+    setCompReason('');
+    setLastSale(null);
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-3">
+        {[1, 2].map((i) => (
+          <div
+            key={i}
+            className="h-12 animate-pulse rounded-lg"
+            style={{ background: 'var(--color-bg-muted)' }}
+          />
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {lastSale ? (
+        <div
+          className="rounded-xl p-6"
+          style={{ background: 'var(--color-bg-card)', border: '1px solid var(--color-border)' }}
+        >
+          <div className="flex items-center gap-2" style={{ color: 'var(--color-success)' }}>
+            <Icons.CheckCircle size={20} />
+            <p className="text-lg font-semibold">
+              {t('boxOffice.sold')
+                .replace('{order}', lastSale.orderNumber)
+                .replace('{count}', String(lastSale.tickets.length))}
+            </p>
+          </div>
+          {lastSale.changeCents != null && (
+            <p className="mt-3 text-3xl font-bold" style={{ color: 'var(--color-text)' }}>
+              {t('boxOffice.changeDue')}: {formatAmount(lastSale.changeCents, lastSale.currency)}
+            </p>
+          )}
+          <div className="mt-4 flex flex-wrap gap-2">
+            {lastSale.tickets.map((ticket) => (
+              <button
+                key={ticket.id}
+                onClick={() =>
+                  downloadFile(api.boxOfficeBadgeUrl(eventId, ticket.id), `badge-${ticket.code}.pdf`).catch(
+                    (err: any) => toast.error(err?.message ?? t('boxOffice.badgeError')),
+                  )
+                }
+                className="flex items-center gap-2 rounded-lg px-3 py-2 text-sm font-medium"
+                style={{ border: '1px solid var(--color-border)', color: 'var(--color-text-secondary)' }}
+              >
+                <Icons.Printer size={14} />
+                {t('boxOffice.badge')} <span className="font-mono text-xs">{ticket.code}</span>
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={resetSale}
+            className="mt-6 rounded-lg px-6 py-3 text-sm font-semibold text-white"
+            style={{ background: 'var(--color-primary)' }}
+          >
+            {t('boxOffice.newSale')}
+          </button>
+        </div>
+      ) : (
+        <div className="grid gap-6 lg:grid-cols-2">
+          {/* Catalog + cart */}
+          <div className="space-y-4">
+            {catalog.length === 0 ? (
+              <p className="text-sm" style={{ color: 'var(--color-text-muted)' }}>
+                {t('boxOffice.catalog.empty')}
+              </p>
+            ) : (
+              <div className="grid grid-cols-2 gap-3">
+                {catalog.map((tt) => (
+                  <button
+                    key={tt.id}
+                    onClick={() => setQuantity(tt, (cart[tt.id] ?? 0) + 1)}
+                    className="rounded-xl p-4 text-left transition-colors"
+                    style={{
+                      background: 'var(--color-bg-card)',
+                      border: `1px solid ${cart[tt.id] ? 'var(--color-primary)' : 'var(--color-border)'}`,
+                    }}
+                  >
+                    <p className="font-medium" style={{ color: 'var(--color-text)' }}>{tt.name}</p>
+                    <p className="mt-1 text-sm" style={{ color: 'var(--color-text-secondary)' }}>
+                      {formatAmount(tt.priceCents, tt.currency)}
+                    </p>
+                    <p className="mt-1 text-xs" style={{ color: 'var(--color-text-muted)' }}>
+                      {tt.available == null
+                        ? t('boxOffice.catalog.unlimited')
+                        : t('boxOffice.catalog.available').replace('{count}', String(tt.available))}
+                    </p>
+                  </button>
+                ))}
+              </div>
+            )}
+
+            <div
+              className="rounded-xl p-4"
+              style={{ background: 'var(--color-bg-card)', border: '1px solid var(--color-border)' }}
+            >
+              <p className="mb-3 text-sm font-semibold" style={{ color: 'var(--color-text)' }}>
+                {t('boxOffice.cart.title')}
+              </p>
+              {lines.length === 0 ? (
+                <p className="text-sm" style={{ color: 'var(--color-text-muted)' }}>
+                  {t('boxOffice.cart.empty')}
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  {lines.map(({ tt, quantity }) => (
+                    <div key={tt.id} className="flex items-center justify-between text-sm">
+                      <span style={{ color: 'var(--color-text)' }}>{tt.name}</span>
+                      <div className="flex items-center gap-2">
+                        <button
+                          onClick={() => setQuantity(tt, quantity - 1)}
+                          className="rounded px-2 font-bold"
+                          style={{ border: '1px solid var(--color-border)', color: 'var(--color-text-secondary)' }}
+                        >
+                          −
+                        </button>
+                        <span className="w-6 text-center font-mono">{quantity}</span>
+                        <button
+                          onClick={() => setQuantity(tt, quantity + 1)}
+                          className="rounded px-2 font-bold"
+                          style={{ border: '1px solid var(--color-border)', color: 'var(--color-text-secondary)' }}
+                        >
+                          +
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <div
+                className="mt-4 flex items-center justify-between border-t pt-3"
+                style={{ borderColor: 'var(--color-border)' }}
+              >
+                <span className="text-sm font-medium" style={{ color: 'var(--color-text-secondary)' }}>
+                  {t('boxOffice.cart.total')}
+                </span>
+                <span className="text-xl font-bold" style={{ color: 'var(--color-text)' }}>
+                  {formatAmount(totalCents, currency)}
+                </span>
+              </div>
+            </div>
+          </div>
+
+          {/* Attendee + payment */}
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              {(['firstName', 'lastName', 'email', 'company'] as const).map((field) => (
+                <div key={field} className={field === 'email' || field === 'company' ? 'col-span-2' : ''}>
+                  <label className="mb-1 block text-sm font-medium" style={{ color: 'var(--color-text)' }}>
+                    {t(`boxOffice.attendee.${field}`)}{field !== 'company' ? ' *' : ''}
+                  </label>
+                  <input
+                    type={field === 'email' ? 'email' : 'text'}
+                    value={attendee[field]}
+                    onChange={(e) => setAttendee((prev) => ({ ...prev, [field]: e.target.value }))}
+                    className="w-full rounded-lg border px-3 py-2 text-sm"
+                    style={INPUT_STYLE}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div>
+              <p className="mb-2 text-sm font-medium" style={{ color: 'var(--color-text)' }}>
+                {t('boxOffice.payment.title')}
+              </p>
+              <div className="grid grid-cols-3 gap-2">
+                {PAYMENT_METHODS.map((m) => (
+                  <button
+                    key={m}
+                    onClick={() => setMethod(m)}
+                    className="rounded-lg px-3 py-3 text-sm font-medium"
+                    style={{
+                      border: `1px solid ${method === m ? 'var(--color-primary)' : 'var(--color-border)'}`,
+                      color: method === m ? 'var(--color-primary)' : 'var(--color-text-secondary)',
+                    }}
+                  >
+                    {t(`boxOffice.payment.${m}`)}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {method === 'cash' && (
+              <div>
+                <label className="mb-1 block text-sm font-medium" style={{ color: 'var(--color-text)' }}>
+                  {t('boxOffice.payment.tendered')} ({currency})
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.05"
+                  value={tendered}
+                  onChange={(e) => setTendered(e.target.value)}
+                  className="w-full rounded-lg border px-3 py-2 text-lg"
+                  style={INPUT_STYLE}
+                />
+                {tendered && (
+                  <p
+                    className="mt-1 text-sm font-medium"
+                    style={{ color: changeCents >= 0 ? 'var(--color-success)' : 'var(--color-danger)' }}
+                  >
+                    {changeCents >= 0
+                      ? `${t('boxOffice.changeDue')}: ${formatAmount(changeCents, currency)}`
+                      : t('boxOffice.payment.short')}
+                  </p>
+                )}
+              </div>
+            )}
+            {method === 'card_terminal' && (
+              <div>
+                <label className="mb-1 block text-sm font-medium" style={{ color: 'var(--color-text)' }}>
+                  {t('boxOffice.payment.terminalRef')}
+                </label>
+                <input
+                  type="text"
+                  value={terminalRef}
+                  onChange={(e) => setTerminalRef(e.target.value)}
+                  className="w-full rounded-lg border px-3 py-2 text-sm"
+                  style={INPUT_STYLE}
+                />
+              </div>
+            )}
+            {method === 'comp' && (
+              <div>
+                <label className="mb-1 block text-sm font-medium" style={{ color: 'var(--color-text)' }}>
+                  {t('boxOffice.payment.compReason')} *
+                </label>
+                <input
+                  type="text"
+                  value={compReason}
+                  onChange={(e) => setCompReason(e.target.value)}
+                  className="w-full rounded-lg border px-3 py-2 text-sm"
+                  style={INPUT_STYLE}
+                />
+              </div>
+            )}
+
+            <label className="flex items-center gap-2 text-sm" style={{ color: 'var(--color-text-secondary)' }}>
+              <input type="checkbox" checked={printBadge} onChange={(e) => setPrintBadge(e.target.checked)} />
+              {t('boxOffice.printBadge')}
+            </label>
+
+            <button
+              onClick={handleSubmit}
+              disabled={!canSubmit || submitting}
+              className="w-full rounded-lg px-6 py-3 text-base font-semibold text-white disabled:opacity-50"
+              style={{ background: 'var(--color-primary)' }}
+            >
+              {submitting ? t('boxOffice.completing') : t('boxOffice.complete')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div>
+        <h2 className="mb-3 text-lg font-semibold" style={{ color: 'var(--color-text)' }}>
+          {t('boxOffice.mySales')}
+        </h2>
+        <DataTable<BoxOfficeSale & Record<string, unknown>>
+          columns={[
+            {
+              key: 'createdAt',
+              header: t('boxOffice.column.time'),
+              render: (row) =>
+                new Date(row.createdAt as string).toLocaleTimeString('en-CH', { hour: '2-digit', minute: '2-digit' }),
+            },
+            {
+              key: 'order',
+              header: t('boxOffice.column.order'),
+              render: (row) => (row as BoxOfficeSale).order.orderNumber,
+            },
+            {
+              key: 'customer',
+              header: t('boxOffice.column.customer'),
+              render: (row) => (row as BoxOfficeSale).order.customerName ?? '—',
+            },
+            {
+              key: 'paymentMethod',
+              header: t('boxOffice.column.method'),
+              render: (row) => t(`boxOffice.payment.${row.paymentMethod as string}`),
+            },
+            {
+              key: 'tickets',
+              header: t('boxOffice.column.tickets'),
+              render: (row) => (row as BoxOfficeSale).order._count.tickets,
+            },
+            {
+              key: 'amountCents',
+              header: t('boxOffice.column.amount'),
+              render: (row) => formatAmount(row.amountCents as number, row.currency as string),
+            },
+          ]}
+          data={mySales as (BoxOfficeSale & Record<string, unknown>)[]}
+          emptyMessage={t('boxOffice.mySales.empty')}
+        />
+      </div>
+    </div>
+  );
+}
+
+// ─── Cash drawer ───────────────────────────────────────────────────
+
+function DrawerPanel() {
+  const { t } = useI18n();
+  const eventId = useEventId();
+  const { user, hasRole } = useAuth();
+  const isSupervisor = SUPERVISOR_ROLES.some((r) => hasRole(r));
+  const [date, setDate] = useState('');
+  const [report, setReport] = useState<DrawerReport | null>(null);
+  const [closing, setClosing] = useState<CashDrawer | null>(null);
+  const [openingFloat, setOpeningFloat] = useState('');
+  const [counted, setCounted] = useState('');
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const loadReport = useCallback(async () => {
+    if (!eventId) return;
+    try {
+      const data = await api.getDrawerReport(eventId, date || undefined);
+      setReport(data);
+      if (!date) setDate(data.businessDate);
+    } catch {
+      // silent
+    }
+  }, [eventId, date]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  const handleClose = async () => {
+    if (!closing || !report) return;
+    setSaving(true);
+    try {
+      const result = (await api.closeDrawer(eventId, {
+        userId: closing.userId,
+        businessDate: report.businessDate,
+        openingFloatCents: Math.round(parseFloat(openingFloat || '0') * 100),
+        countedCents: Math.round(parseFloat(counted || '0') * 100),
+        ...(note.trim() ? { note: note.trim() } : {}),
+      })) as { varianceCents: number };
+      toast.success(
+        t('boxOffice.drawer.closedToast').replace('{amount}', formatAmount(result.varianceCents, report.currency)),
+      );
+      setClosing(null);
+      setOpeningFloat('');
+      setCounted('');
+      setNote('');
+      await loadReport();
+    } catch (err: any) {
+      toast.error(err?.message ?? t('boxOffice.drawer.closeError'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const currency = report?.currency ?? 'CHF';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end gap-3">
+        <div>
+          <label className="mb-1 block text-sm font-medium" style={{ color: 'var(--color-text)' }}>
+            {t('boxOffice.drawer.date')}
+          </label>
+          <input
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            className="rounded-lg border px-3 py-2 text-sm"
+            style={INPUT_STYLE}
+          />
+        </div>
+        <button
+          className="flex items-center gap-2 rounded-lg px-4 py-2 text-sm font-medium transition-colors"
+          style={{ border: '1px solid var(--color-border)', color: 'var(--color-text-secondary)' }}
+          onClick={() => loadReport()}
+        >
+          <Icons.RefreshCw size={14} />
+        </button>
+      </div>
+
+      {report && (
+        <div className="grid grid-cols-2 gap-4 lg:grid-cols-4">
+          <StatCard label={t('boxOffice.drawer.column.sales')} value={report.totals.sales} icon={<Icons.ShoppingCart size={18} />} />
+          <StatCard label={t('boxOffice.drawer.column.cash')} value={formatAmount(report.totals.cashCents, currency)} icon={<Icons.Coins size={18} />} />
+          <StatCard label={t('boxOffice.drawer.column.card')} value={formatAmount(report.totals.cardCents, currency)} icon={<Icons.CreditCard size={18} />} />
+          <StatCard label={t('boxOffice.drawer.column.comp')} value={report.totals.compTickets} icon={<Icons.Ticket size={18} />} />
+        </div>
+      )}
+
+      <DataTable<CashDrawer & Record<string, unknown>>
+        columns={[
+          {
+            key: 'displayName',
+            header: t('boxOffice.drawer.column.staff'),
+            render: (row) => (row.displayName as string | null) ?? (row.email as string | null) ?? row.userId,
+          },
+          { key: 'sales', header: t('boxOffice.drawer.column.sales') },
+          { key: 'tickets', header: t('boxOffice.drawer.column.tickets') },
+          {
+            key: 'cashCents',
+            header: t('boxOffice.drawer.column.cash'),
+            render: (row) => formatAmount(row.cashCents as number, currency),
+          },
+          {
+            key: 'cardCents',
+            header: t('boxOffice.drawer.column.card'),
+            render: (row) => formatAmount(row.cardCents as number, currency),
+          },
+          { key: 'compTickets', header: t('boxOffice.drawer.column.comp') },
+          {
+            key: 'expectedCashCents',
+            header: t('boxOffice.drawer.column.expected'),
+            render: (row) => formatAmount(row.expectedCashCents as number, currency),
+          },
+          {
+            key: 'close',
+            header: t('boxOffice.drawer.column.counted'),
+            render: (row) => {
+              const drawer = row as CashDrawer;
+              if (drawer.close) {
+                const variance = drawer.close.varianceCents;
+                return (
+                  <span>
+                    {formatAmount(drawer.close.countedCents, currency)}{' '}
+                    <span
+                      className="text-xs font-medium"
+                      style={{ color: variance === 0 ? 'var(--color-success)' : 'var(--color-danger)' }}
+                    >
+                      ({variance > 0 ? '+' : ''}{formatAmount(variance, currency)})
+                    </span>
+                  </span>
+                );
+              }
+              if (!isSupervisor && drawer.userId !== user?.id) return '—';
+              return (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setClosing(drawer);
+                  }}
+                  className="rounded px-2 py-1 text-xs font-medium"
+                  style={{ color: 'var(--color-primary)' }}
+                >
+                  {t('boxOffice.drawer.close')}
+                </button>
+              );
+            },
+          },
+        ]}
+        data={(report?.drawers ?? []) as (CashDrawer & Record<string, unknown>)[]}
+        emptyMessage={t('boxOffice.drawer.empty')}
+      />
+
+      {closing && (
+        <div
+          className="max-w-md rounded-xl p-5"
+          style={{ background: 'var(--color-bg-card)', border: '1px solid var(--color-border)' }}
+        >
+          <p className="mb-4 font-semibold" style={{ color: 'var(--color-text)' }}>
+            {t('boxOffice.drawer.closeTitle').replace('{name}', closing.displayName ?? closing.email ?? '')}
+          </p>
+          <div className="space-y-3">
+            <div>
+              <label className="mb-1 block text-sm font-medium" style={{ color: 'var(--color-text)' }}>
+                {t('boxOffice.drawer.openingFloat')} ({currency})
+              </label>
+              <input
+                type="number"
+                min="0"
+                step="0.05"
+                value={openingFloat}
+                onChange={(e) => setOpeningFloat(e.target.value)}
+                className="w-full rounded-lg border px-3 py-2 text-sm"
+                style={INPUT_STYLE}
+              />
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-medium" style={{ color: 'var(--color-text)' }}>
+                {t('boxOffice.drawer.counted')} ({currency}) *
+              </label>
+              <input
+                type="number"
+                min="0"
+                step="0.05"
+                value={counted}
+                onChange={(e) => setCounted(e.target.value)}
+                className="w-full rounded-lg border px-3 py-2 text-sm"
+                style={INPUT_STYLE}
+              />
+              <p className="mt-1 text-xs" style={{ color: 'var(--color-text-muted)' }}>
+                {t('boxOffice.drawer.expectedHint').replace(
+                  '{amount}',
+                  formatAmount(Math.round(parseFloat(openingFloat || '0') * 100) + closing.cashCents, currency),
+                )}
+              </p>
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-medium" style={{ color: 'var(--color-text)' }}>
+                {t('boxOffice.drawer.note')}
+              </label>
+              <textarea
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                rows={2}
+                className="w-full rounded-lg border px-3 py-2 text-sm"
+                style={INPUT_STYLE}
+              />
+            </div>
+          </div>
+          <div className="mt-4 flex justify-end gap-2">
+            <button
+              onClick={() => setClosing(null)}
+              className="rounded-lg px-4 py-2 text-sm font-medium"
+              style={{ border: '1px solid var(--color-border)', color: 'var(--color-text-secondary)' }}
+            >
+              {t('common.cancel')}
+            </button>
+            <button
+              onClick={handleClose}
+              disabled={saving || counted === ''}
+              className="rounded-lg px-4 py-2 text-sm font-medium text-white disabled:opacity-50"
+              style={{ background: 'var(--color-primary)' }}
+            >
+              {saving ? t('common.saving') : t('boxOffice.drawer.close')}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function formatAmount(cents: number, currency: string): string {
+  return `${currency} ${(cents / 100).toFixed(2)}`;
+}
@@ -2,7 +2,7 @@
 
 import { useEffect, useState, useCallback } from 'react';
 import { useEventId } from '@/hooks/use-event-id';
-import { api } from '@/lib/api';
+import { api, type DayAttendance, type ZoneOccupancy } from '@/lib/api';
 import { useSSEBuffer } from '@/lib/sse';
 import { StatCard } from '@/components/stat-card';
 import { Icons } from '@/components/icons';
@@ -16,6 +16,7 @@ interface CheckInEvent {
   method: string;
   direction: string;
   timestamp: string;
+  zone?: string;
 }
 
 interface CheckInStats {
@@ -29,6 +30,8 @@ export default function CheckInLivePage() {
   const { t } = useI18n();
   const [stats, setStats] = useState<CheckInStats>({ total: 0, today: 0, byTicketType: {} });
   const [totalTickets, setTotalTickets] = useState(0);
+  const [zones, setZones] = useState<ZoneOccupancy[]>([]);
+  const [byDay, setByDay] = useState<DayAttendance[]>([]);
   const [loading, setLoading] = useState(true);
 
   // SSE live check-in feed
@@ -50,11 +53,13 @@ export default function CheckInLivePage() {
     const ac = new AbortController();
 
     Promise.all([
-      api.getCheckInStats(eventId, ac.signal).catch(() => ({ total: 0, today: 0, byTicketType: {} })),
+      api.getCheckInStats(eventId, ac.signal).catch(() => ({ total: 0, today: 0, byTicketType: {}, byDay: [], zones: [] })),
       api.getTicketTypes(eventId, ac.signal).catch(() => []),
     ])
-      .then(([s, tts]) => {
+      .then(([{ zones: z, byDay: days, ...s }, tts]) => {
         setStats(s);
+        setZones(z);
+        setByDay(days);
         setTotalTickets(tts.reduce((sum, tt) => sum + (tt.sold ?? 0), 0));
       })
       .finally(() => setLoading(false));
@@ -62,6 +67,16 @@ export default function CheckInLivePage() {
     return () => ac.abort();
   }, [eventId]);
 
+  // Zone occupancy depends on in/out history — re-read it shortly after zone scans
+  const lastZoneScan = liveCheckIns.find((ci) => ci.zone);
+  useEffect(() => {
+    if (!lastZoneScan || !eventId || eventId === '_') return;
+    const timer = setTimeout(() => {
+      api.getCheckInStats(eventId).then((s) => setZones(s.zones)).catch(() => {});
+    }, 2000);
+    return () => clearTimeout(timer);
+  }, [lastZoneScan, eventId]);
+
   // Update total from live stream
   const effectiveTotal = (stats?.total ?? 0) + liveCheckIns.length;
   const checkedInPct = totalTickets > 0 ? Math.round((effectiveTotal / totalTickets) * 100) : 0;
@@ -109,6 +124,15 @@ export default function CheckInLivePage() {
             )}
           </p>
         </div>
+        <div className="flex gap-2">
+        {/* Native <a> — the scanner is a separate static page */}
+        <a
+          href={`/dashboard/events/${eventId}/check-in/scanner/`}
+          className="rounded-lg px-4 py-2 text-sm font-medium text-white transition-colors"
+          style={{ background: 'var(--color-primary)' }}
+        >
+          <span className="inline-flex items-center gap-1"><Icons.QrCode size={14} /> {t('checkin.openScanner')}</span>
+        </a>
         <a
           href={api.exportCheckIns(eventId)}
           target="_blank"
@@ -122,6 +146,7 @@ export default function CheckInLivePage() {
         >
                     <span className="inline-flex items-center gap-1"><Icons.Download size={14} /> {t('common.exportCsv')}</span>
         </a>
+        </div>
       </div>
 
       {/* Stats Row */}
@@ -181,6 +206,103 @@ export default function CheckInLivePage() {
         </div>
       </div>
 
+      {/* Attendance by event day */}
+      {byDay.length > 0 && (
+        <div
+          className="mb-6 rounded-xl p-5"
+          style={{
+            background: 'var(--color-bg-card)',
+            border: '1px solid var(--color-border)',
+            boxShadow: 'var(--shadow-sm)',
+          }}
+        >
+          <h2 className="mb-3 text-sm font-medium" style={{ color: 'var(--color-text)' }}>
+            {t('checkin.byDay.title')}
+          </h2>
+          <table className="w-full text-sm">
+            <thead>
+              <tr style={{ color: 'var(--color-text-muted)' }}>
+                <th className="pb-2 text-left font-medium">{t('checkin.byDay.day')}</th>
+                <th className="pb-2 text-right font-medium">{t('checkin.byDay.checkedIn')}</th>
+                <th className="pb-2 text-right font-medium">{t('checkin.byDay.entries')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {byDay.map((d) => (
+                <tr key={d.day} style={{ borderTop: '1px solid var(--color-border-subtle)', color: 'var(--color-text)' }}>
+                  <td className="py-2">
+                    {new Date(`${d.day}T12:00:00Z`).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short', timeZone: 'UTC' })}
+                  </td>
+                  <td className="py-2 text-right font-semibold">{d.checkedIn.toLocaleString()}</td>
+                  <td className="py-2 text-right" style={{ color: 'var(--color-text-muted)' }}>{d.checkIns.toLocaleString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Access zones — live occupancy */}
+      {zones.length > 0 && (
+        <div
+          className="mb-6 rounded-xl p-5"
+          style={{
+            background: 'var(--color-bg-card)',
+            border: '1px solid var(--color-border)',
+            boxShadow: 'var(--shadow-sm)',
+          }}
+        >
+          <h2 className="mb-3 text-sm font-medium" style={{ color: 'var(--color-text)' }}>
+            {t('checkin.zones.title')}
+          </h2>
+          <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+            {zones.map((zone) => {
+              const pct = zone.capacity ? Math.round((zone.occupancy / zone.capacity) * 100) : null;
+              return (
+                <div
+                  key={zone.id}
+                  className="rounded-lg p-3"
+                  style={{ background: 'var(--color-bg-subtle)', opacity: zone.active ? 1 : 0.6 }}
+                >
+                  <div className="flex items-baseline justify-between gap-2">
+                    <span className="truncate text-sm font-medium" style={{ color: 'var(--color-text)' }}>
+                      {zone.name}
+                    </span>
+                    <span className="text-lg font-bold" style={{ color: 'var(--color-primary)' }}>
+                      {zone.occupancy}
+                      {zone.capacity != null && (
+                        <span className="text-xs font-normal" style={{ color: 'var(--color-text-muted)' }}>
+                          {' '}/ {zone.capacity}
+                        </span>
+                      )}
+                    </span>
+                  </div>
+                  {pct != null && (
+                    <div className="mt-2 h-1.5 w-full overflow-hidden rounded-full" style={{ background: 'var(--color-bg-muted)' }}>
+                      <div
+                        className="h-full rounded-full transition-all duration-500"
+                        style={{
+                          width: `${Math.min(pct, 100)}%`,
+                          background: pct >= 95 ? 'var(--color-danger)' : pct >= 80 ? 'var(--color-warning)' : 'var(--color-success)',
+                        }}
+                      />
+                    </div>
+                  )}
+                  <p className="mt-1 text-xs" style={{ color: 'var(--color-text-muted)' }}>
+                    {t('checkin.zones.entries').replace('{count}', String(zone.entries))}
+                    {zone.flagged > 0 && (
+                      <span style={{ color: 'var(--color-warning)' }}>
+                        {' · '}{t('checkin.zones.flagged').replace('{count}', String(zone.flagged))}
+                      </span>
+                    )}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {/* Live Feed */}
       <div
         className="rounded-xl"
@@ -241,7 +363,7 @@ export default function CheckInLivePage() {
                       {ci.attendeeName}
                     </p>
                     <p className="text-xs" style={{ color: 'var(--color-text-muted)' }}>
-                      {ci.ticketType} · {ci.ticketCode}
+                      {ci.ticketType} · {ci.ticketCode}{ci.zone && ` · ${ci.zone}`}
                     </p>
                   </div>
                   <span className="text-xs" style={{ color: 'var(--color-text-muted)' }}>
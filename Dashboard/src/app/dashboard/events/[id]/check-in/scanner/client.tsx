@@ -0,0 +1,463 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState, useCallback, type FormEvent } from 'react';
+import { toast } from 'sonner';
+import { useEventId } from '@/hooks/use-event-id';
+import { Icons } from '@/components/icons';
+import { useI18n } from '@/i18n/i18n-provider';
+import {
+  RESCAN_DEBOUNCE_MS,
+  clearSynced,
+  flushQueue,
+  getDeviceId,
+  getGate,
+  getZone,
+  isExpired,
+  listScans,
+  loadManifest,
+  recordScan,
+  refreshManifest,
+  resetManifest,
+  setGate,
+  setZone,
+  type CheckInManifest,
+  type LocalVerdict,
+  type ManifestTicket,
+  type QueuedScan,
+} from '@/lib/offline-checkin';
+
+/** Retry interval for flushing the queue while online. */
+const FLUSH_MS = 15000;
+
+/** Minimal typing for the Shape Detection API (not in lib.dom yet). */
+interface DetectedBarcode { rawValue: string }
+interface BarcodeDetectorLike { detect(source: CanvasImageSource): Promise<DetectedBarcode[]> }
+declare global {
+  interface Window {
+    BarcodeDetector?: new (options: { formats: string[] }) => BarcodeDetectorLike;
+  }
+}
+
+const VERDICT_STYLE: Record<LocalVerdict, { bg: string; fg: string }> = {
+  valid: { bg: 'var(--color-success-light)', fg: 'var(--color-success)' },
+  duplicate: { bg: 'var(--color-warning-light)', fg: 'var(--color-warning)' },
+  unverified: { bg: 'var(--color-warning-light)', fg: 'var(--color-warning)' },
+  flagged: { bg: 'var(--color-warning-light)', fg: 'var(--color-warning)' },
+  rejected: { bg: 'var(--color-danger-light)', fg: 'var(--color-danger)' },
+  wrong_day: { bg: 'var(--color-danger-light)', fg: 'var(--color-danger)' },
+  wrong_zone: { bg: 'var(--color-danger-light)', fg: 'var(--color-danger)' },
+  unknown: { bg: 'var(--color-danger-light)', fg: 'var(--color-danger)' },
+};
+
+const cardStyle = {
+  background: 'var(--color-bg-card)',
+  border: '1px solid var(--color-border)',
+  boxShadow: 'var(--shadow-sm)',
+};
+
+export default function CheckInScannerPage() {
+  const { t } = useI18n();
+  const eventId = useEventId();
+  const [manifest, setManifest] = useState<CheckInManifest | null>(null);
+  const [scans, setScans] = useState<QueuedScan[]>([]);
+  const [lastScan, setLastScan] = useState<QueuedScan | null>(null);
+  const [online, setOnline] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [syncing, setSyncing] = useState(false);
+  const [cameraOn, setCameraOn] = useState(false);
+  const [manual, setManual] = useState('');
+  const [gate, setGateState] = useState('');
+  const [zoneId, setZoneState] = useState('');
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const recentRef = useRef(new Map<string, number>());
+  const manifestRef = useRef<CheckInManifest | null>(null);
+  manifestRef.current = manifest;
+
+  const index = useMemo(() => {
+    const map = new Map<string, ManifestTicket>();
+    for (const ticket of manifest?.tickets ?? []) map.set(ticket.d, ticket);
+    return map;
+  }, [manifest]);
+  const indexRef = useRef(index);
+  indexRef.current = index;
+
+  const cameraSupported = typeof window !== 'undefined' && !!window.BarcodeDetector;
+  const pending = scans.filter((s) => s.synced === 0).length;
+  const problems = scans.filter((s) => s.sync && s.sync.status !== 'accepted');
+
+  const reloadScans = useCallback(async () => {
+    if (!eventId || eventId === '_') return;
+    setScans(await listScans(eventId));
+  }, [eventId]);
+
+  const sync = useCallback(async (quiet = false) => {
+    if (!eventId || eventId === '_' || !navigator.onLine) return;
+    setSyncing(true);
+    try {
+      const sent = await flushQueue(eventId);
+      await reloadScans();
+      if (sent > 0 && !quiet) toast.success(t('checkin.scanner.synced').replace('{count}', String(sent)));
+    } catch (err: any) {
+      if (!quiet) toast.error(err?.message ?? t('checkin.scanner.syncError'));
+    } finally {
+      setSyncing(false);
+    }
+  }, [eventId, reloadScans, t]);
+
+  const handleRefreshManifest = useCallback(async (quiet = false) => {
+    if (!eventId || eventId === '_') return;
+    setRefreshing(true);
+    try {
+      setManifest(await refreshManifest(eventId));
+      if (!quiet) toast.success(t('checkin.scanner.manifestRefreshed'));
+    } catch (err: any) {
+      toast.error(err?.message ?? t('checkin.scanner.manifestError'));
+    } finally {
+      setRefreshing(false);
+    }
+  }, [eventId, t]);
+
+  // Service worker (offline shell), stored manifest and queue
+  useEffect(() => {
+    if (!eventId || eventId === '_') return;
+    if ('serviceWorker' in navigator) {
+      navigator.serviceWorker.register('/scanner-sw.js', { scope: '/dashboard/events/' }).catch(() => {});
+    }
+    setGateState(getGate());
+    setZoneState(getZone());
+    setOnline(navigator.onLine);
+    loadManifest(eventId)
+      .then((m) => {
+        setManifest(m);
+        if (navigator.onLine) handleRefreshManifest(true);
+      })
+      .catch(() => {});
+    reloadScans();
+  }, [eventId, handleRefreshManifest, reloadScans]);
+
+  // Connectivity + periodic flush
+  useEffect(() => {
+    const goOnline = () => { setOnline(true); sync(true); };
+    const goOffline = () => setOnline(false);
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    const timer = setInterval(() => sync(true), FLUSH_MS);
+    return () => {
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+      clearInterval(timer);
+    };
+  }, [sync]);
+
+  const handlePayload = useCallback(async (payload: string) => {
+    const value = payload.trim();
+    if (!value || !eventId || eventId === '_') return;
+
+    // Cameras report the same code many times per second
+    const now = Date.now();
+    const seen = recentRef.current.get(value);
+    if (seen && now - seen < RESCAN_DEBOUNCE_MS) return;
+    recentRef.current.set(value, now);
+
+    const scan = await recordScan(eventId, value, manifestRef.current, indexRef.current);
+    setLastScan(scan);
+    navigator.vibrate?.(scan.verdict === 'valid' ? 80 : [80, 60, 80]);
+    await reloadScans();
+    sync(true);
+  }, [eventId, reloadScans, sync]);
+
+  // Camera scanning via BarcodeDetector
+  useEffect(() => {
+    if (!cameraOn || !window.BarcodeDetector) return;
+    const detector = new window.BarcodeDetector({ formats: ['qr_code'] });
+    let stream: MediaStream | null = null;
+    let stopped = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const tick = async () => {
+      if (stopped || !videoRef.current) return;
+      try {
+        const codes = await detector.detect(videoRef.current);
+        if (codes[0]?.rawValue) await handlePayload(codes[0].rawValue);
+      } catch {
+        // frame not ready
+      }
+      timer = setTimeout(tick, 250);
+    };
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: 'environment' }, audio: false })
+      .then((s) => {
+        stream = s;
+        if (stopped || !videoRef.current) return;
+        videoRef.current.srcObject = s;
+        videoRef.current.play().catch(() => {});
+        tick();
+      })
+      .catch(() => {
+        toast.error(t('checkin.scanner.cameraError'));
+        setCameraOn(false);
+      });
+
+    return () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [cameraOn, handlePayload, t]);
+
+  const handleManual = (e: FormEvent) => {
+    e.preventDefault();
+    handlePayload(manual);
+    setManual('');
+  };
+
+  const handleReset = async () => {
+    if (!confirm(t('checkin.scanner.resetConfirm'))) return;
+    await resetManifest(eventId);
+    setManifest(null);
+    handleRefreshManifest();
+  };
+
+  const handleClear = async () => {
+    await clearSynced(eventId);
+    await reloadScans();
+  };
+
+  const verdictLabel = (scan: QueuedScan) => t(`checkin.scanner.verdict.${scan.verdict}`);
+  const expired = manifest ? isExpired(manifest) : false;
+  const zones = manifest?.zones ?? [];
+  const zoneName = zones.find((z) => z.id === lastScan?.zoneId)?.name;
+  const validDays = lastScan ? index.get(lastScan.digest)?.days : undefined;
+
+  return (
+    <div className="mx-auto max-w-3xl">
+      {/* Header */}
+      <div className="mb-4 flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-xl font-bold sm:text-2xl" style={{ color: 'var(--color-text)' }}>
+            {t('checkin.scanner.title')}
+          </h1>
+          <p className="mt-1 flex items-center gap-2 text-sm" style={{ color: 'var(--color-text-secondary)' }}>
+            <span
+              className="inline-block h-2 w-2 rounded-full"
+              style={{ background: online ? 'var(--color-success)' : 'var(--color-danger)' }}
+            />
+            {online ? t('checkin.scanner.online') : t('checkin.scanner.offline')}
+            <span style={{ color: 'var(--color-text-muted)' }}>· {getDeviceIdSafe()}</span>
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => sync()}
+            disabled={syncing || !online || pending === 0}
+            className="flex items-center gap-2 rounded-lg px-3 py-2 text-sm font-medium disabled:opacity-50"
+            style={{ border: '1px solid var(--color-border)', color: 'var(--color-text)' }}
+          >
+            <Icons.Upload size={14} />
+            {t('checkin.scanner.pending').replace('{count}', String(pending))}
+          </button>
+          <button
+            onClick={() => handleRefreshManifest()}
+            disabled={refreshing || !online}
+            className="flex items-center gap-2 rounded-lg px-3 py-2 text-sm font-medium disabled:opacity-50"
+            style={{ border: '1px solid var(--color-border)', color: 'var(--color-text-secondary)' }}
+            title={t('checkin.scanner.refreshManifest')}
+          >
+            <Icons.RefreshCw size={14} />
+          </button>
+        </div>
+      </div>
+
+      {/* Manifest status */}
+      <div className="mb-4 rounded-xl p-4 text-sm" style={cardStyle}>
+        {manifest ? (
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <span style={{ color: expired ? 'var(--color-danger)' : 'var(--color-text-secondary)' }}>
+              {(expired ? t('checkin.scanner.manifestExpired') : t('checkin.scanner.manifestInfo'))
+                .replace('{count}', String(manifest.tickets.length))
+                .replace('{issued}', new Date(manifest.issuedAt).toLocaleString('en-CH'))}
+            </span>
+            <button onClick={handleReset} className="text-xs" style={{ color: 'var(--color-text-muted)' }}>
+              {t('checkin.scanner.reset')}
+            </button>
+          </div>
+        ) : (
+          <span style={{ color: 'var(--color-warning)' }}>{t('checkin.scanner.noManifest')}</span>
+        )}
+        <label className="mt-3 flex items-center gap-2" style={{ color: 'var(--color-text-secondary)' }}>
+          {t('checkin.scanner.gate')}
+          <input
+            value={gate}
+            onChange={(e) => { setGateState(e.target.value); setGate(e.target.value); }}
+            placeholder={t('checkin.scanner.gatePlaceholder')}
+            maxLength={100}
+            className="flex-1 rounded-lg px-3 py-1.5 text-sm"
+            style={{ background: 'var(--color-bg-card)', border: '1px solid var(--color-border)', color: 'var(--color-text)' }}
+          />
+        </label>
+        {zones.length > 0 && (
+          <label className="mt-3 flex items-center gap-2" style={{ color: 'var(--color-text-secondary)' }}>
+            {t('checkin.scanner.zone')}
+            <select
+              value={zoneId}
+              onChange={(e) => { setZoneState(e.target.value); setZone(e.target.value); }}
+              className="flex-1 rounded-lg px-3 py-1.5 text-sm"
+              style={{ background: 'var(--color-bg-card)', border: '1px solid var(--color-border)', color: 'var(--color-text)' }}
+            >
+              <option value="">{t('checkin.scanner.mainEntrance')}</option>
+              {zones.map((z) => (
+                <option key={z.id} value={z.id}>{z.name}</option>
+              ))}
+            </select>
+          </label>
+        )}
+      </div>
+
+      {/* Last scan */}
+      {lastScan && (
+        <div
+          className="mb-4 rounded-xl p-5 text-center"
+          style={{ background: VERDICT_STYLE[lastScan.verdict].bg, color: VERDICT_STYLE[lastScan.verdict].fg }}
+        >
+          <p className="text-2xl font-bold">{verdictLabel(lastScan)}</p>
+          {lastScan.attendeeName && <p className="mt-1 text-lg font-semibold">{lastScan.attendeeName}</p>}
+          {lastScan.ticketType && <p className="text-sm opacity-80">{lastScan.ticketType}</p>}
+          {(lastScan.verdict === 'wrong_zone' || lastScan.verdict === 'flagged') && zoneName && (
+            <p className="mt-1 text-sm font-medium">
+              {t('checkin.scanner.notOnZoneList').replace('{zone}', zoneName)}
+            </p>
+          )}
+          {lastScan.verdict === 'wrong_day' && validDays && (
+            <p className="mt-1 text-sm font-medium">
+              {t('checkin.scanner.validOn').replace('{days}', validDays.join(', '))}
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Scanner input */}
+      <div className="mb-4 rounded-xl p-4" style={cardStyle}>
+        {cameraSupported ? (
+          <>
+            {cameraOn && (
+              <video ref={videoRef} muted playsInline className="mb-3 aspect-square w-full rounded-lg object-cover" />
+            )}
+            <button
+              onClick={() => setCameraOn((on) => !on)}
+              className="mb-3 flex w-full items-center justify-center gap-2 rounded-lg px-4 py-3 text-sm font-medium text-white"
+              style={{ background: 'var(--color-primary)' }}
+            >
+              <Icons.QrCode size={16} />
+              {cameraOn ? t('checkin.scanner.stopCamera') : t('checkin.scanner.startCamera')}
+            </button>
+          </>
+        ) : (
+          <p className="mb-3 text-xs" style={{ color: 'var(--color-text-muted)' }}>
+            {t('checkin.scanner.noCamera')}
+          </p>
+        )}
+        <form onSubmit={handleManual} className="flex gap-2">
+          <input
+            value={manual}
+            onChange={(e) => setManual(e.target.value)}
+            placeholder={t('checkin.scanner.manualPlaceholder')}
+            autoFocus={!cameraSupported}
+            className="flex-1 rounded-lg px-3 py-2 font-mono text-sm"
+            style={{ background: 'var(--color-bg-card)', border: '1px solid var(--color-border)', color: 'var(--color-text)' }}
+          />
+          <button
+            type="submit"
+            className="rounded-lg px-4 py-2 text-sm font-medium"
+            style={{ border: '1px solid var(--color-border)', color: 'var(--color-text)' }}
+          >
+            {t('checkin.scanner.check')}
+          </button>
+        </form>
+      </div>
+
+      {/* Conflicts reported by the server */}
+      {problems.length > 0 && (
+        <div className="mb-4 rounded-xl" style={cardStyle}>
+          <div
+            className="flex items-center justify-between px-4 py-3"
+            style={{ borderBottom: '1px solid var(--color-border)' }}
+          >
+            <h2 className="flex items-center gap-2 text-sm font-semibold" style={{ color: 'var(--color-warning)' }}>
+              <Icons.AlertTriangle size={14} /> {t('checkin.scanner.conflicts').replace('{count}', String(problems.length))}
+            </h2>
+          </div>
+          <ul>
+            {problems.map((scan) => (
+              <li key={scan.clientId} className="px-4 py-3 text-sm" style={{ borderBottom: '1px solid var(--color-border)' }}>
+                <div className="flex justify-between gap-2">
+                  <span className="font-medium" style={{ color: 'var(--color-text)' }}>
+                    {scan.sync?.attendeeName || scan.attendeeName || scan.qrPayload}
+                  </span>
+                  <span className="text-xs" style={{ color: 'var(--color-text-muted)' }}>
+                    {new Date(scan.offlineTimestamp).toLocaleTimeString('en-CH')}
+                  </span>
+                </div>
+                <p className="text-xs" style={{ color: 'var(--color-text-secondary)' }}>{scan.sync?.message}</p>
+                {scan.sync?.previousCheckIn && (
+                  <p className="text-xs" style={{ color: 'var(--color-text-muted)' }}>
+                    {t('checkin.scanner.previousCheckIn')
+                      .replace('{time}', new Date(scan.sync.previousCheckIn.timestamp).toLocaleString('en-CH'))
+                      .replace('{gate}', scan.sync.previousCheckIn.location || scan.sync.previousCheckIn.deviceId || '—')}
+                  </p>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Recent scans on this device */}
+      <div className="rounded-xl" style={cardStyle}>
+        <div
+          className="flex items-center justify-between px-4 py-3"
+          style={{ borderBottom: '1px solid var(--color-border)' }}
+        >
+          <h2 className="text-sm font-semibold" style={{ color: 'var(--color-text)' }}>
+            {t('checkin.scanner.recent')}
+          </h2>
+          <button onClick={handleClear} className="text-xs" style={{ color: 'var(--color-text-muted)' }}>
+            {t('checkin.scanner.clearSynced')}
+          </button>
+        </div>
+        {scans.length === 0 ? (
+          <p className="px-4 py-6 text-center text-sm" style={{ color: 'var(--color-text-muted)' }}>
+            {t('checkin.scanner.empty')}
+          </p>
+        ) : (
+          <ul>
+            {scans.slice(0, 50).map((scan) => (
+              <li
+                key={scan.clientId}
+                className="flex items-center justify-between gap-2 px-4 py-2 text-sm"
+                style={{ borderBottom: '1px solid var(--color-border)' }}
+              >
+                <span style={{ color: 'var(--color-text)' }}>
+                  {scan.attendeeName || scan.sync?.attendeeName || t('checkin.scanner.verdict.unverified')}
+                </span>
+                <span className="flex items-center gap-2 text-xs" style={{ color: 'var(--color-text-muted)' }}>
+                  {new Date(scan.offlineTimestamp).toLocaleTimeString('en-CH')}
+                  {scan.synced === 1 ? (
+                    <Icons.CheckCircle size={12} />
+                  ) : (
+                    <Icons.Clock size={12} />
+                  )}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function getDeviceIdSafe(): string {
+  return typeof window === 'undefined' ? '' : getDeviceId();
+}
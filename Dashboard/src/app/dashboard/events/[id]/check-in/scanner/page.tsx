@@ -0,0 +1,16 @@
+import type { Metadata } from 'next';
+import ClientPage from './client';
+
+export const dynamicParams = false;
+
+export const metadata: Metadata = {
+  manifest: '/scanner.webmanifest',
+};
+
+export function generateStaticParams() {
+  return [{ id: '_' }];
+}
+
+export default function Page() {
+  return <ClientPage />;
+}
@@ -2,7 +2,14 @@
 
 import { useEffect, useState, useCallback, useRef, type DragEvent } from 'react';
 import { useEventId } from '@/hooks/use-event-id';
-import { api, type FieldDefinition, type FormSchema as ApiFormSchema, type FormTemplate } from '@/lib/api';
+import {
+  api,
+  type FieldDefinition,
+  type FormFieldMapping,
+  type FormSchema as ApiFormSchema,
+  type FormSchemaDiff,
+  type FormTemplate,
+} from '@/lib/api';
 import { useI18n } from '@/i18n/i18n-provider';
 import { resolveLabel } from '@/i18n/i18n-provider';
 import { Icons } from '@/components/icons';
@@ -23,6 +30,12 @@ const WIDTH_OPTIONS = [
   { value: 25, label: '25%' },
 ] as const;
 
+/** Field types whose options can carry a price (sold as order add-ons at checkout). */
+const ADD_ON_TYPES = ['select', 'radio', 'multi-select', 'checkbox'];
+
+/** Swiss VAT categories for priced options (see Server forms/form-add-ons.ts). */
+const VAT_CATEGORIES = ['standard', 'reduced', 'accommodation', 'exempt'] as const;
+
 /** Friendly group label keys (resolved via i18n). */
 const GROUP_KEYS: Record<string, string> = {
   must_have: 'forms.group.mustHave',
@@ -47,6 +60,21 @@ interface ConditionRule {
   value: unknown;
 }
 
+/** A rule or a nested `all` / `any` / `not` group (see Server common/conditions.ts). */
+type ConditionNode =
+  | ConditionRule
+  | { all: ConditionNode[] }
+  | { any: ConditionNode[] }
+  | { not: ConditionNode };
+
+/** One-line summary of a condition tree, for the builder tooltip. */
+function describeCondition(node: ConditionNode): string {
+  if ('field' in node) return `${node.field} ${node.operator} ${JSON.stringify(node.value)}`;
+  if ('not' in node) return `NOT (${describeCondition(node.not)})`;
+  const [joiner, nodes] = 'all' in node ? [' AND ', node.all] : [' OR ', node.any];
+  return `(${nodes.map(describeCondition).join(joiner)})`;
+}
+
 interface BuilderField {
   id: string;
   slug?: string;
@@ -55,8 +83,14 @@ interface BuilderField {
   required: boolean;
   width: number;
   section?: string;
-  conditions?: ConditionRule[];
-  options?: Array<{ value: string; label: Record<string, string> }>;
+  conditions?: ConditionNode[];
+  options?: Array<{
+    value: string;
+    label: Record<string, string>;
+    priceCents?: number;
+    stock?: number | null;
+    vatCategory?: (typeof VAT_CATEGORIES)[number];
+  }>;
   helpText?: Record<string, string>;
   placeholder?: Record<string, string>;
   validationRules?: Record<string, unknown>;
@@ -71,6 +105,7 @@ interface FormSchema {
   active: boolean;
   ticketTypeId?: string;
   fields: { fields?: BuilderField[] } | BuilderField[];
+  fieldMappings?: FormFieldMapping[] | null;
   createdAt: string;
 }
 
@@ -145,7 +180,7 @@ function normalizeBuilderFields(fields: BuilderField[]): BuilderField[] {
 /** Convert a FieldDefinition from the repository into a BuilderField. */
 function repoFieldToBuilder(fd: FieldDefinition): BuilderField {
   // Convert legacy conditionalOn to conditions array
-  let conditions: ConditionRule[] | undefined;
+  let conditions: ConditionNode[] | undefined;
   if (fd.conditionalOn && typeof fd.conditionalOn === 'object') {
     const co = fd.conditionalOn as Record<string, unknown>;
     if (co.field && co.operator) {
@@ -214,6 +249,13 @@ export default function FormsPage() {
   // Drag state
   const dragIdx = useRef<number | null>(null);
   const [dropIdx, setDropIdx] = useState<number | null>(null);
+  const [pricingFieldId, setPricingFieldId] = useState<string | null>(null);
+
+  // Version changes panel (diff against the previous version + field mappings)
+  const [changesSchemaId, setChangesSchemaId] = useState<string | null>(null);
+  const [schemaDiff, setSchemaDiff] = useState<FormSchemaDiff | null>(null);
+  const [mappingsText, setMappingsText] = useState('');
+  const [savingMappings, setSavingMappings] = useState(false);
 
   // ── Data loading ────────────────────────────────────
 
@@ -306,6 +348,11 @@ export default function FormsPage() {
     ));
   };
 
+  const updateOption = (idx: number, optionIdx: number, patch: NonNullable<BuilderField['options']>[number]) => {
+    const options = (fields[idx].options ?? []).map((o, i) => (i === optionIdx ? patch : o));
+    updateField(idx, { options });
+  };
+
   const removeField = (idx: number) => {
     setFields((prev) => prev.filter((_, i) => i !== idx));
   };
@@ -356,6 +403,44 @@ export default function FormsPage() {
     }
   };
 
+  /** Toggle the changes panel of a versioned schema and load its diff. */
+  const toggleChanges = async (schema: FormSchema) => {
+    if (changesSchemaId === schema.id) {
+      setChangesSchemaId(null);
+      return;
+    }
+    setChangesSchemaId(schema.id);
+    setSchemaDiff(null);
+    setMappingsText(JSON.stringify(schema.fieldMappings ?? [], null, 2));
+    try {
+      setSchemaDiff(await api.getFormSchemaDiff(schema.id, eventId));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : t('forms.failedToLoadChanges'));
+    }
+  };
+
+  const handleSaveMappings = async (schema: FormSchema) => {
+    let mappings: FormFieldMapping[];
+    try {
+      mappings = JSON.parse(mappingsText || '[]');
+      if (!Array.isArray(mappings)) throw new Error();
+    } catch {
+      toast.error(t('forms.mappingsInvalidJson'));
+      return;
+    }
+    setSavingMappings(true);
+    try {
+      await api.updateFormFieldMappings(schema.id, eventId, mappings);
+      setSchemaDiff(await api.getFormSchemaDiff(schema.id, eventId));
+      toast.success(t('forms.mappingsSaved'));
+      await loadSchemas();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : t('forms.failedToSaveMappings'));
+    } finally {
+      setSavingMappings(false);
+    }
+  };
+
   const handleCreate = async () => {
     if (!formName.trim()) { setError(t('forms.validation.nameRequired')); return; }
     if (fields.length === 0) { setError(t('forms.validation.addField')); return; }
@@ -681,7 +766,7 @@ export default function FormsPage() {
                           <span
                             className="rounded px-1.5 py-0.5 text-[10px] font-medium"
                             style={{ background: 'var(--color-warning-light, #fef3c7)', color: 'var(--color-warning, #b45309)' }}
-                            title={`Conditional on: ${field.conditions.map(c => `${c.field} ${c.operator} ${JSON.stringify(c.value)}`).join(', ')}`}
+                            title={`Conditional on: ${field.conditions.map(describeCondition).join(', ')}`}
                           >
                             ⚡ conditional
                           </span>
@@ -691,7 +776,71 @@ export default function FormsPage() {
                             §{field.section}
                           </span>
                         )}
+                        {ADD_ON_TYPES.includes(field.type) && field.options && field.options.length > 0 && (
+                          <button
+                            onClick={() => setPricingFieldId(pricingFieldId === field.id ? null : field.id)}
+                            className="rounded px-1.5 py-0.5 text-[10px] font-medium transition-colors hover:opacity-70"
+                            style={{ background: 'var(--color-bg-muted)', color: 'var(--color-primary)' }}
+                          >
+                            {t('forms.optionPrices')}
+                            {field.options.some((o) => o.priceCents) ? ` (${field.options.filter((o) => o.priceCents).length})` : ''}
+                          </button>
+                        )}
                       </div>
+
+                      {/* Priced options — sold as add-ons at checkout */}
+                      {pricingFieldId === field.id && field.options && (
+                        <div className="space-y-1 border-t px-3 py-2" style={{ borderColor: 'var(--color-border)' }}>
+                          <p className="text-[10px]" style={{ color: 'var(--color-text-muted)' }}>{t('forms.optionPricesHint')}</p>
+                          {field.options.map((o, optionIdx) => (
+                            <div key={o.value} className="flex flex-wrap items-center gap-1.5 text-xs">
+                              <span className="min-w-0 flex-1 truncate" style={{ color: 'var(--color-text)' }}>{resolveLabel(o.label, locale)}</span>
+                              <input
+                                type="number"
+                                min={0}
+                                step="0.05"
+                                value={o.priceCents ? o.priceCents / 100 : ''}
+                                onChange={(e) => {
+                                  const price = parseFloat(e.target.value);
+                                  updateOption(idx, optionIdx, price > 0
+                                    ? { ...o, priceCents: Math.round(price * 100) }
+                                    : { value: o.value, label: o.label });
+                                }}
+                                placeholder={t('forms.optionPrice')}
+                                className="w-20 rounded px-1.5 py-0.5 text-xs"
+                                style={{ background: 'var(--color-bg-subtle)', border: '1px solid var(--color-border)', color: 'var(--color-text)' }}
+                              />
+                              <input
+                                type="number"
+                                min={0}
+                                step={1}
+                                disabled={!o.priceCents}
+                                value={o.stock ?? ''}
+                                onChange={(e) => updateOption(idx, optionIdx, {
+                                  ...o,
+                                  stock: e.target.value === '' ? null : Math.max(0, parseInt(e.target.value, 10) || 0),
+                                })}
+                                placeholder={t('forms.optionStock')}
+                                className="w-20 rounded px-1.5 py-0.5 text-xs disabled:opacity-40"
+                                style={{ background: 'var(--color-bg-subtle)', border: '1px solid var(--color-border)', color: 'var(--color-text)' }}
+                              />
+                              <select
+                                disabled={!o.priceCents}
+                                value={o.vatCategory ?? 'standard'}
+                                onChange={(e) => updateOption(idx, optionIdx, {
+                                  ...o,
+                                  vatCategory: e.target.value as (typeof VAT_CATEGORIES)[number],
+                                })}
+                                className="rounded px-1.5 py-0.5 text-xs disabled:opacity-40"
+                                style={{ background: 'var(--color-bg-subtle)', border: '1px solid var(--color-border)', color: 'var(--color-text)' }}
+                                title={t('forms.vatCategory')}
+                              >
+                                {VAT_CATEGORIES.map((c) => <option key={c} value={c}>{t(`forms.vatCategory.${c}`)}</option>)}
+                              </select>
+                            </div>
+                          ))}
+                        </div>
+                      )}
                     </div>
                   ))}
 
@@ -923,7 +1072,82 @@ export default function FormsPage() {
                     >
                       <Icons.Trash size={14} /> {t('common.delete')}
                     </button>
+                    {schema.version > 1 && (
+                      <button
+                        onClick={() => toggleChanges(schema)}
+                        className="flex items-center gap-1 rounded-lg px-3 py-1.5 text-xs font-medium transition-colors"
+                        style={{
+                          border: '1px solid var(--color-border)',
+                          color: 'var(--color-text-secondary)',
+                        }}
+                      >
+                        <Icons.Columns size={14} /> {t('forms.versionChanges')}
+                      </button>
+                    )}
                   </div>
+                  {changesSchemaId === schema.id && (
+                    <div className="mt-3 space-y-3 border-t pt-3 text-xs" style={{ borderColor: 'var(--color-border)', color: 'var(--color-text-secondary)' }}>
+                      {!schemaDiff ? (
+                        <div className="h-12 animate-pulse rounded-lg" style={{ background: 'var(--color-bg-muted)' }} />
+                      ) : (
+                        <div className="space-y-1">
+                          <p className="font-medium" style={{ color: 'var(--color-text)' }}>
+                            v{schemaDiff.from.version} → v{schemaDiff.to.version}
+                          </p>
+                          {schemaDiff.added.length > 0 && (
+                            <p>{t('forms.diffAdded')}: {schemaDiff.added.map((f) => resolveLabel(f.label, locale) || f.fieldId).join(', ')}</p>
+                          )}
+                          {schemaDiff.removed.length > 0 && (
+                            <p>{t('forms.diffRemoved')}: {schemaDiff.removed.map((f) => resolveLabel(f.label, locale) || f.fieldId).join(', ')}</p>
+                          )}
+                          {schemaDiff.changed.map((c) => (
+                            <p key={c.fieldId}>
+                              {t('forms.diffChanged')}: <span className="font-mono">{c.previousFieldId ? `${c.previousFieldId} → ${c.fieldId}` : c.fieldId}</span>
+                              {c.changes.length > 0 && ` (${c.changes.map((ch) => ch.property).join(', ')})`}
+                              {c.options && Object.keys(c.options.remapped).length > 0 && (
+                                <> · {Object.entries(c.options.remapped).map(([from, to]) => `${from} → ${to}`).join(', ')}</>
+                              )}
+                            </p>
+                          ))}
+                          {schemaDiff.restructured.map((r) => (
+                            <p key={`${r.kind}:${r.from.join('+')}`}>
+                              {t(r.kind === 'split' ? 'forms.diffSplit' : 'forms.diffMerged')}:{' '}
+                              <span className="font-mono">{r.from.join(' + ')} → {r.to.join(' + ')}</span>
+                            </p>
+                          ))}
+                          {schemaDiff.added.length + schemaDiff.removed.length + schemaDiff.changed.length + schemaDiff.restructured.length === 0 && (
+                            <p>{t('forms.diffNone')}</p>
+                          )}
+                        </div>
+                      )}
+                      <div>
+                        <label className="mb-1 block font-medium" style={{ color: 'var(--color-text)' }}>
+                          {t('forms.fieldMappings')}
+                        </label>
+                        <p className="mb-2" style={{ color: 'var(--color-text-muted)' }}>{t('forms.fieldMappingsHint')}</p>
+                        <textarea
+                          value={mappingsText}
+                          onChange={(e) => setMappingsText(e.target.value)}
+                          rows={5}
+                          spellCheck={false}
+                          className="w-full rounded-lg px-3 py-2 font-mono text-xs"
+                          style={{
+                            background: 'var(--color-bg-subtle)',
+                            border: '1px solid var(--color-border)',
+                            color: 'var(--color-text)',
+                          }}
+                        />
+                        <button
+                          onClick={() => handleSaveMappings(schema)}
+                          disabled={savingMappings}
+                          className="mt-2 rounded-lg px-3 py-1.5 text-xs font-semibold text-white transition-colors disabled:opacity-50"
+                          style={{ background: 'var(--color-primary)' }}
+                        >
+                          {savingMappings ? '...' : t('forms.saveMappings')}
+                        </button>
+                      </div>
+                    </div>
+                  )}
                 </div>
               );
             })}
@@ -2,17 +2,27 @@
 
 import { useEffect, useState, useCallback, useMemo } from 'react';
 import { useEventId } from '@/hooks/use-event-id';
-import { api, downloadFile, type Order, type OrderDetails, type PaymentInfo } from '@/lib/api';
+import { api, downloadFile, type Order, type OrderDetails, type OrderRefund, type PaymentInfo } from '@/lib/api';
 import { DataTable } from '@/components/data-table';
 import { StatusBadge } from '@/components/status-badge';
 import { TestBadge } from '@/components/test-badge';
 import { useSSE } from '@/lib/sse';
 import { Icons } from '@/components/icons';
-import { useI18n } from '@/i18n/i18n-provider';
+import { useI18n, resolveLabel } from '@/i18n/i18n-provider';
 import { toast } from 'sonner';
 
 type ViewMode = 'list' | 'detail' | 'edit';
 
+const PROVIDER_LABELS: Record<string, string> = {
+  stripe: 'Stripe',
+  postfinance: 'PostFinance Checkout',
+};
+
+/** Orders without a captured provider payment (bank transfer, box office) are refunded manually. */
+function paidOnline(order: OrderDetails): boolean {
+  return order.payments?.some((p) => p.status === 'succeeded' && p.providerPaymentId) ?? false;
+}
+
 /**
  * Ticket-category → attendee-facing type, mirroring the Attendees page so the
  * Orders "Ticket Type" column colour-codes consistently (visitor vs exhibitor, etc.).
@@ -39,7 +49,7 @@ function ticketCategoryToType(category?: string | null): string {
 }
 
 export default function OrdersPage() {
-  const { t } = useI18n();
+  const { t, locale } = useI18n();
   const eventId = useEventId();
   const [orders, setOrders] = useState<Order[]>([]);
   const [loading, setLoading] = useState(true);
@@ -67,6 +77,20 @@ export default function OrdersPage() {
   // Invoice download state (which order's invoice is currently downloading)
   const [downloadingInvoiceId, setDownloadingInvoiceId] = useState<string | null>(null);
 
+  // Refund state — selected ticket ids, optional amount override (in currency units)
+  const [refundMode, setRefundMode] = useState(false);
+  const [refundTicketIds, setRefundTicketIds] = useState<Set<string>>(new Set());
+  const [refundAmount, setRefundAmount] = useState('');
+  const [refundReason, setRefundReason] = useState('');
+  const [refunding, setRefunding] = useState(false);
+
+  // Ticket transfer (one ticket at a time)
+  const [transferTicket, setTransferTicket] = useState<{ id: string; code: string } | null>(null);
+  const [transferEmail, setTransferEmail] = useState('');
+  const [transferFirstName, setTransferFirstName] = useState('');
+  const [transferLastName, setTransferLastName] = useState('');
+  const [transferring, setTransferring] = useState(false);
+
   // Export state ('csv' | 'xlsx' while that download is in flight)
   const [exporting, setExporting] = useState<string | null>(null);
 
@@ -126,19 +150,35 @@ export default function OrdersPage() {
   const { isConnected } = useSSE(`events/${eventId}/orders`, handleNewOrder, !!eventId);
 
   const totalRevenue = filteredOrders
-    .filter((o) => o.status === 'paid')
-    .reduce((sum, o) => sum + o.totalCents, 0);
+    .filter((o) => o.status === 'paid' || o.status === 'partially_refunded')
+    .reduce((sum, o) => sum + o.totalCents - (o.refundedCents ?? 0), 0);
+
+  const resetRefund = () => {
+    setRefundMode(false);
+    setRefundTicketIds(new Set());
+    setRefundAmount('');
+    setRefundReason('');
+  };
+
+  const resetTransfer = () => {
+    setTransferTicket(null);
+    setTransferEmail('');
+    setTransferFirstName('');
+    setTransferLastName('');
+  };
 
   const openDetail = async (order: Order) => {
     setDetailLoading(true);
     setError(null);
     setEmailResult(null);
     setPaymentInfo(null);
+    resetRefund();
+    resetTransfer();
     setViewMode('detail');
     try {
       const [details, pmInfo] = await Promise.all([
         api.getOrderDetails(order.id),
-        order.status === 'paid' ? api.getPaymentInfo(order.id).catch(() => null) : Promise.resolve(null),
+        order.status === 'paid' || order.status === 'partially_refunded' ? api.getPaymentInfo(order.id).catch(() => null) : Promise.resolve(null),
       ]);
       setSelectedOrder(details);
       setPaymentInfo(pmInfo);
@@ -220,6 +260,100 @@ export default function OrdersPage() {
     setError(null);
     setEmailResult(null);
     setPaymentInfo(null);
+    resetRefund();
+  };
+
+  /** What the selected tickets were paid for, after the order-level discount (mirrors the server). */
+  const autoRefundCents = (order: OrderDetails): number => {
+    const subtotal = order.items.reduce((sum, item) => sum + item.subtotalCents, 0);
+    if (subtotal <= 0) return 0;
+    const list = (order.tickets ?? [])
+      .filter((tk) => refundTicketIds.has(tk.id))
+      .reduce((sum, tk) => sum + (order.items.find((i) => i.ticketTypeId === tk.ticketTypeId)?.unitPriceCents ?? 0), 0);
+    return Math.round((list * order.totalCents) / subtotal);
+  };
+
+  const toggleRefundTicket = (ticketId: string) => {
+    setRefundTicketIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(ticketId)) next.delete(ticketId);
+      else next.add(ticketId);
+      return next;
+    });
+  };
+
+  const handleRefund = async () => {
+    if (!selectedOrder || refunding) return;
+    const override = refundAmount.trim() ? Math.round(parseFloat(refundAmount) * 100) : undefined;
+    const amountCents = override ?? autoRefundCents(selectedOrder);
+    if (refundTicketIds.size === 0 && !override) {
+      toast.error(t('orders.refund.nothingSelected'));
+      return;
+    }
+    const formatted = (amountCents / 100).toFixed(2);
+    const manual = !paidOnline(selectedOrder);
+    const msg = t(manual ? 'orders.refund.confirmManual' : 'orders.refund.confirm')
+      .replace('{amount}', formatted)
+      .replace('{currency}', selectedOrder.currency)
+      .replace('{orderNumber}', selectedOrder.orderNumber);
+    if (!confirm(msg)) return;
+
+    setRefunding(true);
+    try {
+      await api.refundOrder(selectedOrder.id, {
+        ticketIds: refundTicketIds.size > 0 ? [...refundTicketIds] : undefined,
+        amountCents: override,
+        reason: refundReason.trim() || undefined,
+        manual: manual || undefined,
+      });
+      toast.success(t('orders.refund.success').replace('{amount}', formatted).replace('{currency}', selectedOrder.currency));
+      const [updatedOrders, updatedDetail] = await Promise.all([
+        api.getOrders(eventId),
+        api.getOrderDetails(selectedOrder.id),
+      ]);
+      setOrders(updatedOrders);
+      setSelectedOrder(updatedDetail);
+      resetRefund();
+    } catch (err: any) {
+      toast.error(err?.message ?? t('orders.refund.failed'));
+    } finally {
+      setRefunding(false);
+    }
+  };
+
+  const handleTransfer = async () => {
+    if (!selectedOrder || !transferTicket || transferring) return;
+    if (!transferEmail.trim() || !transferFirstName.trim() || !transferLastName.trim()) {
+      toast.error(t('orders.transfer.missingFields'));
+      return;
+    }
+    setTransferring(true);
+    try {
+      const result = await api.transferTicket(eventId, transferTicket.id, {
+        email: transferEmail.trim(),
+        firstName: transferFirstName.trim(),
+        lastName: transferLastName.trim(),
+      });
+      toast.success(t('orders.transfer.success').replace('{code}', transferTicket.code).replace('{email}', result.email));
+      resetTransfer();
+      setSelectedOrder(await api.getOrderDetails(selectedOrder.id));
+    } catch (err: any) {
+      toast.error(err?.message ?? t('orders.transfer.failed'));
+    } finally {
+      setTransferring(false);
+    }
+  };
+
+  const handleDownloadCreditNote = async (refund: OrderRefund) => {
+    if (downloadingInvoiceId) return;
+    setDownloadingInvoiceId(refund.id);
+    try {
+      await downloadFile(api.creditNoteUrl(refund.id), `credit-note-${refund.creditNoteNumber ?? refund.id}.pdf`);
+    } catch {
+      toast.error(t('orders.refund.creditNoteError'));
+    } finally {
+      setDownloadingInvoiceId(null);
+    }
   };
 
   const handleDownloadInvoice = async (order: Order) => {
@@ -322,6 +456,15 @@ export default function OrdersPage() {
                 >
                   <span className="inline-flex items-center gap-1"><Icons.Edit size={13} /> {t('orders.editOrder')}</span>
                 </button>
+                {(selectedOrder.status === 'paid' || selectedOrder.status === 'partially_refunded') && !refundMode && (
+                  <button
+                    onClick={() => setRefundMode(true)}
+                    className="rounded-lg px-3 py-1.5 text-xs font-medium transition-colors"
+                    style={{ border: '1px solid var(--color-border)', color: 'var(--color-warning, #b45309)' }}
+                  >
+                    <span className="inline-flex items-center gap-1"><Icons.Undo size={13} /> {t('orders.refund.button')}</span>
+                  </button>
+                )}
                 {selectedOrder.status !== 'cancelled' && selectedOrder.status !== 'refunded' && (
                   <button
                     onClick={() => handleCancel(selectedOrder)}
@@ -396,17 +539,18 @@ export default function OrdersPage() {
                     label={t('orders.column.date')}
                     value={new Date(selectedOrder.createdAt).toLocaleDateString('en-CH', { day: '2-digit', month: '2-digit', year: '2-digit', hour: '2-digit', minute: '2-digit' })}
                   />
+                  {(selectedOrder.refundedCents ?? 0) > 0 && (
+                    <InfoField
+                      label={t('orders.detail.refunded')}
+                      value={`${(selectedOrder.refundedCents! / 100).toFixed(2)} ${selectedOrder.currency}`}
+                    />
+                  )}
                   {selectedOrder.paidAt && (
                     <InfoField
                       label={t('orders.detail.paidAt')}
                       value={new Date(selectedOrder.paidAt).toLocaleDateString('en-CH', { day: '2-digit', month: '2-digit', year: '2-digit', hour: '2-digit', minute: '2-digit' })}
                     />
                   )}
-                  {selectedOrder.stripePaymentId && (
-                    <InfoField label={t('orders.detail.stripeRef')} value={
-                      <code className="text-[10px] break-all">{selectedOrder.stripePaymentId}</code>
-                    } />
-                  )}
                   {!!meta.promoCodeId && (
                     <InfoField label={t('orders.detail.promoCode')} value={String(meta.promoCodeLabel ?? meta.promoCodeId)} />
                   )}
@@ -468,7 +612,8 @@ export default function OrdersPage() {
                     <Icons.CreditCard size={20} style={{ color: 'var(--color-text-secondary)' }} />
                     <div>
                       <p className="text-sm font-medium" style={{ color: 'var(--color-text)' }}>
-                        {paymentInfo.brand ? paymentInfo.brand.charAt(0).toUpperCase() + paymentInfo.brand.slice(1) : 'Card'} •••• {paymentInfo.last4}
+                        {paymentInfo.brand ? paymentInfo.brand.charAt(0).toUpperCase() + paymentInfo.brand.slice(1) : 'Card'}
+                        {paymentInfo.last4 && ` •••• ${paymentInfo.last4}`}
                       </p>
                       {paymentInfo.expMonth && paymentInfo.expYear && (
                         <p className="text-xs" style={{ color: 'var(--color-text-secondary)' }}>
@@ -480,9 +625,47 @@ export default function OrdersPage() {
                   </div>
                 ) : (
                   <p className="text-xs" style={{ color: 'var(--color-text-muted)' }}>
-                    {selectedOrder.status === 'paid' ? t('orders.detail.paymentInfoUnavailable') : t('orders.detail.notPaidYet')}
+                    {selectedOrder.status === 'paid' || selectedOrder.status === 'partially_refunded' ? t('orders.detail.paymentInfoUnavailable') : t('orders.detail.notPaidYet')}
                   </p>
                 )}
+                {selectedOrder.payments && selectedOrder.payments.length > 0 && (
+                  <div className="mt-3 pt-3" style={{ borderTop: '1px solid var(--color-border)' }}>
+                    <p className="text-[10px] font-medium uppercase tracking-wide mb-1" style={{ color: 'var(--color-text-muted)' }}>
+                      {t('orders.detail.paymentAttempts')}
+                    </p>
+                    <ul className="space-y-1.5">
+                      {selectedOrder.payments.map((p) => (
+                        <li key={p.id} className="text-xs" style={{ color: 'var(--color-text-secondary)' }}>
+                          <div className="flex items-center justify-between gap-2">
+                            <span>
+                              {PROVIDER_LABELS[p.provider] ?? p.provider} ·{' '}
+                              {new Date(p.createdAt).toLocaleDateString('en-CH', { day: '2-digit', month: '2-digit', year: '2-digit', hour: '2-digit', minute: '2-digit' })}
+                            </span>
+                            <StatusBadge status={p.status} />
+                          </div>
+                          {p.providerPaymentId && (
+                            <code className="text-[10px] break-all" style={{ color: 'var(--color-text-muted)' }}>{p.providerPaymentId}</code>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                {selectedOrder.paymentReference && (
+                  <div className="mt-3 pt-3" style={{ borderTop: '1px solid var(--color-border)' }}>
+                    <p className="text-[10px] font-medium uppercase tracking-wide mb-1" style={{ color: 'var(--color-text-muted)' }}>
+                      {t('orders.detail.bankTransfer')}
+                    </p>
+                    <p className="font-mono text-xs" style={{ color: 'var(--color-text-secondary)' }}>
+                      {selectedOrder.paymentReference}
+                    </p>
+                    {selectedOrder.paymentDueAt && (
+                      <p className="text-xs" style={{ color: 'var(--color-text-secondary)' }}>
+                        {t('orders.detail.paymentDue').replace('{date}', new Date(selectedOrder.paymentDueAt).toLocaleDateString('en-CH'))}
+                      </p>
+                    )}
+                  </div>
+                )}
                 {selectedOrder.billingAddress && Object.keys(selectedOrder.billingAddress).length > 0 && (
                   <div className="mt-3 pt-3" style={{ borderTop: '1px solid var(--color-border)' }}>
                     <p className="text-[10px] font-medium uppercase tracking-wide mb-1" style={{ color: 'var(--color-text-muted)' }}>
@@ -516,7 +699,9 @@ export default function OrdersPage() {
                     {selectedOrder.items.map((item) => (
                       <tr key={item.id} style={{ borderBottom: '1px solid var(--color-border)' }}>
                         <td className="py-1.5" style={{ color: 'var(--color-text)' }}>
-                          {item.ticketType?.name ?? item.ticketTypeId}
+                          {item.meta?.addOn
+                            ? `${resolveLabel(item.meta.addOn.optionLabel, locale)} · ${t('orders.detail.addOn')}`
+                            : item.ticketType?.name ?? item.ticketTypeId}
                         </td>
                         <td className="py-1.5 text-right" style={{ color: 'var(--color-text)' }}>
                           {item.quantity}
@@ -560,10 +745,179 @@ export default function OrdersPage() {
                       className="flex items-center justify-between rounded-lg px-3 py-1.5"
                       style={{ background: 'var(--color-bg-subtle)' }}
                     >
-                      <code className="text-xs font-mono" style={{ color: 'var(--color-text)' }}>
-                        {ticket.code}
-                      </code>
-                      <StatusBadge status={ticket.status} />
+                      <label className="inline-flex items-center gap-2">
+                        {refundMode && ticket.status !== 'voided' && (
+                          <input
+                            type="checkbox"
+                            checked={refundTicketIds.has(ticket.id)}
+                            onChange={() => toggleRefundTicket(ticket.id)}
+                          />
+                        )}
+                        <code className="text-xs font-mono" style={{ color: 'var(--color-text)' }}>
+                          {ticket.code}
+                        </code>
+                      </label>
+                      <span className="inline-flex items-center gap-1.5">
+                        {!refundMode && ticket.status === 'valid' && (
+                          <button
+                            onClick={() => setTransferTicket({ id: ticket.id, code: ticket.code })}
+                            title={t('orders.transfer.button')}
+                            className="rounded p-1 transition-colors"
+                            style={{ color: 'var(--color-text-secondary)' }}
+                          >
+                            <Icons.ArrowRight size={13} />
+                          </button>
+                        )}
+                        <StatusBadge status={ticket.status} />
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* ── Transfer ── */}
+            {viewMode === 'detail' && transferTicket && (
+              <div
+                className="rounded-xl p-4"
+                style={{ background: 'var(--color-bg-card)', border: '1px solid var(--color-border)' }}
+              >
+                <h2 className="mb-1 text-sm font-semibold" style={{ color: 'var(--color-text)' }}>
+                  {t('orders.transfer.title').replace('{code}', transferTicket.code)}
+                </h2>
+                <p className="mb-3 text-xs" style={{ color: 'var(--color-text-secondary)' }}>
+                  {t('orders.transfer.hint')}
+                </p>
+                <div className="grid gap-3 sm:grid-cols-3">
+                  <FieldInput label={t('orders.transfer.email')} value={transferEmail} onChange={setTransferEmail} type="email" />
+                  <FieldInput label={t('orders.transfer.firstName')} value={transferFirstName} onChange={setTransferFirstName} />
+                  <FieldInput label={t('orders.transfer.lastName')} value={transferLastName} onChange={setTransferLastName} />
+                </div>
+                <div className="mt-3 flex justify-end gap-2">
+                  <button
+                    onClick={resetTransfer}
+                    disabled={transferring}
+                    className="rounded-lg px-3 py-1.5 text-xs font-medium transition-colors disabled:opacity-50"
+                    style={{ border: '1px solid var(--color-border)', color: 'var(--color-text)' }}
+                  >
+                    {t('common.cancel')}
+                  </button>
+                  <button
+                    onClick={handleTransfer}
+                    disabled={transferring}
+                    className="inline-flex items-center gap-1.5 rounded-lg px-3 py-1.5 text-xs font-medium text-white transition-colors disabled:opacity-50"
+                    style={{ background: 'var(--color-primary)' }}
+                  >
+                    {transferring ? <Icons.RefreshCw size={13} className="animate-spin" /> : <Icons.ArrowRight size={13} />}
+                    {t('orders.transfer.submit')}
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {/* ── Refund ── */}
+            {viewMode === 'detail' && refundMode && (
+              <div
+                className="rounded-xl p-4"
+                style={{ background: 'var(--color-bg-card)', border: '1px solid var(--color-border)' }}
+              >
+                <h2 className="mb-1 text-sm font-semibold" style={{ color: 'var(--color-text)' }}>
+                  {t('orders.refund.title')}
+                </h2>
+                <p className="mb-3 text-xs" style={{ color: 'var(--color-text-secondary)' }}>
+                  {t('orders.refund.hint')}
+                </p>
+                {!paidOnline(selectedOrder) && (
+                  <p className="mb-3 text-xs" style={{ color: 'var(--color-warning, #b45309)' }}>
+                    {t('orders.refund.manualHint')}
+                  </p>
+                )}
+                <div className="grid gap-3 sm:grid-cols-2">
+                  <FieldInput
+                    label={t('orders.refund.amount').replace('{currency}', selectedOrder.currency)}
+                    value={refundAmount}
+                    onChange={setRefundAmount}
+                    placeholder={(autoRefundCents(selectedOrder) / 100).toFixed(2)}
+                    type="number"
+                  />
+                  <FieldInput
+                    label={t('orders.refund.reason')}
+                    value={refundReason}
+                    onChange={setRefundReason}
+                  />
+                </div>
+                <div className="mt-3 flex justify-end gap-2">
+                  <button
+                    onClick={resetRefund}
+                    disabled={refunding}
+                    className="rounded-lg px-3 py-1.5 text-xs font-medium transition-colors disabled:opacity-50"
+                    style={{ border: '1px solid var(--color-border)', color: 'var(--color-text)' }}
+                  >
+                    {t('common.cancel')}
+                  </button>
+                  <button
+                    onClick={handleRefund}
+                    disabled={refunding}
+                    className="inline-flex items-center gap-1.5 rounded-lg px-3 py-1.5 text-xs font-medium text-white transition-colors disabled:opacity-50"
+                    style={{ background: 'var(--color-danger, #ef4444)' }}
+                  >
+                    {refunding ? <Icons.RefreshCw size={13} className="animate-spin" /> : <Icons.Undo size={13} />}
+                    {t('orders.refund.submit')
+                      .replace('{amount}', refundAmount.trim() ? parseFloat(refundAmount).toFixed(2) : (autoRefundCents(selectedOrder) / 100).toFixed(2))
+                      .replace('{currency}', selectedOrder.currency)}
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {/* ── Refund history ── */}
+            {(selectedOrder.refunds?.length ?? 0) > 0 && (
+              <div
+                className="rounded-xl p-4"
+                style={{ background: 'var(--color-bg-card)', border: '1px solid var(--color-border)' }}
+              >
+                <h2 className="mb-3 text-sm font-semibold" style={{ color: 'var(--color-text)' }}>
+                  {t('orders.refund.history')}
+                </h2>
+                <div className="space-y-1.5">
+                  {selectedOrder.refunds!.map((refund) => (
+                    <div
+                      key={refund.id}
+                      className="flex items-center justify-between rounded-lg px-3 py-1.5 text-xs"
+                      style={{ background: 'var(--color-bg-subtle)', color: 'var(--color-text)' }}
+                    >
+                      <span>
+                        {new Date(refund.createdAt).toLocaleDateString('en-CH', { day: '2-digit', month: '2-digit', year: '2-digit', hour: '2-digit', minute: '2-digit' })}
+                        {refund.lines && refund.lines.length > 0 && (
+                          <span className="ml-2" style={{ color: 'var(--color-text-secondary)' }}>
+                            {refund.lines.flatMap((l) => l.tickets.map((tk) => tk.code)).join(', ')}
+                          </span>
+                        )}
+                        {refund.source !== 'dashboard' && (
+                          <span className="ml-2" style={{ color: 'var(--color-text-muted)' }}>
+                            {refund.source === 'manual'
+                              ? t('orders.refund.manual')
+                              : t('orders.refund.viaProvider').replace('{provider}', PROVIDER_LABELS[refund.source] ?? refund.source)}
+                          </span>
+                        )}
+                        {refund.reason && (
+                          <span className="ml-2 italic" style={{ color: 'var(--color-text-muted)' }}>{refund.reason}</span>
+                        )}
+                      </span>
+                      <span className="inline-flex items-center gap-2">
+                        <span className="font-medium">
+                          −{(refund.amountCents / 100).toFixed(2)} {refund.currency}
+                        </span>
+                        <button
+                          onClick={() => handleDownloadCreditNote(refund)}
+                          disabled={downloadingInvoiceId !== null}
+                          title={t('orders.refund.creditNote')}
+                          className="rounded p-1 transition-colors disabled:opacity-50"
+                          style={{ color: 'var(--color-text-secondary)' }}
+                        >
+                          <Icons.Download size={13} />
+                        </button>
+                      </span>
                     </div>
                   ))}
                 </div>
@@ -641,7 +995,7 @@ export default function OrdersPage() {
             </div>
 
             {/* ── Email Actions ── */}
-            {viewMode === 'detail' && selectedOrder.status === 'paid' && (
+            {viewMode === 'detail' && (selectedOrder.status === 'paid' || selectedOrder.status === 'partially_refunded') && (
               <div
                 className="rounded-xl p-4"
                 style={{ background: 'var(--color-bg-card)', border: '1px solid var(--color-border)' }}
@@ -2,7 +2,7 @@
 
 import { useEffect, useState, useCallback } from 'react';
 import { useEventId } from '@/hooks/use-event-id';
-import { api, type Event, type MembershipPartner } from '@/lib/api';
+import { api, type Event, type EventCloneReport, type MembershipPartner } from '@/lib/api';
 import { Icons } from '@/components/icons';
 import { useI18n } from '@/i18n/i18n-provider';
 import { RichTextEditor } from '@/components/rich-text-editor';
@@ -61,6 +61,7 @@ export default function EventSettingsPage() {
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [resetting, setResetting] = useState(false);
+  const [showClone, setShowClone] = useState(false);
 
   // Owner-only "clean slate before go-live" reset: previews counts, confirms,
   // then wipes this event's TEST orders, their attendees, and all exhibitors.
@@ -113,6 +114,7 @@ export default function EventSettingsPage() {
   const [startDate, setStartDate] = useState('');
   const [endDate, setEndDate] = useState('');
   const [doorsOpen, setDoorsOpen] = useState('');
+  const [transferCutoff, setTransferCutoff] = useState('');
   const [timezone, setTimezone] = useState('Europe/Zurich');
   const [venue, setVenue] = useState('');
   const [venueAddress, setVenueAddress] = useState('');
@@ -176,6 +178,9 @@ export default function EventSettingsPage() {
   const [issuerIban, setIssuerIban] = useState('');
   const [issuerBic, setIssuerBic] = useState('');
   const [issuerEmail, setIssuerEmail] = useState('');
+  // Pay by invoice (event.meta.invoicePayment) — needs the IBAN above
+  const [invoicePaymentEnabled, setInvoicePaymentEnabled] = useState(false);
+  const [invoiceDueDays, setInvoiceDueDays] = useState('10');
 
   const populateForm = useCallback((ev: Event) => {
     setName(ev.name);
@@ -184,6 +189,7 @@ export default function EventSettingsPage() {
     setStartDate(toLocal(ev.startDate));
     setEndDate(toLocal(ev.endDate));
     setDoorsOpen(toLocal(ev.doorsOpen));
+    setTransferCutoff(toLocal(ev.transferCutoff));
     setTimezone(ev.timezone);
     setVenue(ev.venue ?? '');
     setVenueAddress(ev.venueAddress ?? '');
@@ -224,6 +230,9 @@ export default function EventSettingsPage() {
     setIssuerIban(issuer.iban ?? '');
     setIssuerBic(issuer.bic ?? '');
     setIssuerEmail(issuer.email ?? '');
+    const invoicePayment = (meta.invoicePayment ?? {}) as { enabled?: boolean; dueDays?: number };
+    setInvoicePaymentEnabled(!!invoicePayment.enabled);
+    setInvoiceDueDays(String(invoicePayment.dueDays ?? 10));
   }, []);
 
   useEffect(() => {
@@ -258,6 +267,7 @@ export default function EventSettingsPage() {
         startDate: startDate ? new Date(startDate).toISOString() : event.startDate,
         endDate: endDate ? new Date(endDate).toISOString() : event.endDate,
         doorsOpen: doorsOpen ? new Date(doorsOpen).toISOString() : null,
+        transferCutoff: transferCutoff ? new Date(transferCutoff).toISOString() : null,
         timezone,
         venue: venue.trim() || undefined,
         venueAddress: venueAddress.trim() || undefined,
@@ -299,6 +309,10 @@ export default function EventSettingsPage() {
             bic: issuerBic.trim() || undefined,
             email: issuerEmail.trim() || undefined,
           },
+          invoicePayment: {
+            enabled: invoicePaymentEnabled,
+            dueDays: Math.max(1, parseInt(invoiceDueDays, 10) || 10),
+          },
         },
       };
       const updated = await api.updateEvent(id, payload);
@@ -391,6 +405,14 @@ export default function EventSettingsPage() {
             </div>
             <FieldSelect label={t('events.settings.timezone')} value={timezone} onChange={setTimezone} options={TIMEZONES.map((tz) => ({ value: tz.value, label: t(tz.label) }))} />
           </div>
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+            <div>
+              <FieldInput label={t('events.settings.transferCutoff')} value={transferCutoff} onChange={setTransferCutoff} type="datetime-local" />
+              <p className="mt-1 text-xs" style={{ color: 'var(--color-text-muted)' }}>
+                {t('events.settings.transferCutoffHint')}
+              </p>
+            </div>
+          </div>
         </Section>
 
         {/* ── Venue ── */}
@@ -1232,6 +1254,56 @@ export default function EventSettingsPage() {
               />
             </div>
           </div>
+
+          <h3 className="mb-2 mt-5 text-sm font-semibold" style={{ color: 'var(--color-text-secondary)' }}>
+            {t('events.settings.invoicePayment')}
+          </h3>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div>
+              <label className="flex cursor-pointer items-center gap-2 text-sm font-medium" style={{ color: 'var(--color-text)' }}>
+                <input
+                  type="checkbox"
+                  checked={invoicePaymentEnabled}
+                  onChange={(e) => setInvoicePaymentEnabled(e.target.checked)}
+                />
+                {t('events.settings.invoicePaymentEnabled')}
+              </label>
+              <p className="mt-1 text-xs" style={{ color: 'var(--color-text-muted)' }}>
+                {issuerIban.trim()
+                  ? t('events.settings.invoicePaymentHint')
+                  : t('events.settings.invoicePaymentNeedsIban')}
+              </p>
+            </div>
+            <div>
+              <label className="mb-1 block text-sm font-medium" style={{ color: 'var(--color-text-secondary)' }}>
+                {t('events.settings.invoiceDueDays')}
+              </label>
+              <input
+                type="number"
+                min={1}
+                value={invoiceDueDays}
+                onChange={(e) => setInvoiceDueDays(e.target.value)}
+                disabled={!invoicePaymentEnabled}
+                className="w-full rounded-lg border px-3 py-2 text-sm disabled:opacity-50"
+                style={{ background: 'var(--color-bg-subtle)', borderColor: 'var(--color-border)', color: 'var(--color-text)' }}
+              />
+            </div>
+          </div>
+        </Section>
+
+        {/* ── Next edition ── */}
+        <Section title={t('events.clone.title')}>
+          <p className="text-sm" style={{ color: 'var(--color-text-muted)' }}>
+            {t('events.clone.hint')}
+          </p>
+          <button
+            onClick={() => setShowClone(true)}
+            className="inline-flex items-center gap-2 rounded-lg px-4 py-2 text-sm font-medium"
+            style={{ border: '1px solid var(--color-border)', color: 'var(--color-text)' }}
+          >
+            <Icons.Copy size={16} />
+            {t('events.clone.open')}
+          </button>
         </Section>
 
         {/* ── Danger Zone ── */}
@@ -1304,6 +1376,8 @@ export default function EventSettingsPage() {
         </div>
       </div>
 
+      {showClone && event && <CloneEventDialog event={event} onClose={() => setShowClone(false)} />}
+
       {/* Floating save button (mobile) */}
       <div className="fixed bottom-4 right-4 sm:hidden">
         <button
@@ -1321,6 +1395,169 @@ export default function EventSettingsPage() {
 
 /* ── Reusable Components ── */
 
+/** Shift by 52 weeks, so the next edition lands on the same weekday. */
+const NEXT_EDITION_MS = 364 * 24 * 60 * 60 * 1000;
+
+function CloneEventDialog({ event, onClose }: { event: Event; onClose: () => void }) {
+  const { t } = useI18n();
+  const nextStart = new Date(new Date(event.startDate).getTime() + NEXT_EDITION_MS);
+  const [name, setName] = useState(
+    event.name.replace(/\b(20\d{2})\b/, (y) => String(Number(y) + 1)),
+  );
+  const [slug, setSlug] = useState(
+    event.slug.replace(/\b(20\d{2})\b/, (y) => String(Number(y) + 1)),
+  );
+  const [startDate, setStartDate] = useState(toLocal(nextStart.toISOString()));
+  const [report, setReport] = useState<EventCloneReport | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const body = () => ({
+    name: name.trim(),
+    slug: slug.trim(),
+    startDate: new Date(startDate).toISOString(),
+  });
+
+  const preview = async () => {
+    setBusy(true);
+    try {
+      setReport(await api.cloneEvent(event.id, { ...body(), dryRun: true }));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : t('events.clone.failed'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const commit = async () => {
+    setBusy(true);
+    try {
+      const result = await api.cloneEvent(event.id, body());
+      toast.success(t('events.clone.created').replace('{name}', result.event.name));
+      window.location.href = `/dashboard/events/${result.event.id}/`;
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : t('events.clone.failed'));
+      setBusy(false);
+    }
+  };
+
+  const fmt = (value: string | null) =>
+    value && /^\d{4}-\d{2}-\d{2}T/.test(value) ? new Date(value).toLocaleString() : (value ?? '—');
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40">
+      <div
+        className="max-h-[90vh] w-full max-w-2xl overflow-y-auto rounded-2xl p-6"
+        style={{
+          background: 'var(--color-bg-card)',
+          boxShadow: 'var(--shadow-lg)',
+          border: '1px solid var(--color-border)',
+        }}
+      >
+        <div className="mb-4 flex items-center justify-between">
+          <h2 className="text-lg font-bold" style={{ color: 'var(--color-text)' }}>
+            {t('events.clone.title')}
+          </h2>
+          <button onClick={onClose} className="text-xl leading-none" style={{ color: 'var(--color-text-muted)' }}>
+            &times;
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <FieldInput label={t('events.clone.name')} value={name} onChange={(v) => { setName(v); setReport(null); }} />
+            <FieldInput label={t('events.clone.slug')} value={slug} onChange={(v) => { setSlug(v); setReport(null); }} />
+          </div>
+          <FieldInput
+            label={t('events.clone.startDate')}
+            type="datetime-local"
+            value={startDate}
+            onChange={(v) => { setStartDate(v); setReport(null); }}
+            hint={t('events.clone.startDateHint')}
+          />
+
+          {report && (
+            <div className="space-y-3 rounded-lg p-4 text-sm" style={{ background: 'var(--color-bg-subtle)', color: 'var(--color-text)' }}>
+              <p className="font-medium">
+                {t('events.clone.shift').replace('{days}', String(report.shiftDays))}
+              </p>
+              <ul className="space-y-1">
+                {report.event.changes.map((c) => (
+                  <li key={c.field} className="text-xs">
+                    <span className="font-mono">{c.field}</span>: {fmt(c.from)} → {fmt(c.to)}
+                  </li>
+                ))}
+              </ul>
+              {report.sections.filter((s) => s.count > 0).map((section) => (
+                <details key={section.entity}>
+                  <summary className="cursor-pointer font-medium">
+                    {t(`events.clone.entity.${section.entity}`)} ({section.count})
+                  </summary>
+                  <ul className="mt-1 space-y-1 pl-4">
+                    {section.items.map((item, i) => (
+                      <li key={i} className="text-xs">
+                        {item.name}
+                        {item.changes.map((c) => (
+                          <span key={c.field} className="block pl-2" style={{ color: 'var(--color-text-muted)' }}>
+                            <span className="font-mono">{c.field}</span>: {fmt(c.from)} → {fmt(c.to)}
+                          </span>
+                        ))}
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+              ))}
+              <p className="text-xs" style={{ color: 'var(--color-text-muted)' }}>
+                {t('events.clone.notCopied')
+                  .replace('{orders}', String(report.notCopied.orders))
+                  .replace('{attendees}', String(report.notCopied.attendees))
+                  .replace('{tickets}', String(report.notCopied.tickets))}
+              </p>
+              {report.warnings.length > 0 && (
+                <ul className="space-y-1">
+                  {report.warnings.map((w) => (
+                    <li key={w} className="flex items-start gap-1.5 text-xs" style={{ color: 'var(--color-warning)' }}>
+                      <Icons.AlertTriangle size={14} /> {w}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={onClose}
+              className="rounded-lg px-4 py-2 text-sm"
+              style={{ border: '1px solid var(--color-border)', color: 'var(--color-text-secondary)' }}
+            >
+              {t('common.cancel')}
+            </button>
+            {report ? (
+              <button
+                onClick={commit}
+                disabled={busy}
+                className="rounded-lg px-4 py-2 text-sm font-medium text-white disabled:opacity-50"
+                style={{ background: 'var(--color-primary)' }}
+              >
+                {busy ? t('events.clone.creating') : t('events.clone.create')}
+              </button>
+            ) : (
+              <button
+                onClick={preview}
+                disabled={busy || !name.trim() || !slug.trim() || !startDate}
+                className="rounded-lg px-4 py-2 text-sm font-medium text-white disabled:opacity-50"
+                style={{ background: 'var(--color-primary)' }}
+              >
+                {t('events.clone.preview')}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 function Section({ title, children }: { title: string; children: React.ReactNode }) {
   return (
     <div
@@ -191,6 +191,26 @@ const TICKET_ICON_OPTIONS: { value: string; label: string; viewBox: string; path
   },
 ];
 
+/** Calendar days (YYYY-MM-DD) of the event in its own timezone. */
+function eventDayList(event: Event | null): string[] {
+  if (!event) return [];
+  const toDay = (date: Date) => {
+    const parts = new Intl.DateTimeFormat('en-CA', {
+      timeZone: event.timezone, year: 'numeric', month: '2-digit', day: '2-digit',
+    }).formatToParts(date);
+    const get = (type: string) => parts.find((p) => p.type === type)?.value ?? '';
+    return `${get('year')}-${get('month')}-${get('day')}`;
+  };
+  const last = toDay(new Date(event.endDate ?? event.startDate));
+  const days: string[] = [];
+  for (let d = new Date(`${toDay(new Date(event.startDate))}T12:00:00Z`); days.length < 366; d = new Date(d.getTime() + 86_400_000)) {
+    const iso = d.toISOString().slice(0, 10);
+    if (iso > last) break;
+    days.push(iso);
+  }
+  return days;
+}
+
 // ─── Page Component ─────────────────────────────────────────────
 export default function TicketsPage() {
   const { t } = useI18n();
@@ -222,6 +242,7 @@ export default function TicketsPage() {
   const [formTier, setFormTier] = useState('');
   const [formTemplateId, setFormTemplateId] = useState('');
   const [formSchemaId, setFormSchemaId] = useState('');
+  const [formValidDays, setFormValidDays] = useState<string[]>([]);
 
   // ── SRA/Partner Discount state ──
   const [sraDiscountsEnabled, setSraDiscountsEnabled] = useState(false);
@@ -329,6 +350,7 @@ export default function TicketsPage() {
     setFormTier('');
     setFormTemplateId('');
     setFormSchemaId('');
+    setFormValidDays([]);
     setExistingEbVariantId(null);
     setSraDiscountsEnabled(false);
     setSraDiscounts({});
@@ -352,6 +374,7 @@ export default function TicketsPage() {
     setFormSalesEnd(tt.salesEnd ? tt.salesEnd.slice(0, 16) : '');
     setFormTier(tt.membershipTier ?? '');
     setFormSchemaId(tt.formSchemaId ?? '');
+    setFormValidDays(tt.validDays ?? []);
     // Try to reverse-match the form schema to a template by name
     if (tt.formSchemaId) {
       const schema = formSchemas.find((s) => s.id === tt.formSchemaId);
@@ -573,6 +596,7 @@ export default function TicketsPage() {
         membershipTier: formKind === 'membership' ? formTier : null,
         wpProductId: formKind === 'membership' ? derivedWpProductId ?? null : null,
         formSchemaId: resolvedSchemaId || null,
+        validDays: formValidDays.length ? formValidDays : null,
         // Icon (stored in meta)
         meta: {
           ...((editId ? (tickets.find((t) => t.id === editId)?.meta as Record<string, unknown> ?? {}) : {}) as Record<string, unknown>),
@@ -596,6 +620,7 @@ export default function TicketsPage() {
           membershipTier: formKind === 'membership' ? formTier : undefined,
           wpProductId: formKind === 'membership' ? derivedWpProductId : undefined,
           formSchemaId: resolvedSchemaId || undefined,
+          validDays: formValidDays.length ? formValidDays : undefined,
           maxStaff: formMaxStaff ? Math.max(0, parseInt(formMaxStaff, 10)) : undefined,
           meta: formIcon ? { icon: formIcon } : undefined,
         });
@@ -709,6 +734,7 @@ export default function TicketsPage() {
   }
 
   const currency = event?.currency ?? 'CHF';
+  const eventDays = eventDayList(event);
 
   // ── Helper: resolve display price for a ticket ──
   function getDisplayPrice(tt: TicketType) {
@@ -1175,6 +1201,39 @@ export default function TicketsPage() {
                   />
                 </div>
 
+                {/* ── Valid days (multi-day events only) ── */}
+                {eventDays.length > 1 && (
+                  <div>
+                    <label className="mb-1 block text-sm font-medium" style={{ color: 'var(--color-text)' }}>
+                      {t('tickets.form.validDays')}
+                    </label>
+                    <div className="flex flex-wrap gap-2">
+                      {eventDays.map((day) => (
+                        <label
+                          key={day}
+                          className="flex cursor-pointer items-center gap-1.5 rounded-lg px-2.5 py-1.5 text-sm"
+                          style={{ background: 'var(--color-bg-subtle)', border: '1px solid var(--color-border)', color: 'var(--color-text)' }}
+                        >
+                          <input
+                            type="checkbox"
+                            checked={formValidDays.includes(day)}
+                            onChange={(e) =>
+                              setFormValidDays((prev) =>
+                                e.target.checked ? [...prev, day].sort() : prev.filter((d) => d !== day),
+                              )
+                            }
+                            className="accent-[var(--color-primary)]"
+                          />
+                          {new Date(`${day}T12:00:00Z`).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short', timeZone: 'UTC' })}
+                        </label>
+                      ))}
+                    </div>
+                    <p className="mt-1 text-xs" style={{ color: 'var(--color-text-muted)' }}>
+                      {t('tickets.form.validDaysHint')}
+                    </p>
+                  </div>
+                )}
+
                 {/* ── Section: Membership (conditional) ── */}
                 {formKind === 'membership' && meta && (
                   <>
@@ -1647,6 +1706,12 @@ function TicketCard({
             <Icons.Ticket size={12} /> {tt.sold}
             {tt.quantity != null ? ` / ${tt.quantity}` : ''} {t('common.sold')}
           </span>
+          {(tt.held ?? 0) > 0 && (
+            <span className="inline-flex items-center gap-1">
+              <Icons.Clock size={12} />{' '}
+              {t('tickets.held').replace('{count}', String(tt.held))}
+            </span>
+          )}
           <span className="inline-flex items-center gap-1">
             <Icons.Package size={12} />{' '}
             {t('tickets.maxPerOrder').replace('{max}', String(tt.maxPerOrder))}
@@ -0,0 +1,241 @@
+'use client';
+
+import { useEffect, useMemo, useState, useCallback } from 'react';
+import { toast } from 'sonner';
+import { useEventId } from '@/hooks/use-event-id';
+import { api, type WaitlistEntry } from '@/lib/api';
+import { DataTable } from '@/components/data-table';
+import { StatusBadge } from '@/components/status-badge';
+import { Icons } from '@/components/icons';
+import { useI18n } from '@/i18n/i18n-provider';
+
+const OPEN_STATUSES = ['waiting', 'offered'];
+
+export default function WaitlistPage() {
+  const { t } = useI18n();
+  const eventId = useEventId();
+  const [entries, setEntries] = useState<WaitlistEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [ticketTypeFilter, setTicketTypeFilter] = useState('');
+  const [openOnly, setOpenOnly] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadData = useCallback(async () => {
+    if (!eventId) return;
+    try {
+      const data = await api.getWaitlist(eventId);
+      setEntries(data);
+    } catch {
+      // silent
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const ticketTypes = useMemo(() => {
+    const byId = new Map<string, string>();
+    for (const e of entries) byId.set(e.ticketTypeId, e.ticketType?.name ?? e.ticketTypeId);
+    return [...byId.entries()];
+  }, [entries]);
+
+  // Queue position among waiting entries of the same ticket type (join order)
+  const positions = useMemo(() => {
+    const counters = new Map<string, number>();
+    const result = new Map<string, number>();
+    for (const e of entries) {
+      if (e.status !== 'waiting') continue;
+      const next = (counters.get(e.ticketTypeId) ?? 0) + 1;
+      counters.set(e.ticketTypeId, next);
+      result.set(e.id, next);
+    }
+    return result;
+  }, [entries]);
+
+  const visible = entries.filter(
+    (e) =>
+      (!ticketTypeFilter || e.ticketTypeId === ticketTypeFilter) &&
+      (!openOnly || OPEN_STATUSES.includes(e.status)),
+  );
+  const waitingCount = entries.filter((e) => e.status === 'waiting').length;
+  const offeredCount = entries.filter((e) => e.status === 'offered').length;
+
+  const handlePromote = async (entry: WaitlistEntry) => {
+    setBusyId(entry.id);
+    try {
+      await api.promoteWaitlistEntry(eventId, entry.id);
+      toast.success(t('waitlist.promoted').replace('{email}', entry.email));
+      await loadData();
+    } catch (err: any) {
+      toast.error(err?.message ?? t('waitlist.actionError'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleSkip = async (entry: WaitlistEntry) => {
+    if (!confirm(t('waitlist.skipConfirm').replace('{email}', entry.email))) return;
+    setBusyId(entry.id);
+    try {
+      await api.skipWaitlistEntry(eventId, entry.id);
+      toast.success(t('waitlist.skipped').replace('{email}', entry.email));
+      await loadData();
+    } catch (err: any) {
+      toast.error(err?.message ?? t('waitlist.actionError'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-3">
+        {[1, 2].map((i) => (
+          <div
+            key={i}
+            className="h-12 animate-pulse rounded-lg"
+            style={{ background: 'var(--color-bg-muted)' }}
+          />
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="mb-6 flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-xl font-bold sm:text-2xl" style={{ color: 'var(--color-text)' }}>
+            {t('waitlist.title')}
+          </h1>
+          <p className="mt-1 text-sm" style={{ color: 'var(--color-text-secondary)' }}>
+            {t('waitlist.subtitle')
+              .replace('{waiting}', String(waitingCount))
+              .replace('{offered}', String(offeredCount))}
+          </p>
+        </div>
+        <button
+          className="flex items-center gap-2 rounded-lg px-4 py-2 text-sm font-medium transition-colors"
+          style={{ border: '1px solid var(--color-border)', color: 'var(--color-text-secondary)' }}
+          onClick={() => loadData()}
+        >
+          <Icons.RefreshCw size={14} />
+        </button>
+      </div>
+
+      <p className="mb-4 text-xs" style={{ color: 'var(--color-text-muted)' }}>
+        {t('waitlist.hint')}
+      </p>
+
+      <div className="mb-4 flex flex-wrap items-center gap-3">
+        <select
+          value={ticketTypeFilter}
+          onChange={(e) => setTicketTypeFilter(e.target.value)}
+          className="rounded-lg px-3 py-2 text-sm"
+          style={{
+            background: 'var(--color-bg-card)',
+            border: '1px solid var(--color-border)',
+            color: 'var(--color-text)',
+          }}
+        >
+          <option value="">{t('waitlist.filter.all')}</option>
+          {ticketTypes.map(([id, name]) => (
+            <option key={id} value={id}>{name}</option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2 text-sm" style={{ color: 'var(--color-text-secondary)' }}>
+          <input type="checkbox" checked={openOnly} onChange={(e) => setOpenOnly(e.target.checked)} />
+          {t('waitlist.filter.open')}
+        </label>
+      </div>
+
+      <DataTable<WaitlistEntry & Record<string, unknown>>
+        columns={[
+          {
+            key: 'position',
+            header: t('waitlist.column.position'),
+            render: (row) => positions.get(row.id as string) ?? '—',
+          },
+          {
+            key: 'email',
+            header: t('waitlist.column.person'),
+            render: (row) => {
+              const name = [row.firstName, row.lastName].filter(Boolean).join(' ');
+              return (
+                <div>
+                  {name && <span className="text-sm font-medium">{name}</span>}
+                  <p className="text-xs" style={{ color: 'var(--color-text-muted)' }}>
+                    {row.email as string}
+                  </p>
+                </div>
+              );
+            },
+          },
+          {
+            key: 'ticketType',
+            header: t('waitlist.column.ticketType'),
+            render: (row) => (row as WaitlistEntry).ticketType?.name ?? '—',
+          },
+          {
+            key: 'quantity',
+            header: t('waitlist.column.quantity'),
+          },
+          {
+            key: 'status',
+            header: t('waitlist.column.status'),
+            render: (row) => <StatusBadge status={row.status as string} />,
+          },
+          {
+            key: 'createdAt',
+            header: t('waitlist.column.joined'),
+            render: (row) => new Date(row.createdAt as string).toLocaleString('en-CH'),
+          },
+          {
+            key: 'offerExpiresAt',
+            header: t('waitlist.column.offerExpires'),
+            render: (row) =>
+              row.status === 'offered' && row.offerExpiresAt
+                ? new Date(row.offerExpiresAt as string).toLocaleString('en-CH')
+                : '—',
+          },
+          {
+            key: 'id',
+            header: '',
+            render: (row) => {
+              const entry = row as WaitlistEntry;
+              if (!OPEN_STATUSES.includes(entry.status)) return null;
+              return (
+                <div className="flex gap-1">
+                  {entry.status === 'waiting' && (
+                    <button
+                      onClick={(e) => { e.stopPropagation(); handlePromote(entry); }}
+                      disabled={busyId === entry.id}
+                      className="rounded px-2 py-1 text-xs font-medium disabled:opacity-50"
+                      style={{ color: 'var(--color-primary)' }}
+                    >
+                      {t('waitlist.promote')}
+                    </button>
+                  )}
+                  <button
+                    onClick={(e) => { e.stopPropagation(); handleSkip(entry); }}
+                    disabled={busyId === entry.id}
+                    className="rounded px-2 py-1 text-xs font-medium disabled:opacity-50"
+                    style={{ color: 'var(--color-danger, #ef4444)' }}
+                  >
+                    {t('waitlist.skip')}
+                  </button>
+                </div>
+              );
+            },
+          },
+        ]}
+        data={visible as (WaitlistEntry & Record<string, unknown>)[]}
+        searchKeys={['email', 'firstName', 'lastName']}
+        emptyMessage={t('waitlist.empty')}
+      />
+    </div>
+  );
+}
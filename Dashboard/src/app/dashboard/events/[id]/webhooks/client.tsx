@@ -13,6 +13,7 @@ const ALL_EVENT_TYPES = [
   'order.refunded',
   'ticket.issued',
   'ticket.voided',
+  'ticket.transferred',
   'checkin.created',
   'attendee.registered',
   'event.updated',
@@ -0,0 +1,253 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import { api, type TwoFactorStatus, type TwoFactorSetup } from '@/lib/api';
+import { Icons } from '@/components/icons';
+import { useI18n } from '@/i18n/i18n-provider';
+import { toast } from 'sonner';
+
+/**
+ * Account security — opt-in two-factor authentication for the signed-in user.
+ * Enrolment shows the QR code, then the recovery codes exactly once.
+ */
+export default function SecurityPage() {
+  const { t } = useI18n();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [action, setAction] = useState<'regenerate' | 'disable' | null>(null);
+  const [code, setCode] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      setStatus(await api.getTwoFactorStatus());
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : t('security.failedToLoad'));
+    }
+  }, [t]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const run = async (fn: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await fn();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : t('security.failed'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const startSetup = () =>
+    run(async () => {
+      setSetup(await api.setupTwoFactor());
+      setCode('');
+    });
+
+  const submitCode = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+    run(async () => {
+      if (setup) {
+        const res = await api.confirmTwoFactor(code.trim());
+        setSetup(null);
+        setRecoveryCodes(res.recoveryCodes);
+        toast.success(t('security.enabledToast'));
+      } else if (action === 'regenerate') {
+        const res = await api.regenerateRecoveryCodes(code.trim());
+        setRecoveryCodes(res.recoveryCodes);
+      } else if (action === 'disable') {
+        await api.disableTwoFactor(code.trim());
+        toast.success(t('security.disabledToast'));
+      }
+      setAction(null);
+      setCode('');
+      await load();
+    });
+  };
+
+  const cancel = () => {
+    setSetup(null);
+    setAction(null);
+    setCode('');
+  };
+
+  if (!status) {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <div className="animate-spin" style={{ color: 'var(--color-primary)' }}><Icons.RefreshCw size={28} /></div>
+      </div>
+    );
+  }
+
+  const cardStyle = {
+    background: 'var(--color-bg-card)',
+    border: '1px solid var(--color-border)',
+  };
+
+  return (
+    <div className="max-w-2xl">
+      <div className="mb-6">
+        <h1 className="text-xl font-bold sm:text-2xl" style={{ color: 'var(--color-text)' }}>
+          {t('security.title')}
+        </h1>
+        <p className="mt-1 text-sm" style={{ color: 'var(--color-text-secondary)' }}>
+          {t('security.subtitle')}
+        </p>
+      </div>
+
+      <div className="rounded-xl p-5" style={cardStyle}>
+        <div className="mb-3 flex items-center gap-2">
+          <span style={{ color: status.enabled ? 'var(--color-success, #16a34a)' : 'var(--color-text-muted)' }}>
+            <Icons.Shield size={20} />
+          </span>
+          <h2 className="font-semibold" style={{ color: 'var(--color-text)' }}>
+            {t('security.twoFactor')}
+          </h2>
+          <span
+            className="ml-auto rounded-full px-2 py-0.5 text-xs font-medium"
+            style={{
+              background: status.enabled ? 'var(--color-success-light, #dcfce7)' : 'var(--color-bg-muted)',
+              color: status.enabled ? 'var(--color-success, #16a34a)' : 'var(--color-text-muted)',
+            }}
+          >
+            {status.enabled ? t('security.on') : t('security.off')}
+          </span>
+        </div>
+
+        <p className="mb-4 text-sm" style={{ color: 'var(--color-text-secondary)' }}>
+          {status.enabled
+            ? t('security.enabledSince', {
+                date: new Date(status.enabledAt!).toLocaleDateString('en-CH', {
+                  day: '2-digit',
+                  month: 'short',
+                  year: 'numeric',
+                }),
+                count: status.recoveryCodesRemaining,
+              })
+            : t('security.explainer')}
+        </p>
+
+        {status.required && !status.enabled && (
+          <div
+            className="mb-4 rounded-lg px-4 py-2 text-sm"
+            style={{ background: 'var(--color-warning-bg, #fef3c7)', color: '#92400e' }}
+          >
+            {t('security.requiredHint')}
+          </div>
+        )}
+
+        {recoveryCodes && (
+          <div className="mb-4 space-y-2">
+            <p className="text-sm font-medium" style={{ color: 'var(--color-text)' }}>
+              {t('security.recoveryCodesTitle')}
+            </p>
+            <p className="text-xs" style={{ color: 'var(--color-text-muted)' }}>
+              {t('security.recoveryCodesHint')}
+            </p>
+            <ul
+              className="grid grid-cols-2 gap-2 rounded-lg p-4 font-mono text-sm"
+              style={{ background: 'var(--color-bg-subtle)', color: 'var(--color-text)' }}
+            >
+              {recoveryCodes.map((c) => <li key={c}>{c}</li>)}
+            </ul>
+            <button
+              type="button"
+              onClick={() => setRecoveryCodes(null)}
+              className="text-xs hover:underline"
+              style={{ color: 'var(--color-primary)' }}
+            >
+              {t('security.recoveryCodesSaved')}
+            </button>
+          </div>
+        )}
+
+        {setup && (
+          <div className="mb-4 flex flex-col items-center gap-2 text-center">
+            <p className="text-sm" style={{ color: 'var(--color-text-secondary)' }}>
+              {t('security.scanHint')}
+            </p>
+            <img src={setup.qrDataUrl} alt={t('security.qrAlt')} className="h-44 w-44" />
+            <p className="break-all font-mono text-xs" style={{ color: 'var(--color-text-muted)' }}>
+              {setup.secret}
+            </p>
+          </div>
+        )}
+
+        {setup || action ? (
+          <form onSubmit={submitCode} className="flex flex-wrap items-center gap-2">
+            <input
+              type="text"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder={setup ? '123456' : t('security.codePlaceholder')}
+              autoComplete="one-time-code"
+              autoFocus
+              className="flex-1 rounded-lg px-3 py-2 font-mono text-sm"
+              style={{
+                background: 'var(--color-bg-subtle)',
+                border: '1px solid var(--color-border)',
+                color: 'var(--color-text)',
+              }}
+            />
+            <button
+              type="submit"
+              disabled={busy || !code.trim()}
+              className="rounded-lg px-4 py-2 text-sm font-semibold text-white disabled:opacity-50"
+              style={{ background: action === 'disable' ? 'var(--color-danger)' : 'var(--color-primary)' }}
+            >
+              {setup
+                ? t('security.enable')
+                : action === 'disable'
+                  ? t('security.disable')
+                  : t('security.regenerate')}
+            </button>
+            <button
+              type="button"
+              onClick={cancel}
+              className="rounded-lg px-3 py-2 text-sm"
+              style={{ color: 'var(--color-text-secondary)' }}
+            >
+              {t('common.cancel')}
+            </button>
+          </form>
+        ) : status.enabled ? (
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={() => setAction('regenerate')}
+              className="rounded-lg px-4 py-2 text-sm font-medium"
+              style={{ border: '1px solid var(--color-border)', color: 'var(--color-text-secondary)' }}
+            >
+              {t('security.regenerate')}
+            </button>
+            {!status.required && (
+              <button
+                type="button"
+                onClick={() => setAction('disable')}
+                className="rounded-lg px-4 py-2 text-sm font-medium"
+                style={{ color: 'var(--color-danger)' }}
+              >
+                {t('security.disable')}
+              </button>
+            )}
+          </div>
+        ) : (
+          <button
+            type="button"
+            disabled={busy}
+            onClick={startSetup}
+            className="rounded-lg px-4 py-2 text-sm font-semibold text-white disabled:opacity-50"
+            style={{ background: 'var(--color-primary)' }}
+          >
+            {t('security.setUp')}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
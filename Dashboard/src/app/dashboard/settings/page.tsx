@@ -10,7 +10,10 @@ import { toast } from 'sonner';
 
 /** Group order for display. */
 const GROUP_ORDER = [
+  'Payments',
   'Stripe',
+  'PostFinance',
+  'Checkout',
   'Email',
   'Notifications',
   'WordPress',
@@ -317,7 +320,9 @@ export default function SettingsPage() {
 // ── Settings Group ──────────────────────────────────────────────
 
 const GROUP_ICONS: Record<string, ReactNode> = {
+  Payments: <Icons.CreditCard size={18} />,
   Stripe: <Icons.CreditCard size={18} />,
+  PostFinance: <Icons.CreditCard size={18} />,
   Email: <Icons.Mail size={18} />,
   Notifications: <Icons.Bell size={18} />,
   WordPress: <Icons.ExternalLink size={18} />,
@@ -1,7 +1,14 @@
 'use client';
 
 import { useEffect, useState, useCallback, useMemo, useRef } from 'react';
-import { api, type AppUser, type RoleDefinition, type UserStats } from '@/lib/api';
+import {
+  api,
+  type AppUser,
+  type Event,
+  type PermissionMatrix,
+  type RoleDefinition,
+  type UserStats,
+} from '@/lib/api';
 import { useAuth } from '@/lib/auth';
 import { Icons } from '@/components/icons';
 import { useI18n } from '@/i18n/i18n-provider';
@@ -161,7 +168,7 @@ export default function UsersPage() {
         <EditUserModal
           userId={editingId}
           roles={roles}
-          onClose={() => setEditingId(null)}
+          onClose={() => { setEditingId(null); loadData(); }}
           onSaved={() => {
             setSuccess(t('users.userUpdated'));
             setEditingId(null);
@@ -300,6 +307,9 @@ export default function UsersPage() {
           </div>
         )}
       </div>
+
+      {/* Role → permission matrix */}
+      <PermissionMatrixPanel />
     </div>
   );
 }
@@ -349,6 +359,16 @@ function UserRow({
               {role.replace(/_/g, ' ')}
             </span>
           ))}
+          {user.eventRoles.map((grant) => (
+            <span
+              key={grant.id}
+              className="rounded-full px-2 py-0.5 text-xs"
+              style={{ border: '1px dashed var(--color-border)', color: 'var(--color-text-secondary)' }}
+              title={t('users.eventAccess.chipTitle')}
+            >
+              {grant.role.replace(/_/g, ' ')} · {grant.eventName}
+            </span>
+          ))}
         </div>
       </td>
       <td className="px-4 py-3">
@@ -373,6 +393,15 @@ function UserRow({
             {t('users.badge.wp')}
           </span>
         )}
+        {user.twoFactorEnabled && (
+          <span
+            className="ml-1 rounded-full px-2 py-0.5 text-xs"
+            style={{ background: 'var(--color-bg-muted)', color: 'var(--color-text-muted)' }}
+            title={t('users.twoFactor.enabled')}
+          >
+            {t('users.badge.2fa')}
+          </span>
+        )}
       </td>
       <td className="px-4 py-3 text-xs" style={{ color: 'var(--color-text-muted)' }}>
         {user.lastLoginAt
@@ -717,6 +746,15 @@ function EditUserModal({
             </div>
           </div>
 
+          <EventAccessSection
+            user={user}
+            roles={availableRoles.filter((r) => r.eventScoped)}
+            onChange={setUser}
+            onError={onError}
+          />
+
+          <TwoFactorSection user={user} onChange={setUser} onError={onError} />
+
           <div className="flex justify-end gap-2 pt-2">
             <button type="button" onClick={onClose} className="rounded-lg px-4 py-2 text-sm" style={{ color: 'var(--color-text-secondary)' }}>
               {t('common.cancel')}
@@ -736,6 +774,325 @@ function EditUserModal({
   );
 }
 
+// ─── Event Access (event-scoped grants) ─────────────────────────
+
+function EventAccessSection({
+  user,
+  roles,
+  onChange,
+  onError,
+}: {
+  user: AppUser;
+  roles: RoleDefinition[];
+  onChange: (user: AppUser) => void;
+  onError: (msg: string) => void;
+}) {
+  const { t } = useI18n();
+  const [events, setEvents] = useState<Event[]>([]);
+  const [eventId, setEventId] = useState('');
+  const [role, setRole] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    api.getEvents().then(setEvents).catch(() => setEvents([]));
+  }, []);
+
+  const grant = async () => {
+    if (!eventId || !role) return;
+    setBusy(true);
+    try {
+      const created = await api.grantEventRole(user.id, { eventId, role });
+      onChange({ ...user, eventRoles: [...user.eventRoles, created] });
+      setRole('');
+    } catch (err) {
+      onError(err instanceof Error ? err.message : t('users.eventAccess.failedToGrant'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const revoke = async (grantId: string) => {
+    setBusy(true);
+    try {
+      await api.revokeEventRole(user.id, grantId);
+      onChange({ ...user, eventRoles: user.eventRoles.filter((g) => g.id !== grantId) });
+    } catch (err) {
+      onError(err instanceof Error ? err.message : t('users.eventAccess.failedToRevoke'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const selectStyle = {
+    background: 'var(--color-bg-subtle)',
+    border: '1px solid var(--color-border)',
+    color: 'var(--color-text)',
+  };
+
+  return (
+    <div>
+      <label className="mb-1 block text-sm font-medium" style={{ color: 'var(--color-text-secondary)' }}>
+        {t('users.eventAccess.title')}
+      </label>
+      <p className="mb-2 text-xs" style={{ color: 'var(--color-text-muted)' }}>
+        {t('users.eventAccess.hint')}
+      </p>
+
+      {user.eventRoles.length === 0 ? (
+        <p className="mb-2 text-xs" style={{ color: 'var(--color-text-muted)' }}>
+          {t('users.eventAccess.none')}
+        </p>
+      ) : (
+        <ul className="mb-2 space-y-1">
+          {user.eventRoles.map((g) => (
+            <li
+              key={g.id}
+              className="flex items-center justify-between rounded px-2 py-1 text-sm"
+              style={{ background: 'var(--color-bg-subtle)', color: 'var(--color-text)' }}
+            >
+              <span>
+                <span className="font-medium">{g.eventName}</span>
+                <span className="ml-2 text-xs" style={{ color: 'var(--color-text-secondary)' }}>
+                  {g.role.replace(/_/g, ' ')}
+                </span>
+              </span>
+              <button
+                type="button"
+                disabled={busy}
+                onClick={() => revoke(g.id)}
+                className="rounded px-2 py-0.5 text-xs disabled:opacity-50"
+                style={{ color: 'var(--color-danger)' }}
+              >
+                {t('users.eventAccess.revoke')}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex gap-2">
+        <select
+          value={eventId}
+          onChange={(e) => setEventId(e.target.value)}
+          className="flex-1 rounded-lg px-3 py-2 text-sm"
+          style={selectStyle}
+        >
+          <option value="">{t('users.eventAccess.selectEvent')}</option>
+          {events.map((ev) => (
+            <option key={ev.id} value={ev.id}>{ev.name}</option>
+          ))}
+        </select>
+        <select
+          value={role}
+          onChange={(e) => setRole(e.target.value)}
+          className="rounded-lg px-3 py-2 text-sm"
+          style={selectStyle}
+        >
+          <option value="">{t('users.eventAccess.selectRole')}</option>
+          {roles.map((r) => (
+            <option key={r.value} value={r.value}>{r.label}</option>
+          ))}
+        </select>
+        <button
+          type="button"
+          disabled={busy || !eventId || !role}
+          onClick={grant}
+          className="rounded-lg px-3 py-2 text-xs font-medium disabled:opacity-50"
+          style={{
+            background: 'var(--color-bg-muted)',
+            color: 'var(--color-text-secondary)',
+            border: '1px solid var(--color-border)',
+          }}
+        >
+          {t('users.eventAccess.grant')}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// ─── Two-Factor Reset ───────────────────────────────────────────
+
+function TwoFactorSection({
+  user,
+  onChange,
+  onError,
+}: {
+  user: AppUser;
+  onChange: (user: AppUser) => void;
+  onError: (msg: string) => void;
+}) {
+  const { t } = useI18n();
+  const [busy, setBusy] = useState(false);
+
+  const reset = async () => {
+    if (!confirm(t('users.twoFactor.confirmReset', { name: user.displayName }))) return;
+    setBusy(true);
+    try {
+      await api.resetUserTwoFactor(user.id);
+      onChange({ ...user, twoFactorEnabled: false });
+    } catch (err) {
+      onError(err instanceof Error ? err.message : t('users.twoFactor.failedToReset'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div>
+      <label className="mb-1 block text-sm font-medium" style={{ color: 'var(--color-text-secondary)' }}>
+        {t('users.twoFactor.title')}
+      </label>
+      <div className="flex items-center justify-between">
+        <p className="text-xs" style={{ color: 'var(--color-text-muted)' }}>
+          {user.twoFactorEnabled ? t('users.twoFactor.enabled') : t('users.twoFactor.notEnabled')}
+        </p>
+        {user.twoFactorEnabled && (
+          <button
+            type="button"
+            disabled={busy}
+            onClick={reset}
+            className="rounded px-2 py-0.5 text-xs disabled:opacity-50"
+            style={{ color: 'var(--color-danger)' }}
+          >
+            {t('users.twoFactor.reset')}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ─── Permission Matrix ──────────────────────────────────────────
+
+function PermissionMatrixPanel() {
+  const { t } = useI18n();
+  const [matrix, setMatrix] = useState<PermissionMatrix | null>(null);
+  const [savingRole, setSavingRole] = useState<string | null>(null);
+  const [matrixError, setMatrixError] = useState('');
+
+  useEffect(() => {
+    api.getPermissionMatrix()
+      .then(setMatrix)
+      .catch(() => setMatrixError(t('users.permissions.failedToLoad')));
+  }, [t]);
+
+  const replaceRow = (row: PermissionMatrix['roles'][number]) =>
+    setMatrix((m) => m && { ...m, roles: m.roles.map((r) => (r.role === row.role ? row : r)) });
+
+  const toggle = async (role: string, key: string) => {
+    const row = matrix?.roles.find((r) => r.role === role);
+    if (!row) return;
+    const next = row.permissions.includes(key)
+      ? row.permissions.filter((p) => p !== key)
+      : [...row.permissions, key];
+    setSavingRole(role);
+    setMatrixError('');
+    try {
+      replaceRow(await api.updateRolePermissions(role, next));
+    } catch (err) {
+      setMatrixError(err instanceof Error ? err.message : t('users.permissions.failedToSave'));
+    } finally {
+      setSavingRole(null);
+    }
+  };
+
+  const reset = async (role: string) => {
+    setSavingRole(role);
+    setMatrixError('');
+    try {
+      replaceRow(await api.resetRolePermissions(role));
+    } catch (err) {
+      setMatrixError(err instanceof Error ? err.message : t('users.permissions.failedToSave'));
+    } finally {
+      setSavingRole(null);
+    }
+  };
+
+  if (!matrix) {
+    return matrixError ? (
+      <p className="mt-8 text-sm" style={{ color: 'var(--color-danger)' }}>{matrixError}</p>
+    ) : null;
+  }
+
+  return (
+    <div className="mt-8">
+      <h2 className="text-lg font-bold" style={{ color: 'var(--color-text)' }}>
+        {t('users.permissions.title')}
+      </h2>
+      <p className="mb-3 mt-1 text-sm" style={{ color: 'var(--color-text-secondary)' }}>
+        {t('users.permissions.subtitle')}
+      </p>
+      {matrixError && (
+        <div
+          className="mb-3 rounded-lg px-4 py-2 text-sm"
+          style={{ background: 'var(--color-danger-light)', color: 'var(--color-danger)' }}
+        >
+          {matrixError}
+        </div>
+      )}
+      <div
+        className="overflow-x-auto rounded-xl"
+        style={{ background: 'var(--color-bg-card)', border: '1px solid var(--color-border)' }}
+      >
+        <table className="w-full text-left text-sm" style={{ minWidth: '760px' }}>
+          <thead>
+            <tr style={{ borderBottom: '1px solid var(--color-border)' }}>
+              <th className="px-4 py-3 font-medium" style={{ color: 'var(--color-text-secondary)' }}>
+                {t('users.permissions.role')}
+              </th>
+              {matrix.permissions.map((p) => (
+                <th
+                  key={p.key}
+                  className="px-2 py-3 text-center text-xs font-medium"
+                  style={{ color: 'var(--color-text-secondary)' }}
+                  title={p.description}
+                >
+                  {p.label}
+                </th>
+              ))}
+              <th className="px-4 py-3" />
+            </tr>
+          </thead>
+          <tbody>
+            {matrix.roles.map((row) => (
+              <tr key={row.role} style={{ borderBottom: '1px solid var(--color-border)' }}>
+                <td className="px-4 py-2 font-medium" style={{ color: 'var(--color-text)' }}>
+                  {row.role.replace(/_/g, ' ')}
+                </td>
+                {matrix.permissions.map((p) => (
+                  <td key={p.key} className="px-2 py-2 text-center">
+                    <input
+                      type="checkbox"
+                      checked={row.permissions.includes(p.key)}
+                      disabled={savingRole === row.role}
+                      onChange={() => toggle(row.role, p.key)}
+                      aria-label={`${row.role} – ${p.label}`}
+                    />
+                  </td>
+                ))}
+                <td className="px-4 py-2 text-right">
+                  {row.customized && (
+                    <button
+                      type="button"
+                      disabled={savingRole === row.role}
+                      onClick={() => reset(row.role)}
+                      className="rounded px-2 py-1 text-xs disabled:opacity-50"
+                      style={{ color: 'var(--color-primary)' }}
+                    >
+                      {t('users.permissions.reset')}
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
 // ─── Shared Components ──────────────────────────────────────────
 
 function FieldInput({
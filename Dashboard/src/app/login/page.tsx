@@ -2,13 +2,16 @@
 
 import { Suspense, useState, useEffect } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
-import { useAuth } from '@/lib/auth';
+import { useAuth, type TwoFactorChallenge } from '@/lib/auth';
+import type { TwoFactorSetup } from '@/lib/api';
 import { Icons } from '@/components/icons';
 
 /**
  * Login page — supports two flows:
  * 1. Auto-login via ?token=...&refresh=... URL params (from WP Control plugin redirect)
- * 2. Email + password form (app-native accounts)
+ * 2. Email + password form (app-native accounts), followed by an
+ *    authenticator code when the account has 2FA — or by enrolment when the
+ *    user's role requires 2FA and it is not set up yet.
  *
  * Wrapped in <Suspense> because useSearchParams() requires it for static export.
  */
@@ -29,12 +32,23 @@ export default function LoginPage() {
 function LoginForm() {
   const router = useRouter();
   const searchParams = useSearchParams();
-  const { loginWithPassword, loginWithJwt, isLoading } = useAuth();
+  const {
+    loginWithPassword,
+    completeTwoFactor,
+    beginTwoFactorEnrolment,
+    confirmTwoFactorEnrolment,
+    loginWithJwt,
+    isLoading,
+  } = useAuth();
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
   const [submitting, setSubmitting] = useState(false);
   const [autoLogging, setAutoLogging] = useState(false);
+  const [challenge, setChallenge] = useState<TwoFactorChallenge | null>(null);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
 
   // Auto-login from ?token= URL parameter (redirect from WP Control plugin)
   useEffect(() => {
@@ -63,8 +77,37 @@ function LoginForm() {
     setError('');
 
     try {
-      await loginWithPassword(email.trim(), password);
-      router.push('/dashboard');
+      const next = await loginWithPassword(email.trim(), password);
+      if (!next) {
+        router.push('/dashboard');
+        return;
+      }
+      setChallenge(next);
+      setCode('');
+      if (next.twoFactor === 'enrol') {
+        setSetup(await beginTwoFactorEnrolment(next.challengeToken));
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Authentication failed');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!challenge || !code.trim()) return;
+
+    setSubmitting(true);
+    setError('');
+
+    try {
+      if (challenge.twoFactor === 'verify') {
+        await completeTwoFactor(challenge.challengeToken, code.trim());
+        router.push('/dashboard');
+      } else {
+        setRecoveryCodes(await confirmTwoFactorEnrolment(challenge.challengeToken, code.trim()));
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Authentication failed');
     } finally {
@@ -72,6 +115,14 @@ function LoginForm() {
     }
   };
 
+  const restart = () => {
+    setChallenge(null);
+    setSetup(null);
+    setCode('');
+    setPassword('');
+    setError('');
+  };
+
   if (isLoading || autoLogging) {
     return (
       <div className="flex min-h-screen items-center justify-center">
@@ -104,92 +155,199 @@ function LoginForm() {
         <div className="mb-8 text-center">
           <img src="/logo.png" alt="SRAtix" className="mx-auto h-12 w-auto" draggable={false} />
           <p className="mt-4 text-sm" style={{ color: 'var(--color-text-secondary)' }}>
-            Sign in to your account
+            {recoveryCodes
+              ? 'Save your recovery codes'
+              : challenge?.twoFactor === 'enrol'
+                ? 'Set up two-factor authentication'
+                : challenge
+                  ? 'Two-factor authentication'
+                  : 'Sign in to your account'}
           </p>
         </div>
 
-        {/* Form */}
-        <form onSubmit={handleSubmit} className="space-y-4">
-          <div>
-            <label
-              htmlFor="email"
-              className="mb-1 block text-sm font-medium"
-              style={{ color: 'var(--color-text-secondary)' }}
+        {recoveryCodes ? (
+          <div className="space-y-4">
+            <p className="text-sm" style={{ color: 'var(--color-text-secondary)' }}>
+              Each code signs you in once if you lose access to your authenticator app.
+              Store them somewhere safe — they will not be shown again.
+            </p>
+            <ul
+              className="grid grid-cols-2 gap-2 rounded-lg p-4 font-mono text-sm"
+              style={{ background: 'var(--color-bg-subtle)', color: 'var(--color-text)' }}
             >
-              Email
-            </label>
-            <input
-              id="email"
-              type="email"
-              value={email}
-              onChange={(e) => setEmail(e.target.value)}
-              placeholder="you@example.com"
-              className="w-full rounded-lg px-4 py-2.5 text-sm transition-colors"
-              style={{
-                background: 'var(--color-bg-subtle)',
-                border: '1px solid var(--color-border)',
-                color: 'var(--color-text)',
-              }}
-              autoComplete="email"
-              autoFocus
-            />
+              {recoveryCodes.map((c) => <li key={c}>{c}</li>)}
+            </ul>
+            <button
+              type="button"
+              onClick={() => router.push('/dashboard')}
+              className="w-full rounded-lg px-4 py-2.5 text-sm font-semibold text-white transition-colors"
+              style={{ background: 'var(--color-primary)' }}
+            >
+              I have saved my codes — continue
+            </button>
           </div>
+        ) : challenge ? (
+          <form onSubmit={handleCode} className="space-y-4">
+            {challenge.twoFactor === 'enrol' && (
+              <div className="space-y-3 text-center">
+                <p className="text-sm" style={{ color: 'var(--color-text-secondary)' }}>
+                  Your role requires two-factor authentication. Scan this code with an
+                  authenticator app, then enter the 6-digit code it shows.
+                </p>
+                {setup ? (
+                  <>
+                    <img src={setup.qrDataUrl} alt="Authenticator QR code" className="mx-auto h-44 w-44" />
+                    <p className="break-all font-mono text-xs" style={{ color: 'var(--color-text-muted)' }}>
+                      {setup.secret}
+                    </p>
+                  </>
+                ) : (
+                  <div className="animate-spin inline-block" style={{ color: 'var(--color-primary)' }}><Icons.RefreshCw size={20} /></div>
+                )}
+              </div>
+            )}
 
-          <div>
-            <label
-              htmlFor="password"
-              className="mb-1 block text-sm font-medium"
-              style={{ color: 'var(--color-text-secondary)' }}
-            >
-              Password
-            </label>
-            <input
-              id="password"
-              type="password"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              placeholder="••••••••"
-              className="w-full rounded-lg px-4 py-2.5 text-sm transition-colors"
+            <div>
+              <label
+                htmlFor="code"
+                className="mb-1 block text-sm font-medium"
+                style={{ color: 'var(--color-text-secondary)' }}
+              >
+                {challenge.twoFactor === 'verify' ? 'Authentication or recovery code' : 'Authentication code'}
+              </label>
+              <input
+                id="code"
+                type="text"
+                inputMode={challenge.twoFactor === 'enrol' ? 'numeric' : 'text'}
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="123456"
+                className="w-full rounded-lg px-4 py-2.5 text-center font-mono text-lg tracking-widest transition-colors"
+                style={{
+                  background: 'var(--color-bg-subtle)',
+                  border: '1px solid var(--color-border)',
+                  color: 'var(--color-text)',
+                }}
+                autoComplete="one-time-code"
+                autoFocus
+              />
+            </div>
+
+            {error && (
+              <div
+                className="rounded-lg px-4 py-2 text-sm"
+                style={{ background: 'var(--color-danger-light)', color: 'var(--color-danger)' }}
+                role="alert"
+              >
+                {error}
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={submitting || !code.trim()}
+              className="w-full rounded-lg px-4 py-2.5 text-sm font-semibold text-white transition-colors disabled:opacity-50"
               style={{
-                background: 'var(--color-bg-subtle)',
-                border: '1px solid var(--color-border)',
-                color: 'var(--color-text)',
+                background: submitting ? 'var(--color-primary-hover)' : 'var(--color-primary)',
               }}
-              autoComplete="current-password"
-            />
-          </div>
-
-          <div className="text-right">
-            <a
-              href="/auth/forgot-password"
-              className="text-xs transition-colors hover:underline"
-              style={{ color: 'var(--color-primary)' }}
             >
-              Forgot password?
-            </a>
-          </div>
+              {submitting ? 'Verifying...' : 'Verify'}
+            </button>
 
-          {error && (
-            <div
-              className="rounded-lg px-4 py-2 text-sm"
-              style={{ background: 'var(--color-danger-light)', color: 'var(--color-danger)' }}
-              role="alert"
-            >
-              {error}
+            <div className="text-center">
+              <button
+                type="button"
+                onClick={restart}
+                className="text-xs transition-colors hover:underline"
+                style={{ color: 'var(--color-primary)' }}
+              >
+                Back to sign in
+              </button>
             </div>
-          )}
+          </form>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label
+                htmlFor="email"
+                className="mb-1 block text-sm font-medium"
+                style={{ color: 'var(--color-text-secondary)' }}
+              >
+                Email
+              </label>
+              <input
+                id="email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="you@example.com"
+                className="w-full rounded-lg px-4 py-2.5 text-sm transition-colors"
+                style={{
+                  background: 'var(--color-bg-subtle)',
+                  border: '1px solid var(--color-border)',
+                  color: 'var(--color-text)',
+                }}
+                autoComplete="email"
+                autoFocus
+              />
+            </div>
+
+            <div>
+              <label
+                htmlFor="password"
+                className="mb-1 block text-sm font-medium"
+                style={{ color: 'var(--color-text-secondary)' }}
+              >
+                Password
+              </label>
+              <input
+                id="password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="••••••••"
+                className="w-full rounded-lg px-4 py-2.5 text-sm transition-colors"
+                style={{
+                  background: 'var(--color-bg-subtle)',
+                  border: '1px solid var(--color-border)',
+                  color: 'var(--color-text)',
+                }}
+                autoComplete="current-password"
+              />
+            </div>
+
+            <div className="text-right">
+              <a
+                href="/auth/forgot-password"
+                className="text-xs transition-colors hover:underline"
+                style={{ color: 'var(--color-primary)' }}
+              >
+                Forgot password?
+              </a>
+            </div>
+
+            {error && (
+              <div
+                className="rounded-lg px-4 py-2 text-sm"
+                style={{ background: 'var(--color-danger-light)', color: 'var(--color-danger)' }}
+                role="alert"
+              >
+                {error}
+              </div>
+            )}
 
-          <button
-            type="submit"
-            disabled={submitting || !email.trim() || !password}
-            className="w-full rounded-lg px-4 py-2.5 text-sm font-semibold text-white transition-colors disabled:opacity-50"
-            style={{
-              background: submitting ? 'var(--color-primary-hover)' : 'var(--color-primary)',
-            }}
-          >
-            {submitting ? 'Signing in...' : 'Sign In'}
-          </button>
-        </form>
+            <button
+              type="submit"
+              disabled={submitting || !email.trim() || !password}
+              className="w-full rounded-lg px-4 py-2.5 text-sm font-semibold text-white transition-colors disabled:opacity-50"
+              style={{
+                background: submitting ? 'var(--color-primary-hover)' : 'var(--color-primary)',
+              }}
+            >
+              {submitting ? 'Signing in...' : 'Sign In'}
+            </button>
+          </form>
+        )}
 
         <p
           className="mt-6 text-center text-xs"
@@ -28,8 +28,13 @@ function getEventNav(eventId: string, t: (key: string) => string): NavItem[] {
     { href: `/dashboard/events/${eventId}/attendees`, label: t('nav.attendees'), icon: <Icons.Users size={18} /> },
     { href: `/dashboard/events/${eventId}/staff-partners`, label: t('nav.staffPartners'), icon: <Icons.UserPlus size={18} />, roles: ['event_admin', 'admin', 'super_admin'] },
     { href: `/dashboard/events/${eventId}/orders`, label: t('nav.orders'), icon: <Icons.ShoppingCart size={18} /> },
+    { href: `/dashboard/events/${eventId}/bank-transfers`, label: t('nav.bankTransfers'), icon: <Icons.CreditCard size={18} />, roles: ['event_admin', 'admin', 'super_admin'] },
+    { href: `/dashboard/events/${eventId}/box-office`, label: t('nav.boxOffice'), icon: <Icons.Coins size={18} />, roles: ['event_admin', 'admin', 'super_admin', 'box_office'] },
     { href: `/dashboard/events/${eventId}/check-in`, label: t('nav.checkInLive'), icon: <Icons.CheckCircle size={18} /> },
+    { href: `/dashboard/events/${eventId}/access-zones`, label: t('nav.accessZones'), icon: <Icons.Lock size={18} />, roles: ['event_admin', 'admin', 'super_admin'] },
+    { href: `/dashboard/events/${eventId}/badges`, label: t('nav.badges'), icon: <Icons.Printer size={18} />, roles: ['event_admin', 'admin', 'super_admin'] },
     { href: `/dashboard/events/${eventId}/analytics`, label: t('nav.analytics'), icon: <Icons.TrendingUp size={18} /> },
+    { href: `/dashboard/events/${eventId}/waitlist`, label: t('nav.waitlist'), icon: <Icons.Clock size={18} />, roles: ['event_admin', 'admin', 'super_admin'] },
     { href: `/dashboard/events/${eventId}/promo-codes`, label: t('nav.promoCodes'), icon: <Icons.Tag size={18} /> },
     { href: `/dashboard/events/${eventId}/forms`, label: t('nav.forms'), icon: <Icons.Clipboard size={18} /> },
     { href: `/dashboard/events/${eventId}/audit-log`, label: t('nav.activityLog'), icon: <Icons.FileText size={18} /> },
@@ -51,7 +56,9 @@ export function Sidebar({ eventId }: { eventId?: string }) {
     { href: '/dashboard', label: t('nav.events'), icon: <Icons.Calendar size={18} /> },
     { href: '/dashboard/users', label: t('nav.users'), icon: <Icons.User size={18} />, roles: ['super_admin', 'admin'] },
     { href: '/dashboard/email-log', label: t('nav.emailLog'), icon: <Icons.Mail size={18} />, roles: ['super_admin', 'admin'] },
+    { href: '/dashboard/api-keys', label: t('nav.apiKeys'), icon: <Icons.Key size={18} />, roles: ['super_admin', 'admin'] },
     { href: '/dashboard/settings', label: t('nav.settings'), icon: <Icons.Settings size={18} />, roles: ['super_admin'] },
+    { href: '/dashboard/security', label: t('nav.security'), icon: <Icons.Shield size={18} /> },
   ];
 
   const eventNav = eventId ? getEventNav(eventId, t) : [];
@@ -9,11 +9,24 @@ const statusStyles: Record<string, { bg: string; text: string }> = {
   valid: { bg: 'var(--color-success-light)', text: 'var(--color-success)' },
   checked_in: { bg: 'var(--color-success-light)', text: 'var(--color-success)' },
   pending: { bg: 'var(--color-warning-light)', text: 'var(--color-warning)' },
+  awaiting_payment: { bg: 'var(--color-warning-light)', text: 'var(--color-warning)' },
+  unmatched: { bg: 'var(--color-warning-light)', text: 'var(--color-warning)' },
+  amount_mismatch: { bg: 'var(--color-danger-light)', text: 'var(--color-danger)' },
+  order_not_payable: { bg: 'var(--color-danger-light)', text: 'var(--color-danger)' },
+  matched: { bg: 'var(--color-success-light)', text: 'var(--color-success)' },
+  succeeded: { bg: 'var(--color-success-light)', text: 'var(--color-success)' },
   draft: { bg: 'var(--color-warning-light)', text: 'var(--color-warning)' },
+  waiting: { bg: 'var(--color-warning-light)', text: 'var(--color-warning)' },
+  offered: { bg: 'var(--color-warning-light)', text: 'var(--color-warning)' },
+  claimed: { bg: 'var(--color-success-light)', text: 'var(--color-success)' },
   expired: { bg: 'var(--color-danger-light)', text: 'var(--color-danger)' },
   refunded: { bg: 'var(--color-danger-light)', text: 'var(--color-danger)' },
+  partially_refunded: { bg: 'var(--color-warning-light)', text: 'var(--color-warning)' },
   voided: { bg: 'var(--color-danger-light)', text: 'var(--color-danger)' },
   cancelled: { bg: 'var(--color-danger-light)', text: 'var(--color-danger)' },
+  running: { bg: 'var(--color-warning-light)', text: 'var(--color-warning)' },
+  completed: { bg: 'var(--color-success-light)', text: 'var(--color-success)' },
+  failed: { bg: 'var(--color-danger-light)', text: 'var(--color-danger)' },
 };
 
 export function StatusBadge({ status, className = '' }: StatusBadgeProps) {
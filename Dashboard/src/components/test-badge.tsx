@@ -1,6 +1,6 @@
 /**
  * Small "TEST" chip displayed next to orders, tickets, or attendees
- * that were created while SRAtix was in Stripe test mode.
+ * that were created while the payment provider was in test mode.
  */
 export function TestBadge({ className = '' }: { className?: string }) {
   return (
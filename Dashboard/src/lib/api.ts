@@ -208,6 +208,7 @@ export interface Event {
   startDate: string;
   endDate?: string;
   doorsOpen?: string | null;
+  transferCutoff?: string | null;
   timezone: string;
   currency: string;
   status: string;
@@ -216,6 +217,24 @@ export interface Event {
   createdAt: string;
 }
 
+export interface EventCloneChange {
+  field: string;
+  from: string | null;
+  to: string | null;
+}
+
+/** What cloning an event copies — returned by dry runs and real runs alike. */
+export interface EventCloneReport {
+  dryRun: boolean;
+  source: { id: string; name: string; slug: string; startDate: string };
+  /** id is null on a dry run */
+  event: { id: string | null; name: string; slug: string; changes: EventCloneChange[] };
+  shiftDays: number;
+  sections: { entity: string; count: number; items: { name: string; changes: EventCloneChange[] }[] }[];
+  notCopied: { orders: number; attendees: number; tickets: number };
+  warnings: string[];
+}
+
 export interface PricingVariant {
   id: string;
   ticketTypeId: string;
@@ -239,6 +258,7 @@ export interface TicketType {
   currency: string;
   quantity?: number | null;
   sold: number;
+  held?: number;
   maxPerOrder: number;
   maxStaff?: number | null;
   salesStart?: string | null;
@@ -249,6 +269,8 @@ export interface TicketType {
   category?: string;
   membershipTier?: string | null;
   wpProductId?: number | null;
+  /** Event days (YYYY-MM-DD) the ticket admits on; null = every day */
+  validDays?: string[] | null;
   /** @deprecated Use partnerDiscounts instead */
   robotxDiscountType?: string | null;
   /** @deprecated Use partnerDiscounts instead */
@@ -320,10 +342,43 @@ export interface FormSchema {
   active: boolean;
   ticketTypeId?: string;
   fields: unknown;
+  /** How the previous version's fields map onto this one. */
+  fieldMappings?: FormFieldMapping[] | null;
   createdAt: string;
   updatedAt: string;
 }
 
+/** Rename / option remap, split (`to` is a list) or merge (`from` is a list). */
+export interface FormFieldMapping {
+  from: string | string[];
+  to: string | string[];
+  options?: Record<string, string>;
+  separator?: string;
+}
+
+export interface FormSchemaDiff {
+  from: { id: string; version: number };
+  to: { id: string; version: number };
+  added: Array<{ fieldId: string; type: string; label: Record<string, string> }>;
+  removed: Array<{ fieldId: string; type: string; label: Record<string, string> }>;
+  changed: Array<{
+    fieldId: string;
+    previousFieldId?: string;
+    changes: Array<{ property: string; from: unknown; to: unknown }>;
+    options?: { added: string[]; removed: string[]; remapped: Record<string, string>; relabeled: string[] };
+  }>;
+  restructured: Array<{ kind: 'split' | 'merge'; from: string[]; to: string[] }>;
+}
+
+/** A column of the latest form version, or `v<n>:<fieldId>` for unmapped older answers. */
+export interface UnifiedFormColumn {
+  key: string;
+  label: Record<string, string>;
+  field: { id: string; type: string; label: Record<string, string>; options?: Array<{ value: string; label: Record<string, string> }> };
+  version: number;
+  legacy: boolean;
+}
+
 /**
  * Membership summary derived server-side from an attendee's paid orders.
  * Every ticket bundles a free 1-year SRA membership; visitors can opt out, and
@@ -359,6 +414,8 @@ export interface Attendee {
   purchasedByAttendeeId?: string;
   tickets?: { code: string; status: string; ticketType?: { name: string; category: string } }[];
   membership?: AttendeeMembership;
+  /** Priced form options bought in the attendee's paid orders. */
+  addOns?: { key: string; label: Record<string, string> }[];
   createdAt: string;
 }
 
@@ -385,6 +442,12 @@ export interface AttendeeDetails extends Attendee {
     data: Record<string, unknown>;
     submittedAt: string;
     formSchema?: { id: string; name: string; version: number; fields: unknown };
+    /** Answers lifted onto the latest version of the form (field mappings applied). */
+    unified?: {
+      version: number;
+      columns: UnifiedFormColumn[];
+      data: Record<string, unknown>;
+    };
   }[];
   orders?: {
     id: string;
@@ -402,6 +465,56 @@ export interface AttendeeDetails extends Attendee {
   }[];
 }
 
+export interface AttendeeImportIssue {
+  /** Spreadsheet row number (the header is row 1) */
+  row: number;
+  email?: string;
+  errors: string[];
+}
+
+export interface AttendeeImportOptions {
+  formSchemaId?: string | null;
+  compType?: CompType | null;
+  sendInvitations?: boolean;
+}
+
+export interface AttendeeImport {
+  id: string;
+  eventId: string;
+  status: 'uploaded' | 'queued' | 'running' | 'completed' | 'failed';
+  fileName: string;
+  columns: string[];
+  /** Column header → `email` | `firstName` | … | `form:<fieldId>` */
+  mapping: Record<string, string> | null;
+  options: AttendeeImportOptions | null;
+  total: number;
+  done: number;
+  created: number;
+  skipped: number;
+  issues: AttendeeImportIssue[] | null;
+  error?: string | null;
+  createdAt: string;
+  completedAt?: string | null;
+  /** First rows of the file — only returned by the upload */
+  sample?: Record<string, string>[];
+}
+
+export interface AttendeeImportPreview {
+  total: number;
+  valid: number;
+  invalid: number;
+  issues: AttendeeImportIssue[];
+  sample: Array<{
+    row: number;
+    email: string;
+    firstName: string;
+    lastName: string;
+    company?: string;
+    tags: string[];
+    answers: Record<string, unknown>;
+  }>;
+}
+
 export interface Order {
   id: string;
   eventId: string;
@@ -415,19 +528,125 @@ export interface Order {
   notes?: string;
   paidAt?: string;
   cancelledAt?: string;
+  refundedCents?: number;
+  /** Pay-by-invoice: QR-bill creditor reference (QRR or SCOR) */
+  paymentReference?: string | null;
+  paymentDueAt?: string | null;
   createdAt: string;
   items: OrderItem[];
   meta?: Record<string, unknown> | null;
   attendee?: { firstName: string; lastName: string };
 }
 
+export type BankTransactionStatus = 'matched' | 'amount_mismatch' | 'order_not_payable' | 'unmatched';
+
+/** Credit entry imported from a camt.053/054 bank statement. */
+export interface BankTransaction {
+  id: string;
+  eventId: string;
+  entryRef: string;
+  reference: string | null;
+  amountCents: number;
+  currency: string;
+  bookingDate: string | null;
+  debtorName: string | null;
+  status: BankTransactionStatus;
+  orderId: string | null;
+  fileName: string | null;
+  createdAt: string;
+  order?: { id: string; orderNumber: string; status: string; totalCents: number } | null;
+}
+
+export interface StatementImportResult {
+  messageType: 'camt.053' | 'camt.054';
+  entries: number;
+  matched: number;
+  amountMismatch: number;
+  orderNotPayable: number;
+  unmatched: number;
+  duplicates: number;
+  otherEvent: number;
+}
+
+export type BoxOfficePaymentMethod = 'cash' | 'card_terminal' | 'comp';
+
+/** Ticket type on sale at the box office, priced as of now. */
+export interface BoxOfficeCatalogItem {
+  id: string;
+  name: string;
+  category: string;
+  priceCents: number;
+  currency: string;
+  available: number | null;
+  maxPerOrder: number;
+}
+
+export interface BoxOfficeSaleResult {
+  saleId: string;
+  orderId: string;
+  orderNumber: string;
+  attendeeId: string;
+  totalCents: number;
+  currency: string;
+  paymentMethod: BoxOfficePaymentMethod;
+  changeCents: number | null;
+  tickets: { id: string; code: string; ticketTypeId: string }[];
+}
+
+export interface BoxOfficeSale {
+  id: string;
+  orderId: string;
+  paymentMethod: BoxOfficePaymentMethod;
+  amountCents: number;
+  currency: string;
+  tenderedCents: number | null;
+  changeCents: number | null;
+  terminalReference: string | null;
+  compReason: string | null;
+  businessDate: string;
+  createdAt: string;
+  order: { orderNumber: string; customerName: string | null; _count: { tickets: number } };
+}
+
+/** One staff user's cash drawer for a business day. */
+export interface CashDrawer {
+  userId: string;
+  displayName: string | null;
+  email: string | null;
+  sales: number;
+  tickets: number;
+  cashCents: number;
+  cardCents: number;
+  compTickets: number;
+  openingFloatCents: number;
+  expectedCashCents: number;
+  close: {
+    countedCents: number;
+    varianceCents: number;
+    note: string | null;
+    closedBy: string;
+    closedAt: string;
+  } | null;
+}
+
+export interface DrawerReport {
+  businessDate: string;
+  currency: string;
+  drawers: CashDrawer[];
+  totals: { sales: number; tickets: number; cashCents: number; cardCents: number; compTickets: number };
+}
+
 export interface OrderItem {
   id: string;
-  ticketTypeId: string;
+  /** null for add-on lines (priced form options). */
+  ticketTypeId: string | null;
   quantity: number;
   unitPriceCents: number;
   subtotalCents: number;
-  ticketType?: { name: string; category?: string; priceCents?: number };
+  ticketType?: { name: string; category?: string; priceCents?: number } | null;
+  meta?: {
+    addOn?: { key: string; optionLabel: Record<string, string>; fieldLabel: Record<string, string>; vatCategory: string };
+  } | null;
 }
 
 export interface OrderDetails extends Order {
@@ -454,16 +673,52 @@ export interface OrderDetails extends Order {
       formSchema?: { name: string; version: number; fields: unknown };
     }>;
   };
-  tickets?: Array<{ id: string; code: string; status: string; meta?: Record<string, unknown> | null }>;
+  tickets?: Array<{ id: string; code: string; status: string; ticketTypeId?: string; meta?: Record<string, unknown> | null }>;
   items: Array<OrderItem & { ticketType?: { name: string; priceCents: number; category?: string } }>;
-  stripeSessionId?: string;
-  stripePaymentId?: string;
+  refunds?: OrderRefund[];
+  /** Payment attempts, newest first. */
+  payments?: Payment[];
   billingAddress?: Record<string, unknown> | null;
 }
 
+export interface OrderRefund {
+  id: string;
+  amountCents: number;
+  currency: string;
+  status: string;
+  /** 'dashboard', 'manual' (paid back outside SRAtix), or the payment provider when refunded in its back office. */
+  source: string;
+  reason?: string | null;
+  creditNoteNumber?: string | null;
+  lines?: Array<{
+    ticketTypeId: string;
+    ticketTypeName: string;
+    quantity: number;
+    unitPriceCents: number;
+    tickets: Array<{ id: string; code: string }>;
+  }> | null;
+  createdAt: string;
+}
+
+export type PaymentProviderId = 'stripe' | 'postfinance';
+
+export interface Payment {
+  id: string;
+  provider: PaymentProviderId;
+  status: 'pending' | 'succeeded' | 'failed' | 'expired';
+  providerSessionId: string | null;
+  providerPaymentId: string | null;
+  amountCents: number;
+  currency: string;
+  testMode: boolean;
+  completedAt: string | null;
+  createdAt: string;
+}
+
 export interface PaymentInfo {
   available: boolean;
   method?: string;
+  provider?: PaymentProviderId;
   brand?: string | null;
   last4?: string | null;
   expMonth?: number | null;
@@ -501,9 +756,122 @@ export interface CheckIn {
   direction: string;
   deviceId?: string;
   location?: string;
+  zoneId?: string | null;
+  zoneFlagged?: boolean;
   createdAt: string;
 }
 
+export type ZoneEnforcement = 'reject' | 'flag';
+
+export interface AccessZone {
+  id: string;
+  eventId: string;
+  name: string;
+  capacity: number | null;
+  ticketTypeIds: string[] | null;
+  tags: string[] | null;
+  addOns: string[] | null;
+  enforcement: ZoneEnforcement;
+  sortOrder: number;
+  active: boolean;
+}
+
+export interface AccessZoneInput {
+  name?: string;
+  capacity?: number | null;
+  ticketTypeIds?: string[];
+  tags?: string[];
+  addOns?: string[];
+  enforcement?: ZoneEnforcement;
+  sortOrder?: number;
+  active?: boolean;
+}
+
+/** Live occupancy per zone, from GET check-ins/stats. */
+export interface ZoneOccupancy {
+  id: string;
+  name: string;
+  active: boolean;
+  capacity: number | null;
+  /** Tickets whose latest scan at the zone is an entry */
+  occupancy: number;
+  entries: number;
+  flagged: number;
+}
+
+/** Main-entrance attendance on one event day */
+export interface DayAttendance {
+  /** YYYY-MM-DD in the event timezone */
+  day: string;
+  /** Distinct tickets checked in */
+  checkedIn: number;
+  /** All entries, including re-entries */
+  checkIns: number;
+}
+
+export interface CheckInManifestResponse {
+  /** Manifest JSON exactly as signed — parse after verifying. */
+  manifest: string;
+  signature: string;
+  publicKey: JsonWebKey;
+}
+
+export interface CheckInSyncResult {
+  clientId?: string;
+  status: 'accepted' | 'conflict' | 'rejected' | 'error';
+  ticketId?: string;
+  attendeeName?: string;
+  message: string;
+  previousCheckIn?: {
+    timestamp: string;
+    deviceId: string | null;
+    location: string | null;
+    offline: boolean;
+  };
+}
+
+export interface WaitlistEntry {
+  id: string;
+  eventId: string;
+  ticketTypeId: string;
+  email: string;
+  firstName?: string | null;
+  lastName?: string | null;
+  quantity: number;
+  status: 'waiting' | 'offered' | 'claimed' | 'expired' | 'declined' | 'skipped';
+  offeredAt?: string | null;
+  offerExpiresAt?: string | null;
+  orderId?: string | null;
+  createdAt: string;
+  ticketType?: { name: string };
+}
+
+export interface BadgeTemplate {
+  id: string;
+  eventId: string;
+  name: string;
+  description?: string | null;
+  dimensions: { widthMm: number; heightMm: number; widthPx: number; heightPx: number };
+  isDefault: boolean;
+  active: boolean;
+}
+
+export interface BadgeBatch {
+  id: string;
+  eventId: string;
+  templateId: string;
+  status: 'queued' | 'running' | 'completed' | 'failed';
+  filters: { ticketTypeIds?: string[]; tags?: string[]; checkIn?: string } | null;
+  options: { paper: 'A4' | 'Letter'; sort: 'name' | 'company'; cropMarks: boolean; marginMm: number; gutterMm: number };
+  total: number;
+  done: number;
+  pages?: number | null;
+  fileSize?: number | null;
+  error?: string | null;
+  createdAt: string;
+  completedAt?: string | null;
+}
+
 export interface PromoCode {
   id: string;
   eventId: string;
@@ -568,6 +936,30 @@ export interface WebhookEndpoint {
   updatedAt: string;
 }
 
+export interface ApiKey {
+  id: string;
+  orgId: string;
+  /** Null = every event of the organization. */
+  eventId: string | null;
+  eventName: string | null;
+  name: string;
+  /** First characters of the key, for recognising it. */
+  prefix: string;
+  scopes: string[];
+  ipAllowlist: string[] | null;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+export interface ApiKeyScopeDefinition {
+  key: string;
+  label: string;
+  description: string;
+}
+
 export interface WebhookDelivery {
   id: string;
   endpointId: string;
@@ -594,23 +986,69 @@ export interface MembershipResyncSummary {
   dispatchedOrders: Array<{ orderNumber: string; email: string | null }>;
 }
 
+export interface EventRoleGrant {
+  id: string;
+  eventId: string;
+  eventName: string;
+  role: string;
+}
+
 export interface AppUser {
   id: string;
   email: string;
   displayName: string;
+  /** Global and org-scoped roles. */
   roles: string[];
+  /** Roles granted for a single event only. */
+  eventRoles: EventRoleGrant[];
   orgId: string | null;
   wpUserId: number | null;
   emailConfirmedAt: string | null;
   active: boolean;
   lastLoginAt: string | null;
+  twoFactorEnabled: boolean;
   createdAt: string;
 }
 
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+  /** True when one of the user's roles must use 2FA. */
+  required: boolean;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  /** PNG data URL of the provisioning QR code. */
+  qrDataUrl: string;
+}
+
 export interface RoleDefinition {
   value: string;
   label: string;
   description: string;
+  /** Whether the role can be granted for a single event. */
+  eventScoped: boolean;
+}
+
+export interface PermissionDefinition {
+  key: string;
+  label: string;
+  description: string;
+}
+
+export interface RolePermissions {
+  role: string;
+  permissions: string[];
+  /** True when the role no longer uses the built-in defaults. */
+  customized: boolean;
+}
+
+export interface PermissionMatrix {
+  permissions: PermissionDefinition[];
+  roles: RolePermissions[];
 }
 
 export interface UserStats {
@@ -860,6 +1298,15 @@ export const api = {
   createEvent: (data: Partial<Event>) =>
     request<Event>('/events', { method: 'POST', body: data }),
 
+  cloneEvent: (id: string, data: {
+    name: string;
+    slug: string;
+    startDate: string;
+    endDate?: string;
+    dryRun?: boolean;
+  }) =>
+    request<EventCloneReport>(`/events/${id}/clone`, { method: 'POST', body: data }),
+
   updateEvent: (id: string, data: Partial<Event>) =>
     request<Event>(`/events/${id}`, { method: 'PATCH', body: data }),
 
@@ -909,6 +1356,7 @@ export const api = {
     membershipTier?: string;
     wpProductId?: number;
     formSchemaId?: string;
+    validDays?: string[];
     maxStaff?: number;
     meta?: Record<string, unknown>;
     robotxDiscountType?: string;
@@ -1045,6 +1493,48 @@ export const api = {
       { method: 'DELETE' },
     ),
 
+  // Attendee imports
+  uploadAttendeeImport: async (eventId: string, file: File) => {
+    let token = getApiToken();
+    if (!token) token = await refreshAccessToken();
+    const form = new FormData();
+    form.append('file', file);
+    const res = await fetch(`${API_BASE}/api/attendee-imports/event/${eventId}`, {
+      method: 'POST',
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+      body: form,
+      credentials: 'include',
+    });
+    if (!res.ok) {
+      const data = await res.json().catch(() => null);
+      throw new ApiError(res.status, data?.message ?? `HTTP ${res.status}`, data);
+    }
+    return res.json() as Promise<AttendeeImport>;
+  },
+
+  getAttendeeImports: (eventId: string, signal?: AbortSignal) =>
+    request<AttendeeImport[]>(`/attendee-imports/event/${eventId}`, { signal }),
+
+  getAttendeeImport: (id: string, eventId: string, signal?: AbortSignal) =>
+    request<AttendeeImport>(`/attendee-imports/${id}/event/${eventId}`, { signal }),
+
+  previewAttendeeImport: (
+    id: string,
+    eventId: string,
+    data: { mapping: Record<string, string> } & AttendeeImportOptions,
+  ) =>
+    request<AttendeeImportPreview>(`/attendee-imports/${id}/event/${eventId}/preview`, { method: 'POST', body: data }),
+
+  startAttendeeImport: (
+    id: string,
+    eventId: string,
+    data: { mapping: Record<string, string> } & AttendeeImportOptions,
+  ) =>
+    request<AttendeeImport>(`/attendee-imports/${id}/event/${eventId}/start`, { method: 'POST', body: data }),
+
+  deleteAttendeeImport: (id: string, eventId: string) =>
+    request<{ success: boolean }>(`/attendee-imports/${id}/event/${eventId}`, { method: 'DELETE' }),
+
   getAttendeeSubmissions: (attendeeId: string, eventId: string, signal?: AbortSignal) =>
     request<FormSubmission[]>(`/attendees/${attendeeId}/submissions/${eventId}`, { signal }),
 
@@ -1081,6 +1571,85 @@ export const api = {
   resendGiftNotifications: (id: string) =>
     request<{ sent: number; total: number; results: Array<{ email: string; success: boolean; error?: string }> }>(`/orders/${id}/resend-gift-notifications`, { method: 'POST' }),
 
+  refundOrder: (orderId: string, data: { ticketIds?: string[]; amountCents?: number; reason?: string; manual?: boolean }) =>
+    request<{ refundId: string; amountCents: number; refundedCents: number; status: string }>('/payments/refund', {
+      method: 'POST',
+      body: { orderId, ...data },
+    }),
+
+  transferTicket: (eventId: string, ticketId: string, data: { email: string; firstName: string; lastName: string }) =>
+    request<{ ticketId: string; code: string; attendeeId: string; email: string }>(
+      `/events/${eventId}/tickets/${ticketId}/transfer`,
+      { method: 'POST', body: data },
+    ),
+
+  // Bank Transfers (pay-by-invoice reconciliation)
+  getBankTransactions: (eventId: string, status?: BankTransactionStatus, signal?: AbortSignal) =>
+    request<BankTransaction[]>(
+      `/bank-transfers/event/${eventId}${status ? `?status=${status}` : ''}`,
+      { signal },
+    ),
+
+  importBankStatement: async (eventId: string, file: File) => {
+    let token = getApiToken();
+    if (!token) token = await refreshAccessToken();
+    const form = new FormData();
+    form.append('file', file);
+    const res = await fetch(`${API_BASE}/api/bank-transfers/event/${eventId}/import`, {
+      method: 'POST',
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+      body: form,
+      credentials: 'include',
+    });
+    if (!res.ok) {
+      const data = await res.json().catch(() => null);
+      throw new ApiError(res.status, data?.message ?? `HTTP ${res.status}`, data);
+    }
+    return res.json() as Promise<StatementImportResult>;
+  },
+
+  matchBankTransaction: (eventId: string, transactionId: string, orderId: string) =>
+    request<BankTransaction>(`/bank-transfers/${transactionId}/event/${eventId}/match`, {
+      method: 'POST',
+      body: { orderId },
+    }),
+
+  // Box Office (on-site point of sale)
+  getBoxOfficeCatalog: (eventId: string, signal?: AbortSignal) =>
+    request<BoxOfficeCatalogItem[]>(`/events/${eventId}/box-office/catalog`, { signal }),
+
+  createBoxOfficeSale: (eventId: string, data: {
+    items: { ticketTypeId: string; quantity: number }[];
+    attendee: { firstName: string; lastName: string; email: string; company?: string; phone?: string };
+    paymentMethod: BoxOfficePaymentMethod;
+    tenderedCents?: number;
+    terminalReference?: string;
+    compReason?: string;
+  }) =>
+    request<BoxOfficeSaleResult>(`/events/${eventId}/box-office/sales`, { method: 'POST', body: data }),
+
+  getMyBoxOfficeSales: (eventId: string, signal?: AbortSignal) =>
+    request<BoxOfficeSale[]>(`/events/${eventId}/box-office/sales/mine`, { signal }),
+
+  /** Authenticated URL of a box-office ticket's badge PDF (use with downloadFile). */
+  boxOfficeBadgeUrl: (eventId: string, ticketId: string) =>
+    `${API_BASE}/api/events/${eventId}/box-office/tickets/${ticketId}/badge`,
+
+  getDrawerReport: (eventId: string, date?: string, signal?: AbortSignal) =>
+    request<DrawerReport>(
+      `/events/${eventId}/box-office/drawers${date ? `?date=${date}` : ''}`,
+      { signal },
+    ),
+
+  closeDrawer: (eventId: string, data: {
+    userId: string;
+    businessDate?: string;
+    openingFloatCents?: number;
+    countedCents: number;
+    note?: string;
+  }) =>
+    request<unknown>(`/events/${eventId}/box-office/drawers/close`, { method: 'POST', body: data }),
+
   // Check-Ins
   // Server returns { totalTickets, checkedIn, totalCheckIns, percentCheckedIn }
   // Dashboard expects { total, today, byTicketType } — map here
@@ -1088,12 +1657,16 @@ export const api = {
     total: number;
     today: number;
     byTicketType: Record<string, number>;
+    byDay: DayAttendance[];
+    zones: ZoneOccupancy[];
   }> => {
     const raw = await request<{
       totalTickets?: number;
       checkedIn?: number;
       totalCheckIns?: number;
       percentCheckedIn?: number;
+      byDay?: DayAttendance[];
+      zones?: ZoneOccupancy[];
       // forward-compat if server is later extended
       total?: number;
       today?: number;
@@ -1103,15 +1676,53 @@ export const api = {
       total: raw.total ?? raw.checkedIn ?? raw.totalCheckIns ?? 0,
       today: raw.today ?? 0,
       byTicketType: raw.byTicketType ?? {},
+      byDay: raw.byDay ?? [],
+      zones: raw.zones ?? [],
     };
   },
 
+  getCheckInManifest: (eventId: string, deviceId: string) =>
+    request<CheckInManifestResponse>(
+      `/events/${eventId}/check-ins/manifest?deviceId=${encodeURIComponent(deviceId)}`,
+    ),
+
+  syncCheckIns: (
+    eventId: string,
+    checkIns: Array<{
+      clientId: string;
+      qrPayload: string;
+      method: string;
+      direction?: string;
+      deviceId?: string;
+      location?: string;
+      zoneId?: string;
+      offlineTimestamp: string;
+    }>,
+  ) =>
+    request<{ processed: number; conflicts: number; errors: number; results: CheckInSyncResult[] }>(
+      `/events/${eventId}/check-ins/sync`,
+      { method: 'POST', body: { checkIns } },
+    ),
+
   getRecentCheckIns: (eventId: string, limit?: number, signal?: AbortSignal) =>
     request<CheckIn[]>(
       `/events/${eventId}/check-ins${limit ? `?limit=${limit}` : ''}`,
       { signal },
     ),
 
+  // Access Zones
+  getAccessZones: (eventId: string, signal?: AbortSignal) =>
+    request<AccessZone[]>(`/events/${eventId}/access-zones`, { signal }),
+
+  createAccessZone: (eventId: string, data: AccessZoneInput & { name: string }) =>
+    request<AccessZone>(`/events/${eventId}/access-zones`, { method: 'POST', body: data }),
+
+  updateAccessZone: (eventId: string, id: string, data: AccessZoneInput) =>
+    request<AccessZone>(`/events/${eventId}/access-zones/${id}`, { method: 'PATCH', body: data }),
+
+  deleteAccessZone: (eventId: string, id: string) =>
+    request<{ success: boolean }>(`/events/${eventId}/access-zones/${id}`, { method: 'DELETE' }),
+
   // Promo Codes
   getPromoCodes: (eventId: string, signal?: AbortSignal) =>
     request<PromoCode[]>(`/promo-codes/event/${eventId}`, { signal }),
@@ -1138,6 +1749,41 @@ export const api = {
   deactivatePromoCode: (id: string, eventId: string) =>
     request<PromoCode>(`/promo-codes/${id}/event/${eventId}/deactivate`, { method: 'PATCH' }),
 
+  // Waitlist
+  getWaitlist: (eventId: string, signal?: AbortSignal) =>
+    request<WaitlistEntry[]>(`/events/${eventId}/waitlist`, { signal }),
+
+  promoteWaitlistEntry: (eventId: string, id: string) =>
+    request<WaitlistEntry>(`/events/${eventId}/waitlist/${id}/promote`, { method: 'POST' }),
+
+  skipWaitlistEntry: (eventId: string, id: string) =>
+    request<WaitlistEntry>(`/events/${eventId}/waitlist/${id}/skip`, { method: 'POST' }),
+
+  // Badges
+  getBadgeTemplates: (eventId: string, signal?: AbortSignal) =>
+    request<BadgeTemplate[]>(`/badge-templates/event/${eventId}`, { signal }),
+
+  getBadgeBatches: (eventId: string, signal?: AbortSignal) =>
+    request<BadgeBatch[]>(`/badge-batches/event/${eventId}`, { signal }),
+
+  createBadgeBatch: (
+    eventId: string,
+    data: {
+      templateId: string;
+      ticketTypeIds?: string[];
+      tags?: string[];
+      checkIn?: 'all' | 'checked_in' | 'not_checked_in';
+      sort?: 'name' | 'company';
+      paper?: 'A4' | 'Letter';
+      cropMarks?: boolean;
+    },
+  ) =>
+    request<BadgeBatch>(`/badge-batches/event/${eventId}`, { method: 'POST', body: data }),
+
+  /** Authenticated URL to download a finished badge batch PDF (use with downloadFile). */
+  badgeBatchUrl: (id: string, eventId: string) =>
+    `${API_BASE}/api/badge-batches/${id}/event/${eventId}/download`,
+
   // Forms
   getFormSchemas: (eventId: string, signal?: AbortSignal) =>
     request<FormSchema[]>(`/forms/event/${eventId}`, { signal }),
@@ -1161,6 +1807,15 @@ export const api = {
   updateFormSchema: (id: string, eventId: string, data: { name?: string; fields?: unknown }) =>
     request<FormSchema>(`/forms/${id}/event/${eventId}`, { method: 'PATCH', body: data }),
 
+  getFormSchemaDiff: (id: string, eventId: string, against?: string, signal?: AbortSignal) =>
+    request<FormSchemaDiff>(
+      `/forms/${id}/event/${eventId}/diff${against ? `?against=${encodeURIComponent(against)}` : ''}`,
+      { signal },
+    ),
+
+  updateFormFieldMappings: (id: string, eventId: string, mappings: FormFieldMapping[]) =>
+    request<FormSchema>(`/forms/${id}/event/${eventId}/mappings`, { method: 'PATCH', body: { mappings } }),
+
   deleteFormSchema: (id: string, eventId: string) =>
     request<void>(`/forms/${id}/event/${eventId}`, { method: 'DELETE' }),
 
@@ -1351,6 +2006,62 @@ export const api = {
   getUserStats: (signal?: AbortSignal) =>
     request<UserStats>('/users/stats', { signal }),
 
+  grantEventRole: (userId: string, data: { eventId: string; role: string }) =>
+    request<EventRoleGrant>(`/users/${userId}/event-roles`, { method: 'POST', body: data }),
+
+  revokeEventRole: (userId: string, grantId: string) =>
+    request<{ success: boolean }>(`/users/${userId}/event-roles/${grantId}`, { method: 'DELETE' }),
+
+  getPermissionMatrix: (signal?: AbortSignal) =>
+    request<PermissionMatrix>('/permissions/matrix', { signal }),
+
+  updateRolePermissions: (role: string, permissions: string[]) =>
+    request<RolePermissions>(`/permissions/matrix/${role}`, { method: 'PUT', body: { permissions } }),
+
+  resetRolePermissions: (role: string) =>
+    request<RolePermissions>(`/permissions/matrix/${role}`, { method: 'DELETE' }),
+
+  resetUserTwoFactor: (userId: string) =>
+    request<{ success: boolean }>(`/users/${userId}/2fa/reset`, { method: 'POST' }),
+
+  // ─── Two-Factor Authentication (own account) ──────────────────
+
+  getTwoFactorStatus: (signal?: AbortSignal) =>
+    request<TwoFactorStatus>('/auth/2fa', { signal }),
+
+  setupTwoFactor: () =>
+    request<TwoFactorSetup>('/auth/2fa/setup', { method: 'POST' }),
+
+  confirmTwoFactor: (code: string) =>
+    request<{ recoveryCodes: string[] }>('/auth/2fa/confirm', { method: 'POST', body: { code } }),
+
+  regenerateRecoveryCodes: (code: string) =>
+    request<{ recoveryCodes: string[] }>('/auth/2fa/recovery-codes', { method: 'POST', body: { code } }),
+
+  disableTwoFactor: (code: string) =>
+    request<{ success: boolean }>('/auth/2fa/disable', { method: 'POST', body: { code } }),
+
+  // ─── API Keys ──────────────────────────────────────────────────
+
+  getApiKeys: (signal?: AbortSignal) =>
+    request<ApiKey[]>('/api-keys', { signal }),
+
+  getApiKeyScopes: (signal?: AbortSignal) =>
+    request<ApiKeyScopeDefinition[]>('/api-keys/scopes', { signal }),
+
+  createApiKey: (data: {
+    name: string;
+    scopes: string[];
+    orgId?: string;
+    eventId?: string;
+    ipAllowlist?: string[];
+    expiresAt?: string;
+  }) =>
+    request<ApiKey & { secret: string }>('/api-keys', { method: 'POST', body: data }),
+
+  revokeApiKey: (id: string) =>
+    request<{ success: boolean }>(`/api-keys/${id}`, { method: 'DELETE' }),
+
   // ─── Auth (Public) ────────────────────────────────────────────
 
   forgotPassword: (email: string) =>
@@ -1490,6 +2201,9 @@ export const api = {
   invoiceUrl: (orderId: string) =>
     `${API_BASE}/api/invoices/order/${orderId}`,
 
+  creditNoteUrl: (refundId: string) =>
+    `${API_BASE}/api/invoices/credit-notes/${refundId}`,
+
   /** Authenticated URL to download a paid logistics order's invoice PDF (use with downloadFile). */
   logisticsInvoiceUrl: (orderId: string) =>
     `${API_BASE}/api/invoices/logistics/order/${orderId}`,
@@ -9,7 +9,7 @@ import {
   useRef,
   type ReactNode,
 } from 'react';
-import { setApiToken } from './api';
+import { setApiToken, type TwoFactorSetup } from './api';
 
 // ── Types ─────────────────────────────────────────────────────────────────────
 
@@ -20,12 +20,25 @@ interface User {
   roles: string[];
 }
 
+/** Returned by the password step when a second factor is needed. */
+export interface TwoFactorChallenge {
+  /** `verify` = ask for a code; `enrol` = the role requires 2FA, set it up now. */
+  twoFactor: 'verify' | 'enrol';
+  challengeToken: string;
+  expiresIn: number;
+}
+
 interface AuthContextType {
   user: User | null;
   token: string | null;
   isLoading: boolean;
   login: (wpToken: string) => Promise<void>;
-  loginWithPassword: (email: string, password: string) => Promise<void>;
+  /** Resolves to null when signed in, or to a challenge for the 2FA step. */
+  loginWithPassword: (email: string, password: string) => Promise<TwoFactorChallenge | null>;
+  completeTwoFactor: (challengeToken: string, code: string) => Promise<void>;
+  beginTwoFactorEnrolment: (challengeToken: string) => Promise<TwoFactorSetup>;
+  /** Signs in and resolves to the one-time recovery codes. */
+  confirmTwoFactorEnrolment: (challengeToken: string, code: string) => Promise<string[]>;
   loginWithJwt: (jwt: string, refreshToken?: string) => Promise<void>;
   logout: () => Promise<void>;
   hasRole: (role: string) => boolean;
@@ -58,9 +71,25 @@ function decodeJwtPayload(jwt: string): Record<string, unknown> {
 /**
  * Call POST /api/auth/refresh with credentials: 'include'.
  * The httpOnly sratix_rt cookie is sent automatically if present.
- * Returns the server response or null if no valid cookie session.
+ * Returns the server response, null if no valid cookie session, or
+ * 'offline' when the server could not be reached (the session may still be valid).
  */
-async function callRefresh(): Promise<ServerAuthResponse | null> {
+/** POST to an /api/auth/login* endpoint, surfacing the server message on failure. */
+async function postLogin<T>(path: string, body: Record<string, string>): Promise<T> {
+  const res = await fetch(`${API_BASE}/api/auth/${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    credentials: 'include',
+    body: JSON.stringify(body),
+  });
+  if (!res.ok) {
+    const data = await res.json().catch(() => null);
+    throw new Error(data?.message ?? 'Authentication failed');
+  }
+  return res.json();
+}
+
+async function callRefresh(): Promise<ServerAuthResponse | null | 'offline'> {
   try {
     const res = await fetch(`${API_BASE}/api/auth/refresh`, {
       method: 'POST',
@@ -71,7 +100,7 @@ async function callRefresh(): Promise<ServerAuthResponse | null> {
     if (!res.ok) return null;
     return res.json();
   } catch {
-    return null;
+    return 'offline';
   }
 }
 
@@ -124,7 +153,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
     refreshTimerRef.current = setTimeout(async () => {
       const data = await callRefresh();
-      if (data) {
+      if (data === 'offline') {
+        // Network down (e.g. scanner at the gate) — keep the session and retry
+        scheduleRefresh(90);
+      } else if (data) {
         setToken(data.accessToken);
         setUser(data.user);
         setApiToken(data.accessToken);
@@ -163,7 +195,14 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
     // Attempt to restore session via httpOnly refresh cookie
     callRefresh().then((data) => {
-      if (data) {
+      if (data === 'offline') {
+        // Keep the cached user so offline pages (check-in scanner) stay usable;
+        // the session is restored once the network is back
+        const retry = () => {
+          callRefresh().then((d) => { if (d && d !== 'offline') stableApply(d); });
+        };
+        window.addEventListener('online', retry, { once: true });
+      } else if (data) {
         stableApply(data);
       } else {
         // No valid cookie session — clear any stale display state
@@ -202,21 +241,40 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   /**
    * Login with email + password.
    * Server sets the httpOnly refresh cookie; only the access token is returned
-   * in the response body and stored in-memory.
+   * in the response body and stored in-memory. Accounts with 2FA get a
+   * challenge back instead, finished via completeTwoFactor (or the enrolment
+   * pair below when their role requires 2FA).
    */
   const loginWithPassword = useCallback(
     async (email: string, password: string) => {
-      const res = await fetch(`${API_BASE}/api/auth/login`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        credentials: 'include',
-        body: JSON.stringify({ email, password }),
-      });
-      if (!res.ok) {
-        const data = await res.json().catch(() => null);
-        throw new Error(data?.message ?? 'Authentication failed');
-      }
-      stableApply(await res.json());
+      const data = await postLogin<ServerAuthResponse | TwoFactorChallenge>('login', { email, password });
+      if ('challengeToken' in data) return data;
+      stableApply(data);
+      return null;
+    },
+    [stableApply],
+  );
+
+  const completeTwoFactor = useCallback(
+    async (challengeToken: string, code: string) => {
+      stableApply(await postLogin<ServerAuthResponse>('login/2fa', { challengeToken, code }));
+    },
+    [stableApply],
+  );
+
+  const beginTwoFactorEnrolment = useCallback(
+    (challengeToken: string) => postLogin<TwoFactorSetup>('login/2fa/setup', { challengeToken }),
+    [],
+  );
+
+  const confirmTwoFactorEnrolment = useCallback(
+    async (challengeToken: string, code: string) => {
+      const data = await postLogin<ServerAuthResponse & { recoveryCodes: string[] }>(
+        'login/2fa/confirm',
+        { challengeToken, code },
+      );
+      stableApply(data);
+      return data.recoveryCodes;
     },
     [stableApply],
   );
@@ -295,7 +353,19 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   return (
     <AuthContext.Provider
-      value={{ user, token, isLoading, login, loginWithPassword, loginWithJwt, logout, hasRole }}
+      value={{
+        user,
+        token,
+        isLoading,
+        login,
+        loginWithPassword,
+        completeTwoFactor,
+        beginTwoFactorEnrolment,
+        confirmTwoFactorEnrolment,
+        loginWithJwt,
+        logout,
+        hasRole,
+      }}
     >
       {children}
     </AuthContext.Provider>
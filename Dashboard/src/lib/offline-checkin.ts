@@ -0,0 +1,407 @@
+'use client';
+
+import { api, type CheckInManifestResponse, type CheckInSyncResult } from './api';
+
+/**
+ * Offline check-in store for the scanner page.
+ *
+ * Everything lives in IndexedDB (`sratix-checkin`) so a scanner keeps
+ * working when the venue Wi-Fi drops and survives a page reload:
+ *
+ *   manifests — signed ticket manifest per event (+ the pinned public key)
+ *   scans     — every accepted scan, queued until the server confirmed it
+ *
+ * Scans are validated locally against the manifest: the server lists a
+ * SHA-256 digest of each ticket's signed QR payload, so a payload is
+ * genuine iff its digest is listed. The manifest signature (ECDSA P-256) is
+ * checked with WebCrypto on every load, and the public key is pinned per
+ * event on first download — a manifest signed by another key is refused.
+ *
+ * At an access zone, each ticket's list of restricted zones (`z`) decides
+ * whether it may enter; the server applies the same rules on sync. Day
+ * passes list the event days they are valid on (`days`), and "already
+ * checked in" is tracked per event day in the event timezone.
+ */
+
+const DB_NAME = 'sratix-checkin';
+const DB_VERSION = 1;
+
+/** Identical payloads within this window are camera re-reads, not scans. */
+export const RESCAN_DEBOUNCE_MS = 5000;
+
+export interface ManifestTicket {
+  d: string;
+  id: string;
+  name: string;
+  type: string;
+  status: string;
+  checkedInAt: string | null;
+  /** Restricted zones this ticket may enter */
+  z?: string[];
+  /** Event days (YYYY-MM-DD) a day pass is valid on */
+  days?: string[];
+  /** Event days already checked in at the main entrance */
+  seen?: string[];
+}
+
+export interface ManifestZone {
+  id: string;
+  name: string;
+  enforcement: 'reject' | 'flag';
+  /** False when the zone admits every ticket */
+  restricted: boolean;
+}
+
+export interface CheckInManifest {
+  v: 1;
+  eventId: string;
+  eventName: string;
+  /** Missing in manifests issued before per-day check-in existed */
+  timezone?: string;
+  keyId: string;
+  issuedAt: string;
+  expiresAt: string;
+  /** Missing in manifests issued before access zones existed */
+  zones?: ManifestZone[];
+  tickets: ManifestTicket[];
+}
+
+interface StoredManifest extends CheckInManifestResponse {
+  eventId: string;
+  fetchedAt: string;
+}
+
+/** Local verdict shown to gate staff right after a scan. */
+export type LocalVerdict =
+  | 'valid'         // listed and not yet checked in
+  | 'duplicate'     // listed, already checked in (manifest or this device)
+  | 'rejected'      // listed but voided / transferred / cancelled
+  | 'wrong_day'     // day pass scanned on a day it is not valid for
+  | 'wrong_zone'    // not on the access list of this (rejecting) zone
+  | 'flagged'       // not on the access list of this (flag-only) zone — admitted, marked for review
+  | 'unknown'       // not in the manifest — forged, other event, or issued after download
+  | 'unverified';   // no usable manifest — queued, the server decides on sync
+
+export interface QueuedScan {
+  clientId: string;
+  eventId: string;
+  qrPayload: string;
+  digest: string;
+  ticketId?: string;
+  attendeeName?: string;
+  ticketType?: string;
+  verdict: LocalVerdict;
+  offlineTimestamp: string;
+  deviceId: string;
+  location?: string;
+  zoneId?: string;
+  /** Event day of the scan (YYYY-MM-DD, event timezone) */
+  eventDay?: string;
+  /** 0 = waiting for sync, 1 = server answered (IndexedDB can't index booleans) */
+  synced: 0 | 1;
+  sync?: CheckInSyncResult;
+}
+
+// ─── IndexedDB plumbing ─────────────────────────────────────────
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        db.createObjectStore('manifests', { keyPath: 'eventId' });
+        const scans = db.createObjectStore('scans', { keyPath: 'clientId' });
+        scans.createIndex('eventId', 'eventId');
+        scans.createIndex('pending', ['eventId', 'synced']);
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function promisify<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function store(name: 'manifests' | 'scans', mode: IDBTransactionMode = 'readonly') {
+  return (await openDb()).transaction(name, mode).objectStore(name);
+}
+
+// ─── Device ─────────────────────────────────────────────────────
+
+/** Stable per-browser scanner ID, sent with every check-in. */
+export function getDeviceId(): string {
+  let id = localStorage.getItem('sratix_scanner_device');
+  if (!id) {
+    id = `scanner-${crypto.randomUUID().slice(0, 8)}`;
+    localStorage.setItem('sratix_scanner_device', id);
+  }
+  return id;
+}
+
+export function getGate(): string {
+  return localStorage.getItem('sratix_scanner_gate') ?? '';
+}
+
+export function setGate(gate: string): void {
+  localStorage.setItem('sratix_scanner_gate', gate);
+}
+
+/** Access zone this scanner checks into ('' = main entrance). */
+export function getZone(): string {
+  return localStorage.getItem('sratix_scanner_zone') ?? '';
+}
+
+export function setZone(zoneId: string): void {
+  localStorage.setItem('sratix_scanner_zone', zoneId);
+}
+
+// ─── Manifest ───────────────────────────────────────────────────
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const b64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const bin = atob(b64 + '='.repeat((4 - (b64.length % 4)) % 4));
+  return Uint8Array.from(bin, (c) => c.charCodeAt(0));
+}
+
+function toBase64Url(bytes: ArrayBuffer): string {
+  return btoa(String.fromCharCode(...new Uint8Array(bytes)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/** Same digest the server lists per ticket (base64url SHA-256, 22 chars). */
+export async function payloadDigest(qrPayload: string): Promise<string> {
+  const hash = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(qrPayload));
+  return toBase64Url(hash).slice(0, 22);
+}
+
+async function verifySignature(data: CheckInManifestResponse): Promise<boolean> {
+  const key = await crypto.subtle.importKey(
+    'jwk',
+    data.publicKey,
+    { name: 'ECDSA', namedCurve: 'P-256' },
+    false,
+    ['verify'],
+  );
+  return crypto.subtle.verify(
+    { name: 'ECDSA', hash: 'SHA-256' },
+    key,
+    fromBase64Url(data.signature),
+    new TextEncoder().encode(data.manifest),
+  );
+}
+
+const sameKey = (a: JsonWebKey, b: JsonWebKey) => a.x === b.x && a.y === b.y && a.crv === b.crv;
+
+/** Load and verify the stored manifest. Returns null if none or tampered. */
+export async function loadManifest(eventId: string): Promise<CheckInManifest | null> {
+  const stored = await promisify<StoredManifest | undefined>((await store('manifests')).get(eventId));
+  if (!stored) return null;
+  if (!(await verifySignature(stored))) return null;
+  const manifest = JSON.parse(stored.manifest) as CheckInManifest;
+  return manifest.eventId === eventId ? manifest : null;
+}
+
+/**
+ * Download a fresh manifest, verify it and store it. Throws when the
+ * signature is invalid or the signing key differs from the pinned one.
+ */
+export async function refreshManifest(eventId: string): Promise<CheckInManifest> {
+  const data = await api.getCheckInManifest(eventId, getDeviceId());
+  if (!(await verifySignature(data))) {
+    throw new Error('Manifest signature is invalid');
+  }
+  const manifest = JSON.parse(data.manifest) as CheckInManifest;
+  if (manifest.eventId !== eventId) {
+    throw new Error('Manifest belongs to another event');
+  }
+
+  const previous = await promisify<StoredManifest | undefined>((await store('manifests')).get(eventId));
+  if (previous && !sameKey(previous.publicKey, data.publicKey)) {
+    throw new Error('Manifest signing key changed — reset this scanner to accept it');
+  }
+
+  const record: StoredManifest = { ...data, eventId, fetchedAt: new Date().toISOString() };
+  await promisify((await store('manifests', 'readwrite')).put(record));
+  return manifest;
+}
+
+/** Forget the manifest and pinned key (scans are kept). */
+export async function resetManifest(eventId: string): Promise<void> {
+  await promisify((await store('manifests', 'readwrite')).delete(eventId));
+}
+
+export function isExpired(manifest: CheckInManifest): boolean {
+  return new Date(manifest.expiresAt).getTime() < Date.now();
+}
+
+/** Calendar day (YYYY-MM-DD) of an instant in the given timezone. */
+export function eventDayOf(date: Date, timeZone: string): string {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).formatToParts(date);
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? '';
+  return `${get('year')}-${get('month')}-${get('day')}`;
+}
+
+// ─── Scanning ───────────────────────────────────────────────────
+
+/**
+ * Validate a scanned payload locally and queue it. Unknown, rejected,
+ * wrong-day and wrong-zone tickets are not queued — the server would refuse
+ * them anyway. Duplicates are counted per event day and zone: entering the
+ * VIP lounge after the main entrance, or coming back on day two, is not a
+ * re-entry.
+ */
+export async function recordScan(
+  eventId: string,
+  qrPayload: string,
+  manifest: CheckInManifest | null,
+  index: Map<string, ManifestTicket>,
+): Promise<QueuedScan> {
+  const payload = qrPayload.trim();
+  const digest = await payloadDigest(payload);
+  const usable = manifest && !isExpired(manifest);
+  const ticket = usable ? index.get(digest) : undefined;
+  const zoneId = getZone() || undefined;
+  const zone = zoneId ? manifest?.zones?.find((z) => z.id === zoneId) : undefined;
+  const admitted = !zone?.restricted || !!ticket?.z?.includes(zone.id);
+  const now = new Date();
+  const eventDay = manifest?.timezone ? eventDayOf(now, manifest.timezone) : undefined;
+
+  let verdict: LocalVerdict;
+  if (!usable) {
+    verdict = 'unverified';
+  } else if (!ticket) {
+    verdict = 'unknown';
+  } else if (ticket.status !== 'valid' && ticket.status !== 'used') {
+    verdict = 'rejected';
+  } else if (eventDay && ticket.days && !ticket.days.includes(eventDay)) {
+    verdict = 'wrong_day';
+  } else if (!admitted) {
+    verdict = zone!.enforcement === 'reject' ? 'wrong_zone' : 'flagged';
+  } else if (
+    zoneId
+      ? await hasLocalScan(eventId, digest, zoneId, eventDay)
+      : eventDay
+        ? ticket.seen?.includes(eventDay) || (await hasLocalScan(eventId, digest, undefined, eventDay))
+        : ticket.status === 'used' || ticket.checkedInAt || (await hasLocalScan(eventId, digest))
+  ) {
+    verdict = 'duplicate';
+  } else {
+    verdict = 'valid';
+  }
+
+  const scan: QueuedScan = {
+    clientId: crypto.randomUUID(),
+    eventId,
+    qrPayload: payload,
+    digest,
+    ticketId: ticket?.id,
+    attendeeName: ticket?.name,
+    ticketType: ticket?.type,
+    verdict,
+    offlineTimestamp: now.toISOString(),
+    deviceId: getDeviceId(),
+    location: getGate() || undefined,
+    zoneId,
+    eventDay,
+    synced: 0,
+  };
+
+  if (!(['unknown', 'rejected', 'wrong_day', 'wrong_zone'] as LocalVerdict[]).includes(verdict)) {
+    await promisify((await store('scans', 'readwrite')).put(scan));
+  }
+  return scan;
+}
+
+async function hasLocalScan(
+  eventId: string,
+  digest: string,
+  zoneId?: string,
+  eventDay?: string,
+): Promise<boolean> {
+  const scans = await listScans(eventId);
+  return scans.some(
+    (s) => s.digest === digest && s.zoneId === zoneId && (!eventDay || s.eventDay === eventDay),
+  );
+}
+
+export async function listScans(eventId: string): Promise<QueuedScan[]> {
+  const index = (await store('scans')).index('eventId');
+  const scans = await promisify<QueuedScan[]>(index.getAll(eventId));
+  return scans.sort((a, b) => b.offlineTimestamp.localeCompare(a.offlineTimestamp));
+}
+
+// ─── Sync ───────────────────────────────────────────────────────
+
+let flushing = false;
+
+/**
+ * Push pending scans to `POST check-ins/sync` (500 per request) and store
+ * the server's verdict on each. Returns how many were sent; network errors
+ * leave the queue untouched for the next attempt.
+ */
+export async function flushQueue(eventId: string): Promise<number> {
+  if (flushing) return 0;
+  flushing = true;
+  try {
+    const pendingIndex = (await store('scans')).index('pending');
+    const pending = await promisify<QueuedScan[]>(pendingIndex.getAll([eventId, 0]));
+    let sent = 0;
+
+    for (let i = 0; i < pending.length; i += 500) {
+      const chunk = pending.slice(i, i + 500);
+      const response = await api.syncCheckIns(
+        eventId,
+        chunk.map((s) => ({
+          clientId: s.clientId,
+          qrPayload: s.qrPayload,
+          method: 'qr_scan',
+          direction: 'in',
+          deviceId: s.deviceId,
+          location: s.location,
+          zoneId: s.zoneId,
+          offlineTimestamp: s.offlineTimestamp,
+        })),
+      );
+
+      const byClientId = new Map(response.results.map((r) => [r.clientId, r]));
+      const scans = await store('scans', 'readwrite');
+      for (const scan of chunk) {
+        const result = byClientId.get(scan.clientId);
+        if (!result) continue;
+        scans.put({ ...scan, synced: 1, sync: result });
+      }
+      sent += chunk.length;
+    }
+    return sent;
+  } finally {
+    flushing = false;
+  }
+}
+
+/** Drop synced scans that went through cleanly (conflicts are kept for review). */
+export async function clearSynced(eventId: string): Promise<void> {
+  const scans = await listScans(eventId);
+  const os = await store('scans', 'readwrite');
+  for (const s of scans) {
+    if (s.synced === 1 && s.sync?.status === 'accepted') os.delete(s.clientId);
+  }
+}
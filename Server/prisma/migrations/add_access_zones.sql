@@ -0,0 +1,30 @@
+-- Access zones per event (VIP lounge, workshop rooms, exhibitor hall)
+-- Each zone lists the ticket types, attendee tags and add-ons it admits.
+-- Check-ins record the zone they were scanned into and whether a scan at
+-- a flag-only zone was outside the access list.
+CREATE TABLE `access_zones` (
+  `id` CHAR(36) NOT NULL,
+  `eventId` CHAR(36) NOT NULL,
+  `name` VARCHAR(100) NOT NULL,
+  `capacity` INT NULL,
+  `ticketTypeIds` JSON NULL,
+  `tags` JSON NULL,
+  `addOns` JSON NULL,
+  `enforcement` VARCHAR(10) NOT NULL DEFAULT 'reject',
+  `sortOrder` INT NOT NULL DEFAULT 0,
+  `active` BOOLEAN NOT NULL DEFAULT true,
+  `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  `updatedAt` DATETIME(3) NOT NULL,
+
+  INDEX `access_zones_eventId_idx` (`eventId`),
+  PRIMARY KEY (`id`),
+  CONSTRAINT `access_zones_eventId_fkey`
+    FOREIGN KEY (`eventId`) REFERENCES `events` (`id`) ON DELETE CASCADE ON UPDATE CASCADE
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+ALTER TABLE `check_ins`
+  ADD COLUMN `zoneId` CHAR(36) NULL AFTER `location`,
+  ADD COLUMN `zoneFlagged` BOOLEAN NOT NULL DEFAULT false AFTER `zoneId`,
+  ADD INDEX `check_ins_zoneId_idx` (`zoneId`),
+  ADD CONSTRAINT `check_ins_zoneId_fkey`
+    FOREIGN KEY (`zoneId`) REFERENCES `access_zones` (`id`) ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- Scoped API keys for server-to-server integrations
+-- Keys belong to an organisation and optionally a single event. Only the
+-- SHA-256 hash of the key is stored.
+CREATE TABLE `api_keys` (
+  `id` CHAR(36) NOT NULL,
+  `orgId` CHAR(36) NOT NULL,
+  `eventId` CHAR(36) NULL,
+  `name` VARCHAR(100) NOT NULL,
+  `prefix` VARCHAR(16) NOT NULL,
+  `keyHash` CHAR(64) NOT NULL,
+  `scopes` JSON NOT NULL,
+  `ipAllowlist` JSON NULL,
+  `expiresAt` DATETIME(3) NULL,
+  `lastUsedAt` DATETIME(3) NULL,
+  `lastUsedIp` VARCHAR(45) NULL,
+  `revokedAt` DATETIME(3) NULL,
+  `createdBy` CHAR(36) NULL,
+  `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+  UNIQUE INDEX `api_keys_keyHash_key` (`keyHash`),
+  INDEX `api_keys_orgId_idx` (`orgId`),
+  INDEX `api_keys_eventId_idx` (`eventId`),
+  PRIMARY KEY (`id`),
+  CONSTRAINT `api_keys_orgId_fkey`
+    FOREIGN KEY (`orgId`) REFERENCES `organizations` (`id`) ON DELETE RESTRICT ON UPDATE CASCADE,
+  CONSTRAINT `api_keys_eventId_fkey`
+    FOREIGN KEY (`eventId`) REFERENCES `events` (`id`) ON DELETE CASCADE ON UPDATE CASCADE
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,27 @@
+-- Bulk attendee import (CSV/XLSX)
+-- One row per uploaded file. The file itself sits in
+-- storage/attendee-imports/<eventId>/ until the import has run, then it is
+-- deleted; per-row problems stay in `issues` for the report.
+CREATE TABLE `attendee_imports` (
+  `id` CHAR(36) NOT NULL,
+  `eventId` CHAR(36) NOT NULL,
+  `status` VARCHAR(20) NOT NULL DEFAULT 'uploaded',
+  `fileName` VARCHAR(255) NOT NULL,
+  `storagePath` VARCHAR(500) NULL,
+  `columns` JSON NOT NULL,
+  `mapping` JSON NULL,
+  `options` JSON NULL,
+  `total` INT NOT NULL DEFAULT 0,
+  `done` INT NOT NULL DEFAULT 0,
+  `created` INT NOT NULL DEFAULT 0,
+  `skipped` INT NOT NULL DEFAULT 0,
+  `issues` JSON NULL,
+  `error` VARCHAR(500) NULL,
+  `requestedBy` CHAR(36) NULL,
+  `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  `startedAt` DATETIME(3) NULL,
+  `completedAt` DATETIME(3) NULL,
+
+  PRIMARY KEY (`id`),
+  INDEX `attendee_imports_eventId_createdAt_idx` (`eventId`, `createdAt`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
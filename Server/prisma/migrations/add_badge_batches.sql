@@ -0,0 +1,25 @@
+-- Batch badge rendering
+-- One row per print run; the finished multi-page PDF is written to
+-- storage/badge-batches/<eventId>/ (not publicly served — badges carry
+-- personal data) and downloaded through the authenticated API.
+CREATE TABLE `badge_batches` (
+  `id` CHAR(36) NOT NULL,
+  `eventId` CHAR(36) NOT NULL,
+  `templateId` CHAR(36) NOT NULL,
+  `status` VARCHAR(20) NOT NULL DEFAULT 'queued',
+  `filters` JSON NULL,
+  `options` JSON NOT NULL,
+  `total` INT NOT NULL DEFAULT 0,
+  `done` INT NOT NULL DEFAULT 0,
+  `pages` INT NULL,
+  `storagePath` VARCHAR(500) NULL,
+  `fileSize` INT NULL,
+  `error` VARCHAR(500) NULL,
+  `requestedBy` CHAR(36) NULL,
+  `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  `startedAt` DATETIME(3) NULL,
+  `completedAt` DATETIME(3) NULL,
+
+  PRIMARY KEY (`id`),
+  INDEX `badge_batches_eventId_createdAt_idx` (`eventId`, `createdAt`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
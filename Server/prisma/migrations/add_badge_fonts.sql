@@ -0,0 +1,20 @@
+-- Badge font registry
+-- TTF/OTF files uploaded per event or per organization (eventId NULL) and
+-- referenced by family name in badge layouts. Files live under
+-- uploads/badge-fonts/<orgId>/.
+CREATE TABLE `badge_fonts` (
+  `id` CHAR(36) NOT NULL,
+  `orgId` CHAR(36) NOT NULL,
+  `eventId` CHAR(36) NULL,
+  `family` VARCHAR(100) NOT NULL,
+  `weight` INT NOT NULL DEFAULT 400,
+  `style` VARCHAR(10) NOT NULL DEFAULT 'normal',
+  `format` VARCHAR(10) NOT NULL,
+  `originalName` VARCHAR(255) NOT NULL,
+  `storagePath` VARCHAR(500) NOT NULL,
+  `sizeBytes` INT NOT NULL,
+  `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+  PRIMARY KEY (`id`),
+  INDEX `badge_fonts_orgId_eventId_idx` (`orgId`, `eventId`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,41 @@
+-- Box office (on-site point of sale)
+-- Walk-in sales are recorded per order with the staff user who rang them
+-- up, so each cash drawer can be reconciled at the end of the day.
+CREATE TABLE `box_office_sales` (
+  `id` CHAR(36) NOT NULL,
+  `eventId` CHAR(36) NOT NULL,
+  `orderId` CHAR(36) NOT NULL,
+  `soldBy` CHAR(36) NOT NULL,
+  `paymentMethod` VARCHAR(20) NOT NULL,
+  `amountCents` INT NOT NULL,
+  `currency` VARCHAR(3) NOT NULL,
+  `tenderedCents` INT NULL,
+  `changeCents` INT NULL,
+  `terminalReference` VARCHAR(100) NULL,
+  `compReason` VARCHAR(255) NULL,
+  `businessDate` VARCHAR(10) NOT NULL,
+  `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+  PRIMARY KEY (`id`),
+  UNIQUE INDEX `box_office_sales_orderId_key` (`orderId`),
+  INDEX `box_office_sales_eventId_businessDate_soldBy_idx` (`eventId`, `businessDate`, `soldBy`),
+  CONSTRAINT `box_office_sales_orderId_fkey`
+    FOREIGN KEY (`orderId`) REFERENCES `orders` (`id`) ON DELETE CASCADE ON UPDATE CASCADE
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+CREATE TABLE `cash_drawer_closes` (
+  `id` CHAR(36) NOT NULL,
+  `eventId` CHAR(36) NOT NULL,
+  `userId` CHAR(36) NOT NULL,
+  `businessDate` VARCHAR(10) NOT NULL,
+  `openingFloatCents` INT NOT NULL DEFAULT 0,
+  `expectedCents` INT NOT NULL,
+  `countedCents` INT NOT NULL,
+  `varianceCents` INT NOT NULL,
+  `note` TEXT NULL,
+  `closedBy` CHAR(36) NOT NULL,
+  `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+  PRIMARY KEY (`id`),
+  UNIQUE INDEX `cash_drawer_closes_eventId_userId_businessDate_key` (`eventId`, `userId`, `businessDate`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
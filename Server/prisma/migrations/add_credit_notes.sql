@@ -0,0 +1,9 @@
+-- Credit notes (Gutschriften) for refunds
+-- One credit note per succeeded order_refunds row. The number has its own
+-- sequence (global setting `credit_note_counter`); the token backs the
+-- public download link.
+ALTER TABLE `order_refunds`
+  ADD COLUMN `creditNoteNumber` VARCHAR(30) NULL AFTER `createdBy`,
+  ADD COLUMN `creditNoteToken` CHAR(36) NULL AFTER `creditNoteNumber`,
+  ADD UNIQUE INDEX `order_refunds_creditNoteNumber_key` (`creditNoteNumber`),
+  ADD UNIQUE INDEX `order_refunds_creditNoteToken_key` (`creditNoteToken`);
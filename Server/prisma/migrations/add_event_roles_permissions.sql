@@ -0,0 +1,18 @@
+-- Event-scoped role grants and the per-role permission matrix
+-- A user_roles row with an eventId only applies to that event; RolesGuard
+-- looks it up when a route carries the event ID. Event grants keep orgId
+-- NULL, so the existing (userId, orgId, role) key does not collide with them.
+ALTER TABLE `user_roles`
+  ADD COLUMN `eventId` CHAR(36) NULL AFTER `orgId`,
+  ADD INDEX `user_roles_eventId_idx` (`eventId`),
+  ADD CONSTRAINT `user_roles_eventId_fkey`
+    FOREIGN KEY (`eventId`) REFERENCES `events` (`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+CREATE TABLE `role_permissions` (
+  `role` VARCHAR(50) NOT NULL,
+  `permissions` JSON NOT NULL,
+  `updatedBy` CHAR(36) NULL,
+  `updatedAt` DATETIME(3) NOT NULL,
+
+  PRIMARY KEY (`role`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
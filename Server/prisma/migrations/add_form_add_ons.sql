@@ -0,0 +1,20 @@
+-- Priced form options sold as order add-ons
+-- Add-on order lines carry no ticket type; their details sit in
+-- order_items.meta.addOn. Stock is reserved through ticket_holds rows with an
+-- addOnKey and counted in add_on_stock.
+ALTER TABLE `order_items` MODIFY COLUMN `ticketTypeId` CHAR(36) NULL;
+
+ALTER TABLE `ticket_holds` ADD COLUMN `addOnKey` VARCHAR(191) NULL AFTER `releaseReason`;
+
+CREATE TABLE `add_on_stock` (
+  `id` CHAR(36) NOT NULL,
+  `eventId` CHAR(36) NOT NULL,
+  `addOnKey` VARCHAR(191) NOT NULL,
+  `taken` INT NOT NULL DEFAULT 0,
+  `updatedAt` DATETIME(3) NOT NULL,
+
+  PRIMARY KEY (`id`),
+  UNIQUE INDEX `add_on_stock_eventId_addOnKey_key` (`eventId`, `addOnKey`),
+  CONSTRAINT `add_on_stock_eventId_fkey`
+    FOREIGN KEY (`eventId`) REFERENCES `events` (`id`) ON DELETE CASCADE ON UPDATE CASCADE
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,18 @@
+-- Save-and-resume drafts for the registration-token and checkout forms
+-- Partial answers are stored without validation and purged daily once they
+-- have not been touched for 30 days or the event has ended.
+CREATE TABLE `form_drafts` (
+  `id` CHAR(36) NOT NULL,
+  `eventId` CHAR(36) NOT NULL,
+  `kind` VARCHAR(20) NOT NULL,
+  `key` VARCHAR(191) NOT NULL,
+  `data` JSON NOT NULL,
+  `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  `updatedAt` DATETIME(3) NOT NULL,
+
+  PRIMARY KEY (`id`),
+  UNIQUE INDEX `form_drafts_eventId_kind_key_key` (`eventId`, `kind`, `key`),
+  INDEX `form_drafts_updatedAt_idx` (`updatedAt`),
+  CONSTRAINT `form_drafts_eventId_fkey`
+    FOREIGN KEY (`eventId`) REFERENCES `events` (`id`) ON DELETE CASCADE ON UPDATE CASCADE
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
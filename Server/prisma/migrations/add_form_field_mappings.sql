@@ -0,0 +1,4 @@
+-- Declarative field mappings between form schema versions
+-- Stored on the newer version, from its previous one (same name, next lower
+-- version). Unlike `fields`, mappings stay editable after submissions exist.
+ALTER TABLE `form_schemas` ADD COLUMN `fieldMappings` JSON NULL AFTER `fields`;
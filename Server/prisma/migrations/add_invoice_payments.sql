@@ -0,0 +1,31 @@
+-- Pay-by-invoice (bank transfer) checkout
+-- Orders paid by invoice stay `awaiting_payment` until a matching credit
+-- shows up in an uploaded camt.053/054 statement. The structured QR-bill
+-- reference (QRR or SCOR) is unique so statement entries map to one order.
+ALTER TABLE `orders`
+  ADD COLUMN `paymentReference` VARCHAR(32) NULL AFTER `stripePaymentId`,
+  ADD COLUMN `paymentDueAt` DATETIME(3) NULL AFTER `paymentReference`,
+  ADD UNIQUE INDEX `orders_paymentReference_key` (`paymentReference`);
+
+CREATE TABLE `bank_transactions` (
+  `id` CHAR(36) NOT NULL,
+  `eventId` CHAR(36) NOT NULL,
+  `entryRef` VARCHAR(100) NOT NULL,
+  `reference` VARCHAR(35) NULL,
+  `amountCents` INT NOT NULL,
+  `currency` VARCHAR(3) NOT NULL,
+  `bookingDate` DATETIME(3) NULL,
+  `debtorName` VARCHAR(140) NULL,
+  `status` VARCHAR(20) NOT NULL,
+  `orderId` CHAR(36) NULL,
+  `fileName` VARCHAR(255) NULL,
+  `importedBy` CHAR(36) NULL,
+  `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+  PRIMARY KEY (`id`),
+  UNIQUE INDEX `bank_transactions_eventId_entryRef_key` (`eventId`, `entryRef`),
+  INDEX `bank_transactions_orderId_idx` (`orderId`),
+  INDEX `bank_transactions_eventId_status_idx` (`eventId`, `status`),
+  CONSTRAINT `bank_transactions_orderId_fkey`
+    FOREIGN KEY (`orderId`) REFERENCES `orders` (`id`) ON DELETE SET NULL ON UPDATE CASCADE
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,25 @@
+-- Partial and per-ticket refunds
+-- `refundedCents` is the running total used to decide refunded vs
+-- partially_refunded; order_refunds keeps one row per refund.
+ALTER TABLE `orders` ADD COLUMN `refundedCents` INT NOT NULL DEFAULT 0 AFTER `cancelledAt`;
+
+CREATE TABLE `order_refunds` (
+  `id` CHAR(36) NOT NULL,
+  `orderId` CHAR(36) NOT NULL,
+  `eventId` CHAR(36) NOT NULL,
+  `amountCents` INT NOT NULL,
+  `currency` VARCHAR(3) NOT NULL DEFAULT 'CHF',
+  `status` VARCHAR(20) NOT NULL DEFAULT 'pending',
+  `source` VARCHAR(20) NOT NULL DEFAULT 'dashboard',
+  `stripeRefundId` VARCHAR(255) NULL,
+  `reason` TEXT NULL,
+  `lines` JSON NULL,
+  `createdBy` CHAR(36) NULL,
+  `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+  PRIMARY KEY (`id`),
+  INDEX `order_refunds_orderId_idx` (`orderId`),
+  INDEX `order_refunds_eventId_idx` (`eventId`),
+  CONSTRAINT `order_refunds_orderId_fkey`
+    FOREIGN KEY (`orderId`) REFERENCES `orders` (`id`) ON DELETE CASCADE ON UPDATE CASCADE
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,62 @@
+-- Generic payment records (payment provider abstraction)
+-- Provider-specific IDs move off `orders` into `payments`, one row per
+-- payment attempt, so an order can be retried and paid through any
+-- provider. Existing Stripe orders are backfilled with one attempt each.
+CREATE TABLE `payments` (
+  `id` CHAR(36) NOT NULL,
+  `orderId` CHAR(36) NOT NULL,
+  `eventId` CHAR(36) NOT NULL,
+  `provider` VARCHAR(30) NOT NULL,
+  `status` VARCHAR(20) NOT NULL DEFAULT 'pending',
+  `providerSessionId` VARCHAR(255) NULL,
+  `providerPaymentId` VARCHAR(255) NULL,
+  `amountCents` INT NOT NULL,
+  `currency` VARCHAR(3) NOT NULL DEFAULT 'CHF',
+  `testMode` BOOLEAN NOT NULL DEFAULT false,
+  `completedAt` DATETIME(3) NULL,
+  `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  `updatedAt` DATETIME(3) NOT NULL,
+
+  PRIMARY KEY (`id`),
+  UNIQUE INDEX `payments_provider_providerSessionId_key` (`provider`, `providerSessionId`),
+  INDEX `payments_provider_providerPaymentId_idx` (`provider`, `providerPaymentId`),
+  INDEX `payments_orderId_idx` (`orderId`),
+  INDEX `payments_eventId_idx` (`eventId`),
+  CONSTRAINT `payments_orderId_fkey`
+    FOREIGN KEY (`orderId`) REFERENCES `orders` (`id`) ON DELETE CASCADE ON UPDATE CASCADE
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+INSERT INTO `payments`
+  (`id`, `orderId`, `eventId`, `provider`, `status`, `providerSessionId`, `providerPaymentId`,
+   `amountCents`, `currency`, `testMode`, `completedAt`, `createdAt`, `updatedAt`)
+SELECT
+  UUID(), `id`, `eventId`, 'stripe',
+  CASE
+    WHEN `stripePaymentId` IS NOT NULL THEN 'succeeded'
+    WHEN `status` = 'expired' THEN 'expired'
+    WHEN `status` = 'pending' THEN 'pending'
+    ELSE 'failed'
+  END,
+  `stripeSessionId`, `stripePaymentId`, `totalCents`, `currency`,
+  COALESCE(JSON_VALUE(`meta`, '$.isTestOrder') = 'true', false),
+  IF(`stripePaymentId` IS NOT NULL, `paidAt`, NULL),
+  `createdAt`, `updatedAt`
+FROM `orders`
+WHERE `stripeSessionId` IS NOT NULL OR `stripePaymentId` IS NOT NULL;
+
+-- Refunds point at the payment they went through
+ALTER TABLE `order_refunds`
+  CHANGE COLUMN `stripeRefundId` `providerRefundId` VARCHAR(255) NULL,
+  ADD COLUMN `paymentId` CHAR(36) NULL AFTER `source`,
+  ADD INDEX `order_refunds_paymentId_idx` (`paymentId`),
+  ADD CONSTRAINT `order_refunds_paymentId_fkey`
+    FOREIGN KEY (`paymentId`) REFERENCES `payments` (`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+UPDATE `order_refunds` r
+  JOIN `payments` p ON p.`orderId` = r.`orderId` AND p.`status` = 'succeeded'
+SET r.`paymentId` = p.`id`;
+
+ALTER TABLE `orders`
+  DROP INDEX `orders_stripeSessionId_idx`,
+  DROP COLUMN `stripeSessionId`,
+  DROP COLUMN `stripePaymentId`;
@@ -0,0 +1,26 @@
+-- Inventory holds for pending orders (prevents overselling the last seats)
+-- `held` mirrors the sum of active ticket_holds rows per ticket type so the
+-- availability check can be done atomically in a single UPDATE.
+ALTER TABLE `ticket_types` ADD COLUMN `held` INT NOT NULL DEFAULT 0 AFTER `sold`;
+
+CREATE TABLE `ticket_holds` (
+  `id` CHAR(36) NOT NULL,
+  `eventId` CHAR(36) NOT NULL,
+  `orderId` CHAR(36) NOT NULL,
+  `ticketTypeId` CHAR(36) NOT NULL,
+  `quantity` INT NOT NULL,
+  `status` VARCHAR(20) NOT NULL DEFAULT 'active',
+  `expiresAt` DATETIME(3) NOT NULL,
+  `releasedAt` DATETIME(3) NULL,
+  `releaseReason` VARCHAR(50) NULL,
+  `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+  PRIMARY KEY (`id`),
+  INDEX `ticket_holds_orderId_idx` (`orderId`),
+  INDEX `ticket_holds_ticketTypeId_idx` (`ticketTypeId`),
+  INDEX `ticket_holds_status_expiresAt_idx` (`status`, `expiresAt`),
+  CONSTRAINT `ticket_holds_orderId_fkey`
+    FOREIGN KEY (`orderId`) REFERENCES `orders` (`id`) ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT `ticket_holds_ticketTypeId_fkey`
+    FOREIGN KEY (`ticketTypeId`) REFERENCES `ticket_types` (`id`) ON DELETE CASCADE ON UPDATE CASCADE
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,6 @@
+-- Ticket transfer / reassignment
+-- Per-event cutoff for attendee-initiated transfers (NULL = until the event
+-- starts). Transferred tickets keep their row with status 'transferred';
+-- the replacement ticket carries `meta.transferredFromTicketId`.
+ALTER TABLE `events`
+  ADD COLUMN `transferCutoff` DATETIME(3) NULL AFTER `doorsOpen`;
@@ -0,0 +1,19 @@
+-- Per-day ticket validity for multi-day events
+-- Ticket types may list the days (YYYY-MM-DD, event timezone) they admit on.
+-- Check-ins record the event day they were scanned on, so "already checked
+-- in" and attendance are counted per day.
+ALTER TABLE `ticket_types`
+  ADD COLUMN `validDays` JSON NULL AFTER `formSchemaId`;
+
+ALTER TABLE `check_ins`
+  ADD COLUMN `eventDay` VARCHAR(10) NULL AFTER `zoneFlagged`,
+  ADD INDEX `check_ins_eventId_eventDay_idx` (`eventId`, `eventDay`);
+
+-- Backfill existing check-ins. CONVERT_TZ returns NULL when the server has
+-- no time zone tables loaded; fall back to the UTC date in that case.
+UPDATE `check_ins` c
+  JOIN `events` e ON e.`id` = c.`eventId`
+  SET c.`eventDay` = DATE_FORMAT(
+    COALESCE(CONVERT_TZ(c.`timestamp`, '+00:00', e.`timezone`), c.`timestamp`),
+    '%Y-%m-%d'
+  );
@@ -0,0 +1,4 @@
+-- TOTP replay protection: the last accepted time step per user.
+-- A code is rejected unless its step is newer than this one.
+ALTER TABLE `users`
+  ADD COLUMN `totpLastStep` INT NULL AFTER `totpRecoveryCodes`;
@@ -0,0 +1,7 @@
+-- Two-factor authentication (TOTP + recovery codes) for dashboard users
+-- The secret is encrypted with a key derived from JWT_SECRET; recovery codes
+-- are stored as SHA-256 hashes and removed as they are used.
+ALTER TABLE `users`
+  ADD COLUMN `totpSecret` VARCHAR(255) NULL AFTER `tokenVersion`,
+  ADD COLUMN `totpEnabledAt` DATETIME(3) NULL AFTER `totpSecret`,
+  ADD COLUMN `totpRecoveryCodes` JSON NULL AFTER `totpEnabledAt`;
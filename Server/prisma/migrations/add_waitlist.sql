@@ -0,0 +1,30 @@
+-- Waitlist per ticket type with automatic promotion
+-- Offered entries reserve their seats through ticket_types.held, just like
+-- pending-order holds, until claimed at checkout or expired.
+CREATE TABLE `waitlist_entries` (
+  `id` CHAR(36) NOT NULL,
+  `eventId` CHAR(36) NOT NULL,
+  `ticketTypeId` CHAR(36) NOT NULL,
+  `email` VARCHAR(255) NOT NULL,
+  `firstName` VARCHAR(100) NULL,
+  `lastName` VARCHAR(100) NULL,
+  `quantity` INT NOT NULL DEFAULT 1,
+  `formData` JSON NULL,
+  `locale` VARCHAR(10) NULL,
+  `returnUrl` VARCHAR(500) NOT NULL,
+  `status` VARCHAR(20) NOT NULL DEFAULT 'waiting',
+  `offerToken` CHAR(36) NULL,
+  `offeredAt` DATETIME(3) NULL,
+  `offerExpiresAt` DATETIME(3) NULL,
+  `orderId` CHAR(36) NULL,
+  `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+  `updatedAt` DATETIME(3) NOT NULL,
+
+  PRIMARY KEY (`id`),
+  UNIQUE INDEX `waitlist_entries_offerToken_key` (`offerToken`),
+  INDEX `waitlist_entries_eventId_idx` (`eventId`),
+  INDEX `waitlist_entries_ticketTypeId_status_createdAt_idx` (`ticketTypeId`, `status`, `createdAt`),
+  INDEX `waitlist_entries_status_offerExpiresAt_idx` (`status`, `offerExpiresAt`),
+  CONSTRAINT `waitlist_entries_ticketTypeId_fkey`
+    FOREIGN KEY (`ticketTypeId`) REFERENCES `ticket_types` (`id`) ON DELETE CASCADE ON UPDATE CASCADE
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,149 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Param,
+  Body,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import {
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { RequirePermission } from '../auth/decorators/require-permission.decorator';
+import { AccessZonesService, ZONE_ENFORCEMENTS } from './access-zones.service';
+
+class CreateAccessZoneDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name!: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  capacity?: number | null;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  ticketTypeIds?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  tags?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  addOns?: string[];
+
+  @IsOptional()
+  @IsIn(ZONE_ENFORCEMENTS)
+  enforcement?: string;
+
+  @IsOptional()
+  @IsInt()
+  sortOrder?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  active?: boolean;
+}
+
+class UpdateAccessZoneDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  capacity?: number | null;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  ticketTypeIds?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  tags?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  addOns?: string[];
+
+  @IsOptional()
+  @IsIn(ZONE_ENFORCEMENTS)
+  enforcement?: string;
+
+  @IsOptional()
+  @IsInt()
+  sortOrder?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  active?: boolean;
+}
+
+/**
+ * Access zones of an event — which ticket types, attendee tags and add-ons
+ * may enter the VIP lounge, a workshop room, the exhibitor hall, …
+ *
+ * Endpoints:
+ *   GET    /api/events/:eventId/access-zones      — list zones (scanners pick one)
+ *   POST   /api/events/:eventId/access-zones      — create a zone
+ *   PATCH  /api/events/:eventId/access-zones/:id  — update a zone
+ *   DELETE /api/events/:eventId/access-zones/:id  — delete a zone without check-ins
+ */
+@Controller('events/:eventId/access-zones')
+@UseGuards(AuthGuard('jwt'), RolesGuard)
+export class AccessZonesController {
+  constructor(private readonly accessZones: AccessZonesService) {}
+
+  @Get()
+  @RequirePermission('checkin.scan', 'checkin.view')
+  findAll(@Param('eventId') eventId: string) {
+    return this.accessZones.findByEvent(eventId);
+  }
+
+  @Post()
+  @Roles('event_admin', 'admin', 'super_admin')
+  create(@Param('eventId') eventId: string, @Body() dto: CreateAccessZoneDto) {
+    return this.accessZones.create(eventId, dto);
+  }
+
+  @Patch(':id')
+  @Roles('event_admin', 'admin', 'super_admin')
+  update(
+    @Param('eventId') eventId: string,
+    @Param('id') id: string,
+    @Body() dto: UpdateAccessZoneDto,
+  ) {
+    return this.accessZones.update(id, eventId, dto);
+  }
+
+  @Delete(':id')
+  @Roles('event_admin', 'admin', 'super_admin')
+  remove(@Param('eventId') eventId: string, @Param('id') id: string) {
+    return this.accessZones.remove(id, eventId);
+  }
+}
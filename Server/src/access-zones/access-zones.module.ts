@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { AccessZonesService } from './access-zones.service';
+import { AccessZonesController } from './access-zones.controller';
+
+@Module({
+  controllers: [AccessZonesController],
+  providers: [AccessZonesService],
+  exports: [AccessZonesService],
+})
+export class AccessZonesModule {}
@@ -0,0 +1,62 @@
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { AccessZonesService, zoneAdmits, zoneCredentials } from './access-zones.service';
+
+describe('zoneAdmits', () => {
+  const ticket = zoneCredentials({
+    ticketTypeId: 'tt-day',
+    meta: { addOns: ['workshop-a'] },
+    attendee: { tags: ['press'] },
+  });
+
+  it('admits every ticket to a zone without rules', () => {
+    expect(zoneAdmits({ ticketTypeIds: null, tags: [], addOns: null }, ticket)).toBe(true);
+  });
+
+  it('admits on any matching ticket type, tag or add-on', () => {
+    const rules = { ticketTypeIds: ['tt-vip'], tags: null, addOns: null };
+    expect(zoneAdmits(rules, ticket)).toBe(false);
+    expect(zoneAdmits({ ...rules, tags: ['press'] }, ticket)).toBe(true);
+    expect(zoneAdmits({ ...rules, addOns: ['workshop-a'] }, ticket)).toBe(true);
+    expect(zoneAdmits({ ...rules, ticketTypeIds: ['tt-vip', 'tt-day'] }, ticket)).toBe(true);
+  });
+});
+
+describe('AccessZonesService', () => {
+  function setup() {
+    const prisma = {
+      accessZone: {
+        findFirst: jest.fn().mockResolvedValue({ id: 'zone-1', eventId: 'evt-1', name: 'VIP', active: true }),
+        create: jest.fn(async ({ data }: any) => ({ id: 'zone-1', ...data })),
+        delete: jest.fn(),
+      },
+      ticketType: { count: jest.fn().mockResolvedValue(1) },
+      checkIn: { count: jest.fn().mockResolvedValue(0) },
+    };
+    return { service: new AccessZonesService(prisma as any), prisma };
+  }
+
+  it('only accepts ticket types of the same event', async () => {
+    const { service, prisma } = setup();
+
+    await expect(
+      service.create('evt-1', { name: 'VIP', ticketTypeIds: ['tt-vip', 'tt-other-event'] }),
+    ).rejects.toThrow(BadRequestException);
+
+    prisma.ticketType.count.mockResolvedValue(2);
+    await service.create('evt-1', { name: ' VIP ', ticketTypeIds: ['tt-vip', 'tt-gold'], tags: [' vip ', 'vip'] });
+    expect(prisma.accessZone.create.mock.calls[0][0].data).toMatchObject({
+      name: 'VIP',
+      enforcement: 'reject',
+      ticketTypeIds: ['tt-vip', 'tt-gold'],
+      tags: ['vip'],
+    });
+  });
+
+  it('keeps zones with check-ins', async () => {
+    const { service, prisma } = setup();
+    prisma.checkIn.count.mockResolvedValue(3);
+
+    await expect(service.remove('zone-1', 'evt-1')).rejects.toThrow(ConflictException);
+    expect(prisma.accessZone.delete).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,187 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import type { AccessZone } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+
+export const ZONE_ENFORCEMENTS = ['reject', 'flag'] as const;
+
+export interface AccessZoneInput {
+  name?: string;
+  capacity?: number | null;
+  ticketTypeIds?: string[];
+  tags?: string[];
+  addOns?: string[];
+  enforcement?: string;
+  sortOrder?: number;
+  active?: boolean;
+}
+
+/** What a ticket brings to the door — matched against a zone's rules. */
+export interface ZoneCredentials {
+  ticketTypeId: string;
+  /** Attendee tags (Attendee.tags) */
+  tags: string[];
+  /** Add-on keys booked with the ticket (Ticket.meta.addOns) */
+  addOns: string[];
+}
+
+type ZoneRules = Pick<AccessZone, 'ticketTypeIds' | 'tags' | 'addOns'>;
+
+/** A zone without rules is open to every valid ticket. */
+export function zoneIsOpen(zone: ZoneRules): boolean {
+  return ![zone.ticketTypeIds, zone.tags, zone.addOns].some((list) => stringList(list).length > 0);
+}
+
+/**
+ * Whether a ticket may enter a zone: any listed ticket type, tag or add-on
+ * is enough.
+ */
+export function zoneAdmits(zone: ZoneRules, credentials: ZoneCredentials): boolean {
+  if (zoneIsOpen(zone)) return true;
+  return (
+    stringList(zone.ticketTypeIds).includes(credentials.ticketTypeId) ||
+    credentials.tags.some((t) => stringList(zone.tags).includes(t)) ||
+    credentials.addOns.some((a) => stringList(zone.addOns).includes(a))
+  );
+}
+
+/** Zone credentials of a ticket, from its type, attendee tags and meta. */
+export function zoneCredentials(ticket: {
+  ticketTypeId: string;
+  meta?: unknown;
+  attendee?: { tags?: unknown } | null;
+}): ZoneCredentials {
+  const meta = ticket.meta as { addOns?: unknown } | null | undefined;
+  return {
+    ticketTypeId: ticket.ticketTypeId,
+    tags: stringList(ticket.attendee?.tags),
+    addOns: stringList(meta?.addOns),
+  };
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+}
+
+/**
+ * Access Zones — gated areas within an event and who may enter them.
+ *
+ * Zones with enforcement `reject` turn away scans of tickets that are not
+ * on the list; `flag` zones let them in but mark the check-in for review.
+ */
+@Injectable()
+export class AccessZonesService {
+  private readonly logger = new Logger(AccessZonesService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  // ─── Queries ──────────────────────────────────────────────────
+
+  async findByEvent(eventId: string) {
+    return this.prisma.accessZone.findMany({
+      where: { eventId },
+      orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+    });
+  }
+
+  async findById(id: string, eventId: string) {
+    const zone = await this.prisma.accessZone.findFirst({ where: { id, eventId } });
+    if (!zone) throw new NotFoundException(`Access zone ${id} not found`);
+    return zone;
+  }
+
+  /** Zone a scanner checks into. Inactive zones do not accept scans. */
+  async findForCheckIn(id: string, eventId: string) {
+    const zone = await this.findById(id, eventId);
+    if (!zone.active) {
+      throw new BadRequestException(`Access zone "${zone.name}" is inactive`);
+    }
+    return zone;
+  }
+
+  // ─── Mutations ────────────────────────────────────────────────
+
+  async create(eventId: string, input: AccessZoneInput) {
+    if (!input.name?.trim()) {
+      throw new BadRequestException('Zone name is required');
+    }
+    const rules = await this.validateRules(eventId, input);
+
+    const zone = await this.prisma.accessZone.create({
+      data: {
+        eventId,
+        name: input.name.trim(),
+        capacity: input.capacity ?? null,
+        enforcement: input.enforcement ?? 'reject',
+        sortOrder: input.sortOrder ?? 0,
+        active: input.active ?? true,
+        ...rules,
+      },
+    });
+    this.logger.log(`Access zone "${zone.name}" created for event ${eventId}`);
+    return zone;
+  }
+
+  async update(id: string, eventId: string, input: AccessZoneInput) {
+    await this.findById(id, eventId);
+    if (input.name !== undefined && !input.name.trim()) {
+      throw new BadRequestException('Zone name is required');
+    }
+    const rules = await this.validateRules(eventId, input);
+
+    return this.prisma.accessZone.update({
+      where: { id },
+      data: {
+        ...(input.name !== undefined && { name: input.name.trim() }),
+        ...(input.capacity !== undefined && { capacity: input.capacity }),
+        ...(input.enforcement !== undefined && { enforcement: input.enforcement }),
+        ...(input.sortOrder !== undefined && { sortOrder: input.sortOrder }),
+        ...(input.active !== undefined && { active: input.active }),
+        ...rules,
+      },
+    });
+  }
+
+  /** Zones with recorded check-ins are kept for occupancy history — deactivate them instead. */
+  async remove(id: string, eventId: string) {
+    await this.findById(id, eventId);
+    const checkIns = await this.prisma.checkIn.count({ where: { zoneId: id } });
+    if (checkIns > 0) {
+      throw new ConflictException('This zone has check-ins — deactivate it instead of deleting it');
+    }
+    await this.prisma.accessZone.delete({ where: { id } });
+    return { success: true };
+  }
+
+  // ─── Internals ────────────────────────────────────────────────
+
+  private async validateRules(eventId: string, input: AccessZoneInput) {
+    if (input.enforcement !== undefined && !(ZONE_ENFORCEMENTS as readonly string[]).includes(input.enforcement)) {
+      throw new BadRequestException(`enforcement must be one of: ${ZONE_ENFORCEMENTS.join(', ')}`);
+    }
+    if (input.capacity != null && (!Number.isInteger(input.capacity) || input.capacity < 0)) {
+      throw new BadRequestException('capacity must be a non-negative integer');
+    }
+
+    if (input.ticketTypeIds?.length) {
+      const found = await this.prisma.ticketType.count({
+        where: { id: { in: input.ticketTypeIds }, eventId },
+      });
+      if (found !== new Set(input.ticketTypeIds).size) {
+        throw new BadRequestException('All ticket types must belong to this event');
+      }
+    }
+
+    const clean = (list: string[]) => [...new Set(list.map((v) => v.trim()).filter(Boolean))];
+    return {
+      ...(input.ticketTypeIds !== undefined && { ticketTypeIds: clean(input.ticketTypeIds) }),
+      ...(input.tags !== undefined && { tags: clean(input.tags) }),
+      ...(input.addOns !== undefined && { addOns: clean(input.addOns) }),
+    };
+  }
+}
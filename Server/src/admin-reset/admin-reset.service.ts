@@ -214,7 +214,7 @@ export class AdminResetService {
         //    deletes above don't decrement it, so we recompute it to truth).
         for (const ttId of eventTicketTypeIds) {
           const activeCount = await tx.ticket.count({
-            where: { eventId, ticketTypeId: ttId, status: { notIn: ['voided', 'cancelled'] } },
+            where: { eventId, ticketTypeId: ttId, status: { notIn: ['voided', 'cancelled', 'transferred'] } },
           });
           await tx.ticketType.update({ where: { id: ttId }, data: { sold: activeCount } });
         }
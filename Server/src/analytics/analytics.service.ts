@@ -46,6 +46,7 @@ export class AnalyticsService {
         id: true,
         status: true,
         totalCents: true,
+        refundedCents: true,
         paidAt: true,
         createdAt: true,
         items: {
@@ -100,13 +101,14 @@ export class AnalyticsService {
 
       entry.registrations += 1;
 
-      if (order.status === 'paid') {
-        entry.sales += order.totalCents;
+      // Partially refunded orders still count, net of what was refunded
+      if (order.status === 'paid' || order.status === 'partially_refunded') {
+        entry.sales += order.totalCents - order.refundedCents;
       }
 
       // Check if any order item is a membership ticket
-      const hasMembership = order.items.some((item) =>
-        membershipTypeIds.has(item.ticketTypeId),
+      const hasMembership = order.items.some(
+        (item) => !!item.ticketTypeId && membershipTypeIds.has(item.ticketTypeId),
       );
       if (hasMembership && order.status === 'paid') {
         entry.memberships += 1;
@@ -0,0 +1,32 @@
+/**
+ * Scopes an API key can carry. Endpoints opt in with @ApiKeyScope(); an API
+ * key is rejected everywhere else.
+ */
+export const API_KEY_SCOPES = {
+  'read:attendees': { label: 'Read attendees', description: 'List the attendees of an event' },
+  'read:orders':    { label: 'Read orders',    description: 'List the orders of an event' },
+  'read:checkins':  { label: 'Read check-ins', description: 'Check-in list and live statistics' },
+  'write:checkins': { label: 'Write check-ins', description: 'Record check-ins and sync offline scans' },
+} as const;
+
+export type ApiKeyScopeName = keyof typeof API_KEY_SCOPES;
+
+export const API_KEY_SCOPE_KEYS = Object.keys(API_KEY_SCOPES) as ApiKeyScopeName[];
+
+/** Every key starts with this, so it is easy to spot in logs and secret scanners. */
+export const API_KEY_PREFIX = 'srx_';
+
+/**
+ * The raw key from a request — `X-API-Key: srx_…`, or `Authorization: Bearer srx_…`
+ * for clients that can only send bearer tokens.
+ */
+export function extractApiKey(headers: Record<string, string | string[] | undefined> | undefined): string | null {
+  const header = headers?.['x-api-key'];
+  if (typeof header === 'string' && header.startsWith(API_KEY_PREFIX)) return header;
+
+  const auth = headers?.authorization;
+  if (typeof auth === 'string' && auth.startsWith(`Bearer ${API_KEY_PREFIX}`)) {
+    return auth.slice('Bearer '.length);
+  }
+  return null;
+}
@@ -0,0 +1,111 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Param,
+  Body,
+  Query,
+  UseGuards,
+  ForbiddenException,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import {
+  IsArray,
+  IsDateString,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { JwtPayload } from '../auth/auth.service';
+import { ApiKeysService } from './api-keys.service';
+
+class CreateApiKeyDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name!: string;
+
+  @IsArray()
+  @IsString({ each: true })
+  scopes!: string[];
+
+  @IsOptional()
+  @IsString()
+  orgId?: string;
+
+  @IsOptional()
+  @IsString()
+  eventId?: string;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  ipAllowlist?: string[];
+
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+}
+
+/**
+ * API keys for server-to-server integrations (Super Admin / Admin).
+ * Admins list, create and revoke keys of their own organization only.
+ *
+ * Endpoints:
+ *   GET    /api/api-keys          — list keys (?orgId=, ?eventId=)
+ *   GET    /api/api-keys/scopes   — scope catalog
+ *   POST   /api/api-keys          — create a key (plain key returned once)
+ *   DELETE /api/api-keys/:id      — revoke a key
+ */
+@Controller('api-keys')
+@UseGuards(AuthGuard('jwt'), RolesGuard)
+@Roles('super_admin', 'admin')
+export class ApiKeysController {
+  constructor(private readonly apiKeys: ApiKeysService) {}
+
+  private isSuperAdmin(user: JwtPayload): boolean {
+    return user.roles?.includes('super_admin') ?? false;
+  }
+
+  /** Org the admin is confined to; undefined for super admins (all orgs). */
+  private scopedOrgId(user: JwtPayload): string | undefined {
+    if (this.isSuperAdmin(user)) return undefined;
+    if (!user.orgId) {
+      throw new ForbiddenException('No organization associated with this account');
+    }
+    return user.orgId;
+  }
+
+  @Get()
+  findAll(
+    @CurrentUser() user: JwtPayload,
+    @Query('orgId') orgId?: string,
+    @Query('eventId') eventId?: string,
+  ) {
+    // Admins only see their own organization's keys
+    return this.apiKeys.findAll({ orgId: this.scopedOrgId(user) ?? orgId, eventId });
+  }
+
+  @Get('scopes')
+  getScopes() {
+    return this.apiKeys.getScopes();
+  }
+
+  @Post()
+  create(@Body() dto: CreateApiKeyDto, @CurrentUser() user: JwtPayload) {
+    // Admins create keys for their own organization only; the service
+    // rejects an event of another organization
+    const orgId = this.scopedOrgId(user) ?? dto.orgId;
+    return this.apiKeys.create({ ...dto, orgId }, user.sub);
+  }
+
+  @Delete(':id')
+  revoke(@Param('id') id: string, @CurrentUser() user: JwtPayload) {
+    return this.apiKeys.revoke(id, user.sub, this.scopedOrgId(user));
+  }
+}
@@ -0,0 +1,15 @@
+import { Module, Global } from '@nestjs/common';
+import { ApiKeysService } from './api-keys.service';
+import { ApiKeysController } from './api-keys.controller';
+
+/**
+ * API Keys Module — Global because the API-key-aware auth guard and
+ * RolesGuard, used across modules, authenticate and authorize keys here.
+ */
+@Global()
+@Module({
+  controllers: [ApiKeysController],
+  providers: [ApiKeysService],
+  exports: [ApiKeysService],
+})
+export class ApiKeysModule {}
@@ -0,0 +1,90 @@
+import { createHash } from 'crypto';
+import { BadRequestException, UnauthorizedException } from '@nestjs/common';
+import { ApiKeysService } from './api-keys.service';
+
+describe('ApiKeysService', () => {
+  function setup(stored: Record<string, any> | null = null) {
+    const prisma = {
+      apiKey: {
+        findUnique: jest.fn().mockResolvedValue(stored),
+        create: jest.fn(async ({ data }: any) => ({ id: 'key-1', ...data, event: null })),
+        update: jest.fn().mockResolvedValue({}),
+      },
+      event: { findUnique: jest.fn().mockResolvedValue({ orgId: 'org-1' }) },
+    };
+    const audit = { log: jest.fn() };
+    const service = new ApiKeysService(prisma as any, audit as any);
+    return { service, prisma, audit };
+  }
+
+  const key = (overrides: Record<string, any> = {}) => ({
+    id: 'key-1',
+    name: 'CRM',
+    prefix: 'srx_abcdefgh',
+    orgId: 'org-1',
+    eventId: null,
+    scopes: ['read:attendees'],
+    ipAllowlist: null,
+    expiresAt: null,
+    lastUsedAt: null,
+    revokedAt: null,
+    ...overrides,
+  });
+
+  it('stores only the hash and returns the plain key once', async () => {
+    const { service, prisma, audit } = setup();
+
+    const created = await service.create(
+      { name: 'CRM', scopes: ['read:attendees'], eventId: 'evt-1' },
+      'user-1',
+    );
+
+    const data = prisma.apiKey.create.mock.calls[0][0].data;
+    expect(created.secret).toMatch(/^srx_[A-Za-z0-9_-]{32}$/);
+    expect(data.keyHash).toBe(createHash('sha256').update(created.secret).digest('hex'));
+    expect(data).not.toHaveProperty('secret');
+    expect(data.orgId).toBe('org-1');
+    expect(audit.log).toHaveBeenCalledWith(expect.objectContaining({ action: 'api_key.created' }));
+  });
+
+  it('rejects unknown scopes and malformed allowlist entries', async () => {
+    const { service } = setup();
+
+    await expect(
+      service.create({ name: 'CRM', scopes: ['delete:everything'], orgId: 'org-1' }, 'user-1'),
+    ).rejects.toThrow(BadRequestException);
+    await expect(
+      service.create({ name: 'CRM', scopes: ['read:orders'], orgId: 'org-1', ipAllowlist: ['10.0.0.0/33'] }, 'user-1'),
+    ).rejects.toThrow('Invalid IP or CIDR: 10.0.0.0/33');
+  });
+
+  it('rejects revoked and expired keys', async () => {
+    await expect(setup(key({ revokedAt: new Date() })).service.authenticate('srx_x', '1.2.3.4'))
+      .rejects.toThrow(UnauthorizedException);
+    await expect(setup(key({ expiresAt: new Date(Date.now() - 1000) })).service.authenticate('srx_x', '1.2.3.4'))
+      .rejects.toThrow('API key has expired');
+  });
+
+  it('enforces the IP allowlist, including CIDR ranges and IPv4-mapped addresses', async () => {
+    const { service } = setup(key({ ipAllowlist: ['203.0.113.0/24', '2001:db8::1'] }));
+
+    await expect(service.authenticate('srx_x', '::ffff:203.0.113.7')).resolves.toMatchObject({ id: 'key-1' });
+    await expect(service.authenticate('srx_x', '2001:db8::1')).resolves.toMatchObject({ id: 'key-1' });
+    await expect(service.authenticate('srx_x', '198.51.100.1')).rejects.toThrow(
+      'API key is not allowed from this IP address',
+    );
+  });
+
+  it('records last use at most once a minute', async () => {
+    const fresh = setup(key({ lastUsedAt: new Date() }));
+    await fresh.service.authenticate('srx_x', '1.2.3.4');
+    expect(fresh.prisma.apiKey.update).not.toHaveBeenCalled();
+
+    const stale = setup(key({ lastUsedAt: new Date(Date.now() - 120_000) }));
+    await stale.service.authenticate('srx_x', '1.2.3.4');
+    expect(stale.prisma.apiKey.update).toHaveBeenCalledWith({
+      where: { id: 'key-1' },
+      data: { lastUsedAt: expect.any(Date), lastUsedIp: '1.2.3.4' },
+    });
+  });
+});
@@ -0,0 +1,262 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { createHash, randomBytes } from 'crypto';
+import { BlockList, isIP } from 'net';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditLogService, AuditAction } from '../audit-log/audit-log.service';
+import {
+  API_KEY_PREFIX,
+  API_KEY_SCOPES,
+  API_KEY_SCOPE_KEYS,
+  ApiKeyScopeName,
+} from './api-keys.constants';
+
+/** lastUsedAt is written at most once per minute per key. */
+const LAST_USED_INTERVAL_MS = 60_000;
+
+/** Attached to request.user (as `apiKey`) when a request authenticates with a key. */
+export interface ApiKeyPrincipal {
+  id: string;
+  name: string;
+  orgId: string;
+  /** Set for event-scoped keys; null = every event of the org. */
+  eventId: string | null;
+  scopes: ApiKeyScopeName[];
+}
+
+export interface CreateApiKeyInput {
+  name: string;
+  scopes: string[];
+  orgId?: string;
+  eventId?: string;
+  ipAllowlist?: string[];
+  expiresAt?: string;
+}
+
+const LIST_SELECT = {
+  id: true,
+  orgId: true,
+  eventId: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  ipAllowlist: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  lastUsedIp: true,
+  revokedAt: true,
+  createdBy: true,
+  createdAt: true,
+  event: { select: { name: true } },
+} as const;
+
+/**
+ * API keys for server-to-server integrations.
+ *
+ * A key is `srx_` followed by 32 random characters. Only its SHA-256 hash is
+ * stored, so a lost key cannot be recovered — revoke it and create a new one.
+ */
+@Injectable()
+export class ApiKeysService {
+  private readonly logger = new Logger(ApiKeysService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly audit: AuditLogService,
+  ) {}
+
+  getScopes() {
+    return API_KEY_SCOPE_KEYS.map((key) => ({ key, ...API_KEY_SCOPES[key] }));
+  }
+
+  async findAll(filter: { orgId?: string; eventId?: string } = {}) {
+    const keys = await this.prisma.apiKey.findMany({
+      where: {
+        ...(filter.orgId && { orgId: filter.orgId }),
+        ...(filter.eventId && { eventId: filter.eventId }),
+      },
+      select: LIST_SELECT,
+      orderBy: { createdAt: 'desc' },
+    });
+    return keys.map(({ event, ...key }) => ({ ...key, eventName: event?.name ?? null }));
+  }
+
+  /**
+   * Create a key. The plain key is part of the response and never again
+   * retrievable. Event-scoped keys take their org from the event.
+   */
+  async create(input: CreateApiKeyInput, actorUserId: string) {
+    const unknown = input.scopes.filter((s) => !(API_KEY_SCOPE_KEYS as string[]).includes(s));
+    if (input.scopes.length === 0 || unknown.length > 0) {
+      throw new BadRequestException(
+        unknown.length ? `Unknown scope(s): ${unknown.join(', ')}` : 'At least one scope is required',
+      );
+    }
+
+    let orgId = input.orgId;
+    if (input.eventId) {
+      const event = await this.prisma.event.findUnique({
+        where: { id: input.eventId },
+        select: { orgId: true },
+      });
+      if (!event) throw new NotFoundException(`Event ${input.eventId} not found`);
+      if (orgId && orgId !== event.orgId) {
+        throw new BadRequestException('Event does not belong to this organization');
+      }
+      orgId = event.orgId;
+    }
+    if (!orgId) {
+      throw new BadRequestException('An API key must be scoped to an organization or an event');
+    }
+
+    const ipAllowlist = (input.ipAllowlist ?? []).map((e) => e.trim()).filter(Boolean);
+    const invalid = ipAllowlist.filter((e) => !this.isValidAllowlistEntry(e));
+    if (invalid.length > 0) {
+      throw new BadRequestException(`Invalid IP or CIDR: ${invalid.join(', ')}`);
+    }
+
+    let expiresAt: Date | null = null;
+    if (input.expiresAt) {
+      expiresAt = new Date(input.expiresAt);
+      if (isNaN(expiresAt.getTime()) || expiresAt <= new Date()) {
+        throw new BadRequestException('expiresAt must be a future date');
+      }
+    }
+
+    const secret = API_KEY_PREFIX + randomBytes(24).toString('base64url');
+    const created = await this.prisma.apiKey.create({
+      data: {
+        orgId,
+        eventId: input.eventId ?? null,
+        name: input.name.trim(),
+        prefix: secret.slice(0, 12),
+        keyHash: this.hash(secret),
+        scopes: [...new Set(input.scopes)],
+        ipAllowlist: ipAllowlist.length ? ipAllowlist : undefined,
+        expiresAt,
+        createdBy: actorUserId,
+      },
+      select: LIST_SELECT,
+    });
+
+    this.audit.log({
+      eventId: created.eventId ?? undefined,
+      userId: actorUserId,
+      action: AuditAction.API_KEY_CREATED,
+      entity: 'api_key',
+      entityId: created.id,
+      detail: { name: created.name, scopes: created.scopes, orgId },
+    });
+    this.logger.log(`API key "${created.name}" (${created.prefix}…) created`);
+
+    const { event, ...key } = created;
+    return { ...key, eventName: event?.name ?? null, secret };
+  }
+
+  /**
+   * Revoke a key. Revoked keys stay listed so their history remains visible.
+   * With `orgId`, keys of other organizations are treated as not found.
+   */
+  async revoke(id: string, actorUserId: string, orgId?: string) {
+    const key = await this.prisma.apiKey.findFirst({
+      where: { id, ...(orgId && { orgId }) },
+      select: LIST_SELECT,
+    });
+    if (!key) throw new NotFoundException(`API key ${id} not found`);
+    if (key.revokedAt) return { success: true };
+
+    await this.prisma.apiKey.update({ where: { id }, data: { revokedAt: new Date() } });
+
+    this.audit.log({
+      eventId: key.eventId ?? undefined,
+      userId: actorUserId,
+      action: AuditAction.API_KEY_REVOKED,
+      entity: 'api_key',
+      entityId: id,
+      detail: { name: key.name },
+    });
+
+    return { success: true };
+  }
+
+  /**
+   * Resolve a raw key from a request. Throws 401 for unknown, revoked or
+   * expired keys and for callers outside the key's IP allowlist.
+   */
+  async authenticate(rawKey: string, ip: string | undefined): Promise<ApiKeyPrincipal> {
+    const key = await this.prisma.apiKey.findUnique({ where: { keyHash: this.hash(rawKey) } });
+    if (!key || key.revokedAt) {
+      throw new UnauthorizedException('Invalid API key');
+    }
+    if (key.expiresAt && key.expiresAt <= new Date()) {
+      throw new UnauthorizedException('API key has expired');
+    }
+
+    const allowlist = this.stringList(key.ipAllowlist);
+    if (allowlist.length > 0 && (!ip || !this.ipAllowed(allowlist, ip))) {
+      this.logger.warn(`API key ${key.prefix}… used from non-allowlisted IP ${ip}`);
+      throw new UnauthorizedException('API key is not allowed from this IP address');
+    }
+
+    if (!key.lastUsedAt || Date.now() - key.lastUsedAt.getTime() > LAST_USED_INTERVAL_MS) {
+      this.prisma.apiKey
+        .update({ where: { id: key.id }, data: { lastUsedAt: new Date(), lastUsedIp: ip ?? null } })
+        .catch((err) => this.logger.warn(`Failed to record API key usage: ${err}`));
+    }
+
+    return {
+      id: key.id,
+      name: key.name,
+      orgId: key.orgId,
+      eventId: key.eventId,
+      scopes: this.stringList(key.scopes) as ApiKeyScopeName[],
+    };
+  }
+
+  /** Whether the key may act on the given event (same event, or an event of its org). */
+  async coversEvent(key: ApiKeyPrincipal, eventId: string): Promise<boolean> {
+    if (key.eventId) return key.eventId === eventId;
+    const event = await this.prisma.event.findUnique({
+      where: { id: eventId },
+      select: { orgId: true },
+    });
+    return event?.orgId === key.orgId;
+  }
+
+  // ─── Internals ────────────────────────────────────────────────
+
+  private hash(rawKey: string): string {
+    return createHash('sha256').update(rawKey).digest('hex');
+  }
+
+  private stringList(value: unknown): string[] {
+    return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+  }
+
+  private isValidAllowlistEntry(entry: string): boolean {
+    const [addr, bits, ...rest] = entry.split('/');
+    const version = isIP(addr);
+    if (!version || rest.length > 0) return false;
+    if (bits === undefined) return true;
+    const n = Number(bits);
+    return Number.isInteger(n) && n >= 0 && n <= (version === 4 ? 32 : 128);
+  }
+
+  private ipAllowed(allowlist: string[], ip: string): boolean {
+    // Fastify reports IPv4 clients on dual-stack sockets as ::ffff:a.b.c.d
+    const addr = ip.startsWith('::ffff:') && isIP(ip.slice(7)) === 4 ? ip.slice(7) : ip;
+    const list = new BlockList();
+    for (const entry of allowlist) {
+      const [net, bits] = entry.split('/');
+      const type = isIP(net) === 6 ? 'ipv6' : 'ipv4';
+      if (bits === undefined) list.addAddress(net, type);
+      else list.addSubnet(net, Number(bits), type);
+    }
+    return list.check(addr, isIP(addr) === 6 ? 'ipv6' : 'ipv4');
+  }
+}
@@ -8,12 +8,18 @@ import { EventsModule } from './events/events.module';
 import { TicketTypesModule } from './ticket-types/ticket-types.module';
 import { OrdersModule } from './orders/orders.module';
 import { AttendeesModule } from './attendees/attendees.module';
+import { AttendeeImportsModule } from './attendee-imports/attendee-imports.module';
 import { HealthModule } from './health/health.module';
 import { PaymentsModule } from './payments/payments.module';
 import { SseModule } from './sse/sse.module';
 import { TicketsModule } from './tickets/tickets.module';
+import { TicketHoldsModule } from './ticket-holds/ticket-holds.module';
+import { WaitlistModule } from './waitlist/waitlist.module';
 import { CheckInsModule } from './check-ins/check-ins.module';
+import { AccessZonesModule } from './access-zones/access-zones.module';
 import { AuditLogModule } from './audit-log/audit-log.module';
+import { PermissionsModule } from './permissions/permissions.module';
+import { ApiKeysModule } from './api-keys/api-keys.module';
 import { EmailModule } from './email/email.module';
 import { EmailLogModule } from './email-log/email-log.module';
 import { FormsModule } from './forms/forms.module';
@@ -30,12 +36,14 @@ import { FieldRepositoryModule } from './field-repository/field-repository.modul
 import { FormTemplatesModule } from './form-templates/form-templates.module';
 import { AnalyticsModule } from './analytics/analytics.module';
 import { FunnelModule } from './funnel/funnel.module';
+import { FormDraftsModule } from './form-drafts/form-drafts.module';
 import { SystemModule } from './system/system.module';
 import { ContactModule } from './contact/contact.module';
 import { ExhibitorPortalModule } from './exhibitor-portal/exhibitor-portal.module';
 import { MembershipPartnersModule } from './membership-partners/membership-partners.module';
 import { LogisticsModule } from './logistics/logistics.module';
 import { CompEntriesModule } from './comp-entries/comp-entries.module';
+import { BoxOfficeModule } from './box-office/box-office.module';
 import { AdminResetModule } from './admin-reset/admin-reset.module';
 import { RateLimitGuard } from './common/guards/rate-limit.guard';
 import { join } from 'path';
@@ -59,6 +67,8 @@ import { join } from 'path';
 
     // Global modules (available everywhere without explicit import)
     AuditLogModule,
+    PermissionsModule,
+    ApiKeysModule,
 
     // Core modules — Phase 1
     AuthModule,
@@ -68,12 +78,24 @@ import { join } from 'path';
     OrdersModule,
     AttendeesModule,
 
+    // Attendee imports — bulk CSV/XLSX lists with dry run (background job)
+    AttendeeImportsModule,
+
     // Tickets — issuance, QR codes, management
     TicketsModule,
 
+    // Ticket holds — inventory reserved by pending orders, expiry sweep
+    TicketHoldsModule,
+
+    // Waitlist — sold-out queues, offers, expiry/promotion sweep
+    WaitlistModule,
+
     // Check-ins — QR validation, recording, offline sync
     CheckInsModule,
 
+    // Access zones — gated areas per event, checked at zone scanners
+    AccessZonesModule,
+
     // Payments — Stripe Checkout
     PaymentsModule,
 
@@ -120,6 +142,9 @@ import { join } from 'path';
     // Form templates — reusable form configurations per Organization
     FormTemplatesModule,
 
+    // Form drafts — save-and-resume for registration and checkout (daily purge)
+    FormDraftsModule,
+
     // Analytics — time-series aggregation for line graphs
     AnalyticsModule,
 
@@ -144,6 +169,9 @@ import { join } from 'path';
     // Comp entries — staff, volunteers, partners, sponsors (complimentary tickets)
     CompEntriesModule,
 
+    // Box office — on-site walk-in sales and cash drawer reconciliation
+    BoxOfficeModule,
+
     // Admin reset — owner-only "clean slate before go-live" data wipe
     AdminResetModule,
   ],
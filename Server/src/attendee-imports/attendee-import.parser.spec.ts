@@ -0,0 +1,101 @@
+import * as ExcelJS from 'exceljs';
+import type { FormField } from '../forms/forms.service';
+import { parseSheet, suggestMapping, validateMapping, checkRows } from './attendee-import.parser';
+
+describe('attendee import parser', () => {
+  const fields = [
+    {
+      id: 'sector', type: 'select', label: { en: 'Sector' },
+      options: [{ value: 'research', label: { en: 'Research', de: 'Forschung' } }, { value: 'industry', label: { en: 'Industry' } }],
+    },
+    { id: 'topics', type: 'multi-select', label: { en: 'Topics' }, options: [{ value: 'ai', label: { en: 'AI' } }] },
+    { id: 'cv', type: 'file', label: { en: 'CV' } },
+  ] as FormField[];
+
+  it('reads semicolon CSV as text and skips blank rows', async () => {
+    const csv = '\uFEFFE-Mail;Vorname;Nachname;Phone\n' +
+      'ada@example.ch;Ada;Lovelace;0041791234567\n' +
+      ';;;\n' +
+      '"grace@example.ch";"Grace";"Hopper; Jr.";\n';
+
+    const sheet = await parseSheet(Buffer.from(csv), 'speakers.csv');
+
+    expect(sheet.columns).toEqual(['E-Mail', 'Vorname', 'Nachname', 'Phone']);
+    expect(sheet.rows).toEqual([
+      { row: 2, values: { 'E-Mail': 'ada@example.ch', Vorname: 'Ada', Nachname: 'Lovelace', Phone: '0041791234567' } },
+      { row: 4, values: { 'E-Mail': 'grace@example.ch', Vorname: 'Grace', Nachname: 'Hopper; Jr.', Phone: '' } },
+    ]);
+  });
+
+  it('reads XLSX hyperlink and date cells', async () => {
+    const workbook = new ExcelJS.Workbook();
+    const ws = workbook.addWorksheet('List');
+    ws.addRow(['Email', 'First Name', 'Last Name', 'Arrival']);
+    ws.addRow([
+      { text: 'ada@example.ch', hyperlink: 'mailto:ada@example.ch' }, 'Ada', 'Lovelace', new Date('2026-11-12T00:00:00Z'),
+    ]);
+    const buffer = Buffer.from(await workbook.xlsx.writeBuffer());
+
+    const sheet = await parseSheet(buffer, 'list.XLSX');
+
+    expect(sheet.rows[0].values).toEqual({
+      Email: 'ada@example.ch', 'First Name': 'Ada', 'Last Name': 'Lovelace', Arrival: '2026-11-12',
+    });
+  });
+
+  it('suggests core and form field targets from the headers', () => {
+    expect(suggestMapping(['E-Mail', 'Prénom', 'Last Name', 'Sector', 'CV', 'Notes'], fields)).toEqual({
+      'E-Mail': 'email', Prénom: 'firstName', 'Last Name': 'lastName', Sector: 'form:sector',
+    });
+  });
+
+  it('requires the name and email columns and known form fields', () => {
+    const columns = ['Email', 'First', 'Last', 'CV'];
+    expect(() => validateMapping({ Email: 'email', First: 'firstName' }, columns, fields)).toThrow(/Last name/);
+    expect(() =>
+      validateMapping({ Email: 'email', First: 'firstName', Last: 'lastName', CV: 'form:cv' }, columns, fields),
+    ).toThrow(/cannot be imported/);
+    expect(validateMapping({ Email: 'email', First: 'firstName', Last: 'lastName', CV: '' }, columns, fields)).toEqual({
+      Email: 'email', First: 'firstName', Last: 'lastName',
+    });
+  });
+
+  it('reports every problem per row and keeps the valid rows', () => {
+    const mapping = { Email: 'email', First: 'firstName', Last: 'lastName', Sector: 'form:sector', Topics: 'form:topics', Tags: 'tags' };
+    const row = (n: number, Email: string, First = 'A', Last = 'B', Sector = '', Topics = '', Tags = '') => ({
+      row: n, values: { Email, First, Last, Sector, Topics, Tags },
+    });
+
+    const result = checkRows(
+      [
+        row(2, 'Ada@Example.ch', 'Ada', 'Lovelace', 'forschung', 'AI', 'speaker; vip'),
+        row(3, 'not-an-email', '', 'X'),
+        row(4, 'ada@example.ch'),
+        row(5, 'taken@example.ch'),
+        row(6, 'new@example.ch', 'N', 'N', 'Space', 'AI; Space'),
+      ],
+      mapping,
+      { fields, existingEmails: new Set(['taken@example.ch']) },
+    );
+
+    expect(result.valid).toEqual([
+      {
+        row: 2,
+        attendee: {
+          email: 'ada@example.ch', firstName: 'Ada', lastName: 'Lovelace', tags: ['speaker', 'vip'],
+          answers: { sector: 'research', topics: ['ai'] },
+        },
+      },
+    ]);
+    expect(result.issues).toEqual([
+      { row: 3, email: 'not-an-email', errors: ['"not-an-email" is not a valid email address', 'First name is missing'] },
+      { row: 4, email: 'ada@example.ch', errors: ['Duplicate of row 2'] },
+      { row: 5, email: 'taken@example.ch', errors: ['Already registered for this event'] },
+      {
+        row: 6,
+        email: 'new@example.ch',
+        errors: ['Sector: "Space" is not one of the options', 'Topics: "Space" is not among the options'],
+      },
+    ]);
+  });
+});
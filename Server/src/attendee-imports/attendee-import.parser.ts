@@ -0,0 +1,375 @@
+import * as ExcelJS from 'exceljs';
+import { Readable } from 'stream';
+import type { FormField, FieldType } from '../forms/forms.service';
+
+/** Largest file (data rows) a single import accepts. */
+export const MAX_IMPORT_ROWS = 5000;
+
+/**
+ * Core Attendee columns a spreadsheet column can map onto, with their
+ * database length limits. `tags` holds a `;`/`,` separated list.
+ */
+export const CORE_TARGETS = {
+  email: { label: 'Email', max: 255 },
+  firstName: { label: 'First name', max: 100 },
+  lastName: { label: 'Last name', max: 100 },
+  phone: { label: 'Phone', max: 50 },
+  company: { label: 'Company', max: 255 },
+  badgeName: { label: 'Badge name', max: 100 },
+  jobTitle: { label: 'Job title', max: 150 },
+  orgRole: { label: 'Role', max: 100 },
+  dietaryNeeds: { label: 'Dietary needs', max: 255 },
+  accessibilityNeeds: { label: 'Accessibility needs', max: 255 },
+  tags: { label: 'Tags', max: 50 },
+} as const;
+
+export type CoreTarget = keyof typeof CORE_TARGETS;
+
+/** Form fields that can take an imported value — no uploads, consents or layout. */
+const IMPORTABLE_FIELD_TYPES: readonly FieldType[] = [
+  'text', 'email', 'phone', 'url', 'textarea', 'number', 'date', 'country', 'canton',
+  'select', 'radio', 'multi-select', 'checkbox', 'yes-no',
+];
+
+/** Prefix of mapping targets that write into the FormSubmission. */
+export const FORM_TARGET_PREFIX = 'form:';
+
+/** Column header → `email` | `firstName` | … | `form:<fieldId>`. Unmapped columns are ignored. */
+export type ImportMapping = Record<string, string>;
+
+export interface SheetRow {
+  /** Spreadsheet row number (the header is row 1) */
+  row: number;
+  values: Record<string, string>;
+}
+
+export interface ParsedSheet {
+  columns: string[];
+  rows: SheetRow[];
+}
+
+export interface ImportedAttendee {
+  email: string;
+  firstName: string;
+  lastName: string;
+  phone?: string;
+  company?: string;
+  badgeName?: string;
+  jobTitle?: string;
+  orgRole?: string;
+  dietaryNeeds?: string;
+  accessibilityNeeds?: string;
+  tags: string[];
+  /** FormSubmission answers keyed by field id */
+  answers: Record<string, unknown>;
+}
+
+export interface RowIssue {
+  row: number;
+  email?: string;
+  errors: string[];
+}
+
+export interface RowCheck {
+  valid: Array<{ row: number; attendee: ImportedAttendee }>;
+  issues: RowIssue[];
+}
+
+export function isImportableField(field: FormField): boolean {
+  return IMPORTABLE_FIELD_TYPES.includes(field.type);
+}
+
+// ─── Parsing ──────────────────────────────────────────────────
+
+/**
+ * Read the first worksheet of an XLSX or CSV file into header + rows.
+ * Every value is kept as text — phone numbers like `0041…` must not turn
+ * into numbers. Blank rows are dropped.
+ */
+export async function parseSheet(buffer: Buffer, fileName: string): Promise<ParsedSheet> {
+  const ext = fileName.toLowerCase().split('.').pop();
+  const workbook = new ExcelJS.Workbook();
+  let sheet: ExcelJS.Worksheet | undefined;
+
+  if (ext === 'xlsx') {
+    await workbook.xlsx.load(buffer as any);
+    sheet = workbook.worksheets[0];
+  } else if (ext === 'csv') {
+    const text = buffer.toString('utf8').replace(/^\uFEFF/, '');
+    sheet = await workbook.csv.read(Readable.from([text]), {
+      map: (value: unknown) => value,
+      parserOptions: { delimiter: detectDelimiter(text) },
+    });
+  } else {
+    throw new Error('Only .csv and .xlsx files can be imported');
+  }
+  if (!sheet || sheet.rowCount < 1) {
+    throw new Error('The file is empty');
+  }
+
+  // Column index → header, skipping unnamed columns
+  const headers = new Map<number, string>();
+  sheet.getRow(1).eachCell({ includeEmpty: false }, (cell, col) => {
+    const header = cellText(cell.value);
+    if (!header) return;
+    if ([...headers.values()].includes(header)) {
+      throw new Error(`Column "${header}" appears more than once`);
+    }
+    headers.set(col, header);
+  });
+  if (headers.size === 0) {
+    throw new Error('The first row must contain column headers');
+  }
+
+  const rows: SheetRow[] = [];
+  for (let r = 2; r <= sheet.rowCount; r++) {
+    const row = sheet.getRow(r);
+    const values: Record<string, string> = {};
+    let blank = true;
+    for (const [col, header] of headers) {
+      const text = cellText(row.getCell(col).value);
+      values[header] = text;
+      if (text) blank = false;
+    }
+    if (blank) continue;
+    rows.push({ row: r, values });
+    if (rows.length > MAX_IMPORT_ROWS) {
+      throw new Error(`Files are limited to ${MAX_IMPORT_ROWS} rows — split the list`);
+    }
+  }
+  if (rows.length === 0) {
+    throw new Error('The file has no data rows');
+  }
+
+  return { columns: [...headers.values()], rows };
+}
+
+/** European spreadsheet apps export CSV with semicolons. */
+function detectDelimiter(text: string): string {
+  const header = text.split(/\r?\n/, 1)[0];
+  const count = (sep: string) => header.split(sep).length - 1;
+  return [';', '\t', ','].reduce((best, sep) => (count(sep) > count(best) ? sep : best), ',');
+}
+
+function cellText(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) {
+    // Date-only cells come back as midnight UTC
+    const iso = value.toISOString();
+    return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso;
+  }
+  if (typeof value === 'object') {
+    if ('richText' in value) return value.richText.map((t) => t.text).join('').trim();
+    // Hyperlink cells — mail addresses in Excel usually are
+    if ('text' in value) return cellText(value.text as ExcelJS.CellValue);
+    if ('result' in value) return cellText((value.result ?? null) as ExcelJS.CellValue);
+    if ('error' in value) return '';
+  }
+  return String(value).trim();
+}
+
+// ─── Mapping ──────────────────────────────────────────────────
+
+const CORE_ALIASES: Record<CoreTarget, string[]> = {
+  email: ['email', 'emailaddress', 'mail', 'courriel'],
+  firstName: ['firstname', 'first', 'givenname', 'vorname', 'prenom', 'nome'],
+  lastName: ['lastname', 'last', 'surname', 'familyname', 'nachname', 'nom', 'cognome'],
+  phone: ['phone', 'telephone', 'telefon', 'mobile', 'tel'],
+  company: ['company', 'organization', 'organisation', 'firma', 'entreprise', 'azienda'],
+  badgeName: ['badgename'],
+  jobTitle: ['jobtitle', 'title', 'position', 'funktion'],
+  orgRole: ['role', 'orgrole'],
+  dietaryNeeds: ['dietaryneeds', 'dietary', 'diet'],
+  accessibilityNeeds: ['accessibilityneeds', 'accessibility'],
+  tags: ['tags'],
+};
+
+const normalize = (s: string) =>
+  s.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Best-guess mapping from the column headers — our own attendee export,
+ * common aliases, and form field ids or English labels.
+ */
+export function suggestMapping(columns: string[], fields: FormField[]): ImportMapping {
+  const mapping: ImportMapping = {};
+  const taken = new Set<string>();
+
+  for (const column of columns) {
+    const key = normalize(column);
+    const core = (Object.keys(CORE_ALIASES) as CoreTarget[]).find((t) => CORE_ALIASES[t].includes(key));
+    const field = core
+      ? undefined
+      : fields.find((f) => isImportableField(f) && (normalize(f.id) === key || normalize(f.label?.en ?? '') === key));
+    const target = core ?? (field ? `${FORM_TARGET_PREFIX}${field.id}` : undefined);
+    if (target && !taken.has(target)) {
+      mapping[column] = target;
+      taken.add(target);
+    }
+  }
+  return mapping;
+}
+
+/**
+ * Reject mappings that name unknown columns or targets, or miss a required
+ * one. Returns the mapping without its unmapped columns.
+ */
+export function validateMapping(mapping: ImportMapping, columns: string[], fields: FormField[]): ImportMapping {
+  const clean: ImportMapping = {};
+  const targets = new Set<string>();
+  for (const [column, target] of Object.entries(mapping)) {
+    if (target === '' || target === null || target === undefined) continue;
+    if (typeof target !== 'string') {
+      throw new Error(`Mapping of column "${column}" must be a string`);
+    }
+    if (!columns.includes(column)) {
+      throw new Error(`Column "${column}" is not in the file`);
+    }
+    if (target.startsWith(FORM_TARGET_PREFIX)) {
+      const id = target.slice(FORM_TARGET_PREFIX.length);
+      const field = fields.find((f) => f.id === id);
+      if (!field) throw new Error(`Form field "${id}" does not exist in the selected form`);
+      if (!isImportableField(field)) throw new Error(`Form field "${id}" (${field.type}) cannot be imported`);
+    } else if (!(target in CORE_TARGETS)) {
+      throw new Error(`Unknown import target "${target}"`);
+    }
+    if (targets.has(target)) {
+      throw new Error(`"${target}" is mapped from more than one column`);
+    }
+    targets.add(target);
+    clean[column] = target;
+  }
+  for (const required of ['email', 'firstName', 'lastName'] as const) {
+    if (!targets.has(required)) {
+      throw new Error(`Map a column to ${CORE_TARGETS[required].label}`);
+    }
+  }
+  return clean;
+}
+
+// ─── Row checks ───────────────────────────────────────────────
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Map and validate every row against a mapping checked by
+ * `validateMapping`. Rows with problems are reported with all their errors
+ * at once; the rest are ready to import. Emails are compared
+ * case-insensitively, both within the file and against `existingEmails`.
+ */
+export function checkRows(
+  rows: SheetRow[],
+  mapping: ImportMapping,
+  context: {
+    fields: FormField[];
+    /** Lower-cased emails already registered for the event */
+    existingEmails: Set<string>;
+    /** Comp types for partners and sponsors need an organization */
+    requireCompany?: boolean;
+  },
+): RowCheck {
+  const result: RowCheck = { valid: [], issues: [] };
+  const seen = new Map<string, number>();
+  const fieldsById = new Map(context.fields.map((f) => [f.id, f]));
+  const entries = Object.entries(mapping);
+
+  for (const { row, values } of rows) {
+    const errors: string[] = [];
+    const attendee: ImportedAttendee = { email: '', firstName: '', lastName: '', tags: [], answers: {} };
+
+    for (const [column, target] of entries) {
+      const raw = values[column] ?? '';
+      if (target.startsWith(FORM_TARGET_PREFIX)) {
+        const field = fieldsById.get(target.slice(FORM_TARGET_PREFIX.length))!;
+        if (!raw) continue;
+        const answer = coerceAnswer(field, raw);
+        if ('error' in answer) errors.push(answer.error);
+        else attendee.answers[field.id] = answer.value;
+      } else if (target === 'tags') {
+        attendee.tags = [...new Set(splitList(raw))];
+        if (attendee.tags.some((t) => t.length > CORE_TARGETS.tags.max)) {
+          errors.push(`Tags are limited to ${CORE_TARGETS.tags.max} characters each`);
+        }
+      } else {
+        const { label, max } = CORE_TARGETS[target as CoreTarget];
+        if (raw.length > max) errors.push(`${label} is too long (max ${max} characters)`);
+        else if (raw) (attendee as unknown as Record<string, string>)[target] = raw;
+      }
+    }
+
+    attendee.email = attendee.email.toLowerCase();
+    if (!attendee.email) errors.push('Email is missing');
+    else if (!EMAIL_RE.test(attendee.email)) errors.push(`"${attendee.email}" is not a valid email address`);
+    if (!attendee.firstName) errors.push('First name is missing');
+    if (!attendee.lastName) errors.push('Last name is missing');
+    if (context.requireCompany && !attendee.company) errors.push('Company is required for this comp type');
+
+    if (attendee.email) {
+      const firstRow = seen.get(attendee.email);
+      if (firstRow !== undefined) errors.push(`Duplicate of row ${firstRow}`);
+      else seen.set(attendee.email, row);
+      if (context.existingEmails.has(attendee.email)) errors.push('Already registered for this event');
+    }
+
+    if (errors.length > 0) {
+      result.issues.push({ row, ...(attendee.email && { email: attendee.email }), errors });
+    } else {
+      result.valid.push({ row, attendee });
+    }
+  }
+  return result;
+}
+
+function splitList(raw: string): string[] {
+  return raw.split(/[;,]/).map((v) => v.trim()).filter(Boolean);
+}
+
+/** Spreadsheet text → the value the registration form would have stored. */
+function coerceAnswer(field: FormField, raw: string): { value: unknown } | { error: string } {
+  const name = field.label?.en || field.id;
+  const option = (text: string) =>
+    field.options?.find(
+      (o) => o.value.toLowerCase() === text.toLowerCase() ||
+        Object.values(o.label ?? {}).some((l) => l.toLowerCase() === text.toLowerCase()),
+    )?.value;
+
+  switch (field.type) {
+    case 'number': {
+      const n = Number(raw.replace(/['’\s]/g, ''));
+      return Number.isFinite(n) ? { value: n } : { error: `${name}: "${raw}" is not a number` };
+    }
+    case 'date':
+      return /^\d{4}-\d{2}-\d{2}/.test(raw)
+        ? { value: raw.slice(0, 10) }
+        : { error: `${name}: "${raw}" is not a date (YYYY-MM-DD)` };
+    case 'email':
+      return EMAIL_RE.test(raw) ? { value: raw } : { error: `${name}: "${raw}" is not a valid email address` };
+    case 'yes-no': {
+      const yes = ['yes', 'y', 'true', '1', 'ja', 'oui', 'si', 'sì', 'x'].includes(raw.toLowerCase());
+      const no = ['no', 'n', 'false', '0', 'nein', 'non'].includes(raw.toLowerCase());
+      return yes || no ? { value: yes ? 'yes' : 'no' } : { error: `${name}: "${raw}" is not yes or no` };
+    }
+    case 'select':
+    case 'radio':
+    case 'country':
+    case 'canton': {
+      if (!field.options?.length) return { value: raw };
+      const value = option(raw);
+      return value !== undefined ? { value } : { error: `${name}: "${raw}" is not one of the options` };
+    }
+    case 'multi-select':
+    case 'checkbox': {
+      if (field.type === 'checkbox' && !field.options?.length) {
+        const answer = coerceAnswer({ ...field, type: 'yes-no' }, raw);
+        return 'value' in answer ? { value: answer.value === 'yes' } : answer;
+      }
+      const values = splitList(raw).map((v) => ({ raw: v, value: field.options?.length ? option(v) : v }));
+      const unknown = values.filter((v) => v.value === undefined).map((v) => `"${v.raw}"`);
+      return unknown.length
+        ? { error: `${name}: ${unknown.join(', ')} ${unknown.length > 1 ? 'are' : 'is'} not among the options` }
+        : { value: values.map((v) => v.value) };
+    }
+    default:
+      return { value: raw };
+  }
+}
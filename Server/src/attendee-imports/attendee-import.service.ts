@@ -0,0 +1,458 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, unlinkSync, writeFileSync } from 'fs';
+import { join, resolve } from 'path';
+import type { AttendeeImport } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { QueueService } from '../queue/queue.service';
+import { AuditLogService, AuditAction } from '../audit-log/audit-log.service';
+import { AttendeesService } from '../attendees/attendees.service';
+import { FormsService, type FormField, type FormSchemaDefinition } from '../forms/forms.service';
+import {
+  CompEntriesService,
+  COMP_TYPES,
+  ORG_REQUIRED_TYPES,
+  type CompType,
+} from '../comp-entries/comp-entries.service';
+import {
+  parseSheet,
+  suggestMapping,
+  validateMapping,
+  checkRows,
+  FORM_TARGET_PREFIX,
+  type ImportMapping,
+  type ImportedAttendee,
+  type ParsedSheet,
+  type RowIssue,
+} from './attendee-import.parser';
+
+/** Uploaded lists are personal data — kept out of the publicly served uploads/. */
+const STORAGE_DIR = resolve(__dirname, '..', '..', 'storage');
+
+/** Persist progress every N rows (the dashboard polls it). */
+const PROGRESS_EVERY = 10;
+
+/** Problem rows kept on the import (the counts stay exact beyond it). */
+const MAX_STORED_ISSUES = 1000;
+
+/** Valid rows shown in a dry-run preview. */
+const PREVIEW_SAMPLE = 10;
+
+export interface AttendeeImportOptions {
+  /** Form schema that mapped `form:<fieldId>` columns are saved against */
+  formSchemaId?: string | null;
+  /** Issue a complimentary ticket of this type to every imported attendee */
+  compType?: CompType | null;
+  /** Send the comp invitation email with the registration link */
+  sendInvitations?: boolean;
+}
+
+export interface AttendeeImportPreview {
+  total: number;
+  valid: number;
+  invalid: number;
+  issues: RowIssue[];
+  sample: Array<{ row: number } & ImportedAttendee>;
+}
+
+/**
+ * Attendee Import Service — bulk-creates attendees from a CSV/XLSX list
+ * (speakers, partner delegations, legacy registrations).
+ *
+ * Lifecycle: uploaded → queued → running → completed | failed
+ *
+ * The upload is parsed and stored, the admin maps its columns onto
+ * attendee and form fields and can dry-run the mapping to see every row
+ * that would be skipped. Starting the import queues an `import.attendees`
+ * job on the 'import' queue, processed inline without Redis like badge
+ * batches. Invalid rows are skipped and reported; the rest are imported.
+ */
+@Injectable()
+export class AttendeeImportService implements OnModuleInit {
+  private readonly logger = new Logger(AttendeeImportService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly queue: QueueService,
+    private readonly audit: AuditLogService,
+    private readonly attendees: AttendeesService,
+    private readonly forms: FormsService,
+    private readonly compEntries: CompEntriesService,
+  ) {}
+
+  async onModuleInit() {
+    if (!this.queue.isAvailable()) {
+      this.logger.debug('Queue not available — attendee imports run inline');
+      // Inline imports die with the process — the file is still there to retry
+      const { count } = await this.prisma.attendeeImport.updateMany({
+        where: { status: { in: ['queued', 'running'] } },
+        data: { status: 'failed', error: 'Interrupted by server restart', completedAt: new Date() },
+      });
+      if (count > 0) this.logger.warn(`Marked ${count} interrupted attendee import(s) as failed`);
+      return;
+    }
+
+    await this.queue.registerWorker(
+      'import',
+      async (job) => {
+        if (job.name === 'import.attendees') {
+          await this.process((job.data as { importId: string }).importId);
+        } else {
+          this.logger.warn(`Unknown import job: ${job.name}`);
+        }
+      },
+      1,
+    );
+  }
+
+  // ─── Imports ──────────────────────────────────────────────────
+
+  /**
+   * Store an uploaded file and read its header. The returned import
+   * carries a suggested mapping and the first rows for the mapping step.
+   */
+  async upload(
+    eventId: string,
+    file: { buffer: Buffer; originalName: string },
+    userId?: string,
+  ) {
+    const event = await this.prisma.event.findUnique({ where: { id: eventId }, select: { id: true } });
+    if (!event) throw new NotFoundException(`Event ${eventId} not found`);
+
+    const sheet = await this.parse(file.buffer, file.originalName);
+
+    const id = randomUUID();
+    const ext = file.originalName.toLowerCase().endsWith('.xlsx') ? 'xlsx' : 'csv';
+    const storagePath = `attendee-imports/${eventId}/${id}.${ext}`;
+    mkdirSync(join(STORAGE_DIR, 'attendee-imports', eventId), { recursive: true });
+    writeFileSync(join(STORAGE_DIR, storagePath), file.buffer);
+
+    const schema = await this.forms.findFallbackSchemaForEvent(eventId);
+    const fields = schema ? (schema.fields as unknown as FormSchemaDefinition).fields ?? [] : [];
+    const mapping = suggestMapping(sheet.columns, fields);
+    const mapsFormFields = Object.values(mapping).some((t) => t.startsWith(FORM_TARGET_PREFIX));
+
+    const created = await this.prisma.attendeeImport.create({
+      data: {
+        id,
+        eventId,
+        fileName: file.originalName.slice(0, 255),
+        storagePath,
+        columns: sheet.columns,
+        mapping,
+        options: { formSchemaId: mapsFormFields ? schema!.id : null, compType: null, sendInvitations: false },
+        total: sheet.rows.length,
+        requestedBy: userId ?? null,
+      },
+    });
+
+    this.logger.log(`Attendee import ${id} uploaded: ${file.originalName}, ${sheet.rows.length} row(s)`);
+    return { ...created, sample: sheet.rows.slice(0, 5).map((r) => r.values) };
+  }
+
+  /**
+   * Dry run: apply the mapping to every row and report what would be
+   * skipped, without writing attendees. The mapping and options are kept
+   * on the import for the next visit.
+   */
+  async preview(
+    id: string,
+    eventId: string,
+    data: { mapping: ImportMapping; options: AttendeeImportOptions },
+  ): Promise<AttendeeImportPreview> {
+    const job = await this.findOne(id, eventId);
+    this.assertEditable(job);
+    const options = await this.validateOptions(eventId, data.options);
+    const { mapping, valid, issues } = await this.check(job, data.mapping, options);
+
+    await this.prisma.attendeeImport.update({
+      where: { id },
+      data: { mapping, options: options as any },
+    });
+
+    return {
+      total: valid.length + issues.length,
+      valid: valid.length,
+      invalid: issues.length,
+      issues,
+      sample: valid.slice(0, PREVIEW_SAMPLE).map(({ row, attendee }) => ({ row, ...attendee })),
+    };
+  }
+
+  /** Queue the import. Returns the queued import; poll it for progress. */
+  async start(
+    id: string,
+    eventId: string,
+    data: { mapping: ImportMapping; options: AttendeeImportOptions },
+    userId?: string,
+  ) {
+    const job = await this.findOne(id, eventId);
+    this.assertEditable(job);
+    const options = await this.validateOptions(eventId, data.options);
+    const { mapping, valid } = await this.check(job, data.mapping, options);
+    if (valid.length === 0) {
+      throw new BadRequestException('No row can be imported — check the preview for the errors');
+    }
+
+    const queued = await this.prisma.attendeeImport.update({
+      where: { id },
+      data: {
+        status: 'queued',
+        mapping,
+        options: options as any,
+        done: 0,
+        created: 0,
+        skipped: 0,
+        issues: [],
+        error: null,
+        requestedBy: userId ?? job.requestedBy,
+      },
+    });
+
+    this.audit.log({
+      eventId,
+      userId,
+      action: AuditAction.ATTENDEE_IMPORT_STARTED,
+      entity: 'attendee_import',
+      entityId: id,
+      detail: { fileName: job.fileName, rows: job.total, compType: options.compType, sendInvitations: options.sendInvitations },
+    });
+
+    const jobId = await this.queue.addJob('import.attendees', { importId: id, eventId });
+    if (!jobId) {
+      this.process(id).catch((err) =>
+        this.logger.error(`Inline attendee import ${id} crashed: ${err}`),
+      );
+    }
+
+    this.logger.log(`Attendee import ${id} queued: ${valid.length} row(s)${jobId ? '' : ' (inline)'}`);
+    return queued;
+  }
+
+  async findByEvent(eventId: string) {
+    return this.prisma.attendeeImport.findMany({
+      where: { eventId },
+      orderBy: { createdAt: 'desc' },
+      take: 50,
+    });
+  }
+
+  async findOne(id: string, eventId: string) {
+    const job = await this.prisma.attendeeImport.findFirst({ where: { id, eventId } });
+    if (!job) throw new NotFoundException(`Attendee import ${id} not found`);
+    return job;
+  }
+
+  /** Discard an import and its file. Imported attendees stay. */
+  async remove(id: string, eventId: string) {
+    const job = await this.findOne(id, eventId);
+    if (job.status === 'queued' || job.status === 'running') {
+      throw new ConflictException('The import is in progress');
+    }
+    this.deleteFile(job);
+    await this.prisma.attendeeImport.delete({ where: { id } });
+    return { success: true };
+  }
+
+  // ─── Processing ───────────────────────────────────────────────
+
+  /**
+   * Import all valid rows. Safe to re-run (BullMQ retries): rows created
+   * by an earlier attempt are reported as already registered.
+   */
+  async process(importId: string): Promise<void> {
+    const job = await this.prisma.attendeeImport.findUnique({ where: { id: importId } });
+    if (!job || job.status === 'completed') return;
+
+    await this.prisma.attendeeImport.update({
+      where: { id: importId },
+      data: { status: 'running', done: 0, created: 0, skipped: 0, startedAt: new Date(), error: null },
+    });
+
+    try {
+      const options = (job.options ?? {}) as AttendeeImportOptions;
+      const { valid, issues } = await this.check(job, (job.mapping ?? {}) as ImportMapping, options);
+      const event = await this.prisma.event.findUniqueOrThrow({
+        where: { id: job.eventId },
+        select: { id: true, orgId: true },
+      });
+
+      let created = 0;
+      for (let i = 0; i < valid.length; i++) {
+        const { row, attendee } = valid[i];
+        try {
+          await this.importRow(event, attendee, options, job.requestedBy ?? undefined);
+          created++;
+        } catch (err) {
+          const message = err instanceof Error ? err.message : String(err);
+          issues.push({ row, email: attendee.email, errors: [message] });
+        }
+
+        const done = issues.length + created;
+        if ((i + 1) % PROGRESS_EVERY === 0 || i === valid.length - 1) {
+          await this.prisma.attendeeImport.update({ where: { id: importId }, data: { done, created } });
+        }
+        // Let HTTP requests through between rows (matters when inline)
+        await new Promise((r) => setImmediate(r));
+      }
+
+      issues.sort((a, b) => a.row - b.row);
+      this.deleteFile(job);
+      await this.prisma.attendeeImport.update({
+        where: { id: importId },
+        data: {
+          status: 'completed',
+          done: created + issues.length,
+          created,
+          skipped: issues.length,
+          issues: issues.slice(0, MAX_STORED_ISSUES) as any,
+          storagePath: null,
+          completedAt: new Date(),
+        },
+      });
+
+      this.audit.log({
+        eventId: job.eventId,
+        userId: job.requestedBy ?? undefined,
+        action: AuditAction.ATTENDEE_IMPORT_COMPLETED,
+        entity: 'attendee_import',
+        entityId: importId,
+        detail: { fileName: job.fileName, created, skipped: issues.length },
+      });
+      this.logger.log(`Attendee import ${importId} completed: ${created} created, ${issues.length} skipped`);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      await this.prisma.attendeeImport.update({
+        where: { id: importId },
+        data: { status: 'failed', error: message.slice(0, 500), completedAt: new Date() },
+      });
+      this.logger.error(`Attendee import ${importId} failed: ${message}`);
+      throw err;
+    }
+  }
+
+  // ─── Internals ────────────────────────────────────────────────
+
+  /**
+   * Create one attendee — through comp entries when a comp type is set, so
+   * they get the $0 order, ticket and (optionally) the invitation — and
+   * store the mapped form answers.
+   */
+  private async importRow(
+    event: { id: string; orgId: string },
+    row: ImportedAttendee,
+    options: AttendeeImportOptions,
+    userId?: string,
+  ) {
+    const { email, firstName, lastName, company, tags, answers, ...profile } = row;
+
+    let attendeeId: string;
+    if (options.compType) {
+      const entry = await this.compEntries.create(
+        event.id,
+        { compType: options.compType, email, firstName, lastName, organization: company },
+        userId,
+        { sendInvitation: !!options.sendInvitations, profile, tags },
+      );
+      attendeeId = entry.id;
+    } else {
+      const attendee = await this.attendees.create({
+        eventId: event.id,
+        orgId: event.orgId,
+        email,
+        firstName,
+        lastName,
+        company,
+        ...profile,
+        ...(tags.length > 0 && { tags }),
+      });
+      attendeeId = attendee.id;
+    }
+
+    // Imported answers are partial by nature — required-field checks of the
+    // registration form don't apply until the attendee completes it.
+    if (options.formSchemaId && Object.keys(answers).length > 0) {
+      await this.prisma.formSubmission.create({
+        data: { eventId: event.id, attendeeId, formSchemaId: options.formSchemaId, data: answers as any },
+      });
+    }
+  }
+
+  /** Parse the stored file and run the row checks against the current attendees. */
+  private async check(job: AttendeeImport, rawMapping: ImportMapping, options: AttendeeImportOptions) {
+    if (!job.storagePath || !existsSync(join(STORAGE_DIR, job.storagePath))) {
+      throw new BadRequestException('The uploaded file no longer exists — upload it again');
+    }
+    const sheet = await this.parse(readFileSync(join(STORAGE_DIR, job.storagePath)), job.fileName);
+    const fields = await this.formFields(job.eventId, options.formSchemaId);
+
+    let mapping: ImportMapping;
+    try {
+      mapping = validateMapping(rawMapping ?? {}, sheet.columns, fields);
+    } catch (err) {
+      throw new BadRequestException(err instanceof Error ? err.message : String(err));
+    }
+
+    const existing = await this.prisma.attendee.findMany({
+      where: { eventId: job.eventId },
+      select: { email: true },
+    });
+    const result = checkRows(sheet.rows, mapping, {
+      fields,
+      existingEmails: new Set(existing.map((a) => a.email.toLowerCase())),
+      requireCompany: !!options.compType && ORG_REQUIRED_TYPES.includes(options.compType),
+    });
+    return { mapping, ...result };
+  }
+
+  private async parse(buffer: Buffer, fileName: string): Promise<ParsedSheet> {
+    try {
+      return await parseSheet(buffer, fileName);
+    } catch (err) {
+      throw new BadRequestException(err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  private async formFields(eventId: string, formSchemaId?: string | null): Promise<FormField[]> {
+    if (!formSchemaId) return [];
+    const schema = await this.forms.findSchemaWithOptions(formSchemaId, eventId);
+    return (schema.fields as unknown as FormSchemaDefinition).fields ?? [];
+  }
+
+  private async validateOptions(eventId: string, input: AttendeeImportOptions): Promise<AttendeeImportOptions> {
+    if (input.compType && !COMP_TYPES.includes(input.compType)) {
+      throw new BadRequestException(`Invalid comp type: ${input.compType}`);
+    }
+    if (input.sendInvitations && !input.compType) {
+      throw new BadRequestException('Invitations are sent with comp tickets — choose a comp type');
+    }
+    if (input.formSchemaId) {
+      await this.forms.findSchema(input.formSchemaId, eventId);
+    }
+    return {
+      formSchemaId: input.formSchemaId || null,
+      compType: input.compType || null,
+      sendInvitations: !!input.sendInvitations,
+    };
+  }
+
+  /** Mapping can change until the import has been started. */
+  private assertEditable(job: AttendeeImport) {
+    if (job.status !== 'uploaded' && job.status !== 'failed') {
+      throw new ConflictException(`The import is already ${job.status}`);
+    }
+  }
+
+  private deleteFile(job: AttendeeImport) {
+    if (!job.storagePath) return;
+    const path = join(STORAGE_DIR, job.storagePath);
+    if (existsSync(path)) unlinkSync(path);
+  }
+}
@@ -0,0 +1,130 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Param,
+  Body,
+  Req,
+  UseGuards,
+  BadRequestException,
+} from '@nestjs/common';
+import type { FastifyRequest } from 'fastify';
+import { IsBoolean, IsIn, IsObject, IsOptional, IsString } from 'class-validator';
+import { AuthGuard } from '@nestjs/passport';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { JwtPayload } from '../auth/auth.service';
+import { COMP_TYPES, type CompType } from '../comp-entries/comp-entries.service';
+import { AttendeeImportService } from './attendee-import.service';
+
+// ─── DTOs ───────────────────────────────────────────────────────
+
+class AttendeeImportRunDto {
+  /** Column header → `email` | `firstName` | … | `form:<fieldId>` */
+  @IsObject()
+  mapping!: Record<string, string>;
+
+  @IsOptional()
+  @IsString()
+  formSchemaId?: string | null;
+
+  @IsOptional()
+  @IsIn(COMP_TYPES)
+  compType?: CompType | null;
+
+  @IsOptional()
+  @IsBoolean()
+  sendInvitations?: boolean;
+}
+
+@Controller('attendee-imports')
+@UseGuards(AuthGuard('jwt'), RolesGuard)
+export class AttendeeImportsController {
+  constructor(private readonly imports: AttendeeImportService) {}
+
+  /**
+   * POST /api/attendee-imports/event/:eventId
+   * Upload a CSV or XLSX list (multipart field `file`). Returns the import
+   * with its columns, a suggested mapping and the first rows.
+   */
+  @Post('event/:eventId')
+  @Roles('event_admin', 'admin', 'super_admin')
+  async upload(
+    @Param('eventId') eventId: string,
+    @Req() req: FastifyRequest,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    const data = await req.file();
+    if (!data) {
+      throw new BadRequestException('No file uploaded');
+    }
+    return this.imports.upload(
+      eventId,
+      { buffer: await data.toBuffer(), originalName: data.filename },
+      user.sub,
+    );
+  }
+
+  /**
+   * GET /api/attendee-imports/event/:eventId
+   * Recent imports for an event, newest first.
+   */
+  @Get('event/:eventId')
+  @Roles('event_admin', 'admin', 'super_admin')
+  findByEvent(@Param('eventId') eventId: string) {
+    return this.imports.findByEvent(eventId);
+  }
+
+  /**
+   * GET /api/attendee-imports/:id/event/:eventId
+   * A single import (status, progress and skipped rows).
+   */
+  @Get(':id/event/:eventId')
+  @Roles('event_admin', 'admin', 'super_admin')
+  findOne(@Param('id') id: string, @Param('eventId') eventId: string) {
+    return this.imports.findOne(id, eventId);
+  }
+
+  /**
+   * POST /api/attendee-imports/:id/event/:eventId/preview
+   * Dry run — validate every row with the given mapping, write nothing.
+   */
+  @Post(':id/event/:eventId/preview')
+  @Roles('event_admin', 'admin', 'super_admin')
+  preview(
+    @Param('id') id: string,
+    @Param('eventId') eventId: string,
+    @Body() dto: AttendeeImportRunDto,
+  ) {
+    const { mapping, ...options } = dto;
+    return this.imports.preview(id, eventId, { mapping, options });
+  }
+
+  /**
+   * POST /api/attendee-imports/:id/event/:eventId/start
+   * Run the import in the background. Returns the queued import.
+   */
+  @Post(':id/event/:eventId/start')
+  @Roles('event_admin', 'admin', 'super_admin')
+  start(
+    @Param('id') id: string,
+    @Param('eventId') eventId: string,
+    @Body() dto: AttendeeImportRunDto,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    const { mapping, ...options } = dto;
+    return this.imports.start(id, eventId, { mapping, options }, user.sub);
+  }
+
+  /**
+   * DELETE /api/attendee-imports/:id/event/:eventId
+   * Discard an import and its uploaded file.
+   */
+  @Delete(':id/event/:eventId')
+  @Roles('event_admin', 'admin', 'super_admin')
+  remove(@Param('id') id: string, @Param('eventId') eventId: string) {
+    return this.imports.remove(id, eventId);
+  }
+}
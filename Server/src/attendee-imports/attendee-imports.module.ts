@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { AttendeeImportService } from './attendee-import.service';
+import { AttendeeImportsController } from './attendee-imports.controller';
+import { AttendeesModule } from '../attendees/attendees.module';
+import { FormsModule } from '../forms/forms.module';
+import { CompEntriesModule } from '../comp-entries/comp-entries.module';
+
+@Module({
+  imports: [AttendeesModule, FormsModule, CompEntriesModule],
+  controllers: [AttendeeImportsController],
+  providers: [AttendeeImportService],
+})
+export class AttendeeImportsModule {}
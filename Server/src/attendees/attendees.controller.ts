@@ -9,9 +9,10 @@ import {
   Query,
   UseGuards,
 } from '@nestjs/common';
-import { AuthGuard } from '@nestjs/passport';
+import { ApiKeyOrJwtGuard } from '../auth/guards/api-key-or-jwt.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
+import { ApiKeyScope } from '../auth/decorators/api-key-scope.decorator';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import { JwtPayload } from '../auth/auth.service';
 import { AttendeesService } from './attendees.service';
@@ -76,7 +77,7 @@ class UpdateAttendeeDto {
 }
 
 @Controller('attendees')
-@UseGuards(AuthGuard('jwt'), RolesGuard)
+@UseGuards(ApiKeyOrJwtGuard, RolesGuard)
 export class AttendeesController {
   constructor(
     private readonly attendeesService: AttendeesService,
@@ -86,6 +87,7 @@ export class AttendeesController {
 
   @Get('event/:eventId')
   @Roles('event_admin', 'admin', 'super_admin')
+  @ApiKeyScope('read:attendees')
   findByEvent(@Param('eventId') eventId: string) {
     return this.attendeesService.findByEvent(eventId);
   }
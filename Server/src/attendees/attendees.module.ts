@@ -7,9 +7,10 @@ import { EventsModule } from '../events/events.module';
 import { FormsModule } from '../forms/forms.module';
 import { EmailModule } from '../email/email.module';
 import { AuthModule } from '../auth/auth.module';
+import { FormDraftsModule } from '../form-drafts/form-drafts.module';
 
 @Module({
-  imports: [OutgoingWebhooksModule, forwardRef(() => EventsModule), FormsModule, EmailModule, AuthModule],
+  imports: [OutgoingWebhooksModule, forwardRef(() => EventsModule), FormsModule, EmailModule, AuthModule, FormDraftsModule],
   providers: [AttendeesService],
   controllers: [AttendeesController, PublicRegistrationController],
   exports: [AttendeesService],
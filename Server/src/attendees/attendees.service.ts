@@ -4,6 +4,8 @@ import { OutgoingWebhooksService } from '../outgoing-webhooks/outgoing-webhooks.
 import { AuditLogService, AuditAction } from '../audit-log/audit-log.service';
 import { normalizeEmail } from '../common/email.util';
 import { deriveAttendeeMembership } from './attendee-membership.util';
+import { paidOrderAddOns } from '../forms/form-add-ons';
+import { FormsService } from '../forms/forms.service';
 
 @Injectable()
 export class AttendeesService {
@@ -13,6 +15,7 @@ export class AttendeesService {
     private readonly prisma: PrismaService,
     private readonly outgoingWebhooks: OutgoingWebhooksService,
     private readonly audit: AuditLogService,
+    private readonly formsService: FormsService,
   ) {}
 
   async findByEvent(eventId: string) {
@@ -32,7 +35,8 @@ export class AttendeesService {
             take: 5,
           },
           // Paid buyer-orders only — used to derive the membership summary
-          // (opt-out / active member) below; stripped from the response.
+          // (opt-out / active member) and bought add-ons below; stripped
+          // from the response.
           orders: {
             where: { status: 'paid' },
             select: {
@@ -40,6 +44,7 @@ export class AttendeesService {
               meta: true,
               items: {
                 select: {
+                  meta: true,
                   ticketType: {
                     select: { membershipTier: true, category: true },
                   },
@@ -61,6 +66,7 @@ export class AttendeesService {
     return attendees.map(({ orders, ...attendee }) => ({
       ...attendee,
       membership: deriveAttendeeMembership(orders, partnerNameById),
+      addOns: paidOrderAddOns(orders),
     }));
   }
 
@@ -89,6 +95,7 @@ export class AttendeesService {
             meta: true,
             items: {
               select: {
+                meta: true,
                 ticketType: { select: { membershipTier: true, category: true } },
               },
             },
@@ -110,10 +117,13 @@ export class AttendeesService {
     });
     const partnerNameById = new Map(partners.map((p) => [p.id, p.name]));
     const membership = deriveAttendeeMembership(attendee.orders, partnerNameById);
+    const addOns = paidOrderAddOns(attendee.orders);
+    // Answers from older form versions, lifted onto the latest version's columns
+    const formSubmissions = await this.formsService.unifySubmissions(attendee.eventId, attendee.formSubmissions);
 
     // Strip the derivation-only order fields (meta, items) before returning.
     const orders = attendee.orders.map(({ meta, items, ...order }) => order);
-    return { ...attendee, orders, membership };
+    return { ...attendee, formSubmissions, orders, membership, addOns };
   }
 
   async findByEmail(eventId: string, email: string) {
@@ -321,7 +331,7 @@ export class AttendeesService {
     const paidOrders = force
       ? 0
       : await this.prisma.order.count({
-          where: { attendeeId: id, status: 'paid' },
+          where: { attendeeId: id, status: { in: ['paid', 'partially_refunded'] } },
         });
     if (paidOrders > 0) {
       await this.prisma.attendee.update({
@@ -329,9 +339,9 @@ export class AttendeesService {
         data: { status: 'cancelled' },
       });
 
-      // Void all non-voided tickets belonging to this attendee
+      // Void all live tickets belonging to this attendee (transferred rows stay as-is)
       await this.prisma.ticket.updateMany({
-        where: { attendeeId: id, status: { not: 'voided' } },
+        where: { attendeeId: id, status: { notIn: ['voided', 'transferred'] } },
         data: { status: 'voided' },
       });
 
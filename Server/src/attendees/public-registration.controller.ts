@@ -14,8 +14,10 @@ import { FormsService } from '../forms/forms.service';
 import { EmailService } from '../email/email.service';
 import { EVENT_TIME_ZONE, formatEventDateIso } from '../common/event-date.util';
 import { AuthService } from '../auth/auth.service';
+import { FormDraftsService } from '../form-drafts/form-drafts.service';
+import { RateLimit } from '../common/guards/rate-limit.guard';
 
-// ─── DTO ──────────────────────────────────────────────────────────────────
+// ─── DTOs ─────────────────────────────────────────────────────────────────
 
 class RegistrationDto {
   @IsObject()
@@ -43,6 +45,29 @@ class RegistrationDto {
   password?: string;
 }
 
+/** Autosaved partial registration — same fields minus the password. */
+class RegistrationDraftDto {
+  @IsObject()
+  @IsOptional()
+  formData?: Record<string, unknown>;
+
+  @IsString()
+  @IsOptional()
+  phone?: string;
+
+  @IsString()
+  @IsOptional()
+  company?: string;
+
+  @IsString()
+  @IsOptional()
+  firstName?: string;
+
+  @IsString()
+  @IsOptional()
+  lastName?: string;
+}
+
 // ─── Controller ───────────────────────────────────────────────────────────
 
 /**
@@ -56,6 +81,7 @@ class RegistrationDto {
  * Routes:
  *   GET  /api/public/register/:token — returns form schema + pre-filled data
  *   POST /api/public/register/:token — completes registration, sends emails
+ *   POST /api/public/register/:token/draft — autosaves partial answers
  *
  * Works identically in test mode and live mode (no Stripe dependency).
  */
@@ -67,6 +93,7 @@ export class PublicRegistrationController {
     private readonly forms: FormsService,
     private readonly email: EmailService,
     private readonly auth: AuthService,
+    private readonly drafts: FormDraftsService,
   ) {}
 
   /**
@@ -138,6 +165,13 @@ export class PublicRegistrationController {
       }
     }
 
+    // An unfinished draft wins over the last submission — it is newer
+    const draft = await this.drafts.find(attendee.eventId, 'registration', attendee.id);
+    const draftData = (draft?.data ?? {}) as RegistrationDraftDto;
+    if (draftData.formData) {
+      savedFormData = { ...((savedFormData as Record<string, unknown> | null) ?? {}), ...draftData.formData };
+    }
+
     // Already registered — return full payload so form can be shown pre-filled
     const isAlreadyRegistered = attendee.status === 'registered';
 
@@ -146,11 +180,11 @@ export class PublicRegistrationController {
       isStaffPass,
       companyName,
       attendee: {
-        firstName: attendee.firstName,
-        lastName: attendee.lastName,
+        firstName: draftData.firstName || attendee.firstName,
+        lastName: draftData.lastName || attendee.lastName,
         email: attendee.email,
-        phone: attendee.phone ?? '',
-        company: attendee.company ?? '',
+        phone: draftData.phone || attendee.phone || '',
+        company: draftData.company || attendee.company || '',
       },
       event: ticket?.event ? {
         name: ticket.event.name,
@@ -160,9 +194,34 @@ export class PublicRegistrationController {
       ticketTypeName: ticket?.ticketType?.name ?? null,
       formSchema,
       savedFormData,
+      draftSavedAt: draft?.savedAt ?? null,
     };
   }
 
+  /**
+   * POST /api/public/register/:token/draft
+   *
+   * Autosave partial answers so the recipient can close the tab and resume.
+   * Nothing is validated here — that happens on the final POST.
+   */
+  @Post(':token/draft')
+  @RateLimit({ limit: 30, windowSec: 60 })
+  async saveDraft(
+    @Param('token') token: string,
+    @Body() dto: RegistrationDraftDto,
+  ) {
+    if (!token || token.length !== 64) {
+      throw new BadRequestException('Invalid registration token');
+    }
+
+    const attendee = await this.attendees.findByRegistrationToken(token);
+    if (!attendee) {
+      return { tokenConsumed: true };
+    }
+
+    return this.drafts.save(attendee.eventId, 'registration', attendee.id, { ...dto });
+  }
+
   /**
    * POST /api/public/register/:token
    *
@@ -189,7 +248,7 @@ export class PublicRegistrationController {
     const ticket = await this.prisma.ticket.findFirst({
       where: { attendeeId: attendee.id, status: 'valid' },
       include: {
-        ticketType: { select: { id: true, name: true, formSchemaId: true } },
+        ticketType: { select: { id: true, name: true, category: true, membershipTier: true, formSchemaId: true } },
         event: { select: { id: true, name: true, startDate: true, endDate: true, venue: true, venueAddress: true, meta: true } },
         order: { select: { orderNumber: true } },
       },
@@ -208,6 +267,13 @@ export class PublicRegistrationController {
         attendeeId: attendee.id,
         formSchemaId: resolvedSchemaId,
         answers: dto.formData,
+        context: ticket?.ticketType
+          ? {
+              ticketTypeId: ticket.ticketType.id,
+              ticketCategory: ticket.ticketType.category,
+              sraMembershipTicket: !!ticket.ticketType.membershipTier,
+            }
+          : undefined,
       });
     }
 
@@ -242,6 +308,9 @@ export class PublicRegistrationController {
       }
     }
 
+    // Submitted — the draft has served its purpose
+    await this.drafts.discard(attendee.eventId, 'registration', attendee.id);
+
     // Use updated names for emails and response
     const finalFirstName = dto.firstName ?? attendee.firstName;
     const finalLastName = dto.lastName ?? attendee.lastName;
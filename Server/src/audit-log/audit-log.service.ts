@@ -10,6 +10,7 @@ export const AuditAction = {
   EVENT_UPDATED: 'event.updated',
   EVENT_DELETED: 'event.deleted',
   EVENT_PUBLISHED: 'event.published',
+  EVENT_CLONED: 'event.cloned',
 
   // Ticket Types
   TICKET_TYPE_CREATED: 'ticket_type.created',
@@ -22,20 +23,47 @@ export const AuditAction = {
   ORDER_CANCELLED: 'order.cancelled',
   ORDER_REFUNDED: 'order.refunded',
   ORDER_EXPIRED: 'order.expired',
+  ORDER_INVOICE_ISSUED: 'order.invoice_issued',
+
+  // Bank transfers (pay-by-invoice)
+  BANK_STATEMENT_IMPORTED: 'bank.statement_imported',
+  BANK_TRANSFER_MATCHED: 'bank.transfer_matched',
+
+  // Box office
+  BOX_OFFICE_SALE: 'box_office.sale',
+  BOX_OFFICE_DRAWER_CLOSED: 'box_office.drawer_closed',
+
+  // Waitlist
+  WAITLIST_JOINED: 'waitlist.joined',
+  WAITLIST_OFFERED: 'waitlist.offered',
+  WAITLIST_OFFER_EXPIRED: 'waitlist.offer_expired',
+  WAITLIST_SKIPPED: 'waitlist.skipped',
+  WAITLIST_CLAIMED: 'waitlist.claimed',
 
   // Tickets
   TICKET_ISSUED: 'ticket.issued',
   TICKET_VOIDED: 'ticket.voided',
+  TICKET_TRANSFERRED: 'ticket.transferred',
 
   // Check-ins
   CHECK_IN: 'check_in.recorded',
   CHECK_IN_DUPLICATE: 'check_in.duplicate',
   CHECK_IN_OFFLINE_SYNC: 'check_in.offline_sync',
+  CHECK_IN_MANIFEST_ISSUED: 'check_in.manifest_issued',
+  CHECK_IN_ZONE_DENIED: 'check_in.zone_denied',
+  CHECK_IN_ZONE_FLAGGED: 'check_in.zone_flagged',
+  CHECK_IN_WRONG_DAY: 'check_in.wrong_day',
+
+  // Badges
+  BADGE_FONT_UPLOADED: 'badge_font.uploaded',
+  BADGE_FONT_DELETED: 'badge_font.deleted',
 
   // Attendees
   ATTENDEE_CREATED: 'attendee.created',
   ATTENDEE_UPDATED: 'attendee.updated',
   ATTENDEE_DELETED: 'attendee.deleted',
+  ATTENDEE_IMPORT_STARTED: 'attendee_import.started',
+  ATTENDEE_IMPORT_COMPLETED: 'attendee_import.completed',
 
   // Auth
   AUTH_LOGIN: 'auth.login',
@@ -44,6 +72,18 @@ export const AuditAction = {
   AUTH_FAILED: 'auth.failed',
   AUTH_PASSWORD_RESET_REQUESTED: 'auth.password_reset_requested',
   AUTH_PASSWORD_RESET_COMPLETED: 'auth.password_reset_completed',
+  AUTH_2FA_ENABLED: 'auth.2fa_enabled',
+  AUTH_2FA_DISABLED: 'auth.2fa_disabled',
+  AUTH_2FA_RESET: 'auth.2fa_reset',
+  AUTH_2FA_RECOVERY_CODE_USED: 'auth.2fa_recovery_code_used',
+  AUTH_2FA_RECOVERY_CODES_REGENERATED: 'auth.2fa_recovery_codes_regenerated',
+
+  // Access control
+  USER_EVENT_ROLE_GRANTED: 'user.event_role_granted',
+  USER_EVENT_ROLE_REVOKED: 'user.event_role_revoked',
+  ROLE_PERMISSIONS_UPDATED: 'role.permissions_updated',
+  API_KEY_CREATED: 'api_key.created',
+  API_KEY_REVOKED: 'api_key.revoked',
 
   // Settings
   SETTING_UPDATED: 'setting.updated',
@@ -13,7 +13,8 @@ import {
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { AuthGuard } from '@nestjs/passport';
-import { AuthService, TokenPair } from './auth.service';
+import { AuthService, TokenPair, TwoFactorChallenge } from './auth.service';
+import { TwoFactorService } from './two-factor.service';
 import { IsNumber, IsArray, IsString, IsOptional, IsEmail, MinLength, IsNotEmpty } from 'class-validator';
 import { RateLimit } from '../common/guards/rate-limit.guard';
 import { FastifyRequest, FastifyReply } from 'fastify';
@@ -87,6 +88,24 @@ class LoginDto {
   password!: string;
 }
 
+class TwoFactorCodeDto {
+  @IsString()
+  @IsNotEmpty()
+  code!: string;
+}
+
+class TwoFactorChallengeDto {
+  @IsString()
+  @IsNotEmpty()
+  challengeToken!: string;
+}
+
+class TwoFactorLoginDto extends TwoFactorChallengeDto {
+  @IsString()
+  @IsNotEmpty()
+  code!: string;
+}
+
 class ForgotPasswordDto {
   @IsEmail()
   email!: string;
@@ -153,6 +172,7 @@ export class AuthController {
 
   constructor(
     private readonly authService: AuthService,
+    private readonly twoFactor: TwoFactorService,
     private readonly config: ConfigService,
   ) {
     this.isProduction = config.get<string>('NODE_ENV', 'development') === 'production';
@@ -251,6 +271,9 @@ export class AuthController {
   /**
    * POST /api/auth/login
    * Email + password authentication (app-native accounts).
+   * Accounts with 2FA get a challenge instead of tokens and finish the
+   * sign-in via /auth/login/2fa (or /auth/login/2fa/setup + /confirm when
+   * their role requires 2FA and it is not set up yet).
    */
   @Post('login')
   @HttpCode(HttpStatus.OK)
@@ -259,8 +282,29 @@ export class AuthController {
     @Body() dto: LoginDto,
     @Req() req: FastifyRequest,
     @Res({ passthrough: true }) reply: FastifyReply,
+  ): Promise<ClientAuthResponse | TwoFactorChallenge> {
+    const result = await this.authService.loginWithPassword(dto.email, dto.password, {
+      ip: req.ip,
+      userAgent: req.headers['user-agent'],
+    });
+    if ('challengeToken' in result) return result;
+    this.setRefreshCookie(reply, result.refreshToken);
+    return this.buildClientResponse(result);
+  }
+
+  /**
+   * POST /api/auth/login/2fa
+   * Second login step — authenticator code or a recovery code.
+   */
+  @Post('login/2fa')
+  @HttpCode(HttpStatus.OK)
+  @RateLimit({ limit: 10, windowSec: 60 })
+  async loginTwoFactor(
+    @Body() dto: TwoFactorLoginDto,
+    @Req() req: FastifyRequest,
+    @Res({ passthrough: true }) reply: FastifyReply,
   ): Promise<ClientAuthResponse> {
-    const tokens = await this.authService.loginWithPassword(dto.email, dto.password, {
+    const tokens = await this.authService.loginWithTwoFactor(dto.challengeToken, dto.code, {
       ip: req.ip,
       userAgent: req.headers['user-agent'],
     });
@@ -268,6 +312,38 @@ export class AuthController {
     return this.buildClientResponse(tokens);
   }
 
+  /**
+   * POST /api/auth/login/2fa/setup
+   * Mandatory enrolment during login — returns the secret and QR code.
+   */
+  @Post('login/2fa/setup')
+  @HttpCode(HttpStatus.OK)
+  @RateLimit({ limit: 10, windowSec: 60 })
+  async loginTwoFactorSetup(@Body() dto: TwoFactorChallengeDto) {
+    return this.authService.beginLoginEnrolment(dto.challengeToken);
+  }
+
+  /**
+   * POST /api/auth/login/2fa/confirm
+   * Confirm mandatory enrolment and sign in. The one-time recovery codes are
+   * included in the response.
+   */
+  @Post('login/2fa/confirm')
+  @HttpCode(HttpStatus.OK)
+  @RateLimit({ limit: 10, windowSec: 60 })
+  async loginTwoFactorConfirm(
+    @Body() dto: TwoFactorLoginDto,
+    @Req() req: FastifyRequest,
+    @Res({ passthrough: true }) reply: FastifyReply,
+  ): Promise<ClientAuthResponse & { recoveryCodes: string[] }> {
+    const result = await this.authService.confirmLoginEnrolment(dto.challengeToken, dto.code, {
+      ip: req.ip,
+      userAgent: req.headers['user-agent'],
+    });
+    this.setRefreshCookie(reply, result.refreshToken);
+    return { ...this.buildClientResponse(result), recoveryCodes: result.recoveryCodes };
+  }
+
   /**
    * POST /api/auth/logout
    * Clears the httpOnly refresh token cookie and revokes all outstanding
@@ -366,6 +442,72 @@ export class AuthController {
     );
   }
 
+  // ─── Two-Factor Authentication (own account) ──────────────────
+
+  /**
+   * GET /api/auth/2fa
+   * 2FA status for the current user.
+   */
+  @Get('2fa')
+  @UseGuards(AuthGuard('jwt'))
+  async twoFactorStatus(@CurrentUser() user: JwtPayload) {
+    return this.twoFactor.status(user.sub, user.roles);
+  }
+
+  /**
+   * POST /api/auth/2fa/setup
+   * Start opt-in enrolment — returns the secret and QR code.
+   */
+  @Post('2fa/setup')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(AuthGuard('jwt'))
+  async twoFactorSetup(@CurrentUser() user: JwtPayload) {
+    return this.twoFactor.beginEnrolment(user.sub);
+  }
+
+  /**
+   * POST /api/auth/2fa/confirm
+   * Confirm enrolment with the first code; returns the recovery codes.
+   */
+  @Post('2fa/confirm')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(AuthGuard('jwt'))
+  @RateLimit({ limit: 10, windowSec: 60 })
+  async twoFactorConfirm(
+    @Body() dto: TwoFactorCodeDto,
+    @CurrentUser() user: JwtPayload,
+    @Req() req: FastifyRequest,
+  ) {
+    return this.twoFactor.confirmEnrolment(user.sub, dto.code, {
+      ip: req.ip,
+      userAgent: req.headers['user-agent'],
+    });
+  }
+
+  /**
+   * POST /api/auth/2fa/recovery-codes
+   * Replace the recovery codes (requires a current code).
+   */
+  @Post('2fa/recovery-codes')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(AuthGuard('jwt'))
+  @RateLimit({ limit: 10, windowSec: 60 })
+  async twoFactorRecoveryCodes(@Body() dto: TwoFactorCodeDto, @CurrentUser() user: JwtPayload) {
+    return this.twoFactor.regenerateRecoveryCodes(user.sub, dto.code);
+  }
+
+  /**
+   * POST /api/auth/2fa/disable
+   * Turn 2FA off (requires a current code; refused when the role requires 2FA).
+   */
+  @Post('2fa/disable')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(AuthGuard('jwt'))
+  @RateLimit({ limit: 10, windowSec: 60 })
+  async twoFactorDisable(@Body() dto: TwoFactorCodeDto, @CurrentUser() user: JwtPayload) {
+    return this.twoFactor.disable(user.sub, user.roles, dto.code);
+  }
+
   // ─── Password Reset ────────────────────────────────────────────
 
   /**
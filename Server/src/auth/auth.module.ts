@@ -1,4 +1,4 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { JwtModule } from '@nestjs/jwt';
 import { PassportModule } from '@nestjs/passport';
 import { ConfigModule, ConfigService } from '@nestjs/config';
@@ -7,6 +7,8 @@ import { AuthController } from './auth.controller';
 import { JwtStrategy } from './strategies/jwt.strategy';
 import { RolesGuard } from './guards/roles.guard';
 import { EmailModule } from '../email/email.module';
+import { SettingsModule } from '../settings/settings.module';
+import { TwoFactorService } from './two-factor.service';
 
 @Module({
   imports: [
@@ -22,9 +24,10 @@ import { EmailModule } from '../email/email.module';
       }),
     }),
     EmailModule,
+    forwardRef(() => SettingsModule),
   ],
   controllers: [AuthController],
-  providers: [AuthService, JwtStrategy, RolesGuard],
-  exports: [AuthService, JwtModule, RolesGuard],
+  providers: [AuthService, TwoFactorService, JwtStrategy, RolesGuard],
+  exports: [AuthService, TwoFactorService, JwtModule, RolesGuard],
 })
 export class AuthModule {}
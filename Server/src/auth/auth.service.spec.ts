@@ -1,6 +1,6 @@
 import { UnauthorizedException } from '@nestjs/common';
 import * as bcrypt from 'bcrypt';
-import { AuthService } from './auth.service';
+import { AuthService, TokenPair, TwoFactorChallenge } from './auth.service';
 
 describe('AuthService password auth normalization', () => {
   function setup(overrides: Record<string, any> = {}) {
@@ -26,9 +26,20 @@ describe('AuthService password auth normalization', () => {
     };
     const audit = { log: jest.fn() };
     const emailService = { sendNotification: jest.fn() };
-    const service = new AuthService(jwt as any, config as any, prisma as any, audit as any, emailService as any);
+    const twoFactor = {
+      isRequiredFor: jest.fn().mockResolvedValue(false),
+      verifyCode: jest.fn(),
+    };
+    const service = new AuthService(
+      jwt as any,
+      config as any,
+      prisma as any,
+      audit as any,
+      emailService as any,
+      twoFactor as any,
+    );
 
-    return { service, jwt, config, prisma, audit, emailService };
+    return { service, jwt, config, prisma, audit, emailService, twoFactor };
   }
 
   afterEach(() => {
@@ -49,12 +60,12 @@ describe('AuthService password auth normalization', () => {
     prisma.user.update.mockResolvedValue({});
     jest.spyOn(bcrypt, 'compare').mockImplementation(async () => true);
 
-    const result = await service.loginWithPassword(' Staff@Example.COM ', 'secret');
+    const result = (await service.loginWithPassword(' Staff@Example.COM ', 'secret')) as TokenPair;
     service.onModuleDestroy();
 
     expect(prisma.user.findUnique).toHaveBeenCalledWith({
       where: { email: 'staff@example.com' },
-      include: { roles: true },
+      include: { roles: { where: { eventId: null } } },
     });
     expect(result.user.email).toBe('staff@example.com');
     expect(result.user.roles).toEqual(['exhibitor']);
@@ -129,6 +140,114 @@ describe('AuthService password auth normalization', () => {
   });
 });
 
+describe('AuthService two-factor login', () => {
+  function setup(user: Record<string, any>) {
+    const jwt = {
+      sign: jest.fn((payload: any) => `token:${payload.sub}:${payload.type ?? 'access'}`),
+      verify: jest.fn(),
+    };
+    const config = { get: jest.fn(() => undefined) };
+    const prisma = {
+      user: {
+        findUnique: jest.fn().mockResolvedValue({
+          id: 'user-1',
+          email: 'staff@example.com',
+          displayName: 'Staff Member',
+          passwordHash: 'hash',
+          active: true,
+          tokenVersion: 0,
+          totpEnabledAt: null,
+          roles: [{ role: 'staff', orgId: null }],
+          ...user,
+        }),
+        update: jest.fn().mockResolvedValue({}),
+      },
+    };
+    const audit = { log: jest.fn() };
+    const twoFactor = {
+      isRequiredFor: jest.fn().mockResolvedValue(false),
+      verifyCode: jest.fn(),
+    };
+    const service = new AuthService(
+      jwt as any,
+      config as any,
+      prisma as any,
+      audit as any,
+      { sendNotification: jest.fn() } as any,
+      twoFactor as any,
+    );
+    jest.spyOn(bcrypt, 'compare').mockImplementation(async () => true);
+    return { service, jwt, prisma, audit, twoFactor };
+  }
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('returns a challenge instead of tokens when 2FA is enabled', async () => {
+    const { service, prisma, audit } = setup({ totpEnabledAt: new Date() });
+
+    const result = (await service.loginWithPassword('staff@example.com', 'secret')) as TwoFactorChallenge;
+    service.onModuleDestroy();
+
+    expect(result.twoFactor).toBe('verify');
+    expect(result.challengeToken).toBe('token:user-1:2fa_challenge');
+    expect(prisma.user.update).not.toHaveBeenCalled();
+    expect(audit.log).not.toHaveBeenCalled();
+  });
+
+  it('forces enrolment when the role requires 2FA', async () => {
+    const { service, twoFactor } = setup({});
+    twoFactor.isRequiredFor.mockResolvedValue(true);
+
+    const result = (await service.loginWithPassword('staff@example.com', 'secret')) as TwoFactorChallenge;
+    service.onModuleDestroy();
+
+    expect(twoFactor.isRequiredFor).toHaveBeenCalledWith(['staff']);
+    expect(result.twoFactor).toBe('enrol');
+  });
+
+  it('issues tokens once the second factor checks out', async () => {
+    const { service, jwt, twoFactor, audit } = setup({ totpEnabledAt: new Date() });
+    jwt.verify.mockReturnValue({ sub: 'user-1', type: '2fa_challenge', purpose: 'verify' });
+    twoFactor.verifyCode.mockResolvedValue('recovery_code');
+
+    const tokens = await service.loginWithTwoFactor('challenge', 'k4f9-2xq7');
+    service.onModuleDestroy();
+
+    expect(tokens.user.roles).toEqual(['staff']);
+    expect(audit.log).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'auth.login',
+      detail: { method: 'password', secondFactor: 'recovery_code' },
+    }));
+  });
+
+  it('locks the verify step after too many invalid codes, whatever the IP', async () => {
+    const { service, jwt, twoFactor } = setup({ totpEnabledAt: new Date() });
+    jwt.verify.mockReturnValue({ sub: 'user-1', type: '2fa_challenge', purpose: 'verify' });
+    twoFactor.verifyCode.mockResolvedValue(null);
+
+    for (let i = 0; i < 5; i++) {
+      await expect(service.loginWithTwoFactor('challenge', '000000', { ip: `10.0.0.${i}` })).rejects.toThrow(
+        'Invalid authentication code',
+      );
+    }
+    twoFactor.verifyCode.mockResolvedValue('totp');
+    await expect(service.loginWithTwoFactor('challenge', '123456')).rejects.toThrow('Too many invalid codes');
+    service.onModuleDestroy();
+    expect(twoFactor.verifyCode).toHaveBeenCalledTimes(5);
+  });
+
+  it('rejects a challenge issued for enrolment at the verify step', async () => {
+    const { service, jwt, twoFactor } = setup({});
+    jwt.verify.mockReturnValue({ sub: 'user-1', type: '2fa_challenge', purpose: 'enrol' });
+
+    await expect(service.loginWithTwoFactor('challenge', '123456')).rejects.toThrow(UnauthorizedException);
+    service.onModuleDestroy();
+    expect(twoFactor.verifyCode).not.toHaveBeenCalled();
+  });
+});
+
 describe('AuthService SRA member verification (isMember)', () => {
   function setup() {
     const jwt = {
@@ -144,7 +263,7 @@ describe('AuthService SRA member verification (isMember)', () => {
     const prisma = { user: { findUnique: jest.fn() }, event: { findUnique: jest.fn() } };
     const audit = { log: jest.fn() };
     const emailService = { sendNotification: jest.fn() };
-    const service = new AuthService(jwt as any, config as any, prisma as any, audit as any, emailService as any);
+    const service = new AuthService(jwt as any, config as any, prisma as any, audit as any, emailService as any, {} as any);
     // The WP API URL resolution hits settings/env — stub it out.
     jest.spyOn(service as any, 'resolveWpApiUrl').mockResolvedValue('https://wp.example');
     return { service, jwt };
@@ -9,6 +9,8 @@ import { AuditLogService, AuditAction } from '../audit-log/audit-log.service';
 import { EmailService } from '../email/email.service';
 import { emailHeader, emailPreFooter, emailFooter } from '../email/email-templates.util';
 import { normalizeEmail } from '../common/email.util';
+import { TwoFactorService, TwoFactorSetup } from './two-factor.service';
+import type { ApiKeyPrincipal } from '../api-keys/api-keys.service';
 
 export interface JwtPayload {
   sub: string; // user ID
@@ -17,6 +19,8 @@ export interface JwtPayload {
   roles: string[];
   eventId?: string;
   orgId?: string;
+  /** Set instead of roles when the request authenticated with an API key. */
+  apiKey?: ApiKeyPrincipal;
   iat?: number;
   exp?: number;
 }
@@ -34,6 +38,26 @@ export interface TokenPair {
   };
 }
 
+/**
+ * Returned by `loginWithPassword` instead of tokens when a second factor is
+ * needed. The challenge token only unlocks the /auth/login/2fa endpoints.
+ */
+export interface TwoFactorChallenge {
+  /** `verify` = enter a code; `enrol` = the user's role requires 2FA, set it up first. */
+  twoFactor: 'verify' | 'enrol';
+  challengeToken: string;
+  expiresIn: number;
+}
+
+/** Lifetime of a 2FA challenge token (seconds). */
+const TWO_FACTOR_CHALLENGE_TTL = 300;
+
+/**
+ * Invalid codes a user may enter within one challenge lifetime. Counted per
+ * user rather than per IP, so the code space can't be spread across IPs.
+ */
+const TWO_FACTOR_MAX_FAILURES = 5;
+
 @Injectable()
 export class AuthService implements OnModuleDestroy {
   private readonly logger = new Logger(AuthService.name);
@@ -41,6 +65,9 @@ export class AuthService implements OnModuleDestroy {
   /** In-memory nonce cache for replay protection (key → timestamp). */
   private readonly usedNonces = new Map<string, number>();
 
+  /** Failed 2FA codes per user (userId → count and window end, ms). */
+  private readonly twoFactorFailures = new Map<string, { count: number; resetAt: number }>();
+
   /** Cleanup interval for expired nonces (every 5 minutes). */
   private readonly nonceCleanupInterval: ReturnType<typeof setInterval>;
 
@@ -50,6 +77,7 @@ export class AuthService implements OnModuleDestroy {
     private readonly prisma: PrismaService,
     private readonly audit: AuditLogService,
     private readonly emailService: EmailService,
+    private readonly twoFactor: TwoFactorService,
   ) {
     // Purge nonces older than 10 minutes every 5 minutes
     this.nonceCleanupInterval = setInterval(() => {
@@ -57,6 +85,9 @@ export class AuthService implements OnModuleDestroy {
       for (const [key, ts] of this.usedNonces) {
         if (ts < cutoff) this.usedNonces.delete(key);
       }
+      for (const [userId, failures] of this.twoFactorFailures) {
+        if (failures.resetAt <= Date.now()) this.twoFactorFailures.delete(userId);
+      }
     }, 300_000);
   }
 
@@ -253,10 +284,12 @@ export class AuthService implements OnModuleDestroy {
     // Use upsert-style logic: delete existing roles that would collide, then create.
     // When orgId is set, we must also clean org-scoped roles to avoid unique-constraint
     // violations (e.g., a seed-created 'exhibitor' role for the same org).
+    // Event-scoped grants are managed from the Users page and survive the sync.
     await this.prisma.$transaction([
       this.prisma.userRole.deleteMany({
         where: {
           userId,
+          eventId: null,
           ...(orgId ? { OR: [{ orgId: null }, { orgId }] } : { orgId: null }),
         },
       }),
@@ -356,7 +389,8 @@ export class AuthService implements OnModuleDestroy {
         displayName: true,
         wpUserId: true,
         tokenVersion: true,
-        roles: { select: { role: true } },
+        // Event-scoped grants are resolved per request by RolesGuard
+        roles: { where: { eventId: null }, select: { role: true } },
       },
     });
 
@@ -459,17 +493,18 @@ export class AuthService implements OnModuleDestroy {
 
   /**
    * Authenticate with email + password.
-   * Returns JWT token pair on success.
+   * Returns JWT token pair on success, or a 2FA challenge when the account
+   * has 2FA enabled (or its role requires 2FA and it is not set up yet).
    */
   async loginWithPassword(
     email: string,
     password: string,
     meta?: { ip?: string; userAgent?: string },
-  ): Promise<TokenPair> {
+  ): Promise<TokenPair | TwoFactorChallenge> {
     const normalizedEmail = normalizeEmail(email);
     const user = await this.prisma.user.findUnique({
       where: { email: normalizedEmail },
-      include: { roles: true },
+      include: { roles: { where: { eventId: null } } },
     });
 
     if (!user || !user.passwordHash) {
@@ -485,6 +520,125 @@ export class AuthService implements OnModuleDestroy {
       throw new UnauthorizedException('Invalid email or password');
     }
 
+    if (user.totpEnabledAt) {
+      return this.twoFactorChallenge(user.id, 'verify');
+    }
+    if (await this.twoFactor.isRequiredFor(user.roles.map((r) => r.role))) {
+      return this.twoFactorChallenge(user.id, 'enrol');
+    }
+
+    return this.completeLogin(user, { method: 'password' }, meta);
+  }
+
+  // ─── Two-factor login step ─────────────────────────────────────
+
+  /**
+   * Second login step: exchange a `verify` challenge plus a TOTP or
+   * recovery code for a token pair. After TWO_FACTOR_MAX_FAILURES invalid
+   * codes the user must wait for the challenge window to pass.
+   */
+  async loginWithTwoFactor(
+    challengeToken: string,
+    code: string,
+    meta?: { ip?: string; userAgent?: string },
+  ): Promise<TokenPair> {
+    const userId = this.verifyChallenge(challengeToken, 'verify');
+    const failures = this.twoFactorFailures.get(userId);
+    if (failures && failures.resetAt <= Date.now()) {
+      this.twoFactorFailures.delete(userId);
+    } else if (failures && failures.count >= TWO_FACTOR_MAX_FAILURES) {
+      throw new UnauthorizedException('Too many invalid codes — please try again in a few minutes');
+    }
+
+    const method = await this.twoFactor.verifyCode(userId, code);
+    if (!method) {
+      const current = this.twoFactorFailures.get(userId);
+      if (current) current.count += 1;
+      else this.twoFactorFailures.set(userId, { count: 1, resetAt: Date.now() + TWO_FACTOR_CHALLENGE_TTL * 1000 });
+
+      this.audit.log({
+        userId,
+        action: AuditAction.AUTH_FAILED,
+        entity: 'user',
+        entityId: userId,
+        detail: { reason: 'invalid_2fa_code' },
+        ip: meta?.ip,
+        userAgent: meta?.userAgent,
+      });
+      throw new UnauthorizedException('Invalid authentication code');
+    }
+    this.twoFactorFailures.delete(userId);
+    return this.completeLogin(await this.findLoginUser(userId), { method: 'password', secondFactor: method }, meta);
+  }
+
+  /** Enrolment during login (role requires 2FA): generate the secret + QR. */
+  async beginLoginEnrolment(challengeToken: string): Promise<TwoFactorSetup> {
+    return this.twoFactor.beginEnrolment(this.verifyChallenge(challengeToken, 'enrol'));
+  }
+
+  /**
+   * Confirm enrolment during login and sign the user in. The recovery codes
+   * are returned alongside the tokens so the dashboard can show them once.
+   */
+  async confirmLoginEnrolment(
+    challengeToken: string,
+    code: string,
+    meta?: { ip?: string; userAgent?: string },
+  ): Promise<TokenPair & { recoveryCodes: string[] }> {
+    const userId = this.verifyChallenge(challengeToken, 'enrol');
+    const { recoveryCodes } = await this.twoFactor.confirmEnrolment(userId, code, meta);
+    const tokens = await this.completeLogin(
+      await this.findLoginUser(userId),
+      { method: 'password', secondFactor: 'totp' },
+      meta,
+    );
+    return { ...tokens, recoveryCodes };
+  }
+
+  private twoFactorChallenge(userId: string, purpose: TwoFactorChallenge['twoFactor']): TwoFactorChallenge {
+    const challengeToken = this.jwt.sign(
+      { sub: userId, type: '2fa_challenge', purpose },
+      { expiresIn: TWO_FACTOR_CHALLENGE_TTL },
+    );
+    return { twoFactor: purpose, challengeToken, expiresIn: TWO_FACTOR_CHALLENGE_TTL };
+  }
+
+  private verifyChallenge(token: string, purpose: TwoFactorChallenge['twoFactor']): string {
+    let decoded: { sub?: string; type?: string; purpose?: string };
+    try {
+      decoded = this.jwt.verify(token);
+    } catch {
+      throw new UnauthorizedException('Sign-in expired — please log in again');
+    }
+    if (decoded.type !== '2fa_challenge' || decoded.purpose !== purpose || !decoded.sub) {
+      throw new UnauthorizedException('Invalid sign-in challenge');
+    }
+    return decoded.sub;
+  }
+
+  private async findLoginUser(userId: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      include: { roles: { where: { eventId: null } } },
+    });
+    if (!user || !user.active) {
+      throw new UnauthorizedException('Account is deactivated');
+    }
+    return user;
+  }
+
+  /** Record the login and issue the token pair once every factor has passed. */
+  private async completeLogin(
+    user: {
+      id: string;
+      email: string;
+      displayName: string;
+      tokenVersion: number;
+      roles: Array<{ role: string; orgId: string | null }>;
+    },
+    detail: Record<string, unknown>,
+    meta?: { ip?: string; userAgent?: string },
+  ): Promise<TokenPair> {
     // Update last login
     await this.prisma.user.update({
       where: { id: user.id },
@@ -496,7 +650,7 @@ export class AuthService implements OnModuleDestroy {
       action: AuditAction.AUTH_LOGIN,
       entity: 'user',
       entityId: user.id,
-      detail: { method: 'password' },
+      detail,
       ip: meta?.ip,
       userAgent: meta?.userAgent,
     });
@@ -0,0 +1,14 @@
+import { SetMetadata } from '@nestjs/common';
+import type { ApiKeyScopeName } from '../../api-keys/api-keys.constants';
+
+export const API_KEY_SCOPES_KEY = 'apiKeyScopes';
+
+/**
+ * Decorator to let API keys call an endpoint. The key needs every listed
+ * scope and must cover the route's event. Only takes effect on controllers
+ * guarded by ApiKeyOrJwtGuard; user tokens keep going through @Roles /
+ * @RequirePermission as before.
+ * Usage: @ApiKeyScope('read:attendees')
+ */
+export const ApiKeyScope = (...scopes: ApiKeyScopeName[]) =>
+  SetMetadata(API_KEY_SCOPES_KEY, scopes);
@@ -0,0 +1,13 @@
+import { SetMetadata } from '@nestjs/common';
+import type { Permission } from '../../permissions/permissions.constants';
+
+export const PERMISSIONS_KEY = 'permissions';
+
+/**
+ * Decorator to require a permission from the role → permission matrix.
+ * Any one of the listed permissions is enough; roles granted for the
+ * route's event count towards it.
+ * Usage: @RequirePermission('orders.refund')
+ */
+export const RequirePermission = (...permissions: Permission[]) =>
+  SetMetadata(PERMISSIONS_KEY, permissions);
@@ -0,0 +1,41 @@
+import { Injectable, ExecutionContext } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { ApiKeysService } from '../../api-keys/api-keys.service';
+import { extractApiKey } from '../../api-keys/api-keys.constants';
+import { JwtPayload } from '../auth.service';
+
+/**
+ * Drop-in replacement for AuthGuard('jwt') on controllers that integrations
+ * may call. Requests carrying an `srx_` key are authenticated against the
+ * api_keys table; everything else goes through the JWT strategy.
+ *
+ * The key ends up on request.user.apiKey with no roles — RolesGuard then
+ * checks @ApiKeyScope() instead of @Roles().
+ */
+@Injectable()
+export class ApiKeyOrJwtGuard extends AuthGuard('jwt') {
+  constructor(private readonly apiKeys: ApiKeysService) {
+    super();
+  }
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest();
+    const rawKey = extractApiKey(request.headers);
+    if (!rawKey) {
+      return super.canActivate(context) as Promise<boolean>;
+    }
+
+    const apiKey = await this.apiKeys.authenticate(rawKey, request.ip);
+    const user: JwtPayload = {
+      sub: `api-key:${apiKey.id}`,
+      email: '',
+      displayName: apiKey.name,
+      roles: [],
+      orgId: apiKey.orgId,
+      eventId: apiKey.eventId ?? undefined,
+      apiKey,
+    };
+    request.user = user;
+    return true;
+  }
+}
@@ -0,0 +1,158 @@
+import { Controller, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { RolesGuard } from './roles.guard';
+import { Roles } from '../decorators/roles.decorator';
+import { RequirePermission } from '../decorators/require-permission.decorator';
+import { ApiKeyScope } from '../decorators/api-key-scope.decorator';
+import { PermissionsService } from '../../permissions/permissions.service';
+
+@Controller('events/:eventId/check-ins')
+class CheckInsFixture {
+  @RequirePermission('checkin.scan')
+  @ApiKeyScope('write:checkins')
+  scan() {}
+
+  @Roles('event_admin')
+  settings() {}
+}
+
+@Controller('orders')
+class OrdersFixture {
+  @RequirePermission('orders.refund')
+  cancel() {}
+}
+
+@Controller('payments')
+class PaymentsFixture {
+  @RequirePermission('orders.refund')
+  refund() {}
+}
+
+@Controller('events')
+class EventsFixture {
+  @Roles('event_admin')
+  findOne() {}
+}
+
+describe('RolesGuard', () => {
+  function setup(grants: Record<string, string[]> = {}) {
+    const permissions: any = Object.create(PermissionsService.prototype);
+    Object.assign(permissions, {
+      prisma: {
+        userRole: {
+          findMany: jest.fn(async ({ where }: any) =>
+            (grants[where.eventId] ?? []).map((role) => ({ role })),
+          ),
+        },
+        rolePermission: { findMany: jest.fn().mockResolvedValue([]) },
+      },
+      cache: null,
+    });
+    const apiKeys = { coversEvent: jest.fn(async (key: any, eventId: string) => key.eventId === eventId) };
+    const orders: Record<string, string> = { 'ord-srd': 'evt-srd', 'ord-other': 'evt-other' };
+    const prisma = {
+      order: {
+        findUnique: jest.fn(async ({ where }: any) => (orders[where.id] ? { eventId: orders[where.id] } : null)),
+      },
+    };
+    const guard = new RolesGuard(new Reflector(), permissions, apiKeys as any, prisma as any);
+    return { guard, permissions, apiKeys };
+  }
+
+  function context(
+    cls: any,
+    handler: string,
+    roles: string[],
+    params: Record<string, string>,
+    apiKey?: Record<string, unknown>,
+    body?: Record<string, unknown>,
+  ) {
+    return {
+      getHandler: () => cls.prototype[handler],
+      getClass: () => cls,
+      switchToHttp: () => ({ getRequest: () => ({ user: { sub: 'user-1', roles, apiKey }, params, body }) }),
+    } as any;
+  }
+
+  it('lets an event-scoped gate_staff grant scan only at that event', async () => {
+    const { guard } = setup({ 'evt-srd': ['gate_staff'] });
+
+    await expect(
+      guard.canActivate(context(CheckInsFixture, 'scan', ['attendee'], { eventId: 'evt-srd' })),
+    ).resolves.toBe(true);
+    await expect(
+      guard.canActivate(context(CheckInsFixture, 'scan', ['attendee'], { eventId: 'evt-other' })),
+    ).rejects.toThrow(ForbiddenException);
+  });
+
+  it('skips the grant lookup when the JWT roles already suffice', async () => {
+    const { guard, permissions } = setup();
+
+    await expect(
+      guard.canActivate(context(CheckInsFixture, 'scan', ['staff'], { eventId: 'evt-srd' })),
+    ).resolves.toBe(true);
+    expect(permissions.prisma.userRole.findMany).not.toHaveBeenCalled();
+  });
+
+  it('follows permission overrides from the matrix', async () => {
+    const { guard, permissions } = setup();
+    permissions.prisma.rolePermission.findMany.mockResolvedValue([
+      { role: 'staff', permissions: ['checkin.view'] },
+    ]);
+
+    await expect(
+      guard.canActivate(context(CheckInsFixture, 'scan', ['staff'], { eventId: 'evt-srd' })),
+    ).rejects.toThrow('Requires permission: checkin.scan');
+  });
+
+  it('treats :id as the event under the events controller', async () => {
+    const { guard } = setup({ 'evt-srd': ['event_admin'] });
+
+    await expect(
+      guard.canActivate(context(EventsFixture, 'findOne', [], { id: 'evt-srd' })),
+    ).resolves.toBe(true);
+    await expect(
+      guard.canActivate(context(CheckInsFixture, 'settings', [], { eventId: 'evt-other' })),
+    ).rejects.toThrow('Requires one of: event_admin');
+  });
+
+  it('resolves the event from the order on order and refund routes', async () => {
+    const { guard } = setup({ 'evt-srd': ['event_admin'] });
+
+    await expect(
+      guard.canActivate(context(OrdersFixture, 'cancel', [], { id: 'ord-srd' })),
+    ).resolves.toBe(true);
+    await expect(
+      guard.canActivate(context(PaymentsFixture, 'refund', [], {}, undefined, { orderId: 'ord-srd' })),
+    ).resolves.toBe(true);
+    await expect(
+      guard.canActivate(context(PaymentsFixture, 'refund', [], {}, undefined, { orderId: 'ord-other' })),
+    ).rejects.toThrow('Requires permission: orders.refund');
+  });
+
+  it('lets an API key through only with the scope and for its own event', async () => {
+    const { guard } = setup();
+    const key = { id: 'key-1', orgId: 'org-1', eventId: 'evt-srd', scopes: ['write:checkins'] };
+
+    await expect(
+      guard.canActivate(context(CheckInsFixture, 'scan', [], { eventId: 'evt-srd' }, key)),
+    ).resolves.toBe(true);
+    await expect(
+      guard.canActivate(context(CheckInsFixture, 'scan', [], { eventId: 'evt-other' }, key)),
+    ).rejects.toThrow('API key does not cover this event');
+    await expect(
+      guard.canActivate(
+        context(CheckInsFixture, 'scan', [], { eventId: 'evt-srd' }, { ...key, scopes: ['read:checkins'] }),
+      ),
+    ).rejects.toThrow('API key lacks scope: write:checkins');
+  });
+
+  it('rejects API keys on endpoints without @ApiKeyScope', async () => {
+    const { guard } = setup();
+    const key = { id: 'key-1', orgId: 'org-1', eventId: 'evt-srd', scopes: ['write:checkins'] };
+
+    await expect(
+      guard.canActivate(context(CheckInsFixture, 'settings', [], { eventId: 'evt-srd' }, key)),
+    ).rejects.toThrow('This endpoint does not accept API keys');
+  });
+});
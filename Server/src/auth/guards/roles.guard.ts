@@ -5,25 +5,55 @@ import {
   ForbiddenException,
 } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
+import { PATH_METADATA } from '@nestjs/common/constants';
 import { ROLES_KEY } from '../decorators/roles.decorator';
+import { PERMISSIONS_KEY } from '../decorators/require-permission.decorator';
+import { API_KEY_SCOPES_KEY } from '../decorators/api-key-scope.decorator';
+import { PrismaService } from '../../prisma/prisma.service';
+import { PermissionsService } from '../../permissions/permissions.service';
+import { ApiKeysService, ApiKeyPrincipal } from '../../api-keys/api-keys.service';
+import type { Permission } from '../../permissions/permissions.constants';
+import type { ApiKeyScopeName } from '../../api-keys/api-keys.constants';
 
+/**
+ * Checks @Roles() and @RequirePermission() metadata.
+ *
+ * Global and org-scoped roles come from the JWT. When the route carries an
+ * event (`:eventId`, or `:id` under an `events` controller), the user's
+ * event-scoped grants for that event are loaded as well — so a gate_staff
+ * grant for one event does not open the check-in endpoints of another.
+ * Order routes (`:id` under an `orders` controller, or an `orderId` in the
+ * body such as `payments/refund`) resolve the event from the order.
+ * Routes without an event or order only see the JWT roles.
+ *
+ * API keys (see ApiKeyOrJwtGuard) carry no roles: they pass only on routes
+ * marked @ApiKeyScope() for which they hold every scope, and only for an
+ * event they cover.
+ */
 @Injectable()
 export class RolesGuard implements CanActivate {
-  constructor(private readonly reflector: Reflector) {}
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly permissions: PermissionsService,
+    private readonly apiKeys: ApiKeysService,
+    private readonly prisma: PrismaService,
+  ) {}
 
-  canActivate(context: ExecutionContext): boolean {
-    const requiredRoles = this.reflector.getAllAndOverride<string[]>(ROLES_KEY, [
-      context.getHandler(),
-      context.getClass(),
-    ]);
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const targets = [context.getHandler(), context.getClass()];
+    const requiredRoles = this.reflector.getAllAndOverride<string[]>(ROLES_KEY, targets);
+    const requiredPermissions = this.reflector.getAllAndOverride<Permission[]>(PERMISSIONS_KEY, targets);
+    const request = context.switchToHttp().getRequest();
+    const user = request.user;
 
-    // No roles required = public endpoint
-    if (!requiredRoles || requiredRoles.length === 0) {
-      return true;
+    if (user?.apiKey) {
+      return this.authorizeApiKey(context, user.apiKey, request);
     }
 
-    const request = context.switchToHttp().getRequest();
-    const user = request.user;
+    // No roles or permissions required = public endpoint
+    if (!requiredRoles?.length && !requiredPermissions?.length) {
+      return true;
+    }
 
     if (!user || !user.roles) {
       throw new ForbiddenException('No roles assigned');
@@ -35,16 +65,95 @@ export class RolesGuard implements CanActivate {
       return true;
     }
 
-    const hasRole = requiredRoles.some((role: string) =>
-      user.roles.includes(role),
+    if (await this.isAllowed(user.roles, requiredRoles, requiredPermissions)) {
+      return true;
+    }
+
+    // Fall back to grants scoped to the event in the route
+    const eventId = await this.resolveEventId(context, request);
+    if (eventId) {
+      const eventRoles = await this.permissions.eventRoles(user.sub, eventId);
+      if (
+        eventRoles.length > 0 &&
+        (await this.isAllowed([...user.roles, ...eventRoles], requiredRoles, requiredPermissions))
+      ) {
+        return true;
+      }
+    }
+
+    throw new ForbiddenException(
+      requiredPermissions?.length
+        ? `Requires permission: ${requiredPermissions.join(', ')}`
+        : `Requires one of: ${requiredRoles.join(', ')}`,
     );
+  }
 
-    if (!hasRole) {
-      throw new ForbiddenException(
-        `Requires one of: ${requiredRoles.join(', ')}`,
-      );
+  private async isAllowed(
+    roles: string[],
+    requiredRoles: string[] | undefined,
+    requiredPermissions: Permission[] | undefined,
+  ): Promise<boolean> {
+    if (requiredRoles?.length && !requiredRoles.some((role) => roles.includes(role))) {
+      return false;
+    }
+    if (requiredPermissions?.length) {
+      for (const permission of requiredPermissions) {
+        if (await this.permissions.hasPermission(roles, permission)) return true;
+      }
+      return false;
+    }
+    return true;
+  }
+
+  private async authorizeApiKey(
+    context: ExecutionContext,
+    key: ApiKeyPrincipal,
+    request: { params?: Record<string, string>; body?: unknown },
+  ): Promise<boolean> {
+    const requiredScopes = this.reflector.getAllAndOverride<ApiKeyScopeName[]>(API_KEY_SCOPES_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (!requiredScopes?.length) {
+      throw new ForbiddenException('This endpoint does not accept API keys');
     }
 
+    const missing = requiredScopes.filter((s) => !key.scopes.includes(s));
+    if (missing.length > 0) {
+      throw new ForbiddenException(`API key lacks scope: ${missing.join(', ')}`);
+    }
+
+    const eventId = await this.resolveEventId(context, request);
+    if (!eventId || !(await this.apiKeys.coversEvent(key, eventId))) {
+      throw new ForbiddenException('API key does not cover this event');
+    }
     return true;
   }
+
+  private async resolveEventId(
+    context: ExecutionContext,
+    request: { params?: Record<string, string>; body?: unknown },
+  ): Promise<string | undefined> {
+    const params = request.params ?? {};
+    if (params.eventId) return params.eventId;
+    const controllerPath = this.reflector.get(PATH_METADATA, context.getClass());
+    const basePath = typeof controllerPath === 'string' ? controllerPath.replace(/^\//, '') : '';
+    if (params.id && basePath.startsWith('events')) {
+      return params.id;
+    }
+
+    // Guards run before validation, so the body is still untrusted input
+    const bodyOrderId = (request.body as { orderId?: unknown } | undefined)?.orderId;
+    const orderId = params.id && basePath.startsWith('orders')
+      ? params.id
+      : typeof bodyOrderId === 'string' ? bodyOrderId : undefined;
+    if (orderId) {
+      const order = await this.prisma.order.findUnique({
+        where: { id: orderId },
+        select: { eventId: true },
+      });
+      return order?.eventId;
+    }
+    return undefined;
+  }
 }
@@ -18,10 +18,14 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
    * Called by Passport after JWT is verified.
    * Return value is attached to request.user.
    */
-  validate(payload: JwtPayload): JwtPayload {
+  validate(payload: JwtPayload & { type?: string }): JwtPayload {
     if (!payload.sub) {
       throw new UnauthorizedException('Invalid token payload');
     }
+    // Refresh tokens and 2FA challenge tokens are not access tokens
+    if (payload.type) {
+      throw new UnauthorizedException('Invalid token type');
+    }
     return payload;
   }
 }
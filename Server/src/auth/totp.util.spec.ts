@@ -0,0 +1,39 @@
+import { base32Decode, base32Encode, totpCode, verifyTotp, matchTotpStep, totpProvisioningUri } from './totp.util';
+
+describe('totp.util', () => {
+  // RFC 6238 appendix B, SHA1 seed "12345678901234567890"
+  const rfcSecret = base32Encode(Buffer.from('12345678901234567890'));
+
+  it('round-trips base32', () => {
+    expect(rfcSecret).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    expect(base32Decode(rfcSecret).toString()).toBe('12345678901234567890');
+  });
+
+  it('matches the RFC 6238 test vectors', () => {
+    expect(totpCode(rfcSecret, 59_000, 8)).toBe('94287082');
+    expect(totpCode(rfcSecret, 1_111_111_109_000, 8)).toBe('07081804');
+    expect(totpCode(rfcSecret, 1_234_567_890_000, 8)).toBe('89005924');
+  });
+
+  it('accepts one step of drift but not more', () => {
+    const now = 1_700_000_000_000;
+    expect(verifyTotp(rfcSecret, totpCode(rfcSecret, now - 30_000), now)).toBe(true);
+    expect(verifyTotp(rfcSecret, totpCode(rfcSecret, now + 30_000), now)).toBe(true);
+    expect(verifyTotp(rfcSecret, totpCode(rfcSecret, now - 90_000), now)).toBe(false);
+    expect(verifyTotp(rfcSecret, 'abc123', now)).toBe(false);
+  });
+
+  it('reports the time step a code belongs to', () => {
+    const now = 1_700_000_000_000;
+    const step = Math.floor(now / 30_000);
+    expect(matchTotpStep(rfcSecret, totpCode(rfcSecret, now), now)).toBe(step);
+    expect(matchTotpStep(rfcSecret, totpCode(rfcSecret, now - 30_000), now)).toBe(step - 1);
+    expect(matchTotpStep(rfcSecret, '000000', now)).toBeNull();
+  });
+
+  it('builds an otpauth provisioning URI', () => {
+    expect(totpProvisioningUri('ABC', 'ada@example.com', 'SRAtix')).toBe(
+      'otpauth://totp/SRAtix%3Aada%40example.com?secret=ABC&issuer=SRAtix&algorithm=SHA1&digits=6&period=30',
+    );
+  });
+});
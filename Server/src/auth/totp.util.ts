@@ -0,0 +1,96 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+/**
+ * Time-based one-time passwords (RFC 6238, HMAC-SHA1, 6 digits, 30 s step)
+ * as used by Google Authenticator, 1Password, Authy and friends.
+ */
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+
+export function base32Encode(buf: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let out = '';
+  for (const byte of buf) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return out;
+}
+
+export function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of clean) {
+    const idx = BASE32_ALPHABET.indexOf(char);
+    if (idx === -1) throw new Error(`Invalid base32 character "${char}"`);
+    value = (value << 5) | idx;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/** New random 160-bit secret, base32-encoded (the RFC 4226 recommended length). */
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+/** The code for a given moment (defaults to now). */
+export function totpCode(secret: string, at: number = Date.now(), digits = DIGITS): string {
+  const counter = Math.floor(at / 1000 / STEP_SECONDS);
+  const msg = Buffer.alloc(8);
+  msg.writeBigUInt64BE(BigInt(counter));
+  const hmac = createHmac('sha1', base32Decode(secret)).update(msg).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** digits).padStart(digits, '0');
+}
+
+/**
+ * The time step a user-entered code belongs to, accepting one step of clock
+ * drift either way, or null when it matches none. Callers store the step so
+ * a code cannot be replayed within its validity window.
+ */
+export function matchTotpStep(secret: string, code: string, at: number = Date.now()): number | null {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d{6}$/.test(normalized)) return null;
+  for (const drift of [-1, 0, 1]) {
+    const moment = at + drift * STEP_SECONDS * 1000;
+    const expected = totpCode(secret, moment);
+    if (timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return Math.floor(moment / 1000 / STEP_SECONDS);
+    }
+  }
+  return null;
+}
+
+/** Check a user-entered code (see matchTotpStep). */
+export function verifyTotp(secret: string, code: string, at: number = Date.now()): boolean {
+  return matchTotpStep(secret, code, at) !== null;
+}
+
+/** `otpauth://` provisioning URI, rendered as a QR code during enrolment. */
+export function totpProvisioningUri(secret: string, account: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${account}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(DIGITS),
+    period: String(STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
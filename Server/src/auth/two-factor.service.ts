@@ -0,0 +1,311 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import * as QRCode from 'qrcode';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditLogService, AuditAction } from '../audit-log/audit-log.service';
+import { SettingsService } from '../settings/settings.service';
+import { generateTotpSecret, totpProvisioningUri, matchTotpStep } from './totp.util';
+
+/** Prefix of the encrypted secret as stored in users.totpSecret. */
+const ENC_PREFIX = 'enc:v1:';
+
+/** Number of recovery codes issued per enrolment / regeneration. */
+const RECOVERY_CODE_COUNT = 10;
+
+/** Issuer shown in the authenticator app. */
+const TOTP_ISSUER = 'SRAtix';
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: Date | null;
+  recoveryCodesRemaining: number;
+  /** True when one of the user's roles is listed in two_factor_required_roles. */
+  required: boolean;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  /** PNG data URL of the provisioning QR code. */
+  qrDataUrl: string;
+}
+
+/**
+ * Two-factor authentication — TOTP enrolment, verification and recovery codes.
+ *
+ * The secret is kept AES-256-GCM encrypted with a key derived from
+ * JWT_SECRET (same scheme as sensitive settings). Recovery codes are stored
+ * as SHA-256 hashes and removed once used.
+ */
+@Injectable()
+export class TwoFactorService {
+  private readonly logger = new Logger(TwoFactorService.name);
+  private readonly encKey: Buffer | null;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly config: ConfigService,
+    private readonly audit: AuditLogService,
+    private readonly settings: SettingsService,
+  ) {
+    const secret = this.config.get<string>('JWT_SECRET');
+    this.encKey = secret ? createHash('sha256').update(secret).digest() : null;
+  }
+
+  /** Roles that must use 2FA, from the two_factor_required_roles setting. */
+  async requiredRoles(): Promise<string[]> {
+    const raw = await this.settings.resolve('two_factor_required_roles', '');
+    return raw.split(',').map((r) => r.trim()).filter(Boolean);
+  }
+
+  async isRequiredFor(roles: string[]): Promise<boolean> {
+    const required = await this.requiredRoles();
+    return roles.some((r) => required.includes(r));
+  }
+
+  async status(userId: string, roles: string[]): Promise<TwoFactorStatus> {
+    const user = await this.findUser(userId);
+    return {
+      enabled: !!user.totpEnabledAt,
+      enabledAt: user.totpEnabledAt,
+      recoveryCodesRemaining: this.storedCodes(user.totpRecoveryCodes).length,
+      required: await this.isRequiredFor(roles),
+    };
+  }
+
+  /**
+   * Start enrolment: generate a fresh secret and return it with its QR code.
+   * The secret is stored but 2FA stays off until `confirmEnrolment`.
+   */
+  async beginEnrolment(userId: string): Promise<TwoFactorSetup> {
+    const user = await this.findUser(userId);
+    if (user.totpEnabledAt) {
+      throw new ConflictException('Two-factor authentication is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { totpSecret: this.encrypt(secret), totpRecoveryCodes: [] },
+    });
+
+    const otpauthUrl = totpProvisioningUri(secret, user.email, TOTP_ISSUER);
+    const qrDataUrl = await QRCode.toDataURL(otpauthUrl, { margin: 1, width: 220 });
+    return { secret, otpauthUrl, qrDataUrl };
+  }
+
+  /**
+   * Finish enrolment with the first code from the app. Returns the recovery
+   * codes — the only time they are shown in plain text.
+   */
+  async confirmEnrolment(
+    userId: string,
+    code: string,
+    meta?: { ip?: string; userAgent?: string },
+  ): Promise<{ recoveryCodes: string[] }> {
+    const user = await this.findUser(userId);
+    if (user.totpEnabledAt) {
+      throw new ConflictException('Two-factor authentication is already enabled');
+    }
+    if (!user.totpSecret) {
+      throw new BadRequestException('Start two-factor setup first');
+    }
+    if (!(await this.acceptTotp(userId, user.totpSecret, code))) {
+      throw new BadRequestException('Invalid authentication code');
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: {
+        totpEnabledAt: new Date(),
+        totpRecoveryCodes: recoveryCodes.map((c) => this.hashCode(c)),
+      },
+    });
+
+    this.audit.log({
+      userId,
+      action: AuditAction.AUTH_2FA_ENABLED,
+      entity: 'user',
+      entityId: userId,
+      ip: meta?.ip,
+      userAgent: meta?.userAgent,
+    });
+    this.logger.log(`2FA enabled for user ${userId}`);
+
+    return { recoveryCodes };
+  }
+
+  /**
+   * Check a login code: either the current TOTP or an unused recovery code
+   * (which is consumed). Returns how the user authenticated, or null.
+   * A TOTP code is accepted once; see acceptTotp.
+   */
+  async verifyCode(userId: string, code: string): Promise<'totp' | 'recovery_code' | null> {
+    const user = await this.findUser(userId);
+    if (!user.totpEnabledAt || !user.totpSecret) return null;
+
+    if (await this.acceptTotp(userId, user.totpSecret, code)) return 'totp';
+
+    const hash = this.hashCode(code);
+    const stored = this.storedCodes(user.totpRecoveryCodes);
+    if (!stored.includes(hash)) return null;
+
+    // Only consume the code if the list is still the one we read — a
+    // concurrent request with the same code then updates nothing and fails
+    const { count } = await this.prisma.user.updateMany({
+      where: { id: userId, totpRecoveryCodes: { equals: stored } },
+      data: { totpRecoveryCodes: stored.filter((h) => h !== hash) },
+    });
+    if (count === 0) return null;
+    this.audit.log({
+      userId,
+      action: AuditAction.AUTH_2FA_RECOVERY_CODE_USED,
+      entity: 'user',
+      entityId: userId,
+      detail: { remaining: stored.length - 1 },
+    });
+    return 'recovery_code';
+  }
+
+  /** Replace all recovery codes (requires a valid code). */
+  async regenerateRecoveryCodes(userId: string, code: string): Promise<{ recoveryCodes: string[] }> {
+    if (!(await this.verifyCode(userId, code))) {
+      throw new BadRequestException('Invalid authentication code');
+    }
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { totpRecoveryCodes: recoveryCodes.map((c) => this.hashCode(c)) },
+    });
+
+    this.audit.log({
+      userId,
+      action: AuditAction.AUTH_2FA_RECOVERY_CODES_REGENERATED,
+      entity: 'user',
+      entityId: userId,
+    });
+
+    return { recoveryCodes };
+  }
+
+  /**
+   * Turn 2FA off from the user's own profile (requires a valid code).
+   * Not allowed while one of the user's roles requires 2FA.
+   */
+  async disable(userId: string, roles: string[], code: string): Promise<{ success: boolean }> {
+    if (await this.isRequiredFor(roles)) {
+      throw new ForbiddenException('Two-factor authentication is required for your role');
+    }
+    if (!(await this.verifyCode(userId, code))) {
+      throw new BadRequestException('Invalid authentication code');
+    }
+    await this.clear(userId);
+
+    this.audit.log({
+      userId,
+      action: AuditAction.AUTH_2FA_DISABLED,
+      entity: 'user',
+      entityId: userId,
+    });
+
+    return { success: true };
+  }
+
+  /**
+   * Admin reset for a user who lost their device and recovery codes.
+   * The user enrols again at next sign-in if their role requires it.
+   */
+  async reset(userId: string, actorUserId: string): Promise<{ success: boolean }> {
+    await this.findUser(userId);
+    await this.clear(userId);
+
+    this.audit.log({
+      userId: actorUserId,
+      action: AuditAction.AUTH_2FA_RESET,
+      entity: 'user',
+      entityId: userId,
+    });
+    this.logger.log(`2FA reset for user ${userId} by ${actorUserId}`);
+
+    return { success: true };
+  }
+
+  // ─── Internals ────────────────────────────────────────────────
+
+  private async findUser(userId: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true, totpSecret: true, totpEnabledAt: true, totpRecoveryCodes: true },
+    });
+    if (!user) throw new NotFoundException('User not found');
+    return user;
+  }
+
+  private clear(userId: string) {
+    return this.prisma.user.update({
+      where: { id: userId },
+      data: { totpSecret: null, totpEnabledAt: null, totpRecoveryCodes: [], totpLastStep: null },
+    });
+  }
+
+  /**
+   * Verify a TOTP code and burn its time step. The conditional update only
+   * succeeds for a step newer than the last accepted one, so a code seen
+   * once (or an older one) cannot be replayed — not even by two concurrent
+   * requests.
+   */
+  private async acceptTotp(userId: string, encryptedSecret: string, code: string): Promise<boolean> {
+    const step = matchTotpStep(this.decrypt(encryptedSecret), code);
+    if (step === null) return false;
+    const { count } = await this.prisma.user.updateMany({
+      where: { id: userId, OR: [{ totpLastStep: null }, { totpLastStep: { lt: step } }] },
+      data: { totpLastStep: step },
+    });
+    return count === 1;
+  }
+
+  /** Recovery codes look like `k4f9-2xq7` — easy to read out and type. */
+  private generateRecoveryCodes(): string[] {
+    const alphabet = 'abcdefghjkmnpqrstuvwxyz23456789';
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const bytes = randomBytes(8);
+      const chars = Array.from(bytes, (b) => alphabet[b % alphabet.length]).join('');
+      return `${chars.slice(0, 4)}-${chars.slice(4)}`;
+    });
+  }
+
+  private hashCode(code: string): string {
+    const normalized = code.trim().toLowerCase().replace(/[\s-]/g, '');
+    return createHash('sha256').update(normalized).digest('hex');
+  }
+
+  private storedCodes(value: unknown): string[] {
+    return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+  }
+
+  private encrypt(plaintext: string): string {
+    if (!this.encKey) return plaintext;
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.encKey, iv);
+    const encrypted = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    const authTag = cipher.getAuthTag();
+    return ENC_PREFIX + [iv.toString('hex'), authTag.toString('hex'), encrypted.toString('hex')].join(':');
+  }
+
+  private decrypt(ciphertext: string): string {
+    if (!this.encKey || !ciphertext.startsWith(ENC_PREFIX)) return ciphertext;
+    const [ivHex, tagHex, dataHex] = ciphertext.slice(ENC_PREFIX.length).split(':');
+    const decipher = createDecipheriv('aes-256-gcm', this.encKey, Buffer.from(ivHex, 'hex'));
+    decipher.setAuthTag(Buffer.from(tagHex, 'hex'));
+    return decipher.update(Buffer.from(dataHex, 'hex'), undefined, 'utf8') + decipher.final('utf8');
+  }
+}
@@ -0,0 +1,345 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { PrismaService } from '../prisma/prisma.service';
+import { QueueService } from '../queue/queue.service';
+import { BadgeTemplatesService } from './badge-templates.service';
+import { computeSheetGrid, drawCropMarks, type PaperSize } from './badge-imposition';
+
+/**
+ * Finished PDFs hold names and QR payloads, so they are kept out of the
+ * publicly served uploads/ directory and streamed through the API instead.
+ */
+const STORAGE_DIR = resolve(__dirname, '..', '..', 'storage');
+
+/** Persist progress every N badges (the dashboard polls it). */
+const PROGRESS_EVERY = 5;
+
+export interface BadgeBatchFilters {
+  ticketTypeIds?: string[];
+  tags?: string[];
+  checkIn?: 'all' | 'checked_in' | 'not_checked_in';
+}
+
+export interface BadgeBatchOptions {
+  paper: PaperSize;
+  sort: 'name' | 'company';
+  cropMarks: boolean;
+  marginMm: number;
+  gutterMm: number;
+}
+
+interface BatchTicket {
+  id: string;
+  attendee: {
+    firstName: string;
+    lastName: string;
+    badgeName: string | null;
+    company: string | null;
+    tags: unknown;
+  } | null;
+  order: { customerName: string | null } | null;
+}
+
+/**
+ * Badge Batch Service — renders every selected ticket's badge into one
+ * print-ready PDF, imposed N-up on A4/Letter sheets with crop marks.
+ *
+ * Lifecycle: queued → running → completed | failed
+ *
+ * The work runs as a `badge.batch` job on the 'badge' queue. Without Redis
+ * the job is processed inline in the background, yielding to the event loop
+ * between badges so the API stays responsive; the HTTP request returns the
+ * queued batch immediately either way and the dashboard polls progress.
+ */
+@Injectable()
+export class BadgeBatchService implements OnModuleInit {
+  private readonly logger = new Logger(BadgeBatchService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly queue: QueueService,
+    private readonly templates: BadgeTemplatesService,
+  ) {}
+
+  async onModuleInit() {
+    if (!this.queue.isAvailable()) {
+      this.logger.debug('Queue not available — badge batches run inline');
+      // Inline batches die with the process — don't leave them spinning
+      const { count } = await this.prisma.badgeBatch.updateMany({
+        where: { status: { in: ['queued', 'running'] } },
+        data: { status: 'failed', error: 'Interrupted by server restart', completedAt: new Date() },
+      });
+      if (count > 0) this.logger.warn(`Marked ${count} interrupted badge batch(es) as failed`);
+      return;
+    }
+
+    await this.queue.registerWorker(
+      'badge',
+      async (job) => {
+        if (job.name === 'badge.batch') {
+          await this.process((job.data as { batchId: string }).batchId);
+        } else {
+          this.logger.warn(`Unknown badge job: ${job.name}`);
+        }
+      },
+      1, // rendering is CPU-bound — one batch at a time
+    );
+  }
+
+  // ─── Batches ──────────────────────────────────────────────────
+
+  async create(
+    eventId: string,
+    data: { templateId: string; filters?: BadgeBatchFilters; options?: Partial<BadgeBatchOptions> },
+    userId?: string,
+  ) {
+    const template = await this.templates.findOne(data.templateId, eventId);
+    if (!template.active) {
+      throw new BadRequestException('Badge template is inactive');
+    }
+    // Fail fast instead of after the job started
+    await this.templates.loadFonts(eventId);
+
+    const options: BadgeBatchOptions = {
+      paper: data.options?.paper ?? 'A4',
+      sort: data.options?.sort ?? 'name',
+      cropMarks: data.options?.cropMarks ?? true,
+      marginMm: data.options?.marginMm ?? 10,
+      gutterMm: data.options?.gutterMm ?? 0,
+    };
+    const dims = template.dimensions as { widthMm: number; heightMm: number };
+    try {
+      computeSheetGrid(options.paper, dims, options.marginMm, options.gutterMm);
+    } catch (err) {
+      throw new BadRequestException(err instanceof Error ? err.message : String(err));
+    }
+
+    const filters = data.filters ?? {};
+    const total = (await this.selectTickets(eventId, filters, options.sort)).length;
+    if (total === 0) {
+      throw new BadRequestException('No tickets match the selected filters');
+    }
+
+    const batch = await this.prisma.badgeBatch.create({
+      data: {
+        eventId,
+        templateId: template.id,
+        filters: filters as any,
+        options: options as any,
+        total,
+        requestedBy: userId ?? null,
+      },
+    });
+
+    const jobId = await this.queue.addJob('badge.batch', { batchId: batch.id, eventId });
+    if (!jobId) {
+      this.process(batch.id).catch((err) =>
+        this.logger.error(`Inline badge batch ${batch.id} crashed: ${err}`),
+      );
+    }
+
+    this.logger.log(`Badge batch ${batch.id} queued: ${total} badge(s)${jobId ? '' : ' (inline)'}`);
+    return batch;
+  }
+
+  async findByEvent(eventId: string) {
+    return this.prisma.badgeBatch.findMany({
+      where: { eventId },
+      orderBy: { createdAt: 'desc' },
+      take: 50,
+    });
+  }
+
+  async findOne(id: string, eventId: string) {
+    const batch = await this.prisma.badgeBatch.findFirst({ where: { id, eventId } });
+    if (!batch) throw new NotFoundException(`Badge batch ${id} not found`);
+    return batch;
+  }
+
+  /** The finished PDF. */
+  async readFile(id: string, eventId: string): Promise<Buffer> {
+    const batch = await this.findOne(id, eventId);
+    if (batch.status !== 'completed' || !batch.storagePath) {
+      throw new BadRequestException(`Badge batch is ${batch.status}`);
+    }
+    const path = join(STORAGE_DIR, batch.storagePath);
+    if (!existsSync(path)) {
+      throw new NotFoundException('Badge batch file no longer exists');
+    }
+    return readFileSync(path);
+  }
+
+  // ─── Processing ───────────────────────────────────────────────
+
+  /**
+   * Render and impose all badges of a batch. Safe to re-run (BullMQ
+   * retries): progress restarts from zero and the file is overwritten.
+   */
+  async process(batchId: string): Promise<void> {
+    const batch = await this.prisma.badgeBatch.findUnique({ where: { id: batchId } });
+    if (!batch || batch.status === 'completed') return;
+
+    await this.prisma.badgeBatch.update({
+      where: { id: batchId },
+      data: { status: 'running', done: 0, startedAt: new Date(), error: null },
+    });
+
+    try {
+      const options = batch.options as unknown as BadgeBatchOptions;
+      const template = await this.templates.findOne(batch.templateId, batch.eventId);
+      const dims = template.dimensions as { widthMm: number; heightMm: number; widthPx: number };
+      const event = await this.prisma.event.findUnique({
+        where: { id: batch.eventId },
+        select: { name: true },
+      });
+      const fonts = await this.templates.loadFonts(batch.eventId);
+      const tickets = await this.selectTickets(
+        batch.eventId,
+        (batch.filters ?? {}) as BadgeBatchFilters,
+        options.sort,
+      );
+      const contexts = await this.templates.buildContexts(batch.eventId, tickets.map((t) => t.id));
+
+      const grid = computeSheetGrid(options.paper, dims, options.marginMm, options.gutterMm);
+      const { PDFDocument } = await import('pdf-lib');
+      const pdfDoc = await PDFDocument.create();
+      pdfDoc.setTitle(`${event?.name ?? 'Event'} — badges`);
+
+      let page = null as ReturnType<typeof pdfDoc.addPage> | null;
+      for (let i = 0; i < tickets.length; i++) {
+        const slot = i % grid.perSheet;
+        if (slot === 0) {
+          page = pdfDoc.addPage([grid.pageWidth, grid.pageHeight]);
+          if (options.cropMarks) drawCropMarks(page, grid);
+        }
+
+        const svg = await this.templates.renderSvg(
+          template,
+          contexts.get(tickets[i].id) ?? {},
+          fonts,
+        );
+        const png = await pdfDoc.embedPng(await this.templates.rasterize(svg, dims.widthPx));
+        page!.drawImage(png, {
+          ...grid.slots[slot],
+          width: grid.badgeWidth,
+          height: grid.badgeHeight,
+        });
+
+        const done = i + 1;
+        if (done % PROGRESS_EVERY === 0 || done === tickets.length) {
+          await this.prisma.badgeBatch.update({ where: { id: batchId }, data: { done } });
+        }
+        // Let HTTP requests through between badges (matters when inline)
+        await new Promise((r) => setImmediate(r));
+      }
+
+      const bytes = Buffer.from(await pdfDoc.save());
+      const storagePath = `badge-batches/${batch.eventId}/${batch.id}.pdf`;
+      mkdirSync(join(STORAGE_DIR, 'badge-batches', batch.eventId), { recursive: true });
+      writeFileSync(join(STORAGE_DIR, storagePath), bytes);
+
+      await this.prisma.badgeBatch.update({
+        where: { id: batchId },
+        data: {
+          status: 'completed',
+          total: tickets.length,
+          done: tickets.length,
+          pages: pdfDoc.getPageCount(),
+          storagePath,
+          fileSize: bytes.length,
+          completedAt: new Date(),
+        },
+      });
+      this.logger.log(
+        `Badge batch ${batchId} completed: ${tickets.length} badge(s) on ${pdfDoc.getPageCount()} sheet(s), ${bytes.length} bytes`,
+      );
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      await this.prisma.badgeBatch.update({
+        where: { id: batchId },
+        data: { status: 'failed', error: message.slice(0, 500), completedAt: new Date() },
+      });
+      this.logger.error(`Badge batch ${batchId} failed: ${message}`);
+      throw err;
+    }
+  }
+
+  // ─── Internals ────────────────────────────────────────────────
+
+  /**
+   * Tickets matching the filters, sorted for printing. Voided and
+   * transferred tickets never get a badge.
+   */
+  private async selectTickets(
+    eventId: string,
+    filters: BadgeBatchFilters,
+    sort: BadgeBatchOptions['sort'],
+  ): Promise<BatchTicket[]> {
+    const statuses =
+      filters.checkIn === 'checked_in' ? ['used']
+        : filters.checkIn === 'not_checked_in' ? ['valid']
+          : ['valid', 'used'];
+
+    const tickets: BatchTicket[] = await this.prisma.ticket.findMany({
+      where: {
+        eventId,
+        status: { in: statuses },
+        ...(filters.ticketTypeIds?.length ? { ticketTypeId: { in: filters.ticketTypeIds } } : {}),
+      },
+      select: {
+        id: true,
+        attendee: {
+          select: { firstName: true, lastName: true, badgeName: true, company: true, tags: true },
+        },
+        order: { select: { customerName: true } },
+      },
+    });
+
+    const wanted = filters.tags?.length ? new Set(filters.tags) : null;
+    const selected = wanted
+      ? tickets.filter((t) => {
+          const tags = Array.isArray(t.attendee?.tags) ? (t.attendee!.tags as unknown[]) : [];
+          return tags.some((tag) => typeof tag === 'string' && wanted.has(tag));
+        })
+      : tickets;
+
+    return sortForPrint(selected, sort);
+  }
+}
+
+function displayName(ticket: BatchTicket): string {
+  const a = ticket.attendee;
+  if (a?.badgeName) return a.badgeName;
+  if (a) return `${a.firstName} ${a.lastName}`.trim();
+  return ticket.order?.customerName ?? '';
+}
+
+/**
+ * Alphabetical by last name (then first name), or by company with
+ * attendees of the same company grouped alphabetically. Tickets without a
+ * company sort last.
+ */
+export function sortForPrint<T extends BatchTicket>(tickets: T[], sort: BadgeBatchOptions['sort']): T[] {
+  const collator = new Intl.Collator('de', { sensitivity: 'base', numeric: true });
+  const byName = (a: T, b: T) =>
+    collator.compare(a.attendee?.lastName ?? displayName(a), b.attendee?.lastName ?? displayName(b)) ||
+    collator.compare(a.attendee?.firstName ?? '', b.attendee?.firstName ?? '');
+
+  return [...tickets].sort((a, b) => {
+    if (sort === 'company') {
+      const ca = a.attendee?.company?.trim() ?? '';
+      const cb = b.attendee?.company?.trim() ?? '';
+      if (!ca !== !cb) return ca ? -1 : 1;
+      const byCompany = collator.compare(ca, cb);
+      if (byCompany !== 0) return byCompany;
+    }
+    return byName(a, b);
+  });
+}
@@ -0,0 +1,149 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Body,
+  Res,
+  UseGuards,
+} from '@nestjs/common';
+import type { FastifyReply } from 'fastify';
+import {
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsNotEmpty,
+  Max,
+  Min,
+} from 'class-validator';
+import { AuthGuard } from '@nestjs/passport';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { JwtPayload } from '../auth/auth.service';
+import { BadgeBatchService } from './badge-batch.service';
+
+// ─── DTOs ───────────────────────────────────────────────────────
+
+class CreateBadgeBatchDto {
+  @IsString()
+  @IsNotEmpty()
+  templateId!: string;
+
+  // Filters — all optional, combined with AND
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  ticketTypeIds?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  tags?: string[];
+
+  @IsOptional()
+  @IsIn(['all', 'checked_in', 'not_checked_in'])
+  checkIn?: 'all' | 'checked_in' | 'not_checked_in';
+
+  // Print options
+  @IsOptional()
+  @IsIn(['name', 'company'])
+  sort?: 'name' | 'company';
+
+  @IsOptional()
+  @IsIn(['A4', 'Letter'])
+  paper?: 'A4' | 'Letter';
+
+  @IsOptional()
+  @IsBoolean()
+  cropMarks?: boolean;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(3)
+  @Max(30)
+  marginMm?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(20)
+  gutterMm?: number;
+}
+
+@Controller('badge-batches')
+@UseGuards(AuthGuard('jwt'), RolesGuard)
+export class BadgeBatchesController {
+  constructor(private readonly batches: BadgeBatchService) {}
+
+  /**
+   * POST /api/badge-batches/event/:eventId
+   * Start rendering a print-ready PDF of badges. Returns the queued batch;
+   * poll it for progress.
+   */
+  @Post('event/:eventId')
+  @Roles('event_admin', 'super_admin')
+  create(
+    @Param('eventId') eventId: string,
+    @Body() dto: CreateBadgeBatchDto,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    return this.batches.create(
+      eventId,
+      {
+        templateId: dto.templateId,
+        filters: { ticketTypeIds: dto.ticketTypeIds, tags: dto.tags, checkIn: dto.checkIn },
+        options: {
+          paper: dto.paper,
+          sort: dto.sort,
+          cropMarks: dto.cropMarks,
+          marginMm: dto.marginMm,
+          gutterMm: dto.gutterMm,
+        },
+      },
+      user.sub,
+    );
+  }
+
+  /**
+   * GET /api/badge-batches/event/:eventId
+   * Recent batches for an event, newest first.
+   */
+  @Get('event/:eventId')
+  @Roles('event_admin', 'super_admin')
+  findByEvent(@Param('eventId') eventId: string) {
+    return this.batches.findByEvent(eventId);
+  }
+
+  /**
+   * GET /api/badge-batches/:id/event/:eventId
+   * A single batch (status and progress).
+   */
+  @Get(':id/event/:eventId')
+  @Roles('event_admin', 'super_admin')
+  findOne(@Param('id') id: string, @Param('eventId') eventId: string) {
+    return this.batches.findOne(id, eventId);
+  }
+
+  /**
+   * GET /api/badge-batches/:id/event/:eventId/download
+   * Download the finished PDF.
+   */
+  @Get(':id/event/:eventId/download')
+  @Roles('event_admin', 'super_admin')
+  async download(
+    @Param('id') id: string,
+    @Param('eventId') eventId: string,
+    @Res() reply: FastifyReply,
+  ) {
+    const buffer = await this.batches.readFile(id, eventId);
+
+    reply
+      .header('Content-Type', 'application/pdf')
+      .header('Content-Disposition', `attachment; filename="badges-${id.slice(0, 8)}.pdf"`)
+      .send(buffer);
+  }
+}
@@ -0,0 +1,94 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Param,
+  Req,
+  UseGuards,
+  BadRequestException,
+} from '@nestjs/common';
+import type { FastifyRequest } from 'fastify';
+import { AuthGuard } from '@nestjs/passport';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { JwtPayload } from '../auth/auth.service';
+import { BadgeFontsService } from './badge-fonts.service';
+
+@Controller('badge-fonts')
+@UseGuards(AuthGuard('jwt'), RolesGuard)
+export class BadgeFontsController {
+  constructor(private readonly badgeFonts: BadgeFontsService) {}
+
+  /**
+   * GET /api/badge-fonts/event/:eventId
+   * List fonts usable by an event's badges (event-scoped + org-wide).
+   */
+  @Get('event/:eventId')
+  @Roles('event_admin', 'super_admin')
+  findForEvent(@Param('eventId') eventId: string) {
+    return this.badgeFonts.findForEvent(eventId);
+  }
+
+  /**
+   * POST /api/badge-fonts/event/:eventId
+   * Upload a TTF/OTF font. Multipart with:
+   *   - file:   the font file
+   *   - family: name layouts use in `style.fontFamily` (default: file name)
+   *   - weight: 100–900 (default 400)
+   *   - style:  'normal' | 'italic' (default 'normal')
+   *   - scope:  'event' | 'org' (default 'event')
+   *
+   * Fields may also be passed as query params (Fastify streams multipart
+   * sequentially, so fields appended after the file may not be available).
+   */
+  @Post('event/:eventId')
+  @Roles('event_admin', 'super_admin')
+  async upload(
+    @Param('eventId') eventId: string,
+    @Req() req: FastifyRequest,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    const data = await req.file();
+    if (!data) {
+      throw new BadRequestException('No file uploaded');
+    }
+
+    const query = (req.query as Record<string, string>) ?? {};
+    const field = (name: string): string | undefined =>
+      ((data.fields?.[name] as any)?.value as string | undefined) ?? query[name];
+
+    const scope = field('scope') ?? 'event';
+    if (scope !== 'event' && scope !== 'org') {
+      throw new BadRequestException('Field "scope" must be "event" or "org"');
+    }
+    const weight = field('weight');
+
+    return this.badgeFonts.upload(
+      eventId,
+      { buffer: await data.toBuffer(), originalName: data.filename },
+      {
+        family: field('family'),
+        weight: weight ? parseInt(weight, 10) : undefined,
+        style: field('style'),
+        scope,
+      },
+      user.sub,
+    );
+  }
+
+  /**
+   * DELETE /api/badge-fonts/:id/event/:eventId
+   * Remove a font. Templates still naming it fall back to another font.
+   */
+  @Delete(':id/event/:eventId')
+  @Roles('event_admin', 'super_admin')
+  remove(
+    @Param('id') id: string,
+    @Param('eventId') eventId: string,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    return this.badgeFonts.remove(id, eventId, user.sub);
+  }
+}
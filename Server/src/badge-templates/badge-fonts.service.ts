@@ -0,0 +1,212 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, unlinkSync, writeFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditLogService, AuditAction } from '../audit-log/audit-log.service';
+
+/** Same cap as the global multipart limit (main.ts). */
+const MAX_FONT_BYTES = 5 * 1024 * 1024;
+
+const UPLOADS_DIR = resolve(__dirname, '..', '..', 'uploads');
+
+/** Font as satori expects it in `SatoriOptions.fonts`. */
+export interface SatoriFont {
+  name: string;
+  data: Buffer;
+  weight: 100 | 200 | 300 | 400 | 500 | 600 | 700 | 800 | 900;
+  style: 'normal' | 'italic';
+}
+
+/**
+ * Sniff the font format from the file header. satori (opentype.js) reads
+ * TrueType and CFF-flavoured OpenType; WOFF2 and collections are rejected.
+ */
+export function detectFontFormat(buffer: Buffer): 'ttf' | 'otf' | null {
+  if (buffer.length < 12) return null;
+  const tag = buffer.subarray(0, 4);
+  if (tag.equals(Buffer.from([0x00, 0x01, 0x00, 0x00])) || tag.toString('latin1') === 'true') {
+    return 'ttf';
+  }
+  if (tag.toString('latin1') === 'OTTO') return 'otf';
+  return null;
+}
+
+/**
+ * Badge Fonts Service — registry of TTF/OTF files used by badge layouts.
+ *
+ * Fonts are uploaded per event or org-wide (`eventId` null) and referenced
+ * in layouts by family name through `style.fontFamily`. When rendering, the
+ * event's own fonts win over org fonts with the same family/weight/style.
+ *
+ * Files are stored under uploads/badge-fonts/<orgId>/ with a random name;
+ * loaded buffers are cached in memory by font id (files never change —
+ * a re-upload creates a new row).
+ */
+@Injectable()
+export class BadgeFontsService {
+  private readonly logger = new Logger(BadgeFontsService.name);
+  private readonly cache = new Map<string, Buffer>();
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly audit: AuditLogService,
+  ) {}
+
+  /** Fonts usable by an event: its own plus the org-wide ones. */
+  async findForEvent(eventId: string) {
+    const event = await this.getEvent(eventId);
+    return this.prisma.badgeFont.findMany({
+      where: { orgId: event.orgId, OR: [{ eventId }, { eventId: null }] },
+      orderBy: [{ family: 'asc' }, { weight: 'asc' }],
+    });
+  }
+
+  async upload(
+    eventId: string,
+    file: { buffer: Buffer; originalName: string },
+    options: { family?: string; weight?: number; style?: string; scope?: 'event' | 'org' },
+    userId?: string,
+  ) {
+    const event = await this.getEvent(eventId);
+
+    if (file.buffer.length > MAX_FONT_BYTES) {
+      throw new BadRequestException(`Font file exceeds ${MAX_FONT_BYTES / 1024 / 1024} MB`);
+    }
+    const format = detectFontFormat(file.buffer);
+    if (!format) {
+      throw new BadRequestException('Only TrueType (.ttf) and OpenType (.otf) fonts are supported');
+    }
+
+    const family = (options.family ?? file.originalName.replace(/\.[^.]+$/, '')).trim();
+    if (!family || family.length > 100) {
+      throw new BadRequestException('Font family name must be 1–100 characters');
+    }
+    const weight = options.weight ?? 400;
+    if (!Number.isInteger(weight) || weight < 100 || weight > 900 || weight % 100 !== 0) {
+      throw new BadRequestException('Font weight must be one of 100, 200, …, 900');
+    }
+    const style = options.style ?? 'normal';
+    if (style !== 'normal' && style !== 'italic') {
+      throw new BadRequestException('Font style must be "normal" or "italic"');
+    }
+    const scopedEventId = options.scope === 'org' ? null : eventId;
+
+    const id = randomUUID();
+    const storagePath = `badge-fonts/${event.orgId}/${id}.${format}`;
+    mkdirSync(join(UPLOADS_DIR, 'badge-fonts', event.orgId), { recursive: true });
+    writeFileSync(join(UPLOADS_DIR, storagePath), file.buffer);
+
+    // Same family/weight/style in the same scope is a replacement
+    const replaced = await this.prisma.badgeFont.findMany({
+      where: { orgId: event.orgId, eventId: scopedEventId, family, weight, style },
+    });
+
+    const font = await this.prisma.badgeFont.create({
+      data: {
+        id,
+        orgId: event.orgId,
+        eventId: scopedEventId,
+        family,
+        weight,
+        style,
+        format,
+        originalName: file.originalName.slice(0, 255),
+        storagePath,
+        sizeBytes: file.buffer.length,
+      },
+    });
+    for (const old of replaced) {
+      await this.removeRow(old);
+    }
+
+    this.audit.log({
+      eventId,
+      userId,
+      action: AuditAction.BADGE_FONT_UPLOADED,
+      entity: 'badge_font',
+      entityId: font.id,
+      detail: { family, weight, style, format, scope: scopedEventId ? 'event' : 'org', replaced: replaced.length },
+    });
+    this.logger.log(`Badge font "${family}" ${weight} ${style} uploaded for ${scopedEventId ? `event ${eventId}` : `org ${event.orgId}`}`);
+
+    return font;
+  }
+
+  async remove(id: string, eventId: string, userId?: string) {
+    const event = await this.getEvent(eventId);
+    const font = await this.prisma.badgeFont.findFirst({
+      where: { id, orgId: event.orgId, OR: [{ eventId }, { eventId: null }] },
+    });
+    if (!font) throw new NotFoundException(`Badge font ${id} not found`);
+
+    await this.removeRow(font);
+
+    this.audit.log({
+      eventId,
+      userId,
+      action: AuditAction.BADGE_FONT_DELETED,
+      entity: 'badge_font',
+      entityId: id,
+      detail: { family: font.family, weight: font.weight, style: font.style },
+    });
+    return { deleted: true };
+  }
+
+  /**
+   * Load the fonts for rendering an event's badges, in satori's shape.
+   * Event fonts shadow org fonts with the same family/weight/style.
+   */
+  async loadForRender(eventId: string): Promise<SatoriFont[]> {
+    const fonts = await this.findForEvent(eventId);
+    const byKey = new Map<string, (typeof fonts)[number]>();
+    // Org-wide first so event-scoped rows overwrite them
+    for (const font of [...fonts].sort((a, b) => Number(a.eventId !== null) - Number(b.eventId !== null))) {
+      byKey.set(`${font.family}|${font.weight}|${font.style}`, font);
+    }
+
+    const loaded: SatoriFont[] = [];
+    for (const font of byKey.values()) {
+      let data = this.cache.get(font.id);
+      if (!data) {
+        const path = join(UPLOADS_DIR, font.storagePath);
+        if (!existsSync(path)) {
+          this.logger.warn(`Badge font file missing on disk: ${font.storagePath}`);
+          continue;
+        }
+        data = readFileSync(path);
+        this.cache.set(font.id, data);
+      }
+      loaded.push({
+        name: font.family,
+        data,
+        weight: font.weight as SatoriFont['weight'],
+        style: font.style as SatoriFont['style'],
+      });
+    }
+    return loaded;
+  }
+
+  // ─── Internals ────────────────────────────────────────────────────
+
+  private async getEvent(eventId: string) {
+    const event = await this.prisma.event.findUnique({
+      where: { id: eventId },
+      select: { id: true, orgId: true },
+    });
+    if (!event) throw new NotFoundException(`Event ${eventId} not found`);
+    return event;
+  }
+
+  private async removeRow(font: { id: string; storagePath: string }) {
+    await this.prisma.badgeFont.delete({ where: { id: font.id } });
+    this.cache.delete(font.id);
+    const path = join(UPLOADS_DIR, font.storagePath);
+    if (existsSync(path)) unlinkSync(path);
+  }
+}
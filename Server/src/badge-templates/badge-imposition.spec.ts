@@ -0,0 +1,37 @@
+import { computeSheetGrid, mmToPt } from './badge-imposition';
+
+describe('badge-imposition', () => {
+  const card = { widthMm: 85.6, heightMm: 53.98 };
+
+  it('fits ten ID-1 badges on an A4 sheet', () => {
+    const grid = computeSheetGrid('A4', card);
+
+    expect(grid).toMatchObject({ cols: 2, rows: 5, perSheet: 10 });
+    expect(grid.slots).toHaveLength(10);
+    // Centred, and the first slot is the top-left one
+    expect(grid.left).toBeCloseTo(grid.pageWidth - grid.right);
+    expect(grid.slots[0].x).toBeCloseTo(grid.left);
+    expect(grid.slots[0].y + grid.badgeHeight).toBeCloseTo(grid.top);
+    // Butted badges share cut lines
+    expect(grid.cutsX).toHaveLength(3);
+    expect(grid.cutsY).toHaveLength(6);
+  });
+
+  it('switches to landscape when that holds more badges', () => {
+    const grid = computeSheetGrid('A4', { widthMm: 130, heightMm: 90 });
+
+    expect(grid.pageWidth).toBeGreaterThan(grid.pageHeight);
+    expect(grid.perSheet).toBe(4);
+  });
+
+  it('adds separate cut lines per badge edge with a gutter', () => {
+    const grid = computeSheetGrid('Letter', card, 10, 4);
+
+    expect(grid.cutsX).toHaveLength(grid.cols * 2);
+    expect(grid.slots[1].x - grid.slots[0].x).toBeCloseTo(grid.badgeWidth + mmToPt(4));
+  });
+
+  it('rejects a badge larger than the printable area', () => {
+    expect(() => computeSheetGrid('A4', { widthMm: 300, heightMm: 300 })).toThrow(/does not fit/);
+  });
+});
@@ -0,0 +1,145 @@
+import type { PDFPage } from 'pdf-lib';
+
+/**
+ * N-up imposition of badges on paper sheets for batch printing.
+ *
+ * Badges are laid out in a grid centred on the sheet. With the default 0 mm
+ * gutter they butt against each other and share cut lines (one guillotine
+ * cut per grid line); a gutter adds a separate cut line per badge edge.
+ * Crop marks are drawn in the outer margin only, extending every cut line,
+ * so they never print over a neighbouring badge.
+ */
+
+export type PaperSize = 'A4' | 'Letter';
+
+const PT_PER_MM = 72 / 25.4;
+
+/** Portrait sheet sizes in points. */
+const PAPER_PT: Record<PaperSize, { width: number; height: number }> = {
+  A4: { width: 595.28, height: 841.89 },
+  Letter: { width: 612, height: 792 },
+};
+
+/** Gap between the grid edge and the start of a crop mark. */
+const MARK_OFFSET_MM = 2;
+const MARK_LENGTH_MM = 5;
+
+export interface SheetGrid {
+  pageWidth: number;   // pt
+  pageHeight: number;  // pt
+  badgeWidth: number;  // pt
+  badgeHeight: number; // pt
+  cols: number;
+  rows: number;
+  perSheet: number;
+  /** Bottom-left corner of each slot (pdf-lib origin), row by row from the top. */
+  slots: Array<{ x: number; y: number }>;
+  /** Distinct x / y positions of all cut lines. */
+  cutsX: number[];
+  cutsY: number[];
+  /** Outer bounds of the grid. */
+  left: number;
+  right: number;
+  bottom: number;
+  top: number;
+}
+
+export const mmToPt = (mm: number) => mm * PT_PER_MM;
+
+function layout(
+  pageWidth: number,
+  pageHeight: number,
+  badgeWidth: number,
+  badgeHeight: number,
+  margin: number,
+  gutter: number,
+): SheetGrid {
+  const cols = Math.max(0, Math.floor((pageWidth - 2 * margin + gutter) / (badgeWidth + gutter)));
+  const rows = Math.max(0, Math.floor((pageHeight - 2 * margin + gutter) / (badgeHeight + gutter)));
+  const gridWidth = cols * badgeWidth + Math.max(0, cols - 1) * gutter;
+  const gridHeight = rows * badgeHeight + Math.max(0, rows - 1) * gutter;
+  const left = (pageWidth - gridWidth) / 2;
+  const bottom = (pageHeight - gridHeight) / 2;
+  const top = bottom + gridHeight;
+
+  const slots: SheetGrid['slots'] = [];
+  const cutsX = new Set<number>();
+  const cutsY = new Set<number>();
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const x = left + c * (badgeWidth + gutter);
+      const y = top - (r + 1) * badgeHeight - r * gutter;
+      slots.push({ x, y });
+      cutsX.add(round(x)).add(round(x + badgeWidth));
+      cutsY.add(round(y)).add(round(y + badgeHeight));
+    }
+  }
+
+  return {
+    pageWidth,
+    pageHeight,
+    badgeWidth,
+    badgeHeight,
+    cols,
+    rows,
+    perSheet: cols * rows,
+    slots,
+    cutsX: [...cutsX].sort((a, b) => a - b),
+    cutsY: [...cutsY].sort((a, b) => a - b),
+    left,
+    right: left + gridWidth,
+    bottom,
+    top,
+  };
+}
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Fit as many badges as possible on the sheet, trying portrait and
+ * landscape orientation and keeping whichever holds more.
+ */
+export function computeSheetGrid(
+  paper: PaperSize,
+  badgeMm: { widthMm: number; heightMm: number },
+  marginMm = 10,
+  gutterMm = 0,
+): SheetGrid {
+  const { width, height } = PAPER_PT[paper];
+  const bw = mmToPt(badgeMm.widthMm);
+  const bh = mmToPt(badgeMm.heightMm);
+  const margin = mmToPt(marginMm);
+  const gutter = mmToPt(gutterMm);
+
+  const portrait = layout(width, height, bw, bh, margin, gutter);
+  const landscape = layout(height, width, bw, bh, margin, gutter);
+  const best = landscape.perSheet > portrait.perSheet ? landscape : portrait;
+
+  if (best.perSheet === 0) {
+    throw new Error(
+      `A ${badgeMm.widthMm}×${badgeMm.heightMm} mm badge does not fit on ${paper} with ${marginMm} mm margins`,
+    );
+  }
+  return best;
+}
+
+/** Draw crop marks in the sheet margin along every cut line. */
+export function drawCropMarks(page: PDFPage, grid: SheetGrid): void {
+  const offset = mmToPt(MARK_OFFSET_MM);
+  // Never run off the paper when margins are tight
+  const room = Math.min(grid.left, grid.bottom, grid.pageWidth - grid.right, grid.pageHeight - grid.top);
+  const length = Math.min(mmToPt(MARK_LENGTH_MM), room - offset - mmToPt(1));
+  if (length <= 0) return;
+
+  const line = (x1: number, y1: number, x2: number, y2: number) =>
+    page.drawLine({ start: { x: x1, y: y1 }, end: { x: x2, y: y2 }, thickness: 0.25 });
+
+  for (const x of grid.cutsX) {
+    line(x, grid.top + offset, x, grid.top + offset + length);
+    line(x, grid.bottom - offset, x, grid.bottom - offset - length);
+  }
+  for (const y of grid.cutsY) {
+    line(grid.left - offset, y, grid.left - offset - length, y);
+    line(grid.right + offset, y, grid.right + offset + length, y);
+  }
+}
@@ -0,0 +1,34 @@
+import { expandQrNodes, collectFontFamilies, type LayoutNode } from './badge-layout';
+
+describe('badge-layout', () => {
+  const layout: LayoutNode = {
+    type: 'div',
+    props: {
+      style: { fontFamily: 'Inter, sans-serif' },
+      children: [
+        { type: 'div', props: { style: { fontFamily: "'Roboto Slab'" }, children: 'Name' } },
+        { type: 'qr', props: { value: 'ABCD2345:1f2e3d4c', size: 120, style: { position: 'absolute' } } },
+      ],
+    },
+  };
+
+  it('replaces qr nodes with an SVG image of the payload', async () => {
+    const expanded = await expandQrNodes(layout);
+    const qr = (expanded.props!.children as LayoutNode[])[1];
+
+    expect(qr.type).toBe('img');
+    expect(qr.props).toMatchObject({ width: 120, height: 120, style: { position: 'absolute', width: '120px' } });
+    const svg = Buffer.from(String(qr.props!.src).split(',')[1], 'base64').toString();
+    expect(svg).toContain('<svg');
+    // Input tree is left untouched
+    expect((layout.props!.children as LayoutNode[])[1].type).toBe('qr');
+  });
+
+  it('rejects a qr node whose token was never resolved', async () => {
+    await expect(expandQrNodes({ type: 'qr', props: {} })).rejects.toThrow(/no value/);
+  });
+
+  it('collects named font families and skips generic ones', () => {
+    expect([...collectFontFamilies(layout)]).toEqual(['Inter', 'Roboto Slab']);
+  });
+});
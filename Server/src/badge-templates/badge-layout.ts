@@ -0,0 +1,114 @@
+import * as QRCode from 'qrcode';
+
+/**
+ * Badge layout helpers — transforms applied to a template's JSON layout
+ * before it is handed to satori.
+ *
+ * Layouts are satori's JSX-as-JSON (`{ type, props: { style, children } }`)
+ * plus SRAtix-specific node types that are expanded here:
+ *
+ *   { type: 'qr', props: { value?, size?, margin?, color?, background?,
+ *                          errorCorrectionLevel?, style? } }
+ *
+ * `value` defaults to `{{qrPayload}}` (the signed ticket payload) and is
+ * token-resolved like any other string before expansion. The node becomes
+ * an `img` holding the QR code as an SVG data URI, so it stays sharp at
+ * print resolution.
+ */
+
+export interface LayoutNode {
+  type: string;
+  props?: {
+    style?: Record<string, unknown>;
+    children?: LayoutChild | LayoutChild[];
+    [key: string]: unknown;
+  };
+}
+
+type LayoutChild = LayoutNode | string | number | null;
+
+export const QR_DEFAULTS = {
+  value: '{{qrPayload}}',
+  size: 160,
+  margin: 1,
+  color: '#000000',
+  background: '#ffffff',
+  errorCorrectionLevel: 'M',
+} as const;
+
+const ERROR_CORRECTION_LEVELS = new Set(['L', 'M', 'Q', 'H']);
+
+/** Generic CSS families satori maps to the first loaded font. */
+const GENERIC_FAMILIES = new Set(['serif', 'sans-serif', 'monospace', 'cursive', 'fantasy', 'system-ui']);
+
+function isNode(child: unknown): child is LayoutNode {
+  return !!child && typeof child === 'object' && typeof (child as LayoutNode).type === 'string';
+}
+
+/**
+ * Replace every `qr` node in the tree with an `img` node. Returns a new tree;
+ * the input is left untouched.
+ */
+export async function expandQrNodes(node: LayoutNode): Promise<LayoutNode> {
+  if (node.type === 'qr') return renderQrNode(node);
+
+  const children = node.props?.children;
+  if (children === undefined) return node;
+
+  const expanded = Array.isArray(children)
+    ? await Promise.all(children.map((c) => (isNode(c) ? expandQrNodes(c) : c)))
+    : isNode(children)
+      ? await expandQrNodes(children)
+      : children;
+
+  return { ...node, props: { ...node.props, children: expanded } };
+}
+
+async function renderQrNode(node: LayoutNode): Promise<LayoutNode> {
+  const props = node.props ?? {};
+  const value = String(props.value ?? QR_DEFAULTS.value);
+  const size = Number(props.size ?? QR_DEFAULTS.size);
+  const level = String(props.errorCorrectionLevel ?? QR_DEFAULTS.errorCorrectionLevel).toUpperCase();
+
+  if (!value || value.includes('{{')) {
+    throw new Error(`QR node has no value to encode (got "${value}")`);
+  }
+
+  const svg = await QRCode.toString(value, {
+    type: 'svg',
+    margin: Number(props.margin ?? QR_DEFAULTS.margin),
+    width: size,
+    errorCorrectionLevel: (ERROR_CORRECTION_LEVELS.has(level) ? level : QR_DEFAULTS.errorCorrectionLevel) as QRCode.QRCodeErrorCorrectionLevel,
+    color: {
+      dark: String(props.color ?? QR_DEFAULTS.color),
+      light: String(props.background ?? QR_DEFAULTS.background),
+    },
+  });
+
+  return {
+    type: 'img',
+    props: {
+      src: `data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}`,
+      width: size,
+      height: size,
+      style: { width: `${size}px`, height: `${size}px`, ...(props.style ?? {}) },
+    },
+  };
+}
+
+/**
+ * Font families named in the layout (`style.fontFamily`, first entry of a
+ * comma-separated list), excluding generic CSS families.
+ */
+export function collectFontFamilies(node: LayoutNode, into = new Set<string>()): Set<string> {
+  const family = node.props?.style?.fontFamily;
+  if (typeof family === 'string') {
+    const first = family.split(',')[0].trim().replace(/^['"]|['"]$/g, '');
+    if (first && !GENERIC_FAMILIES.has(first.toLowerCase())) into.add(first);
+  }
+  const children = node.props?.children;
+  for (const child of Array.isArray(children) ? children : [children]) {
+    if (isNode(child)) collectFontFamilies(child, into);
+  }
+  return into;
+}
@@ -106,7 +106,9 @@ export class BadgeTemplatesController {
 
   /**
    * POST /api/badge-templates/:id/event/:eventId/render
-   * Render a badge for a specific attendee/ticket.
+   * Render a badge for a specific ticket. Variables are resolved from the
+   * ticket's attendee, order and form answers; the flat fields in the body
+   * (attendeeName, company, …) optionally override their tokens.
    * Returns the rendered file (PNG or PDF).
    */
   @Post(':id/event/:eventId/render')
@@ -117,24 +119,24 @@ export class BadgeTemplatesController {
     @Body()
     body: {
       ticketId: string;
-      attendeeId: string;
-      attendeeName: string;
+      attendeeName?: string;
       company?: string;
-      ticketType: string;
-      eventName: string;
-      qrPayload: string;
+      ticketType?: string;
+      eventName?: string;
     },
     @Query('format') format: 'png' | 'pdf' = 'png',
     @Res() reply: FastifyReply,
   ) {
+    const { ticketId, ...overrides } = body;
     const result = await this.badgeTemplates.renderBadge(
       templateId,
       eventId,
-      body,
+      ticketId,
+      overrides,
       format,
     );
 
-    const filename = `badge-${body.attendeeName.replace(/\s+/g, '_')}.${format}`;
+    const filename = `badge-${String(result.context.attendeeName || ticketId).replace(/\s+/g, '_')}.${format}`;
 
     reply
       .header('Content-Type', result.mimeType)
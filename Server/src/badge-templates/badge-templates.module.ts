@@ -1,10 +1,16 @@
 import { Module } from '@nestjs/common';
 import { BadgeTemplatesService } from './badge-templates.service';
 import { BadgeTemplatesController } from './badge-templates.controller';
+import { BadgeFontsService } from './badge-fonts.service';
+import { BadgeFontsController } from './badge-fonts.controller';
+import { BadgeBatchService } from './badge-batch.service';
+import { BadgeBatchesController } from './badge-batches.controller';
+import { TicketsModule } from '../tickets/tickets.module';
 
 @Module({
-  controllers: [BadgeTemplatesController],
-  providers: [BadgeTemplatesService],
-  exports: [BadgeTemplatesService],
+  imports: [TicketsModule],
+  controllers: [BadgeTemplatesController, BadgeFontsController, BadgeBatchesController],
+  providers: [BadgeTemplatesService, BadgeFontsService, BadgeBatchService],
+  exports: [BadgeTemplatesService, BadgeFontsService],
 })
 export class BadgeTemplatesModule {}
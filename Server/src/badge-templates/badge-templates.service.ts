@@ -1,14 +1,22 @@
 import {
   Injectable,
   Logger,
+  BadRequestException,
   NotFoundException,
 } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
+import { TicketsService } from '../tickets/tickets.service';
+import { BadgeFontsService, type SatoriFont } from './badge-fonts.service';
+import { expandQrNodes, collectFontFamilies, type LayoutNode } from './badge-layout';
+import { resolveLayout, type BadgeContext } from './badge-variables';
 
 /**
  * Badge rendering service using satori + @resvg/resvg-js + pdf-lib.
  *
  * Pipeline: JSON layout → satori (SVG) → resvg (PNG) → pdf-lib (PDF)
+ * Fonts come from the badge font registry (BadgeFontsService); tokens and
+ * `if` nodes are resolved against the ticket's context (badge-variables.ts)
+ * and `qr` nodes are expanded to QR images (badge-layout.ts) before satori.
  * Confirmed working on Infomaniak hosting: SVG (41KB) → PNG (9KB) → PDF (6KB), ~1.8s.
  *
  * Phase 2: Direct rendering (synchronous).
@@ -53,6 +61,19 @@ const DEFAULT_LAYOUT = {
           children: '{{attendeeName}}',
         },
       },
+      {
+        type: 'if',
+        props: {
+          var: 'attendee.jobTitle',
+          children: {
+            type: 'div',
+            props: {
+              style: { fontSize: '14px', opacity: 0.8 },
+              children: '{{attendee.jobTitle | truncate:40}}',
+            },
+          },
+        },
+      },
       {
         type: 'div',
         props: {
@@ -68,34 +89,44 @@ const DEFAULT_LAYOUT = {
         },
       },
       {
-        type: 'div',
+        type: 'qr',
         props: {
+          value: '{{qrPayload}}',
+          size: 160,
+          margin: 2,
           style: {
             position: 'absolute',
             bottom: '16px',
             right: '16px',
-            width: '80px',
-            height: '80px',
-            background: '#ffffff',
             borderRadius: '8px',
-            display: 'flex',
-            alignItems: 'center',
-            justifyContent: 'center',
-            fontSize: '10px',
-            color: '#333',
           },
-          children: 'QR',
         },
       },
     ],
   },
 };
 
+/**
+ * The original flat `{{token}}` values. Still part of every badge context;
+ * the render endpoint lets callers override them.
+ */
+export interface BadgeData {
+  attendeeName: string;
+  company?: string;
+  ticketType: string;
+  eventName: string;
+  qrPayload: string;
+}
+
 @Injectable()
 export class BadgeTemplatesService {
   private readonly logger = new Logger(BadgeTemplatesService.name);
 
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly fonts: BadgeFontsService,
+    private readonly tickets: TicketsService,
+  ) {}
 
   // ─── CRUD ─────────────────────────────────────────────────────
 
@@ -120,6 +151,22 @@ export class BadgeTemplatesService {
     });
   }
 
+  /**
+   * Active template for a ticket type: the newest one assigned to it via
+   * `ticketTypeIds`, else the event default. Null when neither exists.
+   */
+  async findForTicketType(eventId: string, ticketTypeId: string) {
+    const templates = await this.prisma.badgeTemplate.findMany({
+      where: { eventId, active: true },
+      orderBy: { createdAt: 'desc' },
+    });
+    // MariaDB JSON array filtering is unreliable — match in-app
+    const assigned = templates.find(
+      (t) => Array.isArray(t.ticketTypeIds) && (t.ticketTypeIds as string[]).includes(ticketTypeId),
+    );
+    return assigned ?? templates.find((t) => t.isDefault) ?? null;
+  }
+
   async create(data: {
     eventId: string;
     name: string;
@@ -209,58 +256,36 @@ export class BadgeTemplatesService {
   async renderBadge(
     templateId: string,
     eventId: string,
-    data: {
-      ticketId: string;
-      attendeeId: string;
-      attendeeName: string;
-      company?: string;
-      ticketType: string;
-      eventName: string;
-      qrPayload: string;
-    },
+    ticketId: string,
+    overrides: Partial<BadgeData> = {},
     format: 'png' | 'pdf' = 'png',
-  ): Promise<{ buffer: Buffer; mimeType: string; renderTimeMs: number }> {
+  ): Promise<{ buffer: Buffer; mimeType: string; renderTimeMs: number; context: BadgeContext }> {
     const startTime = Date.now();
     const template = await this.findOne(templateId, eventId);
     const dims = template.dimensions as { widthPx: number; heightPx: number };
 
-    // Step 1: Resolve template tokens
-    const layoutJson = JSON.stringify(template.layout);
-    const resolved = layoutJson
-      .replace(/\{\{attendeeName\}\}/g, data.attendeeName)
-      .replace(/\{\{company\}\}/g, data.company ?? '')
-      .replace(/\{\{ticketType\}\}/g, data.ticketType)
-      .replace(/\{\{eventName\}\}/g, data.eventName)
-      .replace(/\{\{qrPayload\}\}/g, data.qrPayload);
+    const context = (await this.buildContexts(eventId, [ticketId])).get(ticketId);
+    if (!context) throw new NotFoundException(`Ticket ${ticketId} not found`);
+    const attendeeId = (context.attendee as { id?: string }).id;
+    if (!attendeeId) throw new BadRequestException('Ticket has no attendee assigned');
+    for (const [key, value] of Object.entries(overrides)) {
+      if (value !== undefined) context[key] = value;
+    }
 
-    // Step 2: Render via satori → SVG
-    // Dynamic import for ESM-only packages
-    const satori = (await import('satori')).default;
-    const element = JSON.parse(resolved);
-
-    const svg = await satori(element, {
-      width: dims.widthPx,
-      height: dims.heightPx,
-      fonts: [], // Phase 3: load custom fonts
-    });
+    const fonts = await this.loadFonts(eventId);
+    const svg = await this.renderSvg(template, context, fonts);
 
     let buffer: Buffer;
     let mimeType: string;
 
     if (format === 'png' || format === 'pdf') {
-      // Step 3: SVG → PNG via resvg
-      const { Resvg } = await import('@resvg/resvg-js');
-      const resvg = new Resvg(svg, {
-        fitTo: { mode: 'width', value: dims.widthPx },
-      });
-      const pngData = resvg.render();
-      const pngBuffer = pngData.asPng();
+      const pngBuffer = await this.rasterize(svg, dims.widthPx);
 
       if (format === 'png') {
-        buffer = Buffer.from(pngBuffer);
+        buffer = pngBuffer;
         mimeType = 'image/png';
       } else {
-        // Step 4: PNG → PDF via pdf-lib
+        // Step 6: PNG → PDF via pdf-lib
         const { PDFDocument } = await import('pdf-lib');
         const pdfDoc = await PDFDocument.create();
         const pngImage = await pdfDoc.embedPng(pngBuffer);
@@ -290,8 +315,8 @@ export class BadgeTemplatesService {
     await this.prisma.badgeRender.create({
       data: {
         templateId,
-        ticketId: data.ticketId,
-        attendeeId: data.attendeeId,
+        ticketId,
+        attendeeId,
         format,
         fileSize: buffer.length,
         renderTimeMs,
@@ -303,7 +328,152 @@ export class BadgeTemplatesService {
       `Badge rendered: ${format.toUpperCase()} (${buffer.length} bytes) in ${renderTimeMs}ms`,
     );
 
-    return { buffer, mimeType, renderTimeMs };
+    return { buffer, mimeType, renderTimeMs, context };
+  }
+
+  /**
+   * Badge contexts (see badge-variables.ts) for a set of tickets, keyed by
+   * ticket id. Form answers are merged across the attendee's submissions,
+   * newest winning.
+   */
+  async buildContexts(eventId: string, ticketIds: string[]): Promise<Map<string, BadgeContext>> {
+    const tickets = await this.prisma.ticket.findMany({
+      where: { eventId, id: { in: ticketIds } },
+      include: {
+        event: { select: { name: true, venue: true, startDate: true, endDate: true } },
+        ticketType: { select: { id: true, name: true, category: true } },
+        order: { select: { orderNumber: true, customerName: true } },
+        attendee: {
+          include: {
+            formSubmissions: {
+              where: { eventId },
+              orderBy: { submittedAt: 'asc' },
+              select: { data: true },
+            },
+          },
+        },
+      },
+    });
+
+    const contexts = new Map<string, BadgeContext>();
+    for (const t of tickets) {
+      const a = t.attendee;
+      const fullName = a ? `${a.firstName} ${a.lastName}`.trim() : (t.order?.customerName ?? '');
+      const displayName = a?.badgeName || fullName;
+      const form: Record<string, unknown> = {};
+      for (const sub of a?.formSubmissions ?? []) {
+        Object.assign(form, (sub.data as Record<string, unknown> | null) ?? {});
+      }
+
+      contexts.set(t.id, {
+        // Flat tokens (BadgeData)
+        attendeeName: displayName,
+        company: a?.company ?? '',
+        ticketType: t.ticketType.name,
+        eventName: t.event.name,
+        qrPayload: this.tickets.buildQrPayload(t.code, eventId),
+
+        attendee: {
+          id: a?.id,
+          firstName: a?.firstName ?? '',
+          lastName: a?.lastName ?? '',
+          fullName,
+          displayName,
+          badgeName: a?.badgeName ?? '',
+          email: a?.email ?? '',
+          company: a?.company ?? '',
+          jobTitle: a?.jobTitle ?? '',
+          orgRole: a?.orgRole ?? '',
+          dietaryNeeds: a?.dietaryNeeds ?? '',
+          accessibilityNeeds: a?.accessibilityNeeds ?? '',
+          tags: Array.isArray(a?.tags) ? (a!.tags as unknown[]).filter((x) => typeof x === 'string') : [],
+        },
+        ticket: {
+          code: t.code,
+          status: t.status,
+          type: t.ticketType.name,
+          typeId: t.ticketType.id,
+          category: t.ticketType.category,
+        },
+        order: {
+          number: t.order?.orderNumber ?? '',
+          customerName: t.order?.customerName ?? '',
+        },
+        event: {
+          name: t.event.name,
+          venue: t.event.venue ?? '',
+          startDate: t.event.startDate,
+          endDate: t.event.endDate,
+        },
+        form,
+      });
+    }
+    return contexts;
+  }
+
+  /**
+   * Fonts for an event's badges — satori cannot draw text without at least
+   * one. Batch jobs load them once and reuse them for every badge.
+   */
+  async loadFonts(eventId: string): Promise<SatoriFont[]> {
+    const fonts = await this.fonts.loadForRender(eventId);
+    if (fonts.length === 0) {
+      throw new BadRequestException(
+        'No badge fonts registered — upload a TTF/OTF font for this event or organization first',
+      );
+    }
+    return fonts;
+  }
+
+  /**
+   * Steps 1–4 of the pipeline: resolve tokens and conditionals, expand `qr`
+   * nodes and render the layout to SVG with satori.
+   */
+  async renderSvg(
+    template: { id: string; layout: unknown; dimensions: unknown },
+    context: BadgeContext,
+    fonts: SatoriFont[],
+  ): Promise<string> {
+    const dims = template.dimensions as { widthPx: number; heightPx: number };
+
+    // Step 1: Resolve tokens and `if` nodes
+    // Step 2: Expand SRAtix node types (qr → img)
+    let element: LayoutNode;
+    try {
+      element = await expandQrNodes(resolveLayout(template.layout as LayoutNode, context));
+    } catch (err) {
+      throw new BadRequestException(
+        `Invalid badge layout: ${err instanceof Error ? err.message : String(err)}`,
+      );
+    }
+
+    // Step 3: Warn about font families the registry cannot satisfy
+    const available = new Set(fonts.map((f) => f.name));
+    const missing = [...collectFontFamilies(element)].filter((f) => !available.has(f));
+    if (missing.length > 0) {
+      this.logger.warn(
+        `Badge template ${template.id} references unregistered font(s): ${missing.join(', ')} — falling back to ${fonts[0].name}`,
+      );
+    }
+
+    // Step 4: Render via satori → SVG
+    // Dynamic import for ESM-only packages
+    const satori = (await import('satori')).default;
+
+    return satori(element as any, {
+      width: dims.widthPx,
+      height: dims.heightPx,
+      fonts,
+    });
+  }
+
+  /** Step 5: SVG → PNG via resvg. */
+  async rasterize(svg: string, widthPx: number): Promise<Buffer> {
+    const { Resvg } = await import('@resvg/resvg-js');
+    const resvg = new Resvg(svg, {
+      fitTo: { mode: 'width', value: widthPx },
+    });
+    return Buffer.from(resvg.render().asPng());
   }
 
   /**
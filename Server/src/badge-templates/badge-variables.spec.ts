@@ -0,0 +1,65 @@
+import { resolveLayout, resolveString, testCondition, type BadgeContext } from './badge-variables';
+import type { LayoutNode } from './badge-layout';
+
+describe('badge-variables', () => {
+  const context: BadgeContext = {
+    attendeeName: 'Ada Lovelace',
+    qrPayload: 'ABCD2345:1f2e3d4c',
+    attendee: {
+      displayName: 'Ada Lovelace',
+      jobTitle: '',
+      company: 'Analytical Engines Ltd',
+      tags: ['Speaker', 'VIP'],
+      dietaryNeeds: 'vegan',
+    },
+    form: { tshirt: 'M' },
+  };
+
+  it('resolves paths and chains filters', () => {
+    expect(resolveString('{{attendee.displayName | upper}}', context)).toBe('ADA LOVELACE');
+    expect(resolveString('{{attendee.company | truncate:12}}', context)).toBe('Analytical…');
+    expect(resolveString('{{attendee.jobTitle | default:"Guest"}} / {{form.tshirt}}', context)).toBe('Guest / M');
+    expect(resolveString('{{attendee.tags | join:" · "}}', context)).toBe('Speaker · VIP');
+    // Legacy flat tokens and unknown paths
+    expect(resolveString('{{attendeeName}}{{attendee.nope}}', context)).toBe('Ada Lovelace');
+  });
+
+  it('rejects unknown filters', () => {
+    expect(() => resolveString('{{attendeeName | shout}}', context)).toThrow(/Unknown badge filter/);
+  });
+
+  it('evaluates conditions', () => {
+    expect(testCondition({ var: 'attendee.tags', contains: 'speaker' }, context)).toBe(true);
+    expect(testCondition({ var: 'attendee.jobTitle' }, context)).toBe(false);
+    expect(testCondition({ var: 'attendee.dietaryNeeds', in: ['vegan', 'vegetarian'] }, context)).toBe(true);
+    expect(testCondition({ var: 'form.tshirt', equals: 'M', empty: true }, context)).toBe(false);
+  });
+
+  it('replaces if nodes with the matching branch and resolves nested props', () => {
+    const layout: LayoutNode = {
+      type: 'div',
+      props: {
+        children: [
+          {
+            type: 'if',
+            props: {
+              var: 'attendee.tags',
+              contains: 'Speaker',
+              children: { type: 'div', props: { style: { background: '#e11d48' }, children: 'SPEAKER' } },
+            },
+          },
+          { type: 'if', props: { var: 'attendee.jobTitle', children: 'never', else: ['{{attendee.company}}'] } },
+          { type: 'qr', props: { size: 100 } },
+        ],
+      },
+    };
+
+    const resolved = resolveLayout(layout, context);
+    const children = resolved.props!.children as LayoutNode[];
+
+    expect(children).toHaveLength(3);
+    expect(children[0]).toMatchObject({ type: 'div', props: { children: 'SPEAKER' } });
+    expect(children[1]).toBe('Analytical Engines Ltd');
+    expect(children[2].props!.value).toBe('ABCD2345:1f2e3d4c');
+  });
+});
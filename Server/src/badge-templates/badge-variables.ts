@@ -0,0 +1,216 @@
+import { QR_DEFAULTS, type LayoutNode } from './badge-layout';
+
+/**
+ * Badge variables — token resolution and conditional nodes for badge layouts.
+ *
+ * Any string in a layout (text children, `src`, style values, qr `value`)
+ * may contain `{{path | filter | filter:arg}}` tokens. Paths are dotted
+ * lookups into the badge context (see BadgeTemplatesService.buildContexts):
+ *
+ *   attendee.*  firstName, lastName, fullName, displayName (badgeName or
+ *               full name), badgeName, email, company, jobTitle, orgRole,
+ *               dietaryNeeds, accessibilityNeeds, tags (string[])
+ *   ticket.*    code, status, type, typeId, category
+ *   order.*     number, customerName
+ *   event.*     name, venue, startDate, endDate (YYYY-MM-DD)
+ *   form.*      registration form answers by field id
+ *
+ * The original flat tokens (attendeeName, company, ticketType, eventName,
+ * qrPayload) keep working. Unknown paths resolve to an empty string.
+ *
+ * Filters:
+ *   upper, lower, title, trim
+ *   truncate:N[,suffix]   cut to N characters, suffix defaults to "…"
+ *   default:text          use `text` when the value is empty (alias: fallback)
+ *   join[:sep]            join an array (default ", ")
+ *
+ * Conditional nodes are replaced by their children when the condition holds
+ * and by `else` (optional) otherwise:
+ *
+ *   { type: 'if', props: { var: 'attendee.tags', contains: 'Speaker',
+ *                          children: [...], else: [...] } }
+ *
+ * Operators (combined with AND; none = "value is not empty"):
+ *   equals, notEquals, contains, in (array of values), empty (boolean)
+ * String comparisons are case-insensitive.
+ */
+
+export type BadgeContext = Record<string, unknown>;
+
+type LayoutChild = LayoutNode | string | number | null;
+
+const TOKEN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+const CONDITION_OPERATORS = ['equals', 'notEquals', 'contains', 'in', 'empty'] as const;
+
+/** Dotted path lookup; numeric segments index into arrays. */
+export function lookup(context: BadgeContext, path: string): unknown {
+  let value: unknown = context;
+  for (const key of path.split('.')) {
+    if (value === null || value === undefined || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function isEmpty(value: unknown): boolean {
+  return (
+    value === null ||
+    value === undefined ||
+    (typeof value === 'string' && value.trim() === '') ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+function stringify(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (Array.isArray(value)) return value.map(stringify).filter(Boolean).join(', ');
+  if (typeof value === 'object') return '';
+  return String(value);
+}
+
+/** Split `a:1,"x, y"` style filter arguments, honouring quotes. */
+function parseArgs(raw: string): string[] {
+  const args: string[] = [];
+  const re = /\s*(?:"([^"]*)"|'([^']*)'|([^,]*))\s*(?:,|$)/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(raw)) !== null && m.index < raw.length) {
+    args.push(m[1] ?? m[2] ?? m[3].trim());
+  }
+  return args;
+}
+
+function applyFilter(value: unknown, name: string, args: string[]): unknown {
+  switch (name) {
+    case 'upper':
+      return stringify(value).toUpperCase();
+    case 'lower':
+      return stringify(value).toLowerCase();
+    case 'title':
+      return stringify(value)
+        .toLowerCase()
+        .replace(/(^|[\s\-'])(\p{L})/gu, (_m, sep: string, ch: string) => sep + ch.toUpperCase());
+    case 'trim':
+      return stringify(value).trim();
+    case 'truncate': {
+      const max = parseInt(args[0] ?? '', 10);
+      if (!Number.isInteger(max) || max < 1) throw new Error('truncate needs a positive length');
+      const text = stringify(value);
+      const suffix = args[1] ?? '…';
+      return text.length > max ? text.slice(0, Math.max(0, max - suffix.length)).trimEnd() + suffix : text;
+    }
+    case 'default':
+    case 'fallback':
+      return isEmpty(value) ? (args[0] ?? '') : value;
+    case 'join':
+      return Array.isArray(value) ? value.map(stringify).filter(Boolean).join(args[0] ?? ', ') : value;
+    default:
+      throw new Error(`Unknown badge filter "${name}"`);
+  }
+}
+
+/** Evaluate one `path | filter:args | …` expression. */
+export function evaluate(expression: string, context: BadgeContext): unknown {
+  const [path, ...filters] = expression.split('|').map((s) => s.trim());
+  let value = lookup(context, path);
+  for (const filter of filters) {
+    const colon = filter.indexOf(':');
+    const name = (colon === -1 ? filter : filter.slice(0, colon)).trim();
+    value = applyFilter(value, name, colon === -1 ? [] : parseArgs(filter.slice(colon + 1)));
+  }
+  return value;
+}
+
+/** Replace every `{{…}}` token in a string. */
+export function resolveString(template: string, context: BadgeContext): string {
+  return template.replace(TOKEN, (_m, expression: string) => stringify(evaluate(expression, context)));
+}
+
+function matches(actual: unknown, expected: unknown): boolean {
+  return stringify(actual).toLowerCase() === stringify(expected).toLowerCase();
+}
+
+/** Whether an `if` node's condition holds. */
+export function testCondition(props: Record<string, unknown>, context: BadgeContext): boolean {
+  if (typeof props.var !== 'string' || !props.var) {
+    throw new Error('Conditional node needs a "var" path');
+  }
+  const value = evaluate(props.var, context);
+  const operators = CONDITION_OPERATORS.filter((op) => props[op] !== undefined);
+  if (operators.length === 0) return !isEmpty(value);
+
+  return operators.every((op) => {
+    const expected = props[op];
+    switch (op) {
+      case 'equals':
+        return matches(value, expected);
+      case 'notEquals':
+        return !matches(value, expected);
+      case 'contains':
+        return Array.isArray(value)
+          ? value.some((v) => matches(v, expected))
+          : stringify(value).toLowerCase().includes(stringify(expected).toLowerCase());
+      case 'in':
+        return Array.isArray(expected) && expected.some((e) => matches(value, e));
+      case 'empty':
+        return isEmpty(value) === Boolean(expected);
+    }
+  });
+}
+
+function resolveValue(value: unknown, context: BadgeContext): unknown {
+  if (typeof value === 'string') return resolveString(value, context);
+  if (Array.isArray(value)) return value.map((v) => resolveValue(v, context));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([k, v]) => [k, resolveValue(v, context)]),
+    );
+  }
+  return value;
+}
+
+function isNode(child: unknown): child is LayoutNode {
+  return !!child && typeof child === 'object' && typeof (child as LayoutNode).type === 'string';
+}
+
+function resolveChildren(children: unknown, context: BadgeContext): LayoutChild[] {
+  const list = Array.isArray(children) ? children : children === undefined ? [] : [children];
+  return list.flatMap((child) => resolveChild(child as LayoutChild, context));
+}
+
+function resolveChild(child: LayoutChild, context: BadgeContext): LayoutChild[] {
+  if (typeof child === 'string') return [resolveString(child, context)];
+  if (!isNode(child)) return [child];
+
+  const props = child.props ?? {};
+  if (child.type === 'if') {
+    return resolveChildren(testCondition(props, context) ? props.children : props.else, context);
+  }
+
+  const { children, ...rest } = props;
+  const resolved = resolveValue(rest, context) as Record<string, unknown>;
+  // qr nodes encode the ticket payload unless told otherwise
+  if (child.type === 'qr' && resolved.value === undefined) {
+    resolved.value = resolveString(QR_DEFAULTS.value, context);
+  }
+  if (children === undefined) return [{ ...child, props: resolved }];
+
+  const list = resolveChildren(children, context);
+  return [{
+    ...child,
+    props: { ...resolved, children: Array.isArray(children) ? list : (list[0] ?? '') },
+  }];
+}
+
+/**
+ * Resolve all tokens and conditional nodes in a layout. Returns a new tree;
+ * the root must resolve to exactly one node.
+ */
+export function resolveLayout(layout: LayoutNode, context: BadgeContext): LayoutNode {
+  const [root, ...extra] = resolveChild(layout, context);
+  if (!isNode(root) || extra.length > 0) {
+    throw new Error('Layout root must resolve to a single node');
+  }
+  return root;
+}
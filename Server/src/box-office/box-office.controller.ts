@@ -0,0 +1,200 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Body,
+  Query,
+  Res,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { RequirePermission } from '../auth/decorators/require-permission.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { JwtPayload } from '../auth/auth.service';
+import {
+  BoxOfficeService,
+  BOX_OFFICE_PAYMENT_METHODS,
+  BoxOfficePaymentMethod,
+  isDrawerSupervisor,
+} from './box-office.service';
+import {
+  IsString,
+  IsEmail,
+  IsOptional,
+  IsIn,
+  IsInt,
+  IsArray,
+  ArrayNotEmpty,
+  ValidateNested,
+  Matches,
+  Min,
+  MaxLength,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import type { FastifyReply } from 'fastify';
+
+const BUSINESS_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+class SaleItemDto {
+  @IsString()
+  ticketTypeId!: string;
+
+  @IsInt()
+  @Min(1)
+  quantity!: number;
+}
+
+class SaleAttendeeDto {
+  @IsString()
+  firstName!: string;
+
+  @IsString()
+  lastName!: string;
+
+  @IsEmail()
+  email!: string;
+
+  @IsOptional()
+  @IsString()
+  company?: string;
+
+  @IsOptional()
+  @IsString()
+  phone?: string;
+}
+
+class CreateSaleDto {
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => SaleItemDto)
+  items!: SaleItemDto[];
+
+  @ValidateNested()
+  @Type(() => SaleAttendeeDto)
+  attendee!: SaleAttendeeDto;
+
+  @IsIn(BOX_OFFICE_PAYMENT_METHODS as unknown as string[])
+  paymentMethod!: BoxOfficePaymentMethod;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  tenderedCents?: number;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  terminalReference?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  compReason?: string;
+}
+
+class CloseDrawerDto {
+  @IsString()
+  userId!: string;
+
+  @IsOptional()
+  @Matches(BUSINESS_DATE)
+  businessDate?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  openingFloatCents?: number;
+
+  @IsInt()
+  @Min(0)
+  countedCents!: number;
+
+  @IsOptional()
+  @IsString()
+  note?: string;
+}
+
+/**
+ * Box office (on-site point of sale) — walk-in sales, instant badges and
+ * the end-of-day cash drawer report.
+ */
+@Controller('events/:eventId/box-office')
+@UseGuards(AuthGuard('jwt'), RolesGuard)
+export class BoxOfficeController {
+  constructor(private readonly service: BoxOfficeService) {}
+
+  /** GET /api/events/:eventId/box-office/catalog — ticket types on sale now. */
+  @Get('catalog')
+  @RequirePermission('boxoffice.sell')
+  catalog(@Param('eventId') eventId: string) {
+    return this.service.catalog(eventId);
+  }
+
+  /** POST /api/events/:eventId/box-office/sales — sell and issue tickets. */
+  @Post('sales')
+  @RequirePermission('boxoffice.sell')
+  sell(
+    @Param('eventId') eventId: string,
+    @Body() dto: CreateSaleDto,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    return this.service.sell(eventId, dto, user.sub);
+  }
+
+  /** GET /api/events/:eventId/box-office/sales/mine — today's sales by the caller. */
+  @Get('sales/mine')
+  @RequirePermission('boxoffice.sell')
+  mySales(@Param('eventId') eventId: string, @CurrentUser() user: JwtPayload) {
+    return this.service.recentSales(eventId, user.sub);
+  }
+
+  /**
+   * GET /api/events/:eventId/box-office/tickets/:ticketId/badge
+   * Print-ready badge PDF for a ticket sold at the box office.
+   */
+  @Get('tickets/:ticketId/badge')
+  @RequirePermission('boxoffice.sell')
+  async badge(
+    @Param('eventId') eventId: string,
+    @Param('ticketId') ticketId: string,
+    @Res() reply: FastifyReply,
+  ) {
+    const result = await this.service.renderBadge(eventId, ticketId);
+    reply
+      .header('Content-Type', result.mimeType)
+      .header('Content-Disposition', `inline; filename="badge-${ticketId}.pdf"`)
+      .send(result.buffer);
+  }
+
+  /**
+   * GET /api/events/:eventId/box-office/drawers?date=YYYY-MM-DD
+   * Drawer report for a business day. Box-office staff see only their own.
+   */
+  @Get('drawers')
+  @RequirePermission('boxoffice.drawer')
+  drawers(
+    @Param('eventId') eventId: string,
+    @Query('date') date: string | undefined,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    return this.service.drawerReport(
+      eventId,
+      date && BUSINESS_DATE.test(date) ? date : undefined,
+      isDrawerSupervisor(user.roles) ? undefined : user.sub,
+    );
+  }
+
+  /** POST /api/events/:eventId/box-office/drawers/close — record the cash count. */
+  @Post('drawers/close')
+  @RequirePermission('boxoffice.drawer')
+  closeDrawer(
+    @Param('eventId') eventId: string,
+    @Body() dto: CloseDrawerDto,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    return this.service.closeDrawer(eventId, dto, user.sub, user.roles);
+  }
+}
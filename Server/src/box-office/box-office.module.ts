@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { BoxOfficeService } from './box-office.service';
+import { BoxOfficeController } from './box-office.controller';
+import { OrdersModule } from '../orders/orders.module';
+import { TicketsModule } from '../tickets/tickets.module';
+import { TicketTypesModule } from '../ticket-types/ticket-types.module';
+import { TicketHoldsModule } from '../ticket-holds/ticket-holds.module';
+import { AttendeesModule } from '../attendees/attendees.module';
+import { BadgeTemplatesModule } from '../badge-templates/badge-templates.module';
+import { PaymentsModule } from '../payments/payments.module';
+import { SseModule } from '../sse/sse.module';
+
+@Module({
+  imports: [OrdersModule, TicketsModule, TicketTypesModule, TicketHoldsModule, AttendeesModule, BadgeTemplatesModule, PaymentsModule, SseModule],
+  controllers: [BoxOfficeController],
+  providers: [BoxOfficeService],
+})
+export class BoxOfficeModule {}
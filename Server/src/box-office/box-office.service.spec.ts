@@ -0,0 +1,181 @@
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { BoxOfficeService } from './box-office.service';
+
+describe('BoxOfficeService', () => {
+  const event = { id: 'evt-1', orgId: 'org-1', timezone: 'Europe/Zurich', currency: 'CHF' };
+  const dayPass = {
+    id: 'tt-day',
+    name: 'Day pass',
+    category: 'general',
+    currency: 'CHF',
+    available: 10,
+    soldOut: false,
+    maxPerOrder: 5,
+    pricing: { activePriceCents: 4500 },
+  };
+  const walkIn = { firstName: 'Ada', lastName: 'Walker', email: 'Ada@Example.com' };
+
+  function setup() {
+    const service: any = Object.create(BoxOfficeService.prototype);
+    const sales: any[] = [];
+    const closes: any[] = [];
+    Object.assign(service, {
+      prisma: {
+        event: { findUnique: jest.fn().mockResolvedValue(event) },
+        order: { delete: jest.fn() },
+        boxOfficeSale: {
+          create: jest.fn(async ({ data }: any) => {
+            const row = { id: `sale-${sales.length + 1}`, ...data };
+            sales.push(row);
+            return row;
+          }),
+          findMany: jest.fn(async () => sales.map((s) => ({ ...s, order: { _count: { tickets: 1 } } }))),
+          aggregate: jest.fn(async ({ where }: any) => ({
+            _sum: {
+              amountCents: sales
+                .filter((s) => s.soldBy === where.soldBy && s.paymentMethod === where.paymentMethod)
+                .reduce((acc, s) => acc + s.amountCents, 0),
+            },
+          })),
+        },
+        cashDrawerClose: {
+          findUnique: jest.fn().mockResolvedValue(null),
+          findMany: jest.fn(async () => closes),
+          create: jest.fn(async ({ data }: any) => {
+            const row = { id: 'close-1', createdAt: new Date(), ...data };
+            closes.push(row);
+            return row;
+          }),
+        },
+        user: {
+          findMany: jest.fn().mockResolvedValue([{ id: 'staff-1', displayName: 'Desk 1', email: 'desk1@example.com' }]),
+        },
+      },
+      ticketTypes: { findPublicByEvent: jest.fn().mockResolvedValue([dayPass]) },
+      attendees: {
+        findByEmail: jest.fn().mockResolvedValue(null),
+        create: jest.fn(async (data: any) => ({ id: 'att-1', ...data })),
+      },
+      orders: {
+        create: jest.fn(async (data: any) => ({ id: 'ord-1', orderNumber: 'SRA-0001', items: data.items })),
+        updateMeta: jest.fn(),
+        markPaid: jest.fn(),
+      },
+      ticketHolds: { holdForOrder: jest.fn() },
+      tickets: {
+        issueForOrder: jest.fn().mockResolvedValue([
+          { id: 'tkt-1', code: 'A1', qrPayload: 'q', ticketTypeId: 'tt-day' },
+          { id: 'tkt-2', code: 'A2', qrPayload: 'q', ticketTypeId: 'tt-day' },
+        ]),
+      },
+      orderPaidSync: { dispatchForOrder: jest.fn().mockResolvedValue({ dispatched: true }) },
+      sse: { emitOrder: jest.fn() },
+      audit: { log: jest.fn() },
+      logger: { log: jest.fn(), error: jest.fn() },
+    });
+    return { service, sales };
+  }
+
+  it('sells for cash, issues the tickets and records the change', async () => {
+    const { service, sales } = setup();
+
+    const result = await service.sell(
+      'evt-1',
+      { items: [{ ticketTypeId: 'tt-day', quantity: 2 }], attendee: walkIn, paymentMethod: 'cash', tenderedCents: 10000 },
+      'staff-1',
+    );
+
+    expect(service.attendees.create).toHaveBeenCalledWith(
+      expect.objectContaining({ email: 'ada@example.com' }),
+    );
+    expect(service.ticketHolds.holdForOrder).toHaveBeenCalled();
+    expect(service.orders.markPaid).toHaveBeenCalledWith('ord-1', expect.objectContaining({ method: 'cash' }));
+    expect(service.tickets.issueForOrder).toHaveBeenCalledWith('ord-1');
+    expect(result).toMatchObject({ totalCents: 9000, changeCents: 1000, tickets: [{ id: 'tkt-1' }, { id: 'tkt-2' }] });
+    expect(sales[0]).toMatchObject({ soldBy: 'staff-1', paymentMethod: 'cash', amountCents: 9000, tenderedCents: 10000 });
+  });
+
+  it('issues complimentary tickets at no charge, but only with a reason', async () => {
+    const { service } = setup();
+    const sale = { items: [{ ticketTypeId: 'tt-day', quantity: 1 }], attendee: walkIn, paymentMethod: 'comp' };
+
+    await expect(service.sell('evt-1', sale, 'staff-1')).rejects.toThrow(BadRequestException);
+    const result = await service.sell('evt-1', { ...sale, compReason: 'Speaker guest' }, 'staff-1');
+
+    expect(result.totalCents).toBe(0);
+    expect(service.orders.create).toHaveBeenCalledWith(
+      expect.objectContaining({ items: [expect.objectContaining({ unitPriceCents: 0 })] }),
+    );
+  });
+
+  it('rejects short cash before creating anything', async () => {
+    const { service } = setup();
+
+    await expect(
+      service.sell(
+        'evt-1',
+        { items: [{ ticketTypeId: 'tt-day', quantity: 1 }], attendee: walkIn, paymentMethod: 'cash', tenderedCents: 2000 },
+        'staff-1',
+      ),
+    ).rejects.toThrow('Cash tendered does not cover the total');
+    expect(service.orders.create).not.toHaveBeenCalled();
+  });
+
+  it('drops the order when the seats are gone', async () => {
+    const { service } = setup();
+    service.ticketHolds.holdForOrder.mockRejectedValue(new BadRequestException('Day pass is sold out'));
+
+    await expect(
+      service.sell(
+        'evt-1',
+        { items: [{ ticketTypeId: 'tt-day', quantity: 1 }], attendee: walkIn, paymentMethod: 'card_terminal' },
+        'staff-1',
+      ),
+    ).rejects.toThrow('sold out');
+    expect(service.prisma.order.delete).toHaveBeenCalledWith({ where: { id: 'ord-1' } });
+    expect(service.tickets.issueForOrder).not.toHaveBeenCalled();
+  });
+
+  it('reconciles the drawer against float plus cash sales', async () => {
+    const { service } = setup();
+    const sell = (paymentMethod: string, extra = {}) =>
+      service.sell(
+        'evt-1',
+        { items: [{ ticketTypeId: 'tt-day', quantity: 1 }], attendee: walkIn, paymentMethod, ...extra },
+        'staff-1',
+      );
+    await sell('cash', { tenderedCents: 5000 });
+    await sell('card_terminal', { terminalReference: 'TRM-42' });
+
+    const close = await service.closeDrawer(
+      'evt-1',
+      { userId: 'staff-1', openingFloatCents: 20000, countedCents: 24000 },
+      'staff-1',
+      ['box_office'],
+    );
+    expect(close).toMatchObject({ expectedCents: 24500, varianceCents: -500 });
+
+    const report = await service.drawerReport('evt-1');
+    expect(report.drawers).toEqual([
+      expect.objectContaining({
+        userId: 'staff-1',
+        sales: 2,
+        cashCents: 4500,
+        cardCents: 4500,
+        expectedCashCents: 24500,
+        close: expect.objectContaining({ countedCents: 24000, varianceCents: -500 }),
+      }),
+    ]);
+  });
+
+  it('only lets supervisors close another staff user’s drawer', async () => {
+    const { service } = setup();
+
+    await expect(
+      service.closeDrawer('evt-1', { userId: 'staff-2', countedCents: 0 }, 'staff-1', ['box_office']),
+    ).rejects.toThrow(ForbiddenException);
+    await expect(
+      service.closeDrawer('evt-1', { userId: 'staff-2', countedCents: 0 }, 'admin-1', ['event_admin']),
+    ).resolves.toMatchObject({ userId: 'staff-2', closedBy: 'admin-1' });
+  });
+});
@@ -0,0 +1,469 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { OrdersService } from '../orders/orders.service';
+import { TicketsService } from '../tickets/tickets.service';
+import { TicketTypesService } from '../ticket-types/ticket-types.service';
+import { TicketHoldsService } from '../ticket-holds/ticket-holds.service';
+import { AttendeesService } from '../attendees/attendees.service';
+import { BadgeTemplatesService } from '../badge-templates/badge-templates.service';
+import { OrderPaidSyncService } from '../payments/order-paid-sync.service';
+import { SseService } from '../sse/sse.service';
+import { AuditLogService, AuditAction } from '../audit-log/audit-log.service';
+import { formatEventDateIso } from '../common/event-date.util';
+import { normalizeEmail } from '../common/email.util';
+
+/** How a walk-in paid. `comp` issues the tickets free of charge. */
+export const BOX_OFFICE_PAYMENT_METHODS = ['cash', 'card_terminal', 'comp'] as const;
+
+export type BoxOfficePaymentMethod = (typeof BOX_OFFICE_PAYMENT_METHODS)[number];
+
+/** Roles that see and close every staff user's drawer, not just their own. */
+const DRAWER_SUPERVISOR_ROLES = ['event_admin', 'admin', 'super_admin'];
+
+export function isDrawerSupervisor(roles: string[]): boolean {
+  return roles.some((r) => DRAWER_SUPERVISOR_ROLES.includes(r));
+}
+
+export interface BoxOfficeSaleInput {
+  items: Array<{ ticketTypeId: string; quantity: number }>;
+  attendee: {
+    firstName: string;
+    lastName: string;
+    email: string;
+    company?: string;
+    phone?: string;
+  };
+  paymentMethod: BoxOfficePaymentMethod;
+  /** Cash handed over — required for cash sales, change is computed. */
+  tenderedCents?: number;
+  terminalReference?: string;
+  compReason?: string;
+}
+
+export interface DrawerSummary {
+  userId: string;
+  displayName: string | null;
+  email: string | null;
+  sales: number;
+  tickets: number;
+  cashCents: number;
+  cardCents: number;
+  compTickets: number;
+  openingFloatCents: number;
+  /** Opening float plus cash sales (frozen once the drawer is closed). */
+  expectedCashCents: number;
+  close: {
+    countedCents: number;
+    varianceCents: number;
+    note: string | null;
+    closedBy: string;
+    closedAt: Date;
+  } | null;
+}
+
+/**
+ * Box Office Service — on-site point of sale.
+ *
+ * A walk-in sale runs the same steps as an online checkout, compressed into
+ * one request: seats are held (so the box office cannot oversell what the
+ * online shop is selling at the same moment), the order is created and
+ * marked paid with the tender used, and tickets are issued on the spot.
+ * Confirmation emails are skipped — the buyer is standing at the desk — but
+ * `order.paid` is still dispatched so WordPress sees the registration.
+ *
+ * Every sale is recorded against the staff user who rang it up; the drawer
+ * report sums those per user and business day for the end-of-day count.
+ */
+@Injectable()
+export class BoxOfficeService {
+  private readonly logger = new Logger(BoxOfficeService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly orders: OrdersService,
+    private readonly tickets: TicketsService,
+    private readonly ticketTypes: TicketTypesService,
+    private readonly ticketHolds: TicketHoldsService,
+    private readonly attendees: AttendeesService,
+    private readonly badgeTemplates: BadgeTemplatesService,
+    private readonly orderPaidSync: OrderPaidSyncService,
+    private readonly sse: SseService,
+    private readonly audit: AuditLogService,
+  ) {}
+
+  // ─── Helpers ───────────────────────────────────────────────────
+
+  private async loadEvent(eventId: string) {
+    const event = await this.prisma.event.findUnique({
+      where: { id: eventId },
+      select: { id: true, orgId: true, timezone: true, currency: true },
+    });
+    if (!event) throw new NotFoundException(`Event ${eventId} not found`);
+    return event;
+  }
+
+  /** Today's date in the event timezone — the day a drawer belongs to. */
+  private businessDate(event: { timezone: string }, at = new Date()): string {
+    return formatEventDateIso(at, event.timezone);
+  }
+
+  // ─── Selling ───────────────────────────────────────────────────
+
+  /**
+   * Ticket types the box office can sell right now, with their current
+   * price and remaining availability. Exhibitor packages are left out:
+   * they need booth provisioning that only the online checkout performs.
+   */
+  async catalog(eventId: string) {
+    await this.loadEvent(eventId);
+    const types = await this.ticketTypes.findPublicByEvent(eventId);
+    return types
+      .filter((t) => t.category !== 'exhibitor' && !t.soldOut)
+      .map((t) => ({
+        id: t.id,
+        name: t.name,
+        category: t.category,
+        priceCents: t.pricing.activePriceCents,
+        currency: t.currency,
+        available: t.available,
+        maxPerOrder: t.maxPerOrder,
+      }));
+  }
+
+  /**
+   * Ring up a walk-in sale and issue its tickets.
+   *
+   * The attendee is matched by email (walk-ins who registered online but
+   * never paid keep their record) and created otherwise.
+   */
+  async sell(eventId: string, input: BoxOfficeSaleInput, actorUserId: string) {
+    const event = await this.loadEvent(eventId);
+    const catalog = new Map((await this.catalog(eventId)).map((t) => [t.id, t]));
+
+    if (input.items.length === 0) {
+      throw new BadRequestException('Select at least one ticket');
+    }
+    const lines = input.items.map((item) => {
+      const tt = catalog.get(item.ticketTypeId);
+      if (!tt) {
+        throw new BadRequestException(
+          `Ticket type ${item.ticketTypeId} is not on sale at the box office`,
+        );
+      }
+      if (item.quantity < 1 || item.quantity > tt.maxPerOrder) {
+        throw new BadRequestException(
+          `Quantity for ${tt.name} must be between 1 and ${tt.maxPerOrder}`,
+        );
+      }
+      return {
+        ticketTypeId: tt.id,
+        quantity: item.quantity,
+        unitPriceCents: input.paymentMethod === 'comp' ? 0 : tt.priceCents,
+        meta: { basePriceCents: tt.priceCents },
+      };
+    });
+
+    const totalCents = lines.reduce((sum, line) => sum + line.unitPriceCents * line.quantity, 0);
+    let changeCents: number | null = null;
+    if (input.paymentMethod === 'cash') {
+      if (input.tenderedCents == null || input.tenderedCents < totalCents) {
+        throw new BadRequestException('Cash tendered does not cover the total');
+      }
+      changeCents = input.tenderedCents - totalCents;
+    }
+    if (input.paymentMethod === 'comp' && !input.compReason?.trim()) {
+      throw new BadRequestException('A reason is required for complimentary tickets');
+    }
+
+    // ── Attendee ──
+    const email = normalizeEmail(input.attendee.email);
+    let attendee = await this.attendees.findByEmail(eventId, email);
+    if (!attendee) {
+      attendee = await this.attendees.create({
+        eventId,
+        orgId: event.orgId,
+        email,
+        firstName: input.attendee.firstName,
+        lastName: input.attendee.lastName,
+        phone: input.attendee.phone,
+        company: input.attendee.company,
+      });
+    }
+
+    // ── Order + inventory ──
+    const order = await this.orders.create({
+      eventId,
+      orgId: event.orgId,
+      attendeeId: attendee.id,
+      totalCents,
+      currency: event.currency,
+      items: lines,
+    });
+    try {
+      await this.ticketHolds.holdForOrder({ id: order.id, eventId, items: order.items });
+    } catch (err) {
+      await this.prisma.order.delete({ where: { id: order.id } });
+      throw err;
+    }
+
+    await this.orders.updateMeta(order.id, {
+      boxOffice: true,
+      ...(input.paymentMethod === 'comp' ? { isComp: true } : {}),
+    });
+    await this.orders.markPaid(order.id, {
+      method: input.paymentMethod,
+      providerPaymentId: input.terminalReference || null,
+      customerEmail: email,
+      customerName: `${attendee.firstName} ${attendee.lastName}`,
+    });
+
+    const issued = await this.tickets.issueForOrder(order.id);
+
+    const sale = await this.prisma.boxOfficeSale.create({
+      data: {
+        eventId,
+        orderId: order.id,
+        soldBy: actorUserId,
+        paymentMethod: input.paymentMethod,
+        amountCents: totalCents,
+        currency: event.currency,
+        tenderedCents: input.paymentMethod === 'cash' ? input.tenderedCents : null,
+        changeCents,
+        terminalReference: input.terminalReference || null,
+        compReason: input.paymentMethod === 'comp' ? input.compReason!.trim() : null,
+        businessDate: this.businessDate(event),
+      },
+    });
+
+    this.audit.log({
+      eventId,
+      userId: actorUserId,
+      action: AuditAction.BOX_OFFICE_SALE,
+      entity: 'order',
+      entityId: order.id,
+      detail: {
+        orderNumber: order.orderNumber,
+        paymentMethod: input.paymentMethod,
+        amountCents: totalCents,
+        tickets: issued.length,
+        ...(input.compReason ? { compReason: input.compReason } : {}),
+      },
+    });
+
+    this.sse.emitOrder(eventId, {
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      totalCents,
+      currency: event.currency,
+      status: 'paid',
+    });
+
+    this.orderPaidSync
+      .dispatchForOrder(order.id)
+      .catch((err) =>
+        this.logger.error(`Webhook dispatch failed for order.paid: ${err}`),
+      );
+
+    this.logger.log(
+      `Box office sale ${order.orderNumber}: ${issued.length} ticket(s), ${input.paymentMethod} ${totalCents}`,
+    );
+
+    return {
+      saleId: sale.id,
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      attendeeId: attendee.id,
+      totalCents,
+      currency: event.currency,
+      paymentMethod: input.paymentMethod,
+      changeCents,
+      tickets: issued.map((t) => ({ id: t.id, code: t.code, ticketTypeId: t.ticketTypeId })),
+    };
+  }
+
+  /** The current staff user's sales for today, newest first. */
+  async recentSales(eventId: string, userId: string) {
+    const event = await this.loadEvent(eventId);
+    return this.prisma.boxOfficeSale.findMany({
+      where: { eventId, soldBy: userId, businessDate: this.businessDate(event) },
+      orderBy: { createdAt: 'desc' },
+      take: 50,
+      include: {
+        order: {
+          select: {
+            orderNumber: true,
+            customerName: true,
+            _count: { select: { tickets: true } },
+          },
+        },
+      },
+    });
+  }
+
+  /**
+   * Render the badge of a ticket sold at the box office as a print-ready PDF,
+   * using the template assigned to its ticket type (or the event default).
+   */
+  async renderBadge(eventId: string, ticketId: string) {
+    const ticket = await this.prisma.ticket.findFirst({
+      where: { id: ticketId, eventId },
+      select: { ticketTypeId: true, order: { select: { boxOfficeSale: { select: { id: true } } } } },
+    });
+    if (!ticket?.order?.boxOfficeSale) {
+      throw new NotFoundException(`Box office ticket ${ticketId} not found`);
+    }
+
+    const template = await this.badgeTemplates.findForTicketType(eventId, ticket.ticketTypeId);
+    if (!template) {
+      throw new BadRequestException('No badge template is assigned to this ticket type');
+    }
+
+    return this.badgeTemplates.renderBadge(template.id, eventId, ticketId, {}, 'pdf');
+  }
+
+  // ─── Cash drawer ───────────────────────────────────────────────
+
+  /**
+   * End-of-day drawer report: one row per staff user who sold on `date`
+   * (YYYY-MM-DD, event timezone; defaults to today). Box-office staff only
+   * see their own drawer — pass `onlyUserId` to restrict.
+   */
+  async drawerReport(eventId: string, date?: string, onlyUserId?: string) {
+    const event = await this.loadEvent(eventId);
+    const businessDate = date ?? this.businessDate(event);
+
+    const [sales, closes] = await Promise.all([
+      this.prisma.boxOfficeSale.findMany({
+        where: { eventId, businessDate, ...(onlyUserId ? { soldBy: onlyUserId } : {}) },
+        include: { order: { select: { _count: { select: { tickets: true } } } } },
+      }),
+      this.prisma.cashDrawerClose.findMany({
+        where: { eventId, businessDate, ...(onlyUserId ? { userId: onlyUserId } : {}) },
+      }),
+    ]);
+
+    const userIds = [...new Set([...sales.map((s) => s.soldBy), ...closes.map((c) => c.userId)])];
+    const users = await this.prisma.user.findMany({
+      where: { id: { in: userIds } },
+      select: { id: true, displayName: true, email: true },
+    });
+    const userMap = new Map(users.map((u) => [u.id, u]));
+    const closeMap = new Map(closes.map((c) => [c.userId, c]));
+
+    const drawers: DrawerSummary[] = userIds.map((userId) => {
+      const own = sales.filter((s) => s.soldBy === userId);
+      const sum = (method: BoxOfficePaymentMethod) =>
+        own.filter((s) => s.paymentMethod === method).reduce((acc, s) => acc + s.amountCents, 0);
+      const close = closeMap.get(userId);
+      const cashCents = sum('cash');
+      const openingFloatCents = close?.openingFloatCents ?? 0;
+
+      return {
+        userId,
+        displayName: userMap.get(userId)?.displayName ?? null,
+        email: userMap.get(userId)?.email ?? null,
+        sales: own.length,
+        tickets: own.reduce((acc, s) => acc + s.order._count.tickets, 0),
+        cashCents,
+        cardCents: sum('card_terminal'),
+        compTickets: own
+          .filter((s) => s.paymentMethod === 'comp')
+          .reduce((acc, s) => acc + s.order._count.tickets, 0),
+        openingFloatCents,
+        expectedCashCents: close?.expectedCents ?? openingFloatCents + cashCents,
+        close: close
+          ? {
+              countedCents: close.countedCents,
+              varianceCents: close.varianceCents,
+              note: close.note,
+              closedBy: close.closedBy,
+              closedAt: close.createdAt,
+            }
+          : null,
+      };
+    });
+
+    return {
+      businessDate,
+      currency: event.currency,
+      drawers: drawers.sort((a, b) => (a.displayName ?? '').localeCompare(b.displayName ?? '')),
+      totals: {
+        sales: drawers.reduce((acc, d) => acc + d.sales, 0),
+        tickets: drawers.reduce((acc, d) => acc + d.tickets, 0),
+        cashCents: drawers.reduce((acc, d) => acc + d.cashCents, 0),
+        cardCents: drawers.reduce((acc, d) => acc + d.cardCents, 0),
+        compTickets: drawers.reduce((acc, d) => acc + d.compTickets, 0),
+      },
+    };
+  }
+
+  /**
+   * Close a staff user's drawer for a business day with the counted cash.
+   * The expected amount is frozen at this point; a drawer is closed once.
+   */
+  async closeDrawer(
+    eventId: string,
+    data: {
+      userId: string;
+      businessDate?: string;
+      openingFloatCents?: number;
+      countedCents: number;
+      note?: string;
+    },
+    actorUserId: string,
+    actorRoles: string[],
+  ) {
+    if (data.userId !== actorUserId && !isDrawerSupervisor(actorRoles)) {
+      throw new ForbiddenException('Box office staff can only close their own drawer');
+    }
+
+    const event = await this.loadEvent(eventId);
+    const businessDate = data.businessDate ?? this.businessDate(event);
+    const existing = await this.prisma.cashDrawerClose.findUnique({
+      where: { eventId_userId_businessDate: { eventId, userId: data.userId, businessDate } },
+    });
+    if (existing) {
+      throw new ConflictException(`Drawer is already closed for ${businessDate}`);
+    }
+
+    const cash = await this.prisma.boxOfficeSale.aggregate({
+      where: { eventId, businessDate, soldBy: data.userId, paymentMethod: 'cash' },
+      _sum: { amountCents: true },
+    });
+    const openingFloatCents = data.openingFloatCents ?? 0;
+    const expectedCents = openingFloatCents + (cash._sum.amountCents ?? 0);
+    const varianceCents = data.countedCents - expectedCents;
+
+    const close = await this.prisma.cashDrawerClose.create({
+      data: {
+        eventId,
+        userId: data.userId,
+        businessDate,
+        openingFloatCents,
+        expectedCents,
+        countedCents: data.countedCents,
+        varianceCents,
+        note: data.note || null,
+        closedBy: actorUserId,
+      },
+    });
+
+    this.audit.log({
+      eventId,
+      userId: actorUserId,
+      action: AuditAction.BOX_OFFICE_DRAWER_CLOSED,
+      entity: 'cash_drawer',
+      entityId: close.id,
+      detail: { drawerUserId: data.userId, businessDate, expectedCents, countedCents: data.countedCents, varianceCents },
+    });
+
+    return close;
+  }
+}
@@ -0,0 +1,105 @@
+import { createPublicKey, verify } from 'crypto';
+import { CheckInManifestService, payloadDigest } from './check-in-manifest.service';
+
+/**
+ * Scanners verify the manifest signature with WebCrypto (ECDSA P-256,
+ * raw r||s) and look scans up by payload digest — both must line up with
+ * what the server produces.
+ */
+describe('CheckInManifestService', () => {
+  function makeService(): any {
+    const service: any = Object.create(CheckInManifestService.prototype);
+    service.keys = null;
+    service.prisma = {
+      event: {
+        findUnique: jest.fn().mockResolvedValue({
+          id: 'evt-1', name: 'Expo', endDate: new Date('2020-01-01'), timezone: 'Europe/Zurich',
+        }),
+      },
+      ticket: {
+        findMany: jest.fn().mockResolvedValue([
+          {
+            id: 'tkt-1',
+            code: 'ABCD2345',
+            status: 'valid',
+            checkedInAt: null,
+            ticketTypeId: 'tt-day',
+            meta: null,
+            ticketType: { name: 'Day Pass', validDays: null },
+            attendee: { firstName: 'Ada', lastName: 'Lovelace', tags: ['speaker'] },
+            order: null,
+          },
+        ]),
+      },
+      checkIn: { findMany: jest.fn().mockResolvedValue([]) },
+    };
+    service.config = { getOrThrow: jest.fn().mockReturnValue('test-secret') };
+    service.tickets = { buildQrPayload: jest.fn((code: string) => `${code}:1f2e3d4c5b6a7988`) };
+    service.audit = { log: jest.fn() };
+    service.accessZones = { findByEvent: jest.fn().mockResolvedValue([]) };
+    service.logger = { log: jest.fn() };
+    return service;
+  }
+
+  it('signs the manifest with a key the published JWK verifies', async () => {
+    const service = makeService();
+    const { manifest, signature, publicKey } = await service.build('evt-1', { userId: 'usr-1' });
+
+    const key = createPublicKey({ key: publicKey as any, format: 'jwk' });
+    const ok = verify('sha256', Buffer.from(manifest), { key, dsaEncoding: 'ieee-p1363' }, Buffer.from(signature, 'base64url'));
+    expect(ok).toBe(true);
+    expect(publicKey).not.toHaveProperty('d');
+
+    // Same secret → same key across restarts
+    const again = await makeService().build('evt-1');
+    expect(again.publicKey).toEqual(publicKey);
+  });
+
+  it('lists payload digests instead of codes and never expires immediately', async () => {
+    const before = Date.now();
+    const { manifest } = await makeService().build('evt-1');
+    const parsed = JSON.parse(manifest);
+
+    expect(parsed.tickets).toEqual([
+      expect.objectContaining({ d: payloadDigest('ABCD2345:1f2e3d4c5b6a7988'), name: 'Ada Lovelace', status: 'valid' }),
+    ]);
+    expect(manifest).not.toContain('ABCD2345');
+    // Event ended long ago — minimum validity still applies
+    expect(new Date(parsed.expiresAt).getTime()).toBeGreaterThan(before + 11 * 60 * 60 * 1000);
+  });
+
+  it('lists the restricted zones each ticket may enter', async () => {
+    const service = makeService();
+    const zone = (id: string, rules: Record<string, unknown>) => ({
+      id, name: id, enforcement: 'reject', active: true, ticketTypeIds: null, tags: null, addOns: null, ...rules,
+    });
+    service.accessZones.findByEvent.mockResolvedValue([
+      zone('hall', {}),
+      zone('vip', { ticketTypeIds: ['tt-vip'] }),
+      zone('green-room', { tags: ['speaker'] }),
+    ]);
+
+    const parsed = JSON.parse((await service.build('evt-1')).manifest);
+
+    expect(parsed.zones.map((z: any) => [z.id, z.restricted])).toEqual([
+      ['hall', false],
+      ['vip', true],
+      ['green-room', true],
+    ]);
+    expect(parsed.tickets[0].z).toEqual(['green-room']);
+  });
+
+  it('lists the valid days of day passes and the days already checked in', async () => {
+    const service = makeService();
+    const [ticket] = await service.prisma.ticket.findMany();
+    service.prisma.ticket.findMany.mockResolvedValue([
+      { ...ticket, ticketType: { name: 'Day Pass', validDays: ['2026-11-13'] } },
+    ]);
+    service.prisma.checkIn.findMany.mockResolvedValue([{ ticketId: 'tkt-1', eventDay: '2026-11-13' }]);
+
+    const parsed = JSON.parse((await service.build('evt-1')).manifest);
+
+    expect(parsed.timezone).toBe('Europe/Zurich');
+    expect(parsed.tickets[0]).toMatchObject({ days: ['2026-11-13'], seen: ['2026-11-13'] });
+  });
+});
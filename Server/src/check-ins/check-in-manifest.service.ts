@@ -0,0 +1,222 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  createECDH,
+  createHash,
+  createHmac,
+  createPrivateKey,
+  sign,
+  type JsonWebKey,
+  type KeyObject,
+} from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { TicketsService } from '../tickets/tickets.service';
+import { AuditLogService, AuditAction } from '../audit-log/audit-log.service';
+import { AccessZonesService, zoneAdmits, zoneCredentials, zoneIsOpen } from '../access-zones/access-zones.service';
+
+/** How long a scanner may rely on a manifest after the event ends. */
+const GRACE_AFTER_EVENT_MS = 24 * 60 * 60 * 1000;
+/** Minimum validity, so a manifest pulled late on the last day still works. */
+const MIN_VALIDITY_MS = 12 * 60 * 60 * 1000;
+
+export interface ManifestTicket {
+  /** base64url SHA-256 of the ticket's QR payload, truncated to 128 bits. */
+  d: string;
+  id: string;
+  name: string;
+  type: string;
+  status: string;
+  checkedInAt: string | null;
+  /** Restricted zones this ticket may enter (omitted when none) */
+  z?: string[];
+  /** Event days (YYYY-MM-DD) a day-restricted ticket is valid on */
+  days?: string[];
+  /** Event days this ticket was already checked in at the main entrance */
+  seen?: string[];
+}
+
+export interface ManifestZone {
+  id: string;
+  name: string;
+  enforcement: string;
+  /** False when the zone has no rules and admits every ticket */
+  restricted: boolean;
+}
+
+export interface CheckInManifest {
+  v: 1;
+  eventId: string;
+  eventName: string;
+  /** Event timezone — scanners derive the event day of a scan in it */
+  timezone: string;
+  keyId: string;
+  issuedAt: string;
+  expiresAt: string;
+  zones: ManifestZone[];
+  tickets: ManifestTicket[];
+}
+
+/**
+ * Digest of a QR payload as listed in the manifest. Scanners compute the
+ * same digest (WebCrypto SHA-256) for each scan and look it up.
+ */
+export function payloadDigest(qrPayload: string): string {
+  return createHash('sha256').update(qrPayload).digest('base64url').slice(0, 22);
+}
+
+/**
+ * Check-In Manifest Service — signed ticket lists for offline scanners.
+ *
+ * Scanners cannot hold the QR HMAC key (it is derived from JWT_SECRET), so
+ * the manifest carries a digest of every ticket's signed QR payload instead.
+ * A scanned payload is valid offline iff its digest is listed, which gives
+ * the same guarantee as the HMAC check without letting a lost device mint
+ * new codes.
+ *
+ * The manifest JSON is signed with ECDSA P-256 (raw r||s, as WebCrypto
+ * expects). The key pair is derived deterministically from JWT_SECRET, so
+ * it survives restarts and needs no extra configuration; scanners pin the
+ * public key per event on first download.
+ */
+@Injectable()
+export class CheckInManifestService {
+  private readonly logger = new Logger(CheckInManifestService.name);
+  private keys: { privateKey: KeyObject; publicJwk: JsonWebKey; keyId: string } | null = null;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly config: ConfigService,
+    private readonly tickets: TicketsService,
+    private readonly audit: AuditLogService,
+    private readonly accessZones: AccessZonesService,
+  ) {}
+
+  async build(
+    eventId: string,
+    requester?: { userId?: string; deviceId?: string },
+  ): Promise<{ manifest: string; signature: string; publicKey: JsonWebKey }> {
+    const event = await this.prisma.event.findUnique({
+      where: { id: eventId },
+      select: { id: true, name: true, endDate: true, timezone: true },
+    });
+    if (!event) throw new NotFoundException(`Event ${eventId} not found`);
+
+    const tickets = await this.prisma.ticket.findMany({
+      where: { eventId },
+      select: {
+        id: true,
+        code: true,
+        status: true,
+        checkedInAt: true,
+        ticketTypeId: true,
+        meta: true,
+        ticketType: { select: { name: true, validDays: true } },
+        attendee: { select: { firstName: true, lastName: true, tags: true } },
+        order: { select: { customerName: true } },
+      },
+    });
+
+    // Per-day "already checked in" for multi-day events
+    const entries = await this.prisma.checkIn.findMany({
+      where: { eventId, direction: 'in', zoneId: null, eventDay: { not: null } },
+      select: { ticketId: true, eventDay: true },
+      distinct: ['ticketId', 'eventDay'],
+    });
+    const seen = new Map<string, string[]>();
+    for (const e of entries) {
+      seen.set(e.ticketId, [...(seen.get(e.ticketId) ?? []), e.eventDay!]);
+    }
+
+    // Scanners check zone access offline, so each ticket lists the
+    // restricted zones it may enter
+    const zones = (await this.accessZones.findByEvent(eventId)).filter((z) => z.active);
+    const restricted = zones.filter((z) => !zoneIsOpen(z));
+
+    const { privateKey, publicJwk, keyId } = this.signingKeys();
+    const now = Date.now();
+    const manifest: CheckInManifest = {
+      v: 1,
+      eventId,
+      eventName: event.name,
+      timezone: event.timezone,
+      keyId,
+      issuedAt: new Date(now).toISOString(),
+      expiresAt: new Date(
+        Math.max(event.endDate.getTime() + GRACE_AFTER_EVENT_MS, now + MIN_VALIDITY_MS),
+      ).toISOString(),
+      zones: zones.map((z) => ({
+        id: z.id,
+        name: z.name,
+        enforcement: z.enforcement,
+        restricted: restricted.includes(z),
+      })),
+      tickets: tickets.map((t) => {
+        const credentials = zoneCredentials(t);
+        const allowed = restricted.filter((z) => zoneAdmits(z, credentials)).map((z) => z.id);
+        const days = t.ticketType.validDays as string[] | null;
+        const seenDays = seen.get(t.id);
+        return {
+          d: payloadDigest(this.tickets.buildQrPayload(t.code, eventId)),
+          id: t.id,
+          name: t.attendee
+            ? `${t.attendee.firstName} ${t.attendee.lastName}`.trim()
+            : (t.order?.customerName ?? ''),
+          type: t.ticketType.name,
+          status: t.status,
+          checkedInAt: t.checkedInAt?.toISOString() ?? null,
+          ...(allowed.length > 0 && { z: allowed }),
+          ...(days && days.length > 0 && { days }),
+          ...(seenDays && { seen: seenDays.sort() }),
+        };
+      }),
+    };
+
+    const body = JSON.stringify(manifest);
+    const signature = sign('sha256', Buffer.from(body), {
+      key: privateKey,
+      dsaEncoding: 'ieee-p1363',
+    }).toString('base64url');
+
+    // A manifest lists every attendee of the event — keep track of who pulled one
+    this.audit.log({
+      eventId,
+      userId: requester?.userId,
+      action: AuditAction.CHECK_IN_MANIFEST_ISSUED,
+      entity: 'event',
+      entityId: eventId,
+      detail: { tickets: tickets.length, deviceId: requester?.deviceId, expiresAt: manifest.expiresAt },
+    });
+    this.logger.log(`Check-in manifest issued for event ${eventId}: ${tickets.length} ticket(s)`);
+
+    return { manifest: body, signature, publicKey: publicJwk };
+  }
+
+  // ─── Internals ────────────────────────────────────────────────
+
+  private signingKeys() {
+    if (this.keys) return this.keys;
+
+    // P-256 private scalar from the app secret (any 256-bit value below the
+    // curve order works; an HMAC output is below it with overwhelming odds)
+    const secret = this.config.getOrThrow<string>('JWT_SECRET');
+    const d = createHmac('sha256', secret).update('sratix:check-in-manifest:v1').digest();
+    const ecdh = createECDH('prime256v1');
+    ecdh.setPrivateKey(d);
+    const point = ecdh.getPublicKey(); // 0x04 || x || y
+
+    const publicJwk: JsonWebKey = {
+      kty: 'EC',
+      crv: 'P-256',
+      x: point.subarray(1, 33).toString('base64url'),
+      y: point.subarray(33).toString('base64url'),
+    };
+    const privateKey = createPrivateKey({
+      key: { ...publicJwk, d: d.toString('base64url') } as any,
+      format: 'jwk',
+    });
+    const keyId = createHash('sha256').update(point).digest('hex').slice(0, 16);
+
+    this.keys = { privateKey, publicJwk, keyId };
+    return this.keys;
+  }
+}
@@ -9,10 +9,14 @@ import {
   HttpCode,
   HttpStatus,
 } from '@nestjs/common';
-import { AuthGuard } from '@nestjs/passport';
+import { ApiKeyOrJwtGuard } from '../auth/guards/api-key-or-jwt.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
-import { Roles } from '../auth/decorators/roles.decorator';
+import { RequirePermission } from '../auth/decorators/require-permission.decorator';
+import { ApiKeyScope } from '../auth/decorators/api-key-scope.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { JwtPayload } from '../auth/auth.service';
 import { CheckInsService, CheckInInput } from './check-ins.service';
+import { CheckInManifestService } from './check-in-manifest.service';
 
 /**
  * Check-In Controller — QR validation, check-in recording, offline sync.
@@ -20,21 +24,28 @@ import { CheckInsService, CheckInInput } from './check-ins.service';
  * Endpoints:
  *   POST /api/events/:eventId/check-ins          — process a single check-in
  *   POST /api/events/:eventId/check-ins/sync      — sync offline batch
+ *   GET  /api/events/:eventId/check-ins/manifest  — signed ticket manifest for offline scanners
  *   GET  /api/events/:eventId/check-ins           — list recent check-ins
  *   GET  /api/events/:eventId/check-ins/stats     — check-in statistics
  */
 @Controller('events/:eventId/check-ins')
-@UseGuards(AuthGuard('jwt'), RolesGuard)
+@UseGuards(ApiKeyOrJwtGuard, RolesGuard)
 export class CheckInsController {
-  constructor(private readonly checkInsService: CheckInsService) {}
+  constructor(
+    private readonly checkInsService: CheckInsService,
+    private readonly manifests: CheckInManifestService,
+  ) {}
 
   /**
    * Process a single check-in.
-   * Body: { qrPayload, method, direction?, deviceId?, location? }
+   * Body: { qrPayload, method, direction?, deviceId?, location?, zoneId? }
+   * At an access zone, tickets not on the zone's list are rejected or
+   * flagged, depending on the zone.
    */
   @Post()
   @HttpCode(HttpStatus.OK)
-  @Roles('event_admin', 'super_admin', 'staff', 'gate_staff', 'scanner')
+  @RequirePermission('checkin.scan')
+  @ApiKeyScope('write:checkins')
   async checkIn(
     @Param('eventId') eventId: string,
     @Body() body: {
@@ -44,6 +55,7 @@ export class CheckInsController {
       deviceId?: string;
       staffId?: string;
       location?: string;
+      zoneId?: string;
     },
   ) {
     const input: CheckInInput = {
@@ -55,11 +67,13 @@ export class CheckInsController {
 
   /**
    * Sync a batch of offline check-ins.
-   * Body: { checkIns: CheckInInput[] }
+   * Body: { checkIns: CheckInInput[] } (max 500)
+   * Returns counts plus one result per record, matched by `clientId`.
    */
   @Post('sync')
   @HttpCode(HttpStatus.OK)
-  @Roles('event_admin', 'super_admin', 'staff', 'gate_staff', 'scanner')
+  @RequirePermission('checkin.scan')
+  @ApiKeyScope('write:checkins')
   async syncOffline(
     @Param('eventId') eventId: string,
     @Body() body: { checkIns: CheckInInput[] },
@@ -67,11 +81,26 @@ export class CheckInsController {
     return this.checkInsService.syncOfflineBatch(eventId, body.checkIns);
   }
 
+  /**
+   * Signed ticket manifest for offline validation.
+   * Returns { manifest (JSON string), signature (base64url), publicKey (JWK) }.
+   */
+  @Get('manifest')
+  @RequirePermission('checkin.scan')
+  getManifest(
+    @Param('eventId') eventId: string,
+    @Query('deviceId') deviceId: string | undefined,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    return this.manifests.build(eventId, { userId: user.sub, deviceId });
+  }
+
   /**
    * List recent check-ins for the event.
    */
   @Get()
-  @Roles('event_admin', 'super_admin', 'staff')
+  @RequirePermission('checkin.view')
+  @ApiKeyScope('read:checkins')
   findAll(
     @Param('eventId') eventId: string,
     @Query('limit') limit?: number,
@@ -83,7 +112,8 @@ export class CheckInsController {
    * Get check-in statistics for the event.
    */
   @Get('stats')
-  @Roles('event_admin', 'super_admin', 'staff')
+  @RequirePermission('checkin.view')
+  @ApiKeyScope('read:checkins')
   getStats(@Param('eventId') eventId: string) {
     return this.checkInsService.getStats(eventId);
   }
@@ -1,14 +1,16 @@
 import { Module } from '@nestjs/common';
 import { CheckInsService } from './check-ins.service';
 import { CheckInsController } from './check-ins.controller';
+import { CheckInManifestService } from './check-in-manifest.service';
 import { TicketsModule } from '../tickets/tickets.module';
 import { SseModule } from '../sse/sse.module';
 import { OutgoingWebhooksModule } from '../outgoing-webhooks/outgoing-webhooks.module';
+import { AccessZonesModule } from '../access-zones/access-zones.module';
 
 @Module({
-  imports: [TicketsModule, SseModule, OutgoingWebhooksModule],
+  imports: [TicketsModule, SseModule, OutgoingWebhooksModule, AccessZonesModule],
   controllers: [CheckInsController],
-  providers: [CheckInsService],
+  providers: [CheckInsService, CheckInManifestService],
   exports: [CheckInsService],
 })
 export class CheckInsModule {}
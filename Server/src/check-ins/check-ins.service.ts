@@ -10,6 +10,8 @@ import { TicketsService } from '../tickets/tickets.service';
 import { SseService } from '../sse/sse.service';
 import { AuditLogService, AuditAction } from '../audit-log/audit-log.service';
 import { OutgoingWebhooksService } from '../outgoing-webhooks/outgoing-webhooks.service';
+import { AccessZonesService, zoneAdmits, zoneCredentials } from '../access-zones/access-zones.service';
+import { formatEventDateIso } from '../common/event-date.util';
 
 export interface CheckInInput {
   /** QR payload: "{code}:{hmac}" */
@@ -26,10 +28,14 @@ export interface CheckInInput {
   staffId?: string;
   /** Location / gate name */
   location?: string;
+  /** Access zone scanned into (omit for the main entrance) */
+  zoneId?: string;
   /** Whether this check-in happened offline and is being synced */
   offline?: boolean;
   /** Offline timestamp (ISO string) — used when syncing offline check-ins */
   offlineTimestamp?: string;
+  /** Scanner-side scan ID, echoed back in sync results */
+  clientId?: string;
 }
 
 export interface CheckInResult {
@@ -42,16 +48,46 @@ export interface CheckInResult {
   message: string;
   /** Whether this attendee was already checked in */
   alreadyCheckedIn: boolean;
+  /** The earlier check-in, when alreadyCheckedIn */
+  previousCheckIn?: {
+    timestamp: string;
+    deviceId: string | null;
+    location: string | null;
+    offline: boolean;
+  };
+  /** Offline record that was already synced (device retried a lost response) */
+  replayed?: boolean;
+  /** Name of the access zone, when the scan was at a zone */
+  zone?: string;
+  /** Admitted at a flag-only zone although not on its access list */
+  zoneFlagged?: boolean;
+  /** Event day (YYYY-MM-DD, event timezone) the scan counts towards */
+  eventDay?: string;
 }
 
+export interface SyncItemResult {
+  clientId?: string;
+  /** accepted | conflict (ticket was already checked in) | rejected (ticket not valid) | error */
+  status: 'accepted' | 'conflict' | 'rejected' | 'error';
+  ticketId?: string;
+  attendeeName?: string;
+  message: string;
+  previousCheckIn?: CheckInResult['previousCheckIn'];
+}
+
+/** Upper bound on records per sync request. */
+const MAX_SYNC_BATCH = 500;
+
 /**
  * Check-In Service — validates QR codes and records check-in events.
  *
  * Flow:
  *   1. Parse QR payload → verify HMAC signature
  *   2. Look up ticket by code
- *   3. Validate ticket status (valid, not voided, not expired)
- *   4. Check duplicate check-in rules
+ *   3. Validate ticket status (valid, not voided/transferred, not expired),
+ *      the ticket type's valid days and, at an access zone, the zone's
+ *      ticket type / tag / add-on rules
+ *   4. Check duplicate check-in rules (per event day and zone)
  *   5. Create CheckIn record
  *   6. Update ticket status
  *   7. Emit SSE event for live dashboard
@@ -66,6 +102,7 @@ export class CheckInsService {
     private readonly sse: SseService,
     private readonly audit: AuditLogService,
     private readonly outgoingWebhooks: OutgoingWebhooksService,
+    private readonly accessZones: AccessZonesService,
   ) {}
 
   /**
@@ -74,6 +111,14 @@ export class CheckInsService {
   async processCheckIn(input: CheckInInput): Promise<CheckInResult> {
     const { qrPayload, eventId, method, direction = 'in' } = input;
 
+    // Offline scans count towards the day they were scanned, not synced
+    const timestamp = input.offlineTimestamp
+      ? new Date(input.offlineTimestamp)
+      : new Date();
+    if (Number.isNaN(timestamp.getTime())) {
+      throw new BadRequestException(`Invalid offlineTimestamp "${input.offlineTimestamp}"`);
+    }
+
     // 1. Verify HMAC signature
     const ticketCode = this.tickets.verifyQrPayload(qrPayload, eventId);
     if (!ticketCode) {
@@ -84,9 +129,9 @@ export class CheckInsService {
     const ticket = await this.prisma.ticket.findUnique({
       where: { code: ticketCode },
       include: {
-        attendee: { select: { firstName: true, lastName: true, email: true, company: true } },
-        ticketType: { select: { name: true } },
-        event: { select: { id: true, name: true } },
+        attendee: { select: { firstName: true, lastName: true, email: true, company: true, tags: true } },
+        ticketType: { select: { name: true, validDays: true } },
+        event: { select: { id: true, name: true, timezone: true } },
       },
     });
 
@@ -111,20 +156,130 @@ export class CheckInsService {
         alreadyCheckedIn: false,
       };
     }
+    if (ticket.status === 'transferred') {
+      return {
+        success: false,
+        ticketId: ticket.id,
+        attendeeName: this.formatName(ticket.attendee),
+        ticketType: ticket.ticketType.name,
+        direction,
+        message: 'Ticket has been transferred — this QR code is no longer valid',
+        alreadyCheckedIn: false,
+      };
+    }
+
+    const eventDay = formatEventDateIso(timestamp, ticket.event.timezone);
+
+    // 4a. Day passes — only valid on their listed days
+    const validDays = ticket.ticketType.validDays as string[] | null;
+    if (direction === 'in' && validDays?.length && !validDays.includes(eventDay)) {
+      const attendeeName = this.formatName(ticket.attendee);
+      this.audit.log({
+        eventId,
+        action: AuditAction.CHECK_IN_WRONG_DAY,
+        entity: 'ticket',
+        entityId: ticket.id,
+        detail: {
+          ticketCode: ticket.code,
+          attendeeName,
+          eventDay,
+          validDays,
+          deviceId: input.deviceId,
+          offline: input.offline ?? false,
+        },
+      });
+      return {
+        success: false,
+        ticketId: ticket.id,
+        attendeeName,
+        ticketType: ticket.ticketType.name,
+        direction,
+        message: `Not valid on ${eventDay} — valid on ${validDays.join(', ')}`,
+        alreadyCheckedIn: false,
+        eventDay,
+      };
+    }
+
+    // 4b. Access zone rules — leaving a zone is always allowed
+    const zone = input.zoneId
+      ? await this.accessZones.findForCheckIn(input.zoneId, eventId)
+      : null;
+    const notOnZoneList =
+      !!zone && direction === 'in' && !zoneAdmits(zone, zoneCredentials(ticket));
+    if (zone && notOnZoneList && zone.enforcement === 'reject') {
+      const attendeeName = this.formatName(ticket.attendee);
+      this.audit.log({
+        eventId,
+        action: AuditAction.CHECK_IN_ZONE_DENIED,
+        entity: 'ticket',
+        entityId: ticket.id,
+        detail: {
+          ticketCode: ticket.code,
+          attendeeName,
+          zoneId: zone.id,
+          zone: zone.name,
+          deviceId: input.deviceId,
+          offline: input.offline ?? false,
+        },
+      });
+      return {
+        success: false,
+        ticketId: ticket.id,
+        attendeeName,
+        ticketType: ticket.ticketType.name,
+        direction,
+        message: `Not allowed in ${zone.name}`,
+        alreadyCheckedIn: false,
+        zone: zone.name,
+      };
+    }
 
-    // 5. Check for duplicate check-in (direction = 'in')
+    const zoneFlagged = notOnZoneList; // flag-only zone: admit, mark for review
+
+    // 5a. Offline record already synced — the device never saw the response
+    if (input.offline && input.offlineTimestamp && input.deviceId) {
+      const replay = await this.prisma.checkIn.findFirst({
+        where: { ticketId: ticket.id, deviceId: input.deviceId, timestamp, direction },
+      });
+      if (replay) {
+        return {
+          success: true,
+          checkInId: replay.id,
+          ticketId: ticket.id,
+          attendeeName: this.formatName(ticket.attendee),
+          ticketType: ticket.ticketType.name,
+          direction,
+          message: 'Already synced',
+          alreadyCheckedIn: false,
+          replayed: true,
+          zone: zone?.name,
+        };
+      }
+    }
+
+    // 5b. Check for duplicate check-in (direction = 'in') on the same day
+    //     at the same zone — each day of a multi-day event is a fresh entry
     let alreadyCheckedIn = false;
+    let previousCheckIn: CheckInResult['previousCheckIn'];
     if (direction === 'in') {
       const existingCheckIn = await this.prisma.checkIn.findFirst({
         where: {
           ticketId: ticket.id,
           direction: 'in',
+          zoneId: zone?.id ?? null,
+          eventDay,
         },
         orderBy: { timestamp: 'desc' },
       });
 
       if (existingCheckIn) {
         alreadyCheckedIn = true;
+        previousCheckIn = {
+          timestamp: existingCheckIn.timestamp.toISOString(),
+          deviceId: existingCheckIn.deviceId,
+          location: existingCheckIn.location,
+          offline: existingCheckIn.offline,
+        };
         // Allow re-entry but flag it
         this.logger.warn(
           `Duplicate check-in for ticket ${ticket.code} (already checked in at ${existingCheckIn.timestamp.toISOString()})`,
@@ -133,10 +288,6 @@ export class CheckInsService {
     }
 
     // 6. Create CheckIn record
-    const timestamp = input.offlineTimestamp
-      ? new Date(input.offlineTimestamp)
-      : new Date();
-
     const checkIn = await this.prisma.checkIn.create({
       data: {
         eventId,
@@ -145,15 +296,19 @@ export class CheckInsService {
         method,
         deviceId: input.deviceId ?? null,
         staffId: input.staffId ?? null,
-        location: input.location ?? null,
+        location: input.location ?? zone?.name ?? null,
+        zoneId: zone?.id ?? null,
+        zoneFlagged,
+        eventDay,
         direction,
         offline: input.offline ?? false,
         timestamp,
       },
     });
 
-    // 7. Update ticket status on first check-in
-    if (direction === 'in' && !alreadyCheckedIn) {
+    // 7. Update ticket status on first check-in (the first zone scan may
+    //    come after the main entrance, or instead of it)
+    if (direction === 'in' && !alreadyCheckedIn && ticket.status !== 'used') {
       await this.tickets.markCheckedIn(ticket.id);
     }
 
@@ -166,12 +321,17 @@ export class CheckInsService {
       ticketType: ticket.ticketType.name,
       direction,
       timestamp: timestamp.toISOString(),
+      zone: zone?.name,
     });
 
     // 9. Audit log
     this.audit.log({
       eventId,
-      action: alreadyCheckedIn ? AuditAction.CHECK_IN_DUPLICATE : AuditAction.CHECK_IN,
+      action: zoneFlagged
+        ? AuditAction.CHECK_IN_ZONE_FLAGGED
+        : alreadyCheckedIn
+          ? AuditAction.CHECK_IN_DUPLICATE
+          : AuditAction.CHECK_IN,
       entity: 'check_in',
       entityId: checkIn.id,
       detail: {
@@ -182,6 +342,7 @@ export class CheckInsService {
         method,
         deviceId: input.deviceId,
         offline: input.offline ?? false,
+        ...(zone && { zoneId: zone.id, zone: zone.name }),
       },
     });
 
@@ -196,6 +357,9 @@ export class CheckInsService {
         method,
         timestamp: timestamp.toISOString(),
         alreadyCheckedIn,
+        zone: zone?.name ?? null,
+        zoneFlagged,
+        eventDay,
       })
       .catch((err) =>
         this.logger.error(`Webhook dispatch failed for checkin.created: ${err}`),
@@ -212,27 +376,62 @@ export class CheckInsService {
       attendeeName,
       ticketType: ticket.ticketType.name,
       direction,
-      message: alreadyCheckedIn
-        ? `Re-entry: ${attendeeName} (previously checked in)`
-        : `Checked in: ${attendeeName}`,
+      message: zoneFlagged
+        ? `Flagged: ${attendeeName} is not on the access list for ${zone!.name}`
+        : alreadyCheckedIn
+          ? `Re-entry: ${attendeeName} (previously checked in)`
+          : `Checked in: ${attendeeName}`,
       alreadyCheckedIn,
+      previousCheckIn,
+      zone: zone?.name,
+      zoneFlagged,
+      eventDay,
     };
   }
 
   /**
    * Sync a batch of offline check-ins.
-   * Uses first-check-in-wins conflict resolution.
+   *
+   * Records are replayed oldest first, so the earliest scan of a ticket is
+   * the one that checks it in; later scans of the same ticket (another
+   * gate, another device, or an online scan in between) are still recorded
+   * but reported back as conflicts with the earlier check-in attached.
+   * Tickets voided or transferred after the scanner's manifest was pulled,
+   * scans on a day the ticket is not valid for, scans refused by an access
+   * zone, and scans with an unparseable timestamp come back as rejected.
    */
   async syncOfflineBatch(
     eventId: string,
     checkIns: CheckInInput[],
-  ): Promise<{ processed: number; conflicts: number; errors: number }> {
+  ): Promise<{ processed: number; conflicts: number; errors: number; results: SyncItemResult[] }> {
+    if (!Array.isArray(checkIns)) {
+      throw new BadRequestException('checkIns must be an array');
+    }
+    if (checkIns.length > MAX_SYNC_BATCH) {
+      throw new BadRequestException(`At most ${MAX_SYNC_BATCH} check-ins per sync`);
+    }
+
     let processed = 0;
     let conflicts = 0;
     let errors = 0;
+    const results: SyncItemResult[] = [];
+
+    // Scans with an unparseable timestamp can't be placed on an event day
+    const valid: CheckInInput[] = [];
+    for (const ci of checkIns) {
+      if (ci.offlineTimestamp && Number.isNaN(new Date(ci.offlineTimestamp).getTime())) {
+        results.push({
+          clientId: ci.clientId,
+          status: 'rejected',
+          message: `Invalid offlineTimestamp "${ci.offlineTimestamp}"`,
+        });
+      } else {
+        valid.push(ci);
+      }
+    }
 
     // Sort by offline timestamp (earliest first) for deterministic conflict resolution
-    const sorted = [...checkIns].sort((a, b) => {
+    const sorted = valid.sort((a, b) => {
       const ta = a.offlineTimestamp ? new Date(a.offlineTimestamp).getTime() : 0;
       const tb = b.offlineTimestamp ? new Date(b.offlineTimestamp).getTime() : 0;
       return ta - tb;
@@ -241,20 +440,55 @@ export class CheckInsService {
     for (const ci of sorted) {
       try {
         const result = await this.processCheckIn({ ...ci, eventId, offline: true });
-        if (result.alreadyCheckedIn) {
+        const status: SyncItemResult['status'] = !result.success
+          ? 'rejected'
+          : result.alreadyCheckedIn
+            ? 'conflict'
+            : 'accepted';
+        if (status === 'conflict') {
           conflicts++;
         }
         processed++;
+        results.push({
+          clientId: ci.clientId,
+          status,
+          ticketId: result.ticketId,
+          attendeeName: result.attendeeName,
+          message: result.message,
+          previousCheckIn: result.previousCheckIn,
+        });
       } catch (err) {
         errors++;
         this.logger.warn(`Offline sync error: ${err}`);
+        results.push({
+          clientId: ci.clientId,
+          status: 'error',
+          message: err instanceof Error ? err.message : String(err),
+        });
       }
     }
 
+    if (checkIns.length > 0) {
+      this.audit.log({
+        eventId,
+        action: AuditAction.CHECK_IN_OFFLINE_SYNC,
+        entity: 'event',
+        entityId: eventId,
+        detail: {
+          deviceId: checkIns[0].deviceId,
+          received: checkIns.length,
+          processed,
+          conflicts,
+          rejected: results.filter((r) => r.status === 'rejected').length,
+          errors,
+        },
+      });
+    }
+
     this.logger.log(
       `Offline sync for event ${eventId}: ${processed} processed, ${conflicts} conflicts, ${errors} errors`,
     );
-    return { processed, conflicts, errors };
+    return { processed, conflicts, errors, results };
   }
 
   // ─── Queries ──────────────────────────────────────────────────
@@ -270,6 +504,7 @@ export class CheckInsService {
           },
         },
         attendee: { select: { firstName: true, lastName: true, email: true } },
+        zone: { select: { name: true } },
       },
       orderBy: { timestamp: 'desc' },
       take: limit,
@@ -277,11 +512,15 @@ export class CheckInsService {
   }
 
   async getStats(eventId: string) {
-    const [totalTickets, checkedIn, checkIns] = await Promise.all([
-      this.prisma.ticket.count({ where: { eventId, status: { not: 'voided' } } }),
+    const [event, totalTickets, checkedIn, checkIns, zones, byDay] = await Promise.all([
+      this.prisma.event.findUnique({ where: { id: eventId }, select: { timezone: true } }),
+      this.prisma.ticket.count({ where: { eventId, status: { notIn: ['voided', 'transferred'] } } }),
       this.prisma.ticket.count({ where: { eventId, status: 'used' } }),
       this.prisma.checkIn.count({ where: { eventId, direction: 'in' } }),
+      this.getZoneOccupancy(eventId),
+      this.getAttendanceByDay(eventId),
     ]);
+    const today = event ? formatEventDateIso(new Date(), event.timezone) : null;
 
     return {
       totalTickets,
@@ -290,9 +529,78 @@ export class CheckInsService {
       percentCheckedIn: totalTickets > 0
         ? Math.round((checkedIn / totalTickets) * 100)
         : 0,
+      today: byDay.find((d) => d.day === today)?.checkedIn ?? 0,
+      byDay,
+      zones,
     };
   }
 
+  /**
+   * Attendance per event day at the main entrance: distinct tickets
+   * checked in, and all entries including re-entries.
+   */
+  async getAttendanceByDay(eventId: string) {
+    const scans = await this.prisma.checkIn.findMany({
+      where: { eventId, direction: 'in', zoneId: null, eventDay: { not: null } },
+      select: { eventDay: true, ticketId: true },
+    });
+
+    const days = new Map<string, { tickets: Set<string>; checkIns: number }>();
+    for (const scan of scans) {
+      const day = days.get(scan.eventDay!) ?? { tickets: new Set<string>(), checkIns: 0 };
+      day.tickets.add(scan.ticketId);
+      day.checkIns++;
+      days.set(scan.eventDay!, day);
+    }
+
+    return [...days.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([day, { tickets, checkIns }]) => ({ day, checkedIn: tickets.size, checkIns }));
+  }
+
+  /**
+   * Live occupancy per access zone: tickets whose latest scan at the zone
+   * is an `in`. Counting per ticket (rather than ins minus outs) keeps a
+   * missed exit scan from inflating the number twice on re-entry.
+   */
+  async getZoneOccupancy(eventId: string) {
+    const [zones, scans] = await Promise.all([
+      this.accessZones.findByEvent(eventId),
+      this.prisma.checkIn.findMany({
+        where: { eventId, zoneId: { not: null } },
+        select: { zoneId: true, ticketId: true, direction: true, zoneFlagged: true },
+        orderBy: { timestamp: 'asc' },
+      }),
+    ]);
+
+    const latest = new Map<string, string>(); // `${zoneId}:${ticketId}` → direction
+    const entries = new Map<string, number>();
+    const flagged = new Map<string, number>();
+    for (const scan of scans) {
+      latest.set(`${scan.zoneId}:${scan.ticketId}`, scan.direction);
+      if (scan.direction === 'in') {
+        entries.set(scan.zoneId!, (entries.get(scan.zoneId!) ?? 0) + 1);
+        if (scan.zoneFlagged) flagged.set(scan.zoneId!, (flagged.get(scan.zoneId!) ?? 0) + 1);
+      }
+    }
+    const occupancy = new Map<string, number>();
+    for (const [key, direction] of latest) {
+      if (direction !== 'in') continue;
+      const zoneId = key.slice(0, key.indexOf(':'));
+      occupancy.set(zoneId, (occupancy.get(zoneId) ?? 0) + 1);
+    }
+
+    return zones.map((zone) => ({
+      id: zone.id,
+      name: zone.name,
+      active: zone.active,
+      capacity: zone.capacity,
+      occupancy: occupancy.get(zone.id) ?? 0,
+      entries: entries.get(zone.id) ?? 0,
+      flagged: flagged.get(zone.id) ?? 0,
+    }));
+  }
+
   // ─── Helpers ──────────────────────────────────────────────────
 
   private formatName(
@@ -0,0 +1,78 @@
+import { evaluateConditions, validateConditions, type ConditionNode } from './conditions';
+
+describe('conditions', () => {
+  it('keeps a plain rule list as an implicit AND', () => {
+    const conditions: ConditionNode[] = [
+      { field: 'attending', operator: 'eq', value: 'yes' },
+      { field: 'diet', operator: 'in', value: ['vegan', 'vegetarian'] },
+    ];
+    expect(evaluateConditions(conditions, { attending: true, diet: 'vegan' })).toBe(true);
+    expect(evaluateConditions(conditions, { attending: true, diet: 'none' })).toBe(false);
+  });
+
+  it('evaluates nested all / any / not groups', () => {
+    const conditions: ConditionNode[] = [
+      {
+        any: [
+          { field: 'role', operator: 'eq', value: 'speaker' },
+          { all: [{ field: 'company', operator: 'not_empty' }, { not: { field: 'student', operator: 'eq', value: true } }] },
+        ],
+      },
+    ];
+    expect(evaluateConditions(conditions, { role: 'speaker', student: true })).toBe(true);
+    expect(evaluateConditions(conditions, { role: 'guest', company: 'ACME', student: false })).toBe(true);
+    expect(evaluateConditions(conditions, { role: 'guest', company: 'ACME', student: 'true' })).toBe(false);
+    expect(evaluateConditions(conditions, { role: 'guest' })).toBe(false);
+  });
+
+  it('compares numbers, dates and patterns', () => {
+    const check = (node: ConditionNode, answers: Record<string, unknown>) => evaluateConditions([node], answers);
+
+    expect(check({ field: 'age', operator: 'gte', value: 18 }, { age: '18' })).toBe(true);
+    expect(check({ field: 'age', operator: 'lt', value: 18 }, { age: '' })).toBe(false);
+    expect(check({ field: 'team', operator: 'between', value: [2, 5] }, { team: 5 })).toBe(true);
+    expect(check({ field: 'team', operator: 'between', value: [2, 5] }, { team: 6 })).toBe(false);
+    expect(check({ field: 'arrival', operator: 'before', value: '2026-11-12' }, { arrival: '2026-11-11' })).toBe(true);
+    expect(check({ field: 'arrival', operator: 'after', value: '2026-11-12' }, { arrival: '2026-11-12' })).toBe(false);
+    expect(check({ field: 'email', operator: 'matches', value: '@(epfl|ethz)\\.ch$' }, { email: 'Ada@ETHZ.ch' })).toBe(true);
+    expect(check({ field: 'email', operator: 'matches', value: '(' }, { email: 'ada@ethz.ch' })).toBe(false);
+  });
+
+  it('reads ticket type and member session from the context', () => {
+    const conditions: ConditionNode[] = [
+      { field: '_ticket_category', operator: 'eq', value: 'exhibitor' },
+      { any: [{ field: '_member_group', operator: 'eq', value: 'partner' }, { field: '_membership_tier', operator: 'not_empty' }] },
+    ];
+    expect(evaluateConditions(conditions, {}, { ticketCategory: 'exhibitor', memberGroup: 'partner' })).toBe(true);
+    expect(evaluateConditions(conditions, {}, { ticketCategory: 'exhibitor' })).toBe(false);
+    expect(evaluateConditions(conditions, {})).toBe(false);
+  });
+
+  it('rejects dangling, self and cyclic references and malformed rules', () => {
+    const errors = validateConditions([
+      { id: 'a', conditions: [{ field: 'b', operator: 'eq', value: 1 }] },
+      { id: 'b', slug: 'org_b', conditions: [{ any: [{ field: 'c', operator: 'not_empty' }] }] },
+      { id: 'c', conditions: [{ not: { field: 'a', operator: 'empty' } }] },
+      { id: 'd', conditions: [{ field: 'd', operator: 'eq', value: 1 }, { field: 'ghost', operator: 'eq', value: 1 }] },
+      {
+        id: 'e',
+        conditions: [
+          { field: 'org_b', operator: 'between', value: [1] },
+          { field: 'org_b', operator: 'like', value: 'x' },
+          { all: [], any: [] },
+          { field: '_partner', operator: 'not_empty' },
+        ],
+      },
+    ]);
+
+    expect(errors).toEqual([
+      "Field 'd': condition references the field itself",
+      "Field 'd': condition references unknown field 'ghost'",
+      "Field 'e': 'between' on 'org_b' needs two numbers or two dates",
+      "Field 'e': unknown operator 'like' on 'org_b'",
+      "Field 'e': condition group must have exactly one of all, any or not",
+      "Circular conditions: 'a' → 'b' → 'c' → 'a'",
+    ]);
+    expect(validateConditions([{ id: 'x' }, { id: 'y', conditions: [{ field: 'x', operator: 'gt', value: '2026-01-01' }] }])).toEqual([]);
+  });
+});
@@ -3,11 +3,17 @@
  *
  * Used by:
  *   - Server: form submission validation (skip required check for hidden fields)
+ *     and schema validation on save
  *   - Dashboard: live preview & builder condition UI
  *   - Client embed: dynamic field show/hide
  *
- * A condition rule describes when a field should be VISIBLE.
- * When multiple conditions are present, ALL must pass (AND logic).
+ * A condition describes when a field should be VISIBLE. A field's
+ * `conditions` array is an implicit AND of its nodes; each node is either a
+ * rule or a group (`all` / `any` / `not`) that can nest further.
+ *
+ * Rules may reference another field's answer or a context value of the
+ * registration (see CONTEXT_FIELDS) — context keys start with `_` so they
+ * can never collide with a field ID.
  *
  * @module common/conditions
  */
@@ -20,10 +26,23 @@ export type ConditionOperator =
   | 'not_empty' // value is truthy / not empty
   | 'empty'     // value is falsy / empty
   | 'contains'  // array includes expected, or string contains expected
-  | 'in';       // value is one of the expected array values
+  | 'in'        // value is one of the expected array values
+  | 'gt'        // value > expected (numbers or dates)
+  | 'gte'       // value >= expected
+  | 'lt'        // value < expected
+  | 'lte'       // value <= expected
+  | 'between'   // expected[0] <= value <= expected[1]
+  | 'before'    // date value is earlier than expected
+  | 'after'     // date value is later than expected
+  | 'matches';  // value matches the expected regular expression (case-insensitive)
+
+export const CONDITION_OPERATORS: readonly ConditionOperator[] = [
+  'eq', 'neq', 'not_empty', 'empty', 'contains', 'in',
+  'gt', 'gte', 'lt', 'lte', 'between', 'before', 'after', 'matches',
+];
 
 export interface ConditionRule {
-  /** The field ID whose answer to evaluate. */
+  /** The field ID (or slug, or context key) whose answer to evaluate. */
   field: string;
   /** Comparison operator. */
   operator: ConditionOperator;
@@ -31,6 +50,64 @@ export interface ConditionRule {
   value?: unknown;
 }
 
+/** A boolean group — exactly one of `all`, `any` or `not` is set. */
+export interface ConditionGroup {
+  all?: ConditionNode[];
+  any?: ConditionNode[];
+  not?: ConditionNode;
+}
+
+export type ConditionNode = ConditionRule | ConditionGroup;
+
+// ─── Context ────────────────────────────────────────────────────
+
+/**
+ * Registration context that conditions can reference alongside answers.
+ * Only the values known at the call site need to be set.
+ */
+export interface ConditionContext {
+  ticketTypeId?: string | null;
+  ticketCategory?: string | null;
+  /** Whether the selected ticket bundles an SRA membership. */
+  sraMembershipTicket?: boolean;
+  /** Member group of the buyer's member session: `sra` | `partner` | `robotx`. */
+  memberGroup?: string | null;
+  /** SRA membership tier of the buyer's member session. */
+  membershipTier?: string | null;
+  /** Partner organization of the buyer's member session. */
+  partnerId?: string | null;
+}
+
+/** Reserved answer keys filled from the ConditionContext. */
+export const CONTEXT_FIELDS = {
+  _ticket_type: 'ticketTypeId',
+  _ticket_category: 'ticketCategory',
+  _is_sra_membership_ticket: 'sraMembershipTicket',
+  _member_group: 'memberGroup',
+  _membership_tier: 'membershipTier',
+  _partner: 'partnerId',
+} as const satisfies Record<string, keyof ConditionContext>;
+
+export function isContextField(key: string): key is keyof typeof CONTEXT_FIELDS {
+  return Object.prototype.hasOwnProperty.call(CONTEXT_FIELDS, key);
+}
+
+/**
+ * Map a ConditionContext to its reserved answer keys, to be merged over
+ * the form answers before evaluating.
+ */
+export function contextAnswers(
+  context: ConditionContext | null | undefined,
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  if (!context) return result;
+  for (const [key, prop] of Object.entries(CONTEXT_FIELDS)) {
+    const value = context[prop];
+    if (value !== undefined && value !== null) result[key] = value;
+  }
+  return result;
+}
+
 // ─── Legacy format conversion ───────────────────────────────────
 
 /**
@@ -41,9 +118,9 @@ export interface ConditionRule {
  * New:    `[{ field: "billing_details_differ", operator: "eq", value: true }]`
  */
 export function normalizeConditions(
-  conditions?: ConditionRule[] | null,
+  conditions?: ConditionNode[] | null,
   conditionalOn?: Record<string, unknown> | null,
-): ConditionRule[] | undefined {
+): ConditionNode[] | undefined {
   if (conditions && conditions.length > 0) {
     return conditions;
   }
@@ -67,18 +144,36 @@ export function normalizeConditions(
  * Returns `true` if all conditions pass (field should be shown).
  * Returns `true` if no conditions are defined (always visible).
  *
- * @param conditions  Array of condition rules (AND logic).
+ * @param conditions  Condition nodes (AND logic at the top level).
  * @param answers     Current form answers keyed by field ID.
+ * @param context     Optional registration context (ticket type, member session).
  */
 export function evaluateConditions(
-  conditions: ConditionRule[] | undefined | null,
+  conditions: ConditionNode[] | undefined | null,
   answers: Record<string, unknown>,
+  context?: ConditionContext | null,
 ): boolean {
   if (!conditions || conditions.length === 0) {
     return true; // No conditions → always visible
   }
 
-  return conditions.every((rule) => evaluateRule(rule, answers));
+  // Context comes from the server, so it wins over same-named submitted keys
+  const values = context ? { ...answers, ...contextAnswers(context) } : answers;
+  return conditions.every((node) => evaluateNode(node, values));
+}
+
+function evaluateNode(
+  node: ConditionNode,
+  answers: Record<string, unknown>,
+): boolean {
+  if (!node || typeof node !== 'object') return true;
+  if (isRule(node)) return evaluateRule(node, answers);
+  if (Array.isArray(node.all)) return node.all.every((n) => evaluateNode(n, answers));
+  if (Array.isArray(node.any)) {
+    return node.any.length === 0 || node.any.some((n) => evaluateNode(n, answers));
+  }
+  if (node.not) return !evaluateNode(node.not, answers);
+  return true;
 }
 
 /**
@@ -122,14 +217,204 @@ function evaluateRule(
       return (rule.value as unknown[]).includes(actual);
     }
 
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte': {
+      const cmp = compare(actual, rule.value);
+      if (cmp === null) return false;
+      if (rule.operator === 'gt') return cmp > 0;
+      if (rule.operator === 'gte') return cmp >= 0;
+      if (rule.operator === 'lt') return cmp < 0;
+      return cmp <= 0;
+    }
+
+    case 'between': {
+      if (!Array.isArray(rule.value) || rule.value.length !== 2) return false;
+      const low = compare(actual, rule.value[0]);
+      const high = compare(actual, rule.value[1]);
+      return low !== null && high !== null && low >= 0 && high <= 0;
+    }
+
+    case 'before':
+    case 'after': {
+      const a = toTime(actual);
+      const b = toTime(rule.value);
+      if (a === null || b === null) return false;
+      return rule.operator === 'before' ? a < b : a > b;
+    }
+
+    case 'matches': {
+      const pattern = toRegExp(rule.value);
+      if (!pattern || isEmpty(actual)) return false;
+      const values = Array.isArray(actual) ? actual : [actual];
+      return values.some(
+        (v) => (typeof v === 'string' || typeof v === 'number') && pattern.test(String(v)),
+      );
+    }
+
     default:
       // Unknown operator — treat as always visible (fail-open)
       return true;
   }
 }
 
+// ─── Schema validation ──────────────────────────────────────────
+
+/** Minimal field shape needed to validate conditions. */
+export interface ConditionedField {
+  id: string;
+  slug?: string;
+  conditions?: unknown;
+}
+
+/**
+ * Check the conditions of every field in a schema. Returns human-readable
+ * problems (empty when valid):
+ *   - malformed groups, unknown operators and values of the wrong shape
+ *   - references to fields that are not in the schema (dangling)
+ *   - fields whose visibility depends on themselves, directly or in a cycle
+ */
+export function validateConditions(fields: ConditionedField[]): string[] {
+  const errors: string[] = [];
+
+  // Conditions may reference a field by ID or slug — resolve both to the ID
+  const idByKey = new Map<string, string>();
+  for (const field of fields) {
+    idByKey.set(field.id, field.id);
+    if (field.slug && !idByKey.has(field.slug)) idByKey.set(field.slug, field.id);
+  }
+
+  const dependsOn = new Map<string, Set<string>>();
+  for (const field of fields) {
+    const deps = new Set<string>();
+    dependsOn.set(field.id, deps);
+    if (field.conditions === undefined || field.conditions === null) continue;
+    if (!Array.isArray(field.conditions)) {
+      errors.push(`Field '${field.id}': conditions must be an array`);
+      continue;
+    }
+
+    for (const rule of collectRules(field.conditions, field.id, errors)) {
+      if (isContextField(rule.field)) continue;
+      const target = idByKey.get(rule.field);
+      if (!target) {
+        errors.push(`Field '${field.id}': condition references unknown field '${rule.field}'`);
+      } else if (target === field.id) {
+        errors.push(`Field '${field.id}': condition references the field itself`);
+      } else {
+        deps.add(target);
+      }
+    }
+  }
+
+  for (const cycle of findCycles(dependsOn)) {
+    errors.push(`Circular conditions: ${[...cycle, cycle[0]].map((id) => `'${id}'`).join(' → ')}`);
+  }
+
+  return errors;
+}
+
+/** Walk a condition tree, reporting structural problems and returning its rules. */
+function collectRules(
+  nodes: unknown[],
+  fieldId: string,
+  errors: string[],
+): ConditionRule[] {
+  const rules: ConditionRule[] = [];
+  const visit = (node: unknown) => {
+    if (!node || typeof node !== 'object' || Array.isArray(node)) {
+      errors.push(`Field '${fieldId}': condition must be a rule or a group`);
+      return;
+    }
+    if ('field' in node) {
+      const problem = ruleProblem(node as ConditionRule);
+      if (problem) errors.push(`Field '${fieldId}': ${problem}`);
+      else rules.push(node as ConditionRule);
+      return;
+    }
+
+    const group = node as ConditionGroup;
+    const keys = (['all', 'any', 'not'] as const).filter((k) => group[k] !== undefined);
+    if (keys.length !== 1) {
+      errors.push(`Field '${fieldId}': condition group must have exactly one of all, any or not`);
+      return;
+    }
+    if (keys[0] === 'not') {
+      visit(group.not);
+    } else if (Array.isArray(group[keys[0]])) {
+      group[keys[0]]!.forEach(visit);
+    } else {
+      errors.push(`Field '${fieldId}': '${keys[0]}' must be an array of conditions`);
+    }
+  };
+  nodes.forEach(visit);
+  return rules;
+}
+
+function ruleProblem(rule: ConditionRule): string | null {
+  if (typeof rule.field !== 'string' || !rule.field) {
+    return 'condition rule is missing its field';
+  }
+  if (!CONDITION_OPERATORS.includes(rule.operator)) {
+    return `unknown operator '${String(rule.operator)}' on '${rule.field}'`;
+  }
+
+  const value = rule.value;
+  switch (rule.operator) {
+    case 'in':
+      return Array.isArray(value) ? null : `'in' on '${rule.field}' needs a list of values`;
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte':
+      return toNumber(value) !== null || toTime(value) !== null
+        ? null
+        : `'${rule.operator}' on '${rule.field}' needs a number or date`;
+    case 'between':
+      return Array.isArray(value) && value.length === 2 && compare(value[0], value[1]) !== null
+        ? null
+        : `'between' on '${rule.field}' needs two numbers or two dates`;
+    case 'before':
+    case 'after':
+      return toTime(value) !== null ? null : `'${rule.operator}' on '${rule.field}' needs a date`;
+    case 'matches':
+      return toRegExp(value) ? null : `'matches' on '${rule.field}' needs a valid regular expression`;
+    default:
+      return null;
+  }
+}
+
+/** Every distinct cycle in the dependency graph, each listed once. */
+function findCycles(graph: Map<string, Set<string>>): string[][] {
+  const cycles: string[][] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+  const path: string[] = [];
+
+  const visit = (id: string) => {
+    state.set(id, 'visiting');
+    path.push(id);
+    for (const dep of graph.get(id) ?? []) {
+      const s = state.get(dep);
+      if (s === 'visiting') cycles.push(path.slice(path.indexOf(dep)));
+      else if (!s) visit(dep);
+    }
+    path.pop();
+    state.set(id, 'done');
+  };
+
+  for (const id of graph.keys()) {
+    if (!state.has(id)) visit(id);
+  }
+  return cycles;
+}
+
 // ─── Helpers ────────────────────────────────────────────────────
 
+function isRule(node: ConditionNode): node is ConditionRule {
+  return 'field' in node;
+}
+
 /** Loose equality: handles boolean/string coercion (e.g. "true" == true, "yes" == true). */
 function looseEquals(a: unknown, b: unknown): boolean {
   if (a === b) return true;
@@ -171,3 +456,42 @@ function isEmpty(value: unknown): boolean {
   }
   return false;
 }
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const n = Number(value);
+    return Number.isFinite(n) ? n : null;
+  }
+  return null;
+}
+
+/** Timestamp of an ISO date (`YYYY-MM-DD`, optionally with a time). */
+function toTime(value: unknown): number | null {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}/.test(value)) return null;
+  const t = Date.parse(value);
+  return Number.isNaN(t) ? null : t;
+}
+
+/**
+ * Compare two values as numbers, or as dates when both are ISO dates.
+ * Returns null when they are not comparable.
+ */
+function compare(a: unknown, b: unknown): number | null {
+  const na = toNumber(a);
+  const nb = toNumber(b);
+  if (na !== null && nb !== null) return na - nb;
+  const ta = toTime(a);
+  const tb = toTime(b);
+  if (ta !== null && tb !== null) return ta - tb;
+  return null;
+}
+
+function toRegExp(pattern: unknown): RegExp | null {
+  if (typeof pattern !== 'string' || !pattern) return null;
+  try {
+    return new RegExp(pattern, 'i');
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,18 @@
+import { eventDays, formatEventDateIso } from './event-date.util';
+
+describe('event-date.util', () => {
+  it('renders the local calendar day of a local-midnight start', () => {
+    // 2026-11-13 00:00 CET
+    expect(formatEventDateIso(new Date('2026-11-12T23:00:00Z'))).toBe('2026-11-13');
+  });
+
+  it('lists every event day in the event timezone, across a DST change', () => {
+    expect(eventDays(new Date('2026-10-23T22:00:00Z'), new Date('2026-10-25T17:00:00Z'))).toEqual([
+      '2026-10-24',
+      '2026-10-25',
+    ]);
+    expect(eventDays(new Date('2026-06-01T07:00:00Z'), new Date('2026-06-01T16:00:00Z'))).toEqual([
+      '2026-06-01',
+    ]);
+  });
+});
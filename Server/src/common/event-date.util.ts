@@ -29,3 +29,27 @@ export function formatEventDateIso(
     parts.find((p) => p.type === type)?.value ?? '';
   return `${get('year')}-${get('month')}-${get('day')}`;
 }
+
+/**
+ * Calendar days (YYYY-MM-DD) an event runs on, from the day of `start` to
+ * the day of `end` inclusive, in the event timezone.
+ */
+export function eventDays(
+  start: Date,
+  end: Date,
+  timeZone: string = EVENT_TIME_ZONE,
+): string[] {
+  const last = formatEventDateIso(end, timeZone);
+  const days: string[] = [];
+  // Step through calendar dates at UTC noon — no DST edge can skip a day
+  for (
+    let day = new Date(`${formatEventDateIso(start, timeZone)}T12:00:00Z`);
+    days.length < 366;
+    day = new Date(day.getTime() + 24 * 60 * 60 * 1000)
+  ) {
+    const iso = day.toISOString().slice(0, 10);
+    if (iso > last) break;
+    days.push(iso);
+  }
+  return days;
+}
@@ -11,6 +11,8 @@ import {
 import { Reflector } from '@nestjs/core';
 import { ConfigService } from '@nestjs/config';
 import { SetMetadata } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { extractApiKey } from '../../api-keys/api-keys.constants';
 
 /**
  * Rate limit configuration per route.
@@ -40,6 +42,9 @@ interface RateLimitEntry {
  *
  * Default: 100 requests / 60 seconds per IP.
  * Override per-route with @RateLimit({ limit: 10, windowSec: 60 }).
+ *
+ * Requests with an API key are additionally counted per key, so one
+ * integration cannot exceed the limit by spreading calls over several hosts.
  */
 @Injectable()
 export class RateLimitGuard implements CanActivate, OnModuleInit, OnModuleDestroy {
@@ -117,12 +122,18 @@ export class RateLimitGuard implements CanActivate, OnModuleInit, OnModuleDestro
 
     // Build a key scoped to route + IP
     const routeKey = `${request.method}:${request.routeOptions?.url ?? request.url}`;
-    const key = `rl:${ip}:${routeKey}`;
-
-    if (this.redis) {
-      return this.checkRedis(context, key, limit, windowSec, ip, routeKey);
+    const check = (key: string, client: string) =>
+      this.redis
+        ? this.checkRedis(context, key, limit, windowSec, client, routeKey)
+        : this.checkMemory(context, key, limit, windowSec, client, routeKey);
+
+    const apiKey = extractApiKey(request.headers);
+    if (apiKey) {
+      const fingerprint = createHash('sha256').update(apiKey).digest('hex').slice(0, 16);
+      await check(`rl:key:${fingerprint}:${routeKey}`, `API key ${apiKey.slice(0, 12)}…`);
     }
-    return this.checkMemory(context, key, limit, windowSec, ip, routeKey);
+
+    return check(`rl:${ip}:${routeKey}`, ip);
   }
 
   // ── Redis-backed check ──────────────────────────────────────────
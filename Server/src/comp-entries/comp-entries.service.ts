@@ -120,7 +120,8 @@ export class CompEntriesService {
 
   /**
    * Create a complimentary entry: attendee + order + ticket.
-   * Sends a confirmation email asynchronously.
+   * Sends the invitation email asynchronously unless `sendInvitation` is
+   * false. Bulk imports pass further profile fields and tags along.
    */
   async create(
     eventId: string,
@@ -132,6 +133,11 @@ export class CompEntriesService {
       organization?: string;
     },
     actorUserId?: string,
+    options: {
+      sendInvitation?: boolean;
+      profile?: Partial<Record<'phone' | 'badgeName' | 'jobTitle' | 'orgRole' | 'dietaryNeeds' | 'accessibilityNeeds', string>>;
+      tags?: string[];
+    } = {},
   ) {
     // Validate comp type
     if (!COMP_TYPES.includes(data.compType)) {
@@ -176,9 +182,10 @@ export class CompEntriesService {
           firstName: data.firstName,
           lastName: data.lastName,
           company: data.organization || undefined,
+          ...options.profile,
           status: 'invited',
           registrationToken,
-          tags: [`comp:${data.compType}`],
+          tags: [...new Set([`comp:${data.compType}`, ...(options.tags ?? [])])],
           meta: {
             compType: data.compType,
             ...(data.organization ? { organization: data.organization } : {}),
@@ -253,9 +260,11 @@ export class CompEntriesService {
     });
 
     // Send invitation email with registration link (fire-and-forget)
-    this.sendCompInvitationEmail(event, data, result.registrationToken, result.order.orderNumber).catch(
-      (err) => this.logger.error(`Comp invitation email failed for ${data.email}: ${err}`),
-    );
+    if (options.sendInvitation !== false) {
+      this.sendCompInvitationEmail(event, data, result.registrationToken, result.order.orderNumber).catch(
+        (err) => this.logger.error(`Comp invitation email failed for ${data.email}: ${err}`),
+      );
+    }
 
     return this.enrichEntry(result.attendee, result.ticket, result.order, eventId);
   }
@@ -363,17 +363,172 @@ export class EmailService {
       currency: string;
       eventName: string;
       isPartial: boolean;
+      /** Public link + PDF of the credit note issued for this refund. */
+      creditNoteUrl?: string;
+      creditNotePdf?: { bytes: Uint8Array; fileName: string };
     },
   ): Promise<DeliveryResult> {
     const html = this.renderRefundNotification(data);
     const refundType = data.isPartial ? 'Partial refund' : 'Full refund';
-    const text = `${refundType} Processed — Order ${data.orderNumber}\n\nHi ${data.customerName},\n\nA ${refundType.toLowerCase()} of ${data.refundAmountFormatted} ${data.currency} has been processed for your order ${data.orderNumber} (${data.eventName}).\n\nThe refund will appear on your original payment method within 5-10 business days.\n\n— Swiss Robotics Association / SRAtix`;
+    const text = `${refundType} Processed — Order ${data.orderNumber}\n\nHi ${data.customerName},\n\nA ${refundType.toLowerCase()} of ${data.refundAmountFormatted} ${data.currency} has been processed for your order ${data.orderNumber} (${data.eventName}).\n\nThe refund will appear on your original payment method within 5-10 business days.\n${data.creditNoteUrl ? `\nCredit note: ${data.creditNoteUrl}\n` : ''}\n— Swiss Robotics Association / SRAtix`;
 
     return this.send({
       to,
       subject: `${refundType} processed — Order ${data.orderNumber}`,
       html,
       text,
+      attachments: data.creditNotePdf
+        ? [{
+            filename: data.creditNotePdf.fileName,
+            content: Buffer.from(data.creditNotePdf.bytes),
+            contentType: 'application/pdf',
+          }]
+        : undefined,
+    });
+  }
+
+  /**
+   * Send the invoice for a pay-by-invoice order: bank details, structured
+   * reference and due date, with the invoice PDF (payable QR-bill) attached.
+   */
+  async sendPaymentInstructions(
+    to: string,
+    data: {
+      customerName: string;
+      orderNumber: string;
+      eventName: string;
+      amountFormatted: string;
+      currency: string;
+      creditorName: string;
+      iban: string;
+      reference: string;
+      dueDateFormatted: string;
+      invoicePdf?: { bytes: Uint8Array; fileName: string };
+    },
+  ): Promise<DeliveryResult> {
+    const html = this.publicWrapper('Your Invoice', `
+      <p style="font-size: 16px; margin: 0 0 20px;">Hi <strong>${data.customerName}</strong>,</p>
+      <p style="font-size: 16px; margin: 0 0 20px;">
+        Thank you for your order <strong>${data.orderNumber}</strong> for <strong>${data.eventName}</strong>.
+        Your tickets are reserved until <strong>${data.dueDateFormatted}</strong>. Please pay the invoice
+        by bank transfer — scan the QR-bill in the attached PDF with your banking app, or enter the details below.
+      </p>
+      <div style="background: #f8fafc; border-left: 4px solid #1a1a2e; border-radius: 6px; padding: 16px 20px; margin: 0 0 20px;">
+        <table role="presentation" width="100%" cellspacing="0" cellpadding="0">
+          ${this.adminInfoRow('Amount', `${data.amountFormatted} ${data.currency}`)}
+          ${this.adminInfoRow('Account holder', data.creditorName)}
+          ${this.adminInfoRow('IBAN', data.iban)}
+          ${this.adminInfoRow('Reference', data.reference)}
+          ${this.adminInfoRow('Due date', data.dueDateFormatted)}
+        </table>
+      </div>
+      <p style="font-size: 15px; margin: 0 0 12px; color: #333;">
+        Always quote the reference — it is how we match your payment to your order.
+        Your tickets are emailed to you as soon as the payment has been received.
+      </p>
+      <p style="font-size: 13px; color: #999; margin: 20px 0 0; line-height: 1.5;">
+        Unpaid orders are cancelled after the due date and the tickets are released.
+      </p>
+    `);
+    const text = `Your Invoice — Order ${data.orderNumber}\n\nHi ${data.customerName},\n\nThank you for your order ${data.orderNumber} for ${data.eventName}. Your tickets are reserved until ${data.dueDateFormatted}. Please pay the invoice by bank transfer — scan the QR-bill in the attached PDF with your banking app, or enter the details below.\n\nAmount: ${data.amountFormatted} ${data.currency}\nAccount holder: ${data.creditorName}\nIBAN: ${data.iban}\nReference: ${data.reference}\nDue date: ${data.dueDateFormatted}\n\nAlways quote the reference — it is how we match your payment to your order. Your tickets are emailed to you as soon as the payment has been received.\n\nUnpaid orders are cancelled after the due date and the tickets are released.\n\n— Swiss Robotics Association / SRAtix`;
+
+    return this.send({
+      to,
+      subject: `Invoice for order ${data.orderNumber} — ${data.eventName}`,
+      html,
+      text,
+      attachments: data.invoicePdf
+        ? [{
+            filename: data.invoicePdf.fileName,
+            content: Buffer.from(data.invoicePdf.bytes),
+            contentType: 'application/pdf',
+          }]
+        : undefined,
+      headers: {
+        'X-SRAtix-Order': data.orderNumber,
+      },
+    });
+  }
+
+  // ─── Waitlist Emails ──────────────────────────────────────────
+
+  /**
+   * Confirm a visitor's place on a ticket type's waitlist.
+   */
+  async sendWaitlistJoined(
+    to: string,
+    data: {
+      name: string;
+      eventName: string;
+      ticketTypeName: string;
+      quantity: number;
+      position: number;
+    },
+  ): Promise<DeliveryResult> {
+    const html = this.publicWrapper("You're on the Waitlist", `
+      <p style="font-size: 16px; margin: 0 0 20px;">Hi <strong>${data.name}</strong>,</p>
+      <p style="font-size: 16px; margin: 0 0 20px;">
+        You are on the waitlist for <strong>${data.ticketTypeName}</strong> at
+        <strong>${data.eventName}</strong>. If tickets become available, we will email you
+        a personal purchase link.
+      </p>
+      <div style="background: #f8fafc; border-left: 4px solid #1a1a2e; border-radius: 6px; padding: 16px 20px; margin: 0 0 20px;">
+        <table role="presentation" width="100%" cellspacing="0" cellpadding="0">
+          ${this.adminInfoRow('Ticket Type', data.ticketTypeName)}
+          ${this.adminInfoRow('Tickets', String(data.quantity))}
+          ${this.adminInfoRow('Position', `#${data.position}`)}
+        </table>
+      </div>
+      <p style="font-size: 13px; color: #999; margin: 20px 0 0; line-height: 1.5;">
+        Offers are time-limited — keep an eye on your inbox (and spam folder).
+      </p>
+    `);
+    const text = `You're on the Waitlist\n\nHi ${data.name},\n\nYou are on the waitlist for ${data.ticketTypeName} at ${data.eventName}. If tickets become available, we will email you a personal purchase link.\n\nTickets: ${data.quantity}\nPosition: #${data.position}\n\nOffers are time-limited — keep an eye on your inbox (and spam folder).\n\n— Swiss Robotics Association / SRAtix`;
+
+    return this.send({
+      to,
+      subject: `You're on the waitlist — ${data.eventName}`,
+      html,
+      text,
+    });
+  }
+
+  /**
+   * Offer reserved seats to the next person on a waitlist.
+   */
+  async sendWaitlistOffer(
+    to: string,
+    data: {
+      name: string;
+      eventName: string;
+      ticketTypeName: string;
+      quantity: number;
+      offerUrl: string;
+      expiresAtFormatted: string;
+    },
+  ): Promise<DeliveryResult> {
+    const html = this.publicWrapper('Tickets Are Available', `
+      <p style="font-size: 16px; margin: 0 0 20px;">Hi <strong>${data.name}</strong>,</p>
+      <p style="font-size: 16px; margin: 0 0 20px;">
+        Good news — tickets for <strong>${data.ticketTypeName}</strong> at
+        <strong>${data.eventName}</strong> have become available and we are holding
+        <strong>${data.quantity}</strong> for you.
+      </p>
+      <div style="margin: 28px 0; text-align: center;">
+        <a href="${data.offerUrl}" style="display: inline-block; background: #dc2626; color: white; padding: 14px 36px; border-radius: 6px; text-decoration: none; font-size: 16px; font-weight: 700; letter-spacing: 0.3px;">Buy Your Tickets</a>
+      </div>
+      <p style="font-size: 15px; margin: 0 0 12px; color: #333;">
+        This link is personal and valid until <strong>${data.expiresAtFormatted}</strong>.
+        After that, the tickets are offered to the next person on the waitlist.
+      </p>
+    `);
+    const text = `Tickets Are Available\n\nHi ${data.name},\n\nTickets for ${data.ticketTypeName} at ${data.eventName} have become available and we are holding ${data.quantity} for you.\n\nBuy your tickets here:\n${data.offerUrl}\n\nThis link is personal and valid until ${data.expiresAtFormatted}. After that, the tickets are offered to the next person on the waitlist.\n\n— Swiss Robotics Association / SRAtix`;
+
+    return this.send({
+      to,
+      subject: `🎟️ Tickets available for you — ${data.eventName}`,
+      html,
+      text,
     });
   }
 
@@ -745,6 +900,95 @@ export class EmailService {
     });
   }
 
+  /**
+   * Tell the new holder of a transferred ticket that it is theirs and ask
+   * them to register (same registration-token flow as a gifted ticket).
+   */
+  async sendTicketTransferReceived(
+    to: string,
+    data: {
+      recipientName: string;
+      fromName: string;
+      eventName: string;
+      eventDate: string;
+      eventVenue: string;
+      eventVenueMapUrl?: string;
+      ticketTypeName: string;
+      registrationUrl: string;
+    },
+  ): Promise<DeliveryResult> {
+    const html = this.publicWrapper('A Ticket Has Been Transferred to You', `
+      <p style="font-size: 16px; margin: 0 0 20px;">Hi <strong>${data.recipientName}</strong>,</p>
+      <p style="font-size: 16px; margin: 0 0 20px;">
+        <strong>${data.fromName}</strong> has transferred their ticket for
+        <strong>${data.eventName}</strong> to you.
+      </p>
+      <div style="background: #f8fafc; border-left: 4px solid #1a1a2e; border-radius: 6px; padding: 16px 20px; margin: 0 0 24px;">
+        <table role="presentation" width="100%" cellspacing="0" cellpadding="0">
+          ${this.adminInfoRow('Ticket Type', data.ticketTypeName)}
+          ${this.adminInfoRow('Transferred by', data.fromName)}
+          ${this.adminInfoRow('Event', data.eventName)}
+          ${this.adminInfoRow('Date', data.eventDate)}
+          ${this.adminInfoRow('Venue', this.venueHtml(data.eventVenue, data.eventVenueMapUrl))}
+        </table>
+      </div>
+      <p style="font-size: 15px; margin: 0 0 12px; color: #333;">
+        Please complete a short registration form to receive your personal ticket and QR code.
+      </p>
+      <div style="margin: 28px 0; text-align: center;">
+        <a href="${data.registrationUrl}" style="display: inline-block; background: #dc2626; color: white; padding: 14px 36px; border-radius: 6px; text-decoration: none; font-size: 16px; font-weight: 700; letter-spacing: 0.3px;">Complete Registration</a>
+      </div>
+      <p style="font-size: 13px; color: #999; margin: 20px 0 0; line-height: 1.5;">
+        If you believe you received this email in error, you can safely ignore it.
+      </p>
+    `);
+    const text = `A Ticket Has Been Transferred to You\n\nHi ${data.recipientName},\n\n${data.fromName} has transferred their ticket for ${data.eventName} to you.\n\nTicket Type: ${data.ticketTypeName}\nEvent: ${data.eventName}\nDate: ${data.eventDate}\nVenue: ${this.venueText(data.eventVenue, data.eventVenueMapUrl)}\n\nPlease complete a short registration form to receive your personal ticket and QR code:\n${data.registrationUrl}\n\nIf you believe you received this email in error, you can safely ignore it.\n\n— Swiss Robotics Association / SRAtix Ticketing Platform`;
+
+    return this.send({
+      to,
+      subject: `🎟️ ${data.fromName} has transferred a ticket to ${data.eventName} to you`,
+      html,
+      text,
+    });
+  }
+
+  /**
+   * Confirm to the previous holder that their ticket was transferred and
+   * their QR code no longer works.
+   */
+  async sendTicketTransferConfirmation(
+    to: string,
+    data: {
+      name: string;
+      recipientName: string;
+      recipientEmail: string;
+      eventName: string;
+      ticketTypeName: string;
+    },
+  ): Promise<DeliveryResult> {
+    const html = this.publicWrapper('Ticket Transferred', `
+      <p style="font-size: 16px; margin: 0 0 20px;">Hi <strong>${data.name}</strong>,</p>
+      <p style="font-size: 16px; margin: 0 0 20px;">
+        Your <strong>${data.ticketTypeName}</strong> ticket for <strong>${data.eventName}</strong>
+        has been transferred to <strong>${data.recipientName}</strong> (${data.recipientEmail}).
+      </p>
+      <p style="font-size: 15px; margin: 0 0 20px; color: #333;">
+        Your previous QR code is no longer valid. The new holder receives their own ticket.
+      </p>
+      <p style="font-size: 13px; color: #999; margin: 20px 0 0; line-height: 1.5;">
+        If you did not request this transfer, please contact the event organizers.
+      </p>
+    `);
+    const text = `Ticket Transferred\n\nHi ${data.name},\n\nYour ${data.ticketTypeName} ticket for ${data.eventName} has been transferred to ${data.recipientName} (${data.recipientEmail}).\n\nYour previous QR code is no longer valid. The new holder receives their own ticket.\n\nIf you did not request this transfer, please contact the event organizers.\n\n— Swiss Robotics Association / SRAtix Ticketing Platform`;
+
+    return this.send({
+      to,
+      subject: `Your ticket to ${data.eventName} has been transferred`,
+      html,
+      text,
+    });
+  }
+
   /**
    * Confirm to a recipient after they complete their registration form.
    */
@@ -1611,6 +1855,7 @@ ${data.invoiceUrl ? `\n${labels.invoiceTextLabel}: ${data.invoiceUrl}\n` : ''}
     currency: string;
     eventName: string;
     isPartial: boolean;
+    creditNoteUrl?: string;
   }): string {
     const refundType = data.isPartial ? 'Partial Refund' : 'Full Refund';
     return `
@@ -1643,6 +1888,10 @@ ${data.invoiceUrl ? `\n${labels.invoiceTextLabel}: ${data.invoiceUrl}\n` : ''}
               The refund will appear on your original payment method within 5–10 business days,
               depending on your bank.
             </p>
+            ${data.creditNoteUrl ? `
+            <p style="margin: 20px 0 0;">
+              <a href="${data.creditNoteUrl}" style="display: inline-block; background: #0078d4; color: #fff; padding: 10px 20px; border-radius: 6px; text-decoration: none; font-weight: 600;">Download credit note (PDF)</a>
+            </p>` : ''}
           </td>
         </tr>
         ${emailPreFooter()}
@@ -71,6 +71,11 @@ export class UpdateEventDto {
   @IsOptional()
   doorsOpen?: string | null;
 
+  /** Last moment attendees can transfer their tickets (null = until event start). */
+  @IsDateString()
+  @IsOptional()
+  transferCutoff?: string | null;
+
   @IsString()
   @MaxLength(500)
   @IsOptional()
@@ -119,3 +124,28 @@ export class ToggleMaintenanceDto {
   @MaxLength(1000)
   message?: string;
 }
+
+export class CloneEventDto {
+  @IsString()
+  @MinLength(2)
+  @MaxLength(200)
+  name!: string;
+
+  @IsString()
+  @MinLength(2)
+  @MaxLength(100)
+  slug!: string;
+
+  @IsDateString()
+  startDate!: string;
+
+  /** Defaults to the source event's duration. */
+  @IsDateString()
+  @IsOptional()
+  endDate?: string;
+
+  /** Report what would be copied without creating anything. */
+  @IsBoolean()
+  @IsOptional()
+  dryRun?: boolean;
+}
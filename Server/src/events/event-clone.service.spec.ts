@@ -0,0 +1,118 @@
+import { ConflictException } from '@nestjs/common';
+import { EventCloneService } from './event-clone.service';
+
+describe('EventCloneService', () => {
+  const source = {
+    id: 'evt-2025',
+    orgId: 'org-1',
+    name: 'SRD 2025',
+    slug: 'srd-2025',
+    description: null,
+    venue: 'Bern',
+    venueAddress: null,
+    timezone: 'Europe/Zurich',
+    startDate: new Date('2025-11-12T23:00:00Z'), // 2025-11-13 local
+    endDate: new Date('2025-11-14T17:00:00Z'),
+    doorsOpen: null,
+    transferCutoff: null,
+    status: 'completed',
+    currency: 'CHF',
+    maxCapacity: 800,
+    meta: { legalPages: { privacy_policy: '<p>…</p>' }, maintenance: { active: true } },
+  };
+
+  function setup() {
+    const tx = {
+      event: { create: jest.fn() },
+      ...Object.fromEntries(
+        [
+          'formSchema', 'membershipPartner', 'ticketType', 'pricingVariant', 'ticketTypeSraDiscount',
+          'ticketTypePartnerDiscount', 'badgeTemplate', 'accessZone', 'logisticsItem', 'webhookEndpoint', 'setting',
+        ].map((model) => [model, { createMany: jest.fn() }]),
+      ),
+    } as Record<string, any>;
+    const none = { findMany: jest.fn().mockResolvedValue([]) };
+    const prisma = {
+      event: { findFirst: jest.fn().mockResolvedValue(null) },
+      ticketType: {
+        findMany: jest.fn().mockResolvedValue([
+          {
+            id: 'tt-1', name: 'Day Pass', description: null, priceCents: 5000, currency: 'CHF', quantity: 100,
+            sold: 100, maxPerOrder: 10, maxStaff: null, status: 'sold_out', sortOrder: 0, formSchemaId: 'fs-1',
+            salesStart: new Date('2025-09-01T08:00:00Z'), salesEnd: new Date('2025-11-12T22:00:00Z'),
+            validDays: ['2025-11-14'], category: 'general', membershipTier: null, wpProductId: null,
+            robotxDiscountType: null, robotxDiscountValue: null, meta: null,
+            pricingVariants: [], sraDiscounts: [], partnerDiscounts: [],
+          },
+        ]),
+      },
+      formSchema: {
+        findMany: jest.fn().mockResolvedValue([{ id: 'fs-1', name: 'Visitor', version: 2, fields: [], active: true }]),
+      },
+      membershipPartner: none,
+      badgeTemplate: none,
+      accessZone: {
+        findMany: jest.fn().mockResolvedValue([
+          { id: 'z-1', name: 'VIP', capacity: null, ticketTypeIds: ['tt-1'], tags: null, addOns: null, enforcement: 'reject', sortOrder: 0, active: true },
+        ]),
+      },
+      logisticsItem: none,
+      webhookEndpoint: none,
+      setting: none,
+      order: { count: jest.fn().mockResolvedValue(120) },
+      attendee: { count: jest.fn().mockResolvedValue(150) },
+      ticket: { count: jest.fn().mockResolvedValue(150) },
+      $transaction: jest.fn(async (fn: (t: typeof tx) => Promise<unknown>) => fn(tx)),
+    };
+    const audit = { log: jest.fn() };
+    const events = { findOne: jest.fn().mockResolvedValue(source) };
+    const service = new EventCloneService(prisma as any, audit as any, events as any);
+    return { service, prisma, tx, audit };
+  }
+
+  const input = { name: 'SRD 2026', slug: 'srd-2026', startDate: new Date('2026-11-11T23:00:00Z') };
+
+  it('reports the shifted configuration on a dry run without writing', async () => {
+    const { service, prisma } = setup();
+
+    const report = await service.clone('evt-2025', 'org-1', { ...input, dryRun: true });
+
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+    expect(report.event.id).toBeNull();
+    expect(report.shiftDays).toBe(364);
+    expect(report.event.changes).toContainEqual({
+      field: 'endDate', from: '2025-11-14T17:00:00.000Z', to: '2026-11-13T17:00:00.000Z',
+    });
+    const ticketTypes = report.sections.find((s) => s.entity === 'ticketTypes')!;
+    expect(ticketTypes.items[0].changes).toEqual(expect.arrayContaining([
+      { field: 'validDays', from: '2025-11-14', to: '2026-11-13' },
+      { field: 'sold', from: '100', to: '0' },
+    ]));
+    expect(report.notCopied).toEqual({ orders: 120, attendees: 150, tickets: 150 });
+  });
+
+  it('copies configuration with remapped references and no sales', async () => {
+    const { service, tx, audit } = setup();
+
+    const report = await service.clone('evt-2025', 'org-1', input, 'user-1');
+
+    const event = tx.event.create.mock.calls[0][0].data;
+    expect(event).toMatchObject({ id: report.event.id, status: 'draft', meta: { legalPages: expect.any(Object) } });
+    expect(event.meta).not.toHaveProperty('maintenance');
+
+    const [schema] = tx.formSchema.createMany.mock.calls[0][0].data;
+    const [ticketType] = tx.ticketType.createMany.mock.calls[0][0].data;
+    const [zone] = tx.accessZone.createMany.mock.calls[0][0].data;
+    expect(ticketType).toMatchObject({ eventId: event.id, formSchemaId: schema.id, status: 'active' });
+    expect(ticketType).not.toHaveProperty('sold');
+    expect(zone.ticketTypeIds).toEqual([ticketType.id]);
+    expect(audit.log).toHaveBeenCalledWith(expect.objectContaining({ action: 'event.cloned' }));
+  });
+
+  it('refuses a slug that is already taken in the organization', async () => {
+    const { service, prisma } = setup();
+    prisma.event.findFirst.mockResolvedValue({ id: 'evt-other' });
+
+    await expect(service.clone('evt-2025', 'org-1', input)).rejects.toThrow(ConflictException);
+  });
+});
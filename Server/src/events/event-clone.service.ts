@@ -0,0 +1,424 @@
+import { Injectable, Logger, BadRequestException, ConflictException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditLogService, AuditAction } from '../audit-log/audit-log.service';
+import { formatEventDateIso } from '../common/event-date.util';
+import { EventsService } from './events.service';
+
+export interface CloneEventInput {
+  name: string;
+  slug: string;
+  startDate: Date;
+  /** Defaults to the source event's duration from the new start */
+  endDate?: Date;
+  /** Only report what would be copied */
+  dryRun?: boolean;
+}
+
+export interface CloneChange {
+  field: string;
+  from: string | null;
+  to: string | null;
+}
+
+export interface CloneSection {
+  /** ticketTypes | pricingVariants | sraDiscounts | partnerDiscounts | … */
+  entity: string;
+  count: number;
+  items: { name: string; changes: CloneChange[] }[];
+}
+
+export interface EventCloneReport {
+  dryRun: boolean;
+  source: { id: string; name: string; slug: string; startDate: string };
+  event: { id: string | null; name: string; slug: string; changes: CloneChange[] };
+  /** Offset applied to every date, in whole and fractional days */
+  shiftDays: number;
+  sections: CloneSection[];
+  /** Per-attendee data that is never cloned */
+  notCopied: { orders: number; attendees: number; tickets: number };
+  warnings: string[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Event Clone Service — next year's edition from this year's configuration.
+ *
+ * Copies ticket types (with pricing variants, SRA and partner discounts),
+ * form schemas, membership partners, badge templates, access zones,
+ * logistics items, event-scoped webhook endpoints and settings, and the
+ * event meta (legal pages, widget texts). Every date moves by the offset
+ * between the old and the new start date. Orders, attendees, tickets and
+ * anything derived from them stay behind.
+ *
+ * The whole copy is planned in memory first, so a dry run reports exactly
+ * what the real run would write.
+ */
+@Injectable()
+export class EventCloneService {
+  private readonly logger = new Logger(EventCloneService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly audit: AuditLogService,
+    private readonly events: EventsService,
+  ) {}
+
+  async clone(sourceId: string, orgId: string | undefined, input: CloneEventInput, userId?: string) {
+    const source = await this.events.findOne(sourceId, orgId);
+
+    if (isNaN(input.startDate.getTime())) {
+      throw new BadRequestException('startDate must be a valid date');
+    }
+    const offset = input.startDate.getTime() - source.startDate.getTime();
+    const shift = (date: Date | null) => (date ? new Date(date.getTime() + offset) : null);
+    const endDate = input.endDate ?? shift(source.endDate)!;
+    if (endDate < input.startDate) {
+      throw new BadRequestException('endDate must not be before startDate');
+    }
+
+    const slugTaken = await this.prisma.event.findFirst({
+      where: { orgId: source.orgId, slug: input.slug },
+      select: { id: true },
+    });
+    if (slugTaken) {
+      throw new ConflictException(`An event with slug "${input.slug}" already exists`);
+    }
+
+    const [ticketTypes, formSchemas, partners, badgeTemplates, zones, logistics, webhooks, settings, notCopied] =
+      await Promise.all([
+        this.prisma.ticketType.findMany({
+          where: { eventId: sourceId },
+          include: { pricingVariants: true, sraDiscounts: true, partnerDiscounts: true },
+          orderBy: { sortOrder: 'asc' },
+        }),
+        this.prisma.formSchema.findMany({ where: { eventId: sourceId } }),
+        this.prisma.membershipPartner.findMany({ where: { eventId: sourceId }, orderBy: { sortOrder: 'asc' } }),
+        this.prisma.badgeTemplate.findMany({ where: { eventId: sourceId } }),
+        this.prisma.accessZone.findMany({ where: { eventId: sourceId }, orderBy: { sortOrder: 'asc' } }),
+        this.prisma.logisticsItem.findMany({ where: { eventId: sourceId }, orderBy: { sortOrder: 'asc' } }),
+        this.prisma.webhookEndpoint.findMany({ where: { eventId: sourceId } }),
+        this.prisma.setting.findMany({ where: { scope: 'event', eventId: sourceId } }),
+        Promise.all([
+          this.prisma.order.count({ where: { eventId: sourceId } }),
+          this.prisma.attendee.count({ where: { eventId: sourceId } }),
+          this.prisma.ticket.count({ where: { eventId: sourceId } }),
+        ]).then(([orders, attendees, tickets]) => ({ orders, attendees, tickets })),
+      ]);
+
+    // ── Plan ──
+    const eventId = randomUUID();
+    const ids = new Map<string, string>(); // source ID → clone ID
+    const newId = (old: string) => {
+      const id = randomUUID();
+      ids.set(old, id);
+      return id;
+    };
+    const mapIds = (value: unknown) =>
+      Array.isArray(value) ? value.filter((id) => ids.has(id)).map((id) => ids.get(id)!) : undefined;
+    const dayShift = this.calendarDayOffset(source.startDate, input.startDate, source.timezone);
+    const warnings: string[] = [];
+    const now = new Date();
+
+    // Maintenance mode belongs to the running edition, not the next one
+    const { maintenance: _maintenance, ...meta } = (source.meta as Record<string, unknown>) ?? {};
+
+    const eventData: Prisma.EventCreateManyInput = {
+      id: eventId,
+      orgId: source.orgId,
+      name: input.name,
+      slug: input.slug,
+      description: source.description,
+      venue: source.venue,
+      venueAddress: source.venueAddress,
+      timezone: source.timezone,
+      startDate: input.startDate,
+      endDate,
+      doorsOpen: shift(source.doorsOpen),
+      transferCutoff: shift(source.transferCutoff),
+      status: 'draft',
+      currency: source.currency,
+      maxCapacity: source.maxCapacity,
+      meta: meta as Prisma.InputJsonValue,
+    };
+
+    const formSchemaData = formSchemas.map((s) => ({
+      id: newId(s.id),
+      eventId,
+      name: s.name,
+      version: s.version,
+      fields: s.fields as Prisma.InputJsonValue,
+      active: s.active,
+    }));
+
+    const partnerData = partners.map(({ id, eventId: _e, createdAt: _c, updatedAt: _u, ...p }) => ({
+      ...p,
+      id: newId(id),
+      eventId,
+    }));
+
+    const ticketTypeData = ticketTypes.map((tt) => {
+      const validDays = Array.isArray(tt.validDays)
+        ? (tt.validDays as string[]).map((d) => this.addDays(d, dayShift))
+        : undefined;
+      return {
+        id: newId(tt.id),
+        eventId,
+        name: tt.name,
+        description: tt.description,
+        priceCents: tt.priceCents,
+        currency: tt.currency,
+        quantity: tt.quantity,
+        maxPerOrder: tt.maxPerOrder,
+        maxStaff: tt.maxStaff,
+        salesStart: shift(tt.salesStart),
+        salesEnd: shift(tt.salesEnd),
+        // Nothing is sold yet in the new edition
+        status: tt.status === 'sold_out' ? 'active' : tt.status,
+        sortOrder: tt.sortOrder,
+        formSchemaId: tt.formSchemaId ? (ids.get(tt.formSchemaId) ?? null) : null,
+        validDays,
+        category: tt.category,
+        membershipTier: tt.membershipTier,
+        wpProductId: tt.wpProductId,
+        robotxDiscountType: tt.robotxDiscountType,
+        robotxDiscountValue: tt.robotxDiscountValue,
+        meta: (tt.meta ?? undefined) as Prisma.InputJsonValue | undefined,
+      };
+    });
+
+    const variantData = ticketTypes.flatMap((tt) =>
+      tt.pricingVariants.map(({ id: _id, createdAt: _c, updatedAt: _u, ...v }) => ({
+        ...v,
+        id: randomUUID(),
+        ticketTypeId: ids.get(tt.id)!,
+        validFrom: shift(v.validFrom),
+        validUntil: shift(v.validUntil),
+      })),
+    );
+    const sraDiscountData = ticketTypes.flatMap((tt) =>
+      tt.sraDiscounts.map(({ id: _id, createdAt: _c, updatedAt: _u, ...d }) => ({
+        ...d,
+        id: randomUUID(),
+        ticketTypeId: ids.get(tt.id)!,
+      })),
+    );
+    const partnerDiscountData = ticketTypes.flatMap((tt) =>
+      tt.partnerDiscounts.map(({ id: _id, createdAt: _c, updatedAt: _u, ...d }) => ({
+        ...d,
+        id: randomUUID(),
+        ticketTypeId: ids.get(tt.id)!,
+        partnerId: ids.get(d.partnerId)!,
+      })),
+    );
+
+    const badgeTemplateData = badgeTemplates.map((b) => ({
+      id: randomUUID(),
+      eventId,
+      name: b.name,
+      description: b.description,
+      layout: b.layout as Prisma.InputJsonValue,
+      dimensions: b.dimensions as Prisma.InputJsonValue,
+      ticketTypeIds: mapIds(b.ticketTypeIds),
+      isDefault: b.isDefault,
+      active: b.active,
+      version: b.version,
+    }));
+
+    const zoneData = zones.map((z) => ({
+      id: randomUUID(),
+      eventId,
+      name: z.name,
+      capacity: z.capacity,
+      ticketTypeIds: mapIds(z.ticketTypeIds),
+      tags: (z.tags ?? undefined) as Prisma.InputJsonValue | undefined,
+      addOns: (z.addOns ?? undefined) as Prisma.InputJsonValue | undefined,
+      enforcement: z.enforcement,
+      sortOrder: z.sortOrder,
+      active: z.active,
+    }));
+
+    const logisticsData = logistics.map((l) => ({
+      id: randomUUID(),
+      eventId,
+      name: l.name,
+      description: l.description,
+      priceCents: l.priceCents,
+      currency: l.currency,
+      stockTotal: l.stockTotal,
+      status: l.status,
+      sortOrder: l.sortOrder,
+      meta: (l.meta ?? undefined) as Prisma.InputJsonValue | undefined,
+    }));
+
+    const webhookData = webhooks.map((w) => ({
+      id: randomUUID(),
+      orgId: w.orgId,
+      eventId,
+      url: w.url,
+      secret: w.secret,
+      events: w.events as Prisma.InputJsonValue,
+      active: w.active,
+    }));
+
+    const settingData = settings.map((s) => ({
+      id: randomUUID(),
+      scope: 'event',
+      orgId: s.orgId,
+      eventId,
+      key: s.key,
+      value: s.value as Prisma.InputJsonValue,
+    }));
+
+    // ── Report ──
+    const fmt = (date: Date | null | undefined) => date?.toISOString() ?? null;
+    const dateChanges = (pairs: [string, Date | null, Date | null | undefined][]) =>
+      pairs
+        .filter(([, from, to]) => fmt(from) !== fmt(to))
+        .map(([field, from, to]) => ({ field, from: fmt(from), to: fmt(to) }));
+
+    for (const tt of ticketTypeData) {
+      if (tt.salesEnd && tt.salesEnd < now) {
+        warnings.push(`Sales of "${tt.name}" would already have ended (${fmt(tt.salesEnd)})`);
+      }
+    }
+    for (const v of variantData) {
+      if (v.validUntil && v.validUntil < now) {
+        warnings.push(`"${v.label}" pricing would already have expired (${fmt(v.validUntil)})`);
+      }
+    }
+    if (webhookData.length > 0) {
+      warnings.push('Webhook endpoints keep their URLs and signing secrets');
+    }
+
+    const section = (entity: string, items: { name: string; changes: CloneChange[] }[]): CloneSection => ({
+      entity,
+      count: items.length,
+      items,
+    });
+    const report: EventCloneReport = {
+      dryRun: !!input.dryRun,
+      source: { id: source.id, name: source.name, slug: source.slug, startDate: source.startDate.toISOString() },
+      event: {
+        id: input.dryRun ? null : eventId,
+        name: input.name,
+        slug: input.slug,
+        changes: [
+          ...(source.name !== input.name ? [{ field: 'name', from: source.name, to: input.name }] : []),
+          { field: 'slug', from: source.slug, to: input.slug },
+          ...dateChanges([
+            ['startDate', source.startDate, input.startDate],
+            ['endDate', source.endDate, endDate],
+            ['doorsOpen', source.doorsOpen, eventData.doorsOpen as Date | null],
+            ['transferCutoff', source.transferCutoff, eventData.transferCutoff as Date | null],
+          ]),
+          ...(source.status !== 'draft' ? [{ field: 'status', from: source.status, to: 'draft' }] : []),
+        ],
+      },
+      shiftDays: Math.round((offset / DAY_MS) * 100) / 100,
+      sections: [
+        section('ticketTypes', ticketTypes.map((tt, i) => ({
+          name: tt.name,
+          changes: [
+            ...dateChanges([
+              ['salesStart', tt.salesStart, ticketTypeData[i].salesStart],
+              ['salesEnd', tt.salesEnd, ticketTypeData[i].salesEnd],
+            ]),
+            ...(tt.validDays
+              ? [{ field: 'validDays', from: (tt.validDays as string[]).join(', '), to: ticketTypeData[i].validDays!.join(', ') }]
+              : []),
+            ...(tt.sold > 0 ? [{ field: 'sold', from: String(tt.sold), to: '0' }] : []),
+          ],
+        }))),
+        section('pricingVariants', ticketTypes.flatMap((tt) =>
+          tt.pricingVariants.map((v) => {
+            const copy = variantData.find((c) => c.ticketTypeId === ids.get(tt.id) && c.variantType === v.variantType)!;
+            return {
+              name: `${tt.name} — ${v.label}`,
+              changes: dateChanges([
+                ['validFrom', v.validFrom, copy.validFrom],
+                ['validUntil', v.validUntil, copy.validUntil],
+              ]),
+            };
+          }),
+        )),
+        section('sraDiscounts', ticketTypes.flatMap((tt) =>
+          tt.sraDiscounts.map((d) => ({ name: `${tt.name} — ${d.membershipTier}`, changes: [] })),
+        )),
+        section('partnerDiscounts', ticketTypes.flatMap((tt) =>
+          tt.partnerDiscounts.map((d) => ({
+            name: `${tt.name} — ${partners.find((p) => p.id === d.partnerId)?.name ?? d.partnerId}`,
+            changes: [],
+          })),
+        )),
+        section('formSchemas', formSchemas.map((s) => ({ name: `${s.name} v${s.version}`, changes: [] }))),
+        section('membershipPartners', partners.map((p) => ({ name: p.name, changes: [] }))),
+        section('badgeTemplates', badgeTemplates.map((b) => ({ name: b.name, changes: [] }))),
+        section('accessZones', zones.map((z) => ({ name: z.name, changes: [] }))),
+        section('logisticsItems', logistics.map((l) => ({
+          name: l.name,
+          changes: l.stockReserved > 0 ? [{ field: 'stockReserved', from: String(l.stockReserved), to: '0' }] : [],
+        }))),
+        section('webhookEndpoints', webhooks.map((w) => ({ name: w.url, changes: [] }))),
+        section('settings', settings.map((s) => ({ name: s.key, changes: [] }))),
+        section('legalPages', Object.keys((meta.legalPages as Record<string, string>) ?? {}).map((slug) => ({
+          name: slug,
+          changes: [],
+        }))),
+      ],
+      notCopied,
+      warnings,
+    };
+
+    if (input.dryRun) return report;
+
+    // ── Commit ──
+    await this.prisma.$transaction(async (tx) => {
+      await tx.event.create({ data: eventData });
+      await tx.formSchema.createMany({ data: formSchemaData });
+      await tx.membershipPartner.createMany({ data: partnerData });
+      await tx.ticketType.createMany({ data: ticketTypeData });
+      await tx.pricingVariant.createMany({ data: variantData });
+      await tx.ticketTypeSraDiscount.createMany({ data: sraDiscountData });
+      await tx.ticketTypePartnerDiscount.createMany({ data: partnerDiscountData });
+      await tx.badgeTemplate.createMany({ data: badgeTemplateData });
+      await tx.accessZone.createMany({ data: zoneData });
+      await tx.logisticsItem.createMany({ data: logisticsData });
+      await tx.webhookEndpoint.createMany({ data: webhookData });
+      await tx.setting.createMany({ data: settingData });
+    });
+
+    this.audit.log({
+      eventId,
+      userId,
+      action: AuditAction.EVENT_CLONED,
+      entity: 'event',
+      entityId: eventId,
+      detail: {
+        sourceEventId: source.id,
+        name: input.name,
+        slug: input.slug,
+        shiftDays: report.shiftDays,
+        copied: Object.fromEntries(report.sections.map((s) => [s.entity, s.count])),
+      },
+    });
+    this.logger.log(`Event ${source.id} cloned as "${input.name}" (${eventId})`);
+
+    return report;
+  }
+
+  // ─── Internals ────────────────────────────────────────────────
+
+  /** Calendar days between two instants, in the event timezone. */
+  private calendarDayOffset(from: Date, to: Date, timeZone: string): number {
+    const a = Date.parse(`${formatEventDateIso(from, timeZone)}T12:00:00Z`);
+    const b = Date.parse(`${formatEventDateIso(to, timeZone)}T12:00:00Z`);
+    return Math.round((b - a) / DAY_MS);
+  }
+
+  private addDays(day: string, days: number): string {
+    return new Date(Date.parse(`${day}T12:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+  }
+}
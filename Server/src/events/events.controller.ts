@@ -17,11 +17,12 @@ import { Roles } from '../auth/decorators/roles.decorator';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import { JwtPayload } from '../auth/auth.service';
 import { EventsService } from './events.service';
+import { EventCloneService } from './event-clone.service';
 import { EmailService } from '../email/email.service';
 import { SettingsService } from '../settings/settings.service';
 import { OutgoingWebhooksService } from '../outgoing-webhooks/outgoing-webhooks.service';
 import { SseService } from '../sse/sse.service';
-import { CreateEventDto, UpdateEventDto, ToggleMaintenanceDto } from './dto/event.dto';
+import { CreateEventDto, UpdateEventDto, ToggleMaintenanceDto, CloneEventDto } from './dto/event.dto';
 import { FastifyRequest } from 'fastify';
 import { resolve, join } from 'path';
 import { mkdirSync, writeFileSync } from 'fs';
@@ -34,6 +35,7 @@ export class EventsController {
 
   constructor(
     private readonly eventsService: EventsService,
+    private readonly eventClone: EventCloneService,
     private readonly email: EmailService,
     private readonly settings: SettingsService,
     private readonly webhooks: OutgoingWebhooksService,
@@ -104,6 +106,8 @@ export class EventsController {
     if (dto.endDate) data.endDate = new Date(dto.endDate);
     if (dto.doorsOpen) data.doorsOpen = new Date(dto.doorsOpen);
     if (dto.doorsOpen === null) data.doorsOpen = null;
+    if (dto.transferCutoff) data.transferCutoff = new Date(dto.transferCutoff);
+    if (dto.transferCutoff === null) data.transferCutoff = null;
     // Super admins can update any event
     const updated = this.isSuperAdmin(user)
       ? await this.eventsService.update(id, undefined, data)
@@ -119,6 +123,41 @@ export class EventsController {
     return updated;
   }
 
+  /**
+   * POST /api/events/:id/clone
+   * Copy the event's configuration into a new draft event, shifting all
+   * dates to the new start. With `dryRun: true` only the report is returned.
+   */
+  @Post(':id/clone')
+  @Roles('event_admin', 'admin', 'super_admin')
+  async clone(
+    @Param('id') id: string,
+    @Body() dto: CloneEventDto,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    const report = await this.eventClone.clone(
+      id,
+      this.isSuperAdmin(user) ? undefined : user.orgId,
+      {
+        name: dto.name,
+        slug: dto.slug,
+        startDate: new Date(dto.startDate),
+        endDate: dto.endDate ? new Date(dto.endDate) : undefined,
+        dryRun: dto.dryRun,
+      },
+      user.sub,
+    );
+
+    if (report.event.id) {
+      const event = await this.eventsService.findOne(report.event.id);
+      this.sendEventNotification('notify_event_draft', event, user, 'draft').catch(
+        (err) => this.logger.error(`Event draft notification failed: ${err}`),
+      );
+    }
+
+    return report;
+  }
+
   /**
    * Helper: send admin notification for event lifecycle changes.
    */
@@ -1,5 +1,6 @@
 import { Module, forwardRef } from '@nestjs/common';
 import { EventsService } from './events.service';
+import { EventCloneService } from './event-clone.service';
 import { EventsController } from './events.controller';
 import { EventsPublicInfoController } from './events-public-info.controller';
 import { EventsLegalController } from './events-legal.controller';
@@ -16,7 +17,7 @@ import { SseModule } from '../sse/sse.module';
     SseModule,
   ],
   controllers: [EventsController, EventsPublicInfoController, EventsLegalController],
-  providers: [EventsService],
+  providers: [EventsService, EventCloneService],
   exports: [EventsService],
 })
 export class EventsModule {}
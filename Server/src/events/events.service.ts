@@ -85,6 +85,7 @@ export class EventsService {
       startDate: Date;
       endDate: Date;
       doorsOpen: Date | null;
+      transferCutoff: Date | null;
       venue: string;
       venueAddress: string;
       description: string;
@@ -171,6 +172,7 @@ export class EventsService {
     memberGateShowWhyJoin: boolean;
     legalPageUrls: Record<string, string>;
     pagePaths: Record<string, string>;
+    invoicePayment: boolean;
   }> {
     const event = await this.prisma.event.findFirst({ where: { id: eventId } });
     if (!event) throw new NotFoundException(`Event ${eventId} not found`);
@@ -196,6 +198,10 @@ export class EventsService {
         exhibitorPortal: paths.exhibitorPortal ?? '/exhibitor-portal/',
         setPassword: paths.setPassword ?? '/set-password/',
       },
+      // Pay-by-invoice needs an account to pay into (see BankReconciliationService)
+      invoicePayment:
+        !!(meta.invoicePayment as { enabled?: boolean } | undefined)?.enabled &&
+        !!(meta.issuerDetails as { iban?: string } | undefined)?.iban,
     };
   }
 
@@ -437,7 +437,7 @@ export class ExhibitorPortalService {
     });
     if (!order) return null;
 
-    const ticketTypeIds = order.items.map((i) => i.ticketTypeId);
+    const ticketTypeIds = order.items.flatMap((i) => i.ticketTypeId ?? []);
     const ticketTypes = ticketTypeIds.length
       ? await this.prisma.ticketType.findMany({
           where: { id: { in: ticketTypeIds } },
@@ -488,13 +488,16 @@ export class ExhibitorPortalService {
 
     // Provision checkout staff (recipient attendees) as booth staff so they
     // receive a portal invite (set-password) instead of the gift/attendee form.
-    const recipients = (orderMeta.recipientAttendees ?? []) as Array<{
+    // In a mixed cart only the exhibitor line's recipients are staff; orders
+    // placed before carts don't tag recipients with a ticket type.
+    const recipients = ((orderMeta.recipientAttendees ?? []) as Array<{
       attendeeId: string;
       email: string;
       firstName: string;
       lastName: string;
       registrationToken: string;
-    }>;
+      ticketTypeId?: string;
+    }>).filter((r) => !r.ticketTypeId || r.ticketTypeId === exhibitorTicketType.id);
     if (result && recipients.length > 0) {
       try {
         await this.provisionCheckoutStaff({
@@ -8,7 +8,7 @@ import {
 } from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
 import { RolesGuard } from '../auth/guards/roles.guard';
-import { Roles } from '../auth/decorators/roles.decorator';
+import { RequirePermission } from '../auth/decorators/require-permission.decorator';
 import { ExportService } from './export.service';
 import { RateLimit } from '../common/guards/rate-limit.guard';
 import type { FastifyReply } from 'fastify';
@@ -27,7 +27,7 @@ export class ExportController {
    * Download attendee list as CSV.
    */
   @Get('attendees/event/:eventId')
-  @Roles('event_admin', 'admin', 'super_admin')
+  @RequirePermission('attendees.export')
   async exportAttendees(
     @Param('eventId') eventId: string,
     @Res() reply: FastifyReply,
@@ -41,7 +41,7 @@ export class ExportController {
    * Download orders list as CSV.
    */
   @Get('orders/event/:eventId')
-  @Roles('event_admin', 'admin', 'super_admin')
+  @RequirePermission('orders.export')
   async exportOrders(
     @Param('eventId') eventId: string,
     @Res() reply: FastifyReply,
@@ -55,7 +55,7 @@ export class ExportController {
    * Download check-ins log as CSV.
    */
   @Get('check-ins/event/:eventId')
-  @Roles('event_admin', 'admin', 'super_admin')
+  @RequirePermission('attendees.export')
   async exportCheckIns(
     @Param('eventId') eventId: string,
     @Res() reply: FastifyReply,
@@ -69,7 +69,7 @@ export class ExportController {
    * Download form submissions as CSV.
    */
   @Get('submissions/event/:eventId')
-  @Roles('event_admin', 'admin', 'super_admin')
+  @RequirePermission('attendees.export')
   async exportSubmissions(
     @Param('eventId') eventId: string,
     @Query('formSchemaId') formSchemaId: string,
@@ -115,7 +115,7 @@ export class ExportController {
    * Download attendee list as Excel.
    */
   @Get('attendees/event/:eventId/xlsx')
-  @Roles('event_admin', 'admin', 'super_admin')
+  @RequirePermission('attendees.export')
   async exportAttendeesXlsx(
     @Param('eventId') eventId: string,
     @Res() reply: FastifyReply,
@@ -129,7 +129,7 @@ export class ExportController {
    * Download orders list as Excel.
    */
   @Get('orders/event/:eventId/xlsx')
-  @Roles('event_admin', 'admin', 'super_admin')
+  @RequirePermission('orders.export')
   async exportOrdersXlsx(
     @Param('eventId') eventId: string,
     @Res() reply: FastifyReply,
@@ -143,7 +143,7 @@ export class ExportController {
    * Download check-ins log as Excel.
    */
   @Get('check-ins/event/:eventId/xlsx')
-  @Roles('event_admin', 'admin', 'super_admin')
+  @RequirePermission('attendees.export')
   async exportCheckInsXlsx(
     @Param('eventId') eventId: string,
     @Res() reply: FastifyReply,
@@ -157,7 +157,7 @@ export class ExportController {
    * Download form submissions as Excel.
    */
   @Get('submissions/event/:eventId/xlsx')
-  @Roles('event_admin', 'admin', 'super_admin')
+  @RequirePermission('attendees.export')
   async exportSubmissionsXlsx(
     @Param('eventId') eventId: string,
     @Query('formSchemaId') formSchemaId: string,
@@ -175,7 +175,7 @@ export class ExportController {
    * Download exhibitors (with their staff summarised) as CSV.
    */
   @Get('exhibitors/event/:eventId')
-  @Roles('event_admin', 'admin', 'super_admin')
+  @RequirePermission('attendees.export')
   async exportExhibitors(
     @Param('eventId') eventId: string,
     @Res() reply: FastifyReply,
@@ -189,7 +189,7 @@ export class ExportController {
    * Download exhibitors as Excel — an "Exhibitors" sheet plus a "Staff" sheet.
    */
   @Get('exhibitors/event/:eventId/xlsx')
-  @Roles('event_admin', 'admin', 'super_admin')
+  @RequirePermission('attendees.export')
   async exportExhibitorsXlsx(
     @Param('eventId') eventId: string,
     @Res() reply: FastifyReply,
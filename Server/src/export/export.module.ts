@@ -1,8 +1,10 @@
 import { Module } from '@nestjs/common';
 import { ExportService } from './export.service';
 import { ExportController } from './export.controller';
+import { FormsModule } from '../forms/forms.module';
 
 @Module({
+  imports: [FormsModule],
   controllers: [ExportController],
   providers: [ExportService],
   exports: [ExportService],
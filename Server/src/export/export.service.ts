@@ -1,6 +1,8 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
+import { FormsService } from '../forms/forms.service';
 import * as ExcelJS from 'exceljs';
+import { addOnText, orderItemAddOn, paidOrderAddOns } from '../forms/form-add-ons';
 
 /**
  * Data Export Service — generates CSV and Excel exports for attendees, orders, check-ins, and form submissions.
@@ -12,7 +14,10 @@ import * as ExcelJS from 'exceljs';
 export class ExportService {
   private readonly logger = new Logger(ExportService.name);
 
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly formsService: FormsService,
+  ) {}
 
   /**
    * Derive an attendee's "type" from the category of their first ticket.
@@ -33,6 +38,31 @@ export class ExportService {
     return 'visitor';
   }
 
+  /** Distinct event days an attendee was checked in at the main entrance. */
+  private daysCheckedIn(checkIns: { eventDay: string | null }[]): string {
+    return [...new Set(checkIns.map((c) => c.eventDay!))].sort().join('; ');
+  }
+
+  /** Order line as `name xN @price`; add-on lines are named by their option. */
+  private orderItemText(item: {
+    ticketTypeId: string | null;
+    quantity: number;
+    unitPriceCents: number;
+    meta: unknown;
+    ticketType: { name: string } | null;
+  }): string {
+    const addOn = orderItemAddOn(item.meta);
+    const name = addOn
+      ? `${addOnText(addOn.optionLabel)} (add-on)`
+      : item.ticketType?.name ?? item.ticketTypeId;
+    return `${name} x${item.quantity} @${(item.unitPriceCents / 100).toFixed(2)}`;
+  }
+
+  /** Add-ons from an attendee's paid orders, `; `-separated. */
+  private addOnsText(orders: Array<{ status: string; items: Array<{ meta: unknown }> }>): string {
+    return paidOrderAddOns(orders).map((a) => addOnText(a.label)).join('; ');
+  }
+
   // ─── Attendees Export ─────────────────────────────────────────
 
   async exportAttendees(eventId: string): Promise<string> {
@@ -46,6 +76,14 @@ export class ExportService {
             ticketType: { select: { category: true } },
           },
         },
+        checkIns: {
+          where: { direction: 'in', zoneId: null, eventDay: { not: null } },
+          select: { eventDay: true },
+        },
+        orders: {
+          where: { status: 'paid' },
+          select: { status: true, items: { select: { meta: true } } },
+        },
       },
       orderBy: { lastName: 'asc' },
     });
@@ -61,6 +99,8 @@ export class ExportService {
       'WP User ID',
       'Ticket Count',
       'Tickets (codes)',
+      'Days Checked In',
+      'Add-ons',
       'Created At',
     ];
 
@@ -75,6 +115,8 @@ export class ExportService {
       a.wpUserId?.toString() ?? '',
       a.tickets.length.toString(),
       a.tickets.map((t) => `${t.code}(${t.status})`).join('; '),
+      this.daysCheckedIn(a.checkIns),
+      this.addOnsText(a.orders),
       a.createdAt.toISOString(),
     ]);
 
@@ -95,6 +137,11 @@ export class ExportService {
         attendee: {
           select: { firstName: true, lastName: true, email: true },
         },
+        payments: {
+          where: { status: 'succeeded' },
+          select: { provider: true, providerPaymentId: true },
+          take: 1,
+        },
       },
       orderBy: { createdAt: 'desc' },
     });
@@ -107,7 +154,8 @@ export class ExportService {
       'Total',
       'Currency',
       'Items',
-      'Stripe Payment ID',
+      'Payment Provider',
+      'Payment ID',
       'Paid At',
       'Created At',
     ];
@@ -119,13 +167,9 @@ export class ExportService {
       o.customerEmail ?? o.attendee?.email ?? '',
       (o.totalCents / 100).toFixed(2),
       o.currency,
-      o.items
-        .map(
-          (i) =>
-            `${i.ticketType?.name ?? i.ticketTypeId} x${i.quantity} @${(i.unitPriceCents / 100).toFixed(2)}`,
-        )
-        .join('; '),
-      o.stripePaymentId ?? '',
+      o.items.map((i) => this.orderItemText(i)).join('; '),
+      o.payments[0]?.provider ?? '',
+      o.payments[0]?.providerPaymentId ?? '',
       o.paidAt?.toISOString() ?? '',
       o.createdAt.toISOString(),
     ]);
@@ -148,6 +192,7 @@ export class ExportService {
         attendee: {
           select: { firstName: true, lastName: true, email: true },
         },
+        zone: { select: { name: true } },
       },
       orderBy: { timestamp: 'desc' },
     });
@@ -162,6 +207,9 @@ export class ExportService {
       'Direction',
       'Device ID',
       'Location',
+      'Zone',
+      'Zone Flagged',
+      'Event Day',
       'Offline',
       'Timestamp',
     ];
@@ -176,6 +224,9 @@ export class ExportService {
       c.direction,
       c.deviceId ?? '',
       c.location ?? '',
+      c.zone?.name ?? '',
+      c.zoneFlagged ? 'yes' : 'no',
+      c.eventDay ?? '',
       c.offline ? 'yes' : 'no',
       c.timestamp.toISOString(),
     ]);
@@ -189,29 +240,50 @@ export class ExportService {
     eventId: string,
     formSchemaId?: string,
   ): Promise<string> {
+    const table = await this.formSubmissionTable(eventId, formSchemaId);
+    if (!table) {
+      return 'No submissions found\n';
+    }
+
+    const rows = table.rows.map((row) =>
+      row.map((cell) => (cell instanceof Date ? cell.toISOString() : String(cell))),
+    );
+    return this.toCsv(table.headers, rows);
+  }
+
+  /**
+   * Submissions as one table. Selecting a schema includes every version of
+   * that form; answers are lifted to the latest version through the declared
+   * field mappings, so all rows share the latest version's columns (plus
+   * legacy columns for answers that map nowhere).
+   */
+  private async formSubmissionTable(eventId: string, formSchemaId?: string) {
+    const schema = formSchemaId
+      ? await this.prisma.formSchema.findFirst({ where: { id: formSchemaId, eventId }, select: { name: true } })
+      : null;
+
     const submissions = await this.prisma.formSubmission.findMany({
       where: {
         eventId,
-        ...(formSchemaId ? { formSchemaId } : {}),
+        ...(formSchemaId ? { formSchema: { name: schema?.name ?? '' } } : {}),
       },
       include: {
         attendee: {
           select: { firstName: true, lastName: true, email: true },
         },
         formSchema: {
-          select: { name: true, version: true, fields: true },
+          select: { name: true, version: true },
         },
       },
       orderBy: { submittedAt: 'desc' },
     });
 
-    if (submissions.length === 0) {
-      return 'No submissions found\n';
-    }
+    if (submissions.length === 0) return null;
 
-    // Build dynamic headers from schema fields
-    const firstSchema = submissions[0].formSchema;
-    const schemaFields = (firstSchema.fields as unknown as { fields: Array<{ id: string; label: Record<string, string> }> })?.fields ?? [];
+    const views = await this.formsService.unifiedViews(eventId, submissions.map((s) => s.formSchema.name));
+    // Prefix columns with the form name when several forms share the export
+    const prefixed = views.size > 1;
+    const columns = [...views].flatMap(([name, view]) => view.columns.map((column) => ({ name, column })));
 
     const fixedHeaders = [
       'Submission ID',
@@ -222,25 +294,28 @@ export class ExportService {
       'Submitted At',
     ];
 
-    const fieldHeaders = schemaFields.map(
-      (f) => f.label.en ?? f.label.de ?? f.label.fr ?? f.id,
-    );
+    const fieldHeaders = columns.map(({ name, column }) => {
+      const label = column.label.en ?? column.label.de ?? column.label.fr ?? column.key;
+      return prefixed ? `${name}: ${label}` : label;
+    });
 
     const headers = [...fixedHeaders, ...fieldHeaders];
 
     const rows = submissions.map((sub) => {
-      const answers = sub.data as Record<string, unknown>;
-      const fixedCols = [
+      const view = views.get(sub.formSchema.name)!;
+      const answers = view.toLatest(sub.formSchema.version, (sub.data ?? {}) as Record<string, unknown>);
+      const fixedCols: (string | number | Date)[] = [
         sub.id,
         sub.attendee ? `${sub.attendee.firstName} ${sub.attendee.lastName}` : '',
         sub.attendee?.email ?? '',
         sub.formSchema.name,
-        sub.formSchema.version.toString(),
-        sub.submittedAt.toISOString(),
+        sub.formSchema.version,
+        sub.submittedAt,
       ];
 
-      const fieldCols = schemaFields.map((f) => {
-        const val = answers[f.id];
+      const fieldCols = columns.map(({ name, column }) => {
+        if (name !== sub.formSchema.name) return '';
+        const val = answers[column.key];
         if (val === undefined || val === null) return '';
         if (typeof val === 'object') return JSON.stringify(val);
         return String(val);
@@ -249,7 +324,7 @@ export class ExportService {
       return [...fixedCols, ...fieldCols];
     });
 
-    return this.toCsv(headers, rows);
+    return { headers, rows };
   }
 
   // ─── CSV Helper ───────────────────────────────────────────────
@@ -267,6 +342,14 @@ export class ExportService {
             ticketType: { select: { category: true } },
           },
         },
+        checkIns: {
+          where: { direction: 'in', zoneId: null, eventDay: { not: null } },
+          select: { eventDay: true },
+        },
+        orders: {
+          where: { status: 'paid' },
+          select: { status: true, items: { select: { meta: true } } },
+        },
       },
       orderBy: { lastName: 'asc' },
     });
@@ -282,6 +365,8 @@ export class ExportService {
       'WP User ID',
       'Ticket Count',
       'Tickets (codes)',
+      'Days Checked In',
+      'Add-ons',
       'Created At',
     ];
 
@@ -296,6 +381,8 @@ export class ExportService {
       a.wpUserId?.toString() ?? '',
       a.tickets.length,
       a.tickets.map((t) => `${t.code}(${t.status})`).join('; '),
+      this.daysCheckedIn(a.checkIns),
+      this.addOnsText(a.orders),
       a.createdAt,
     ]);
 
@@ -314,6 +401,11 @@ export class ExportService {
         attendee: {
           select: { firstName: true, lastName: true, email: true },
         },
+        payments: {
+          where: { status: 'succeeded' },
+          select: { provider: true, providerPaymentId: true },
+          take: 1,
+        },
       },
       orderBy: { createdAt: 'desc' },
     });
@@ -326,7 +418,8 @@ export class ExportService {
       'Total',
       'Currency',
       'Items',
-      'Stripe Payment ID',
+      'Payment Provider',
+      'Payment ID',
       'Paid At',
       'Created At',
     ];
@@ -338,13 +431,9 @@ export class ExportService {
       o.customerEmail ?? o.attendee?.email ?? '',
       o.totalCents / 100,
       o.currency,
-      o.items
-        .map(
-          (i) =>
-            `${i.ticketType?.name ?? i.ticketTypeId} x${i.quantity} @${(i.unitPriceCents / 100).toFixed(2)}`,
-        )
-        .join('; '),
-      o.stripePaymentId ?? '',
+      o.items.map((i) => this.orderItemText(i)).join('; '),
+      o.payments[0]?.provider ?? '',
+      o.payments[0]?.providerPaymentId ?? '',
       o.paidAt ?? '',
       o.createdAt,
     ]);
@@ -365,6 +454,7 @@ export class ExportService {
         attendee: {
           select: { firstName: true, lastName: true, email: true },
         },
+        zone: { select: { name: true } },
       },
       orderBy: { timestamp: 'desc' },
     });
@@ -379,6 +469,9 @@ export class ExportService {
       'Direction',
       'Device ID',
       'Location',
+      'Zone',
+      'Zone Flagged',
+      'Event Day',
       'Offline',
       'Timestamp',
     ];
@@ -393,77 +486,42 @@ export class ExportService {
       c.direction,
       c.deviceId ?? '',
       c.location ?? '',
+      c.zone?.name ?? '',
+      c.zoneFlagged ? 'yes' : 'no',
+      c.eventDay ?? '',
       c.offline ? 'yes' : 'no',
       c.timestamp,
     ]);
 
-    return this.toExcel('Check-Ins', headers, rows);
+    // Main-entrance attendance per event day
+    const days = new Map<string, { tickets: Set<string>; entries: number }>();
+    for (const c of checkIns) {
+      if (c.direction !== 'in' || c.zoneId || !c.eventDay) continue;
+      const day = days.get(c.eventDay) ?? { tickets: new Set<string>(), entries: 0 };
+      day.tickets.add(c.ticketId);
+      day.entries++;
+      days.set(c.eventDay, day);
+    }
+    const dayRows = [...days.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([day, { tickets, entries }]) => [day, tickets.size, entries]);
+
+    return this.toExcelSheets([
+      { name: 'Check-Ins', headers, rows },
+      { name: 'Attendance by Day', headers: ['Event Day', 'Checked In', 'Entries'], rows: dayRows },
+    ]);
   }
 
   async exportFormSubmissionsXlsx(
     eventId: string,
     formSchemaId?: string,
   ): Promise<Buffer> {
-    const submissions = await this.prisma.formSubmission.findMany({
-      where: {
-        eventId,
-        ...(formSchemaId ? { formSchemaId } : {}),
-      },
-      include: {
-        attendee: {
-          select: { firstName: true, lastName: true, email: true },
-        },
-        formSchema: {
-          select: { name: true, version: true, fields: true },
-        },
-      },
-      orderBy: { submittedAt: 'desc' },
-    });
-
-    if (submissions.length === 0) {
+    const table = await this.formSubmissionTable(eventId, formSchemaId);
+    if (!table) {
       return this.toExcel('Submissions', ['No submissions found'], []);
     }
 
-    const firstSchema = submissions[0].formSchema;
-    const schemaFields = (firstSchema.fields as unknown as { fields: Array<{ id: string; label: Record<string, string> }> })?.fields ?? [];
-
-    const fixedHeaders = [
-      'Submission ID',
-      'Attendee Name',
-      'Attendee Email',
-      'Form Name',
-      'Form Version',
-      'Submitted At',
-    ];
-
-    const fieldHeaders = schemaFields.map(
-      (f) => f.label.en ?? f.label.de ?? f.label.fr ?? f.id,
-    );
-
-    const headers = [...fixedHeaders, ...fieldHeaders];
-
-    const rows = submissions.map((sub) => {
-      const answers = sub.data as Record<string, unknown>;
-      const fixedCols: (string | number | Date)[] = [
-        sub.id,
-        sub.attendee ? `${sub.attendee.firstName} ${sub.attendee.lastName}` : '',
-        sub.attendee?.email ?? '',
-        sub.formSchema.name,
-        sub.formSchema.version,
-        sub.submittedAt,
-      ];
-
-      const fieldCols = schemaFields.map((f) => {
-        const val = answers[f.id];
-        if (val === undefined || val === null) return '';
-        if (typeof val === 'object') return JSON.stringify(val);
-        return String(val);
-      });
-
-      return [...fixedCols, ...fieldCols];
-    });
-
-    return this.toExcel('Submissions', headers, rows);
+    return this.toExcel('Submissions', table.headers, table.rows);
   }
 
   // ─── Exhibitors Export ────────────────────────────────────────
@@ -0,0 +1,69 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  Put,
+} from '@nestjs/common';
+import { IsObject } from 'class-validator';
+import { RateLimit } from '../common/guards/rate-limit.guard';
+import { DRAFT_ID_PATTERN, FormDraftsService } from './form-drafts.service';
+
+class SaveDraftDto {
+  @IsObject()
+  data!: Record<string, unknown>;
+}
+
+/**
+ * Public checkout drafts — called by the SRAtix embed while a visitor fills
+ * in the checkout modals, so a closed tab can be resumed on the next visit.
+ *
+ * The draft id is generated by the embed (random, kept in the browser) and
+ * is the only credential: whoever holds it can read the draft, as with the
+ * registration token.
+ *
+ * Routes:
+ *   GET    /api/public/drafts/:eventId/:draftId — saved answers, or { data: null }
+ *   PUT    /api/public/drafts/:eventId/:draftId — autosave (replaces the draft)
+ *   DELETE /api/public/drafts/:eventId/:draftId — discard after checkout
+ */
+@Controller('public/drafts')
+export class FormDraftsPublicController {
+  constructor(private readonly drafts: FormDraftsService) {}
+
+  @Get(':eventId/:draftId')
+  @RateLimit({ limit: 30, windowSec: 60 })
+  async find(@Param('eventId') eventId: string, @Param('draftId') draftId: string) {
+    this.assertDraftId(draftId);
+    const draft = await this.drafts.find(eventId, 'checkout', draftId);
+    return draft ?? { data: null };
+  }
+
+  @Put(':eventId/:draftId')
+  @RateLimit({ limit: 30, windowSec: 60 })
+  save(
+    @Param('eventId') eventId: string,
+    @Param('draftId') draftId: string,
+    @Body() dto: SaveDraftDto,
+  ) {
+    this.assertDraftId(draftId);
+    return this.drafts.save(eventId, 'checkout', draftId, dto.data);
+  }
+
+  @Delete(':eventId/:draftId')
+  @RateLimit({ limit: 30, windowSec: 60 })
+  @HttpCode(204)
+  async discard(@Param('eventId') eventId: string, @Param('draftId') draftId: string) {
+    this.assertDraftId(draftId);
+    await this.drafts.discard(eventId, 'checkout', draftId);
+  }
+
+  private assertDraftId(draftId: string) {
+    if (!DRAFT_ID_PATTERN.test(draftId)) {
+      throw new BadRequestException('Invalid draft id');
+    }
+  }
+}
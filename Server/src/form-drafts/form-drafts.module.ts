@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { FormDraftsService } from './form-drafts.service';
+import { FormDraftsPublicController } from './form-drafts-public.controller';
+
+/**
+ * Form drafts — save-and-resume for the registration-token and checkout
+ * forms, plus the daily retention purge (ScheduleModule.forRoot() in
+ * AppModule enables the @Cron). Exported for PublicRegistrationController.
+ */
+@Module({
+  controllers: [FormDraftsPublicController],
+  providers: [FormDraftsService],
+  exports: [FormDraftsService],
+})
+export class FormDraftsModule {}
@@ -0,0 +1,63 @@
+import { BadRequestException } from '@nestjs/common';
+import { FormDraftsService } from './form-drafts.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('FormDraftsService', () => {
+  let service: FormDraftsService;
+  let prisma: {
+    event: { findUnique: jest.Mock };
+    formDraft: { findUnique: jest.Mock; upsert: jest.Mock; deleteMany: jest.Mock };
+  };
+
+  const NOW = new Date('2026-05-01T10:00:00.000Z');
+  const daysAgo = (days: number) => new Date(NOW.getTime() - days * 86_400_000);
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(NOW);
+    prisma = {
+      event: { findUnique: jest.fn().mockResolvedValue({ endDate: new Date('2026-06-10T00:00:00.000Z') }) },
+      formDraft: {
+        findUnique: jest.fn(),
+        upsert: jest.fn().mockResolvedValue({ updatedAt: NOW }),
+        deleteMany: jest.fn().mockResolvedValue({ count: 3 }),
+      },
+    };
+    service = new FormDraftsService(prisma as unknown as PrismaService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('saves partial answers as-is and restores them until retention runs out', async () => {
+    await expect(service.save('e1', 'checkout', 'd'.repeat(32), { attendeeFields: { _email: '' } })).resolves.toEqual({
+      savedAt: NOW,
+    });
+    expect(prisma.formDraft.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ update: { data: { attendeeFields: { _email: '' } } } }),
+    );
+
+    prisma.formDraft.findUnique.mockResolvedValueOnce({ data: { a: 1 }, updatedAt: daysAgo(29) });
+    expect(await service.find('e1', 'registration', 'att1')).toEqual({ data: { a: 1 }, savedAt: daysAgo(29) });
+    prisma.formDraft.findUnique.mockResolvedValueOnce({ data: { a: 1 }, updatedAt: daysAgo(31) });
+    expect(await service.find('e1', 'registration', 'att1')).toBeNull();
+  });
+
+  it('rejects oversized drafts and drafts for past events', async () => {
+    await expect(service.save('e1', 'checkout', 'k', { blob: 'x'.repeat(70_000) })).rejects.toThrow('Draft is too large');
+
+    prisma.event.findUnique.mockResolvedValueOnce({ endDate: daysAgo(1) });
+    await expect(service.save('e1', 'checkout', 'k', {})).rejects.toBeInstanceOf(BadRequestException);
+    expect(prisma.formDraft.upsert).not.toHaveBeenCalled();
+  });
+
+  it('purges drafts untouched past the window or whose event has ended', async () => {
+    expect(await service.purgeStale()).toBe(3);
+    expect(prisma.formDraft.deleteMany).toHaveBeenCalledWith({
+      where: {
+        OR: [{ updatedAt: { lt: daysAgo(30) } }, { event: { endDate: { lt: NOW } } }],
+      },
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PrismaService } from '../prisma/prisma.service';
+
+/**
+ * Where a draft comes from:
+ *   registration — tokenized recipient registration, keyed by attendee id
+ *   checkout     — public checkout embed, keyed by a client-generated draft id
+ */
+export type FormDraftKind = 'registration' | 'checkout';
+
+/** Client draft ids: long random url-safe strings, never guessable. */
+export const DRAFT_ID_PATTERN = /^[A-Za-z0-9_-]{32,64}$/;
+
+/**
+ * Save-and-resume storage for unfinished registration and checkout forms.
+ *
+ * Drafts hold whatever the visitor has typed so far — no required-field or
+ * type validation runs until the form is actually submitted. Only the size
+ * is capped, as the endpoints are public.
+ *
+ * Retention: a draft is personal data the visitor never submitted, so it is
+ * kept only as long as it can still be useful — deleted on submit, and
+ * purged daily once untouched for {@link RETENTION_DAYS} days or once its
+ * event has ended.
+ */
+@Injectable()
+export class FormDraftsService {
+  private readonly logger = new Logger(FormDraftsService.name);
+  static readonly RETENTION_DAYS = 30;
+  private static readonly MAX_BYTES = 64 * 1024;
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /** The draft's data, or null when there is none (or it is past retention). */
+  async find(eventId: string, kind: FormDraftKind, key: string) {
+    const draft = await this.prisma.formDraft.findUnique({
+      where: { eventId_kind_key: { eventId, kind, key } },
+      select: { data: true, updatedAt: true },
+    });
+    if (!draft || draft.updatedAt < this.cutoff()) return null;
+    return { data: draft.data as Record<string, unknown>, savedAt: draft.updatedAt };
+  }
+
+  /** Replace the draft with `data` (no validation beyond a size cap). */
+  async save(eventId: string, kind: FormDraftKind, key: string, data: Record<string, unknown>) {
+    if (JSON.stringify(data).length > FormDraftsService.MAX_BYTES) {
+      throw new BadRequestException('Draft is too large');
+    }
+
+    const event = await this.prisma.event.findUnique({
+      where: { id: eventId },
+      select: { endDate: true },
+    });
+    if (!event) throw new NotFoundException('Event not found');
+    if (event.endDate < new Date()) {
+      throw new BadRequestException('This event has ended');
+    }
+
+    const draft = await this.prisma.formDraft.upsert({
+      where: { eventId_kind_key: { eventId, kind, key } },
+      create: { eventId, kind, key, data: data as any },
+      update: { data: data as any },
+      select: { updatedAt: true },
+    });
+    return { savedAt: draft.updatedAt };
+  }
+
+  async discard(eventId: string, kind: FormDraftKind, key: string): Promise<void> {
+    await this.prisma.formDraft.deleteMany({ where: { eventId, kind, key } });
+  }
+
+  // ─── Retention ────────────────────────────────────────────────
+
+  @Cron(CronExpression.EVERY_DAY_AT_3AM)
+  async purgeStale(): Promise<number> {
+    try {
+      const { count } = await this.prisma.formDraft.deleteMany({
+        where: {
+          OR: [
+            { updatedAt: { lt: this.cutoff() } },
+            { event: { endDate: { lt: new Date() } } },
+          ],
+        },
+      });
+      if (count > 0) {
+        this.logger.log(`Purged ${count} form draft(s) past retention`);
+      }
+      return count;
+    } catch (err) {
+      this.logger.error(
+        `Form draft purge failed: ${err instanceof Error ? err.message : String(err)}`,
+      );
+      return 0;
+    }
+  }
+
+  private cutoff(): Date {
+    const cutoff = new Date();
+    cutoff.setDate(cutoff.getDate() - FormDraftsService.RETENTION_DAYS);
+    return cutoff;
+  }
+}
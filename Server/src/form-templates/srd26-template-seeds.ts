@@ -28,6 +28,7 @@
 
 import { FormSchemaDefinition, FormField, FormSection } from '../forms/forms.service';
 import { roboticsExpertiseAreas, roboticsSkillsTools } from '../field-repository/field-repository.service';
+import type { ConditionNode } from '../common/conditions';
 
 // ─── Section / Field builder helpers ────────────────────────────
 
@@ -61,7 +62,7 @@ function f(
     section: sectionId,
     order,
     required: opts?.required,
-    conditions: opts?.conditions,
+    conditions: opts?.conditions as ConditionNode[] | undefined,
     options: opts?.options,
     helpText: opts?.helpText,
     tooltip: opts?.tooltip,
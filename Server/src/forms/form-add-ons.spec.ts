@@ -0,0 +1,58 @@
+import type { FormField } from './forms.service';
+import { paidOrderAddOns, selectedAddOns, validateAddOnOptions } from './form-add-ons';
+
+describe('form-add-ons', () => {
+  const dinner: FormField = {
+    id: 'f1',
+    type: 'checkbox',
+    label: { en: 'Social programme' },
+    options: [
+      { value: 'dinner', label: { en: 'Networking dinner' }, priceCents: 8500, stock: 120, vatCategory: 'standard' },
+      { value: 'tour', label: { en: 'Lab tour' }, priceCents: 0 },
+    ],
+  };
+  const hotel = {
+    id: 'f2',
+    slug: 'hotel',
+    type: 'radio',
+    label: { en: 'Hotel' },
+    options: [{ value: 'single', label: { en: 'Single room' }, priceCents: 14000, vatCategory: 'accommodation' }],
+    conditions: [{ field: '_ticket_category', operator: 'neq', value: 'exhibitor' }],
+  } as FormField;
+
+  it('returns priced options that were picked in visible fields', () => {
+    const addOns = selectedAddOns([dinner, hotel], { f1: ['dinner', 'tour'], f2: 'single' });
+
+    expect(addOns.map((a) => [a.key, a.priceCents, a.stock, a.vatCategory])).toEqual([
+      ['f1:dinner', 8500, 120, 'standard'],
+      ['hotel:single', 14000, null, 'accommodation'],
+    ]);
+    expect(selectedAddOns([hotel], { f2: 'single' }, { ticketCategory: 'exhibitor' })).toEqual([]);
+  });
+
+  it('rejects prices on unsupported fields and malformed stock or VAT', () => {
+    expect(
+      validateAddOnOptions([
+        { ...dinner, options: [{ value: 'a', label: { en: 'A' }, priceCents: 10.5, stock: -1 }] },
+        { id: 'f3', type: 'text', label: { en: 'T' }, options: [{ value: 'x', label: { en: 'X' }, priceCents: 100 }] },
+        { ...hotel, options: [{ value: 'b', label: { en: 'B' }, priceCents: 100, vatCategory: 'luxury' as any }] },
+      ]),
+    ).toEqual([
+      "Field 'f1', option 'a': priceCents must be a whole number of cents",
+      "Field 'f1', option 'a': stock must be a non-negative whole number",
+      "Field 'f3', option 'x': prices are only supported on select, radio, multi-select and checkbox fields",
+      "Field 'f2', option 'b': unknown VAT category 'luxury'",
+    ]);
+    expect(validateAddOnOptions([dinner, hotel])).toEqual([]);
+  });
+
+  it('lists add-ons from paid orders only', () => {
+    const line = { meta: { addOn: { key: 'f1:dinner', optionLabel: { en: 'Networking dinner' } } } };
+    expect(
+      paidOrderAddOns([
+        { status: 'paid', items: [line, { meta: { basePriceCents: 100 } }] },
+        { status: 'cancelled', items: [line] },
+      ]),
+    ).toEqual([{ key: 'f1:dinner', label: { en: 'Networking dinner' } }]);
+  });
+});
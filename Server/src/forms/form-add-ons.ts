@@ -0,0 +1,154 @@
+/**
+ * Priced form options ("add-ons").
+ *
+ * A select / radio / multi-select / checkbox option may carry a price, an
+ * optional stock limit and a Swiss VAT category. When a buyer picks such an
+ * option at checkout it becomes its own order line (an `OrderItem` without a
+ * ticket type, details in `meta.addOn`), a Stripe line item and an invoice
+ * row. The add-on key is also written to the ticket's `meta.addOns`, which is
+ * what access zones match against.
+ *
+ * @module forms/form-add-ons
+ */
+
+import { evaluateConditions, type ConditionContext } from '../common/conditions';
+import { t, type I18nString, type Locale } from '../common/i18n';
+import type { FormField } from './forms.service';
+
+// ─── Types ──────────────────────────────────────────────────────
+
+/** Swiss MWST categories — standard 8.1 %, reduced 2.6 %, accommodation 3.8 %. */
+export const VAT_CATEGORIES = ['standard', 'reduced', 'accommodation', 'exempt'] as const;
+export type VatCategory = (typeof VAT_CATEGORIES)[number];
+
+/** Field types whose options can be priced. */
+export const ADD_ON_FIELD_TYPES = new Set(['select', 'radio', 'multi-select', 'checkbox']);
+
+export interface SelectedAddOn {
+  /** `<field slug or id>:<option value>` — stable across schema versions. */
+  key: string;
+  fieldId: string;
+  fieldLabel: Record<string, string>;
+  optionValue: string;
+  optionLabel: Record<string, string>;
+  priceCents: number;
+  /** Units available across all orders; null = unlimited. */
+  stock: number | null;
+  vatCategory: VatCategory;
+}
+
+/** Shape stored in `OrderItem.meta.addOn`. */
+export interface OrderItemAddOn {
+  key: string;
+  fieldId: string;
+  fieldLabel: Record<string, string>;
+  optionValue: string;
+  optionLabel: Record<string, string>;
+  vatCategory: VatCategory;
+  /** Ticket type of the line whose form the option was picked in. */
+  forTicketTypeId: string | null;
+}
+
+// ─── Helpers ────────────────────────────────────────────────────
+
+export function addOnKey(field: FormField, optionValue: string): string {
+  const slug = (field as any).slug;
+  return `${typeof slug === 'string' && slug ? slug : field.id}:${optionValue}`;
+}
+
+/** Read `meta.addOn` from an order item, or null for ticket lines. */
+export function orderItemAddOn(meta: unknown): OrderItemAddOn | null {
+  const addOn = (meta as { addOn?: OrderItemAddOn } | null)?.addOn;
+  return addOn && typeof addOn.key === 'string' ? addOn : null;
+}
+
+/** An option or field label in `locale`, falling back to English. */
+export function addOnText(label: Record<string, string> | undefined, locale?: Locale): string {
+  if (!label) return '';
+  return t(label as I18nString, locale) || Object.values(label)[0] || '';
+}
+
+/**
+ * Add-ons bought in an attendee's paid orders, for lists and exports.
+ */
+export function paidOrderAddOns(
+  orders: Array<{ status: string; items?: Array<{ meta: unknown }> }>,
+): Array<{ key: string; label: Record<string, string> }> {
+  return orders
+    .filter((order) => order.status === 'paid')
+    .flatMap((order) => order.items ?? [])
+    .flatMap((item) => {
+      const addOn = orderItemAddOn(item.meta);
+      return addOn ? [{ key: addOn.key, label: addOn.optionLabel }] : [];
+    });
+}
+
+/**
+ * Structural problems with priced options, reported when a schema is saved.
+ */
+export function validateAddOnOptions(fields: FormField[]): string[] {
+  const errors: string[] = [];
+
+  for (const field of fields) {
+    for (const option of field.options ?? []) {
+      const priced = option.priceCents != null || option.stock != null || option.vatCategory != null;
+      if (!priced) continue;
+
+      const where = `Field '${field.id}', option '${option.value}'`;
+      if (!ADD_ON_FIELD_TYPES.has(field.type)) {
+        errors.push(`${where}: prices are only supported on select, radio, multi-select and checkbox fields`);
+        continue;
+      }
+      if (!Number.isInteger(option.priceCents) || (option.priceCents as number) < 0) {
+        errors.push(`${where}: priceCents must be a whole number of cents`);
+      }
+      if (option.stock != null && (!Number.isInteger(option.stock) || option.stock < 0)) {
+        errors.push(`${where}: stock must be a non-negative whole number`);
+      }
+      if (option.vatCategory != null && !VAT_CATEGORIES.includes(option.vatCategory)) {
+        errors.push(`${where}: unknown VAT category '${option.vatCategory}'`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Priced options picked in `answers`, skipping fields hidden by their
+ * conditions. Free options (no or zero price) are not add-ons.
+ */
+export function selectedAddOns(
+  fields: FormField[],
+  answers: Record<string, unknown>,
+  context?: ConditionContext,
+): SelectedAddOn[] {
+  const selected: SelectedAddOn[] = [];
+
+  for (const field of fields) {
+    if (!ADD_ON_FIELD_TYPES.has(field.type) || !field.options?.length) continue;
+    if (field.conditions?.length && !evaluateConditions(field.conditions, answers, context)) continue;
+
+    const slug = (field as any).slug as string | undefined;
+    const value = answers[field.id] ?? (slug ? answers[slug] : undefined);
+    const picked = new Set((Array.isArray(value) ? value : [value]).map((v) => String(v)));
+    // A lone checkbox submits `true` rather than its option value
+    if (value === true && field.options.length === 1) picked.add(field.options[0].value);
+
+    for (const option of field.options) {
+      if (!option.priceCents || option.priceCents <= 0 || !picked.has(option.value)) continue;
+      selected.push({
+        key: addOnKey(field, option.value),
+        fieldId: field.id,
+        fieldLabel: field.label,
+        optionValue: option.value,
+        optionLabel: option.label,
+        priceCents: option.priceCents,
+        stock: option.stock ?? null,
+        vatCategory: option.vatCategory ?? 'standard',
+      });
+    }
+  }
+
+  return selected;
+}
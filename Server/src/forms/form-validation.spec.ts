@@ -0,0 +1,76 @@
+import type { FormField } from './forms.service';
+import { checkFieldValue, isMissing, localizeFieldError } from './form-validation';
+
+describe('form-validation', () => {
+  const field = (type: string, extra: Partial<FormField> = {}) =>
+    ({ id: 'f', type, label: { en: 'Field', de: 'Feld' }, ...extra }) as FormField;
+
+  it('checks values per field type', () => {
+    expect(checkFieldValue(field('email'), 'ada@example')).toEqual({ code: 'invalid_email' });
+    expect(checkFieldValue(field('email'), 'ada@example.ch')).toBeNull();
+    expect(checkFieldValue(field('phone'), '079 123 45 67')).toBeNull();
+    expect(checkFieldValue(field('phone'), '+41 (0)79-abc')).toEqual({ code: 'invalid_phone' });
+    expect(checkFieldValue(field('url'), 'sra.ch/members')).toBeNull();
+    expect(checkFieldValue(field('url'), 'javascript:alert(1)')).toEqual({ code: 'invalid_url' });
+    expect(checkFieldValue(field('date'), '2026-02-30')).toEqual({ code: 'invalid_date' });
+    expect(checkFieldValue(field('canton'), 'VD')).toBeNull();
+    expect(checkFieldValue(field('canton'), 'xx')).toEqual({ code: 'invalid_canton' });
+    expect(checkFieldValue(field('file'), 'https://evil.example/x.png')).toEqual({ code: 'invalid_upload' });
+  });
+
+  it('accepts only listed options, including hierarchical selects that submit arrays', () => {
+    const select = field('select', { options: [{ value: 'ai', label: { en: 'AI' } }, { value: 'ml', label: { en: 'ML' } }] });
+    expect(checkFieldValue(select, 'ai')).toBeNull();
+    expect(checkFieldValue(select, ['ai', 'ml'])).toBeNull();
+    expect(checkFieldValue(select, 'space')).toEqual({ code: 'invalid_option' });
+    expect(checkFieldValue(field('multi-select'), 'ai')).toEqual({ code: 'invalid_value' });
+  });
+
+  it('accepts child options of hierarchical taxonomy fields at any depth', () => {
+    const sector = field('checkbox', {
+      options: [
+        {
+          value: 'manufacturing',
+          label: { en: 'Manufacturing' },
+          children: [
+            {
+              value: 'automotive',
+              label: { en: 'Automotive' },
+              children: [{ value: 'ev-batteries', label: { en: 'EV batteries' } }],
+            },
+          ],
+        },
+      ],
+    });
+    expect(checkFieldValue(sector, ['manufacturing', 'automotive', 'ev-batteries'])).toBeNull();
+    expect(checkFieldValue(sector, ['automotive', 'aerospace'])).toEqual({ code: 'invalid_option' });
+  });
+
+  it('applies length, range and whole-value pattern rules', () => {
+    expect(checkFieldValue(field('text'), '800', { pattern: '[0-9]{4}' })).toEqual({
+      code: 'pattern_mismatch',
+      params: { pattern: '[0-9]{4}' },
+    });
+    expect(checkFieldValue(field('text'), '8000', { pattern: '[0-9]{4}' })).toBeNull();
+    expect(checkFieldValue(field('textarea'), 'abc', { maxLength: 2 })).toEqual({ code: 'too_long', params: { max: 2 } });
+    expect(checkFieldValue(field('number'), '12', { min: 1, max: 10 })).toEqual({ code: 'too_large', params: { max: 10 } });
+    expect(checkFieldValue(field('date'), '2026-01-01', { min: '2026-06-01' })).toEqual({
+      code: 'too_small',
+      params: { min: '2026-06-01' },
+    });
+  });
+
+  it('treats empty lists and withheld consent as missing', () => {
+    expect(isMissing(field('multi-select'), [])).toBe(true);
+    expect(isMissing(field('consent'), { granted: false })).toBe(true);
+    expect(isMissing(field('yes-no'), 'no')).toBe(false);
+  });
+
+  it('localizes messages with the field label, falling back to English', () => {
+    const error = localizeFieldError(field('text'), { code: 'too_short', params: { min: 3 } });
+    expect(error).toMatchObject({ fieldId: 'f', code: 'too_short', params: { min: 3 } });
+    expect(error.message.en).toBe('Field must be at least 3 characters.');
+    expect(error.message.de).toBe('Feld muss mindestens 3 Zeichen lang sein.');
+    expect(error.message.fr).toBe('Field doit contenir au moins 3 caractères.');
+  });
+});
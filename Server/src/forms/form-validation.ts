@@ -0,0 +1,369 @@
+/**
+ * Per-field validation for form submissions.
+ *
+ * `checkFieldValue` returns a machine-readable issue (`code` + `params`);
+ * `localizeFieldError` turns it into a message in every supported locale
+ * using the field's own i18n label, so clients can show it as-is.
+ *
+ * @module forms/form-validation
+ */
+
+import { isEmail, isPhoneNumber, isURL } from 'class-validator';
+import { SUPPORTED_LOCALES, t, type I18nString, type Locale } from '../common/i18n';
+import type { FormField } from './forms.service';
+
+// ─── Types ──────────────────────────────────────────────────────
+
+export type FieldErrorCode =
+  | 'required'
+  | 'invalid_email'
+  | 'invalid_phone'
+  | 'invalid_url'
+  | 'invalid_date'
+  | 'invalid_number'
+  | 'invalid_option'
+  | 'invalid_country'
+  | 'invalid_canton'
+  | 'invalid_upload'
+  | 'invalid_value'
+  | 'too_short'
+  | 'too_long'
+  | 'too_small'
+  | 'too_large'
+  | 'pattern_mismatch';
+
+export type FieldErrorParams = Record<string, string | number>;
+
+export interface FieldIssue {
+  code: FieldErrorCode;
+  params?: FieldErrorParams;
+}
+
+export interface FieldError {
+  fieldId: string;
+  code: FieldErrorCode;
+  params: FieldErrorParams;
+  /** Ready-to-show text per locale, e.g. `{ en: "Phone must be a valid phone number." }` */
+  message: Record<Locale, string>;
+}
+
+/** Rules from the schema field's `validation`, merged over FieldDefinition.validationRules. */
+export interface FieldRules {
+  minLength?: number;
+  maxLength?: number;
+  min?: number | string;
+  max?: number | string;
+  pattern?: string;
+}
+
+// ─── Messages ───────────────────────────────────────────────────
+
+const MESSAGES: Record<FieldErrorCode, Record<Locale, string>> = {
+  required: {
+    en: '{label} is required.',
+    fr: '{label} est obligatoire.',
+    de: '{label} ist erforderlich.',
+    it: '{label} è obbligatorio.',
+    'zh-TW': '{label} 為必填。',
+  },
+  invalid_email: {
+    en: '{label} must be a valid email address.',
+    fr: '{label} doit être une adresse e-mail valide.',
+    de: '{label} muss eine gültige E-Mail-Adresse sein.',
+    it: '{label} deve essere un indirizzo e-mail valido.',
+    'zh-TW': '{label} 必須是有效的電子郵件地址。',
+  },
+  invalid_phone: {
+    en: '{label} must be a valid phone number.',
+    fr: '{label} doit être un numéro de téléphone valide.',
+    de: '{label} muss eine gültige Telefonnummer sein.',
+    it: '{label} deve essere un numero di telefono valido.',
+    'zh-TW': '{label} 必須是有效的電話號碼。',
+  },
+  invalid_url: {
+    en: '{label} must be a valid web address.',
+    fr: '{label} doit être une adresse web valide.',
+    de: '{label} muss eine gültige Webadresse sein.',
+    it: '{label} deve essere un indirizzo web valido.',
+    'zh-TW': '{label} 必須是有效的網址。',
+  },
+  invalid_date: {
+    en: '{label} must be a valid date.',
+    fr: '{label} doit être une date valide.',
+    de: '{label} muss ein gültiges Datum sein.',
+    it: '{label} deve essere una data valida.',
+    'zh-TW': '{label} 必須是有效的日期。',
+  },
+  invalid_number: {
+    en: '{label} must be a number.',
+    fr: '{label} doit être un nombre.',
+    de: '{label} muss eine Zahl sein.',
+    it: '{label} deve essere un numero.',
+    'zh-TW': '{label} 必須是數字。',
+  },
+  invalid_option: {
+    en: '{label}: please choose one of the listed options.',
+    fr: '{label} : veuillez choisir parmi les options proposées.',
+    de: '{label}: Bitte wählen Sie eine der aufgeführten Optionen.',
+    it: '{label}: scegliere una delle opzioni elencate.',
+    'zh-TW': '{label}：請從列出的選項中選擇。',
+  },
+  invalid_country: {
+    en: '{label} must be a valid country.',
+    fr: '{label} doit être un pays valide.',
+    de: '{label} muss ein gültiges Land sein.',
+    it: '{label} deve essere un paese valido.',
+    'zh-TW': '{label} 必須是有效的國家。',
+  },
+  invalid_canton: {
+    en: '{label} must be a Swiss canton.',
+    fr: '{label} doit être un canton suisse.',
+    de: '{label} muss ein Schweizer Kanton sein.',
+    it: '{label} deve essere un cantone svizzero.',
+    'zh-TW': '{label} 必須是瑞士的邦。',
+  },
+  invalid_upload: {
+    en: '{label}: the uploaded file is not valid. Please upload it again.',
+    fr: '{label} : le fichier envoyé n’est pas valide. Veuillez le téléverser à nouveau.',
+    de: '{label}: Die hochgeladene Datei ist ungültig. Bitte laden Sie sie erneut hoch.',
+    it: '{label}: il file caricato non è valido. Caricarlo di nuovo.',
+    'zh-TW': '{label}：上傳的檔案無效，請重新上傳。',
+  },
+  invalid_value: {
+    en: '{label} has an invalid value.',
+    fr: '{label} contient une valeur non valide.',
+    de: '{label} enthält einen ungültigen Wert.',
+    it: '{label} contiene un valore non valido.',
+    'zh-TW': '{label} 的值無效。',
+  },
+  too_short: {
+    en: '{label} must be at least {min} characters.',
+    fr: '{label} doit contenir au moins {min} caractères.',
+    de: '{label} muss mindestens {min} Zeichen lang sein.',
+    it: '{label} deve contenere almeno {min} caratteri.',
+    'zh-TW': '{label} 至少需要 {min} 個字元。',
+  },
+  too_long: {
+    en: '{label} must be at most {max} characters.',
+    fr: '{label} ne doit pas dépasser {max} caractères.',
+    de: '{label} darf höchstens {max} Zeichen lang sein.',
+    it: '{label} non deve superare {max} caratteri.',
+    'zh-TW': '{label} 不得超過 {max} 個字元。',
+  },
+  too_small: {
+    en: '{label} must be at least {min}.',
+    fr: '{label} doit être au moins {min}.',
+    de: '{label} muss mindestens {min} sein.',
+    it: '{label} deve essere almeno {min}.',
+    'zh-TW': '{label} 不得小於 {min}。',
+  },
+  too_large: {
+    en: '{label} must be at most {max}.',
+    fr: '{label} doit être au plus {max}.',
+    de: '{label} darf höchstens {max} sein.',
+    it: '{label} deve essere al massimo {max}.',
+    'zh-TW': '{label} 不得大於 {max}。',
+  },
+  pattern_mismatch: {
+    en: '{label} is not in the expected format.',
+    fr: '{label} n’est pas au format attendu.',
+    de: '{label} hat nicht das erwartete Format.',
+    it: '{label} non è nel formato previsto.',
+    'zh-TW': '{label} 的格式不正確。',
+  },
+};
+
+/** Build the localized error for a field issue. */
+export function localizeFieldError(field: FormField, issue: FieldIssue): FieldError {
+  const params = issue.params ?? {};
+  const message = {} as Record<Locale, string>;
+  for (const locale of SUPPORTED_LOCALES) {
+    const label = t(field.label as I18nString, locale) || field.id;
+    message[locale] = MESSAGES[issue.code][locale]
+      .replace('{label}', label)
+      .replace(/\{(\w+)\}/g, (match, key: string) => (key in params ? String(params[key]) : match));
+  }
+  return { fieldId: field.id, code: issue.code, params, message };
+}
+
+// ─── Checks ─────────────────────────────────────────────────────
+
+const SWISS_CANTONS = new Set([
+  'ag', 'ai', 'ar', 'be', 'bl', 'bs', 'fr', 'ge', 'gl', 'gr', 'ju', 'lu', 'ne',
+  'nw', 'ow', 'sg', 'sh', 'so', 'sz', 'tg', 'ti', 'ur', 'vd', 'vs', 'zg', 'zh',
+]);
+
+/** Whether a value counts as "not answered" for the required check. */
+export function isMissing(field: FormField, value: unknown): boolean {
+  if (value === undefined || value === null || value === '') return true;
+  if (Array.isArray(value)) return value.length === 0;
+  if (field.type === 'consent') {
+    return typeof value !== 'object' || (value as { granted?: unknown }).granted !== true;
+  }
+  return false;
+}
+
+/**
+ * Check an answered value against its field type and rules.
+ * Returns the first problem, or null when the value is valid.
+ */
+export function checkFieldValue(
+  field: FormField,
+  value: unknown,
+  rules: FieldRules = {},
+): FieldIssue | null {
+  const typeIssue = checkType(field, value, rules);
+  if (typeIssue) return typeIssue;
+
+  if (typeof value === 'string' && value !== '' && field.type !== 'richtext') {
+    if (typeof rules.minLength === 'number' && value.length < rules.minLength) {
+      return { code: 'too_short', params: { min: rules.minLength } };
+    }
+    if (typeof rules.maxLength === 'number' && value.length > rules.maxLength) {
+      return { code: 'too_long', params: { max: rules.maxLength } };
+    }
+    if (rules.pattern && !matchesPattern(value, rules.pattern)) {
+      return { code: 'pattern_mismatch', params: { pattern: rules.pattern } };
+    }
+  }
+  return null;
+}
+
+function checkType(field: FormField, value: unknown, rules: FieldRules): FieldIssue | null {
+  switch (field.type) {
+    case 'text':
+    case 'textarea':
+    case 'richtext':
+      return typeof value === 'string' ? null : { code: 'invalid_value' };
+
+    case 'email':
+      return typeof value === 'string' && (value === '' || isEmail(value.trim()))
+        ? null
+        : { code: 'invalid_email' };
+
+    case 'phone':
+      return typeof value === 'string' && (value === '' || isPhone(value))
+        ? null
+        : { code: 'invalid_phone' };
+
+    case 'url':
+      return typeof value === 'string' &&
+        (value === '' || isURL(value.trim(), { protocols: ['http', 'https'], require_tld: true }))
+        ? null
+        : { code: 'invalid_url' };
+
+    case 'date': {
+      if (value === '') return null;
+      if (typeof value !== 'string' || !isIsoDate(value)) return { code: 'invalid_date' };
+      if (typeof rules.min === 'string' && value < rules.min) return { code: 'too_small', params: { min: rules.min } };
+      if (typeof rules.max === 'string' && value > rules.max) return { code: 'too_large', params: { max: rules.max } };
+      return null;
+    }
+
+    case 'number': {
+      if (value === '') return null;
+      const n = typeof value === 'number' ? value : typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+      if (!Number.isFinite(n)) return { code: 'invalid_number' };
+      const min = rules.min === undefined ? NaN : Number(rules.min);
+      const max = rules.max === undefined ? NaN : Number(rules.max);
+      if (n < min) return { code: 'too_small', params: { min } };
+      if (n > max) return { code: 'too_large', params: { max } };
+      return null;
+    }
+
+    case 'select':
+    case 'radio':
+    case 'multi-select': {
+      // Hierarchical selects render as a checkbox dropdown and submit an array
+      const values = Array.isArray(value) ? value : field.type === 'multi-select' ? null : [value];
+      if (!values || values.some((v) => typeof v !== 'string')) return { code: 'invalid_value' };
+      return allInOptions(field, values as string[]) ? null : { code: 'invalid_option' };
+    }
+
+    case 'checkbox':
+      // A single checkbox is a boolean; one with options submits the checked values
+      if (Array.isArray(value)) {
+        return value.every((v) => typeof v === 'string') && allInOptions(field, value as string[])
+          ? null
+          : { code: 'invalid_option' };
+      }
+      return typeof value === 'boolean' || value === 'true' || value === 'false' ? null : { code: 'invalid_value' };
+
+    case 'yes-no':
+      return typeof value === 'boolean' || value === 'yes' || value === 'no' ? null : { code: 'invalid_value' };
+
+    case 'country': {
+      if (value === '') return null;
+      if (typeof value !== 'string') return { code: 'invalid_country' };
+      const known = field.options?.length ? allInOptions(field, [value]) : /^[a-z]{2}$/i.test(value);
+      return known ? null : { code: 'invalid_country' };
+    }
+
+    case 'canton': {
+      if (value === '') return null;
+      if (typeof value !== 'string') return { code: 'invalid_canton' };
+      const known = field.options?.length ? allInOptions(field, [value]) : SWISS_CANTONS.has(value.toLowerCase());
+      return known ? null : { code: 'invalid_canton' };
+    }
+
+    case 'consent':
+      return typeof value === 'object' && value !== null && !Array.isArray(value) && 'granted' in value
+        ? null
+        : { code: 'invalid_value' };
+
+    case 'file':
+    case 'image-upload':
+      // Only our own /uploads/ paths — prevent arbitrary URL injection
+      return typeof value === 'string' && (value === '' || value.startsWith('/uploads/'))
+        ? null
+        : { code: 'invalid_upload' };
+
+    default:
+      return null;
+  }
+}
+
+// ─── Helpers ────────────────────────────────────────────────────
+
+/**
+ * Lenient phone check: Swiss numbers may omit the country code, anything
+ * else must be international (`+` or `00` prefix).
+ */
+function isPhone(value: string): boolean {
+  const compact = value.replace(/[\s().-]/g, '').replace(/^00/, '+');
+  if (!/^\+?\d{6,15}$/.test(compact)) return false;
+  return isPhoneNumber(compact, 'CH');
+}
+
+function isIsoDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+/**
+ * Fields without options (hydrated or inline) accept any value. Child
+ * options of hierarchical fields (e.g. industry_sector) are valid answers
+ * at every depth.
+ */
+function allInOptions(field: FormField, values: string[]): boolean {
+  if (!field.options?.length) return true;
+  const allowed = new Set<string>();
+  const collect = (options: FormField['options']) => {
+    for (const option of options ?? []) {
+      allowed.add(option.value);
+      collect(option.children);
+    }
+  };
+  collect(field.options);
+  return values.every((v) => allowed.has(v));
+}
+
+/** HTML `pattern` semantics — the whole value must match. */
+function matchesPattern(value: string, pattern: string): boolean {
+  try {
+    return new RegExp(`^(?:${pattern})$`, 'u').test(value);
+  } catch {
+    return true; // An unusable admin pattern must not block submissions
+  }
+}
@@ -0,0 +1,92 @@
+import type { FormField } from './forms.service';
+import { diffSchemas, unifyVersions, validateFieldMappings, type SchemaVersion } from './form-versions';
+
+describe('form-versions', () => {
+  const field = (id: string, type = 'text', extra: Partial<FormField> = {}) =>
+    ({ id, type, label: { en: id }, ...extra }) as FormField;
+  const diet = (values: string[]) => values.map((value) => ({ value, label: { en: value } }));
+
+  const v1: SchemaVersion = {
+    id: 's1',
+    version: 1,
+    fields: [
+      field('name'),
+      field('diet', 'select', { options: diet(['veg', 'meat']) }),
+      field('street'),
+      field('number'),
+      field('fax'),
+    ],
+  };
+  const v2: SchemaVersion = {
+    id: 's2',
+    version: 2,
+    fields: [
+      field('first_name'),
+      field('last_name'),
+      field('dietary', 'select', { label: { en: 'diet' }, required: true, options: diet(['vegetarian', 'meat', 'vegan']) }),
+      field('address'),
+      field('company'),
+    ],
+    mappings: [
+      { from: 'name', to: ['first_name', 'last_name'] },
+      { from: 'diet', to: 'dietary', options: { veg: 'vegetarian' } },
+      { from: ['street', 'number'], to: 'address' },
+    ],
+  };
+
+  it('diffs fields, renames with option remaps, splits and merges', () => {
+    const diff = diffSchemas(v1, v2);
+
+    expect(diff.added.map((f) => f.fieldId)).toEqual(['company']);
+    expect(diff.removed.map((f) => f.fieldId)).toEqual(['fax']);
+    expect(diff.changed).toEqual([
+      {
+        fieldId: 'dietary',
+        previousFieldId: 'diet',
+        changes: [{ property: 'required', from: undefined, to: true }],
+        options: { added: ['vegan'], removed: [], remapped: { veg: 'vegetarian' }, relabeled: [] },
+      },
+    ]);
+    expect(diff.restructured).toEqual([
+      { kind: 'split', from: ['name'], to: ['first_name', 'last_name'] },
+      { kind: 'merge', from: ['street', 'number'], to: ['address'] },
+    ]);
+
+    // Without mappings, only ids match
+    expect(diffSchemas(v1, v2, false).removed).toHaveLength(5);
+  });
+
+  it('lifts older answers onto the latest columns and keeps unmapped ones as legacy', () => {
+    const { columns, toLatest } = unifyVersions([v2, v1]);
+
+    expect(columns.map((c) => c.key)).toEqual(['first_name', 'last_name', 'dietary', 'address', 'company', 'v1:fax']);
+    expect(columns[5].label).toEqual({ en: 'fax (v1)' });
+    expect(
+      toLatest(1, { name: 'Ada King Lovelace', diet: 'veg', street: 'Bahnhofstrasse', number: '1', fax: '044', firstName: 'Ada' }),
+    ).toEqual({
+      first_name: 'Ada',
+      last_name: 'King Lovelace',
+      dietary: 'vegetarian',
+      address: 'Bahnhofstrasse 1',
+      firstName: 'Ada',
+      'v1:fax': '044',
+    });
+    expect(toLatest(2, { dietary: 'vegan' })).toEqual({ dietary: 'vegan' });
+  });
+
+  it('rejects mappings to unknown fields, duplicates and foreign options', () => {
+    expect(
+      validateFieldMappings(v1.fields, v2.fields, [
+        { from: 'diet', to: 'dietary', options: { fish: 'vegetarian', meat: 'steak' } },
+        { from: 'diet', to: 'company' },
+        { from: ['street', 'number'], to: ['address', 'missing'] },
+      ]),
+    ).toEqual([
+      "Mapping 1: 'fish' is not an option of 'diet'",
+      "Mapping 1: 'steak' is not an option of 'dietary'",
+      "Mapping 2: field 'diet' is already mapped",
+      'Mapping 3: cannot map several fields onto several fields',
+    ]);
+    expect(validateFieldMappings(v1.fields, v2.fields, v2.mappings!)).toEqual([]);
+  });
+});
@@ -0,0 +1,404 @@
+/**
+ * Form schema versions — diffs and answer mappings.
+ *
+ * A schema becomes immutable once it has submissions, so editing it creates
+ * a new version. Fields with the same id (or slug) are the same field across
+ * versions; anything else — a rename, a split, a merge, renamed options — is
+ * declared as `FieldMapping`s on the newer version, from its previous one.
+ *
+ * Exports and the attendee detail view lift every submission to the latest
+ * version through those mappings (`unifyVersions`). Answers that lead
+ * nowhere stay visible as legacy columns (`v1:<fieldId>`).
+ *
+ * @module forms/form-versions
+ */
+
+import type { FormField } from './forms.service';
+
+// ─── Types ──────────────────────────────────────────────────────
+
+/**
+ * How fields of the previous version map onto this one.
+ *
+ *   rename / option remap : { from: 'diet', to: 'dietary', options: { veg: 'vegetarian' } }
+ *   split                 : { from: 'name', to: ['first_name', 'last_name'] }
+ *   merge                 : { from: ['street', 'number'], to: 'address' }
+ *
+ * Split cuts a text answer at `separator` (default a space); every target but
+ * the last takes one part, the last takes the rest. Merge joins the non-empty
+ * answers with `separator`.
+ */
+export interface FieldMapping {
+  from: string | string[];
+  to: string | string[];
+  options?: Record<string, string>;
+  separator?: string;
+}
+
+export interface SchemaVersion {
+  id: string;
+  version: number;
+  fields: FormField[];
+  /** Mappings from the previous version into this one. */
+  mappings?: FieldMapping[];
+}
+
+export interface FieldSummary {
+  fieldId: string;
+  type: string;
+  label: Record<string, string>;
+}
+
+export interface FieldChange {
+  fieldId: string;
+  /** Set when the field was renamed (declared mapping). */
+  previousFieldId?: string;
+  changes: Array<{ property: string; from: unknown; to: unknown }>;
+  options?: {
+    added: string[];
+    removed: string[];
+    /** Old value → new value, from a declared mapping. */
+    remapped: Record<string, string>;
+    relabeled: string[];
+  };
+}
+
+export interface SchemaDiff {
+  from: { id: string; version: number };
+  to: { id: string; version: number };
+  added: FieldSummary[];
+  removed: FieldSummary[];
+  changed: FieldChange[];
+  /** Splits and merges (renames are listed under `changed`). */
+  restructured: Array<{ kind: 'split' | 'merge'; from: string[]; to: string[] }>;
+}
+
+export interface UnifiedColumn {
+  /** Field id in the latest version, or `v<version>:<fieldId>` for legacy answers. */
+  key: string;
+  label: Record<string, string>;
+  field: FormField;
+  /** Version the column comes from; older than the latest for legacy columns. */
+  version: number;
+  legacy: boolean;
+}
+
+// ─── Helpers ────────────────────────────────────────────────────
+
+const LAYOUT_TYPES = new Set(['group', 'separator']);
+const COMPARED_PROPERTIES = ['type', 'label', 'required', 'validation', 'conditions', 'section'] as const;
+
+const list = (value: string | string[]): string[] => (Array.isArray(value) ? value : [value]);
+
+function fieldSlug(field: FormField): string | undefined {
+  const slug = (field as any).slug;
+  return typeof slug === 'string' && slug ? slug : undefined;
+}
+
+function findField(fields: FormField[], key: string): FormField | undefined {
+  return fields.find((f) => f.id === key) ?? fields.find((f) => fieldSlug(f) === key);
+}
+
+function readAnswer(answers: Record<string, unknown>, field: FormField): unknown {
+  const slug = fieldSlug(field);
+  return answers[field.id] ?? (slug ? answers[slug] : undefined);
+}
+
+const isEmpty = (value: unknown) => value === undefined || value === null || value === '';
+
+const summary = (field: FormField): FieldSummary => ({
+  fieldId: field.id,
+  type: field.type,
+  label: field.label,
+});
+
+/** Where each field of the previous version ends up in the next one. */
+type Route =
+  | { kind: 'carry'; to: FormField; mapping?: FieldMapping }
+  | { kind: 'mapped'; mapping: FieldMapping }
+  | { kind: 'legacy' };
+
+function route(prev: FormField[], next: FormField[], mappings: FieldMapping[] = []): Map<string, Route> {
+  const routes = new Map<string, Route>();
+
+  for (const mapping of mappings) {
+    const from = list(mapping.from).map((key) => findField(prev, key)).filter(Boolean) as FormField[];
+    const to = list(mapping.to).map((key) => findField(next, key)).filter(Boolean) as FormField[];
+    if (from.length === 0 || to.length === 0) continue;
+    for (const field of from) {
+      routes.set(
+        field.id,
+        from.length === 1 && to.length === 1 ? { kind: 'carry', to: to[0], mapping } : { kind: 'mapped', mapping },
+      );
+    }
+  }
+
+  for (const field of prev) {
+    if (routes.has(field.id) || LAYOUT_TYPES.has(field.type)) continue;
+    const same = findField(next, field.id) ?? (fieldSlug(field) ? findField(next, fieldSlug(field)!) : undefined);
+    routes.set(field.id, same ? { kind: 'carry', to: same } : { kind: 'legacy' });
+  }
+
+  return routes;
+}
+
+function remapOption(value: unknown, options?: Record<string, string>): unknown {
+  if (!options) return value;
+  if (Array.isArray(value)) return value.map((v) => options[String(v)] ?? v);
+  return typeof value === 'string' ? options[value] ?? value : value;
+}
+
+// ─── Validation ─────────────────────────────────────────────────
+
+/**
+ * Problems with mappings declared on `next` from `prev`, reported when the
+ * mappings are saved.
+ */
+export function validateFieldMappings(
+  prev: FormField[],
+  next: FormField[],
+  mappings: FieldMapping[],
+): string[] {
+  const errors: string[] = [];
+  const sources = new Set<string>();
+  const targets = new Set<string>();
+
+  mappings.forEach((mapping, i) => {
+    const where = `Mapping ${i + 1}`;
+    const fromKeys = list(mapping.from ?? []);
+    const toKeys = list(mapping.to ?? []);
+    if (fromKeys.length === 0 || toKeys.length === 0) {
+      errors.push(`${where}: needs both 'from' and 'to'`);
+      return;
+    }
+    if (fromKeys.length > 1 && toKeys.length > 1) {
+      errors.push(`${where}: cannot map several fields onto several fields`);
+      return;
+    }
+
+    for (const key of fromKeys) {
+      const field = findField(prev, key);
+      if (!field) errors.push(`${where}: unknown field '${key}' in the previous version`);
+      else if (sources.has(field.id)) errors.push(`${where}: field '${key}' is already mapped`);
+      else sources.add(field.id);
+    }
+    for (const key of toKeys) {
+      const field = findField(next, key);
+      if (!field) errors.push(`${where}: unknown field '${key}' in this version`);
+      else if (targets.has(field.id)) errors.push(`${where}: field '${key}' is already a mapping target`);
+      else targets.add(field.id);
+    }
+
+    if (mapping.options) {
+      if (fromKeys.length !== 1 || toKeys.length !== 1) {
+        errors.push(`${where}: option remaps need exactly one source and one target field`);
+        return;
+      }
+      const source = findField(prev, fromKeys[0]);
+      const target = findField(next, toKeys[0]);
+      for (const [oldValue, newValue] of Object.entries(mapping.options)) {
+        if (source?.options?.length && !source.options.some((o) => o.value === oldValue)) {
+          errors.push(`${where}: '${oldValue}' is not an option of '${fromKeys[0]}'`);
+        }
+        if (target?.options?.length && !target.options.some((o) => o.value === newValue)) {
+          errors.push(`${where}: '${newValue}' is not an option of '${toKeys[0]}'`);
+        }
+      }
+    }
+  });
+
+  return errors;
+}
+
+// ─── Diff ───────────────────────────────────────────────────────
+
+/**
+ * Field-level diff between two versions. `to.mappings` are applied when
+ * `from` is the version they were declared against; otherwise fields are
+ * matched by id / slug only.
+ */
+export function diffSchemas(from: SchemaVersion, to: SchemaVersion, applyMappings = true): SchemaDiff {
+  const mappings = applyMappings ? to.mappings ?? [] : [];
+  const routes = route(from.fields, to.fields, mappings);
+  const reached = new Set<string>();
+
+  const diff: SchemaDiff = {
+    from: { id: from.id, version: from.version },
+    to: { id: to.id, version: to.version },
+    added: [],
+    removed: [],
+    changed: [],
+    restructured: [],
+  };
+
+  for (const field of from.fields) {
+    const r = routes.get(field.id);
+    if (!r) continue;
+    if (r.kind === 'legacy') {
+      diff.removed.push(summary(field));
+      continue;
+    }
+    if (r.kind === 'mapped') continue;
+
+    reached.add(r.to.id);
+    const change: FieldChange = {
+      fieldId: r.to.id,
+      ...(r.to.id !== field.id ? { previousFieldId: field.id } : {}),
+      changes: COMPARED_PROPERTIES.flatMap((property) => {
+        const before = (field as any)[property];
+        const after = (r.to as any)[property];
+        return JSON.stringify(before ?? null) === JSON.stringify(after ?? null)
+          ? []
+          : [{ property, from: before, to: after }];
+      }),
+    };
+
+    if (field.options?.length || r.to.options?.length) {
+      const remapped = r.mapping?.options ?? {};
+      const oldOptions = new Map((field.options ?? []).map((o) => [o.value, o]));
+      const newOptions = new Map((r.to.options ?? []).map((o) => [o.value, o]));
+      const options = {
+        added: [...newOptions.keys()].filter((v) => !oldOptions.has(v) && !Object.values(remapped).includes(v)),
+        removed: [...oldOptions.keys()].filter((v) => !newOptions.has(v) && !(v in remapped)),
+        remapped,
+        relabeled: [...oldOptions.keys()].filter(
+          (v) => newOptions.has(v) && JSON.stringify(oldOptions.get(v)!.label) !== JSON.stringify(newOptions.get(v)!.label),
+        ),
+      };
+      if (options.added.length || options.removed.length || Object.keys(remapped).length || options.relabeled.length) {
+        change.options = options;
+      }
+    }
+
+    if (change.previousFieldId || change.changes.length > 0 || change.options) diff.changed.push(change);
+  }
+
+  for (const mapping of mappings) {
+    const fromFields = list(mapping.from).map((key) => findField(from.fields, key)).filter(Boolean) as FormField[];
+    const toFields = list(mapping.to).map((key) => findField(to.fields, key)).filter(Boolean) as FormField[];
+    if (fromFields.length === 0 || toFields.length === 0) continue;
+    toFields.forEach((f) => reached.add(f.id));
+    if (fromFields.length > 1 || toFields.length > 1) {
+      diff.restructured.push({
+        kind: fromFields.length > 1 ? 'merge' : 'split',
+        from: fromFields.map((f) => f.id),
+        to: toFields.map((f) => f.id),
+      });
+    }
+  }
+
+  for (const field of to.fields) {
+    if (!reached.has(field.id) && !LAYOUT_TYPES.has(field.type)) diff.added.push(summary(field));
+  }
+
+  return diff;
+}
+
+// ─── Unification ────────────────────────────────────────────────
+
+/**
+ * Lift answers from one version to the next through its mappings.
+ * Returns the next version's answers plus answers that lead nowhere.
+ */
+function stepAnswers(
+  prev: SchemaVersion,
+  next: SchemaVersion,
+  answers: Record<string, unknown>,
+): { answers: Record<string, unknown>; legacy: Record<string, unknown> } {
+  const routes = route(prev.fields, next.fields, next.mappings);
+  const out: Record<string, unknown> = {};
+  const legacy: Record<string, unknown> = {};
+  const known = new Set<string>();
+
+  for (const field of prev.fields) {
+    known.add(field.id);
+    const slug = fieldSlug(field);
+    if (slug) known.add(slug);
+
+    const r = routes.get(field.id);
+    const value = readAnswer(answers, field);
+    if (!r || isEmpty(value)) continue;
+    if (r.kind === 'carry') out[r.to.id] = remapOption(value, r.mapping?.options);
+    else if (r.kind === 'legacy') legacy[`v${prev.version}:${field.id}`] = value;
+  }
+
+  for (const mapping of next.mappings ?? []) {
+    const fromFields = list(mapping.from).map((key) => findField(prev.fields, key)).filter(Boolean) as FormField[];
+    const toFields = list(mapping.to).map((key) => findField(next.fields, key)).filter(Boolean) as FormField[];
+    if (fromFields.length === 0 || toFields.length === 0) continue;
+    const separator = mapping.separator ?? ' ';
+
+    if (toFields.length > 1) {
+      // Split
+      const value = readAnswer(answers, fromFields[0]);
+      if (isEmpty(value)) continue;
+      if (typeof value !== 'string') {
+        out[toFields[0].id] = value;
+        continue;
+      }
+      const parts = value.trim().split(separator);
+      toFields.forEach((field, i) => {
+        const part = i === toFields.length - 1 ? parts.slice(i).join(separator) : parts[i];
+        if (part) out[field.id] = part;
+      });
+    } else if (fromFields.length > 1) {
+      // Merge
+      const values = fromFields.map((f) => readAnswer(answers, f)).filter((v) => !isEmpty(v));
+      if (values.length > 0) out[toFields[0].id] = values.map(String).join(separator);
+    }
+  }
+
+  // Keys outside the schema (e.g. core attendee fields) travel unchanged
+  for (const [key, value] of Object.entries(answers)) {
+    if (!known.has(key) && !(key in out)) out[key] = value;
+  }
+
+  return { answers: out, legacy };
+}
+
+/**
+ * Unified column set across all versions of one form, and a function that
+ * lifts a submission's answers onto it. Columns are the latest version's
+ * fields followed by legacy columns of older versions, oldest first.
+ */
+export function unifyVersions(versions: SchemaVersion[]): {
+  latest: SchemaVersion;
+  columns: UnifiedColumn[];
+  toLatest: (version: number, answers: Record<string, unknown>) => Record<string, unknown>;
+} {
+  const ordered = [...versions].sort((a, b) => a.version - b.version);
+  const latest = ordered[ordered.length - 1];
+
+  const columns: UnifiedColumn[] = latest.fields
+    .filter((f) => !LAYOUT_TYPES.has(f.type))
+    .map((field) => ({ key: field.id, label: field.label, field, version: latest.version, legacy: false }));
+
+  for (let i = 0; i < ordered.length - 1; i++) {
+    const routes = route(ordered[i].fields, ordered[i + 1].fields, ordered[i + 1].mappings);
+    for (const field of ordered[i].fields) {
+      if (routes.get(field.id)?.kind !== 'legacy') continue;
+      columns.push({
+        key: `v${ordered[i].version}:${field.id}`,
+        label: Object.fromEntries(
+          Object.entries(field.label ?? {}).map(([locale, text]) => [locale, `${text} (v${ordered[i].version})`]),
+        ),
+        field,
+        version: ordered[i].version,
+        legacy: true,
+      });
+    }
+  }
+
+  const toLatest = (version: number, answers: Record<string, unknown>) => {
+    let current = answers;
+    const legacy: Record<string, unknown> = {};
+    for (let i = ordered.findIndex((v) => v.version === version); i >= 0 && i < ordered.length - 1; i++) {
+      const step = stepAnswers(ordered[i], ordered[i + 1], current);
+      current = step.answers;
+      Object.assign(legacy, step.legacy);
+    }
+    return { ...current, ...legacy };
+  };
+
+  return { latest, columns, toLatest };
+}
@@ -15,12 +15,14 @@ import { AuthGuard } from '@nestjs/passport';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
 import { FormsService, FormSchemaDefinition } from './forms.service';
+import type { FieldMapping } from './form-versions';
 import {
   IsString,
   IsOptional,
   IsObject,
   IsNotEmpty,
   IsNumber,
+  IsArray,
 } from 'class-validator';
 import { RateLimit } from '../common/guards/rate-limit.guard';
 import { FastifyRequest } from 'fastify';
@@ -57,6 +59,11 @@ class SubmitFormDto {
   answers: Record<string, unknown>;
 }
 
+class UpdateFieldMappingsDto {
+  @IsArray()
+  mappings: FieldMapping[];
+}
+
 // ─── Admin Controller ───────────────────────────────────────────
 
 /**
@@ -128,6 +135,34 @@ export class FormsController {
     return this.formsService.updateSchema(id, eventId, dto);
   }
 
+  /**
+   * GET /api/forms/:id/event/:eventId/diff?against=
+   * Field diff against another version (default: the previous one).
+   */
+  @Get(':id/event/:eventId/diff')
+  @Roles('event_admin', 'admin', 'super_admin')
+  diffVersions(
+    @Param('id') id: string,
+    @Param('eventId') eventId: string,
+    @Query('against') against?: string,
+  ) {
+    return this.formsService.diffVersions(id, eventId, against || undefined);
+  }
+
+  /**
+   * PATCH /api/forms/:id/event/:eventId/mappings
+   * Declare how the previous version's fields map onto this version.
+   */
+  @Patch(':id/event/:eventId/mappings')
+  @Roles('event_admin', 'admin', 'super_admin')
+  updateFieldMappings(
+    @Param('id') id: string,
+    @Param('eventId') eventId: string,
+    @Body() dto: UpdateFieldMappingsDto,
+  ) {
+    return this.formsService.updateFieldMappings(id, eventId, dto.mappings);
+  }
+
   /**
    * DELETE /api/forms/:id/event/:eventId
    * Delete a form schema (only if no submissions exist).
@@ -7,9 +7,33 @@ import {
 import { PrismaService } from '../prisma/prisma.service';
 import { FieldRepositoryService } from '../field-repository/field-repository.service';
 import {
-  ConditionRule,
+  ConditionContext,
+  ConditionNode,
   evaluateConditions,
+  validateConditions,
 } from '../common/conditions';
+import {
+  checkFieldValue,
+  isMissing,
+  localizeFieldError,
+  type FieldError,
+  type FieldRules,
+} from './form-validation';
+import {
+  selectedAddOns,
+  validateAddOnOptions,
+  type SelectedAddOn,
+  type VatCategory,
+} from './form-add-ons';
+import {
+  diffSchemas,
+  unifyVersions,
+  validateFieldMappings,
+  type FieldMapping,
+  type SchemaDiff,
+  type SchemaVersion,
+  type UnifiedColumn,
+} from './form-versions';
 import * as sanitizeHtml from 'sanitize-html';
 import * as sharp from 'sharp';
 import { resolve, join } from 'path';
@@ -57,12 +81,14 @@ export interface FormField {
   options?: Array<{
     value: string;
     label: Record<string, string>;
+    /** Set on priced options, which are sold as order add-ons (see form-add-ons.ts). */
+    priceCents?: number;
+    stock?: number | null;
+    vatCategory?: VatCategory;
+    /** Sub-options of hierarchical taxonomy fields (see TaxonomySyncService). */
+    children?: FormField['options'];
   }>;
-  conditions?: Array<{
-    field: string;
-    operator: string;
-    value: unknown;
-  }>;
+  conditions?: ConditionNode[];
   placeholder?: Record<string, string>;
   helpText?: Record<string, string>;
   tooltip?: Record<string, string>;
@@ -124,6 +150,16 @@ export class FormsService {
     return schema;
   }
 
+  /**
+   * A schema of this event with select options filled in from the Field
+   * Repository — the choices the registration form actually offers.
+   */
+  async findSchemaWithOptions(id: string, eventId: string) {
+    const schema = await this.findSchema(id, eventId);
+    await this.hydrateFieldOptions(schema);
+    return schema;
+  }
+
   /**
    * Get the latest active version of a named schema for an event.
    */
@@ -482,6 +518,8 @@ export class FormsService {
     attendeeId: string;
     formSchemaId: string;
     answers: Record<string, unknown>;
+    /** Ticket type / member session, for conditions that reference them. */
+    context?: ConditionContext;
   }) {
     // Load the schema
     const schema = await this.prisma.formSchema.findUnique({
@@ -492,9 +530,11 @@ export class FormsService {
         `Form schema ${data.formSchemaId} not found`,
       );
 
-    // Validate answers against schema fields
+    // Validate answers against schema fields, with options as the visitor saw them
+    await this.hydrateFieldOptions(schema);
     const fields = (schema.fields as unknown as FormSchemaDefinition).fields;
-    this.validateSubmission(fields, data.answers);
+    const rules = await this.loadValidationRules(fields);
+    this.validateSubmission(fields, data.answers, rules, data.context);
 
     return this.prisma.formSubmission.create({
       data: {
@@ -515,6 +555,8 @@ export class FormsService {
     attendeeId: string;
     formSchemaId: string;
     answers: Record<string, unknown>;
+    /** Ticket type / member session, for conditions that reference them. */
+    context?: ConditionContext;
   }) {
     const existing = await this.prisma.formSubmission.findFirst({
       where: {
@@ -531,8 +573,10 @@ export class FormsService {
     if (!schema)
       throw new NotFoundException(`Form schema ${data.formSchemaId} not found`);
 
+    await this.hydrateFieldOptions(schema);
     const fields = (schema.fields as unknown as FormSchemaDefinition).fields;
-    this.validateSubmission(fields, data.answers);
+    const rules = await this.loadValidationRules(fields);
+    this.validateSubmission(fields, data.answers, rules, data.context);
 
     if (existing) {
       return this.prisma.formSubmission.update({
@@ -598,6 +642,135 @@ export class FormsService {
     });
   }
 
+  // ─── Versions ─────────────────────────────────────────────────
+
+  /**
+   * Field diff between a schema and another version (default: the previous
+   * version of the same form). Declared mappings apply only against the
+   * previous version, which is what they were written for.
+   */
+  async diffVersions(id: string, eventId: string, againstId?: string): Promise<SchemaDiff> {
+    const schema = await this.findSchema(id, eventId);
+    const previous = await this.findPreviousVersion(schema);
+    const against = againstId ? await this.findSchema(againstId, eventId) : previous;
+    if (!against) {
+      throw new BadRequestException(`'${schema.name}' v${schema.version} has no previous version`);
+    }
+
+    const [from, to] = against.version <= schema.version ? [against, schema] : [schema, against];
+    const toPrevious = to.id === schema.id ? previous : await this.findPreviousVersion(to);
+    return diffSchemas(this.toSchemaVersion(from), this.toSchemaVersion(to), toPrevious?.id === from.id);
+  }
+
+  /**
+   * Declare how fields of the previous version map onto this one. Allowed
+   * after submissions exist — mappings only change how answers are read.
+   */
+  async updateFieldMappings(id: string, eventId: string, mappings: FieldMapping[]) {
+    const schema = await this.findSchema(id, eventId);
+    const previous = await this.findPreviousVersion(schema);
+    if (!previous) {
+      throw new BadRequestException(`'${schema.name}' v${schema.version} has no previous version to map from`);
+    }
+
+    const errors = validateFieldMappings(
+      this.toSchemaVersion(previous).fields,
+      this.toSchemaVersion(schema).fields,
+      mappings,
+    );
+    if (errors.length > 0) throw new BadRequestException(errors);
+
+    return this.prisma.formSchema.update({
+      where: { id },
+      data: { fieldMappings: mappings as any },
+    });
+  }
+
+  /**
+   * Unified columns per form name across all its versions, with a function
+   * lifting any version's answers onto them (exports, attendee detail).
+   */
+  async unifiedViews(eventId: string, names: string[]) {
+    const schemas = names.length
+      ? await this.prisma.formSchema.findMany({
+          where: { eventId, name: { in: [...new Set(names)] } },
+          select: { id: true, name: true, version: true, fields: true, fieldMappings: true },
+        })
+      : [];
+
+    const byName = new Map<string, SchemaVersion[]>();
+    for (const schema of schemas) {
+      byName.set(schema.name, [...(byName.get(schema.name) ?? []), this.toSchemaVersion(schema)]);
+    }
+    return new Map([...byName].map(([name, versions]) => [name, unifyVersions(versions)]));
+  }
+
+  /**
+   * Attach `unified` (latest-version columns + lifted answers) to each
+   * submission, keeping the raw `data` as submitted.
+   */
+  async unifySubmissions<T extends { data: unknown; formSchema: { name: string; version: number } }>(
+    eventId: string,
+    submissions: T[],
+  ): Promise<Array<T & { unified: { version: number; columns: UnifiedColumn[]; data: Record<string, unknown> } }>> {
+    const views = await this.unifiedViews(eventId, submissions.map((s) => s.formSchema.name));
+    return submissions.map((submission) => {
+      const view = views.get(submission.formSchema.name)!;
+      return {
+        ...submission,
+        unified: {
+          version: view.latest.version,
+          columns: view.columns,
+          data: view.toLatest(submission.formSchema.version, (submission.data ?? {}) as Record<string, unknown>),
+        },
+      };
+    });
+  }
+
+  private async findPreviousVersion(schema: { eventId: string; name: string; version: number }) {
+    return this.prisma.formSchema.findFirst({
+      where: { eventId: schema.eventId, name: schema.name, version: { lt: schema.version } },
+      orderBy: { version: 'desc' },
+    });
+  }
+
+  private toSchemaVersion(schema: {
+    id: string;
+    version: number;
+    fields: unknown;
+    fieldMappings?: unknown;
+  }): SchemaVersion {
+    return {
+      id: schema.id,
+      version: schema.version,
+      fields: (schema.fields as FormSchemaDefinition | null)?.fields ?? [],
+      mappings: Array.isArray(schema.fieldMappings) ? (schema.fieldMappings as unknown as FieldMapping[]) : [],
+    };
+  }
+
+  // ─── Add-ons ──────────────────────────────────────────────────
+
+  /**
+   * Priced options picked in a checkout form. Options are hydrated first so
+   * prices match what the visitor saw; fields hidden by their conditions
+   * contribute nothing.
+   */
+  async findSelectedAddOns(
+    eventId: string,
+    formSchemaId: string,
+    answers: Record<string, unknown>,
+    context?: ConditionContext,
+  ): Promise<SelectedAddOn[]> {
+    const schema = await this.prisma.formSchema.findFirst({
+      where: { id: formSchemaId, eventId },
+    });
+    if (!schema) return [];
+
+    await this.hydrateFieldOptions(schema);
+    const fields = (schema.fields as unknown as FormSchemaDefinition).fields ?? [];
+    return selectedAddOns(fields, answers, context);
+  }
+
   // ─── Image Upload (public registration flow) ──────────────────
 
   /** Allowed MIME types for image uploads. */
@@ -669,11 +842,17 @@ export class FormsService {
       }
       ids.add(field.id);
     }
+
+    const conditionErrors = [...validateConditions(fields), ...validateAddOnOptions(fields)];
+    if (conditionErrors.length > 0) {
+      throw new BadRequestException(conditionErrors);
+    }
   }
 
   /**
    * Validate submission data against schema fields.
-   * Checks required fields and basic type coercion.
+   * Collects every failing field (required, type, length, pattern) into a
+   * single 400 whose `errors` carry a code, params and localized messages.
    * Respects field conditions: if a field's conditions evaluate to false
    * (field is hidden), its required check is skipped and its value is stripped.
    */
@@ -747,8 +926,14 @@ export class FormsService {
   private validateSubmission(
     fields: FormField[],
     answers: Record<string, unknown>,
+    rulesByField: Map<string, FieldRules>,
+    context?: ConditionContext,
   ) {
+    const errors: FieldError[] = [];
+
     for (const field of fields) {
+      if (field.type === 'group' || field.type === 'separator') continue;
+
       // Core attendee fields are handled separately by the registration endpoint
       // and stripped from formData by the frontend — skip their validation here.
       if (FormsService.CORE_ATTENDEE_FIELDS.has(field.id)) continue;
@@ -764,10 +949,7 @@ export class FormsService {
 
       // Evaluate conditions — if field should be hidden, skip validation
       if (field.conditions && field.conditions.length > 0) {
-        const visible = evaluateConditions(
-          field.conditions as ConditionRule[],
-          answers,
-        );
+        const visible = evaluateConditions(field.conditions, answers, context);
         if (!visible) {
           // Field is conditionally hidden — strip any submitted value and skip
           delete answers[field.id];
@@ -777,93 +959,62 @@ export class FormsService {
 
       const value = answers[field.id];
 
-      // Check required fields
-      if (field.required && (value === undefined || value === null || value === '')) {
-        throw new BadRequestException(
-          `Required field '${field.id}' is missing`,
-        );
+      if (isMissing(field, value)) {
+        if (field.required) errors.push(localizeFieldError(field, { code: 'required' }));
+        continue;
       }
 
-      if (value === undefined || value === null) continue;
-
-      // Basic type validation
-      switch (field.type) {
-        case 'email':
-          if (typeof value !== 'string' || !value.includes('@')) {
-            throw new BadRequestException(
-              `Field '${field.id}' must be a valid email`,
-            );
-          }
-          break;
-        case 'number':
-          if (typeof value !== 'number' && isNaN(Number(value))) {
-            throw new BadRequestException(
-              `Field '${field.id}' must be a number`,
-            );
-          }
-          break;
-        case 'multi-select':
-          if (!Array.isArray(value)) {
-            throw new BadRequestException(
-              `Field '${field.id}' must be an array`,
-            );
-          }
-          break;
-        case 'consent':
-          if (typeof value !== 'object' || value === null) {
-            throw new BadRequestException(
-              `Consent field '${field.id}' must include granted and timestamp`,
-            );
-          }
-          break;
-        case 'richtext':
-          if (typeof value !== 'string') {
-            throw new BadRequestException(
-              `Field '${field.id}' must be a string`,
-            );
-          }
-          // Sanitize HTML — allow only safe formatting tags
-          answers[field.id] = sanitizeHtml(value, {
-            allowedTags: ['b', 'i', 'u', 'strong', 'em', 'a', 'ul', 'ol', 'li', 'p', 'br'],
-            allowedAttributes: { a: ['href'] },
-            allowedSchemes: ['https', 'http', 'mailto'],
-          });
-          break;
-        case 'image-upload':
-        case 'file':
-          // Accept URL string from prior upload, or empty string
-          if (typeof value !== 'string') {
-            throw new BadRequestException(
-              `Field '${field.id}' must be a URL string`,
-            );
-          }
-          // Only allow our own /uploads/ paths — prevent arbitrary URL injection
-          if (value !== '' && !value.startsWith('/uploads/')) {
-            throw new BadRequestException(
-              `Field '${field.id}' contains an invalid upload URL`,
-            );
-          }
-          break;
+      const issue = checkFieldValue(field, value, rulesByField.get(field.id));
+      if (issue) {
+        errors.push(localizeFieldError(field, issue));
+        continue;
       }
 
-      // String length validation
-      if (
-        typeof value === 'string' &&
-        field.validation
-      ) {
-        const v = field.validation;
-        if (v.minLength && value.length < (v.minLength as number)) {
-          throw new BadRequestException(
-            `Field '${field.id}' must be at least ${v.minLength} characters`,
-          );
-        }
-        if (v.maxLength && value.length > (v.maxLength as number)) {
-          throw new BadRequestException(
-            `Field '${field.id}' must be at most ${v.maxLength} characters`,
-          );
-        }
+      if (field.type === 'richtext') {
+        // Sanitize HTML — allow only safe formatting tags
+        answers[field.id] = sanitizeHtml(value as string, {
+          allowedTags: ['b', 'i', 'u', 'strong', 'em', 'a', 'ul', 'ol', 'li', 'p', 'br'],
+          allowedAttributes: { a: ['href'] },
+          allowedSchemes: ['https', 'http', 'mailto'],
+        });
       }
     }
+
+    if (errors.length > 0) {
+      throw new BadRequestException({
+        statusCode: 400,
+        error: 'Bad Request',
+        message: errors.map((e) => e.message.en).join(' '),
+        errors,
+      });
+    }
+  }
+
+  /**
+   * Validation rules per field: the schema field's own `validation`, layered
+   * over the `validationRules` of its FieldDefinition (e.g. a postcode pattern).
+   */
+  private async loadValidationRules(fields: FormField[]): Promise<Map<string, FieldRules>> {
+    const keys = new Set<string>();
+    for (const field of fields) this.addLookupKeys(field, keys);
+
+    const defs = keys.size
+      ? await this.prisma.fieldDefinition.findMany({
+          where: { slug: { in: [...keys] } },
+          select: { slug: true, validationRules: true },
+        })
+      : [];
+    const defsBySlug = new Map(defs.map((d) => [d.slug, d.validationRules as FieldRules | null]));
+
+    const rules = new Map<string, FieldRules>();
+    for (const field of fields) {
+      const merged = {
+        ...(this.resolveFieldDef(field, defsBySlug) ?? {}),
+        ...((field.validation as FieldRules | undefined) ?? {}),
+      };
+      if (Object.keys(merged).length > 0) rules.set(field.id, merged);
+    }
+    return rules;
   }
 }
 
@@ -78,6 +78,12 @@ export class GdprService {
       throw new NotFoundException(`Attendee ${attendeeId} not found`);
     }
 
+    // Unsubmitted registration draft (save-and-resume), if any
+    const drafts = await this.prisma.formDraft.findMany({
+      where: { eventId: attendee.eventId, kind: 'registration', key: attendee.id },
+      select: { data: true, updatedAt: true },
+    });
+
     // Log the access request
     this.audit.log({
       eventId: attendee.eventId,
@@ -109,6 +115,7 @@ export class GdprService {
         data: sub.data,
         submittedAt: sub.submittedAt,
       })),
+      formDrafts: drafts,
       checkIns: attendee.checkIns,
       exportedAt: new Date().toISOString(),
     };
@@ -125,7 +132,8 @@ export class GdprService {
    * 3. Void active tickets
    * 4. Anonymize order customer info
    * 5. Keep financial records (Swiss law: 10 years) but strip PII
-   * 6. Log the erasure in audit log
+   * 6. Delete unsubmitted registration drafts
+   * 7. Log the erasure in audit log
    *
    * Note: Does NOT delete the attendee row — we anonymize it to
    * preserve referential integrity with orders, tickets, and audit logs.
@@ -153,7 +161,7 @@ export class GdprService {
 
     // Prevent erasure of attendees with pending/active financial obligations
     const pendingOrders = attendee.orders.filter(
-      (o) => o.status === 'pending',
+      (o) => o.status === 'pending' || o.status === 'awaiting_payment',
     );
     if (pendingOrders.length > 0) {
       throw new ForbiddenException(
@@ -225,6 +233,11 @@ export class GdprService {
         });
       }
 
+      // 6. Delete unsubmitted registration drafts
+      const { count: draftsDeleted } = await tx.formDraft.deleteMany({
+        where: { eventId: attendee.eventId, kind: 'registration', key: attendeeId },
+      });
+
       return {
         attendeeId,
         erasedAt: new Date().toISOString(),
@@ -232,11 +245,12 @@ export class GdprService {
           formSubmissions: submissionIds.length,
           ticketsVoided: activeTicketIds.length,
           ordersAnonymized: orderIds.length,
+          draftsDeleted,
         },
       };
     });
 
-    // 5. Audit log
+    // 7. Audit log
     this.audit.log({
       eventId: attendee.eventId,
       userId: options.requestedBy,
@@ -27,6 +27,8 @@ export interface InvoiceLabels {
   paidOn: string;
   paymentStatus: string;
   paid: string;
+  /** Pay-by-invoice: "Payable by <date>" */
+  payableBy: string;
   currency: string;
   iban: string;
   /** QR-bill section header */
@@ -36,6 +38,15 @@ export interface InvoiceLabels {
   reference: string;
   /** Footer */
   generatedBy: string;
+  /** Credit note (refund) documents */
+  creditNote: string;
+  originalInvoice: string;
+  refundedOn: string;
+  refund: string;
+  refundAdjustment: string;
+  reason: string;
+  /** Add-on lines outside the standard VAT rate (priced form options) */
+  vatCategory: Record<'reduced' | 'accommodation' | 'exempt', string>;
 }
 
 const labels: Record<InvoiceLang, InvoiceLabels> = {
@@ -61,6 +72,7 @@ const labels: Record<InvoiceLang, InvoiceLabels> = {
     paidOn: 'Paid on',
     paymentStatus: 'Payment status',
     paid: 'Paid',
+    payableBy: 'Payable by',
     currency: 'Currency',
     iban: 'IBAN',
     paymentSection: 'Payment receipt',
@@ -68,6 +80,13 @@ const labels: Record<InvoiceLang, InvoiceLabels> = {
     debtor: 'Debtor',
     reference: 'Reference',
     generatedBy: 'Generated by SRAtix',
+    creditNote: 'Credit Note',
+    originalInvoice: 'Original invoice',
+    refundedOn: 'Refunded on',
+    refund: 'Refund',
+    refundAdjustment: 'Refund adjustment',
+    reason: 'Reason',
+    vatCategory: { reduced: 'VAT 2.6%', accommodation: 'VAT 3.8% (accommodation)', exempt: 'VAT-exempt' },
   },
   fr: {
     invoice: 'Facture',
@@ -91,6 +110,7 @@ const labels: Record<InvoiceLang, InvoiceLabels> = {
     paidOn: 'Payé le',
     paymentStatus: 'Statut du paiement',
     paid: 'Payé',
+    payableBy: "Payable jusqu'au",
     currency: 'Devise',
     iban: 'IBAN',
     paymentSection: 'Récépissé de paiement',
@@ -98,6 +118,13 @@ const labels: Record<InvoiceLang, InvoiceLabels> = {
     debtor: 'Débiteur',
     reference: 'Référence',
     generatedBy: 'Généré par SRAtix',
+    creditNote: 'Note de crédit',
+    originalInvoice: "Facture d'origine",
+    refundedOn: 'Remboursé le',
+    refund: 'Remboursement',
+    refundAdjustment: 'Ajustement du remboursement',
+    reason: 'Motif',
+    vatCategory: { reduced: 'TVA 2,6 %', accommodation: 'TVA 3,8 % (hébergement)', exempt: 'exonéré de TVA' },
   },
   de: {
     invoice: 'Rechnung',
@@ -121,6 +148,7 @@ const labels: Record<InvoiceLang, InvoiceLabels> = {
     paidOn: 'Bezahlt am',
     paymentStatus: 'Zahlungsstatus',
     paid: 'Bezahlt',
+    payableBy: 'Zahlbar bis',
     currency: 'Währung',
     iban: 'IBAN',
     paymentSection: 'Zahlungsbeleg',
@@ -128,6 +156,13 @@ const labels: Record<InvoiceLang, InvoiceLabels> = {
     debtor: 'Zahlungspflichtiger',
     reference: 'Referenz',
     generatedBy: 'Erstellt mit SRAtix',
+    creditNote: 'Gutschrift',
+    originalInvoice: 'Ursprüngliche Rechnung',
+    refundedOn: 'Erstattet am',
+    refund: 'Rückerstattung',
+    refundAdjustment: 'Erstattungsanpassung',
+    reason: 'Grund',
+    vatCategory: { reduced: 'MWST 2,6 %', accommodation: 'MWST 3,8 % (Beherbergung)', exempt: 'von der MWST ausgenommen' },
   },
   it: {
     invoice: 'Fattura',
@@ -151,6 +186,7 @@ const labels: Record<InvoiceLang, InvoiceLabels> = {
     paidOn: 'Pagato il',
     paymentStatus: 'Stato del pagamento',
     paid: 'Pagato',
+    payableBy: 'Pagabile entro il',
     currency: 'Valuta',
     iban: 'IBAN',
     paymentSection: 'Ricevuta di pagamento',
@@ -158,6 +194,13 @@ const labels: Record<InvoiceLang, InvoiceLabels> = {
     debtor: 'Debitore',
     reference: 'Riferimento',
     generatedBy: 'Generato da SRAtix',
+    creditNote: 'Nota di credito',
+    originalInvoice: 'Fattura originale',
+    refundedOn: 'Rimborsato il',
+    refund: 'Rimborso',
+    refundAdjustment: 'Rettifica del rimborso',
+    reason: 'Motivo',
+    vatCategory: { reduced: 'IVA 2,6%', accommodation: 'IVA 3,8% (alloggio)', exempt: 'esente IVA' },
   },
   'zh-TW': {
     invoice: '發票',
@@ -181,6 +224,7 @@ const labels: Record<InvoiceLang, InvoiceLabels> = {
     paidOn: '付款日期',
     paymentStatus: '付款狀態',
     paid: '已付款',
+    payableBy: '付款期限',
     currency: '貨幣',
     iban: 'IBAN',
     paymentSection: '付款收據',
@@ -188,6 +232,13 @@ const labels: Record<InvoiceLang, InvoiceLabels> = {
     debtor: '付款方',
     reference: '參考編號',
     generatedBy: '由 SRAtix 產生',
+    creditNote: '退款憑證',
+    originalInvoice: '原始發票',
+    refundedOn: '退款日期',
+    refund: '退款',
+    refundAdjustment: '退款調整',
+    reason: '原因',
+    vatCategory: { reduced: '增值稅 2.6%', accommodation: '增值稅 3.8%（住宿）', exempt: '免增值稅' },
   },
 };
 
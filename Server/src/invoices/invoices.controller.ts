@@ -109,6 +109,61 @@ export class InvoicesController {
       .send(Buffer.from(pdfBytes));
   }
 
+  /**
+   * GET /api/invoices/credit-notes/:refundId
+   * Generate and download the credit note PDF for a succeeded refund (admin).
+   */
+  @Get('credit-notes/:refundId')
+  @UseGuards(AuthGuard('jwt'), RolesGuard)
+  @Roles('event_admin', 'admin', 'super_admin', 'box_office')
+  async getCreditNote(
+    @Param('refundId') refundId: string,
+    @Res() reply: FastifyReply,
+  ) {
+    const { pdfBytes, fileName } =
+      await this.invoicesService.generateCreditNote(refundId);
+
+    reply
+      .header('Content-Type', 'application/pdf')
+      .header('Content-Disposition', `attachment; filename="${fileName}"`)
+      .header('Content-Length', pdfBytes.length)
+      .send(Buffer.from(pdfBytes));
+  }
+
+  /**
+   * GET /api/invoices/credit-notes/t/:token
+   * Public credit note download via unique token (no JWT required).
+   * Token is stored in orderRefund.creditNoteToken.
+   */
+  @Get('credit-notes/t/:token')
+  async getCreditNoteByToken(
+    @Param('token') token: string,
+    @Res() reply: FastifyReply,
+  ) {
+    if (!/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(token)) {
+      throw new NotFoundException('Invalid credit note link');
+    }
+
+    const refund = await this.prisma.orderRefund.findUnique({
+      where: { creditNoteToken: token },
+      select: { id: true, status: true },
+    });
+
+    if (!refund || refund.status !== 'succeeded') {
+      throw new NotFoundException('Credit note not found or link expired');
+    }
+
+    const { pdfBytes, fileName } =
+      await this.invoicesService.generateCreditNote(refund.id);
+
+    reply
+      .header('Content-Type', 'application/pdf')
+      .header('Content-Disposition', `inline; filename="${fileName}"`)
+      .header('Content-Length', pdfBytes.length)
+      .header('Cache-Control', 'private, max-age=3600')
+      .send(Buffer.from(pdfBytes));
+  }
+
   /**
    * GET /api/invoices/logistics/order/:orderId
    * Generate and download the invoice PDF for a paid logistics order (admin).
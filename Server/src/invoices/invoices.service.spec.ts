@@ -136,3 +136,91 @@ describe('InvoicesService invoice number stability', () => {
     expect(order.meta.invoiceNumber).toBe(first.invoiceNumber);
   });
 });
+
+describe('InvoicesService credit notes', () => {
+  function buildRefund(overrides: Record<string, any> = {}) {
+    return {
+      id: 'rf-1', status: 'succeeded', amountCents: 8000, currency: 'CHF',
+      reason: 'Cannot attend', creditNoteNumber: null, createdAt: new Date('2026-07-01T00:00:00Z'),
+      lines: [{
+        ticketTypeId: 'tt-a', ticketTypeName: 'Day Pass', quantity: 1,
+        unitPriceCents: 10000, tickets: [{ id: 'tk-1', code: 'A1' }],
+      }],
+      order: {
+        id: 'order-1', orderNumber: 'SRD-2026-0001', currency: 'CHF',
+        billingAddress: null, customerName: 'Jane Buyer', customerEmail: 'jane@example.com',
+        meta: { invoiceNumber: 'SRD-26-0007', discountLabel: 'EARLY20' }, attendee: null,
+        event: {
+          name: 'Swiss Robotics Day 2026', startDate: new Date('2026-11-01T00:00:00Z'),
+          venue: null, venueAddress: null, currency: 'CHF', meta: {},
+        },
+      },
+      ...overrides,
+    };
+  }
+
+  it('numbers credit notes from their own counter, references the invoice and keeps the number stable', async () => {
+    const refund: any = buildRefund();
+    const prisma: any = {
+      setting: {
+        findFirst: jest.fn(async ({ where }: any) =>
+          where.key === 'credit_note_counter' ? { id: 's2', value: { count: 4 } } : null,
+        ),
+        update: jest.fn(),
+        create: jest.fn(),
+      },
+      orderRefund: {
+        findUnique: jest.fn(async () => refund),
+        update: jest.fn(async ({ data }: any) => Object.assign(refund, data)),
+      },
+      order: { update: jest.fn() },
+    };
+    const service = new InvoicesService(prisma, { get: jest.fn() } as any);
+    const render = jest.spyOn(service as any, 'renderInvoicePdf');
+
+    const first = await service.generateCreditNote('rf-1');
+    const second = await service.generateCreditNote('rf-1');
+
+    const year = String(new Date().getFullYear()).slice(-2);
+    expect(first.creditNoteNumber).toBe(`SRD-CN-${year}-0005`);
+    expect(second.creditNoteNumber).toBe(first.creditNoteNumber);
+    expect(first.invoiceNumber).toBe('SRD-26-0007');
+    expect(prisma.setting.findFirst).toHaveBeenCalledTimes(1);
+    expect(prisma.order.update).not.toHaveBeenCalled();
+
+    const model: any = render.mock.calls[0][0];
+    expect(model.documentType).toBe('creditNote');
+    expect(model.refLines[0]).toBe('Original invoice: SRD-26-0007');
+    // 100.00 list − 20.00 order discount = 80.00 refunded
+    expect(model.subtotalCents).toBe(10000);
+    expect(model.discountCents).toBe(2000);
+    expect(model.totalCents).toBe(8000);
+  });
+
+  it('uses a single refund line when the refund carries no ticket lines', async () => {
+    const refund: any = buildRefund({ lines: [], creditNoteNumber: 'SRD-CN-26-0001', reason: null });
+    const prisma: any = {
+      orderRefund: { findUnique: jest.fn(async () => refund) },
+    };
+    const service = new InvoicesService(prisma, { get: jest.fn() } as any);
+    const render = jest.spyOn(service as any, 'renderInvoicePdf');
+
+    const result = await service.generateCreditNote('rf-1');
+
+    expect(result.fileName).toBe('SRD-CN-26-0001_SRD-2026-0001.pdf');
+    const model: any = render.mock.calls[0][0];
+    expect(model.lineItems).toEqual([
+      { desc: 'Refund — Order SRD-2026-0001', qty: 1, unitCents: 8000, totalCents: 8000 },
+    ]);
+    expect(model.discountCents).toBe(0);
+  });
+
+  it('rejects refunds that have not succeeded', async () => {
+    const prisma: any = {
+      orderRefund: { findUnique: jest.fn(async () => buildRefund({ status: 'failed' })) },
+    };
+    const service = new InvoicesService(prisma, { get: jest.fn() } as any);
+
+    await expect(service.generateCreditNote('rf-1')).rejects.toThrow('has not succeeded');
+  });
+});
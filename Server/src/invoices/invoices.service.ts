@@ -2,8 +2,11 @@ import { Injectable, Logger, NotFoundException } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { ConfigService } from '@nestjs/config';
 import { getInvoiceLabels } from './invoice-i18n';
-import { buildSpcPayload, QrBillData } from './qr-bill';
+import { buildSpcPayload, formatReference, isValidQrrReference, QrBillData } from './qr-bill';
 import { EVENT_TIME_ZONE } from '../common/event-date.util';
+import { parseLocale } from '../common/i18n';
+import { addOnText, orderItemAddOn } from '../forms/form-add-ons';
+import { randomBytes } from 'crypto';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -17,6 +20,11 @@ interface InvoiceLineItem {
 
 /** Normalized, source-agnostic invoice data handed to the PDF renderer. */
 interface InvoiceRenderModel {
+  /**
+   * 'creditNote' swaps the title, prints `paidAt` as the refund date and
+   * leaves out the QR-bill section. Defaults to 'invoice'.
+   */
+  documentType?: 'invoice' | 'creditNote';
   invoiceNumber: string;
   lang: string;
   currency: string;
@@ -56,6 +64,11 @@ interface InvoiceRenderModel {
   /** Swiss QR-bill reference + message (used only when issuer.iban is set). */
   qrReference: string;
   qrMessage: string;
+  /**
+   * Set for unpaid pay-by-invoice orders: `qrReference` is then a structured
+   * QRR/SCOR reference and the QR-bill is payable by `dueAt`.
+   */
+  payable?: { referenceType: 'QRR' | 'SCOR'; dueAt: Date | null };
 }
 
 /**
@@ -66,13 +79,17 @@ interface InvoiceRenderModel {
  * - Issuer details from event.meta.issuerDetails
  * - Bill-to from order.billingAddress
  * - Discount line from order.meta.discountCents
- * - Per-ticket line items with attendee names
+ * - Per-ticket line items with attendee names, grouped by cart line
+ * - Add-on lines (priced form options) with their VAT category
  * - SRD event logo + SRAtix footer branding
- * - Swiss QR-bill section (informational — payments are via Stripe)
+ * - Swiss QR-bill section (informational for card payments; payable with a
+ *   structured reference for pay-by-invoice orders awaiting payment)
  *
- * Two entry points share one renderer (`renderInvoicePdf`):
+ * Three entry points share one renderer (`renderInvoicePdf`):
  *   - `generateInvoice`          — ticket/booth orders (Order model)
  *   - `generateLogisticsInvoice` — exhibitor logistics orders (LogisticsOrder model)
+ *   - `generateCreditNote`       — credit note (Gutschrift) per OrderRefund,
+ *                                  referencing the order's invoice number
  */
 @Injectable()
 export class InvoicesService {
@@ -134,10 +151,18 @@ export class InvoicesService {
     }
   }
 
-  private async generateInvoiceNumber(): Promise<string> {
+  /**
+   * Next number from a global counter setting. Invoices and credit notes
+   * each have their own counter (`invoice_counter` → SRD-26-0001,
+   * `credit_note_counter` → SRD-CN-26-0001).
+   */
+  private async generateInvoiceNumber(
+    counterKey = 'invoice_counter',
+    prefix = 'SRD',
+  ): Promise<string> {
     const year = new Date().getFullYear();
     const setting = await this.prisma.setting.findFirst({
-      where: { scope: 'global', key: 'invoice_counter' },
+      where: { scope: 'global', key: counterKey },
     });
 
     const currentCount = setting
@@ -152,12 +177,12 @@ export class InvoicesService {
       });
     } else {
       await this.prisma.setting.create({
-        data: { scope: 'global', key: 'invoice_counter', value: { count: newCount } },
+        data: { scope: 'global', key: counterKey, value: { count: newCount } },
       });
     }
 
     const shortYear = String(year).slice(-2);
-    return `SRD-${shortYear}-${String(newCount).padStart(4, '0')}`;
+    return `${prefix}-${shortYear}-${String(newCount).padStart(4, '0')}`;
   }
 
   /**
@@ -189,7 +214,7 @@ export class InvoicesService {
    * hardcoded SRA issuer. Admin UI saves: name, email, vatNumber, uid, street,
    * city, postalCode, country, iban, bic, bankName.
    */
-  private resolveIssuer(eventMeta: Record<string, any>): InvoiceRenderModel['issuer'] {
+  resolveIssuer(eventMeta: Record<string, any>): InvoiceRenderModel['issuer'] {
     const raw = (eventMeta.issuerDetails as Record<string, string> | undefined) ?? {};
     return {
       ...this.fallbackIssuer,
@@ -207,6 +232,27 @@ export class InvoicesService {
     };
   }
 
+  /** Bill-to for a ticket order: prefer order.billingAddress, fall back to attendee data. */
+  private resolveOrderBillTo(order: {
+    billingAddress: unknown;
+    customerName: string | null;
+    customerEmail: string | null;
+    attendee: { firstName: string; lastName: string; email: string; company: string | null } | null;
+  }): InvoiceRenderModel['billTo'] {
+    const billing = order.billingAddress as Record<string, any> | null;
+    return {
+      name: billing?.name || order.customerName ||
+        (order.attendee ? `${order.attendee.firstName} ${order.attendee.lastName}` : 'Customer'),
+      email: billing?.email || order.customerEmail || order.attendee?.email || '',
+      street: billing?.street || '',
+      city: billing?.city || '',
+      postalCode: billing?.postalCode || '',
+      country: billing?.country || '',
+      companyName: billing?.companyName || order.attendee?.company || '',
+      vatNumber: billing?.vatNumber || '',
+    };
+  }
+
   private dateLocale(lang: string): string {
     return lang === 'de' ? 'de-CH' : lang === 'fr' ? 'fr-CH' : lang === 'it' ? 'it-CH' : 'en-CH';
   }
@@ -225,8 +271,8 @@ export class InvoicesService {
           include: { ticketType: { select: { name: true, description: true, priceCents: true } } },
         },
         tickets: {
+          orderBy: { createdAt: 'asc' },
           include: {
-            ticketType: { select: { name: true, description: true } },
             attendee: { select: { firstName: true, lastName: true } },
           },
         },
@@ -244,7 +290,10 @@ export class InvoicesService {
     });
 
     if (!order) throw new NotFoundException(`Order ${orderId} not found`);
-    if (order.status !== 'paid') {
+    // A (partial) refund doesn't void the original invoice — it stays
+    // downloadable as the document refunds are booked against. Pay-by-invoice
+    // orders get theirs (with a payable QR-bill) before the money arrives.
+    if (!['awaiting_payment', 'paid', 'partially_refunded', 'refunded'].includes(order.status)) {
       throw new NotFoundException(`Order ${orderId} is not paid — cannot generate invoice`);
     }
 
@@ -256,20 +305,7 @@ export class InvoicesService {
     const dateLocale = this.dateLocale(lang);
 
     const issuer = this.resolveIssuer(eventMeta);
-
-    // Bill-to: prefer order.billingAddress, fall back to attendee data
-    const billing = order.billingAddress as Record<string, any> | null;
-    const billTo = {
-      name: billing?.name || order.customerName ||
-        (order.attendee ? `${order.attendee.firstName} ${order.attendee.lastName}` : 'Customer'),
-      email: billing?.email || order.customerEmail || order.attendee?.email || '',
-      street: billing?.street || '',
-      city: billing?.city || '',
-      postalCode: billing?.postalCode || '',
-      country: billing?.country || '',
-      companyName: billing?.companyName || order.attendee?.company || '',
-      vatNumber: billing?.vatNumber || '',
-    };
+    const billTo = this.resolveOrderBillTo(order);
 
     const discountCents = orderMeta.discountCents || 0;
     const discountLabel = orderMeta.discountLabel || '';
@@ -291,31 +327,48 @@ export class InvoicesService {
     ];
 
     // ─── Build per-ticket line items ────────────────────────
-    // Group tickets by ticketType, listing each attendee separately
+    // One block per order item (cart line). Issued tickets are listed
+    // individually with their attendee; a line without issued tickets falls
+    // back to a single aggregated row.
     const lineItems: InvoiceLineItem[] = [];
 
-    if (order.tickets.length > 0) {
-      // We have individual tickets with attendee info — list each separately
-      for (const ticket of order.tickets) {
-        const typeName = ticket.ticketType?.name ?? 'Ticket';
-        const typeDescription = this.cleanInvoiceDescription(ticket.ticketType?.description);
-        const attendeeName = ticket.attendee
-          ? `${ticket.attendee.firstName} ${ticket.attendee.lastName}`.trim()
-          : '';
-        const descBase = attendeeName ? `${typeName} — ${attendeeName}` : typeName;
-        const desc = typeDescription ? `${descBase} — ${typeDescription}` : descBase;
-
-        // Find matching order item for pricing
-        const matchingItem = order.items.find(i => i.ticketTypeId === ticket.ticketTypeId);
-        const unitCents = matchingItem?.unitPriceCents ?? 0;
-
-        lineItems.push({ desc, qty: 1, unitCents, totalCents: unitCents });
+    for (const item of order.items) {
+      // Add-on (priced form option): one row, with its VAT category if not standard
+      const addOn = orderItemAddOn(item.meta);
+      if (addOn) {
+        const locale = parseLocale(lang);
+        const name = [addOnText(addOn.optionLabel, locale), addOnText(addOn.fieldLabel, locale)]
+          .filter(Boolean)
+          .join(' — ');
+        const vat = addOn.vatCategory !== 'standard' ? L.vatCategory[addOn.vatCategory] : '';
+        lineItems.push({
+          desc: vat ? `${name} (${vat})` : name,
+          qty: item.quantity,
+          unitCents: item.unitPriceCents,
+          totalCents: item.subtotalCents,
+        });
+        continue;
       }
-    } else {
-      // Fallback: use order items (no per-ticket breakdown)
-      for (const item of order.items) {
-        const typeName = item.ticketType?.name ?? `Ticket (${item.ticketTypeId.substring(0, 8)})`;
-        const typeDescription = this.cleanInvoiceDescription(item.ticketType?.description);
+
+      const itemMeta = (item.meta as Record<string, any>) ?? {};
+      const baseName = item.ticketType?.name ?? `Ticket (${item.ticketTypeId!.substring(0, 8)})`;
+      // Pricing variant (e.g. Early Bird) that set this line's unit price
+      const typeName = itemMeta.pricingVariantLabel
+        ? `${baseName} (${itemMeta.pricingVariantLabel})`
+        : baseName;
+      const typeDescription = this.cleanInvoiceDescription(item.ticketType?.description);
+      const itemTickets = order.tickets.filter((t) => t.ticketTypeId === item.ticketTypeId);
+
+      if (itemTickets.length > 0) {
+        for (const ticket of itemTickets) {
+          const attendeeName = ticket.attendee
+            ? `${ticket.attendee.firstName} ${ticket.attendee.lastName}`.trim()
+            : '';
+          const descBase = attendeeName ? `${typeName} — ${attendeeName}` : typeName;
+          const desc = typeDescription ? `${descBase} — ${typeDescription}` : descBase;
+          lineItems.push({ desc, qty: 1, unitCents: item.unitPriceCents, totalCents: item.unitPriceCents });
+        }
+      } else {
         const desc = typeDescription ? `${typeName} — ${typeDescription}` : typeName;
         lineItems.push({
           desc, qty: item.quantity,
@@ -341,8 +394,16 @@ export class InvoicesService {
       totalCents: order.totalCents,
       paidAt: order.paidAt,
       footerText: this.footerText,
-      qrReference: order.orderNumber,
+      qrReference: order.paymentReference ?? order.orderNumber,
       qrMessage: `${order.orderNumber} — ${order.event.name}`,
+      ...(order.status === 'awaiting_payment' && order.paymentReference
+        ? {
+            payable: {
+              referenceType: isValidQrrReference(order.paymentReference) ? 'QRR' : 'SCOR',
+              dueAt: order.paymentDueAt,
+            },
+          }
+        : {}),
     });
 
     const fileName = `${invoiceNumber}_${order.orderNumber}.pdf`;
@@ -456,12 +517,191 @@ export class InvoicesService {
     return { pdfBytes, invoiceNumber, fileName };
   }
 
+  // ── Credit notes (refunds) ───────────────────────────────────────────
+
+  /**
+   * Return the public download token for a refund's credit note, creating
+   * it on first use (stored on OrderRefund.creditNoteToken).
+   */
+  async ensureCreditNoteToken(refundId: string): Promise<string> {
+    const refund = await this.prisma.orderRefund.findUnique({
+      where: { id: refundId },
+      select: { creditNoteToken: true },
+    });
+    if (!refund) throw new NotFoundException(`Refund ${refundId} not found`);
+    if (refund.creditNoteToken) return refund.creditNoteToken;
+
+    const hex = randomBytes(16).toString('hex');
+    const token = [
+      hex.slice(0, 8),
+      hex.slice(8, 12),
+      '4' + hex.slice(13, 16),
+      ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16) + hex.slice(17, 20),
+      hex.slice(20, 32),
+    ].join('-');
+    await this.prisma.orderRefund.update({
+      where: { id: refundId },
+      data: { creditNoteToken: token },
+    });
+    return token;
+  }
+
+  /**
+   * Generate the credit note (Gutschrift) PDF for a succeeded refund.
+   *
+   * Numbered from its own sequence and persisted on the refund row, so — like
+   * invoices — every render of the same refund carries the same number. The
+   * original invoice number is resolved (and assigned if the invoice was
+   * never rendered) so the credit note can always reference it.
+   *
+   * Lines come from OrderRefund.lines at list price; the gap to the refunded
+   * amount shows as the order's discount (pro-rata refunds) or as an
+   * adjustment line (amount overrides above list price). Refunds without
+   * lines (free amount, Stripe dashboard) get a single line.
+   */
+  async generateCreditNote(refundId: string): Promise<{
+    pdfBytes: Uint8Array;
+    creditNoteNumber: string;
+    invoiceNumber: string;
+    fileName: string;
+  }> {
+    const refund = await this.prisma.orderRefund.findUnique({
+      where: { id: refundId },
+      include: {
+        order: {
+          include: {
+            event: {
+              select: {
+                name: true, startDate: true, venue: true, venueAddress: true,
+                currency: true, meta: true,
+              },
+            },
+            attendee: {
+              select: { firstName: true, lastName: true, email: true, company: true },
+            },
+          },
+        },
+      },
+    });
+
+    if (!refund) throw new NotFoundException(`Refund ${refundId} not found`);
+    if (refund.status !== 'succeeded') {
+      throw new NotFoundException(`Refund ${refundId} has not succeeded — cannot generate credit note`);
+    }
+
+    const { order } = refund;
+    const orderMeta = (order.meta as Record<string, any>) ?? {};
+    const eventMeta = (order.event.meta as Record<string, any>) ?? {};
+    const lang = orderMeta.invoiceLanguage || 'en';
+    const L = getInvoiceLabels(lang);
+    const dateLocale = this.dateLocale(lang);
+    const currency = refund.currency || order.currency || order.event.currency || 'CHF';
+
+    const invoiceNumber = await this.resolveInvoiceNumber(orderMeta, async (num) => {
+      await this.prisma.order.update({
+        where: { id: order.id },
+        data: { meta: { ...orderMeta, invoiceNumber: num } },
+      });
+    });
+
+    let creditNoteNumber = refund.creditNoteNumber;
+    if (!creditNoteNumber) {
+      creditNoteNumber = await this.generateInvoiceNumber('credit_note_counter', 'SRD-CN');
+      await this.prisma.orderRefund.update({
+        where: { id: refund.id },
+        data: { creditNoteNumber },
+      });
+    }
+
+    const venueStr = [order.event.venue, order.event.venueAddress].filter(Boolean).join(', ');
+    const refLines = [
+      `${L.originalInvoice}: ${invoiceNumber}`,
+      `${L.order}: ${order.orderNumber}`,
+      `${L.event}: ${order.event.name}`,
+      `${L.eventDate}: ${order.event.startDate.toLocaleDateString(dateLocale, { timeZone: EVENT_TIME_ZONE })}`,
+      ...(venueStr ? [`${L.venue}: ${venueStr}`] : []),
+      ...(refund.reason ? [`${L.reason}: ${refund.reason}`] : []),
+    ];
+
+    const refundLines = Array.isArray(refund.lines)
+      ? (refund.lines as Array<{
+          ticketTypeName: string;
+          unitPriceCents: number;
+          quantity: number;
+          tickets?: Array<{ code: string }>;
+        }>)
+      : [];
+
+    const lineItems: InvoiceLineItem[] = [];
+    for (const line of refundLines) {
+      const tickets = line.tickets ?? [];
+      if (tickets.length > 0) {
+        for (const ticket of tickets) {
+          lineItems.push({
+            desc: `${line.ticketTypeName} — ${ticket.code}`,
+            qty: 1,
+            unitCents: line.unitPriceCents,
+            totalCents: line.unitPriceCents,
+          });
+        }
+      } else {
+        lineItems.push({
+          desc: line.ticketTypeName,
+          qty: line.quantity,
+          unitCents: line.unitPriceCents,
+          totalCents: line.unitPriceCents * line.quantity,
+        });
+      }
+    }
+
+    const listCents = lineItems.reduce((sum, li) => sum + li.totalCents, 0);
+    if (lineItems.length === 0) {
+      lineItems.push({
+        desc: `${L.refund} — ${L.order} ${order.orderNumber}`,
+        qty: 1,
+        unitCents: refund.amountCents,
+        totalCents: refund.amountCents,
+      });
+    } else if (refund.amountCents > listCents) {
+      const adjustment = refund.amountCents - listCents;
+      lineItems.push({ desc: L.refundAdjustment, qty: 1, unitCents: adjustment, totalCents: adjustment });
+    }
+    const subtotalCents = Math.max(listCents, refund.amountCents);
+
+    const pdfBytes = await this.renderInvoicePdf({
+      documentType: 'creditNote',
+      invoiceNumber: creditNoteNumber,
+      lang,
+      currency,
+      issuer: this.resolveIssuer(eventMeta),
+      billTo: this.resolveOrderBillTo(order),
+      refLines,
+      lineItems,
+      subtotalCents,
+      discountCents: subtotalCents - refund.amountCents,
+      discountLabel: orderMeta.discountLabel || '',
+      totalCents: refund.amountCents,
+      paidAt: refund.createdAt,
+      footerText: this.footerText,
+      qrReference: order.orderNumber,
+      qrMessage: `${order.orderNumber} — ${order.event.name}`,
+    });
+
+    const fileName = `${creditNoteNumber}_${order.orderNumber}.pdf`;
+    this.logger.log(
+      `Credit note ${creditNoteNumber} (invoice ${invoiceNumber}) generated for order ${order.orderNumber} [lang=${lang}] (${pdfBytes.length} bytes)`,
+    );
+
+    return { pdfBytes, creditNoteNumber, invoiceNumber, fileName };
+  }
+
   // ── Shared PDF renderer ──────────────────────────────────────────────
 
   private async renderInvoicePdf(model: InvoiceRenderModel): Promise<Uint8Array> {
     const L = getInvoiceLabels(model.lang);
     const dateLocale = this.dateLocale(model.lang);
     const { issuer, billTo, currency } = model;
+    const isCreditNote = model.documentType === 'creditNote';
 
     const { PDFDocument, StandardFonts, rgb } = await import('pdf-lib');
 
@@ -518,7 +758,7 @@ export class InvoicesService {
     }
 
     // ─── Right side: INVOICE title, number, date ────────────
-    const invoiceTitle = L.invoice.toUpperCase();
+    const invoiceTitle = (isCreditNote ? L.creditNote : L.invoice).toUpperCase();
     page.drawText(invoiceTitle, {
       x: rightMargin - helveticaBold.widthOfTextAtSize(invoiceTitle, 18),
       y, size: 18, font: helveticaBold, color: accent,
@@ -678,7 +918,8 @@ export class InvoicesService {
 
     // Discount (if any)
     if (model.discountCents > 0) {
-      const discountValue = '−' + this.formatCurrency(model.discountCents, currency);
+      // ASCII minus: the standard Helvetica font is WinAnsi-encoded (no U+2212)
+      const discountValue = '-' + this.formatCurrency(model.discountCents, currency);
       const discountText = model.discountLabel ? `${L.discount} (${model.discountLabel}):` : `${L.discount}:`;
       page.drawText(discountText, { x: colUnit, y, size: 10, font: helvetica, color: gray });
       page.drawText(discountValue, {
@@ -697,16 +938,19 @@ export class InvoicesService {
     });
     y -= 18;
 
-    // Payment status
+    // Payment status (refund date on credit notes, due date when unpaid)
     y -= 5;
-    const paidText = model.paidAt
-      ? `${L.paidOn} ${model.paidAt.toLocaleDateString(dateLocale)}`
-      : `${L.paymentStatus}: ${L.paid}`;
+    const paidText = model.payable
+      ? `${L.payableBy} ${model.payable.dueAt?.toLocaleDateString(dateLocale) ?? '—'}`
+      : model.paidAt
+        ? `${isCreditNote ? L.refundedOn : L.paidOn} ${model.paidAt.toLocaleDateString(dateLocale)}`
+        : `${L.paymentStatus}: ${L.paid}`;
     page.drawText(paidText, { x: colUnit, y, size: 9, font: helvetica, color: gray });
 
     // ─── QR-bill section (if IBAN configured) ───────────────
+    // Nothing is payable on a credit note, so it never gets a QR-bill.
     const issuerIban = issuer.iban;
-    if (issuerIban) {
+    if (issuerIban && !isCreditNote) {
       y -= 30;
       page.drawLine({ start: { x: leftMargin, y }, end: { x: rightMargin, y }, thickness: 0.5, color: lightGray });
       y -= 18;
@@ -728,6 +972,9 @@ export class InvoicesService {
         debtorCity: billTo.city,
         debtorPostal: billTo.postalCode,
         debtorCountry: this.resolveCountryCode(billTo.country),
+        ...(model.payable
+          ? { reference: { type: model.payable.referenceType, value: model.qrReference } }
+          : {}),
         message: model.qrMessage,
       };
 
@@ -762,11 +1009,16 @@ export class InvoicesService {
         drawQrLine(L.currency + ':', currency);
         drawQrLine(L.total + ':', grandTotal);
         if (billTo.name) drawQrLine(L.debtor + ':', billTo.name);
-        drawQrLine(L.reference + ':', model.qrReference);
+        drawQrLine(
+          L.reference + ':',
+          model.payable ? formatReference(model.qrReference) : model.qrReference,
+        );
         qrTextY -= 5;
-        page.drawText(`✓ ${L.paid}`, {
-          x: qrTextX, y: qrTextY, size: 10, font: helveticaBold, color: rgb(0.2, 0.7, 0.2),
-        });
+        if (!model.payable) {
+          page.drawText(`✓ ${L.paid}`, {
+            x: qrTextX, y: qrTextY, size: 10, font: helveticaBold, color: rgb(0.2, 0.7, 0.2),
+          });
+        }
 
         y = Math.min(y - qrSize - 10, qrTextY - 20);
       } catch (err) {
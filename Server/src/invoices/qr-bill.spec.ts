@@ -0,0 +1,39 @@
+import {
+  buildQrrReference,
+  buildScorReference,
+  formatReference,
+  isQrIban,
+  isValidQrrReference,
+  isValidScorReference,
+} from './qr-bill';
+
+/**
+ * Creditor references are what bank statements are matched on, so the
+ * check digits must agree with what banking apps compute. Vectors are taken
+ * from the SIX QR-bill and ISO 11649 examples.
+ */
+describe('QR-bill creditor references', () => {
+  it('builds and validates QRR references (recursive mod 10)', () => {
+    expect(buildQrrReference('21000000000313947143000901')).toBe('210000000003139471430009017');
+    expect(buildQrrReference('1')).toBe('000000000000000000000000011');
+    expect(isValidQrrReference('21 00000 00003 13947 14300 09017')).toBe(true);
+    expect(isValidQrrReference('210000000003139471430009018')).toBe(false);
+  });
+
+  it('builds and validates SCOR references (ISO 11649)', () => {
+    expect(buildScorReference('539007547034')).toBe('RF18539007547034');
+    expect(buildScorReference('TIX-2026-0001')).toMatch(/^RF\d{2}TIX20260001$/);
+    expect(isValidScorReference('RF18 5390 0754 7034')).toBe(true);
+    expect(isValidScorReference('RF19539007547034')).toBe(false);
+  });
+
+  it('tells QR-IBANs from regular IBANs', () => {
+    expect(isQrIban('CH44 3199 9123 0008 8901 2')).toBe(true);
+    expect(isQrIban('CH93 0076 2011 6238 5295 7')).toBe(false);
+  });
+
+  it('groups references for print', () => {
+    expect(formatReference('210000000003139471430009017')).toBe('21 00000 00003 13947 14300 09017');
+    expect(formatReference('RF18539007547034')).toBe('RF18 5390 0754 7034');
+  });
+});
@@ -4,8 +4,11 @@
  * Generates the SPC (Swiss Payment Code) payload per SIX specification v2.2.
  * Used to encode structured payment data in the QR code on Swiss invoices.
  *
- * Since SRAtix payments are already processed via Stripe, the QR-bill
- * serves as an informational payment receipt (no actual bank transfer expected).
+ * For card payments the QR-bill is informational only. Pay-by-invoice orders
+ * carry a structured creditor reference — QRR (27 digits, requires a
+ * QR-IBAN) or SCOR (ISO 11649 "RF…", any IBAN) — which the buyer's bank
+ * echoes back in the camt.054/053 statement, so payments can be matched to
+ * orders automatically.
  */
 
 export interface QrBillData {
@@ -26,6 +29,8 @@ export interface QrBillData {
   debtorCity?: string;
   debtorPostal?: string;
   debtorCountry?: string; // 2-letter ISO
+  /** Structured creditor reference (pay-by-invoice orders) */
+  reference?: { type: 'QRR' | 'SCOR'; value: string };
   /** Unstructured reference message */
   message?: string;
 }
@@ -65,8 +70,8 @@ export function buildSpcPayload(data: QrBillData): string {
     truncate(data.debtorPostal || '', 16),
     truncate(data.debtorCity || '', 35),
     data.debtorCountry ? data.debtorCountry.toUpperCase().substring(0, 2) : '',
-    'NON',                              // Reference type (NON = no reference)
-    '',                                 // Reference
+    data.reference?.type ?? 'NON',      // Reference type (QRR | SCOR | NON)
+    data.reference ? normalizeReference(data.reference.value) : '',
     truncate(data.message || '', 140),  // Unstructured message
     'EPD',                              // Trailer
   ];
@@ -81,3 +86,79 @@ function formatIban(iban: string): string {
 function truncate(str: string, max: number): string {
   return str.length > max ? str.substring(0, max) : str;
 }
+
+// ─── Creditor references ──────────────────────────────────────────────────
+
+/** Recursive modulo-10 table used by QRR (ex-ESR) check digits. */
+const MOD10_TABLE = [0, 9, 4, 6, 8, 2, 7, 1, 3, 5];
+
+/** Strip whitespace and uppercase — banks print references in groups. */
+export function normalizeReference(reference: string): string {
+  return reference.replace(/\s/g, '').toUpperCase();
+}
+
+/**
+ * A QR-IBAN has an institution ID (positions 5–9) in the 30000–31999 range.
+ * QRR references may only be used with a QR-IBAN, SCOR only with a normal one.
+ */
+export function isQrIban(iban: string): boolean {
+  const normalized = formatIban(iban);
+  if (!/^(CH|LI)\d{19}$/.test(normalized)) return false;
+  const iid = parseInt(normalized.substring(4, 9), 10);
+  return iid >= 30000 && iid <= 31999;
+}
+
+function mod10CheckDigit(digits: string): number {
+  let carry = 0;
+  for (const d of digits) carry = MOD10_TABLE[(carry + parseInt(d, 10)) % 10];
+  return (10 - carry) % 10;
+}
+
+/** Build a 27-digit QRR reference from up to 26 digits (left-padded with zeros). */
+export function buildQrrReference(digits: string): string {
+  if (!/^\d{1,26}$/.test(digits)) {
+    throw new Error('QRR reference body must be 1–26 digits');
+  }
+  const body = digits.padStart(26, '0');
+  return body + mod10CheckDigit(body);
+}
+
+export function isValidQrrReference(reference: string): boolean {
+  const ref = normalizeReference(reference);
+  return /^\d{27}$/.test(ref) && mod10CheckDigit(ref.slice(0, 26)) === parseInt(ref[26], 10);
+}
+
+/** ISO 7064 MOD 97-10 over an alphanumeric string (A=10 … Z=35). */
+function mod97(value: string): number {
+  let remainder = 0;
+  for (const ch of value) {
+    const code = /\d/.test(ch) ? ch : String(ch.charCodeAt(0) - 55);
+    for (const d of code) remainder = (remainder * 10 + parseInt(d, 10)) % 97;
+  }
+  return remainder;
+}
+
+/** Build an ISO 11649 creditor reference ("RF" + 2 check digits + up to 21 chars). */
+export function buildScorReference(base: string): string {
+  const body = normalizeReference(base).replace(/[^A-Z0-9]/g, '');
+  if (body.length === 0 || body.length > 21) {
+    throw new Error('SCOR reference body must be 1–21 alphanumeric characters');
+  }
+  const check = 98 - mod97(body + 'RF00');
+  return `RF${String(check).padStart(2, '0')}${body}`;
+}
+
+export function isValidScorReference(reference: string): boolean {
+  const ref = normalizeReference(reference);
+  if (!/^RF\d{2}[A-Z0-9]{1,21}$/.test(ref)) return false;
+  return mod97(ref.slice(4) + ref.slice(0, 4)) === 1;
+}
+
+/** Group a reference for print: QRR as 2+5×5 digits, SCOR in blocks of 4. */
+export function formatReference(reference: string): string {
+  const ref = normalizeReference(reference);
+  if (/^\d{27}$/.test(ref)) {
+    return [ref.slice(0, 2), ...(ref.slice(2).match(/.{5}/g) ?? [])].join(' ');
+  }
+  return (ref.match(/.{1,4}/g) ?? []).join(' ');
+}
@@ -30,7 +30,7 @@ async function bootstrap() {
         ignoreTrailingSlash: true,  // Infomaniak proxy appends trailing slashes
       }),
       {
-        rawBody: true, // Required for Stripe webhook signature verification
+        rawBody: true, // Required for payment webhook signature verification
       },
     );
 
@@ -57,7 +57,7 @@ async function bootstrap() {
 
     // Global prefix — all API routes under /api, health + webhooks excluded
     app.setGlobalPrefix('api', {
-      exclude: ['health', 'webhooks/stripe'],
+      exclude: ['health', 'webhooks/stripe', 'webhooks/payments/:provider'],
     });
 
     // CORS — allow WP sites to call the API
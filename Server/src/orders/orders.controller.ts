@@ -9,15 +9,19 @@ import {
   UseGuards,
   Logger,
 } from '@nestjs/common';
-import { AuthGuard } from '@nestjs/passport';
+import { ApiKeyOrJwtGuard } from '../auth/guards/api-key-or-jwt.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
+import { RequirePermission } from '../auth/decorators/require-permission.decorator';
+import { ApiKeyScope } from '../auth/decorators/api-key-scope.decorator';
 import { formatEventDateIso } from '../common/event-date.util';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import { OrdersService } from './orders.service';
 import { EmailService } from '../email/email.service';
-import { StripeService } from '../payments/stripe.service';
+import { PaymentsService } from '../payments/payments.service';
 import { PrismaService } from '../prisma/prisma.service';
+import { addOnText, orderItemAddOn } from '../forms/form-add-ons';
+import { parseLocale } from '../common/i18n';
 import { IsString, IsNumber, IsArray, IsOptional, ValidateNested, Min } from 'class-validator';
 import { Type } from 'class-transformer';
 
@@ -67,19 +71,20 @@ class UpdateOrderDto {
 }
 
 @Controller('orders')
-@UseGuards(AuthGuard('jwt'), RolesGuard)
+@UseGuards(ApiKeyOrJwtGuard, RolesGuard)
 export class OrdersController {
   private readonly logger = new Logger(OrdersController.name);
 
   constructor(
     private readonly ordersService: OrdersService,
     private readonly email: EmailService,
-    private readonly stripe: StripeService,
+    private readonly payments: PaymentsService,
     private readonly prisma: PrismaService,
   ) {}
 
   @Get('event/:eventId')
   @Roles('event_admin', 'admin', 'super_admin')
+  @ApiKeyScope('read:orders')
   findByEvent(@Param('eventId') eventId: string) {
     return this.ordersService.findByEvent(eventId);
   }
@@ -127,7 +132,7 @@ export class OrdersController {
   }
 
   @Patch(':id/cancel')
-  @Roles('event_admin', 'admin', 'super_admin')
+  @RequirePermission('orders.cancel')
   cancel(@Param('id') id: string) {
     return this.ordersService.cancel(id);
   }
@@ -142,11 +147,8 @@ export class OrdersController {
   @Roles('event_admin', 'admin', 'super_admin')
   async getPaymentInfo(@Param('id') id: string) {
     const order = await this.ordersService.findOne(id);
-    if (!order.stripePaymentId) {
-      return { available: false };
-    }
     try {
-      const details = await this.stripe.getPaymentMethodDetails(order.stripePaymentId);
+      const details = await this.payments.getPaymentMethodDetails(order.id);
       if (details) {
         return { available: true, method: 'card', ...details };
       }
@@ -161,7 +163,7 @@ export class OrdersController {
   @Roles('event_admin', 'admin', 'super_admin')
   async resendConfirmation(@Param('id') id: string) {
     const order = await this.ordersService.findOneWithDetails(id);
-    if (order.status !== 'paid') {
+    if (order.status !== 'paid' && order.status !== 'partially_refunded') {
       return { success: false, message: 'Order is not paid — cannot resend confirmation' };
     }
     const email = order.customerEmail ?? order.attendee?.email;
@@ -174,7 +176,7 @@ export class OrdersController {
     const orderMeta = (order.meta as Record<string, unknown>) ?? {};
 
     // Resolve ticket type names
-    const ttIds = order.items.map((item: any) => item.ticketTypeId);
+    const ttIds = order.items.map((item: any) => item.ticketTypeId).filter(Boolean);
     const ticketTypes = ttIds.length > 0
       ? await this.prisma.ticketType.findMany({
           where: { id: { in: ttIds } },
@@ -191,7 +193,9 @@ export class OrdersController {
     });
 
     const ticketDetails = order.items.map((item: any) => ({
-      typeName: ttNameMap.get(item.ticketTypeId) ?? 'Ticket',
+      typeName: orderItemAddOn(item.meta)
+        ? addOnText(orderItemAddOn(item.meta)!.optionLabel, parseLocale(orderMeta.invoiceLanguage as string))
+        : ttNameMap.get(item.ticketTypeId) ?? 'Ticket',
       quantity: item.quantity,
       qrPayload: '',
     }));
@@ -232,6 +236,7 @@ export class OrdersController {
       firstName: string;
       lastName: string;
       registrationToken: string;
+      ticketTypeId?: string;
     }>;
 
     if (recipientAttendees.length === 0) {
@@ -247,10 +252,14 @@ export class OrdersController {
     const purchaserName = order.customerName ?? 'Someone';
     const resendEventMeta = (event?.meta as Record<string, any>) ?? {};
 
-    const ttIds = (order.items ?? []).map((item: any) => item.ticketTypeId);
-    const tt = ttIds.length > 0
-      ? await this.prisma.ticketType.findFirst({ where: { id: { in: ttIds } } })
-      : null;
+    const ttIds = (order.items ?? []).map((item: any) => item.ticketTypeId).filter(Boolean);
+    const orderTicketTypes = ttIds.length > 0
+      ? await this.prisma.ticketType.findMany({
+          where: { id: { in: ttIds } },
+          select: { id: true, name: true },
+        })
+      : [];
+    const ttNameById = new Map(orderTicketTypes.map((tt) => [tt.id, tt.name]));
 
     const results: Array<{ email: string; success: boolean; error?: string }> = [];
 
@@ -263,7 +272,10 @@ export class OrdersController {
           eventDate: event?.startDate ? formatEventDateIso(event.startDate) : '',
           eventVenue: [event?.venue, event?.venueAddress].filter(Boolean).join(', '),
           eventVenueMapUrl: resendEventMeta.venueMapUrl || undefined,
-          ticketTypeName: tt?.name ?? 'Ticket',
+          ticketTypeName:
+            (recipient.ticketTypeId && ttNameById.get(recipient.ticketTypeId)) ||
+            orderTicketTypes[0]?.name ||
+            'Ticket',
           registrationUrl: `${registrationBaseUrl}?token=${recipient.registrationToken}`,
         });
         results.push({ email: recipient.email, success: true });
@@ -3,9 +3,11 @@ import { OrdersService } from './orders.service';
 import { OrdersController } from './orders.controller';
 import { EmailModule } from '../email/email.module';
 import { PaymentsModule } from '../payments/payments.module';
+import { TicketHoldsModule } from '../ticket-holds/ticket-holds.module';
+import { WaitlistModule } from '../waitlist/waitlist.module';
 
 @Module({
-  imports: [EmailModule, forwardRef(() => PaymentsModule)],
+  imports: [EmailModule, forwardRef(() => PaymentsModule), TicketHoldsModule, WaitlistModule],
   controllers: [OrdersController],
   providers: [OrdersService],
   exports: [OrdersService],
@@ -1,6 +1,8 @@
 import { Injectable, Logger, NotFoundException, BadRequestException, InternalServerErrorException } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { AuditLogService, AuditAction } from '../audit-log/audit-log.service';
+import { TicketHoldsService } from '../ticket-holds/ticket-holds.service';
+import { WaitlistService } from '../waitlist/waitlist.service';
 
 /** Max retries when an order-number collision occurs (race condition / deleted orders). */
 const ORDER_NUMBER_MAX_RETRIES = 5;
@@ -12,6 +14,8 @@ export class OrdersService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly audit: AuditLogService,
+    private readonly ticketHolds: TicketHoldsService,
+    private readonly waitlist: WaitlistService,
   ) {}
 
   async findByEvent(eventId: string) {
@@ -82,9 +86,12 @@ export class OrdersService {
     totalCents: number;
     currency: string;
     items: Array<{
-      ticketTypeId: string;
+      /** null for add-on lines (priced form options, detail in `meta.addOn`). */
+      ticketTypeId: string | null;
       quantity: number;
       unitPriceCents: number;
+      /** Line-level checkout detail (pricing variant, member discount, recipients). */
+      meta?: Record<string, unknown>;
     }>;
   }) {
     // Retry loop: on rare race conditions two concurrent checkouts may
@@ -108,6 +115,7 @@ export class OrdersService {
                 quantity: item.quantity,
                 unitPriceCents: item.unitPriceCents,
                 subtotalCents: item.quantity * item.unitPriceCents,
+                ...(item.meta ? { meta: item.meta as any } : {}),
               })),
             },
           },
@@ -145,16 +153,6 @@ export class OrdersService {
     });
   }
 
-  /**
-   * Persist the Stripe Checkout Session ID on an order.
-   */
-  async updateStripeSession(id: string, stripeSessionId: string) {
-    return this.prisma.order.update({
-      where: { id },
-      data: { stripeSessionId },
-    });
-  }
-
   /**
    * Update the order's JSON meta field (merge with existing meta).
    * Used to store promo code ID, discount details, etc.
@@ -169,26 +167,32 @@ export class OrdersService {
   }
 
   /**
-   * Mark an order as paid after Stripe webhook confirmation.
+   * Mark an order as paid after a payment provider webhook, a matched bank
+   * transfer or a box-office sale. Fields left undefined keep their current value; the
+   * provider IDs themselves live on the order's Payment records.
    */
   async markPaid(
     id: string,
     payment: {
-      stripeSessionId: string;
-      stripePaymentId: string | null;
-      customerEmail: string | null;
-      customerName: string | null;
+      /**
+       * Payment provider ID (stripe, postfinance), bank_transfer, or the
+       * box-office tender (cash, card_terminal, comp).
+       */
+      method: string;
+      providerPaymentId?: string | null;
+      customerEmail?: string | null;
+      customerName?: string | null;
+      /** Booking date of a bank transfer (defaults to now). */
+      paidAt?: Date;
     },
   ) {
     const order = await this.prisma.order.update({
       where: { id },
       data: {
         status: 'paid',
-        paidAt: new Date(),
-        stripeSessionId: payment.stripeSessionId,
-        stripePaymentId: payment.stripePaymentId,
-        customerEmail: payment.customerEmail,
-        customerName: payment.customerName,
+        paidAt: payment.paidAt ?? new Date(),
+        customerEmail: payment.customerEmail ?? undefined,
+        customerName: payment.customerName ?? undefined,
       },
     });
 
@@ -198,24 +202,16 @@ export class OrdersService {
       entity: 'order',
       entityId: id,
       detail: {
-        stripeSessionId: payment.stripeSessionId,
-        customerEmail: payment.customerEmail,
+        method: payment.method,
+        ...(payment.providerPaymentId ? { providerPaymentId: payment.providerPaymentId } : {}),
+        ...(order.paymentReference ? { paymentReference: order.paymentReference } : {}),
+        customerEmail: order.customerEmail,
       },
     });
 
     return order;
   }
 
-  /**
-   * Find an order by its Stripe payment intent ID.
-   */
-  async findByStripePaymentId(stripePaymentId: string) {
-    return this.prisma.order.findFirst({
-      where: { stripePaymentId },
-      include: { items: true },
-    });
-  }
-
   /**
    * Fetch the event associated with an order (for email templates).
    */
@@ -280,11 +276,37 @@ export class OrdersService {
       data: { status: 'cancelled', cancelledAt: new Date() },
     });
 
-    // Void associated tickets
+    // Return any seats still reserved by a pending checkout, and the
+    // add-on stock of a paid one
+    await this.ticketHolds.releaseForOrder(id, 'cancelled');
+    await this.ticketHolds.returnAddOnsForOrder(id);
+
+    // Void associated tickets and give their seats back
+    const cancelled = await this.prisma.ticket.findMany({
+      where: { orderId: id, status: 'valid' },
+      select: { ticketTypeId: true },
+    });
     await this.prisma.ticket.updateMany({
       where: { orderId: id, status: 'valid' },
       data: { status: 'cancelled' },
     });
+    const countByType = new Map<string, number>();
+    for (const t of cancelled) {
+      countByType.set(t.ticketTypeId, (countByType.get(t.ticketTypeId) ?? 0) + 1);
+    }
+    for (const [ttId, count] of countByType) {
+      await this.prisma.ticketType.update({
+        where: { id: ttId },
+        data: { sold: { decrement: count } },
+      });
+    }
+
+    // Freed seats (held or sold) go to the head of each waitlist
+    for (const ttId of new Set(order.items.flatMap((item) => item.ticketTypeId ?? []))) {
+      this.waitlist
+        .promote(ttId)
+        .catch((err) => this.logger.error(`Waitlist promotion failed after cancel: ${err}`));
+    }
 
     this.audit.log({
       eventId: order.eventId,
@@ -309,6 +331,9 @@ export class OrdersService {
       );
     }
 
+    // Release held inventory before the hold rows cascade away with the order
+    await this.ticketHolds.releaseForOrder(id, 'deleted');
+
     // Delete associated tickets first (cascade might handle this, but be explicit)
     await this.prisma.ticket.deleteMany({ where: { orderId: id } });
 
@@ -362,9 +387,16 @@ export class OrdersService {
           },
         },
         tickets: {
-          select: { id: true, code: true, status: true, meta: true },
+          select: { id: true, code: true, status: true, ticketTypeId: true, meta: true },
           orderBy: { createdAt: 'asc' },
         },
+        refunds: {
+          where: { status: 'succeeded' },
+          orderBy: { createdAt: 'asc' },
+        },
+        payments: {
+          orderBy: { createdAt: 'desc' },
+        },
       },
     });
     if (!order) throw new NotFoundException(`Order ${id} not found`);
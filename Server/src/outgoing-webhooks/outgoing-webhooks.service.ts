@@ -11,6 +11,7 @@ import { AuditLogService, AuditAction } from '../audit-log/audit-log.service';
  *   - order.refunded     — after charge refund
  *   - ticket.issued      — new ticket created
  *   - ticket.voided      — ticket voided/cancelled
+ *   - ticket.transferred — ticket reissued to another attendee
  *   - checkin.created     — attendee checked in
  *   - attendee.registered — new attendee registration
  *   - event.updated      — event details changed
@@ -24,6 +25,7 @@ export const WEBHOOK_EVENT_TYPES = [
   'order.refunded',
   'ticket.issued',
   'ticket.voided',
+  'ticket.transferred',
   'checkin.created',
   'attendee.registered',
   'event.updated',
@@ -0,0 +1,406 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { OrdersService } from '../orders/orders.service';
+import { EmailService } from '../email/email.service';
+import { InvoicesService } from '../invoices/invoices.service';
+import { AuditLogService, AuditAction } from '../audit-log/audit-log.service';
+import {
+  buildQrrReference,
+  buildScorReference,
+  formatReference,
+  isQrIban,
+} from '../invoices/qr-bill';
+import { formatEventDateIso } from '../common/event-date.util';
+import { parseCamt, type CamtEntry } from './camt-parser';
+import { OrderFulfillmentService } from './order-fulfillment.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_DUE_DAYS = 10;
+/** Invoices fall due at the latest this long before the event starts. */
+const DUE_BEFORE_EVENT_MS = 5 * DAY_MS;
+/** Pay-by-invoice is refused when less than this is left to pay. */
+const MIN_PAYMENT_WINDOW_MS = 2 * DAY_MS;
+/** Seats stay held this long past the due date while the transfer settles. */
+const SETTLEMENT_GRACE_MS = 3 * DAY_MS;
+const MAX_STATEMENT_BYTES = 10 * 1024 * 1024;
+
+export type BankTransactionStatus =
+  | 'matched'
+  | 'amount_mismatch'
+  | 'order_not_payable'
+  | 'unmatched';
+
+export interface StatementImportResult {
+  messageType: 'camt.053' | 'camt.054';
+  entries: number;
+  matched: number;
+  amountMismatch: number;
+  orderNotPayable: number;
+  unmatched: number;
+  /** Already imported from an earlier (overlapping) statement. */
+  duplicates: number;
+  /** Paying an order of another event — left to that event's import. */
+  otherEvent: number;
+}
+
+/**
+ * Bank Reconciliation Service — pay-by-invoice orders.
+ *
+ * Checkout with `paymentMethod: 'invoice'` leaves the order in
+ * `awaiting_payment` with a structured creditor reference: a QRR reference
+ * when the issuer account is a QR-IBAN, an ISO 11649 SCOR reference
+ * otherwise. The customer gets the invoice with a payable QR-bill, and the
+ * seats stay held until the due date plus a settlement grace period.
+ *
+ * Admins upload the bank's camt.054 (or camt.053) file. Every credit entry
+ * is stored as a BankTransaction — the (eventId, entryRef) key makes
+ * re-imports of overlapping statements idempotent — and matched to an order
+ * by reference. A match marks the order paid and runs the same fulfilment
+ * as a Stripe payment (tickets, confirmation email, `order.paid` dispatch).
+ * Entries that can't be matched automatically stay listed for a manual match.
+ */
+@Injectable()
+export class BankReconciliationService {
+  private readonly logger = new Logger(BankReconciliationService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly orders: OrdersService,
+    private readonly email: EmailService,
+    private readonly invoices: InvoicesService,
+    private readonly fulfillment: OrderFulfillmentService,
+    private readonly audit: AuditLogService,
+  ) {}
+
+  // ─── Checkout ─────────────────────────────────────────────────
+
+  /**
+   * Payment terms for a pay-by-invoice checkout, from event.meta.invoicePayment
+   * (`{ enabled, dueDays }`). The due date is `dueDays` from now, but never
+   * later than DUE_BEFORE_EVENT_MS before the event starts.
+   *
+   * @throws BadRequestException when invoice payment is off, the issuer has
+   *         no IBAN, or the event is too close to wait for a bank transfer
+   */
+  resolvePaymentTerms(
+    event: { startDate: Date; meta: unknown },
+    now = new Date(),
+  ): { dueAt: Date; holdUntil: Date } {
+    const meta = (event.meta as Record<string, any>) ?? {};
+    const config = (meta.invoicePayment as { enabled?: boolean; dueDays?: number } | undefined) ?? {};
+    if (!config.enabled) {
+      throw new BadRequestException('Pay by invoice is not available for this event');
+    }
+    if (!meta.issuerDetails?.iban) {
+      throw new BadRequestException('Pay by invoice is not configured for this event (missing IBAN)');
+    }
+
+    const dueDays = Number(config.dueDays) > 0 ? Number(config.dueDays) : DEFAULT_DUE_DAYS;
+    const dueAt = new Date(
+      Math.min(now.getTime() + dueDays * DAY_MS, event.startDate.getTime() - DUE_BEFORE_EVENT_MS),
+    );
+    if (dueAt.getTime() - now.getTime() < MIN_PAYMENT_WINDOW_MS) {
+      throw new BadRequestException('Pay by invoice is no longer available for this event — please pay by card');
+    }
+
+    const holdUntil = new Date(Math.min(dueAt.getTime() + SETTLEMENT_GRACE_MS, event.startDate.getTime()));
+    return { dueAt, holdUntil };
+  }
+
+  /**
+   * Put a pending order on invoice: assign its payment reference, move it to
+   * `awaiting_payment` and email the invoice with the payable QR-bill.
+   *
+   * `amountDueCents` is the total after discounts. Unlike Stripe, which
+   * applies the discount as a coupon, the bank transfer must match the
+   * order total, so it replaces the gross `totalCents`.
+   */
+  async issueInvoice(
+    orderId: string,
+    terms: { dueAt: Date; amountDueCents: number },
+  ): Promise<{ paymentReference: string }> {
+    const { dueAt } = terms;
+    const order = await this.prisma.order.findUnique({
+      where: { id: orderId },
+      include: { event: { select: { name: true, meta: true } } },
+    });
+    if (!order) throw new NotFoundException(`Order ${orderId} not found`);
+
+    const issuer = this.invoices.resolveIssuer((order.event.meta as Record<string, any>) ?? {});
+    if (!issuer.iban) {
+      throw new BadRequestException('Pay by invoice is not configured for this event (missing IBAN)');
+    }
+
+    const paymentReference = await this.assignReference(order.id, order.orderNumber, issuer.iban, {
+      paymentDueAt: dueAt,
+      totalCents: terms.amountDueCents,
+    });
+    await this.orders.updateMeta(order.id, { paymentMethod: 'invoice' });
+
+    let invoicePdf: { bytes: Uint8Array; fileName: string } | undefined;
+    try {
+      const invoice = await this.invoices.generateInvoice(order.id);
+      invoicePdf = { bytes: invoice.pdfBytes, fileName: invoice.fileName };
+    } catch (err) {
+      this.logger.error(`Invoice generation failed for order ${order.orderNumber}: ${err}`);
+    }
+
+    if (order.customerEmail) {
+      this.email
+        .sendPaymentInstructions(order.customerEmail, {
+          customerName: order.customerName ?? 'Guest',
+          orderNumber: order.orderNumber,
+          eventName: order.event.name,
+          amountFormatted: (terms.amountDueCents / 100).toFixed(2),
+          currency: order.currency,
+          creditorName: issuer.companyName,
+          iban: issuer.iban,
+          reference: formatReference(paymentReference),
+          dueDateFormatted: formatEventDateIso(dueAt),
+          invoicePdf,
+        })
+        .catch((err) =>
+          this.logger.error(`Payment instructions email failed for ${order.orderNumber}: ${err}`),
+        );
+    }
+
+    this.audit.log({
+      eventId: order.eventId,
+      action: AuditAction.ORDER_INVOICE_ISSUED,
+      entity: 'order',
+      entityId: order.id,
+      detail: { paymentReference, dueAt: dueAt.toISOString(), totalCents: terms.amountDueCents },
+    });
+
+    return { paymentReference };
+  }
+
+  // ─── Statement import ─────────────────────────────────────────
+
+  async importStatement(
+    eventId: string,
+    file: { buffer: Buffer; fileName: string },
+    userId: string,
+  ): Promise<StatementImportResult> {
+    if (file.buffer.length > MAX_STATEMENT_BYTES) {
+      throw new BadRequestException('Statement file too large (max 10 MB)');
+    }
+
+    let statement: ReturnType<typeof parseCamt>;
+    try {
+      statement = parseCamt(file.buffer.toString('utf8'));
+    } catch (err) {
+      throw new BadRequestException(`Could not read statement: ${(err as Error).message}`);
+    }
+
+    const result: StatementImportResult = {
+      messageType: statement.messageType,
+      entries: statement.entries.length,
+      matched: 0,
+      amountMismatch: 0,
+      orderNotPayable: 0,
+      unmatched: 0,
+      duplicates: 0,
+      otherEvent: 0,
+    };
+
+    for (const entry of statement.entries) {
+      const outcome = await this.applyEntry(eventId, entry, file.fileName, userId);
+      switch (outcome) {
+        case 'matched': result.matched++; break;
+        case 'amount_mismatch': result.amountMismatch++; break;
+        case 'order_not_payable': result.orderNotPayable++; break;
+        case 'unmatched': result.unmatched++; break;
+        case 'duplicate': result.duplicates++; break;
+        case 'other_event': result.otherEvent++; break;
+      }
+    }
+
+    this.audit.log({
+      eventId,
+      userId,
+      action: AuditAction.BANK_STATEMENT_IMPORTED,
+      entity: 'event',
+      entityId: eventId,
+      detail: { fileName: file.fileName, ...result },
+    });
+    this.logger.log(
+      `Statement ${file.fileName} imported for event ${eventId}: ` +
+        `${result.matched}/${result.entries} matched, ${result.duplicates} duplicate(s)`,
+    );
+
+    return result;
+  }
+
+  async findByEvent(eventId: string, status?: BankTransactionStatus) {
+    return this.prisma.bankTransaction.findMany({
+      where: { eventId, ...(status ? { status } : {}) },
+      include: { order: { select: { id: true, orderNumber: true, status: true, totalCents: true } } },
+      orderBy: [{ bookingDate: 'desc' }, { createdAt: 'desc' }],
+      take: 500,
+    });
+  }
+
+  /**
+   * Settle an order with a transaction that did not match automatically
+   * (typo in the reference, reference missing, amount slightly off).
+   */
+  async matchManually(eventId: string, transactionId: string, orderId: string, userId: string) {
+    const tx = await this.prisma.bankTransaction.findFirst({ where: { id: transactionId, eventId } });
+    if (!tx) throw new NotFoundException(`Bank transaction ${transactionId} not found`);
+    if (tx.status === 'matched') {
+      throw new BadRequestException('Transaction is already matched to an order');
+    }
+
+    const order = await this.prisma.order.findFirst({
+      where: { id: orderId, eventId },
+      select: { id: true, status: true, currency: true },
+    });
+    if (!order) throw new NotFoundException(`Order ${orderId} not found`);
+    if (order.status !== 'awaiting_payment') {
+      throw new BadRequestException(`Order is ${order.status} — only orders awaiting payment can be matched`);
+    }
+    if (order.currency !== tx.currency) {
+      throw new BadRequestException(`Currency mismatch: transaction is ${tx.currency}, order is ${order.currency}`);
+    }
+
+    const settled = await this.settle(order.id, tx.bookingDate, { id: tx.id, eventId, userId, manual: true });
+    if (!settled) {
+      throw new BadRequestException('Order was settled concurrently — reload and try again');
+    }
+    return this.prisma.bankTransaction.update({
+      where: { id: tx.id },
+      data: { status: 'matched', orderId: order.id },
+      include: { order: { select: { id: true, orderNumber: true, status: true, totalCents: true } } },
+    });
+  }
+
+  // ─── Internals ────────────────────────────────────────────────
+
+  private async applyEntry(
+    eventId: string,
+    entry: CamtEntry,
+    fileName: string,
+    userId: string,
+  ): Promise<BankTransactionStatus | 'duplicate' | 'other_event'> {
+    const order = entry.reference
+      ? await this.prisma.order.findUnique({
+          where: { paymentReference: entry.reference },
+          select: { id: true, eventId: true, status: true, totalCents: true, currency: true },
+        })
+      : null;
+
+    // A statement covers the whole account — other events' payments are
+    // reconciled by their own import, not stored here.
+    if (order && order.eventId !== eventId) return 'other_event';
+
+    let status: BankTransactionStatus;
+    if (!order) status = 'unmatched';
+    else if (order.status !== 'awaiting_payment') status = 'order_not_payable';
+    else if (order.currency !== entry.currency || entry.amountCents < order.totalCents) status = 'amount_mismatch';
+    else status = 'matched';
+
+    let tx: { id: string };
+    try {
+      tx = await this.prisma.bankTransaction.create({
+        data: {
+          eventId,
+          entryRef: entry.entryRef.slice(0, 100),
+          reference: entry.reference?.slice(0, 35) ?? null,
+          amountCents: entry.amountCents,
+          currency: entry.currency,
+          bookingDate: entry.bookingDate,
+          debtorName: entry.debtorName?.slice(0, 140) ?? null,
+          status,
+          orderId: order?.id ?? null,
+          fileName: fileName.slice(0, 255),
+          importedBy: userId,
+        },
+        select: { id: true },
+      });
+    } catch (err: any) {
+      if (err?.code === 'P2002') return 'duplicate';
+      throw err;
+    }
+
+    if (status === 'matched' && order) {
+      const settled = await this.settle(order.id, entry.bookingDate, { id: tx.id, eventId, userId });
+      if (!settled) {
+        await this.prisma.bankTransaction.update({
+          where: { id: tx.id },
+          data: { status: 'order_not_payable' },
+        });
+        return 'order_not_payable';
+      }
+    }
+    return status;
+  }
+
+  /**
+   * Mark an awaiting-payment order paid and fulfil it. The conditional
+   * update claims the order, so two transfers for the same order (or an
+   * import racing a manual match) settle it only once.
+   */
+  private async settle(
+    orderId: string,
+    bookingDate: Date | null,
+    tx: { id: string; eventId: string; userId: string; manual?: boolean },
+  ): Promise<boolean> {
+    const paidAt = bookingDate ?? new Date();
+    const claimed = await this.prisma.order.updateMany({
+      where: { id: orderId, status: 'awaiting_payment' },
+      data: { status: 'paid', paidAt },
+    });
+    if (claimed.count === 0) return false;
+
+    await this.orders.markPaid(orderId, { method: 'bank_transfer', paidAt });
+    await this.fulfillment.fulfil(orderId);
+
+    this.audit.log({
+      eventId: tx.eventId,
+      userId: tx.userId,
+      action: AuditAction.BANK_TRANSFER_MATCHED,
+      entity: 'order',
+      entityId: orderId,
+      detail: { bankTransactionId: tx.id, manual: !!tx.manual },
+    });
+    return true;
+  }
+
+  /**
+   * Assign a unique creditor reference. QR-IBANs only accept QRR (27 digits,
+   * random here); regular IBANs get a SCOR reference built from the order
+   * number, with a random suffix on the unlikely clash.
+   */
+  private async assignReference(
+    orderId: string,
+    orderNumber: string,
+    iban: string,
+    data: { paymentDueAt: Date; totalCents: number },
+  ): Promise<string> {
+    const qrIban = isQrIban(iban);
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const random = BigInt('0x' + randomBytes(10).toString('hex')).toString().padStart(26, '0').slice(-26);
+      const base = orderNumber.replace(/[^A-Za-z0-9]/g, '').slice(0, 15);
+      const paymentReference = qrIban
+        ? buildQrrReference(random)
+        : buildScorReference(attempt === 0 ? base : base + random.slice(-6));
+      try {
+        await this.prisma.order.update({
+          where: { id: orderId },
+          data: { ...data, status: 'awaiting_payment', paymentReference },
+        });
+        return paymentReference;
+      } catch (err: any) {
+        if (err?.code !== 'P2002') throw err;
+      }
+    }
+    throw new Error(`Could not assign a unique payment reference to order ${orderNumber}`);
+  }
+}
@@ -0,0 +1,99 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  Body,
+  Req,
+  UseGuards,
+  BadRequestException,
+} from '@nestjs/common';
+import type { FastifyRequest } from 'fastify';
+import { AuthGuard } from '@nestjs/passport';
+import { IsIn, IsOptional, IsString } from 'class-validator';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { JwtPayload } from '../auth/auth.service';
+import {
+  BankReconciliationService,
+  type BankTransactionStatus,
+} from './bank-reconciliation.service';
+
+const TRANSACTION_STATUSES: BankTransactionStatus[] = [
+  'matched',
+  'amount_mismatch',
+  'order_not_payable',
+  'unmatched',
+];
+
+class ListBankTransactionsQuery {
+  @IsOptional() @IsIn(TRANSACTION_STATUSES) status?: BankTransactionStatus;
+}
+
+class MatchBankTransactionDto {
+  @IsString()
+  orderId: string;
+}
+
+/**
+ * Bank Transfers Controller — reconciliation of pay-by-invoice orders.
+ *
+ * Admins upload the camt.054 / camt.053 file downloaded from e-banking;
+ * credits are matched to `awaiting_payment` orders by QR-bill reference.
+ */
+@Controller('bank-transfers')
+@UseGuards(AuthGuard('jwt'), RolesGuard)
+export class BankTransfersController {
+  constructor(private readonly reconciliation: BankReconciliationService) {}
+
+  /**
+   * GET /api/bank-transfers/event/:eventId?status=unmatched
+   * Imported bank credits for an event, newest booking first.
+   */
+  @Get('event/:eventId')
+  @Roles('event_admin', 'admin', 'super_admin')
+  findByEvent(@Param('eventId') eventId: string, @Query() query: ListBankTransactionsQuery) {
+    return this.reconciliation.findByEvent(eventId, query.status);
+  }
+
+  /**
+   * POST /api/bank-transfers/event/:eventId/import
+   * Upload a camt.054 or camt.053 XML file (multipart field `file`).
+   * Re-uploading a statement is safe — known entries count as duplicates.
+   */
+  @Post('event/:eventId/import')
+  @Roles('event_admin', 'admin', 'super_admin')
+  async importStatement(
+    @Param('eventId') eventId: string,
+    @Req() req: FastifyRequest,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    const data = await req.file();
+    if (!data) {
+      throw new BadRequestException('No file uploaded');
+    }
+
+    return this.reconciliation.importStatement(
+      eventId,
+      { buffer: await data.toBuffer(), fileName: data.filename },
+      user.sub,
+    );
+  }
+
+  /**
+   * POST /api/bank-transfers/:id/event/:eventId/match
+   * Settle an awaiting-payment order with an unmatched bank credit.
+   */
+  @Post(':id/event/:eventId/match')
+  @Roles('event_admin', 'admin', 'super_admin')
+  match(
+    @Param('id') id: string,
+    @Param('eventId') eventId: string,
+    @Body() dto: MatchBankTransactionDto,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    return this.reconciliation.matchManually(eventId, id, dto.orderId, user.sub);
+  }
+}
@@ -0,0 +1,86 @@
+import { parseCamt } from './camt-parser';
+
+/**
+ * Statement parsing feeds the automatic matching of pay-by-invoice orders:
+ * only booked credits may come out, each with a stable entry reference so
+ * re-importing a statement is a no-op.
+ */
+describe('parseCamt', () => {
+  const camt054 = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.054.001.08">
+  <BkToCstmrDbtCdtNtfctn>
+    <Ntfctn>
+      <Ntry>
+        <NtryRef>N-1</NtryRef>
+        <Amt Ccy="CHF">120.50</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <Sts><Cd>BOOK</Cd></Sts>
+        <BookgDt><Dt>2026-10-12</Dt></BookgDt>
+        <AcctSvcrRef>BANK-1</AcctSvcrRef>
+        <NtryDtls>
+          <TxDtls>
+            <Refs><AcctSvcrRef>TX-1</AcctSvcrRef></Refs>
+            <Amt Ccy="CHF">100.00</Amt>
+            <CdtDbtInd>CRDT</CdtDbtInd>
+            <RltdPties><Dbtr><Pty><Nm>Ada &amp; Co</Nm></Pty></Dbtr></RltdPties>
+            <RmtInf><Strd><CdtrRefInf><Tp><CdOrPrtry><Prtry>QRR</Prtry></CdOrPrtry></Tp>
+              <Ref>21 00000 00003 13947 14300 09017</Ref></CdtrRefInf></Strd></RmtInf>
+          </TxDtls>
+          <TxDtls>
+            <Refs><EndToEndId>NOTPROVIDED</EndToEndId></Refs>
+            <Amt Ccy="CHF">20.50</Amt>
+            <CdtDbtInd>CRDT</CdtDbtInd>
+            <RmtInf><Ustrd>Ticket TIX-2026-0002</Ustrd></RmtInf>
+          </TxDtls>
+        </NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="CHF">15.00</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts><Cd>BOOK</Cd></Sts>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="CHF">30.00</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <Sts><Cd>PDNG</Cd></Sts>
+      </Ntry>
+    </Ntfctn>
+  </BkToCstmrDbtCdtNtfctn>
+</Document>`;
+
+  it('splits batch bookings into one entry per transaction', () => {
+    const { messageType, entries } = parseCamt(camt054);
+    expect(messageType).toBe('camt.054');
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toMatchObject({
+      entryRef: 'TX-1',
+      reference: '210000000003139471430009017',
+      amountCents: 10000,
+      currency: 'CHF',
+      debtorName: 'Ada & Co',
+    });
+    expect(entries[0].bookingDate?.toISOString()).toBe('2026-10-12T00:00:00.000Z');
+    expect(entries[1]).toMatchObject({
+      entryRef: 'BANK-1#2',
+      reference: null,
+      amountCents: 2050,
+      message: 'Ticket TIX-2026-0002',
+    });
+  });
+
+  it('handles namespace prefixes and entries without transaction details', () => {
+    const { messageType, entries } = parseCamt(`<ns:Document xmlns:ns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.04">
+  <ns:BkToCstmrStmt><ns:Stmt><ns:Ntry>
+    <ns:Amt Ccy="EUR">5</ns:Amt><ns:CdtDbtInd>CRDT</ns:CdtDbtInd><ns:Sts>BOOK</ns:Sts>
+  </ns:Ntry></ns:Stmt></ns:BkToCstmrStmt>
+</ns:Document>`);
+    expect(messageType).toBe('camt.053');
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ amountCents: 500, currency: 'EUR' });
+    expect(entries[0].entryRef).toMatch(/^sha256:/);
+  });
+
+  it('rejects other documents', () => {
+    expect(() => parseCamt('<Document><CstmrCdtTrfInitn/></Document>')).toThrow();
+  });
+});
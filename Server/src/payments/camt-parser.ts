@@ -0,0 +1,160 @@
+import { createHash } from 'crypto';
+
+/**
+ * Minimal ISO 20022 camt.053 / camt.054 reader for bank reconciliation.
+ *
+ * Only what matching needs is extracted: booked credit transactions with
+ * their amount, currency, booking date, debtor name and structured creditor
+ * reference (QRR / SCOR). Batch bookings (one `Ntry` with several `TxDtls`)
+ * yield one entry per transaction. Namespace prefixes and schema versions
+ * (camt.053.001.04 … .08, camt.054.001.04 … .08) are ignored — the element
+ * names used here are stable across versions.
+ */
+
+export interface CamtEntry {
+  /** Stable ID for idempotent imports (bank reference, else a content hash). */
+  entryRef: string;
+  /** Structured creditor reference, whitespace stripped (null if none). */
+  reference: string | null;
+  amountCents: number;
+  currency: string;
+  bookingDate: Date | null;
+  debtorName: string | null;
+  /** Unstructured remittance text — shown when no reference matched. */
+  message: string | null;
+}
+
+export interface CamtStatement {
+  messageType: 'camt.053' | 'camt.054';
+  entries: CamtEntry[];
+}
+
+/**
+ * Parse a camt.053 (account statement) or camt.054 (debit/credit
+ * notification). Debits, reversals and non-booked entries are skipped.
+ *
+ * @throws Error when the document is not a camt.053/054 message
+ */
+export function parseCamt(xml: string): CamtStatement {
+  // Drop namespace prefixes (<ns2:Ntry> → <Ntry>) so lookups stay simple
+  const doc = xml.replace(/<(\/?)[\w.-]+:([\w.-]+)/g, '<$1$2');
+
+  let messageType: CamtStatement['messageType'];
+  if (/<BkToCstmrStmt[\s>]/.test(doc)) messageType = 'camt.053';
+  else if (/<BkToCstmrDbtCdtNtfctn[\s>]/.test(doc)) messageType = 'camt.054';
+  else throw new Error('Not a camt.053 or camt.054 document');
+
+  const entries: CamtEntry[] = [];
+  for (const ntry of blocks(doc, 'Ntry')) {
+    if (text(ntry, 'CdtDbtInd') !== 'CRDT') continue;
+    if (text(ntry, 'RvslInd') === 'true') continue;
+    // <Sts><Cd>BOOK</Cd></Sts> (v06+) or <Sts>BOOK</Sts> (v04)
+    const status = text(block(ntry, 'Sts') ?? '', 'Cd') ?? text(ntry, 'Sts');
+    if (status && status !== 'BOOK') continue;
+
+    const bookingDate = parseDate(text(block(ntry, 'BookgDt') ?? '', 'Dt') ?? text(block(ntry, 'BookgDt') ?? '', 'DtTm'));
+    const entryAmount = amount(ntry);
+    const entryRef = text(ntry, 'AcctSvcrRef') ?? text(ntry, 'NtryRef');
+    const txs = blocks(ntry, 'TxDtls');
+
+    if (txs.length === 0) {
+      if (!entryAmount) continue;
+      entries.push({
+        entryRef: entryRef ?? digest(ntry),
+        reference: reference(ntry),
+        ...entryAmount,
+        bookingDate,
+        debtorName: debtorName(ntry),
+        message: text(ntry, 'Ustrd'),
+      });
+      continue;
+    }
+
+    txs.forEach((tx, index) => {
+      const indicator = text(tx, 'CdtDbtInd');
+      if (indicator && indicator !== 'CRDT') return;
+      const txAmount = amount(tx) ?? (txs.length === 1 ? entryAmount : null);
+      if (!txAmount) return;
+
+      const refs = block(tx, 'Refs') ?? '';
+      const txRef = text(refs, 'AcctSvcrRef') ?? text(refs, 'TxId') ?? text(refs, 'EndToEndId');
+      entries.push({
+        entryRef:
+          txRef && txRef !== 'NOTPROVIDED'
+            ? txRef
+            : entryRef
+              ? `${entryRef}#${index + 1}`
+              : digest(tx),
+        reference: reference(tx),
+        ...txAmount,
+        bookingDate,
+        debtorName: debtorName(tx),
+        message: text(tx, 'Ustrd'),
+      });
+    });
+  }
+
+  return { messageType, entries };
+}
+
+// ─── XML helpers ──────────────────────────────────────────────────────────
+// camt elements used here never nest inside themselves, so a non-greedy
+// match per element is enough; `<Amt` does not match `<AmtDtls` because the
+// tag name must end in whitespace or `>`.
+
+function blocks(xml: string, tag: string): string[] {
+  const re = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'g');
+  return [...xml.matchAll(re)].map((m) => m[1]);
+}
+
+function block(xml: string, tag: string): string | null {
+  return blocks(xml, tag)[0] ?? null;
+}
+
+function text(xml: string, tag: string): string | null {
+  const inner = block(xml, tag);
+  if (inner === null || /</.test(inner)) return null;
+  const value = decode(inner.trim());
+  return value || null;
+}
+
+function decode(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&amp;/g, '&');
+}
+
+/** First `<Amt Ccy="…">` of a block (entry or transaction amount). */
+function amount(xml: string): { amountCents: number; currency: string } | null {
+  const m = xml.match(/<Amt\s+Ccy="([A-Z]{3})"\s*>\s*([\d.]+)\s*<\/Amt>/);
+  if (!m) return null;
+  const [units, fraction = ''] = m[2].split('.');
+  return {
+    amountCents: parseInt(units, 10) * 100 + parseInt((fraction + '00').slice(0, 2), 10),
+    currency: m[1],
+  };
+}
+
+function reference(xml: string): string | null {
+  const ref = text(block(xml, 'CdtrRefInf') ?? '', 'Ref');
+  return ref ? ref.replace(/\s/g, '').toUpperCase() : null;
+}
+
+function debtorName(xml: string): string | null {
+  const debtor = block(block(xml, 'RltdPties') ?? '', 'Dbtr');
+  return debtor ? text(debtor, 'Nm') ?? text(block(debtor, 'Pty') ?? '', 'Nm') : null;
+}
+
+function parseDate(value: string | null): Date | null {
+  if (!value) return null;
+  const date = new Date(value.length === 10 ? `${value}T00:00:00Z` : value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function digest(xml: string): string {
+  return 'sha256:' + createHash('sha256').update(xml).digest('hex').slice(0, 40);
+}
@@ -0,0 +1,364 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import { OrdersService } from '../orders/orders.service';
+import { TicketsService } from '../tickets/tickets.service';
+import { SseService } from '../sse/sse.service';
+import { EmailService } from '../email/email.service';
+import { PromoCodesService } from '../promo-codes/promo-codes.service';
+import { formatEventDateIso } from '../common/event-date.util';
+import { OrderPaidSyncService } from './order-paid-sync.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { SettingsService } from '../settings/settings.service';
+import { RegistrationReminderWorker } from '../queue/registration-reminder.worker';
+import { InvoicesService } from '../invoices/invoices.service';
+import { ExhibitorPortalService } from '../exhibitor-portal/exhibitor-portal.service';
+import { assignRecipientTickets, RecipientAttendeeMeta } from './recipient-tickets';
+import { addOnText, orderItemAddOn } from '../forms/form-add-ons';
+import { parseLocale } from '../common/i18n';
+
+/**
+ * Order Fulfillment Service — everything that happens once an order is paid.
+ *
+ * Shared by every path that confirms a payment after checkout: the Stripe
+ * `checkout.session.completed` webhook and bank transfers matched from a
+ * camt statement (BankReconciliationService). The caller marks the order
+ * paid first; this then issues tickets, hands recipient tickets over, sends
+ * the confirmation (with invoice) and admin notification, provisions
+ * exhibitors, dispatches `order.paid` and counts the promo code use.
+ */
+@Injectable()
+export class OrderFulfillmentService {
+  private readonly logger = new Logger(OrderFulfillmentService.name);
+
+  constructor(
+    private readonly orders: OrdersService,
+    private readonly tickets: TicketsService,
+    private readonly sse: SseService,
+    private readonly email: EmailService,
+    private readonly promoCodes: PromoCodesService,
+    private readonly orderPaidSync: OrderPaidSyncService,
+    private readonly prisma: PrismaService,
+    private readonly settings: SettingsService,
+    private readonly registrationReminder: RegistrationReminderWorker,
+    private readonly invoices: InvoicesService,
+    private readonly exhibitorPortal: ExhibitorPortalService,
+  ) {}
+
+  /**
+   * Run the post-payment side effects for an order already marked paid.
+   *
+   * Test mode only affects the payment itself (dummy cards). All downstream
+   * processes run identically: tickets, emails, WP sync webhooks. Test
+   * orders are tagged with isTestOrder in meta for traceability.
+   *
+   * @param opts.promoCodeId  promo code to count (default: order.meta.promoCodeId)
+   * @param opts.isTestOrder  provider-side test flag (order meta is also checked)
+   */
+  async fulfil(
+    orderId: string,
+    opts: { promoCodeId?: string; isTestOrder?: boolean } = {},
+  ): Promise<void> {
+    // ── Detect test mode ─────────────────────────────────────────
+    // Check order meta (set by public-checkout) or the provider's flag
+    const orderForMeta = await this.orders.findOne(orderId);
+    const orderMeta = (orderForMeta.meta as Record<string, unknown>) ?? {};
+    const isTestOrder = !!orderMeta.isTestOrder || !!opts.isTestOrder;
+    const eventId = orderForMeta.eventId;
+
+    // ── Resolve registration name (prefer attendee name over Stripe card name) ──
+    const orderAttendee = orderForMeta.attendeeId
+      ? await this.prisma.attendee.findUnique({
+          where: { id: orderForMeta.attendeeId },
+          select: { firstName: true, lastName: true },
+        })
+      : null;
+    const registrationName = orderAttendee
+      ? `${orderAttendee.firstName} ${orderAttendee.lastName}`
+      : orderForMeta.customerName ?? 'Guest';
+
+    // Persist the resolved registration name so all future DB reads
+    // (refund emails, webhook payloads, etc.) use it instead of Stripe card name
+    if (orderAttendee && registrationName !== orderForMeta.customerName) {
+      await this.orders.update(orderId, { customerName: registrationName });
+    }
+
+    if (isTestOrder) {
+      this.logger.log(`🧪 Test mode order ${orderId} — all processes will run as live (payment was test-mode)`);
+    }
+
+    // Issue tickets (one Ticket per OrderItem quantity unit)
+    // In test mode, tickets are tagged with isTestTicket in their meta
+    let issued: { id: string; code: string; qrPayload: string; ticketTypeId: string }[] = [];
+    try {
+      issued = await this.tickets.issueForOrder(orderId, { isTestTicket: isTestOrder });
+      this.logger.log(
+        `Issued ${issued.length} ticket(s) for order ${orderId}${isTestOrder ? ' [TEST]' : ''}`,
+      );
+    } catch (err) {
+      this.logger.error(`Failed to issue tickets for order ${orderId}: ${err}`);
+      // Order is already marked paid — tickets can be re-issued manually
+    }
+
+    // ── Reassign tickets to recipients (multi-ticket purchase) ─────
+    const recipientAttendees = (orderMeta.recipientAttendees ?? []) as RecipientAttendeeMeta[];
+    const orderTicketTypeIds = (orderForMeta.items ?? [])
+      .map((item: any) => item.ticketTypeId)
+      .filter(Boolean);
+    const orderTicketTypes = orderTicketTypeIds.length > 0
+      ? await this.prisma.ticketType.findMany({
+          where: { id: { in: orderTicketTypeIds } },
+          select: { id: true, name: true, category: true },
+        })
+      : [];
+    const orderTicketTypeNameMap = new Map(orderTicketTypes.map((tt) => [tt.id, tt.name]));
+    const isExhibitorOrder = orderTicketTypes.some((tt) => tt.category === 'exhibitor');
+
+    // Exhibitor staff are recipients of the exhibitor line — or, for orders
+    // placed before carts (untagged recipients), of any exhibitor order.
+    const exhibitorTicketTypeIds = new Set(
+      orderTicketTypes.filter((tt) => tt.category === 'exhibitor').map((tt) => tt.id),
+    );
+    const visitorRecipients = recipientAttendees.filter((r) =>
+      r.ticketTypeId ? !exhibitorTicketTypeIds.has(r.ticketTypeId) : !isExhibitorOrder,
+    );
+
+    if (visitorRecipients.length > 0 && issued.length > 0) {
+      const itemMetaByType = new Map(
+        (orderForMeta.items ?? []).map((item) => [
+          item.ticketTypeId,
+          (item.meta as Record<string, unknown>) ?? {},
+        ]),
+      );
+      const assignments = assignRecipientTickets(issued, visitorRecipients, (ticketTypeId) => {
+        const lineSelf = ticketTypeId ? itemMetaByType.get(ticketTypeId)?.includeTicketForSelf : undefined;
+        return typeof lineSelf === 'boolean' ? lineSelf : orderMeta.includeTicketForSelf !== false;
+      });
+      for (const { ticketId, attendeeId } of assignments) {
+        await this.prisma.ticket.update({
+          where: { id: ticketId },
+          data: { attendeeId },
+        });
+      }
+      this.logger.log(
+        `Reassigned ${assignments.length} ticket(s) to recipients for order ${orderId}`,
+      );
+
+      // Send gift notification emails to VISITOR recipients only. Exhibitor
+      // staff are provisioned as booth staff (portal invite / set-password) via
+      // provisionExhibitorForOrder below, so they must NOT also receive the
+      // attendee-registration gift email (which would point them at the wrong form).
+      const registrationBaseUrl = (orderMeta.attendeeRegisterBaseUrl ?? orderMeta.registrationBaseUrl) as string;
+      if (registrationBaseUrl) {
+        const eventForGift = await this.orders.findEventForOrder(orderId);
+        const purchaserName = registrationName;
+        const giftEventMeta = (eventForGift?.meta as Record<string, any>) ?? {};
+
+        const firstTicketTypeName = orderTicketTypes[0]?.name ?? 'Ticket';
+
+        for (const recipient of visitorRecipients) {
+          this.email
+            .sendTicketGiftNotification(recipient.email, {
+              recipientName: recipient.firstName,
+              purchaserName,
+              eventName: eventForGift?.name ?? 'Event',
+              eventDate: eventForGift?.startDate ? formatEventDateIso(eventForGift.startDate) : '',
+              eventVenue: [eventForGift?.venue, eventForGift?.venueAddress].filter(Boolean).join(', '),
+              eventVenueMapUrl: giftEventMeta.venueMapUrl || undefined,
+              ticketTypeName: recipient.ticketTypeId
+                ? orderTicketTypeNameMap.get(recipient.ticketTypeId) ?? firstTicketTypeName
+                : firstTicketTypeName,
+              registrationUrl: `${registrationBaseUrl}?token=${recipient.registrationToken}`,
+            })
+            .catch((err) =>
+              this.logger.error(`Gift notification failed for ${recipient.email}: ${err}`),
+            );
+        }
+        this.logger.log(
+          `Sent ${visitorRecipients.length} gift notification(s) for order ${orderId}${isTestOrder ? ' [TEST]' : ''}`,
+        );
+
+        // Schedule 7-day and 30-day registration reminders
+        for (const recipient of visitorRecipients) {
+          this.registrationReminder
+            .scheduleReminders(recipient.attendeeId, eventId)
+            .catch((err) =>
+              this.logger.error(`Reminder scheduling failed for ${recipient.email}: ${err}`),
+            );
+        }
+      }
+    }
+
+    // Fetch the order to get details for SSE broadcast
+    const paidOrder = await this.orders.findOne(orderId);
+    if (paidOrder) {
+      this.sse.emitOrder(paidOrder.eventId, {
+        orderId: paidOrder.id,
+        orderNumber: paidOrder.orderNumber,
+        totalCents: paidOrder.totalCents,
+        currency: paidOrder.currency,
+        status: 'paid',
+        testMode: isTestOrder || undefined,
+      });
+    }
+
+    // Send order confirmation email (real in both modes — user needs their ticket)
+    const event = await this.orders.findEventForOrder(orderId);
+    const eventMeta = (event?.meta as Record<string, any>) ?? {};
+    if (paidOrder && paidOrder.customerEmail) {
+      try {
+        const ticketDetails = paidOrder.items.map((item) => {
+          const addOn = orderItemAddOn(item.meta);
+          return {
+            typeName: addOn
+              ? addOnText(addOn.optionLabel, parseLocale(orderMeta.invoiceLanguage as string))
+              : orderTicketTypeNameMap.get(item.ticketTypeId!) ?? 'Ticket',
+            quantity: item.quantity,
+            qrPayload: '',
+          };
+        });
+
+        // ── Generate invoice PDF & public access token ──
+        let invoicePdf: { bytes: Uint8Array; fileName: string } | undefined;
+        let invoiceUrl: string | undefined;
+        try {
+          // Create a unique invoice access token and store it in order meta
+          const invoiceToken = randomBytes(16).toString('hex');
+          const invoiceTokenUuid = [
+            invoiceToken.slice(0, 8),
+            invoiceToken.slice(8, 12),
+            '4' + invoiceToken.slice(13, 16),
+            ((parseInt(invoiceToken[16], 16) & 0x3) | 0x8).toString(16) + invoiceToken.slice(17, 20),
+            invoiceToken.slice(20, 32),
+          ].join('-');
+
+          const existingMeta = (paidOrder.meta as Record<string, any>) ?? {};
+          await this.prisma.order.update({
+            where: { id: orderId },
+            data: { meta: { ...existingMeta, invoiceToken: invoiceTokenUuid } },
+          });
+
+          const result = await this.invoices.generateInvoice(orderId);
+          invoicePdf = { bytes: result.pdfBytes, fileName: result.fileName };
+          invoiceUrl = `https://tix.swiss-robotics.org/api/invoices/t/${invoiceTokenUuid}`;
+          this.logger.log(`Invoice ${result.invoiceNumber} generated for order ${orderId}`);
+        } catch (invoiceErr) {
+          this.logger.error(`Invoice generation failed for order ${orderId}: ${invoiceErr}`);
+          // Non-blocking: email still goes out without invoice
+        }
+
+        await this.email.sendOrderConfirmation(paidOrder.customerEmail, {
+          customerName: registrationName,
+          orderNumber: paidOrder.orderNumber,
+          totalFormatted: (paidOrder.totalCents / 100).toFixed(2),
+          currency: paidOrder.currency,
+          tickets: ticketDetails,
+          ticketCodes: issued.map((t) => t.code),
+          apiBaseUrl: 'https://tix.swiss-robotics.org',
+          eventName: event?.name ?? 'Event',
+          eventDate: event?.startDate ? formatEventDateIso(event.startDate) : '',
+          eventVenue: [event?.venue, event?.venueAddress].filter(Boolean).join(', '),
+          eventVenueMapUrl: eventMeta.venueMapUrl || undefined,
+          isExhibitor: isExhibitorOrder,
+          language: (orderMeta.invoiceLanguage as string) ?? undefined,
+          invoicePdf,
+          invoiceUrl,
+          otherRecipientCount: recipientAttendees.length > 0 ? recipientAttendees.length : undefined,
+        });
+      } catch (err) {
+        this.logger.error(`Failed to send confirmation email for order ${orderId}: ${err}`);
+      }
+    }
+
+    // ── Exhibitor provisioning: auto-create account, profile, event link,
+    //    password set/reset link, welcome email, and booth-staff invites.
+    //    Shared with the free/comp checkout path via provisionExhibitorForOrder.
+    //    Non-exhibitor orders are a no-op inside the service.
+    if (paidOrder && paidOrder.customerEmail) {
+      if (isExhibitorOrder) {
+        try {
+          await this.exhibitorPortal.provisionExhibitorForOrder(orderId);
+        } catch (err) {
+          this.logger.error(`Exhibitor provisioning failed for order ${orderId}: ${err}`);
+        }
+      }
+    } else if (paidOrder) {
+      this.logger.warn(`Order ${orderId} has no customer email — skipping confirmation email and exhibitor provisioning`);
+    }
+
+    // Send admin notification for new order (real in both modes)
+    try {
+      const notifyEnabled = await this.settings.resolve('notify_new_order');
+      if (notifyEnabled === 'true') {
+        const recipientStr = await this.settings.resolve('notification_emails');
+        const recipients = recipientStr.split(',').map((e) => e.trim()).filter(Boolean);
+        if (recipients.length > 0 && paidOrder) {
+          const ticketCount = paidOrder.items.reduce(
+            (sum: number, item: { quantity: number }) => sum + item.quantity, 0,
+          );
+
+          // Resolve ticket type names for breakdown
+          const adminTtIds = (paidOrder.items ?? []).map((item: any) => item.ticketTypeId).filter(Boolean);
+          const adminTts = adminTtIds.length > 0
+            ? await this.prisma.ticketType.findMany({
+                where: { id: { in: adminTtIds } },
+                select: { id: true, name: true, category: true },
+              })
+            : [];
+          const adminTtMap = new Map(adminTts.map((tt) => [tt.id, tt]));
+          const isExhibitor = adminTts.some((tt) => tt.category === 'exhibitor');
+
+          const ticketBreakdown = paidOrder.items.map((item: any) => ({
+            name: orderItemAddOn(item.meta)
+              ? addOnText(orderItemAddOn(item.meta)!.optionLabel)
+              : adminTtMap.get(item.ticketTypeId)?.name ?? 'Ticket',
+            quantity: item.quantity,
+          }));
+
+          // Collect staff names from order meta
+          const staffNames = (recipientAttendees ?? []).map(
+            (r: { firstName: string; lastName: string }) => `${r.firstName} ${r.lastName}`,
+          );
+
+          await this.email.sendNewOrderNotification(recipients, {
+            orderNumber: paidOrder.orderNumber,
+            customerName: registrationName,
+            customerEmail: paidOrder.customerEmail ?? '',
+            totalFormatted: (paidOrder.totalCents / 100).toFixed(2),
+            currency: paidOrder.currency,
+            ticketCount,
+            eventName: event?.name ?? 'Event',
+            eventDate: event?.startDate ? formatEventDateIso(event.startDate) : '',
+            ticketBreakdown,
+            isExhibitor,
+            companyName: (orderMeta.companyName as string) ?? undefined,
+            staffNames: staffNames.length > 0 ? staffNames : undefined,
+          });
+          this.logger.log(`Admin notification sent for order ${orderId}`);
+        }
+      }
+    } catch (err) {
+      this.logger.error(`Failed to send admin order notification: ${err}`);
+    }
+
+    // ── WP Sync: outgoing order.paid webhook ─────────────────────
+    // Delegated to the shared OrderPaidSyncService so the Stripe path, the
+    // free/100%-off checkout path, and the manual backfill all dispatch an
+    // identical payload. Always fires — test mode only affects Stripe payment
+    // (dummy cards); all downstream WP processing runs identically.
+    this.orderPaidSync
+      .dispatchForOrder(orderId, { isTestOrder })
+      .catch((err) =>
+        this.logger.error(`Webhook dispatch failed for order.paid: ${err}`),
+      );
+
+    // Increment promo code usage if this order used one
+    const promoCodeId = opts.promoCodeId ?? (orderMeta.promoCodeId as string | undefined);
+    if (promoCodeId) {
+      try {
+        await this.promoCodes.incrementUsage(promoCodeId);
+        this.logger.log(`Promo code ${promoCodeId} usage incremented for order ${orderId}`);
+      } catch (err) {
+        this.logger.error(`Failed to increment promo code usage: ${err}`);
+      }
+    }  }
+}
@@ -25,7 +25,8 @@ export interface ResyncSummary {
  * built and dispatched to swiss-robotics.org (sratix-control).
  *
  * Shared by every path that completes an order so none can be forgotten:
- *   - the Stripe `checkout.session.completed` handler (card payments),
+ *   - the order fulfilment after a confirmed payment (OrderFulfillmentService:
+ *     Stripe `checkout.session.completed` and matched bank transfers),
  *   - the free / 100%-off-discount checkout path (public-checkout.controller),
  *   - the manual re-sync / backfill action.
  *
@@ -240,9 +241,9 @@ export class OrderPaidSyncService {
     payload.membershipOptOut = membershipOptOut;
 
     // Fetch ticket types with pricing variants for this order's items
-    const ticketTypeIds = (paidOrder.items ?? []).map(
-      (item: any) => item.ticketTypeId,
-    );
+    const ticketTypeIds = (paidOrder.items ?? [])
+      .map((item: any) => item.ticketTypeId)
+      .filter(Boolean);
     if (ticketTypeIds.length > 0) {
       const ticketTypes = await this.prisma.ticketType.findMany({
         where: { id: { in: ticketTypeIds } },
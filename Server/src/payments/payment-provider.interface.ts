@@ -0,0 +1,118 @@
+import type { IncomingHttpHeaders } from 'http';
+
+/**
+ * Payment provider abstraction.
+ *
+ * Checkout, webhooks, refunds and the dashboard's payment-method lookup go
+ * through this interface so the hosted payment page can be Stripe,
+ * PostFinance Checkout, or the in-process fake used by tests. Providers are
+ * stateless wrappers around the provider API — payment attempts are
+ * persisted by PaymentsService as `Payment` rows.
+ */
+
+export type PaymentProviderId = 'stripe' | 'postfinance' | 'fake';
+
+export interface PaymentLineItem {
+  name: string;
+  description?: string;
+  unitAmountCents: number;
+  quantity: number;
+  /** Maps each cart line back to its ticket type on the provider side. */
+  ticketTypeId?: string;
+}
+
+export interface CreatePaymentSessionParams {
+  orderId: string;
+  orderNumber: string;
+  customerEmail: string;
+  currency: string;
+  lineItems: PaymentLineItem[];
+  successUrl: string;
+  cancelUrl: string;
+  /** Echoed back on webhook events (sratix_order_id is always included). */
+  metadata?: Record<string, string>;
+  /** Order-level discount, applied once on top of the line items. */
+  discountAmountCents?: number;
+  /** Session lifetime, where the provider supports one. */
+  expiresInMinutes?: number;
+}
+
+export interface PaymentSession {
+  /** Provider-side ID of the hosted payment page (Payment.providerSessionId). */
+  sessionId: string;
+  /** Where the buyer is redirected to pay. */
+  url: string;
+}
+
+export interface PaymentSessionStatus {
+  status: 'open' | 'paid' | 'expired' | 'failed';
+  amountCents: number | null;
+  currency: string | null;
+}
+
+export interface PaymentMethodDetails {
+  /** Card brand (visa, mastercard) or wallet / method name (TWINT). */
+  brand: string | null;
+  last4: string | null;
+  expMonth: number | null;
+  expYear: number | null;
+  country: string | null;
+}
+
+/** Provider webhooks normalized to the three outcomes SRAtix acts on. */
+export type PaymentWebhookEvent =
+  | {
+      type: 'payment.succeeded';
+      sessionId: string;
+      /** Captured payment — what refunds are issued against. */
+      paymentId: string | null;
+      metadata: Record<string, string>;
+      customerEmail: string | null;
+      customerName: string | null;
+    }
+  | {
+      type: 'payment.expired' | 'payment.failed';
+      sessionId: string;
+      metadata: Record<string, string>;
+    }
+  | {
+      type: 'payment.refunded';
+      paymentId: string;
+      /** Total refunded on the payment so far, across all refunds. */
+      amountRefundedCents: number;
+      refundId: string | null;
+    };
+
+export interface PaymentProvider {
+  readonly id: PaymentProviderId;
+  /** Human-readable name for logs and error messages. */
+  readonly label: string;
+
+  /** Whether credentials are configured — checkout is refused otherwise. */
+  isConfigured(): Promise<boolean>;
+
+  /** Whether the configured credentials point at a test environment. */
+  isTestMode(): Promise<boolean>;
+
+  /** Create a hosted payment page for an order. */
+  createSession(params: CreatePaymentSessionParams): Promise<PaymentSession>;
+
+  getSessionStatus(sessionId: string): Promise<PaymentSessionStatus>;
+
+  /**
+   * Authenticate an incoming webhook and normalize it.
+   * Returns null for events SRAtix does not act on.
+   *
+   * @throws Error when the request cannot be authenticated
+   */
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): Promise<PaymentWebhookEvent | null>;
+
+  /** Refund part or all of a captured payment. */
+  refund(
+    paymentId: string,
+    amountCents: number,
+    metadata: Record<string, string>,
+  ): Promise<{ refundId: string }>;
+
+  getPaymentMethodDetails(paymentId: string): Promise<PaymentMethodDetails | null>;
+}
@@ -0,0 +1,182 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { PaymentWebhooksController } from './payment-webhooks.controller';
+import { PaymentsService } from './payments.service';
+import { FakePaymentProvider } from './providers/fake.provider';
+
+/**
+ * Checkout → webhook round trips through the fake provider. PaymentsService
+ * runs for real on an in-memory `payments` table, so these pin what the
+ * generic payment records promise: several attempts per order, an order
+ * paid and fulfilled exactly once, and an abandoned attempt never expiring
+ * an order that is still being paid (or already was).
+ */
+describe('PaymentWebhooksController', () => {
+  const order = { id: 'ord-1', eventId: 'evt-1', orderNumber: 'SRA-1', currency: 'CHF' };
+
+  function makePrisma(orderStatus = 'pending') {
+    const rows: any[] = [];
+    const matches = (row: any, where: any) =>
+      Object.entries(where).every(([key, cond]: [string, any]) =>
+        cond && typeof cond === 'object' && 'not' in cond ? row[key] !== cond.not : row[key] === cond,
+      );
+    return {
+      rows,
+      payment: {
+        create: jest.fn(async ({ data }: any) => {
+          const row = { id: `pay-${rows.length + 1}`, status: 'pending', providerSessionId: null, createdAt: new Date(), ...data };
+          rows.push(row);
+          return row;
+        }),
+        update: jest.fn(async ({ where, data }: any) => Object.assign(rows.find((r) => r.id === where.id), data)),
+        updateMany: jest.fn(async ({ where, data }: any) => {
+          const hit = rows.filter((r) => matches(r, where));
+          hit.forEach((r) => Object.assign(r, data));
+          return { count: hit.length };
+        }),
+        findUnique: jest.fn(async ({ where }: any) =>
+          rows.find((r) => matches(r, where.provider_providerSessionId)) ?? null,
+        ),
+        findFirst: jest.fn(async ({ where }: any) => rows.find((r) => matches(r, where)) ?? null),
+        count: jest.fn(async ({ where }: any) => rows.filter((r) => matches(r, where)).length),
+      },
+      order: {
+        findUnique: jest.fn().mockResolvedValue({ status: orderStatus, eventId: 'evt-1', totalCents: 5000, currency: 'CHF' }),
+      },
+    };
+  }
+
+  function setup(orderStatus?: string) {
+    const fake = new FakePaymentProvider();
+    const prisma = makePrisma(orderStatus);
+
+    const payments: any = Object.create(PaymentsService.prototype);
+    payments.prisma = prisma;
+    payments.settings = { resolve: jest.fn().mockResolvedValue('fake') };
+    payments.providers = new Map([['fake', fake]]);
+    payments.logger = { log: jest.fn() };
+
+    const controller: any = Object.create(PaymentWebhooksController.prototype);
+    Object.assign(controller, {
+      payments,
+      prisma,
+      orders: { markPaid: jest.fn(), updateStatus: jest.fn() },
+      fulfillment: { fulfil: jest.fn() },
+      ticketHolds: { releaseForOrder: jest.fn() },
+      refunds: { reconcileProviderRefund: jest.fn() },
+      logistics: { markPaid: jest.fn(), markExpired: jest.fn() },
+      logger: { log: jest.fn(), warn: jest.fn(), debug: jest.fn() },
+    });
+
+    const deliver = ({ rawBody, headers }: { rawBody: Buffer; headers: any }) =>
+      controller.handleWebhook('fake', { rawBody, headers });
+
+    const checkout = () =>
+      payments.startCheckout(order, 5000, {
+        customerEmail: 'buyer@example.com',
+        lineItems: [{ name: 'Day pass', unitAmountCents: 5000, quantity: 1 }],
+        successUrl: 'https://example.com/ok',
+        cancelUrl: 'https://example.com/cancel',
+        metadata: { sratix_promo_code_id: 'promo-1' },
+      });
+
+    return { fake, prisma, controller, deliver, checkout };
+  }
+
+  it('records each checkout as its own attempt', async () => {
+    const { prisma, checkout } = setup();
+
+    const first = await checkout();
+    const second = await checkout();
+
+    expect(first.sessionId).not.toBe(second.sessionId);
+    expect(prisma.rows.map((r) => [r.provider, r.providerSessionId, r.status])).toEqual([
+      ['fake', first.sessionId, 'pending'],
+      ['fake', second.sessionId, 'pending'],
+    ]);
+  });
+
+  it('pays and fulfils the order once, however often the webhook is retried', async () => {
+    const { fake, prisma, controller, deliver, checkout } = setup();
+    const { sessionId } = await checkout();
+
+    const webhook = fake.complete(sessionId, { name: 'Ada Buyer' });
+    await deliver(webhook);
+    await deliver(webhook);
+
+    const payment = prisma.rows[0];
+    expect(payment.status).toBe('succeeded');
+    expect(payment.providerPaymentId).toMatch(/^fake_pi_/);
+    expect(controller.orders.markPaid).toHaveBeenCalledTimes(1);
+    expect(controller.orders.markPaid).toHaveBeenCalledWith('ord-1', {
+      method: 'fake',
+      providerPaymentId: payment.providerPaymentId,
+      customerEmail: 'buyer@example.com',
+      customerName: 'Ada Buyer',
+    });
+    expect(controller.fulfillment.fulfil).toHaveBeenCalledTimes(1);
+    expect(controller.fulfillment.fulfil).toHaveBeenCalledWith('ord-1', {
+      promoCodeId: 'promo-1',
+      isTestOrder: false,
+    });
+  });
+
+  it('keeps the order open while a retry is still pending', async () => {
+    const { fake, prisma, controller, deliver, checkout } = setup();
+    const abandoned = await checkout();
+    await checkout();
+
+    await deliver(fake.expire(abandoned.sessionId));
+
+    expect(prisma.rows.map((r) => r.status)).toEqual(['expired', 'pending']);
+    expect(controller.orders.updateStatus).not.toHaveBeenCalled();
+    expect(controller.ticketHolds.releaseForOrder).not.toHaveBeenCalled();
+  });
+
+  it('expires the order and releases its seats when the last attempt lapses', async () => {
+    const { fake, controller, deliver, checkout } = setup();
+    const { sessionId } = await checkout();
+
+    await deliver(fake.expire(sessionId));
+
+    expect(controller.ticketHolds.releaseForOrder).toHaveBeenCalledWith('ord-1', 'session_expired');
+    expect(controller.orders.updateStatus).toHaveBeenCalledWith('ord-1', 'expired');
+  });
+
+  it('does not expire an order an earlier attempt already paid', async () => {
+    const { fake, controller, deliver, checkout } = setup('paid');
+    const { sessionId } = await checkout();
+
+    await deliver(fake.expire(sessionId));
+
+    expect(controller.orders.updateStatus).not.toHaveBeenCalled();
+  });
+
+  it('reconciles provider-side refunds against the paid attempt', async () => {
+    const { fake, prisma, controller, deliver, checkout } = setup();
+    const { sessionId } = await checkout();
+    await deliver(fake.complete(sessionId));
+    const payment = prisma.rows[0];
+
+    await deliver(fake.refunded(payment.providerPaymentId, 2000));
+
+    expect(controller.refunds.reconcileProviderRefund).toHaveBeenCalledWith(
+      payment,
+      2000,
+      expect.stringMatching(/^fake_re_/),
+    );
+  });
+
+  it('rejects webhooks with a bad signature and unknown providers', async () => {
+    const { fake, controller, deliver, checkout } = setup();
+    const { sessionId } = await checkout();
+    const webhook = fake.complete(sessionId);
+
+    await expect(
+      deliver({ rawBody: webhook.rawBody, headers: { 'x-fake-signature': 'forged' } }),
+    ).rejects.toThrow(BadRequestException);
+    await expect(
+      controller.handleWebhook('paypal', { rawBody: webhook.rawBody, headers: webhook.headers }),
+    ).rejects.toThrow(NotFoundException);
+    expect(controller.orders.markPaid).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,352 @@
+import {
+  Controller,
+  Post,
+  Param,
+  Req,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  BadRequestException,
+} from '@nestjs/common';
+import type { FastifyRequest } from 'fastify';
+import { OrdersService } from '../orders/orders.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { HYBRID_TIER_MAP, TIER_WP_PRODUCT_MAP, type MembershipTier } from '../ticket-types/ticket-types.service';
+import { SkipRateLimit } from '../common/guards/rate-limit.guard';
+import { LogisticsService } from '../logistics/logistics.service';
+import { TicketHoldsService } from '../ticket-holds/ticket-holds.service';
+import { RefundsService } from './refunds.service';
+import { OrderFulfillmentService } from './order-fulfillment.service';
+import { PaymentsService } from './payments.service';
+import type { PaymentProviderId, PaymentWebhookEvent } from './payment-provider.interface';
+
+/**
+ * Payment Webhook Controller.
+ *
+ * Mounted at /webhooks/payments/:provider (excluded from /api prefix);
+ * /webhooks/stripe stays as an alias for endpoints already registered in
+ * the Stripe dashboard. No auth guard — each provider authenticates its
+ * own webhooks in `parseWebhook` (Stripe: signature over the raw body,
+ * PostFinance: re-reading the entity through the API).
+ *
+ * Fastify note: raw body access requires the rawBody option on the
+ * FastifyAdapter; signatures are computed over the unparsed buffer.
+ */
+@Controller('webhooks')
+@SkipRateLimit() // Providers handle their own retry logic
+export class PaymentWebhooksController {
+  private readonly logger = new Logger(PaymentWebhooksController.name);
+
+  constructor(
+    private readonly payments: PaymentsService,
+    private readonly orders: OrdersService,
+    private readonly prisma: PrismaService,
+    private readonly logistics: LogisticsService,
+    private readonly ticketHolds: TicketHoldsService,
+    private readonly refunds: RefundsService,
+    private readonly fulfillment: OrderFulfillmentService,
+  ) {}
+
+  @Post('stripe')
+  @HttpCode(HttpStatus.OK)
+  handleStripeWebhook(@Req() req: FastifyRequest) {
+    return this.handleWebhook('stripe', req);
+  }
+
+  @Post('payments/:provider')
+  @HttpCode(HttpStatus.OK)
+  async handleWebhook(
+    @Param('provider') providerId: string,
+    @Req() req: FastifyRequest,
+  ) {
+    const provider = this.payments.provider(providerId);
+
+    // Fastify stores the raw body when `rawBody: true` is set on the adapter
+    const rawBody = (req as any).rawBody as Buffer | undefined;
+    if (!rawBody) {
+      throw new BadRequestException(
+        'Raw body not available — ensure rawBody is enabled on FastifyAdapter',
+      );
+    }
+
+    let event: PaymentWebhookEvent | null;
+    try {
+      event = await provider.parseWebhook(rawBody, req.headers);
+    } catch (err) {
+      this.logger.warn(`${provider.label} webhook verification failed: ${err}`);
+      throw new BadRequestException('Invalid webhook signature');
+    }
+
+    if (!event) {
+      this.logger.debug(`${provider.label} webhook ignored`);
+      return { received: true };
+    }
+
+    this.logger.log(`${provider.label} webhook received: ${event.type}`);
+
+    switch (event.type) {
+      case 'payment.succeeded':
+        await this.handlePaymentSucceeded(provider.id, event);
+        break;
+
+      case 'payment.expired':
+      case 'payment.failed':
+        await this.handlePaymentClosed(provider.id, event);
+        break;
+
+      case 'payment.refunded':
+        await this.handlePaymentRefunded(provider.id, event);
+        break;
+    }
+
+    return { received: true };
+  }
+
+  /**
+   * Payment succeeded — mark the order as paid, issue tickets, fire
+   * attendee webhooks. Retried webhooks for the same attempt are no-ops.
+   *
+   * Test mode only affects the provider side (dummy cards, test space).
+   * All downstream processes run identically: tickets, emails, WP sync webhooks.
+   * Test orders are tagged with isTestOrder in meta for traceability.
+   */
+  private async handlePaymentSucceeded(
+    providerId: PaymentProviderId,
+    event: Extract<PaymentWebhookEvent, { type: 'payment.succeeded' }>,
+  ) {
+    // ── Logistics order? Delegate to logistics service ────────────────
+    const logisticsOrderId = event.metadata.sratix_logistics_order_id;
+    if (logisticsOrderId) {
+      this.logger.log(`Logistics payment confirmed for order ${logisticsOrderId}`);
+      await this.logistics.markPaid(
+        logisticsOrderId,
+        event.paymentId,
+        event.customerEmail,
+        event.customerName,
+      );
+      return;
+    }
+
+    const orderId = event.metadata.sratix_order_id;
+    if (!orderId) {
+      this.logger.warn('Payment succeeded but no sratix_order_id in metadata');
+      return;
+    }
+
+    const first = await this.payments.recordSucceeded(
+      providerId,
+      orderId,
+      event.sessionId,
+      event.paymentId,
+    );
+    if (!first) {
+      this.logger.debug(`Payment for session ${event.sessionId} already processed`);
+      return;
+    }
+
+    this.logger.log(
+      `Payment confirmed for order ${orderId} — session ${event.sessionId}`,
+    );
+
+    await this.orders.markPaid(orderId, {
+      method: providerId,
+      providerPaymentId: event.paymentId,
+      customerEmail: event.customerEmail,
+      customerName: event.customerName,
+    });
+
+    // Everything after the payment (tickets, emails, invoice, exhibitor
+    // provisioning, WP sync, promo usage) is shared with bank transfers
+    await this.fulfillment.fulfil(orderId, {
+      promoCodeId: event.metadata.sratix_promo_code_id,
+      isTestOrder: event.metadata.sratix_test_mode === '1',
+    });
+  }
+
+  /**
+   * Payment page expired or was declined. Once no other attempt is in
+   * progress, release the order's held inventory and mark it as expired.
+   */
+  private async handlePaymentClosed(
+    providerId: PaymentProviderId,
+    event: Extract<PaymentWebhookEvent, { type: 'payment.expired' | 'payment.failed' }>,
+  ) {
+    // ── Logistics order? ──────────────────────────────────────────────
+    const logisticsOrderId = event.metadata.sratix_logistics_order_id;
+    if (logisticsOrderId) {
+      this.logger.log(`Logistics checkout expired for order ${logisticsOrderId}`);
+      await this.logistics.markExpired(logisticsOrderId);
+      return;
+    }
+
+    const orderId = event.metadata.sratix_order_id;
+    if (!orderId) return;
+
+    const { otherPending } = await this.payments.recordClosed(
+      providerId,
+      orderId,
+      event.sessionId,
+      event.type === 'payment.expired' ? 'expired' : 'failed',
+    );
+
+    // A retry may still be open, or an earlier attempt may have paid
+    const order = await this.prisma.order.findUnique({
+      where: { id: orderId },
+      select: { status: true },
+    });
+    if (otherPending || order?.status !== 'pending') {
+      this.logger.log(`Payment attempt ${event.sessionId} closed for order ${orderId}`);
+      return;
+    }
+
+    this.logger.log(`Checkout expired for order ${orderId}`);
+    await this.ticketHolds.releaseForOrder(orderId, 'session_expired');
+    await this.orders.updateStatus(orderId, 'expired');
+  }
+
+  /**
+   * Refund processed (possibly from the provider's back office).
+   * Refunds issued through SRAtix are already recorded; anything else is
+   * reconciled into an OrderRefund so the order status, buyer email and
+   * order.refunded webhook match a dashboard refund.
+   */
+  private async handlePaymentRefunded(
+    providerId: PaymentProviderId,
+    event: Extract<PaymentWebhookEvent, { type: 'payment.refunded' }>,
+  ) {
+    const payment = await this.payments.findByProviderPaymentId(providerId, event.paymentId);
+    if (!payment) return;
+
+    this.logger.log(`Refund processed for payment ${event.paymentId}`);
+
+    await this.refunds.reconcileProviderRefund(
+      payment,
+      event.amountRefundedCents,
+      event.refundId ?? undefined,
+    );
+  }
+
+  // ─── Test Mode: Simulated Actions Builder ───────────────────
+
+  /**
+   * Build a list of actions that WOULD have been triggered if this were a
+   * live-mode purchase. Used to display on the success page in test mode.
+   *
+   * This mirrors the logic in sratix-control's `on_order_paid` handler
+   * without actually firing the webhook.
+   */
+  private async buildSimulatedActions(
+    paidOrder: any,
+    eventId: string,
+  ): Promise<Array<{ action: string; description: string; detail?: Record<string, unknown> }>> {
+    const actions: Array<{ action: string; description: string; detail?: Record<string, unknown> }> = [];
+
+    // Fetch ticket types for this order
+    const ticketTypeIds = (paidOrder.items ?? [])
+      .map((item: any) => item.ticketTypeId)
+      .filter(Boolean);
+    const ticketTypes = ticketTypeIds.length > 0
+      ? await this.prisma.ticketType.findMany({
+          where: { id: { in: ticketTypeIds } },
+        })
+      : [];
+
+    // Fetch attendee
+    const attendee = paidOrder.attendeeId
+      ? await this.prisma.attendee.findUnique({ where: { id: paidOrder.attendeeId } })
+      : await this.prisma.attendee.findFirst({
+          where: { eventId, email: paidOrder.customerEmail ?? '' },
+        });
+
+    const email = attendee?.email ?? paidOrder.customerEmail ?? 'unknown';
+    const name = attendee
+      ? `${attendee.firstName} ${attendee.lastName}`.trim()
+      : paidOrder.customerName ?? 'Guest';
+
+    // Find membership ticket type. Membership-granting actions are skipped when
+    // the buyer opted out of (or already holds) the SRA membership.
+    const membershipOptOut = !!(
+      (paidOrder.meta as Record<string, unknown>) ?? {}
+    ).membershipOptOut;
+    const membershipTicket = ticketTypes.find(
+      (tt) => tt.membershipTier && tt.wpProductId,
+    );
+
+    // 1. WP User creation / lookup
+    actions.push({
+      action: 'wp_user_find_or_create',
+      description: `Find or create WordPress user for "${name}" (${email})`,
+      detail: { email, name },
+    });
+
+    // 2. WP Role assignment (if membership ticket)
+    if (membershipTicket && !membershipOptOut) {
+      // Hybrid mapping: all bundled tiers map to individual-type → always 'candidate'
+      const mappedTier = HYBRID_TIER_MAP[membershipTicket.membershipTier as MembershipTier]
+        ?? membershipTicket.membershipTier;
+      const mappedProductId = TIER_WP_PRODUCT_MAP[mappedTier as MembershipTier]
+        ?? membershipTicket.wpProductId;
+      actions.push({
+        action: 'wp_role_assign',
+        description: `Assign WP role "candidate" (hybrid mapping: ${membershipTicket.membershipTier} → ${mappedTier})`,
+        detail: { role: 'candidate', originalTier: membershipTicket.membershipTier, mappedTier, mappedProductId },
+      });
+
+      // 3. ProfileGrid group assignment
+      actions.push({
+        action: 'profilegrid_group_assign',
+        description: `Assign ProfileGrid group for mapped tier "${mappedTier}" (WC Product #${mappedProductId})`,
+        detail: {
+          originalTier: membershipTicket.membershipTier,
+          mappedTier,
+          mappedProductId,
+        },
+      });
+
+      // 4. WooCommerce order creation
+      actions.push({
+        action: 'wc_order_create',
+        description: `Create & auto-complete WooCommerce order for Product #${mappedProductId} (${mappedTier})`,
+        detail: {
+          originalProductId: membershipTicket.wpProductId,
+          mappedProductId,
+          totalCents: paidOrder.totalCents,
+          currency: paidOrder.currency,
+        },
+      });
+    }
+
+    // 6. Form data → user meta
+    const formSubmissions = await this.prisma.formSubmission.findMany({
+      where: { eventId, attendeeId: attendee?.id ?? '' },
+      orderBy: { submittedAt: 'desc' },
+      take: 1,
+    });
+    if (formSubmissions.length > 0) {
+      const fieldCount = Object.keys((formSubmissions[0].data as Record<string, unknown>) ?? {}).length;
+      actions.push({
+        action: 'form_data_to_user_meta',
+        description: `Map ${fieldCount} form field(s) to WordPress user meta (ProfileGrid, Resume Manager, etc.)`,
+        detail: { fieldCount },
+      });
+
+      // 7. Resume creation (if opted in)
+      const formData = (formSubmissions[0].data as Record<string, unknown>) ?? {};
+      if (formData.publish_resume === 'yes' || formData.publish_resume === true) {
+        actions.push({
+          action: 'resume_create',
+          description: `Create WP Job Manager resume for "${name}" (publish_resume=yes)`,
+          detail: { professionalTitle: formData.professional_title ?? '' },
+        });
+      }
+    }
+
+    // 8. SRAtix ↔ WP mapping storage
+    actions.push({
+      action: 'store_mappings',
+      description: `Store SRAtix attendee ↔ WP user mapping and ticket meta`,
+    });
+
+    return actions;
+  }
+}
@@ -9,12 +9,15 @@ import {
 import { AuthGuard } from '@nestjs/passport';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
+import { RequirePermission } from '../auth/decorators/require-permission.decorator';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import { JwtPayload } from '../auth/auth.service';
-import { StripeService } from './stripe.service';
+import { PaymentsService } from './payments.service';
 import { OrdersService } from '../orders/orders.service';
 import { PromoCodesService } from '../promo-codes/promo-codes.service';
-import { IsString, IsOptional } from 'class-validator';
+import { RefundsService } from './refunds.service';
+import { addOnText, orderItemAddOn } from '../forms/form-add-ons';
+import { IsString, IsOptional, IsArray, IsInt, IsBoolean, Min } from 'class-validator';
 
 class CreateCheckoutDto {
   @IsString()
@@ -39,23 +42,42 @@ class RefundDto {
   @IsString()
   orderId!: string;
 
+  /** Tickets to refund and void. */
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  ticketIds?: string[];
+
+  /** Overrides the amount derived from `ticketIds`; alone, refunds money only. */
+  @IsInt()
+  @Min(1)
   @IsOptional()
   amountCents?: number;
+
+  @IsString()
+  @IsOptional()
+  reason?: string;
+
+  /** Records a refund paid back outside SRAtix (bank transfer, box office orders). */
+  @IsBoolean()
+  @IsOptional()
+  manual?: boolean;
 }
 
 @Controller('payments')
 @UseGuards(AuthGuard('jwt'), RolesGuard)
 export class PaymentsController {
   constructor(
-    private readonly stripe: StripeService,
+    private readonly payments: PaymentsService,
     private readonly orders: OrdersService,
     private readonly promoCodes: PromoCodesService,
+    private readonly refunds: RefundsService,
   ) {}
 
   /**
    * POST /api/payments/checkout
-   * Create a Stripe Checkout session for an existing order.
-   * Returns the Checkout URL for redirect.
+   * Open a hosted payment page (active provider) for an existing order.
+   * Returns the payment page URL for redirect.
    */
   @Post('checkout')
   @Roles('event_admin', 'admin', 'super_admin', 'box_office', 'attendee')
@@ -66,8 +88,10 @@ export class PaymentsController {
     const order = await this.orders.findOne(dto.orderId);
 
     // Build line items from order items
-    const lineItems = order.items.map((item: { ticketTypeId: string; unitPriceCents: number; quantity: number }) => ({
-      name: `Ticket — ${item.ticketTypeId}`,
+    const lineItems = order.items.map((item) => ({
+      name: orderItemAddOn(item.meta)
+        ? addOnText(orderItemAddOn(item.meta)!.optionLabel)
+        : `Ticket — ${item.ticketTypeId}`,
       unitAmountCents: item.unitPriceCents,
       quantity: item.quantity,
     }));
@@ -77,9 +101,7 @@ export class PaymentsController {
     let discountCents = 0;
 
     if (dto.promoCode) {
-      const ticketTypeIds = order.items.map(
-        (item: { ticketTypeId: string }) => item.ticketTypeId,
-      );
+      const ticketTypeIds = order.items.flatMap((item) => item.ticketTypeId ?? []);
       const validation = await this.promoCodes.validateCode(
         order.eventId,
         dto.promoCode,
@@ -99,8 +121,8 @@ export class PaymentsController {
       discountCents = validation.discountCents;
     }
 
-    // If discount applies, add a negative line item for the discount
-    // (Stripe handles this via coupon — see discountAmountCents below)
+    // The discount is applied once on top of the line items by the
+    // provider (Stripe coupon, PostFinance discount line)
 
     const metadata: Record<string, string> = {
       sratix_event_id: order.eventId,
@@ -110,26 +132,28 @@ export class PaymentsController {
       metadata.sratix_promo_code_id = promoCodeId;
     }
 
-    const { sessionId, url } = await this.stripe.createCheckoutSession({
-      orderId: order.id,
-      orderNumber: order.orderNumber,
-      customerEmail:
-        dto.customerEmail ?? order.customerEmail ?? user.email ?? '',
-      currency: order.currency,
-      lineItems,
-      successUrl: dto.successUrl,
-      cancelUrl: dto.cancelUrl,
-      metadata,
-      discountAmountCents: discountCents > 0 ? discountCents : undefined,
-    });
-
-    // Persist Stripe session ID and promo code in order meta
-    await this.orders.updateStripeSession(order.id, sessionId);
+    const { paymentId, provider, sessionId, url } = await this.payments.startCheckout(
+      order,
+      order.totalCents - discountCents,
+      {
+        customerEmail:
+          dto.customerEmail ?? order.customerEmail ?? user.email ?? '',
+        lineItems,
+        successUrl: dto.successUrl,
+        cancelUrl: dto.cancelUrl,
+        metadata,
+        discountAmountCents: discountCents > 0 ? discountCents : undefined,
+      },
+    );
+
+    // Persist promo code in order meta (the attempt is recorded by startCheckout)
     if (promoCodeId) {
       await this.orders.updateMeta(order.id, { promoCodeId, discountCents });
     }
 
     return {
+      paymentId,
+      provider,
       sessionId,
       url,
       ...(discountCents > 0 && {
@@ -144,53 +168,41 @@ export class PaymentsController {
 
   /**
    * GET /api/payments/status/:orderId
-   * Check payment status of an order via its Stripe session.
+   * Check payment status of an order via its latest payment attempt.
    */
   @Get('status/:orderId')
   @Roles('event_admin', 'admin', 'super_admin', 'box_office', 'attendee')
   async getStatus(@Param('orderId') orderId: string) {
     const order = await this.orders.findOne(orderId);
 
-    if (!order.stripeSessionId) {
+    const latest = await this.payments.getLatestStatus(order.id);
+    if (!latest) {
       return { orderId, paymentStatus: 'no_session' };
     }
 
-    const session = await this.stripe.getSession(order.stripeSessionId);
-
     return {
       orderId,
       orderNumber: order.orderNumber,
-      paymentStatus: session.payment_status,
-      amountTotal: session.amount_total,
-      currency: session.currency,
+      provider: latest.provider,
+      paymentStatus: latest.status,
+      amountTotal: latest.amountCents,
+      currency: latest.currency,
     };
   }
 
   /**
    * POST /api/payments/refund
-   * Issue a refund for a paid order.
+   * Refund specific tickets and/or an amount of a paid order.
+   * Selected tickets are voided; the order becomes `partially_refunded`
+   * or `refunded` depending on the running refunded total.
    */
   @Post('refund')
-  @Roles('event_admin', 'admin', 'super_admin')
-  async refund(@Body() dto: RefundDto) {
-    const order = await this.orders.findOne(dto.orderId);
-
-    if (!order.stripePaymentId) {
-      return { error: 'Order has no payment intent — cannot refund' };
-    }
-
-    const refund = await this.stripe.refund(
-      order.stripePaymentId,
-      dto.amountCents,
+  @RequirePermission('orders.refund')
+  async refund(@Body() dto: RefundDto, @CurrentUser() user: JwtPayload) {
+    return this.refunds.refundOrder(
+      dto.orderId,
+      { ticketIds: dto.ticketIds, amountCents: dto.amountCents, reason: dto.reason, manual: dto.manual },
+      { userId: user.sub, roles: user.roles },
     );
-
-    // Mark order as refunded
-    await this.orders.updateStatus(order.id, 'refunded');
-
-    return {
-      refundId: refund.id,
-      amount: refund.amount,
-      status: refund.status,
-    };
   }
 }
@@ -1,11 +1,18 @@
 import { Module, forwardRef } from '@nestjs/common';
 import { StripeService } from './stripe.service';
+import { PaymentsService } from './payments.service';
+import { StripePaymentProvider } from './providers/stripe.provider';
+import { PostFinanceCheckoutProvider } from './providers/postfinance.provider';
 import { OrderPaidSyncService } from './order-paid-sync.service';
+import { RefundsService } from './refunds.service';
+import { OrderFulfillmentService } from './order-fulfillment.service';
+import { BankReconciliationService } from './bank-reconciliation.service';
 import { PaymentsController } from './payments.controller';
 import { PublicCheckoutController } from './public-checkout.controller';
-import { StripeWebhookController } from './stripe-webhook.controller';
+import { PaymentWebhooksController } from './payment-webhooks.controller';
 import { MembershipSyncController } from './membership-sync.controller';
 import { ExhibitorSetupController } from './exhibitor-setup.controller';
+import { BankTransfersController } from './bank-transfers.controller';
 import { OrdersModule } from '../orders/orders.module';
 import { TicketsModule } from '../tickets/tickets.module';
 import { SseModule } from '../sse/sse.module';
@@ -20,11 +27,13 @@ import { TicketTypesModule } from '../ticket-types/ticket-types.module';
 import { LogisticsModule } from '../logistics/logistics.module';
 import { InvoicesModule } from '../invoices/invoices.module';
 import { ExhibitorPortalModule } from '../exhibitor-portal/exhibitor-portal.module';
+import { TicketHoldsModule } from '../ticket-holds/ticket-holds.module';
+import { WaitlistModule } from '../waitlist/waitlist.module';
 
 @Module({
-  imports: [OrdersModule, TicketsModule, SseModule, EmailModule, PromoCodesModule, OutgoingWebhooksModule, forwardRef(() => AttendeesModule), forwardRef(() => SettingsModule), FormsModule, AuthModule, TicketTypesModule, forwardRef(() => LogisticsModule), InvoicesModule, ExhibitorPortalModule],
-  controllers: [PaymentsController, PublicCheckoutController, StripeWebhookController, MembershipSyncController, ExhibitorSetupController],
-  providers: [StripeService, OrderPaidSyncService],
-  exports: [StripeService, OrderPaidSyncService],
+  imports: [OrdersModule, TicketsModule, SseModule, EmailModule, PromoCodesModule, OutgoingWebhooksModule, forwardRef(() => AttendeesModule), forwardRef(() => SettingsModule), FormsModule, AuthModule, TicketTypesModule, forwardRef(() => LogisticsModule), InvoicesModule, ExhibitorPortalModule, TicketHoldsModule, WaitlistModule],
+  controllers: [PaymentsController, PublicCheckoutController, PaymentWebhooksController, MembershipSyncController, ExhibitorSetupController, BankTransfersController],
+  providers: [StripeService, StripePaymentProvider, PostFinanceCheckoutProvider, PaymentsService, OrderPaidSyncService, RefundsService, OrderFulfillmentService, BankReconciliationService],
+  exports: [StripeService, PaymentsService, OrderPaidSyncService, RefundsService],
 })
 export class PaymentsModule {}
@@ -0,0 +1,228 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { SettingsService } from '../settings/settings.service';
+import { StripePaymentProvider } from './providers/stripe.provider';
+import { PostFinanceCheckoutProvider } from './providers/postfinance.provider';
+import type {
+  PaymentProvider,
+  PaymentProviderId,
+  CreatePaymentSessionParams,
+  PaymentMethodDetails,
+} from './payment-provider.interface';
+
+/**
+ * Payments Service — provider registry and payment attempts.
+ *
+ * Every hosted payment page opened for an order is recorded as a `Payment`
+ * row before the provider is called, so the webhook, refunds and the
+ * dashboard's payment-method lookup always know which provider (and which
+ * provider IDs) an order went through. New checkouts use the provider
+ * selected by the `payment_provider` setting; existing attempts keep their
+ * own provider, so switching providers never strands a paid order.
+ */
+@Injectable()
+export class PaymentsService {
+  private readonly logger = new Logger(PaymentsService.name);
+  private readonly providers: Map<PaymentProviderId, PaymentProvider>;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly settings: SettingsService,
+    stripe: StripePaymentProvider,
+    postfinance: PostFinanceCheckoutProvider,
+  ) {
+    this.providers = new Map<PaymentProviderId, PaymentProvider>([
+      [stripe.id, stripe],
+      [postfinance.id, postfinance],
+    ]);
+  }
+
+  /**
+   * Look up a registered provider by ID (webhook route, Payment.provider).
+   * @throws NotFoundException for unknown providers
+   */
+  provider(id: string): PaymentProvider {
+    const provider = this.providers.get(id as PaymentProviderId);
+    if (!provider) {
+      throw new NotFoundException(`Unknown payment provider "${id}"`);
+    }
+    return provider;
+  }
+
+  /** The provider new checkouts go through. Unknown values fall back to Stripe. */
+  async activeProvider(): Promise<PaymentProvider> {
+    const id = await this.settings.resolve('payment_provider', 'stripe');
+    return this.providers.get(id as PaymentProviderId) ?? this.provider('stripe');
+  }
+
+  /**
+   * Open a new payment attempt for an order on the active provider and
+   * return the hosted payment page to redirect the buyer to.
+   */
+  async startCheckout(
+    order: { id: string; eventId: string; orderNumber: string; currency: string },
+    amountCents: number,
+    params: Omit<CreatePaymentSessionParams, 'orderId' | 'orderNumber' | 'currency'>,
+  ): Promise<{ paymentId: string; provider: PaymentProviderId; sessionId: string; url: string }> {
+    const provider = await this.activeProvider();
+    if (!(await provider.isConfigured())) {
+      throw new BadRequestException(`${provider.label} is not configured — online payment is unavailable`);
+    }
+
+    const payment = await this.prisma.payment.create({
+      data: {
+        orderId: order.id,
+        eventId: order.eventId,
+        provider: provider.id,
+        amountCents,
+        currency: order.currency,
+        testMode: await provider.isTestMode(),
+      },
+    });
+
+    let session: { sessionId: string; url: string };
+    try {
+      session = await provider.createSession({
+        ...params,
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        currency: order.currency,
+      });
+    } catch (err) {
+      await this.prisma.payment.update({ where: { id: payment.id }, data: { status: 'failed' } });
+      throw err;
+    }
+
+    await this.prisma.payment.update({
+      where: { id: payment.id },
+      data: { providerSessionId: session.sessionId },
+    });
+
+    this.logger.log(
+      `Payment ${payment.id} opened at ${provider.label} for order ${order.orderNumber}`,
+    );
+
+    return { paymentId: payment.id, provider: provider.id, ...session };
+  }
+
+  /**
+   * Mark the attempt behind a provider session as succeeded.
+   *
+   * Returns false when it already was — providers retry webhooks, and the
+   * order must only be paid and fulfilled once. A session without a record
+   * (opened before payments were tracked) is recorded on the fly.
+   */
+  async recordSucceeded(
+    provider: PaymentProviderId,
+    orderId: string,
+    sessionId: string,
+    providerPaymentId: string | null,
+  ): Promise<boolean> {
+    const claimed = await this.prisma.payment.updateMany({
+      where: { provider, providerSessionId: sessionId, status: { not: 'succeeded' } },
+      data: { status: 'succeeded', providerPaymentId, completedAt: new Date() },
+    });
+    if (claimed.count > 0) return true;
+
+    const existing = await this.prisma.payment.findUnique({
+      where: { provider_providerSessionId: { provider, providerSessionId: sessionId } },
+    });
+    if (existing) return false;
+
+    const order = await this.prisma.order.findUnique({
+      where: { id: orderId },
+      select: { eventId: true, totalCents: true, currency: true },
+    });
+    if (!order) return false;
+
+    await this.prisma.payment.create({
+      data: {
+        orderId,
+        eventId: order.eventId,
+        provider,
+        status: 'succeeded',
+        providerSessionId: sessionId,
+        providerPaymentId,
+        amountCents: order.totalCents,
+        currency: order.currency,
+        completedAt: new Date(),
+      },
+    });
+    return true;
+  }
+
+  /**
+   * Close a pending attempt the buyer abandoned or the provider declined.
+   * Returns whether the order still has another attempt in progress.
+   */
+  async recordClosed(
+    provider: PaymentProviderId,
+    orderId: string,
+    sessionId: string,
+    status: 'expired' | 'failed',
+  ): Promise<{ otherPending: boolean }> {
+    await this.prisma.payment.updateMany({
+      where: { provider, providerSessionId: sessionId, status: 'pending' },
+      data: { status, completedAt: new Date() },
+    });
+    const otherPending = await this.prisma.payment.count({
+      where: { orderId, status: 'pending' },
+    });
+    return { otherPending: otherPending > 0 };
+  }
+
+  /** All attempts for an order, newest first. */
+  findByOrder(orderId: string) {
+    return this.prisma.payment.findMany({
+      where: { orderId },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /** The attempt an order was paid with — refunds go through it. */
+  findSucceeded(orderId: string) {
+    return this.prisma.payment.findFirst({
+      where: { orderId, status: 'succeeded' },
+      orderBy: { completedAt: 'desc' },
+    });
+  }
+
+  findByProviderPaymentId(provider: PaymentProviderId, providerPaymentId: string) {
+    return this.prisma.payment.findFirst({
+      where: { provider, providerPaymentId },
+    });
+  }
+
+  /**
+   * Live status of the order's latest attempt, asked from its provider.
+   * Null when the order never opened a payment page.
+   */
+  async getLatestStatus(orderId: string) {
+    const latest = await this.prisma.payment.findFirst({
+      where: { orderId },
+      orderBy: { createdAt: 'desc' },
+    });
+    if (!latest?.providerSessionId) return null;
+
+    const status = await this.provider(latest.provider).getSessionStatus(latest.providerSessionId);
+    return { paymentId: latest.id, provider: latest.provider, ...status };
+  }
+
+  /** Card brand / last4 (or wallet name) of the payment an order was paid with. */
+  async getPaymentMethodDetails(
+    orderId: string,
+  ): Promise<(PaymentMethodDetails & { provider: string }) | null> {
+    const payment = await this.findSucceeded(orderId);
+    if (!payment?.providerPaymentId) return null;
+
+    const details = await this.provider(payment.provider).getPaymentMethodDetails(
+      payment.providerPaymentId,
+    );
+    return details ? { provider: payment.provider, ...details } : null;
+  }
+}
@@ -0,0 +1,159 @@
+import type { IncomingHttpHeaders } from 'http';
+import { createHmac, timingSafeEqual } from 'crypto';
+import type {
+  PaymentProvider,
+  CreatePaymentSessionParams,
+  PaymentSession,
+  PaymentSessionStatus,
+  PaymentMethodDetails,
+  PaymentWebhookEvent,
+} from '../payment-provider.interface';
+
+const SIGNATURE_HEADER = 'x-fake-signature';
+
+interface FakeSession {
+  params: CreatePaymentSessionParams;
+  status: PaymentSessionStatus['status'];
+  paymentId: string | null;
+}
+
+/**
+ * In-process PaymentProvider for tests — no network, no credentials.
+ *
+ * Sessions and refunds live in memory. `complete()` / `expire()` /
+ * `refunded()` return the raw body and headers a real provider would POST,
+ * signed with an HMAC, so specs run the same webhook path (authentication
+ * included) as production. Never registered in PaymentsModule.
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  readonly id = 'fake' as const;
+  readonly label = 'Fake';
+  readonly sessions = new Map<string, FakeSession>();
+  readonly refunds: Array<{ refundId: string; paymentId: string; amountCents: number; metadata: Record<string, string> }> = [];
+  /** Set to make the next refund() call throw. */
+  failNextRefund: Error | null = null;
+  private seq = 0;
+
+  constructor(private readonly secret = 'fake-webhook-secret') {}
+
+  async isConfigured(): Promise<boolean> {
+    return true;
+  }
+
+  async isTestMode(): Promise<boolean> {
+    return true;
+  }
+
+  async createSession(params: CreatePaymentSessionParams): Promise<PaymentSession> {
+    const sessionId = `fake_cs_${++this.seq}`;
+    this.sessions.set(sessionId, { params, status: 'open', paymentId: null });
+    return { sessionId, url: `https://pay.fake.invalid/${sessionId}` };
+  }
+
+  async getSessionStatus(sessionId: string): Promise<PaymentSessionStatus> {
+    const session = this.session(sessionId);
+    return {
+      status: session.status,
+      amountCents: session.params.lineItems.reduce(
+        (sum, item) => sum + item.unitAmountCents * item.quantity,
+        -(session.params.discountAmountCents ?? 0),
+      ),
+      currency: session.params.currency,
+    };
+  }
+
+  async parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): Promise<PaymentWebhookEvent | null> {
+    const signature = headers[SIGNATURE_HEADER];
+    const expected = this.sign(rawBody);
+    if (
+      typeof signature !== 'string' ||
+      signature.length !== expected.length ||
+      !timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+    ) {
+      throw new Error('Webhook signature verification failed');
+    }
+    return JSON.parse(rawBody.toString('utf8')) as PaymentWebhookEvent;
+  }
+
+  async refund(
+    paymentId: string,
+    amountCents: number,
+    metadata: Record<string, string>,
+  ): Promise<{ refundId: string }> {
+    if (this.failNextRefund) {
+      const err = this.failNextRefund;
+      this.failNextRefund = null;
+      throw err;
+    }
+    const refundId = `fake_re_${++this.seq}`;
+    this.refunds.push({ refundId, paymentId, amountCents, metadata });
+    return { refundId };
+  }
+
+  async getPaymentMethodDetails(paymentId: string): Promise<PaymentMethodDetails | null> {
+    const paid = [...this.sessions.values()].some((s) => s.paymentId === paymentId);
+    return paid
+      ? { brand: 'visa', last4: '4242', expMonth: 12, expYear: 2030, country: 'CH' }
+      : null;
+  }
+
+  // ─── Simulated provider callbacks ───────────────────────────────────
+
+  /** The buyer paid on the hosted page. */
+  complete(
+    sessionId: string,
+    customer: { email?: string; name?: string } = {},
+  ): { rawBody: Buffer; headers: IncomingHttpHeaders } {
+    const session = this.session(sessionId);
+    session.status = 'paid';
+    session.paymentId = `fake_pi_${++this.seq}`;
+    return this.webhook({
+      type: 'payment.succeeded',
+      sessionId,
+      paymentId: session.paymentId,
+      metadata: this.metadata(session),
+      customerEmail: customer.email ?? session.params.customerEmail,
+      customerName: customer.name ?? null,
+    });
+  }
+
+  /** The buyer abandoned the hosted page. */
+  expire(sessionId: string): { rawBody: Buffer; headers: IncomingHttpHeaders } {
+    const session = this.session(sessionId);
+    session.status = 'expired';
+    return this.webhook({ type: 'payment.expired', sessionId, metadata: this.metadata(session) });
+  }
+
+  /** A refund was issued from the provider's back office. */
+  refunded(paymentId: string, amountRefundedCents: number): { rawBody: Buffer; headers: IncomingHttpHeaders } {
+    return this.webhook({
+      type: 'payment.refunded',
+      paymentId,
+      amountRefundedCents,
+      refundId: `fake_re_${++this.seq}`,
+    });
+  }
+
+  webhook(event: PaymentWebhookEvent): { rawBody: Buffer; headers: IncomingHttpHeaders } {
+    const rawBody = Buffer.from(JSON.stringify(event));
+    return { rawBody, headers: { [SIGNATURE_HEADER]: this.sign(rawBody) } };
+  }
+
+  private sign(rawBody: Buffer): string {
+    return createHmac('sha256', this.secret).update(rawBody).digest('hex');
+  }
+
+  private session(sessionId: string): FakeSession {
+    const session = this.sessions.get(sessionId);
+    if (!session) throw new Error(`Unknown fake session ${sessionId}`);
+    return session;
+  }
+
+  private metadata(session: FakeSession): Record<string, string> {
+    return {
+      sratix_order_id: session.params.orderId,
+      sratix_order_number: session.params.orderNumber,
+      ...session.params.metadata,
+    };
+  }
+}
@@ -0,0 +1,299 @@
+import { Injectable, Logger } from '@nestjs/common';
+import type { IncomingHttpHeaders } from 'http';
+import { createHmac } from 'crypto';
+import { SettingsService } from '../../settings/settings.service';
+import type {
+  PaymentProvider,
+  CreatePaymentSessionParams,
+  PaymentSession,
+  PaymentSessionStatus,
+  PaymentMethodDetails,
+  PaymentWebhookEvent,
+} from '../payment-provider.interface';
+
+const API_BASE = 'https://checkout.postfinance.ch/api';
+
+interface PostFinanceCredentials {
+  spaceId: string;
+  userId: string;
+  secret: string;
+}
+
+/** The subset of the PostFinance Checkout Transaction entity used here. */
+interface PostFinanceTransaction {
+  id: number;
+  state: string;
+  currency: string;
+  authorizationAmount?: number;
+  refundedAmount?: number;
+  metaData?: Record<string, string>;
+  customerEmailAddress?: string | null;
+  billingAddress?: { givenName?: string; familyName?: string; emailAddress?: string } | null;
+  paymentConnectorConfiguration?: {
+    paymentMethodConfiguration?: { name?: string } | null;
+  } | null;
+}
+
+/** Transaction states after which the buyer has paid for good. */
+const PAID_STATES = new Set(['FULFILL', 'COMPLETED']);
+const FAILED_STATES = new Set(['FAILED', 'DECLINE', 'VOIDED']);
+
+/**
+ * PostFinance Checkout (Wallee platform) as a PaymentProvider.
+ *
+ * Uses the hosted payment page, which offers TWINT, PostFinance Card/E-Finance
+ * and cards depending on the space's configured payment methods. Requests
+ * are authenticated with the application user's MAC (HMAC-SHA512) headers.
+ *
+ * Webhooks only carry an entity ID; the transaction or refund is re-read
+ * through the authenticated API, so a forged webhook cannot mark an order
+ * paid. Test vs live is a property of the space — `postfinance_mode` only
+ * tells SRAtix which one is configured.
+ *
+ * Settings: postfinance_space_id, postfinance_user_id, postfinance_api_secret,
+ * postfinance_mode (DB → .env via SettingsService).
+ */
+@Injectable()
+export class PostFinanceCheckoutProvider implements PaymentProvider {
+  readonly id = 'postfinance' as const;
+  readonly label = 'PostFinance Checkout';
+  private readonly logger = new Logger(PostFinanceCheckoutProvider.name);
+
+  constructor(private readonly settings: SettingsService) {}
+
+  async isConfigured(): Promise<boolean> {
+    return (await this.resolveCredentials()) !== null;
+  }
+
+  async isTestMode(): Promise<boolean> {
+    return (await this.settings.resolve('postfinance_mode', 'test')) !== 'live';
+  }
+
+  async createSession(params: CreatePaymentSessionParams): Promise<PaymentSession> {
+    const lineItems: Array<Record<string, unknown>> = params.lineItems.map((item, i) => ({
+      uniqueId: `${item.ticketTypeId ?? 'line'}-${i + 1}`,
+      sku: item.ticketTypeId ?? `line-${i + 1}`,
+      name: item.name,
+      quantity: item.quantity,
+      amountIncludingTax: toAmount(item.unitAmountCents * item.quantity),
+      type: 'PRODUCT',
+    }));
+    if (params.discountAmountCents && params.discountAmountCents > 0) {
+      lineItems.push({
+        uniqueId: 'discount',
+        sku: 'discount',
+        name: 'Discount',
+        quantity: 1,
+        amountIncludingTax: -toAmount(params.discountAmountCents),
+        type: 'DISCOUNT',
+      });
+    }
+
+    const transaction = await this.request<PostFinanceTransaction>('POST', '/transaction/create', {}, {
+      currency: params.currency.toUpperCase(),
+      lineItems,
+      merchantReference: params.orderNumber,
+      customerEmailAddress: params.customerEmail || undefined,
+      successUrl: params.successUrl,
+      failedUrl: params.cancelUrl,
+      autoConfirmationEnabled: true,
+      metaData: {
+        sratix_order_id: params.orderId,
+        sratix_order_number: params.orderNumber,
+        ...params.metadata,
+      },
+    });
+
+    const url = await this.request<string>('GET', '/transaction-payment-page/payment-page-url', {
+      id: String(transaction.id),
+    });
+
+    this.logger.log(
+      `Transaction ${transaction.id} created for order ${params.orderNumber}`,
+    );
+
+    return { sessionId: String(transaction.id), url };
+  }
+
+  async getSessionStatus(sessionId: string): Promise<PaymentSessionStatus> {
+    const tx = await this.readTransaction(sessionId);
+    return {
+      status: PAID_STATES.has(tx.state)
+        ? 'paid'
+        : FAILED_STATES.has(tx.state)
+          ? 'failed'
+          : 'open',
+      amountCents: tx.authorizationAmount !== undefined ? toCents(tx.authorizationAmount) : null,
+      currency: tx.currency ?? null,
+    };
+  }
+
+  async parseWebhook(rawBody: Buffer, _headers: IncomingHttpHeaders): Promise<PaymentWebhookEvent | null> {
+    let payload: { entityId?: number; spaceId?: number; listenerEntityTechnicalName?: string };
+    try {
+      payload = JSON.parse(rawBody.toString('utf8'));
+    } catch {
+      throw new Error('Webhook body is not JSON');
+    }
+
+    const credentials = await this.requireCredentials();
+    if (!payload.entityId || String(payload.spaceId) !== credentials.spaceId) {
+      throw new Error('Webhook does not belong to the configured space');
+    }
+
+    if (payload.listenerEntityTechnicalName === 'Transaction') {
+      const tx = await this.readTransaction(String(payload.entityId));
+      const metadata = tx.metaData ?? {};
+
+      // Several states trigger the listener; only the final ones matter
+      if (tx.state === 'FULFILL') {
+        const name = [tx.billingAddress?.givenName, tx.billingAddress?.familyName]
+          .filter(Boolean)
+          .join(' ');
+        return {
+          type: 'payment.succeeded',
+          sessionId: String(tx.id),
+          paymentId: String(tx.id),
+          metadata,
+          customerEmail: tx.customerEmailAddress ?? tx.billingAddress?.emailAddress ?? null,
+          customerName: name || null,
+        };
+      }
+      if (FAILED_STATES.has(tx.state)) {
+        return { type: 'payment.failed', sessionId: String(tx.id), metadata };
+      }
+      return null;
+    }
+
+    if (payload.listenerEntityTechnicalName === 'Refund') {
+      const refund = await this.request<{ id: number; state: string; transaction: { id: number } }>(
+        'GET',
+        '/refund/read',
+        { id: String(payload.entityId) },
+      );
+      if (refund.state !== 'SUCCESSFUL') return null;
+
+      // The transaction carries the running total across all its refunds
+      const tx = await this.readTransaction(String(refund.transaction.id));
+      return {
+        type: 'payment.refunded',
+        paymentId: String(tx.id),
+        amountRefundedCents: toCents(tx.refundedAmount ?? 0),
+        refundId: String(refund.id),
+      };
+    }
+
+    return null;
+  }
+
+  async refund(
+    paymentId: string,
+    amountCents: number,
+    metadata: Record<string, string>,
+  ): Promise<{ refundId: string }> {
+    const refund = await this.request<{ id: number; state: string }>('POST', '/refund/refund', {}, {
+      transaction: Number(paymentId),
+      // Idempotency key — one PostFinance refund per SRAtix refund row
+      externalId: metadata.sratix_refund_id ?? `${paymentId}-${Date.now()}`,
+      merchantReference: metadata.sratix_order_id,
+      amount: toAmount(amountCents),
+      type: 'MERCHANT_INITIATED_ONLINE',
+    });
+
+    if (refund.state === 'FAILED') {
+      throw new Error(`PostFinance refund ${refund.id} failed`);
+    }
+
+    this.logger.log(
+      `Refund ${refund.id} created for transaction ${paymentId} — ${amountCents} cents`,
+    );
+    return { refundId: String(refund.id) };
+  }
+
+  async getPaymentMethodDetails(paymentId: string): Promise<PaymentMethodDetails | null> {
+    try {
+      const tx = await this.readTransaction(paymentId);
+      const method = tx.paymentConnectorConfiguration?.paymentMethodConfiguration?.name;
+      if (!method) return null;
+      return { brand: method, last4: null, expMonth: null, expYear: null, country: null };
+    } catch {
+      return null;
+    }
+  }
+
+  // ─── API client ─────────────────────────────────────────────────────
+
+  private readTransaction(id: string): Promise<PostFinanceTransaction> {
+    return this.request<PostFinanceTransaction>('GET', '/transaction/read', { id });
+  }
+
+  private async request<T>(
+    method: 'GET' | 'POST',
+    path: string,
+    query: Record<string, string>,
+    body?: unknown,
+  ): Promise<T> {
+    const credentials = await this.requireCredentials();
+    const search = new URLSearchParams({ spaceId: credentials.spaceId, ...query }).toString();
+    const resource = `/api${path}?${search}`;
+
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const mac = createHmac('sha512', Buffer.from(credentials.secret, 'base64'))
+      .update(['1', credentials.userId, timestamp, method, resource].join('|'))
+      .digest('base64');
+
+    const response = await fetch(`${API_BASE}${path}?${search}`, {
+      method,
+      headers: {
+        Accept: 'application/json',
+        ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+        'x-mac-version': '1',
+        'x-mac-userid': credentials.userId,
+        'x-mac-timestamp': timestamp,
+        'x-mac-value': mac,
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+      signal: AbortSignal.timeout(15_000),
+    });
+
+    const text = await response.text();
+    if (!response.ok) {
+      let message = text;
+      try {
+        message = JSON.parse(text).message ?? text;
+      } catch {
+        // keep raw text
+      }
+      throw new Error(`PostFinance Checkout ${method} ${path} failed (${response.status}): ${message}`);
+    }
+    return JSON.parse(text) as T;
+  }
+
+  private async requireCredentials(): Promise<PostFinanceCredentials> {
+    const credentials = await this.resolveCredentials();
+    if (!credentials) {
+      throw new Error(
+        'PostFinance Checkout is not configured — set the space ID, user ID and API secret in Settings',
+      );
+    }
+    return credentials;
+  }
+
+  private async resolveCredentials(): Promise<PostFinanceCredentials | null> {
+    const [spaceId, userId, secret] = await Promise.all([
+      this.settings.resolve('postfinance_space_id'),
+      this.settings.resolve('postfinance_user_id'),
+      this.settings.resolve('postfinance_api_secret'),
+    ]);
+    return spaceId && userId && secret ? { spaceId, userId, secret } : null;
+  }
+}
+
+/** PostFinance Checkout amounts are decimals in the currency unit. */
+function toAmount(cents: number): number {
+  return Math.round(cents) / 100;
+}
+
+function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
@@ -0,0 +1,121 @@
+import { Injectable } from '@nestjs/common';
+import type { IncomingHttpHeaders } from 'http';
+import Stripe from 'stripe';
+import { StripeService } from '../stripe.service';
+import { SettingsService } from '../../settings/settings.service';
+import type {
+  PaymentProvider,
+  CreatePaymentSessionParams,
+  PaymentSession,
+  PaymentSessionStatus,
+  PaymentMethodDetails,
+  PaymentWebhookEvent,
+} from '../payment-provider.interface';
+
+/**
+ * Stripe Checkout as a PaymentProvider.
+ *
+ * Thin adapter over StripeService, which keeps owning the SDK instance and
+ * key resolution (logistics checkout still calls it directly).
+ */
+@Injectable()
+export class StripePaymentProvider implements PaymentProvider {
+  readonly id = 'stripe' as const;
+  readonly label = 'Stripe';
+
+  constructor(
+    private readonly stripe: StripeService,
+    private readonly settings: SettingsService,
+  ) {}
+
+  isConfigured(): Promise<boolean> {
+    return this.stripe.isConfigured();
+  }
+
+  async isTestMode(): Promise<boolean> {
+    return (await this.settings.resolve('stripe_mode', 'test')) !== 'live';
+  }
+
+  createSession(params: CreatePaymentSessionParams): Promise<PaymentSession> {
+    return this.stripe.createCheckoutSession(params);
+  }
+
+  async getSessionStatus(sessionId: string): Promise<PaymentSessionStatus> {
+    const session = await this.stripe.getSession(sessionId);
+    return {
+      status:
+        session.payment_status === 'paid' || session.payment_status === 'no_payment_required'
+          ? 'paid'
+          : session.status === 'expired'
+            ? 'expired'
+            : 'open',
+      amountCents: session.amount_total,
+      currency: session.currency?.toUpperCase() ?? null,
+    };
+  }
+
+  async parseWebhook(
+    rawBody: Buffer,
+    headers: IncomingHttpHeaders,
+  ): Promise<PaymentWebhookEvent | null> {
+    const signature = headers['stripe-signature'];
+    if (typeof signature !== 'string' || !signature) {
+      throw new Error('Missing stripe-signature header');
+    }
+
+    const event = await this.stripe.constructWebhookEvent(rawBody, signature);
+
+    switch (event.type) {
+      case 'checkout.session.completed': {
+        const session = event.data.object as Stripe.Checkout.Session;
+        return {
+          type: 'payment.succeeded',
+          sessionId: session.id,
+          paymentId: paymentIntentId(session.payment_intent),
+          metadata: session.metadata ?? {},
+          customerEmail: session.customer_details?.email ?? session.customer_email ?? null,
+          customerName: session.customer_details?.name ?? null,
+        };
+      }
+
+      case 'checkout.session.expired': {
+        const session = event.data.object as Stripe.Checkout.Session;
+        return { type: 'payment.expired', sessionId: session.id, metadata: session.metadata ?? {} };
+      }
+
+      case 'charge.refunded': {
+        const charge = event.data.object as Stripe.Charge;
+        const paymentId = paymentIntentId(charge.payment_intent);
+        if (!paymentId) return null;
+        return {
+          type: 'payment.refunded',
+          paymentId,
+          amountRefundedCents: charge.amount_refunded ?? charge.amount,
+          refundId: charge.refunds?.data?.[0]?.id ?? null,
+        };
+      }
+
+      default:
+        return null;
+    }
+  }
+
+  async refund(
+    paymentId: string,
+    amountCents: number,
+    metadata: Record<string, string>,
+  ): Promise<{ refundId: string }> {
+    const refund = await this.stripe.refund(paymentId, amountCents, metadata);
+    return { refundId: refund.id };
+  }
+
+  getPaymentMethodDetails(paymentId: string): Promise<PaymentMethodDetails | null> {
+    return this.stripe.getPaymentMethodDetails(paymentId);
+  }
+}
+
+function paymentIntentId(
+  pi: string | Stripe.PaymentIntent | null | undefined,
+): string | null {
+  return (typeof pi === 'string' ? pi : pi?.id) ?? null;
+}
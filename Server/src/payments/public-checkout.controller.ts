@@ -20,17 +20,23 @@ import {
   Min,
   Max,
   IsEmail,
+  IsIn,
   IsNotEmpty,
   ValidateNested,
+  ArrayMinSize,
+  ArrayMaxSize,
 } from 'class-validator';
 import { Type } from 'class-transformer';
 import { randomBytes } from 'crypto';
 import { PrismaService } from '../prisma/prisma.service';
 import { OrdersService } from '../orders/orders.service';
-import { StripeService } from './stripe.service';
+import { PaymentsService } from './payments.service';
 import { PromoCodesService } from '../promo-codes/promo-codes.service';
 import { AttendeesService } from '../attendees/attendees.service';
 import { FormsService } from '../forms/forms.service';
+import { addOnText, type OrderItemAddOn } from '../forms/form-add-ons';
+import type { ConditionContext } from '../common/conditions';
+import { parseLocale } from '../common/i18n';
 import { SettingsService } from '../settings/settings.service';
 import { AuthService } from '../auth/auth.service';
 import { TicketTypesService } from '../ticket-types/ticket-types.service';
@@ -39,7 +45,14 @@ import { EmailService } from '../email/email.service';
 import { RegistrationReminderWorker } from '../queue/registration-reminder.worker';
 import { ExhibitorPortalService } from '../exhibitor-portal/exhibitor-portal.service';
 import { OrderPaidSyncService } from './order-paid-sync.service';
+import { TicketHoldsService } from '../ticket-holds/ticket-holds.service';
+import { WaitlistService } from '../waitlist/waitlist.service';
+import { BankReconciliationService } from './bank-reconciliation.service';
 import { normalizeEmail } from '../common/email.util';
+import { assignRecipientTickets, RecipientAttendeeMeta } from './recipient-tickets';
+
+/** Distinct ticket types accepted in one cart. */
+const MAX_CART_LINES = 10;
 
 // ─── DTOs ─────────────────────────────────────────────────────────────────
 
@@ -77,6 +90,32 @@ class AdditionalAttendeeDto {
   lastName!: string;
 }
 
+/**
+ * One cart line: a ticket type, its quantity and (optionally) who the
+ * tickets are for. Price variant and member discount are resolved per line
+ * server-side.
+ */
+class CheckoutItemDto {
+  @IsString()
+  @IsNotEmpty()
+  ticketTypeId!: string;
+
+  @IsInt()
+  @Min(1)
+  @Max(20)
+  quantity!: number;
+
+  @IsBoolean()
+  @IsOptional()
+  includeTicketForSelf?: boolean; // default true — purchaser keeps one ticket of this line
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => AdditionalAttendeeDto)
+  @IsOptional()
+  additionalAttendees?: AdditionalAttendeeDto[];
+}
+
 class BillingDataDto {
   @IsString()
   @IsNotEmpty()
@@ -119,14 +158,28 @@ class PublicCheckoutDto {
   @IsNotEmpty()
   eventId!: string;
 
+  // ── Single-type checkout (legacy embed) — ignored when `items` is set ──
+
   @IsString()
   @IsNotEmpty()
-  ticketTypeId!: string;
+  @IsOptional()
+  ticketTypeId?: string;
 
   @IsInt()
   @Min(1)
   @Max(20)
-  quantity!: number;
+  @IsOptional()
+  quantity?: number;
+
+  // ── Cart checkout — one line per ticket type ────────────────────────
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(MAX_CART_LINES)
+  @ValidateNested({ each: true })
+  @Type(() => CheckoutItemDto)
+  @IsOptional()
+  items?: CheckoutItemDto[];
 
   @ValidateNested()
   @Type(() => PublicAttendeeDto)
@@ -136,6 +189,11 @@ class PublicCheckoutDto {
   @IsOptional()
   promoCode?: string;
 
+  /** Offer token from a waitlist email — lets the buyer use the seats reserved for them. */
+  @IsString()
+  @IsOptional()
+  waitlistToken?: string;
+
   @IsString()
   @IsNotEmpty()
   successUrl!: string;
@@ -164,7 +222,7 @@ class PublicCheckoutDto {
   @IsOptional()
   memberSessionToken?: string;
 
-  // ── Multi-ticket recipient fields ──────────────────────────────────
+  // ── Multi-ticket recipient fields (single-type checkout) ────────────
 
   @IsBoolean()
   @IsOptional()
@@ -200,6 +258,11 @@ class PublicCheckoutDto {
   @IsString()
   @IsOptional()
   invoiceLanguage?: string; // en, fr, de, it, zh-TW
+
+  /** 'invoice' = pay by bank transfer (requires billingData and event.meta.invoicePayment). */
+  @IsIn(['card', 'invoice'])
+  @IsOptional()
+  paymentMethod?: 'card' | 'invoice';
 }
 
 // ─── Controller ───────────────────────────────────────────────────────────
@@ -208,16 +271,26 @@ class PublicCheckoutDto {
  * Public Checkout Controller — unauthenticated.
  *
  * Single endpoint that accepts an attendee + ticket selection, creates an
- * Order, and returns a Stripe Checkout URL. No authentication required —
+ * Order, and returns a hosted payment page URL (or, for pay-by-invoice, the
+ * payment reference of the emailed invoice). No authentication required —
  * this is the entry point for the sratix-embed.js widget on public WP pages.
  *
+ * The selection is either a cart (`items`, one line per ticket type, each
+ * with its own recipients) or the legacy single `ticketTypeId` + `quantity`.
+ * Either way one Order is created with one OrderItem per line; pricing
+ * variant and member discount are resolved per line.
+ *
  * Flow:
- *  1. Validate event visibility + ticket type availability
+ *  1. Validate event visibility + ticket type availability (per line)
  *  2. Upsert attendee (find-or-create by eventId+email)
  *  3. Create Order + OrderItems
  *  4. Optionally validate promo code
- *  5. Create Stripe Checkout Session
- *  6. Return { checkoutUrl, orderNumber }
+ *  5. Hold inventory for the order (atomic — the authoritative capacity check)
+ *  6. Open a payment attempt on the active provider (Stripe Checkout / PostFinance
+ *     Checkout; one line item per cart line, lifetime = hold window)
+ *     — or, with paymentMethod 'invoice', put the order on invoice (awaiting_payment,
+ *     held until the due date; settled by BankReconciliationService)
+ *  7. Return { checkoutUrl, orderNumber } / { invoice, paymentReference, dueAt }
  *
  * Route: POST /api/payments/checkout/public
  */
@@ -226,7 +299,7 @@ export class PublicCheckoutController {
   constructor(
     private readonly prisma: PrismaService,
     private readonly orders: OrdersService,
-    private readonly stripe: StripeService,
+    private readonly payments: PaymentsService,
     private readonly promoCodes: PromoCodesService,
     private readonly attendees: AttendeesService,
     private readonly forms: FormsService,
@@ -238,6 +311,9 @@ export class PublicCheckoutController {
     private readonly registrationReminder: RegistrationReminderWorker,
     private readonly exhibitorPortal: ExhibitorPortalService,
     private readonly orderPaidSync: OrderPaidSyncService,
+    private readonly ticketHolds: TicketHoldsService,
+    private readonly waitlist: WaitlistService,
+    private readonly bankReconciliation: BankReconciliationService,
   ) {}
 
   @Post()
@@ -245,12 +321,7 @@ export class PublicCheckoutController {
     dto.attendeeData.email = normalizeEmail(dto.attendeeData.email);
     if (dto.billingData?.email) dto.billingData.email = normalizeEmail(dto.billingData.email);
     if (dto.billingEmail) dto.billingEmail = normalizeEmail(dto.billingEmail);
-    if (dto.additionalAttendees) {
-      dto.additionalAttendees = dto.additionalAttendees.map((attendee) => ({
-        ...attendee,
-        email: normalizeEmail(attendee.email),
-      }));
-    }
+    const cart = this.resolveCart(dto);
 
     // ── 1. Find event ────────────────────────────────────────────────────
     const event = await this.prisma.event.findUnique({
@@ -262,17 +333,76 @@ export class PublicCheckoutController {
       throw new BadRequestException('Tickets are not available for this event');
     }
 
-    // ── 2. Validate ticket type ──────────────────────────────────────────
+    // Pay-by-invoice terms are checked up front so nothing is created when
+    // the event doesn't offer it (or is too close for a bank transfer)
+    const invoiceTerms =
+      dto.paymentMethod === 'invoice' ? this.bankReconciliation.resolvePaymentTerms(event) : null;
+    if (invoiceTerms && !dto.billingData) {
+      throw new BadRequestException('Billing details are required to pay by invoice');
+    }
+
+    // ── 1b. Resolve waitlist offer ──────────────────────────────────────
+    // The offered seats are already counted in `held`; they are added back
+    // to the availability of this buyer's line and handed over in step 5d.
+    const waitlistOffer = dto.waitlistToken
+      ? await this.waitlist.findLiveOffer(dto.waitlistToken, dto.eventId)
+      : null;
+    const offerLine = waitlistOffer
+      ? cart.find((item) => item.ticketTypeId === waitlistOffer.ticketTypeId)
+      : undefined;
+    if (waitlistOffer) {
+      if (!offerLine) {
+        throw new BadRequestException('Your waitlist offer is for a different ticket type');
+      }
+      if (offerLine.quantity > waitlistOffer.quantity) {
+        throw new BadRequestException(
+          `Your waitlist offer covers ${waitlistOffer.quantity} ticket(s)`,
+        );
+      }
+    }
+
+    // ── 2. Validate ticket types ─────────────────────────────────────────
     const now = new Date();
-    const tt = await this.prisma.ticketType.findFirst({
-      where: { id: dto.ticketTypeId, eventId: dto.eventId, status: 'active' },
-      include: { pricingVariants: { orderBy: { sortOrder: 'asc' } } },
+    const ticketTypes = await this.prisma.ticketType.findMany({
+      where: {
+        id: { in: cart.map((item) => item.ticketTypeId) },
+        eventId: dto.eventId,
+        // An admin may have flagged the type sold out — offers stay redeemable
+        OR: [
+          { status: 'active' },
+          ...(waitlistOffer ? [{ id: waitlistOffer.ticketTypeId, status: 'sold_out' }] : []),
+        ],
+      },
+      include: {
+        pricingVariants: { orderBy: { sortOrder: 'asc' } },
+        sraDiscounts: true,
+        partnerDiscounts: { include: { partner: { select: { name: true } } } },
+      },
     });
-    if (!tt) throw new NotFoundException('Ticket type not found or unavailable');
-
-    // Resolve early-bird / active pricing variant
-    const resolved = this.ticketTypesService.resolvePrice(tt, tt.pricingVariants, now);
-    const effectivePriceCents = resolved.activePriceCents;
+    const ticketTypeById = new Map(ticketTypes.map((tt) => [tt.id, tt]));
+
+    // Resolve early-bird / active pricing variant per line
+    const lines = cart.map((item) => {
+      const tt = ticketTypeById.get(item.ticketTypeId);
+      if (!tt) throw new NotFoundException('Ticket type not found or unavailable');
+      const resolved = this.ticketTypesService.resolvePrice(tt, tt.pricingVariants, now);
+      const variant = resolved.allVariants.find(
+        (v) => v.isActive && v.variantType === resolved.activeVariant,
+      );
+      return {
+        ...item,
+        tt,
+        effectivePriceCents: resolved.activePriceCents,
+        pricingVariant: resolved.activeVariant,
+        pricingVariantLabel: variant?.label ?? null,
+        includeTicketForSelf: item.includeTicketForSelf !== false,
+        memberDiscountCents: 0,
+        memberDiscountLabel: '',
+      };
+    });
+    // Prefix errors with the ticket name once there is more than one line
+    const lineError = (line: (typeof lines)[number], message: string) =>
+      lines.length > 1 ? `${line.tt.name}: ${message}` : message;
 
     // ── Effective membership opt-out ────────────────────────────────────
     // Honor the client-provided flag, but ALSO force opt-out whenever the
@@ -282,7 +412,7 @@ export class PublicCheckoutController {
     let effectiveMembershipOptOut = !!dto.membershipOptOut;
     if (
       !effectiveMembershipOptOut &&
-      tt.membershipTier &&
+      lines.some((line) => line.tt.membershipTier) &&
       dto.memberSessionToken &&
       dto.memberGroup === 'sra'
     ) {
@@ -301,38 +431,54 @@ export class PublicCheckoutController {
       }
     }
 
-    if (tt.salesStart && tt.salesStart > now) {
-      throw new BadRequestException('Ticket sales have not started yet');
-    }
-    if (tt.salesEnd && tt.salesEnd < now) {
-      throw new BadRequestException('Ticket sales have ended');
-    }
-    if (tt.quantity !== null) {
-      const available = tt.quantity - tt.sold;
-      if (available < dto.quantity) {
+    for (const line of lines) {
+      const { tt } = line;
+      if (tt.salesStart && tt.salesStart > now) {
+        throw new BadRequestException(lineError(line, 'Ticket sales have not started yet'));
+      }
+      if (tt.salesEnd && tt.salesEnd < now) {
+        throw new BadRequestException(lineError(line, 'Ticket sales have ended'));
+      }
+      // Fast pre-check only — the atomic hold in step 5d is what actually
+      // prevents two buyers from taking the same last seats.
+      if (tt.quantity !== null) {
+        const reserved = waitlistOffer?.ticketTypeId === tt.id ? waitlistOffer.quantity : 0;
+        const available = Math.max(0, tt.quantity - tt.sold - tt.held + reserved);
+        if (available < line.quantity) {
+          throw new BadRequestException(
+            lineError(
+              line,
+              available === 0
+                ? 'This ticket type is sold out'
+                : `Only ${available} ticket(s) remaining`,
+            ),
+          );
+        }
+      }
+      if (line.quantity > tt.maxPerOrder) {
         throw new BadRequestException(
-          available === 0
-            ? 'This ticket type is sold out'
-            : `Only ${available} ticket(s) remaining`,
+          lineError(line, `Maximum ${tt.maxPerOrder} ticket(s) per order for this ticket type`),
         );
       }
     }
-    if (dto.quantity > tt.maxPerOrder) {
-      throw new BadRequestException(
-        `Maximum ${tt.maxPerOrder} ticket(s) per order for this ticket type`,
-      );
-    }
 
     // ── 2b. Exhibitor-specific validation ────────────────────────────────
-    const isExhibitor = tt.category === 'exhibitor';
-    if (isExhibitor) {
-      if (dto.quantity !== 1) {
+    // Exhibitor provisioning creates one exhibitor account per order, so a
+    // cart holds at most one exhibitor line of quantity 1. Its recipients
+    // are booth staff; recipients on other lines are ordinary gift tickets.
+    const exhibitorLines = lines.filter((line) => line.tt.category === 'exhibitor');
+    if (exhibitorLines.length > 1) {
+      throw new BadRequestException('Only one exhibitor ticket type can be purchased per order');
+    }
+    const exhibitorLine = exhibitorLines[0];
+    if (exhibitorLine) {
+      if (exhibitorLine.quantity !== 1) {
         throw new BadRequestException(
           'Exhibitor tickets are limited to 1 per order',
         );
       }
-      const maxStaff = tt.maxStaff ?? 0;
-      const staffCount = dto.additionalAttendees?.length ?? 0;
+      const maxStaff = exhibitorLine.tt.maxStaff ?? 0;
+      const staffCount = exhibitorLine.additionalAttendees?.length ?? 0;
       if (maxStaff > 0 && staffCount > maxStaff) {
         throw new BadRequestException(
           `Maximum ${maxStaff} staff pass(es) allowed for this exhibitor ticket`,
@@ -340,6 +486,56 @@ export class PublicCheckoutController {
       }
     }
 
+    // ── 2c. Validate member session + per-line member discount ──────────
+    let validatedMemberGroup: string | undefined;
+    let validatedMemberTier: string | undefined;
+    let validatedPartnerId: string | undefined;
+    let validatedMemberIsActive = false;
+
+    if (dto.memberSessionToken && dto.memberGroup) {
+      const session = this.authService.decodeMemberSession(dto.memberSessionToken);
+      if (!session || session.eventId !== dto.eventId || session.memberGroup !== dto.memberGroup) {
+        throw new UnauthorizedException('Invalid or expired member session. Please re-authenticate.');
+      }
+
+      validatedMemberGroup = session.memberGroup;
+      validatedMemberTier = session.tier;
+      validatedPartnerId = session.partnerId;
+      // Authoritative active-membership flag (fallback to a resolved tier for
+      // older tokens issued before isMember existed).
+      validatedMemberIsActive = session.isMember ?? !!session.tier;
+
+      for (const line of lines) {
+        // Member discount is calculated against the BASE price (not early-bird).
+        // We never stack discounts — the user gets whichever is larger between
+        // early-bird savings and member savings. The line price is already
+        // in early-bird terms (effectivePriceCents), so here we only record
+        // the EXTRA savings beyond early bird (if any).
+        const discount = this.ticketTypesService.calculateMemberDiscount(
+          line.tt,
+          line.tt.priceCents, // base price — matches display logic
+          validatedMemberGroup,
+          validatedMemberTier,
+          validatedPartnerId,
+        );
+        if (discount) {
+          const memberSavingsPerUnit = discount.discountCents;
+          const earlyBirdSavingsPerUnit = line.tt.priceCents - line.effectivePriceCents;
+          // Only apply if member savings beat early bird (otherwise early bird
+          // already wins and is baked into effectivePriceCents).
+          if (memberSavingsPerUnit > earlyBirdSavingsPerUnit) {
+            const extraSavingsPerUnit = memberSavingsPerUnit - earlyBirdSavingsPerUnit;
+            line.memberDiscountCents = extraSavingsPerUnit * line.quantity;
+            line.memberDiscountLabel = discount.discountLabel;
+          }
+        }
+      }
+    }
+    const memberDiscountCents = lines.reduce((sum, line) => sum + line.memberDiscountCents, 0);
+    const memberDiscountLabel = [
+      ...new Set(lines.map((line) => line.memberDiscountLabel).filter(Boolean)),
+    ].join(', ');
+
     // ── 3. Upsert attendee ───────────────────────────────────────────────
     let attendee = await this.attendees.findByEmail(
       dto.eventId,
@@ -358,6 +554,16 @@ export class PublicCheckoutController {
     }
 
     // ── 3b. Save form submission if custom form data provided ─────────
+    // The form belongs to the line whose ticket type uses this schema
+    const formLine = lines.find((line) => line.tt.formSchemaId === dto.formSchemaId) ?? lines[0];
+    const formContext: ConditionContext = {
+      ticketTypeId: formLine.ticketTypeId,
+      ticketCategory: formLine.tt.category,
+      sraMembershipTicket: !!formLine.tt.membershipTier && !effectiveMembershipOptOut,
+      memberGroup: validatedMemberGroup,
+      membershipTier: validatedMemberTier,
+      partnerId: validatedPartnerId,
+    };
     if (dto.formSchemaId && dto.formData && Object.keys(dto.formData).length > 0) {
       try {
         await this.forms.createSubmission({
@@ -365,35 +571,42 @@ export class PublicCheckoutController {
           attendeeId: attendee.id,
           formSchemaId: dto.formSchemaId,
           answers: dto.formData,
+          context: formContext,
         });
       } catch (err) {
         // Log but don't block checkout — form data is supplementary
         console.error('[PublicCheckout] Form submission failed:', err);
       }
     }
+
+    // ── 3b'. Priced form options become add-on order lines ───────────
+    const addOns = dto.formSchemaId && dto.formData
+      ? await this.forms.findSelectedAddOns(dto.eventId, dto.formSchemaId, dto.formData, formContext)
+      : [];
+    const addOnLocale = parseLocale(dto.invoiceLanguage);
+
     // ── 3c. Create recipient attendees for multi-ticket purchases ────
-    const recipientAttendees: Array<{
-      attendeeId: string;
-      email: string;
-      firstName: string;
-      lastName: string;
-      registrationToken: string;
-    }> = [];
-    const includeTicketForSelf = dto.includeTicketForSelf !== false;
-
-    if (dto.additionalAttendees && dto.additionalAttendees.length > 0) {
-      if (isExhibitor) {
+    // Each recipient is tagged with its line's ticket type so the issued
+    // tickets can be matched back (see assignRecipientTickets).
+    const recipientAttendees: RecipientAttendeeMeta[] = [];
+
+    for (const line of lines) {
+      if (!line.additionalAttendees || line.additionalAttendees.length === 0) continue;
+
+      if (line !== exhibitorLine) {
         // Exhibitor: staff count validated in 2b above; no exact-match required
-      } else {
-        const expectedRecipients = dto.quantity - (includeTicketForSelf ? 1 : 0);
-        if (dto.additionalAttendees.length !== expectedRecipients) {
+        const expectedRecipients = line.quantity - (line.includeTicketForSelf ? 1 : 0);
+        if (line.additionalAttendees.length !== expectedRecipients) {
           throw new BadRequestException(
-            `Expected ${expectedRecipients} recipient(s) but received ${dto.additionalAttendees.length}`,
+            lineError(
+              line,
+              `Expected ${expectedRecipients} recipient(s) but received ${line.additionalAttendees.length}`,
+            ),
           );
         }
       }
 
-      for (const recipient of dto.additionalAttendees) {
+      for (const recipient of line.additionalAttendees) {
         const token = randomBytes(32).toString('hex');
         const recipientAttendee = await this.attendees.upsertRecipient({
           eventId: dto.eventId,
@@ -411,11 +624,17 @@ export class PublicCheckoutController {
           firstName: recipient.firstName,
           lastName: recipient.lastName,
           registrationToken: token,
+          ticketTypeId: line.ticketTypeId,
         });
       }
     }
     // ── 4. Create order ──────────────────────────────────────────────────
-    const totalCents = effectivePriceCents * dto.quantity;
+    // Discounts (member, promo) apply to the tickets only, never to add-ons.
+    const ticketTotalCents = lines.reduce(
+      (sum, line) => sum + line.effectivePriceCents * line.quantity,
+      0,
+    );
+    const totalCents = ticketTotalCents + addOns.reduce((sum, addOn) => sum + addOn.priceCents, 0);
     const isTestMode = await this.settings.isTestMode();
     const order = await this.orders.create({
       eventId: dto.eventId,
@@ -424,11 +643,42 @@ export class PublicCheckoutController {
       totalCents,
       currency: event.currency,
       items: [
-        {
-          ticketTypeId: dto.ticketTypeId,
-          quantity: dto.quantity,
-          unitPriceCents: effectivePriceCents,
-        },
+        ...lines.map((line) => ({
+          ticketTypeId: line.ticketTypeId,
+          quantity: line.quantity,
+          unitPriceCents: line.effectivePriceCents,
+          meta: {
+            basePriceCents: line.tt.priceCents,
+            includeTicketForSelf: line.includeTicketForSelf,
+            ...(line.pricingVariant ? { pricingVariant: line.pricingVariant } : {}),
+            ...(line.pricingVariantLabel ? { pricingVariantLabel: line.pricingVariantLabel } : {}),
+            ...(line.memberDiscountCents > 0
+              ? {
+                  memberDiscountCents: line.memberDiscountCents,
+                  memberDiscountLabel: line.memberDiscountLabel,
+                }
+              : {}),
+            ...(line.additionalAttendees?.length
+              ? { recipientCount: line.additionalAttendees.length }
+              : {}),
+          },
+        })),
+        ...addOns.map((addOn) => ({
+          ticketTypeId: null,
+          quantity: 1,
+          unitPriceCents: addOn.priceCents,
+          meta: {
+            addOn: {
+              key: addOn.key,
+              fieldId: addOn.fieldId,
+              fieldLabel: addOn.fieldLabel,
+              optionValue: addOn.optionValue,
+              optionLabel: addOn.optionLabel,
+              vatCategory: addOn.vatCategory,
+              forTicketTypeId: formLine.ticketTypeId,
+            } satisfies OrderItemAddOn,
+          },
+        })),
       ],
     });
 
@@ -446,7 +696,6 @@ export class PublicCheckoutController {
       if (dto.invoiceLanguage) orderMeta.invoiceLanguage = dto.invoiceLanguage;
       if (recipientAttendees.length > 0) {
         orderMeta.recipientAttendees = recipientAttendees;
-        orderMeta.includeTicketForSelf = includeTicketForSelf;
         const eventMeta = (event.meta as Record<string, any>) ?? {};
         const registerPath = eventMeta.pagePaths?.register ?? '/complete-registration';
         const attendeeRegisterPath = eventMeta.pagePaths?.attendeeRegister ?? '/complete-attendee-registration';
@@ -476,9 +725,13 @@ export class PublicCheckoutController {
         dto.eventId,
         dto.promoCode,
         {
-          totalCents,
-          ticketTypeIds: [dto.ticketTypeId],
+          totalCents: ticketTotalCents,
+          ticketTypeIds: lines.map((line) => line.ticketTypeId),
           customerEmail: dto.attendeeData.email,
+          lineSubtotals: lines.map((line) => ({
+            ticketTypeId: line.ticketTypeId,
+            subtotalCents: line.effectivePriceCents * line.quantity,
+          })),
         },
       );
       if (!validation.valid) {
@@ -490,65 +743,7 @@ export class PublicCheckoutController {
       promoCodeId = validation.promoCodeId;
     }
 
-    // ── 5b. Validate member discount ─────────────────────────────────────
-    let memberDiscountCents = 0;
-    let memberDiscountLabel = '';
-    let validatedMemberGroup: string | undefined;
-    let validatedMemberTier: string | undefined;
-    let validatedPartnerId: string | undefined;
-    let validatedMemberIsActive = false;
-
-    if (dto.memberSessionToken && dto.memberGroup) {
-      const session = this.authService.decodeMemberSession(dto.memberSessionToken);
-      if (!session || session.eventId !== dto.eventId || session.memberGroup !== dto.memberGroup) {
-        await this.prisma.order.delete({ where: { id: order.id } });
-        throw new UnauthorizedException('Invalid or expired member session. Please re-authenticate.');
-      }
-
-      validatedMemberGroup = session.memberGroup;
-      validatedMemberTier = session.tier;
-      validatedPartnerId = session.partnerId;
-      // Authoritative active-membership flag (fallback to a resolved tier for
-      // older tokens issued before isMember existed).
-      validatedMemberIsActive = session.isMember ?? !!session.tier;
-
-      // Load ticket type with SRA discounts + partner discounts for calculation
-      const ttWithDiscounts = await this.prisma.ticketType.findUnique({
-        where: { id: dto.ticketTypeId },
-        include: {
-          sraDiscounts: true,
-          partnerDiscounts: { include: { partner: { select: { name: true } } } },
-        },
-      });
-
-      if (ttWithDiscounts) {
-        // Member discount is calculated against the BASE price (not early-bird).
-        // We never stack discounts — the user gets whichever is larger between
-        // early-bird savings and member savings. Order's `totalCents` is already
-        // in early-bird terms (effectivePriceCents * qty), so here we only
-        // record the EXTRA savings beyond early bird (if any).
-        const discount = this.ticketTypesService.calculateMemberDiscount(
-          ttWithDiscounts,
-          tt.priceCents, // base price — matches display logic
-          validatedMemberGroup,
-          validatedMemberTier,
-          validatedPartnerId,
-        );
-        if (discount) {
-          const memberSavingsPerUnit = discount.discountCents;
-          const earlyBirdSavingsPerUnit = tt.priceCents - effectivePriceCents;
-          // Only apply if member savings beat early bird (otherwise early bird
-          // already wins and is baked into effectivePriceCents).
-          if (memberSavingsPerUnit > earlyBirdSavingsPerUnit) {
-            const extraSavingsPerUnit = memberSavingsPerUnit - earlyBirdSavingsPerUnit;
-            memberDiscountCents = extraSavingsPerUnit * dto.quantity;
-            memberDiscountLabel = discount.discountLabel;
-          }
-        }
-      }
-    }
-
-    // ── 5c. Apply whichever discount is higher ───────────────────────────
+    // ── 5b. Apply whichever discount is higher ───────────────────────────
     let discountCents: number;
     let appliedDiscountLabel: string;
     let appliedPromoCodeId: string | null = null;
@@ -567,7 +762,7 @@ export class PublicCheckoutController {
       appliedDiscountLabel = '';
     }
 
-    // ── 5d. Persist member-auth markers on the order ────────────────────
+    // ── 5c. Persist member-auth markers on the order ────────────────────
     // Recorded for BOTH free and paid orders so the admin dashboard can flag
     // authenticated members reliably (the paid meta write below runs only on
     // the paid path). memberGroup 'sra' + memberIsActive = existing active SRA
@@ -581,7 +776,53 @@ export class PublicCheckoutController {
       });
     }
 
-    // ── 6. Create Stripe Checkout Session ───────────────────────────────
+    // ── 5d. Hold inventory ───────────────────────────────────────────────
+    // Reserves the seats until payment (converted on ticket issuance) or
+    // until the hold window / payment session / invoice due date lapses. A waitlist offer is
+    // claimed first so its reserved seats move into the order's hold.
+    // Add-on stock is held for the same window.
+    let offerClaimed = false;
+    try {
+      if (waitlistOffer) {
+        await this.waitlist.claimOffer(waitlistOffer.id, order.id);
+        offerClaimed = true;
+      }
+      const holdUntil = await this.ticketHolds.holdForOrder(
+        {
+          id: order.id,
+          eventId: dto.eventId,
+          items: order.items,
+        },
+        waitlistOffer && offerLine
+          ? { ticketTypeId: waitlistOffer.ticketTypeId, quantity: offerLine.quantity }
+          : undefined,
+        invoiceTerms?.holdUntil,
+      );
+      if (addOns.length > 0) {
+        await this.ticketHolds.holdAddOns(
+          { id: order.id, eventId: dto.eventId },
+          addOns.map((addOn) => ({
+            key: addOn.key,
+            label: addOnText(addOn.optionLabel, addOnLocale),
+            quantity: 1,
+            stock: addOn.stock,
+            ticketTypeId: formLine.ticketTypeId,
+          })),
+          holdUntil,
+        );
+      }
+    } catch (err) {
+      if (offerClaimed) await this.waitlist.reopenOffer(waitlistOffer!.id);
+      // The ticket hold may have gone through before an add-on ran out
+      await this.ticketHolds.releaseForOrder(order.id, 'deleted');
+      await this.prisma.order.delete({ where: { id: order.id } });
+      throw err;
+    }
+    if (waitlistOffer && offerLine) {
+      await this.waitlist.releaseSurplus(waitlistOffer, offerLine.quantity);
+    }
+
+    // ── 6. Open the hosted payment page ─────────────────────────────────
     const metadata: Record<string, string> = {
       sratix_event_id: dto.eventId,
       sratix_org_id: event.orgId,
@@ -599,7 +840,7 @@ export class PublicCheckoutController {
 
     const finalTotal = totalCents - discountCents;
 
-    // Free tickets bypass Stripe entirely
+    // Free tickets bypass the payment provider entirely
     if (finalTotal <= 0) {
       // Mark order as paid immediately for free tickets
       await this.orders.updateStatus(order.id, 'paid');
@@ -612,16 +853,21 @@ export class PublicCheckoutController {
 
         // Reassign tickets to VISITOR recipients (multi-ticket purchase).
         // Exhibitor staff get their own staff-pass tickets via provisioning below.
-        if (!isExhibitor && recipientAttendees.length > 0 && issued.length > 0) {
-          const startIdx = includeTicketForSelf ? 1 : 0;
-          for (let i = 0; i < recipientAttendees.length; i++) {
-            const ticketIdx = startIdx + i;
-            if (ticketIdx < issued.length) {
-              await this.prisma.ticket.update({
-                where: { id: issued[ticketIdx].id },
-                data: { attendeeId: recipientAttendees[i].attendeeId },
-              });
-            }
+        const visitorRecipients = recipientAttendees.filter(
+          (r) => r.ticketTypeId !== exhibitorLine?.ticketTypeId,
+        );
+        if (visitorRecipients.length > 0 && issued.length > 0) {
+          const assignments = assignRecipientTickets(
+            issued,
+            visitorRecipients,
+            (ticketTypeId) =>
+              lines.find((line) => line.ticketTypeId === ticketTypeId)?.includeTicketForSelf ?? true,
+          );
+          for (const { ticketId, attendeeId } of assignments) {
+            await this.prisma.ticket.update({
+              where: { id: ticketId },
+              data: { attendeeId },
+            });
           }
 
           // Send gift notification emails to recipients
@@ -629,7 +875,7 @@ export class PublicCheckoutController {
           const attendeeRegisterPathFree = eventMetaFree.pagePaths?.attendeeRegister ?? '/complete-attendee-registration';
           const registrationBaseUrl = new URL(dto.successUrl).origin + attendeeRegisterPathFree;
           const purchaserName = `${dto.attendeeData.firstName} ${dto.attendeeData.lastName}`;
-          for (const recipient of recipientAttendees) {
+          for (const recipient of visitorRecipients) {
             this.emailService
               .sendTicketGiftNotification(recipient.email, {
                 recipientName: recipient.firstName,
@@ -638,7 +884,7 @@ export class PublicCheckoutController {
                 eventDate: formatEventDateIso(event.startDate),
                 eventVenue: [event.venue, event.venueAddress].filter(Boolean).join(', '),
                 eventVenueMapUrl: eventMetaFree.venueMapUrl || undefined,
-                ticketTypeName: tt.name,
+                ticketTypeName: ticketTypeById.get(recipient.ticketTypeId!)?.name ?? 'Ticket',
                 registrationUrl: `${registrationBaseUrl}?token=${recipient.registrationToken}`,
               })
               .catch((err) =>
@@ -657,7 +903,7 @@ export class PublicCheckoutController {
         // Exhibitor free/comp orders: send the order confirmation and provision
         // the exhibitor account + welcome email + booth-staff invites — identical
         // to the paid (Stripe webhook) path, which otherwise never runs for $0 orders.
-        if (isExhibitor) {
+        if (exhibitorLine) {
           const eventMetaConf = (event.meta as Record<string, any>) ?? {};
           this.emailService
             .sendOrderConfirmation(dto.billingData?.email || dto.attendeeData.email, {
@@ -665,7 +911,11 @@ export class PublicCheckoutController {
               orderNumber: order.orderNumber,
               totalFormatted: (0).toFixed(2),
               currency: event.currency,
-              tickets: [{ typeName: tt.name, quantity: dto.quantity, qrPayload: '' }],
+              tickets: lines.map((line) => ({
+                typeName: line.tt.name,
+                quantity: line.quantity,
+                qrPayload: '',
+              })),
               ticketCodes: issued.map((t) => t.code),
               apiBaseUrl: 'https://tix.swiss-robotics.org',
               eventName: event.name,
@@ -714,20 +964,64 @@ export class PublicCheckoutController {
       };
     }
 
-    const { sessionId, url } = await this.stripe.createCheckoutSession({
-      orderId: order.id,
-      orderNumber: order.orderNumber,
+    if (appliedPromoCodeId || discountCents > 0 || validatedMemberGroup) {
+      await this.orders.updateMeta(order.id, {
+        ...(appliedPromoCodeId ? { promoCodeId: appliedPromoCodeId } : {}),
+        ...(discountCents > 0 ? { discountCents, discountLabel: appliedDiscountLabel } : {}),
+        ...(validatedMemberGroup ? { memberGroup: validatedMemberGroup } : {}),
+        ...(validatedMemberTier ? { memberTier: validatedMemberTier } : {}),
+      });
+    }
+
+    // ── 6b. Pay by invoice ──────────────────────────────────────────────
+    // No payment page: the customer gets an invoice with a payable
+    // QR-bill and the order waits for the bank transfer.
+    if (invoiceTerms) {
+      const { paymentReference } = await this.bankReconciliation.issueInvoice(order.id, {
+        dueAt: invoiceTerms.dueAt,
+        amountDueCents: finalTotal,
+      });
+
+      const successUrlObj = new URL(dto.successUrl);
+      successUrlObj.searchParams.set('sratix_order', order.orderNumber);
+      successUrlObj.searchParams.set('sratix_invoice', '1');
+      if (isTestMode) successUrlObj.searchParams.set('sratix_test', '1');
+
+      return {
+        free: false,
+        invoice: true,
+        orderNumber: order.orderNumber,
+        orderId: order.id,
+        paymentReference,
+        dueAt: invoiceTerms.dueAt.toISOString(),
+        successUrl: successUrlObj.toString(),
+        testMode: isTestMode || undefined,
+      };
+    }
+
+    // The winning discount is applied once by the provider (Stripe coupon,
+    // PostFinance discount line); the label is shown on the lines it came
+    // from (all lines for a promo code).
+    const memberDiscountWon = !appliedPromoCodeId && memberDiscountCents > 0;
+    const { paymentId, provider, sessionId, url } = await this.payments.startCheckout(order, finalTotal, {
       customerEmail: dto.billingData?.email || dto.attendeeData.email,
-      currency: event.currency,
       lineItems: [
-        {
-          name: appliedDiscountLabel
-            ? `${tt.name} (${appliedDiscountLabel})`
-            : tt.name,
-          description: tt.description ?? undefined,
-          unitAmountCents: effectivePriceCents,
-          quantity: dto.quantity,
-        },
+        ...lines.map((line) => {
+          const label = memberDiscountWon ? line.memberDiscountLabel : appliedDiscountLabel;
+          return {
+            name: label ? `${line.tt.name} (${label})` : line.tt.name,
+            description: line.tt.description ?? undefined,
+            unitAmountCents: line.effectivePriceCents,
+            quantity: line.quantity,
+            ticketTypeId: line.ticketTypeId,
+          };
+        }),
+        ...addOns.map((addOn) => ({
+          name: addOnText(addOn.optionLabel, addOnLocale),
+          description: addOnText(addOn.fieldLabel, addOnLocale) || undefined,
+          unitAmountCents: addOn.priceCents,
+          quantity: 1,
+        })),
       ],
       successUrl: (() => {
         const u = new URL(dto.successUrl);
@@ -738,21 +1032,14 @@ export class PublicCheckoutController {
       cancelUrl: dto.cancelUrl,
       metadata,
       discountAmountCents: discountCents > 0 ? discountCents : undefined,
+      expiresInMinutes: await this.ticketHolds.getHoldMinutes(),
     });
 
-    await this.orders.updateStripeSession(order.id, sessionId);
-    if (appliedPromoCodeId || discountCents > 0 || validatedMemberGroup) {
-      await this.orders.updateMeta(order.id, {
-        ...(appliedPromoCodeId ? { promoCodeId: appliedPromoCodeId } : {}),
-        ...(discountCents > 0 ? { discountCents, discountLabel: appliedDiscountLabel } : {}),
-        ...(validatedMemberGroup ? { memberGroup: validatedMemberGroup } : {}),
-        ...(validatedMemberTier ? { memberTier: validatedMemberTier } : {}),
-      });
-    }
-
     return {
       free: false,
       checkoutUrl: url,
+      paymentId,
+      provider,
       sessionId,
       orderNumber: order.orderNumber,
       orderId: order.id,
@@ -783,4 +1070,45 @@ export class PublicCheckoutController {
       simulatedActions: meta.simulatedActions ?? [],
     };
   }
+
+  // ─── Helpers ──────────────────────────────────────────────────────────
+
+  /**
+   * Normalize the request into cart lines. Legacy single-type requests map
+   * to one line carrying the top-level recipient fields. Recipient emails
+   * are normalized, and each ticket type may appear only once.
+   */
+  private resolveCart(dto: PublicCheckoutDto): CheckoutItemDto[] {
+    let items: CheckoutItemDto[];
+    if (dto.items && dto.items.length > 0) {
+      items = dto.items;
+    } else if (dto.ticketTypeId && dto.quantity) {
+      items = [
+        {
+          ticketTypeId: dto.ticketTypeId,
+          quantity: dto.quantity,
+          includeTicketForSelf: dto.includeTicketForSelf,
+          additionalAttendees: dto.additionalAttendees,
+        },
+      ];
+    } else {
+      throw new BadRequestException('Select at least one ticket');
+    }
+
+    const seen = new Set<string>();
+    for (const item of items) {
+      if (seen.has(item.ticketTypeId)) {
+        throw new BadRequestException('Each ticket type may appear only once per order');
+      }
+      seen.add(item.ticketTypeId);
+    }
+
+    return items.map((item) => ({
+      ...item,
+      additionalAttendees: item.additionalAttendees?.map((attendee) => ({
+        ...attendee,
+        email: normalizeEmail(attendee.email),
+      })),
+    }));
+  }
 }
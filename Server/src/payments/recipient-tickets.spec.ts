@@ -0,0 +1,63 @@
+import { assignRecipientTickets, RecipientAttendeeMeta } from './recipient-tickets';
+
+/**
+ * Recipient reassignment decides who ends up holding each issued ticket.
+ * Cart orders match recipients to tickets of their own line; orders placed
+ * before carts keep the old flat, index-based behaviour.
+ */
+describe('assignRecipientTickets', () => {
+  const recipient = (attendeeId: string, ticketTypeId?: string): RecipientAttendeeMeta => ({
+    attendeeId,
+    email: `${attendeeId}@example.com`,
+    firstName: attendeeId,
+    lastName: 'Test',
+    registrationToken: `tok-${attendeeId}`,
+    ...(ticketTypeId ? { ticketTypeId } : {}),
+  });
+
+  const issued = [
+    { id: 't1', ticketTypeId: 'general' },
+    { id: 't2', ticketTypeId: 'general' },
+    { id: 't3', ticketTypeId: 'general' },
+    { id: 't4', ticketTypeId: 'vip' },
+    { id: 't5', ticketTypeId: 'vip' },
+  ];
+
+  it('matches recipients to tickets of their own line, skipping the purchaser ticket', () => {
+    const result = assignRecipientTickets(
+      issued,
+      [recipient('a', 'general'), recipient('b', 'general'), recipient('c', 'vip'), recipient('d', 'vip')],
+      (ticketTypeId) => ticketTypeId === 'general',
+    );
+
+    expect(result).toEqual([
+      { ticketId: 't2', attendeeId: 'a' },
+      { ticketId: 't3', attendeeId: 'b' },
+      { ticketId: 't4', attendeeId: 'c' },
+      { ticketId: 't5', attendeeId: 'd' },
+    ]);
+  });
+
+  it('keeps the flat index mapping for untagged (pre-cart) recipients', () => {
+    const result = assignRecipientTickets(
+      issued.slice(0, 3),
+      [recipient('a'), recipient('b')],
+      () => true,
+    );
+
+    expect(result).toEqual([
+      { ticketId: 't2', attendeeId: 'a' },
+      { ticketId: 't3', attendeeId: 'b' },
+    ]);
+  });
+
+  it('never assigns more tickets than the line issued', () => {
+    const result = assignRecipientTickets(
+      issued,
+      [recipient('a', 'vip'), recipient('b', 'vip')],
+      () => true,
+    );
+
+    expect(result).toEqual([{ ticketId: 't5', attendeeId: 'a' }]);
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Recipient attendee stored on `order.meta.recipientAttendees` by public
+ * checkout. `ticketTypeId` ties the recipient to a cart line; orders placed
+ * before multi-type carts don't carry it.
+ */
+export type RecipientAttendeeMeta = {
+  attendeeId: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  registrationToken: string;
+  ticketTypeId?: string;
+};
+
+/**
+ * Pair freshly issued tickets with the recipients they were bought for.
+ *
+ * Tickets stay on the purchaser by default. Per ticket type, the first ticket
+ * is kept by the purchaser when `includeSelf(ticketTypeId)` is true and the
+ * rest go to that line's recipients in order. Legacy recipients (no
+ * `ticketTypeId`) are matched against the whole issued list, as before.
+ *
+ * Callers drop exhibitor staff beforehand — they get staff passes through
+ * exhibitor provisioning, not the purchased ticket.
+ */
+export function assignRecipientTickets(
+  issued: Array<{ id: string; ticketTypeId: string }>,
+  recipients: RecipientAttendeeMeta[],
+  includeSelf: (ticketTypeId?: string) => boolean,
+): Array<{ ticketId: string; attendeeId: string }> {
+  const byLine = new Map<string | undefined, RecipientAttendeeMeta[]>();
+  for (const recipient of recipients) {
+    const list = byLine.get(recipient.ticketTypeId) ?? [];
+    list.push(recipient);
+    byLine.set(recipient.ticketTypeId, list);
+  }
+
+  const assignments: Array<{ ticketId: string; attendeeId: string }> = [];
+  for (const [ticketTypeId, lineRecipients] of byLine) {
+    const pool = ticketTypeId
+      ? issued.filter((t) => t.ticketTypeId === ticketTypeId)
+      : issued;
+    const startIdx = includeSelf(ticketTypeId) ? 1 : 0;
+    for (let i = 0; i < lineRecipients.length; i++) {
+      const ticket = pool[startIdx + i];
+      if (!ticket) break;
+      assignments.push({ ticketId: ticket.id, attendeeId: lineRecipients[i].attendeeId });
+    }
+  }
+  return assignments;
+}
@@ -0,0 +1,157 @@
+import { BadRequestException } from '@nestjs/common';
+import { RefundsService } from './refunds.service';
+import { FakePaymentProvider } from './providers/fake.provider';
+
+/**
+ * Refunds move real money, so these tests pin the two guarantees that
+ * matter: the derived amount is what the buyer paid (discount pro rata), and
+ * nothing reaches the payment provider when a ticket can't be voided. Built via
+ * Object.create so only the collaborators touched need faking.
+ */
+describe('RefundsService', () => {
+  const baseOrder = {
+    id: 'ord-1',
+    eventId: 'evt-1',
+    orgId: 'org-1',
+    orderNumber: 'SRA-1',
+    status: 'paid',
+    // 2 × 100 + 1 × 200 = 400 list, 20% promo → 320 paid
+    totalCents: 32000,
+    refundedCents: 0,
+    currency: 'CHF',
+    customerEmail: null,
+    customerName: null,
+    items: [
+      { ticketTypeId: 'tt-a', unitPriceCents: 10000, subtotalCents: 20000, ticketType: { name: 'Day' } },
+      { ticketTypeId: 'tt-b', unitPriceCents: 20000, subtotalCents: 20000, ticketType: { name: 'VIP' } },
+    ],
+    tickets: [
+      { id: 'tk-1', code: 'A1', status: 'valid', ticketTypeId: 'tt-a' },
+      { id: 'tk-2', code: 'A2', status: 'used', ticketTypeId: 'tt-a' },
+      { id: 'tk-3', code: 'B1', status: 'valid', ticketTypeId: 'tt-b' },
+    ],
+  };
+
+  function makeService(order = baseOrder, openRefunds: any[] = []): any {
+    const service: any = Object.create(RefundsService.prototype);
+    service.prisma = {
+      $transaction: jest.fn((fn: (tx: any) => unknown) => fn(service.prisma)),
+      $queryRawUnsafe: jest.fn().mockResolvedValue([]),
+      order: {
+        findUnique: jest.fn().mockResolvedValue(order),
+        update: jest.fn().mockResolvedValue({ refundedCents: 0 }),
+      },
+      orderRefund: {
+        findMany: jest.fn().mockResolvedValue(openRefunds),
+        create: jest.fn().mockResolvedValue({ id: 'rf-1' }),
+        update: jest.fn().mockResolvedValue({ id: 'rf-1' }),
+      },
+    };
+    service.fakeProvider = new FakePaymentProvider();
+    jest.spyOn(service.fakeProvider, 'refund');
+    service.payments = {
+      findSucceeded: jest.fn().mockResolvedValue({ id: 'pay-1', provider: 'fake', providerPaymentId: 'pi_1' }),
+      provider: jest.fn(() => service.fakeProvider),
+    };
+    service.tickets = {
+      validateTransition: jest.fn((from: string, _to: string, roles: string[]) => {
+        if (from === 'used' && !roles.includes('super_admin')) {
+          throw new BadRequestException('Cannot transition ticket from used to voided');
+        }
+      }),
+      void: jest.fn(),
+      voidByOrder: jest.fn(),
+    };
+    service.applyToOrder = jest.fn().mockResolvedValue('partially_refunded');
+    service.logger = { log: jest.fn(), error: jest.fn(), debug: jest.fn() };
+    return service;
+  }
+
+  it('refunds the discounted price of the selected tickets and voids them', async () => {
+    const service = makeService();
+
+    const result = await service.refundOrder('ord-1', { ticketIds: ['tk-1', 'tk-3'] }, { roles: ['event_admin'] });
+
+    // (100 + 200) × 320 / 400
+    expect(result.amountCents).toBe(24000);
+    expect(service.fakeProvider.refund).toHaveBeenCalledWith('pi_1', 24000, {
+      sratix_order_id: 'ord-1',
+      sratix_refund_id: 'rf-1',
+    });
+    expect(service.tickets.void.mock.calls.map(([id]: any[]) => id)).toEqual(['tk-1', 'tk-3']);
+  });
+
+  it('checks every ticket before calling the provider', async () => {
+    const service = makeService();
+
+    await expect(
+      service.refundOrder('ord-1', { ticketIds: ['tk-1', 'tk-2'] }, { roles: ['event_admin'] }),
+    ).rejects.toThrow(BadRequestException);
+
+    expect(service.prisma.orderRefund.create).not.toHaveBeenCalled();
+    expect(service.fakeProvider.refund).not.toHaveBeenCalled();
+  });
+
+  it('rejects an amount above the remaining balance', async () => {
+    const service = makeService({ ...baseOrder, status: 'partially_refunded', refundedCents: 30000 });
+
+    await expect(
+      service.refundOrder('ord-1', { amountCents: 5000 }, { roles: ['event_admin'] }),
+    ).rejects.toThrow('Refund exceeds the refundable balance of 20.00 CHF');
+  });
+
+  it('counts pending refunds and rejects tickets already being refunded', async () => {
+    const pending = {
+      amountCents: 8000,
+      lines: [{ ticketTypeId: 'tt-a', quantity: 1, unitPriceCents: 10000, tickets: [{ id: 'tk-1', code: 'A1' }] }],
+    };
+    const service = makeService(baseOrder, [pending]);
+
+    await expect(
+      service.refundOrder('ord-1', { amountCents: 24001 }, { roles: ['event_admin'] }),
+    ).rejects.toThrow('Refund exceeds the refundable balance of 240.00 CHF');
+    await expect(
+      service.refundOrder('ord-1', { ticketIds: ['tk-1'] }, { roles: ['event_admin'] }),
+    ).rejects.toThrow('Ticket A1 is already part of a refund');
+
+    expect(service.prisma.$queryRawUnsafe).toHaveBeenCalledWith(expect.stringContaining('FOR UPDATE'), 'ord-1');
+    expect(service.prisma.orderRefund.create).not.toHaveBeenCalled();
+    expect(service.fakeProvider.refund).not.toHaveBeenCalled();
+  });
+
+  it('records a manual refund without a provider for orders paid offline', async () => {
+    const service = makeService();
+    service.payments.findSucceeded.mockResolvedValue(null);
+
+    await expect(
+      service.refundOrder('ord-1', { ticketIds: ['tk-1'] }, { roles: ['event_admin'] }),
+    ).rejects.toThrow(/record it as a manual refund/);
+
+    await service.refundOrder('ord-1', { ticketIds: ['tk-1'], manual: true }, { userId: 'u-1', roles: ['event_admin'] });
+
+    expect(service.prisma.orderRefund.create.mock.calls[0][0].data).toMatchObject({
+      amountCents: 8000,
+      status: 'succeeded',
+      source: 'manual',
+      paymentId: null,
+    });
+    expect(service.payments.provider).not.toHaveBeenCalled();
+    expect(service.tickets.void).toHaveBeenCalledTimes(1);
+    expect(service.applyToOrder).toHaveBeenCalledWith(expect.anything(), 'rf-1', 8000, expect.any(Array), undefined);
+  });
+
+  it('marks the refund failed and voids nothing when the provider rejects it', async () => {
+    const service = makeService();
+    service.fakeProvider.failNextRefund = new Error('charge_already_refunded');
+
+    await expect(
+      service.refundOrder('ord-1', { ticketIds: ['tk-1'] }, { roles: ['event_admin'] }),
+    ).rejects.toThrow('Fake refund failed: charge_already_refunded');
+
+    expect(service.prisma.orderRefund.update).toHaveBeenCalledWith({
+      where: { id: 'rf-1' },
+      data: { status: 'failed' },
+    });
+    expect(service.tickets.void).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,432 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { PaymentsService } from './payments.service';
+import { TicketsService } from '../tickets/tickets.service';
+import { EmailService } from '../email/email.service';
+import { InvoicesService } from '../invoices/invoices.service';
+import { OutgoingWebhooksService } from '../outgoing-webhooks/outgoing-webhooks.service';
+import { AuditLogService, AuditAction } from '../audit-log/audit-log.service';
+
+const INVOICE_PUBLIC_BASE = 'https://tix.swiss-robotics.org';
+
+/** Orders in these states still have money left to refund. */
+const REFUNDABLE_STATUSES = new Set(['paid', 'partially_refunded']);
+
+/** Per-ticket-type breakdown of a refund (stored on OrderRefund.lines). */
+export interface RefundLine {
+  ticketTypeId: string;
+  ticketTypeName: string;
+  quantity: number;
+  unitPriceCents: number;
+  tickets: Array<{ id: string; code: string }>;
+}
+
+type RefundableOrder = {
+  id: string;
+  eventId: string;
+  orgId: string;
+  orderNumber: string;
+  totalCents: number;
+  refundedCents: number;
+  currency: string;
+  customerEmail: string | null;
+  customerName: string | null;
+};
+
+/**
+ * Refunds Service — partial and per-ticket refunds for ticket orders.
+ *
+ * Admins refund either specific tickets (amount derived from what was paid
+ * for them, after the order-level discount) or a free amount. Both go
+ * through one refund at the provider the order was paid with and one
+ * OrderRefund row. Selected tickets are voided via TicketsService.void,
+ * which returns their seats to sale (or the waitlist).
+ *
+ * Orders paid without a provider (bank transfer, box office) are paid back
+ * by the organiser directly; a manual refund records it (source 'manual')
+ * without calling any provider, with the same voiding and credit note.
+ *
+ * Order state follows the running `refundedCents` total:
+ *   refundedCents < totalCents  → partially_refunded
+ *   refundedCents ≥ totalCents  → refunded (every remaining ticket is voided)
+ *
+ * Refunds made directly in the provider's back office (Stripe dashboard,
+ * PostFinance Checkout portal) arrive only as a refund webhook;
+ * `reconcileProviderRefund` records the unaccounted amount so both paths end
+ * in the same state, emails and webhooks.
+ *
+ * Every recorded refund gets a credit note (InvoicesService.generateCreditNote),
+ * attached to the buyer's refund email and linked via its public token.
+ */
+@Injectable()
+export class RefundsService {
+  private readonly logger = new Logger(RefundsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly payments: PaymentsService,
+    private readonly tickets: TicketsService,
+    private readonly email: EmailService,
+    private readonly invoices: InvoicesService,
+    private readonly outgoingWebhooks: OutgoingWebhooksService,
+    private readonly audit: AuditLogService,
+  ) {}
+
+  /**
+   * Refund selected tickets and/or an amount of a paid order.
+   *
+   * `amountCents` overrides the amount derived from `ticketIds` (e.g. to
+   * retain a handling fee). Every ticket is checked against the void
+   * transition matrix before the provider is called, so a refund never
+   * succeeds at the provider and then fails halfway on our side.
+   *
+   * `manual` records money already paid back outside SRAtix and is only
+   * accepted for orders without a provider payment.
+   */
+  async refundOrder(
+    orderId: string,
+    input: { ticketIds?: string[]; amountCents?: number; reason?: string; manual?: boolean },
+    actor: { userId?: string; roles: string[] },
+  ) {
+    const order = await this.prisma.order.findUnique({
+      where: { id: orderId },
+      include: {
+        items: { include: { ticketType: { select: { name: true } } } },
+        tickets: { select: { id: true, code: true, status: true, ticketTypeId: true } },
+      },
+    });
+    if (!order) throw new NotFoundException(`Order ${orderId} not found`);
+    if (!REFUNDABLE_STATUSES.has(order.status)) {
+      throw new BadRequestException(`Order ${order.orderNumber} is ${order.status} — cannot refund`);
+    }
+    const payment = await this.payments.findSucceeded(order.id);
+    const providerPaymentId = payment?.providerPaymentId ?? null;
+    if (providerPaymentId && input.manual) {
+      throw new BadRequestException(
+        `Order ${order.orderNumber} was paid online — refund it through the payment provider instead`,
+      );
+    }
+    if (!providerPaymentId && !input.manual) {
+      throw new BadRequestException(
+        `Order ${order.orderNumber} was not paid through a payment provider (bank transfer or box office) — ` +
+          'pay the buyer back directly and record it as a manual refund',
+      );
+    }
+    const provider = providerPaymentId ? this.payments.provider(payment!.provider) : null;
+
+    if (order.refundedCents >= order.totalCents) {
+      throw new BadRequestException(`Order ${order.orderNumber} is already fully refunded`);
+    }
+
+    // ── Resolve selected tickets ──────────────────────────────────
+    const ticketIds = [...new Set(input.ticketIds ?? [])];
+    const selected = ticketIds.map((id) => {
+      const ticket = order.tickets.find((t) => t.id === id);
+      if (!ticket) {
+        throw new BadRequestException(`Ticket ${id} does not belong to order ${order.orderNumber}`);
+      }
+      this.tickets.validateTransition(ticket.status, 'voided', actor.roles);
+      return ticket;
+    });
+
+    if (selected.length === 0 && input.amountCents === undefined) {
+      throw new BadRequestException('Select at least one ticket or enter an amount to refund');
+    }
+
+    // ── Build line-level breakdown + derived amount ───────────────
+    const lines: RefundLine[] = [];
+    for (const ticket of selected) {
+      const item = order.items.find((i) => i.ticketTypeId === ticket.ticketTypeId);
+      let line = lines.find((l) => l.ticketTypeId === ticket.ticketTypeId);
+      if (!line) {
+        line = {
+          ticketTypeId: ticket.ticketTypeId,
+          ticketTypeName: item?.ticketType?.name ?? 'Ticket',
+          quantity: 0,
+          unitPriceCents: item?.unitPriceCents ?? 0,
+          tickets: [],
+        };
+        lines.push(line);
+      }
+      line.quantity += 1;
+      line.tickets.push({ id: ticket.id, code: ticket.code });
+    }
+
+    const amountCents = input.amountCents ?? this.paidAmountForLines(order, lines);
+    if (amountCents <= 0) {
+      throw new BadRequestException('Refund amount must be greater than zero');
+    }
+
+    // ── Reserve the amount, then refund at the provider ────────────
+    // The order row lock serialises concurrent refunds of one order, and
+    // the balance counts pending rows too, so two requests can never both
+    // pass the check. The pending row is also counted by
+    // reconcileProviderRefund, so the refund webhook racing this request
+    // is not double-recorded.
+    const refund = await this.prisma.$transaction(async (tx) => {
+      await tx.$queryRawUnsafe('SELECT `id` FROM `orders` WHERE `id` = ? FOR UPDATE', order.id);
+      const current = await tx.order.findUnique({
+        where: { id: order.id },
+        select: { refundedCents: true },
+      });
+      const open = await tx.orderRefund.findMany({
+        where: { orderId: order.id, status: { in: ['pending', 'succeeded'] } },
+        select: { amountCents: true, lines: true },
+      });
+
+      const committedCents = Math.max(
+        current?.refundedCents ?? order.refundedCents,
+        open.reduce((sum, r) => sum + r.amountCents, 0),
+      );
+      const remainingCents = order.totalCents - committedCents;
+      if (amountCents > remainingCents) {
+        throw new BadRequestException(
+          `Refund exceeds the refundable balance of ${(Math.max(remainingCents, 0) / 100).toFixed(2)} ${order.currency}`,
+        );
+      }
+
+      const refunded = new Set(
+        open.flatMap((r) => ((r.lines ?? []) as unknown as RefundLine[]).flatMap((l) => l.tickets.map((t) => t.id))),
+      );
+      const taken = selected.find((t) => refunded.has(t.id));
+      if (taken) {
+        throw new BadRequestException(`Ticket ${taken.code} is already part of a refund`);
+      }
+
+      return tx.orderRefund.create({
+        data: {
+          orderId: order.id,
+          eventId: order.eventId,
+          amountCents,
+          currency: order.currency,
+          status: provider ? 'pending' : 'succeeded',
+          source: provider ? 'dashboard' : 'manual',
+          paymentId: payment?.id ?? null,
+          reason: input.reason ?? null,
+          lines: lines as any,
+          createdBy: actor.userId ?? null,
+        },
+      });
+    });
+
+    let providerRefundId: string | null = null;
+    if (provider) {
+      try {
+        ({ refundId: providerRefundId } = await provider.refund(providerPaymentId!, amountCents, {
+          sratix_order_id: order.id,
+          sratix_refund_id: refund.id,
+        }));
+      } catch (err) {
+        await this.prisma.orderRefund.update({
+          where: { id: refund.id },
+          data: { status: 'failed' },
+        });
+        const message = err instanceof Error ? err.message : String(err);
+        this.logger.error(`${provider.label} refund failed for order ${order.orderNumber}: ${message}`);
+        throw new BadRequestException(`${provider.label} refund failed: ${message}`);
+      }
+
+      await this.prisma.orderRefund.update({
+        where: { id: refund.id },
+        data: { status: 'succeeded', providerRefundId },
+      });
+    }
+
+    // Void only the selected tickets and give their seats back
+    for (const ticket of selected) {
+      await this.tickets.void(
+        ticket.id,
+        order.eventId,
+        input.reason ? `Refunded: ${input.reason}` : 'Refunded',
+        actor.roles,
+      );
+    }
+
+    const status = await this.applyToOrder(order, refund.id, amountCents, lines, input.reason);
+
+    return {
+      refundId: refund.id,
+      providerRefundId,
+      amountCents,
+      refundedCents: order.refundedCents + amountCents,
+      status,
+      lines,
+    };
+  }
+
+  /**
+   * Record a refund made outside SRAtix (provider back office) from a
+   * refund webhook. Only the amount not already covered by our own
+   * OrderRefund rows is recorded; no individual tickets are voided unless
+   * the order ends up fully refunded.
+   */
+  async reconcileProviderRefund(
+    payment: { id: string; orderId: string; provider: string },
+    amountRefundedCents: number,
+    providerRefundId?: string,
+  ): Promise<void> {
+    const order = await this.prisma.order.findUnique({
+      where: { id: payment.orderId },
+    });
+    if (!order) return;
+
+    const recorded = await this.prisma.orderRefund.aggregate({
+      where: { orderId: order.id, status: { in: ['pending', 'succeeded'] } },
+      _sum: { amountCents: true },
+    });
+    const unrecordedCents = amountRefundedCents - (recorded._sum.amountCents ?? 0);
+    if (unrecordedCents <= 0) {
+      this.logger.debug(`Provider refund for order ${order.orderNumber} already recorded`);
+      return;
+    }
+
+    const refund = await this.prisma.orderRefund.create({
+      data: {
+        orderId: order.id,
+        eventId: order.eventId,
+        amountCents: unrecordedCents,
+        currency: order.currency,
+        status: 'succeeded',
+        source: payment.provider,
+        paymentId: payment.id,
+        providerRefundId: providerRefundId ?? null,
+        lines: [],
+      },
+    });
+
+    await this.applyToOrder(order, refund.id, unrecordedCents, []);
+  }
+
+  // ─── Internals ────────────────────────────────────────────────────
+
+  /**
+   * What the buyer actually paid for the given lines: list price scaled by
+   * the order's paid ratio, so an order-level discount is refunded pro rata.
+   */
+  private paidAmountForLines(
+    order: { totalCents: number; items: Array<{ subtotalCents: number }> },
+    lines: RefundLine[],
+  ): number {
+    const subtotalCents = order.items.reduce((sum, item) => sum + item.subtotalCents, 0);
+    const listCents = lines.reduce((sum, l) => sum + l.unitPriceCents * l.quantity, 0);
+    if (subtotalCents <= 0) return 0;
+    return Math.round((listCents * order.totalCents) / subtotalCents);
+  }
+
+  /**
+   * Bump the order's refunded total, settle its status, and fan out the
+   * audit entry, buyer email and `order.refunded` webhook.
+   */
+  private async applyToOrder(
+    order: RefundableOrder,
+    refundId: string,
+    amountCents: number,
+    lines: RefundLine[],
+    reason?: string,
+  ): Promise<string> {
+    const updated = await this.prisma.order.update({
+      where: { id: order.id },
+      data: { refundedCents: { increment: amountCents } },
+      select: { refundedCents: true },
+    });
+    const fullRefund = updated.refundedCents >= order.totalCents;
+    const status = fullRefund ? 'refunded' : 'partially_refunded';
+    await this.prisma.order.update({ where: { id: order.id }, data: { status } });
+
+    // A full refund leaves no ticket valid — voidByOrder also releases seats
+    if (fullRefund) {
+      try {
+        await this.tickets.voidByOrder(order.id);
+      } catch (err) {
+        this.logger.error(`Failed to void tickets for refunded order ${order.id}: ${err}`);
+      }
+    }
+
+    this.logger.log(
+      `Refunded ${amountCents} cents on order ${order.orderNumber} → ${status}`,
+    );
+
+    this.audit.log({
+      eventId: order.eventId,
+      action: AuditAction.ORDER_REFUNDED,
+      entity: 'order',
+      entityId: order.id,
+      detail: {
+        orderNumber: order.orderNumber,
+        refundId,
+        amountCents,
+        refundedCents: updated.refundedCents,
+        status,
+        ticketCodes: lines.flatMap((l) => l.tickets.map((t) => t.code)),
+        ...(reason ? { reason } : {}),
+      },
+    });
+
+    if (order.customerEmail) {
+      const event = await this.prisma.event.findUnique({
+        where: { id: order.eventId },
+        select: { name: true },
+      });
+
+      // ── Credit note PDF & public access token ──
+      let creditNotePdf: { bytes: Uint8Array; fileName: string } | undefined;
+      let creditNoteUrl: string | undefined;
+      try {
+        const token = await this.invoices.ensureCreditNoteToken(refundId);
+        const result = await this.invoices.generateCreditNote(refundId);
+        creditNotePdf = { bytes: result.pdfBytes, fileName: result.fileName };
+        creditNoteUrl = `${INVOICE_PUBLIC_BASE}/api/invoices/credit-notes/t/${token}`;
+      } catch (err) {
+        // Non-blocking: the refund email still goes out without the credit note
+        this.logger.error(`Credit note generation failed for refund ${refundId}: ${err}`);
+      }
+
+      this.email
+        .sendRefundNotification(order.customerEmail, {
+          customerName: order.customerName ?? 'Guest',
+          orderNumber: order.orderNumber,
+          refundAmountFormatted: (amountCents / 100).toFixed(2),
+          currency: order.currency?.toUpperCase() ?? 'CHF',
+          eventName: event?.name ?? 'Event',
+          isPartial: !fullRefund,
+          creditNoteUrl,
+          creditNotePdf,
+        })
+        .catch((err) =>
+          this.logger.error(`Failed to send refund email for order ${order.id}: ${err}`),
+        );
+    }
+
+    this.outgoingWebhooks
+      .dispatch(order.orgId, order.eventId, 'order.refunded', {
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        eventId: order.eventId,
+        refundId,
+        amountCents,
+        refundedCents: updated.refundedCents,
+        totalCents: order.totalCents,
+        currency: order.currency,
+        status,
+        fullRefund,
+        lines: lines.map((l) => ({
+          ticketTypeId: l.ticketTypeId,
+          ticketTypeName: l.ticketTypeName,
+          quantity: l.quantity,
+          unitPriceCents: l.unitPriceCents,
+          ticketCodes: l.tickets.map((t) => t.code),
+        })),
+        ...(reason ? { reason } : {}),
+      })
+      .catch((err) =>
+        this.logger.error(`Webhook dispatch failed for order.refunded: ${err}`),
+      );
+
+    return status;
+  }
+}
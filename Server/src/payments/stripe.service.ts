@@ -88,6 +88,11 @@ export class StripeService implements OnModuleInit {
     return stripe;
   }
 
+  /** Whether a secret key is configured for the active mode. */
+  async isConfigured(): Promise<boolean> {
+    return (await this.initStripe()) !== null;
+  }
+
   /**
    * Create a Stripe Checkout Session for an order.
    *
@@ -104,11 +109,15 @@ export class StripeService implements OnModuleInit {
       description?: string;
       unitAmountCents: number;
       quantity: number;
+      /** Tags the Stripe product so each cart line maps back to its ticket type. */
+      ticketTypeId?: string;
     }>;
     successUrl: string;
     cancelUrl: string;
     metadata?: Record<string, string>;
     discountAmountCents?: number;
+    /** Session lifetime — Stripe accepts 30 min to 24 h. Defaults to 1 hour. */
+    expiresInMinutes?: number;
   }): Promise<{ sessionId: string; url: string }> {
     // If a discount is specified, create a one-time Stripe coupon
     let discounts: Stripe.Checkout.SessionCreateParams['discounts'] | undefined;
@@ -140,6 +149,9 @@ export class StripeService implements OnModuleInit {
           product_data: {
             name: item.name,
             description: item.description,
+            ...(item.ticketTypeId
+              ? { metadata: { sratix_ticket_type_id: item.ticketTypeId } }
+              : {}),
           },
         },
         quantity: item.quantity,
@@ -152,7 +164,7 @@ export class StripeService implements OnModuleInit {
       ...(discounts ? { discounts } : {}),
       success_url: params.successUrl,
       cancel_url: params.cancelUrl,
-      expires_at: Math.floor(Date.now() / 1000) + 3600, // 1 hour from now
+      expires_at: Math.floor(Date.now() / 1000) + (params.expiresInMinutes ?? 60) * 60,
     });
 
     this.logger.log(
@@ -213,11 +225,13 @@ export class StripeService implements OnModuleInit {
   async refund(
     paymentIntentId: string,
     amountCents?: number,
+    metadata?: Record<string, string>,
   ): Promise<Stripe.Refund> {
     const stripe = await this.ensureStripe();
     const refund = await stripe.refunds.create({
       payment_intent: paymentIntentId,
       ...(amountCents ? { amount: amountCents } : {}),
+      ...(metadata ? { metadata } : {}),
     });
     this.logger.log(
       `Refund ${refund.id} created for PI ${paymentIntentId} — ${refund.amount} cents`,
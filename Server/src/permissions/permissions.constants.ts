@@ -0,0 +1,32 @@
+/**
+ * Fine-grained permissions checked by RolesGuard via @RequirePermission().
+ * Each one names a single sensitive action; the roles that hold it are
+ * configured per role in the Users page (role_permissions table).
+ */
+export const PERMISSIONS = {
+  'orders.refund':    { label: 'Refund orders',         description: 'Issue full or partial refunds' },
+  'orders.cancel':    { label: 'Cancel orders',         description: 'Cancel orders and void their tickets' },
+  'orders.export':    { label: 'Export orders',         description: 'Download order CSV / XLSX exports' },
+  'attendees.export': { label: 'Export attendees',      description: 'Download attendee, check-in, submission and exhibitor exports' },
+  'checkin.scan':     { label: 'Scan tickets',          description: 'Record check-ins, sync offline scans, download the scanner manifest' },
+  'checkin.view':     { label: 'View check-ins',        description: 'Check-in list and live statistics' },
+  'boxoffice.sell':   { label: 'Box office sales',      description: 'Sell tickets on site and print badges' },
+  'boxoffice.drawer': { label: 'Cash drawer',           description: 'View and close the cash drawer' },
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const PERMISSION_KEYS = Object.keys(PERMISSIONS) as Permission[];
+
+/**
+ * Built-in grants, used for any role without a role_permissions row.
+ * These mirror the @Roles lists the endpoints had before permissions were
+ * introduced. super_admin and admin bypass permission checks entirely.
+ */
+export const DEFAULT_ROLE_PERMISSIONS: Record<string, Permission[]> = {
+  event_admin: [...PERMISSION_KEYS],
+  staff: ['checkin.scan', 'checkin.view'],
+  gate_staff: ['checkin.scan'],
+  scanner: ['checkin.scan'],
+  box_office: ['boxoffice.sell', 'boxoffice.drawer'],
+};
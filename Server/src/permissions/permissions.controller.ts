@@ -0,0 +1,56 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Delete,
+  Param,
+  Body,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { JwtPayload } from '../auth/auth.service';
+import { PermissionsService } from './permissions.service';
+import { IsArray, IsString } from 'class-validator';
+
+class UpdateRolePermissionsDto {
+  @IsArray()
+  @IsString({ each: true })
+  permissions!: string[];
+}
+
+/**
+ * Role → permission matrix, edited from the Users page.
+ */
+@Controller('permissions')
+@UseGuards(AuthGuard('jwt'), RolesGuard)
+export class PermissionsController {
+  constructor(private readonly permissions: PermissionsService) {}
+
+  /** GET /api/permissions/matrix — permission catalog and grants per role. */
+  @Get('matrix')
+  @Roles('super_admin', 'admin')
+  getMatrix() {
+    return this.permissions.getMatrix();
+  }
+
+  /** PUT /api/permissions/matrix/:role — replace a role's permissions. */
+  @Put('matrix/:role')
+  @Roles('super_admin', 'admin')
+  updateRole(
+    @Param('role') role: string,
+    @Body() dto: UpdateRolePermissionsDto,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    return this.permissions.updateRole(role, dto.permissions, user.sub);
+  }
+
+  /** DELETE /api/permissions/matrix/:role — restore the built-in defaults. */
+  @Delete('matrix/:role')
+  @Roles('super_admin', 'admin')
+  resetRole(@Param('role') role: string, @CurrentUser() user: JwtPayload) {
+    return this.permissions.resetRole(role, user.sub);
+  }
+}
@@ -0,0 +1,15 @@
+import { Module, Global } from '@nestjs/common';
+import { PermissionsService } from './permissions.service';
+import { PermissionsController } from './permissions.controller';
+
+/**
+ * Permissions Module — Global because RolesGuard, which every module's
+ * controllers use, resolves event grants and the permission matrix here.
+ */
+@Global()
+@Module({
+  controllers: [PermissionsController],
+  providers: [PermissionsService],
+  exports: [PermissionsService],
+})
+export class PermissionsModule {}
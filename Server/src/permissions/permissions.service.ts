@@ -0,0 +1,155 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { AuditLogService, AuditAction } from '../audit-log/audit-log.service';
+import { VALID_ROLES } from '../users/users.service';
+import {
+  PERMISSIONS,
+  PERMISSION_KEYS,
+  DEFAULT_ROLE_PERMISSIONS,
+  Permission,
+} from './permissions.constants';
+
+/** Roles that bypass permission checks and therefore have no matrix row. */
+const BYPASS_ROLES = ['super_admin', 'admin'];
+
+/** How long the matrix is served from memory before re-reading the table. */
+const MATRIX_TTL_MS = 60_000;
+
+export interface RolePermissionsRow {
+  role: string;
+  permissions: Permission[];
+  /** True when the row differs from DEFAULT_ROLE_PERMISSIONS (stored override). */
+  customized: boolean;
+}
+
+@Injectable()
+export class PermissionsService {
+  private readonly logger = new Logger(PermissionsService.name);
+  private cache: { matrix: Map<string, Set<Permission>>; loadedAt: number } | null = null;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly audit: AuditLogService,
+  ) {}
+
+  /**
+   * Roles granted to a user for a single event (event-scoped UserRole rows).
+   * Global and org-scoped roles are already in the JWT.
+   */
+  async eventRoles(userId: string, eventId: string): Promise<string[]> {
+    const grants = await this.prisma.userRole.findMany({
+      where: { userId, eventId },
+      select: { role: true },
+    });
+    return grants.map((g) => g.role);
+  }
+
+  /** Whether any of the given roles holds the permission. */
+  async hasPermission(roles: string[], permission: Permission): Promise<boolean> {
+    if (roles.some((r) => BYPASS_ROLES.includes(r))) return true;
+    const matrix = await this.loadMatrix();
+    return roles.some((r) => matrix.get(r)?.has(permission) ?? false);
+  }
+
+  /** The permission catalog and every editable role's current grants. */
+  async getMatrix(): Promise<{
+    permissions: Array<{ key: Permission; label: string; description: string }>;
+    roles: RolePermissionsRow[];
+  }> {
+    const stored = await this.prisma.rolePermission.findMany();
+    const storedByRole = new Map(stored.map((s) => [s.role, this.sanitize(s.permissions)]));
+
+    return {
+      permissions: PERMISSION_KEYS.map((key) => ({ key, ...PERMISSIONS[key] })),
+      roles: this.editableRoles().map((role) => ({
+        role,
+        permissions: storedByRole.get(role) ?? DEFAULT_ROLE_PERMISSIONS[role] ?? [],
+        customized: storedByRole.has(role),
+      })),
+    };
+  }
+
+  /**
+   * Replace the permissions of a role. Unknown permission keys are rejected
+   * so a typo cannot silently leave a role without access.
+   */
+  async updateRole(role: string, permissions: string[], actorUserId: string): Promise<RolePermissionsRow> {
+    this.assertEditable(role);
+    const unknown = permissions.filter((p) => !(PERMISSION_KEYS as string[]).includes(p));
+    if (unknown.length > 0) {
+      throw new BadRequestException(`Unknown permission(s): ${unknown.join(', ')}`);
+    }
+    const unique = [...new Set(permissions)] as Permission[];
+
+    await this.prisma.rolePermission.upsert({
+      where: { role },
+      create: { role, permissions: unique, updatedBy: actorUserId },
+      update: { permissions: unique, updatedBy: actorUserId },
+    });
+    this.cache = null;
+
+    this.audit.log({
+      userId: actorUserId,
+      action: AuditAction.ROLE_PERMISSIONS_UPDATED,
+      entity: 'role',
+      entityId: role,
+      detail: { permissions: unique },
+    });
+    this.logger.log(`Permissions for ${role} set to: ${unique.join(', ') || '(none)'}`);
+
+    return { role, permissions: unique, customized: true };
+  }
+
+  /** Drop a role's override so it falls back to the built-in defaults. */
+  async resetRole(role: string, actorUserId: string): Promise<RolePermissionsRow> {
+    this.assertEditable(role);
+    await this.prisma.rolePermission.deleteMany({ where: { role } });
+    this.cache = null;
+
+    const permissions = DEFAULT_ROLE_PERMISSIONS[role] ?? [];
+    this.audit.log({
+      userId: actorUserId,
+      action: AuditAction.ROLE_PERMISSIONS_UPDATED,
+      entity: 'role',
+      entityId: role,
+      detail: { permissions, reset: true },
+    });
+
+    return { role, permissions, customized: false };
+  }
+
+  // ─── Internals ────────────────────────────────────────────────
+
+  private editableRoles(): string[] {
+    return VALID_ROLES.filter((r) => !BYPASS_ROLES.includes(r));
+  }
+
+  private assertEditable(role: string) {
+    if (!this.editableRoles().includes(role)) {
+      throw new BadRequestException(`Permissions cannot be edited for role "${role}"`);
+    }
+  }
+
+  private sanitize(value: unknown): Permission[] {
+    if (!Array.isArray(value)) return [];
+    return value.filter((p): p is Permission => (PERMISSION_KEYS as unknown[]).includes(p));
+  }
+
+  private async loadMatrix(): Promise<Map<string, Set<Permission>>> {
+    if (this.cache && Date.now() - this.cache.loadedAt < MATRIX_TTL_MS) {
+      return this.cache.matrix;
+    }
+
+    const matrix = new Map<string, Set<Permission>>();
+    for (const [role, perms] of Object.entries(DEFAULT_ROLE_PERMISSIONS)) {
+      matrix.set(role, new Set(perms));
+    }
+    const stored = await this.prisma.rolePermission.findMany();
+    for (const row of stored) {
+      matrix.set(row.role, new Set(this.sanitize(row.permissions)));
+    }
+
+    this.cache = { matrix, loadedAt: Date.now() };
+    return matrix;
+  }
+}
@@ -162,6 +162,11 @@ export class PromoCodesService {
   /**
    * Validate a promo code and return the discount details.
    * Called during checkout to verify the code before applying.
+   *
+   * When `lineSubtotals` is given and the code is restricted to certain
+   * ticket types, the discount is computed on the applicable lines only —
+   * a code for Exhibitor tickets must not discount General tickets in the
+   * same cart.
    */
   async validateCode(
     eventId: string,
@@ -170,6 +175,7 @@ export class PromoCodesService {
       totalCents: number;
       ticketTypeIds: string[];
       customerEmail?: string;
+      lineSubtotals?: Array<{ ticketTypeId: string; subtotalCents: number }>;
     },
   ): Promise<{
     valid: boolean;
@@ -246,7 +252,7 @@ export class PromoCodesService {
           eventId,
           customerEmail: orderDetails.customerEmail,
           meta: { path: '$.promoCodeId', equals: promo.id },
-          status: { in: ['paid', 'pending'] },
+          status: { in: ['paid', 'pending', 'awaiting_payment'] },
         },
       });
       if (customerUses >= promo.perCustomerLimit) {
@@ -261,16 +267,29 @@ export class PromoCodesService {
       }
     }
 
+    // Discount base: the whole order, or only the applicable cart lines
+    let baseCents = orderDetails.totalCents;
+    if (
+      orderDetails.lineSubtotals &&
+      Array.isArray(promo.applicableTicketIds) &&
+      promo.applicableTicketIds.length > 0
+    ) {
+      const applicable = promo.applicableTicketIds as unknown as string[];
+      baseCents = orderDetails.lineSubtotals
+        .filter((line) => applicable.includes(line.ticketTypeId))
+        .reduce((sum, line) => sum + line.subtotalCents, 0);
+    }
+
     // Calculate discount
     let discountCents = 0;
     if (promo.discountType === 'percentage') {
-      discountCents = Math.round(orderDetails.totalCents * (promo.discountValue / 100));
+      discountCents = Math.round(baseCents * (promo.discountValue / 100));
     } else {
       discountCents = promo.discountValue;
     }
 
-    // Don't exceed order total
-    discountCents = Math.min(discountCents, orderDetails.totalCents);
+    // Don't exceed the discountable amount
+    discountCents = Math.min(discountCents, baseCents);
 
     return {
       valid: true,
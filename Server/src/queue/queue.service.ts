@@ -16,6 +16,7 @@ import { ConfigService } from '@nestjs/config';
  *   - export     — data export (CSV generation)
  *   - sync       — WP plugin sync jobs
  *   - webhook    — outgoing webhook delivery
+ *   - import     — bulk attendee imports (CSV/XLSX)
  *
  * Phase 2: Registers queues and workers. BullMQ + ioredis are already
  * in package.json (^5.69.0 / ^5.9.0).
@@ -36,7 +37,8 @@ export type JobName =
   | 'export.csv'
   | 'sync.wp'
   | 'webhook.deliver'
-  | 'reminder.registration';
+  | 'reminder.registration'
+  | 'import.attendees';
 
 export interface JobPayload {
   'email.send': {
@@ -62,10 +64,8 @@ export interface JobPayload {
     format: 'png' | 'pdf';
   };
   'badge.batch': {
-    templateId: string;
+    batchId: string;   // BadgeBatch row — filters and options live there
     eventId: string;
-    ticketIds: string[];
-    format: 'png' | 'pdf';
   };
   'export.csv': {
     type: 'attendees' | 'orders' | 'check-ins' | 'submissions';
@@ -89,6 +89,10 @@ export interface JobPayload {
     eventId: string;
     isSecondReminder: boolean;
   };
+  'import.attendees': {
+    importId: string;  // AttendeeImport row — mapping and options live there
+    eventId: string;
+  };
 }
 
 @Injectable()
@@ -127,7 +131,7 @@ export class QueueService implements OnModuleInit, OnModuleDestroy {
     // Create queues
     const { Queue } = await import('bullmq');
 
-    const queueNames = ['email', 'pdf', 'badge', 'export', 'sync', 'webhook', 'reminder'];
+    const queueNames = ['email', 'pdf', 'badge', 'export', 'sync', 'webhook', 'reminder', 'import'];
     for (const name of queueNames) {
       const queue = new Queue(`sratix-${name}`, {
         connection: this.connectionConfig as Record<string, unknown>,
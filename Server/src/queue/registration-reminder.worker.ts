@@ -115,17 +115,21 @@ export class RegistrationReminderWorker implements OnModuleInit {
         })
       : null;
 
-    // Find registration base URL from order meta
-    const order = await this.prisma.order.findFirst({
-      where: {
-        eventId: data.eventId,
-        attendeeId: attendee.purchasedByAttendeeId ?? undefined,
-        status: 'paid',
-      },
-      orderBy: { createdAt: 'desc' },
-    });
+    // Find registration base URL from order meta — the ticket's own order
+    // first (transferred tickets keep it), else the purchaser's latest order
+    const order = ticket?.orderId
+      ? await this.prisma.order.findUnique({ where: { id: ticket.orderId } })
+      : await this.prisma.order.findFirst({
+          where: {
+            eventId: data.eventId,
+            attendeeId: attendee.purchasedByAttendeeId ?? undefined,
+            status: 'paid',
+          },
+          orderBy: { createdAt: 'desc' },
+        });
     const orderMeta = (order?.meta as Record<string, unknown>) ?? {};
-    const registrationBaseUrl = (orderMeta.registrationBaseUrl as string) ?? '';
+    const registrationBaseUrl =
+      ((orderMeta.attendeeRegisterBaseUrl ?? orderMeta.registrationBaseUrl) as string) ?? '';
 
     if (!registrationBaseUrl) {
       this.logger.warn(
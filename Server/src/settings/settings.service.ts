@@ -44,6 +44,19 @@ export interface SettingValue {
 
 /** All manageable settings definitions. */
 const SETTING_DEFINITIONS: SettingDefinition[] = [
+  // ── Payments ──
+  {
+    key: 'payment_provider',
+    envVar: 'PAYMENT_PROVIDER',
+    label: 'Payment Provider',
+    group: 'Payments',
+    description: 'Hosted payment page used for new ticket checkouts. Orders already paid keep refunding through the provider they were paid with.',
+    type: 'select',
+    options: ['stripe', 'postfinance'],
+    sensitive: false,
+    required: false,
+  },
+
   // ── Stripe ──
   {
     key: 'stripe_mode',
@@ -117,6 +130,70 @@ const SETTING_DEFINITIONS: SettingDefinition[] = [
     required: false,
   },
 
+  // ── PostFinance Checkout ──
+  {
+    key: 'postfinance_mode',
+    envVar: 'POSTFINANCE_MODE',
+    label: 'Space Mode',
+    group: 'PostFinance',
+    description: 'Whether the configured space is a test or a live space — test orders are tagged like Stripe test orders',
+    type: 'select',
+    options: ['test', 'live'],
+    sensitive: false,
+    required: false,
+  },
+  {
+    key: 'postfinance_space_id',
+    envVar: 'POSTFINANCE_SPACE_ID',
+    label: 'Space ID',
+    group: 'PostFinance',
+    description: 'PostFinance Checkout space ID (Space → General → Space ID)',
+    type: 'string',
+    sensitive: false,
+    required: false,
+  },
+  {
+    key: 'postfinance_user_id',
+    envVar: 'POSTFINANCE_USER_ID',
+    label: 'Application User ID',
+    group: 'PostFinance',
+    description: 'ID of the application user with API access to the space',
+    type: 'string',
+    sensitive: false,
+    required: false,
+  },
+  {
+    key: 'postfinance_api_secret',
+    envVar: 'POSTFINANCE_API_SECRET',
+    label: 'Application User Secret',
+    group: 'PostFinance',
+    description: 'Authentication key of the application user (base64, shown once on creation). Webhooks go to /webhooks/payments/postfinance',
+    type: 'secret',
+    sensitive: true,
+    required: false,
+  },
+
+  // ── Checkout ──
+  {
+    key: 'checkout_hold_minutes',
+    envVar: 'CHECKOUT_HOLD_MINUTES',
+    label: 'Inventory Hold Window',
+    group: 'Checkout',
+    description: 'Minutes a pending order reserves its tickets before they return to sale (30–1440, default 60). Also used as the Stripe Checkout session lifetime.',
+    type: 'number',
+    sensitive: false,
+    required: false,
+  },
+  {
+    key: 'waitlist_offer_hours',
+    envVar: 'WAITLIST_OFFER_HOURS',
+    label: 'Waitlist Offer Window',
+    group: 'Checkout',
+    description: 'Hours a waitlist purchase link stays valid before the seats roll over to the next person (1–168, default 24).',
+    type: 'number',
+    sensitive: false,
+    required: false,
+  },
 
   // ── SMTP / Email ──
   {
@@ -213,6 +290,16 @@ const SETTING_DEFINITIONS: SettingDefinition[] = [
     sensitive: true,
     required: true,
   },
+  {
+    key: 'two_factor_required_roles',
+    envVar: 'TWO_FACTOR_REQUIRED_ROLES',
+    label: 'Roles Requiring 2FA',
+    group: 'Security',
+    description: 'Comma-separated roles (e.g. super_admin,admin,event_admin) that must set up an authenticator app before they can sign in with a password.',
+    type: 'string',
+    sensitive: false,
+    required: false,
+  },
 
   // ── Redis ──
   {
@@ -589,12 +676,13 @@ export class SettingsService implements OnModuleInit {
   }
 
   /**
-   * Check if Stripe is currently in test mode.
+   * Check if the active payment provider is in test mode.
    * Used to gate side-effects that should not happen during test purchases
    * (e.g. WP user creation, WC order creation, ProfileGrid assignment).
    */
   async isTestMode(): Promise<boolean> {
-    const mode = await this.resolve('stripe_mode', 'test');
+    const provider = await this.resolve('payment_provider', 'stripe');
+    const mode = await this.resolve(provider === 'postfinance' ? 'postfinance_mode' : 'stripe_mode', 'test');
     return mode !== 'live';
   }
 }
@@ -105,6 +105,7 @@ export class SseService {
       ticketType: string;
       direction: string;
       timestamp: string;
+      zone?: string;
     },
   ) {
     this.emit(eventId, 'check-ins', data);
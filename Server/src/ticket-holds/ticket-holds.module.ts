@@ -0,0 +1,15 @@
+import { Module, forwardRef } from '@nestjs/common';
+import { TicketHoldsService } from './ticket-holds.service';
+import { SettingsModule } from '../settings/settings.module';
+
+/**
+ * Ticket holds — inventory reservations for pending orders plus the
+ * periodic expiry sweep. ScheduleModule.forRoot() (in AppModule) enables
+ * the @Interval.
+ */
+@Module({
+  imports: [forwardRef(() => SettingsModule)],
+  providers: [TicketHoldsService],
+  exports: [TicketHoldsService],
+})
+export class TicketHoldsModule {}
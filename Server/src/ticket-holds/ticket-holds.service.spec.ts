@@ -0,0 +1,114 @@
+import { BadRequestException } from '@nestjs/common';
+import { TicketHoldsService } from './ticket-holds.service';
+
+/**
+ * The hold is the authoritative capacity check at checkout. These tests pin
+ * the all-or-nothing behaviour (a failed item rolls back earlier holds) and
+ * the clamping of the configurable window to what Stripe accepts. Built via
+ * Object.create so only `prisma` / `settings` need faking.
+ */
+describe('TicketHoldsService', () => {
+  function makeService(opts: { affected: number[]; holdSetting?: string }): any {
+    const service: any = Object.create(TicketHoldsService.prototype);
+    const affected = [...opts.affected];
+    service.prisma = {
+      $executeRawUnsafe: jest.fn().mockImplementation((sql: string) =>
+        Promise.resolve(sql.includes('GREATEST') ? 1 : affected.shift() ?? 1),
+      ),
+      ticketType: {
+        findUnique: jest.fn().mockResolvedValue({ name: 'General', quantity: 10, sold: 8, held: 1 }),
+      },
+      ticketHold: { createMany: jest.fn().mockResolvedValue({ count: 1 }) },
+      addOnStock: { upsert: jest.fn().mockResolvedValue({}) },
+    };
+    service.settings = {
+      resolve: jest.fn().mockResolvedValue(opts.holdSetting ?? '60'),
+    };
+    service.logger = { log: jest.fn(), error: jest.fn() };
+    return service;
+  }
+
+  const order = {
+    id: 'ord-1',
+    eventId: 'evt-1',
+    items: [
+      { ticketTypeId: 'tt-a', quantity: 2 },
+      { ticketTypeId: 'tt-b', quantity: 3 },
+    ],
+  };
+
+  it('records one hold per ticket type when every item has capacity', async () => {
+    const service = makeService({ affected: [1, 1] });
+
+    const expiresAt = await service.holdForOrder(order);
+
+    expect(expiresAt.getTime()).toBeGreaterThan(Date.now());
+    const rows = service.prisma.ticketHold.createMany.mock.calls[0][0].data;
+    expect(rows.map((r: any) => [r.ticketTypeId, r.quantity])).toEqual([
+      ['tt-a', 2],
+      ['tt-b', 3],
+    ]);
+  });
+
+  it('rolls back earlier holds and reports remaining seats when an item is short', async () => {
+    const service = makeService({ affected: [1, 0] });
+
+    await expect(service.holdForOrder(order)).rejects.toThrow(
+      new BadRequestException('Only 1 ticket(s) remaining for General'),
+    );
+
+    const rollback = service.prisma.$executeRawUnsafe.mock.calls.find(([sql]: [string]) =>
+      sql.includes('GREATEST'),
+    );
+    expect(rollback.slice(1)).toEqual([2, 'tt-a']);
+    expect(service.prisma.ticketHold.createMany).not.toHaveBeenCalled();
+  });
+
+  it('merges duplicate ticket types into a single conditional update', async () => {
+    const service = makeService({ affected: [1] });
+
+    await service.holdForOrder({
+      ...order,
+      items: [
+        { ticketTypeId: 'tt-a', quantity: 2 },
+        { ticketTypeId: 'tt-a', quantity: 1 },
+      ],
+    });
+
+    expect(service.prisma.$executeRawUnsafe).toHaveBeenCalledTimes(1);
+    expect(service.prisma.$executeRawUnsafe.mock.calls[0].slice(1)).toEqual([3, 'tt-a', 3]);
+  });
+
+  it('skips add-on lines, which carry no ticket type', async () => {
+    const service = makeService({ affected: [1] });
+
+    await service.holdForOrder({ ...order, items: [order.items[0], { ticketTypeId: null, quantity: 1 }] });
+
+    expect(service.prisma.$executeRawUnsafe).toHaveBeenCalledTimes(1);
+  });
+
+  it('rolls back add-on stock when a later add-on is sold out', async () => {
+    const service = makeService({ affected: [1, 0] });
+    const addOn = (key: string, label: string) => ({ key, label, quantity: 1, stock: 20, ticketTypeId: 'tt-a' });
+
+    await expect(
+      service.holdAddOns(order, [addOn('diet:dinner', 'Dinner'), addOn('tour:lab', 'Lab tour')], new Date()),
+    ).rejects.toThrow(new BadRequestException('Lab tour is sold out'));
+
+    const rollback = service.prisma.$executeRawUnsafe.mock.calls.find(([sql]: [string]) =>
+      sql.includes('GREATEST'),
+    );
+    expect(rollback.slice(1)).toEqual([1, 'evt-1', 'diet:dinner']);
+    expect(service.prisma.ticketHold.createMany).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['5', 30],
+    ['90', 90],
+    ['5000', 1440],
+    ['not-a-number', 60],
+  ])('clamps checkout_hold_minutes=%s to %i', async (raw, expected) => {
+    const service = makeService({ affected: [], holdSetting: raw });
+    await expect(service.getHoldMinutes()).resolves.toBe(expected);
+  });
+});
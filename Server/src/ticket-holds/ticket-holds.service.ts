@@ -0,0 +1,346 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
+import { PrismaService } from '../prisma/prisma.service';
+import { SettingsService } from '../settings/settings.service';
+import { AuditLogService, AuditAction } from '../audit-log/audit-log.service';
+
+/** Default hold window when `checkout_hold_minutes` is unset or invalid. */
+const DEFAULT_HOLD_MINUTES = 60;
+
+/**
+ * Stripe Checkout sessions must expire between 30 minutes and 24 hours after
+ * creation. The hold window doubles as the session lifetime, so it is clamped
+ * to the same range — a session must never outlive the seats it reserved.
+ */
+const MIN_HOLD_MINUTES = 30;
+const MAX_HOLD_MINUTES = 1440;
+
+export type HoldReleaseReason = 'expired' | 'session_expired' | 'cancelled' | 'deleted';
+
+/**
+ * Ticket Holds Service — reserves inventory for pending orders.
+ *
+ * `TicketType.sold` only moves once tickets are issued (after payment), so
+ * without holds two buyers could both pass the availability check for the
+ * last seats. A hold bumps `TicketType.held` with a single conditional UPDATE
+ * (`quantity - sold - held >= n`), which MariaDB serialises per row, and
+ * records a TicketHold row so the reservation can be released later.
+ *
+ * Lifecycle:
+ *   active → converted : tickets issued for the order (TicketsService.issueForOrder)
+ *   active → released  : Stripe session expired, order cancelled/deleted,
+ *                        or the hold window elapsed (sweepExpired)
+ *
+ * Pay-by-invoice orders hold their seats past the payment due date (plus a
+ * few days for the transfer to settle) instead of the checkout window
+ * (`holdForOrder(…, until)`).
+ *
+ * Waitlist offers reserve seats through the same counter (`reserveUnits`);
+ * a claimed offer is handed to the order's hold via `holdForOrder(…, preHeld)`.
+ *
+ * Add-ons (priced form options) with a stock limit are held the same way
+ * against `AddOnStock.taken` (`holdAddOns`). Their TicketHold rows carry an
+ * `addOnKey`; `taken` stays up on conversion (it counts sold units too) and
+ * only drops on release or `returnAddOnsForOrder`.
+ *
+ * Public availability is `quantity − sold − held`.
+ */
+@Injectable()
+export class TicketHoldsService {
+  private readonly logger = new Logger(TicketHoldsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly settings: SettingsService,
+    private readonly audit: AuditLogService,
+  ) {}
+
+  /**
+   * Resolve the configured hold window in minutes (clamped to the range
+   * Stripe accepts for Checkout session expiry).
+   */
+  async getHoldMinutes(): Promise<number> {
+    const raw = await this.settings.resolve('checkout_hold_minutes', String(DEFAULT_HOLD_MINUTES));
+    const parsed = parseInt(raw, 10);
+    if (isNaN(parsed)) return DEFAULT_HOLD_MINUTES;
+    return Math.min(MAX_HOLD_MINUTES, Math.max(MIN_HOLD_MINUTES, parsed));
+  }
+
+  /**
+   * Reserve inventory for every item of a pending order.
+   *
+   * All-or-nothing: if any ticket type lacks capacity, holds already taken
+   * for earlier items are rolled back and a BadRequestException is thrown.
+   * Ticket types with unlimited quantity are still recorded (the UPDATE
+   * always succeeds) so conversion/release stays uniform.
+   *
+   * `preHeld` units are already counted in `held` (a claimed waitlist offer)
+   * and are taken over by the order's hold without a capacity check.
+   * `until` overrides the configured hold window (pay-by-invoice due date).
+   *
+   * @returns the hold expiry timestamp
+   */
+  async holdForOrder(
+    order: {
+      id: string;
+      eventId: string;
+      items: Array<{ ticketTypeId: string | null; quantity: number }>;
+    },
+    preHeld?: { ticketTypeId: string; quantity: number },
+    until?: Date,
+  ): Promise<Date> {
+    const expiresAt = until ?? new Date(Date.now() + (await this.getHoldMinutes()) * 60_000);
+
+    // Merge duplicate ticket types so each row is checked against its total.
+    // Add-on lines have no ticket type and are held through holdAddOns.
+    const qtyByType = new Map<string, number>();
+    for (const item of order.items) {
+      if (!item.ticketTypeId) continue;
+      qtyByType.set(item.ticketTypeId, (qtyByType.get(item.ticketTypeId) ?? 0) + item.quantity);
+    }
+
+    const taken: Array<[string, number]> = [];
+    for (const [ticketTypeId, quantity] of qtyByType) {
+      const alreadyHeld = preHeld?.ticketTypeId === ticketTypeId
+        ? Math.min(preHeld.quantity, quantity)
+        : 0;
+      const needed = quantity - alreadyHeld;
+
+      if (needed > 0 && !(await this.reserveUnits(ticketTypeId, needed))) {
+        for (const [heldTypeId, heldQty] of taken) {
+          await this.decrementHeld(heldTypeId, heldQty);
+        }
+        const tt = await this.prisma.ticketType.findUnique({
+          where: { id: ticketTypeId },
+          select: { name: true, quantity: true, sold: true, held: true },
+        });
+        const available = tt?.quantity != null ? Math.max(0, tt.quantity - tt.sold - tt.held) : 0;
+        throw new BadRequestException(
+          available === 0
+            ? `${tt?.name ?? 'This ticket type'} is sold out`
+            : `Only ${available} ticket(s) remaining for ${tt?.name ?? 'this ticket type'}`,
+        );
+      }
+      if (needed > 0) taken.push([ticketTypeId, needed]);
+    }
+
+    await this.prisma.ticketHold.createMany({
+      data: [...qtyByType].map(([ticketTypeId, quantity]) => ({
+        eventId: order.eventId,
+        orderId: order.id,
+        ticketTypeId,
+        quantity,
+        expiresAt,
+      })),
+    });
+
+    return expiresAt;
+  }
+
+  /**
+   * Reserve add-on stock for a pending order, next to its ticket holds.
+   *
+   * Same all-or-nothing contract as `holdForOrder`. Add-ons without a stock
+   * limit still count into `taken` so the Dashboard can show units sold.
+   */
+  async holdAddOns(
+    order: { id: string; eventId: string },
+    addOns: Array<{ key: string; label: string; quantity: number; stock: number | null; ticketTypeId: string }>,
+    expiresAt: Date,
+  ): Promise<void> {
+    const taken: Array<[string, number]> = [];
+    for (const addOn of addOns) {
+      await this.prisma.addOnStock.upsert({
+        where: { eventId_addOnKey: { eventId: order.eventId, addOnKey: addOn.key } },
+        create: { eventId: order.eventId, addOnKey: addOn.key },
+        update: {},
+      });
+      const affected = await this.prisma.$executeRawUnsafe(
+        'UPDATE `add_on_stock` SET `taken` = `taken` + ? ' +
+          'WHERE `eventId` = ? AND `addOnKey` = ? AND (? IS NULL OR `taken` + ? <= ?)',
+        addOn.quantity,
+        order.eventId,
+        addOn.key,
+        addOn.stock,
+        addOn.quantity,
+        addOn.stock,
+      );
+      if (affected === 0) {
+        for (const [key, quantity] of taken) {
+          await this.decrementTaken(order.eventId, key, quantity);
+        }
+        throw new BadRequestException(`${addOn.label} is sold out`);
+      }
+      taken.push([addOn.key, addOn.quantity]);
+    }
+
+    await this.prisma.ticketHold.createMany({
+      data: addOns.map((addOn) => ({
+        eventId: order.eventId,
+        orderId: order.id,
+        ticketTypeId: addOn.ticketTypeId,
+        addOnKey: addOn.key,
+        quantity: addOn.quantity,
+        expiresAt,
+      })),
+    });
+  }
+
+  /**
+   * Give add-on stock back for a cancelled paid order. Converted add-on holds
+   * are flipped to `released` so a second call is a no-op.
+   */
+  async returnAddOnsForOrder(orderId: string): Promise<void> {
+    const holds = await this.prisma.ticketHold.findMany({
+      where: { orderId, status: 'converted', addOnKey: { not: null } },
+    });
+    for (const hold of holds) {
+      const { count } = await this.prisma.ticketHold.updateMany({
+        where: { id: hold.id, status: 'converted' },
+        data: { status: 'released', releasedAt: new Date(), releaseReason: 'cancelled' },
+      });
+      if (count > 0) await this.decrementTaken(hold.eventId, hold.addOnKey!, hold.quantity);
+    }
+  }
+
+  /**
+   * Atomically add `quantity` to `held` if that much capacity is free.
+   * Used directly by waitlist offers, which reserve seats without an order.
+   */
+  async reserveUnits(ticketTypeId: string, quantity: number): Promise<boolean> {
+    const affected = await this.prisma.$executeRawUnsafe(
+      'UPDATE `ticket_types` SET `held` = `held` + ? ' +
+        'WHERE `id` = ? AND (`quantity` IS NULL OR `quantity` - `sold` - `held` >= ?)',
+      quantity,
+      ticketTypeId,
+      quantity,
+    );
+    return affected > 0;
+  }
+
+  /** Give back units taken with `reserveUnits`. */
+  async releaseUnits(ticketTypeId: string, quantity: number): Promise<void> {
+    await this.decrementHeld(ticketTypeId, quantity);
+  }
+
+  /**
+   * Convert an order's active holds after its tickets were issued. `sold`
+   * has already been incremented by the caller, so this only gives back the
+   * `held` units. No-op for orders that never held inventory (comp entries,
+   * manual issuance) or whose hold was already released.
+   */
+  async convertForOrder(orderId: string): Promise<void> {
+    await this.settle(orderId, 'converted');
+  }
+
+  /**
+   * Release an order's active holds, returning the seats to sale.
+   * Safe to call repeatedly — only `active` holds are touched.
+   */
+  async releaseForOrder(orderId: string, reason: HoldReleaseReason): Promise<number> {
+    const released = await this.settle(orderId, 'released', reason);
+    if (released > 0) {
+      this.logger.log(`Released ${released} held ticket(s) for order ${orderId} (${reason})`);
+    }
+    return released;
+  }
+
+  /**
+   * Periodic sweep: release holds whose window elapsed and expire the
+   * corresponding orders if they are still pending. Covers buyers who never
+   * reach Stripe (free-path crashes, closed tabs before redirect), missed
+   * `checkout.session.expired` webhooks and unpaid invoices past their due date.
+   */
+  @Interval('ticket-hold-sweep', 60_000)
+  async sweepExpired(): Promise<void> {
+    try {
+      const stale = await this.prisma.ticketHold.findMany({
+        where: { status: 'active', expiresAt: { lt: new Date() } },
+        select: { orderId: true },
+        distinct: ['orderId'],
+      });
+
+      for (const { orderId } of stale) {
+        await this.releaseForOrder(orderId, 'expired');
+
+        const order = await this.prisma.order.findUnique({
+          where: { id: orderId },
+          select: { status: true, eventId: true, orderNumber: true },
+        });
+        if (order?.status === 'pending' || order?.status === 'awaiting_payment') {
+          await this.prisma.order.update({
+            where: { id: orderId },
+            data: { status: 'expired' },
+          });
+          this.audit.log({
+            eventId: order.eventId,
+            action: AuditAction.ORDER_EXPIRED,
+            entity: 'order',
+            entityId: orderId,
+            detail: {
+              orderNumber: order.orderNumber,
+              reason: order.status === 'awaiting_payment' ? 'payment_overdue' : 'hold_expired',
+            },
+          });
+        }
+      }
+    } catch (err) {
+      this.logger.error(
+        `Ticket hold sweep failed: ${err instanceof Error ? err.message : String(err)}`,
+      );
+    }
+  }
+
+  // ─── Internals ────────────────────────────────────────────────────
+
+  private async settle(
+    orderId: string,
+    status: 'converted' | 'released',
+    reason?: HoldReleaseReason,
+  ): Promise<number> {
+    const holds = await this.prisma.ticketHold.findMany({
+      where: { orderId, status: 'active' },
+    });
+    if (holds.length === 0) return 0;
+
+    let total = 0;
+    for (const hold of holds) {
+      // Flip the row first: if two releases race, only one wins the
+      // status guard and decrements the counter.
+      const { count } = await this.prisma.ticketHold.updateMany({
+        where: { id: hold.id, status: 'active' },
+        data: {
+          status,
+          releasedAt: new Date(),
+          ...(reason ? { releaseReason: reason } : {}),
+        },
+      });
+      if (count === 0) continue;
+      if (hold.addOnKey) {
+        if (status === 'released') await this.decrementTaken(hold.eventId, hold.addOnKey, hold.quantity);
+        continue;
+      }
+      await this.decrementHeld(hold.ticketTypeId, hold.quantity);
+      total += hold.quantity;
+    }
+    return total;
+  }
+
+  private async decrementHeld(ticketTypeId: string, quantity: number): Promise<void> {
+    // GREATEST guards against drift (e.g. a manual DB fix) pushing it negative.
+    await this.prisma.$executeRawUnsafe(
+      'UPDATE `ticket_types` SET `held` = GREATEST(`held` - ?, 0) WHERE `id` = ?',
+      quantity,
+      ticketTypeId,
+    );
+  }
+
+  private async decrementTaken(eventId: string, addOnKey: string, quantity: number): Promise<void> {
+    await this.prisma.$executeRawUnsafe(
+      'UPDATE `add_on_stock` SET `taken` = GREATEST(`taken` - ?, 0) WHERE `eventId` = ? AND `addOnKey` = ?',
+      quantity,
+      eventId,
+      addOnKey,
+    );
+  }
+}
@@ -77,6 +77,7 @@ export class TicketTypesController {
       category?: TicketCategory;
       membershipTier?: MembershipTier;
       wpProductId?: number;
+      validDays?: string[] | null;
       meta?: Record<string, unknown>;
     },
   ) {
@@ -96,6 +97,7 @@ export class TicketTypesController {
       category: dto.category,
       membershipTier: dto.membershipTier,
       wpProductId: dto.wpProductId,
+      validDays: dto.validDays,
       meta: dto.meta,
     });
   }
@@ -3,9 +3,10 @@ import { TicketTypesService } from './ticket-types.service';
 import { TicketTypesController } from './ticket-types.controller';
 import { TicketTypesPublicController } from './ticket-types-public.controller';
 import { AuthModule } from '../auth/auth.module';
+import { WaitlistModule } from '../waitlist/waitlist.module';
 
 @Module({
-  imports: [AuthModule],
+  imports: [AuthModule, WaitlistModule],
   controllers: [TicketTypesController, TicketTypesPublicController],
   providers: [TicketTypesService],
   exports: [TicketTypesService],
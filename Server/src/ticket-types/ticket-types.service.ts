@@ -1,6 +1,9 @@
 import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
 import { AuditLogService, AuditAction } from '../audit-log/audit-log.service';
+import { WaitlistService } from '../waitlist/waitlist.service';
+import { eventDays } from '../common/event-date.util';
 
 // ─── TicketType Status Transition Matrix ──────────────────────────────────
 //
@@ -191,6 +194,7 @@ export class TicketTypesService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly audit: AuditLogService,
+    private readonly waitlist: WaitlistService,
   ) {}
 
   // ─── Transition Guard ─────────────────────────────────────────
@@ -308,6 +312,7 @@ export class TicketTypesService {
   /**
    * Public-facing query: returns only active ticket types within their
    * sales window, with remaining availability and resolved pricing.
+   * Availability is `quantity − sold − held` (held = pending-order holds).
    */
   async findPublicByEvent(eventId: string) {
     const now = new Date();
@@ -340,8 +345,8 @@ export class TicketTypesService {
           priceCents: pricing.activePriceCents,
           currency: t.currency,
           maxPerOrder: t.maxPerOrder,
-          available: t.quantity !== null ? t.quantity - t.sold : null,
-          soldOut: t.quantity !== null && t.sold >= t.quantity,
+          available: t.quantity !== null ? Math.max(0, t.quantity - t.sold - t.held) : null,
+          soldOut: t.quantity !== null && t.sold + t.held >= t.quantity,
           salesStart: t.salesStart,
           salesEnd: t.salesEnd,
           // ── New pricing fields ──
@@ -382,6 +387,7 @@ export class TicketTypesService {
     category?: TicketCategory;
     membershipTier?: MembershipTier;
     wpProductId?: number;
+    validDays?: string[] | null;
     meta?: Record<string, unknown>;
   }) {
     // Validate category
@@ -394,6 +400,7 @@ export class TicketTypesService {
         `Invalid membership tier: ${data.membershipTier}`,
       );
     }
+    const validDays = await this.validateValidDays(data.eventId, data.validDays);
 
     const ticketType = await this.prisma.ticketType.create({
       data: {
@@ -411,6 +418,7 @@ export class TicketTypesService {
         category: data.category ?? 'general',
         membershipTier: data.membershipTier,
         wpProductId: data.wpProductId,
+        validDays: validDays ?? undefined,
         meta: data.meta as any,
       },
       include: { pricingVariants: true },
@@ -445,6 +453,7 @@ export class TicketTypesService {
       category: TicketCategory;
       membershipTier: MembershipTier | null;
       wpProductId: number | null;
+      validDays: string[] | null;
       meta: Record<string, unknown>;
     }>,
   ) {
@@ -458,10 +467,15 @@ export class TicketTypesService {
     if (data.category && !TICKET_CATEGORIES.includes(data.category)) {
       throw new BadRequestException(`Invalid category: ${data.category}`);
     }
+    const { validDays, ...rest } = data;
+    const days = validDays !== undefined ? await this.validateValidDays(eventId, validDays) : undefined;
 
     const updated = await this.prisma.ticketType.update({
       where: { id },
-      data: data as any,
+      data: {
+        ...(rest as any),
+        ...(days !== undefined && { validDays: days ?? Prisma.DbNull }),
+      },
       include: { pricingVariants: { orderBy: { sortOrder: 'asc' } } },
     });
 
@@ -473,9 +487,47 @@ export class TicketTypesService {
       detail: data as Record<string, unknown>,
     });
 
+    // Raised (or lifted) capacity goes to the waitlist before public sale
+    if (
+      data.quantity !== undefined &&
+      current.quantity !== null &&
+      (data.quantity === null || data.quantity > current.quantity)
+    ) {
+      this.waitlist
+        .promote(id)
+        .catch((err) => this.logger.error(`Waitlist promotion failed after capacity change: ${err}`));
+    }
+
     return updated;
   }
 
+  /**
+   * Days a ticket type admits on must be calendar days of the event, in the
+   * event timezone. An empty list means every day (null).
+   */
+  private async validateValidDays(
+    eventId: string,
+    days: string[] | null | undefined,
+  ): Promise<string[] | null> {
+    if (!days?.length) return null;
+    if (!Array.isArray(days) || days.some((d) => typeof d !== 'string')) {
+      throw new BadRequestException('validDays must be a list of dates (YYYY-MM-DD)');
+    }
+
+    const event = await this.prisma.event.findUnique({
+      where: { id: eventId },
+      select: { startDate: true, endDate: true, timezone: true },
+    });
+    if (!event) throw new NotFoundException(`Event ${eventId} not found`);
+
+    const allowed = eventDays(event.startDate, event.endDate, event.timezone);
+    const invalid = days.filter((d) => !allowed.includes(d));
+    if (invalid.length > 0) {
+      throw new BadRequestException(`Not a day of this event: ${invalid.join(', ')}`);
+    }
+    return [...new Set(days)].sort();
+  }
+
   // ─── Pricing Variant CRUD ─────────────────────────────────────
 
   async createVariant(
@@ -812,8 +864,9 @@ export class TicketTypesService {
 
     return filtered.map((tt) => {
       const resolvedPrice = this.resolvePrice(tt, tt.pricingVariants);
-      const available = tt.quantity != null ? Math.max(0, tt.quantity - tt.sold) : null;
-      const soldOut = tt.quantity != null && tt.sold >= tt.quantity;
+      // Seats held by pending checkouts are unavailable until released
+      const available = tt.quantity != null ? Math.max(0, tt.quantity - tt.sold - tt.held) : null;
+      const soldOut = tt.quantity != null && tt.sold + tt.held >= tt.quantity;
 
       // Calculate member discount if applicable
       // Member discount is calculated against the BASE price (not the early bird price).
@@ -0,0 +1,105 @@
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { TicketTransferService } from './ticket-transfer.service';
+
+/**
+ * Attendees may only hand on their own tickets and only before the event's
+ * transfer cutoff; admins are exempt from both. Built via Object.create so
+ * only the collaborators touched need faking.
+ */
+describe('TicketTransferService', () => {
+  const DAY = 24 * 60 * 60 * 1000;
+
+  function makeService(eventOverrides: Record<string, unknown> = {}): any {
+    const service: any = Object.create(TicketTransferService.prototype);
+    const ticket = {
+      id: 'tkt-1',
+      eventId: 'evt-1',
+      orgId: 'org-1',
+      attendeeId: 'att-1',
+      status: 'valid',
+      event: {
+        name: 'Expo',
+        startDate: new Date(Date.now() + 30 * DAY),
+        transferCutoff: null,
+        venue: null,
+        venueAddress: null,
+        meta: null,
+        ...eventOverrides,
+      },
+      ticketType: { name: 'Day Pass' },
+      attendee: {
+        id: 'att-1',
+        email: 'holder@example.com',
+        firstName: 'Hal',
+        lastName: 'Holder',
+        status: 'registered',
+        registrationToken: null,
+      },
+      order: { id: 'ord-1', customerEmail: 'buyer@example.com', meta: { registrationBaseUrl: 'https://example.com/register' } },
+    };
+    service.prisma = {
+      ticket: {
+        findFirst: jest.fn().mockResolvedValue(ticket),
+        count: jest.fn().mockResolvedValue(0),
+      },
+      attendee: { update: jest.fn() },
+    };
+    service.attendees = {
+      upsertRecipient: jest.fn(async (data: any) => ({ id: 'att-2', ...data })),
+    };
+    service.tickets = {
+      reissue: jest.fn().mockResolvedValue({ id: 'tkt-2', code: 'NEW', qrPayload: 'NEW:sig', previousCode: 'OLD' }),
+    };
+    service.email = {
+      sendTicketTransferReceived: jest.fn().mockResolvedValue(true),
+      sendTicketTransferConfirmation: jest.fn().mockResolvedValue(true),
+    };
+    service.settings = { resolve: jest.fn().mockResolvedValue('') };
+    service.registrationReminder = { scheduleReminders: jest.fn().mockResolvedValue(undefined) };
+    service.logger = { log: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    return service;
+  }
+
+  const recipient = { email: 'New@Example.com', firstName: 'Nora', lastName: 'New' };
+
+  it('reissues the ticket to the recipient and restarts the registration flow', async () => {
+    const service = makeService();
+
+    const result = await service.transfer('tkt-1', 'evt-1', recipient, {
+      email: 'holder@example.com',
+      initiatedBy: 'attendee',
+    });
+
+    expect(result).toEqual({ ticketId: 'tkt-2', code: 'NEW', attendeeId: 'att-2', email: 'new@example.com' });
+    const upserted = service.attendees.upsertRecipient.mock.calls[0][0];
+    expect(upserted).toMatchObject({ email: 'new@example.com', purchasedByAttendeeId: 'att-1' });
+    expect(upserted.registrationToken).toMatch(/^[0-9a-f]{64}$/);
+    expect(service.tickets.reissue).toHaveBeenCalledWith('tkt-1', 'evt-1', 'att-2', expect.any(Object));
+    const [, mail] = service.email.sendTicketTransferReceived.mock.calls[0];
+    expect(mail.registrationUrl).toBe(`https://example.com/register?token=${upserted.registrationToken}`);
+    expect(service.registrationReminder.scheduleReminders).toHaveBeenCalledWith('att-2', 'evt-1');
+  });
+
+  it('rejects attendee transfers after the cutoff but lets admins through', async () => {
+    const service = makeService({ transferCutoff: new Date(Date.now() - DAY) });
+
+    await expect(
+      service.transfer('tkt-1', 'evt-1', recipient, { email: 'holder@example.com', initiatedBy: 'attendee' }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(service.tickets.reissue).not.toHaveBeenCalled();
+
+    await service.transfer('tkt-1', 'evt-1', recipient, { initiatedBy: 'admin' });
+    expect(service.tickets.reissue).toHaveBeenCalledTimes(1);
+  });
+
+  it('only lets the holder or the purchaser transfer', async () => {
+    const service = makeService();
+
+    await expect(
+      service.transfer('tkt-1', 'evt-1', recipient, { email: 'someone@example.com', initiatedBy: 'attendee' }),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+
+    await service.transfer('tkt-1', 'evt-1', recipient, { email: 'BUYER@example.com', initiatedBy: 'attendee' });
+    expect(service.tickets.reissue).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,199 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { AttendeesService } from '../attendees/attendees.service';
+import { EmailService } from '../email/email.service';
+import { SettingsService } from '../settings/settings.service';
+import { RegistrationReminderWorker } from '../queue/registration-reminder.worker';
+import { normalizeEmail } from '../common/email.util';
+import { formatEventDateIso } from '../common/event-date.util';
+import { TicketsService } from './tickets.service';
+
+export interface TransferRecipient {
+  email: string;
+  firstName: string;
+  lastName: string;
+}
+
+export interface TransferActor {
+  userId?: string;
+  email?: string;
+  initiatedBy: 'attendee' | 'admin';
+}
+
+/**
+ * Ticket Transfer Service — hands a valid ticket to another person.
+ *
+ * Flow:
+ *   1. Check the ticket is transferable (valid, before the event's cutoff,
+ *      owned by the requesting attendee)
+ *   2. Upsert the recipient as an `invited` attendee with a fresh
+ *      registration token (same as a gifted ticket at checkout)
+ *   3. Reissue the ticket — old row → `transferred`, new row with a new code
+ *   4. Email both parties and schedule registration reminders
+ *
+ * Admins may transfer any ticket at any time; attendees only their own and
+ * only until `Event.transferCutoff` (or the event start when unset).
+ */
+@Injectable()
+export class TicketTransferService {
+  private readonly logger = new Logger(TicketTransferService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly tickets: TicketsService,
+    private readonly attendees: AttendeesService,
+    private readonly email: EmailService,
+    private readonly settings: SettingsService,
+    private readonly registrationReminder: RegistrationReminderWorker,
+  ) {}
+
+  async transfer(
+    ticketId: string,
+    eventId: string,
+    recipient: TransferRecipient,
+    actor: TransferActor,
+  ) {
+    const ticket = await this.prisma.ticket.findFirst({
+      where: { id: ticketId, eventId },
+      include: {
+        event: true,
+        ticketType: { select: { name: true } },
+        attendee: true,
+        order: { select: { id: true, customerEmail: true, meta: true } },
+      },
+    });
+    if (!ticket) {
+      throw new BadRequestException('Ticket not found');
+    }
+    if (ticket.status !== 'valid') {
+      throw new BadRequestException(`Only valid tickets can be transferred (ticket is ${ticket.status})`);
+    }
+
+    if (actor.initiatedBy === 'attendee') {
+      const cutoff = ticket.event.transferCutoff ?? ticket.event.startDate;
+      if (new Date() >= cutoff) {
+        throw new BadRequestException('The transfer deadline for this event has passed');
+      }
+      const requester = normalizeEmail(actor.email);
+      const owners = [ticket.attendee?.email, ticket.order?.customerEmail].map(normalizeEmail);
+      if (!requester || !owners.includes(requester)) {
+        throw new ForbiddenException('You can only transfer your own tickets');
+      }
+    }
+
+    const recipientEmail = normalizeEmail(recipient.email);
+    if (ticket.attendee && normalizeEmail(ticket.attendee.email) === recipientEmail) {
+      throw new BadRequestException('The ticket already belongs to this person');
+    }
+
+    // ── 1. Recipient attendee + registration token ──
+    const newHolder = await this.attendees.upsertRecipient({
+      eventId,
+      orgId: ticket.orgId,
+      email: recipientEmail,
+      firstName: recipient.firstName,
+      lastName: recipient.lastName,
+      registrationToken: randomBytes(32).toString('hex'),
+      purchasedByAttendeeId: ticket.attendeeId,
+    });
+
+    // ── 2. Reissue ──
+    const reissued = await this.tickets.reissue(ticketId, eventId, newHolder.id, {
+      initiatedBy: actor.initiatedBy,
+      userId: actor.userId,
+      toEmail: recipientEmail,
+    });
+
+    // ── 3. Previous holder: drop a now-pointless registration link ──
+    const previous = ticket.attendee;
+    if (previous?.status === 'invited' && previous.registrationToken) {
+      const remaining = await this.prisma.ticket.count({
+        where: { attendeeId: previous.id, status: 'valid' },
+      });
+      if (remaining === 0) {
+        await this.prisma.attendee.update({
+          where: { id: previous.id },
+          data: { registrationToken: null },
+        });
+      }
+    }
+
+    // ── 4. Notifications ──
+    const fromName = previous
+      ? `${previous.firstName} ${previous.lastName}`.trim()
+      : ticket.order?.customerEmail ?? 'The ticket holder';
+    const registrationBaseUrl = await this.resolveRegistrationBaseUrl(ticket.order?.meta);
+
+    if (registrationBaseUrl) {
+      const eventMeta = (ticket.event.meta as Record<string, any>) ?? {};
+      this.email
+        .sendTicketTransferReceived(recipientEmail, {
+          recipientName: recipient.firstName,
+          fromName,
+          eventName: ticket.event.name,
+          eventDate: formatEventDateIso(ticket.event.startDate),
+          eventVenue: [ticket.event.venue, ticket.event.venueAddress].filter(Boolean).join(', '),
+          eventVenueMapUrl: eventMeta.venueMapUrl || undefined,
+          ticketTypeName: ticket.ticketType.name,
+          registrationUrl: `${registrationBaseUrl}?token=${newHolder.registrationToken}`,
+        })
+        .catch((err) =>
+          this.logger.error(`Transfer notification failed for ${recipientEmail}: ${err}`),
+        );
+
+      this.registrationReminder
+        .scheduleReminders(newHolder.id, eventId)
+        .catch((err) =>
+          this.logger.error(`Reminder scheduling failed for ${recipientEmail}: ${err}`),
+        );
+    } else {
+      this.logger.warn(
+        `No registration base URL for ticket ${ticketId} — transfer email to ${recipientEmail} not sent`,
+      );
+    }
+
+    const previousEmail = previous?.email ?? ticket.order?.customerEmail;
+    if (previousEmail) {
+      this.email
+        .sendTicketTransferConfirmation(previousEmail, {
+          name: previous?.firstName ?? fromName,
+          recipientName: `${recipient.firstName} ${recipient.lastName}`.trim(),
+          recipientEmail,
+          eventName: ticket.event.name,
+          ticketTypeName: ticket.ticketType.name,
+        })
+        .catch((err) =>
+          this.logger.error(`Transfer confirmation failed for ${previousEmail}: ${err}`),
+        );
+    }
+
+    this.logger.log(
+      `Ticket ${reissued.previousCode} transferred to ${recipientEmail} as ${reissued.code} (${actor.initiatedBy})`,
+    );
+
+    return {
+      ticketId: reissued.id,
+      code: reissued.code,
+      attendeeId: newHolder.id,
+      email: recipientEmail,
+    };
+  }
+
+  /**
+   * Same source as the checkout gift flow (order meta), falling back to the
+   * `registration_base_url` setting for comp / manually issued tickets.
+   */
+  private async resolveRegistrationBaseUrl(orderMeta: unknown): Promise<string> {
+    const meta = (orderMeta as Record<string, unknown>) ?? {};
+    const fromOrder = (meta.attendeeRegisterBaseUrl ?? meta.registrationBaseUrl) as string | undefined;
+    if (fromOrder) return fromOrder;
+    const fromSetting = await this.settings.resolve('registration_base_url');
+    return fromSetting ? fromSetting.replace(/\/$/, '') : '';
+  }
+}
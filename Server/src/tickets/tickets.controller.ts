@@ -2,19 +2,23 @@ import {
   Controller,
   Get,
   Patch,
+  Post,
   Param,
+  Query,
   Body,
   UseGuards,
   HttpCode,
   HttpStatus,
+  BadRequestException,
 } from '@nestjs/common';
-import { IsNotEmpty, IsString } from 'class-validator';
+import { IsEmail, IsNotEmpty, IsString, MaxLength } from 'class-validator';
 import { AuthGuard } from '@nestjs/passport';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import { JwtPayload } from '../auth/auth.service';
 import { TicketsService } from './tickets.service';
+import { TicketTransferService } from './ticket-transfer.service';
 
 // ─── DTOs ──────────────────────────────────────────────────────
 
@@ -24,6 +28,21 @@ class VoidTicketDto {
   reason!: string;
 }
 
+class TransferTicketDto {
+  @IsEmail()
+  email!: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  firstName!: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  lastName!: string;
+}
+
 /**
  * Tickets Controller — manage issued tickets for an event.
  *
@@ -31,11 +50,15 @@ class VoidTicketDto {
  *   GET  /api/events/:eventId/tickets          — list all tickets
  *   GET  /api/events/:eventId/tickets/:id       — single ticket detail + QR
  *   PATCH /api/events/:eventId/tickets/:id/void — void a ticket (requires reason)
+ *   POST /api/events/:eventId/tickets/:id/transfer — reissue to another person
  */
 @Controller('events/:eventId/tickets')
 @UseGuards(AuthGuard('jwt'), RolesGuard)
 export class TicketsController {
-  constructor(private readonly ticketsService: TicketsService) {}
+  constructor(
+    private readonly ticketsService: TicketsService,
+    private readonly transferService: TicketTransferService,
+  ) {}
 
   @Get()
   @Roles('event_admin', 'super_admin', 'staff')
@@ -60,4 +83,65 @@ export class TicketsController {
   ) {
     return this.ticketsService.void(id, eventId, dto.reason, user.roles);
   }
+
+  @Post(':id/transfer')
+  @HttpCode(HttpStatus.OK)
+  @Roles('event_admin', 'super_admin')
+  transfer(
+    @Param('eventId') eventId: string,
+    @Param('id') id: string,
+    @Body() dto: TransferTicketDto,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    return this.transferService.transfer(id, eventId, dto, {
+      userId: user.sub,
+      email: user.email,
+      initiatedBy: 'admin',
+    });
+  }
+}
+
+/**
+ * My Tickets — the signed-in attendee's own tickets (Client "My Tickets"
+ * widget, authenticated with a WP-exchanged token).
+ *
+ * Endpoints:
+ *   GET  /api/tickets?eventId=            — tickets held or bought by the caller
+ *   POST /api/tickets/:id/transfer        — hand one of them to someone else
+ *
+ * Ownership is always derived from the token's email, never from the query.
+ */
+@Controller('tickets')
+@UseGuards(AuthGuard('jwt'), RolesGuard)
+export class MyTicketsController {
+  constructor(
+    private readonly ticketsService: TicketsService,
+    private readonly transferService: TicketTransferService,
+  ) {}
+
+  @Get()
+  findMine(@Query('eventId') eventId: string, @CurrentUser() user: JwtPayload) {
+    if (!eventId) {
+      throw new BadRequestException('eventId is required');
+    }
+    return this.ticketsService.findForHolder(eventId, user.email);
+  }
+
+  @Post(':id/transfer')
+  @HttpCode(HttpStatus.OK)
+  transfer(
+    @Param('id') id: string,
+    @Query('eventId') eventId: string,
+    @Body() dto: TransferTicketDto,
+    @CurrentUser() user: JwtPayload,
+  ) {
+    if (!eventId) {
+      throw new BadRequestException('eventId is required');
+    }
+    return this.transferService.transfer(id, eventId, dto, {
+      userId: user.sub,
+      email: user.email,
+      initiatedBy: 'attendee',
+    });
+  }
 }
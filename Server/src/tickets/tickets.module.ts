@@ -1,13 +1,26 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { TicketsService } from './tickets.service';
-import { TicketsController } from './tickets.controller';
+import { TicketTransferService } from './ticket-transfer.service';
+import { TicketsController, MyTicketsController } from './tickets.controller';
 import { TicketQrController } from './ticket-qr.controller';
 import { OutgoingWebhooksModule } from '../outgoing-webhooks/outgoing-webhooks.module';
+import { TicketHoldsModule } from '../ticket-holds/ticket-holds.module';
+import { WaitlistModule } from '../waitlist/waitlist.module';
+import { AttendeesModule } from '../attendees/attendees.module';
+import { EmailModule } from '../email/email.module';
+import { SettingsModule } from '../settings/settings.module';
 
 @Module({
-  imports: [OutgoingWebhooksModule],
-  controllers: [TicketsController, TicketQrController],
-  providers: [TicketsService],
+  imports: [
+    OutgoingWebhooksModule,
+    TicketHoldsModule,
+    WaitlistModule,
+    forwardRef(() => AttendeesModule),
+    EmailModule,
+    forwardRef(() => SettingsModule),
+  ],
+  controllers: [TicketsController, MyTicketsController, TicketQrController],
+  providers: [TicketsService, TicketTransferService],
   exports: [TicketsService],
 })
 export class TicketsModule {}
@@ -11,6 +11,10 @@ import { createHmac, randomBytes } from 'crypto';
 import { PrismaService } from '../prisma/prisma.service';
 import { AuditLogService, AuditAction } from '../audit-log/audit-log.service';
 import { OutgoingWebhooksService } from '../outgoing-webhooks/outgoing-webhooks.service';
+import { TicketHoldsService } from '../ticket-holds/ticket-holds.service';
+import { WaitlistService } from '../waitlist/waitlist.service';
+import { normalizeEmail } from '../common/email.util';
+import { orderItemAddOn } from '../forms/form-add-ons';
 
 // ─── Ticket Status Transition Matrix ──────────────────────────────────────
 //
@@ -19,13 +23,16 @@ import { OutgoingWebhooksService } from '../outgoing-webhooks/outgoing-webhooks.
 //
 // valid    → used     : check-in (scanner or manual check-in endpoint)
 // valid    → voided   : admin voids before check-in (e.g. refund, error)
+// valid    → transferred : reissued to another attendee (see reissue)
 // used     → voided   : super_admin only override (e.g. fraudulent check-in)
 // voided   → (none)   : terminal state — audit trail must be append-only
+// transferred → (none) : terminal — the replacement ticket carries on
 //
 const TICKET_TRANSITIONS: Record<string, Set<string>> = {
-  valid:  new Set(['used', 'voided']),
+  valid:  new Set(['used', 'voided', 'transferred']),
   used:   new Set(['voided']),   // super_admin only — enforced in validateTransition
   voided: new Set([]),           // terminal — no outbound transitions
+  transferred: new Set([]),      // terminal — no outbound transitions
 };
 
 /**
@@ -49,6 +56,8 @@ export class TicketsService {
     private readonly config: ConfigService,
     private readonly audit: AuditLogService,
     private readonly outgoingWebhooks: OutgoingWebhooksService,
+    private readonly ticketHolds: TicketHoldsService,
+    private readonly waitlist: WaitlistService,
   ) {}
 
   // ─── Transition Guard ─────────────────────────────────────────
@@ -61,8 +70,11 @@ export class TicketsService {
    * @param currentStatus - Current `Ticket.status` value
    * @param nextStatus    - Desired target status
    * @param actorRoles    - Array of JWT roles for the requesting user
+   *
+   * Public so multi-step flows (e.g. refunds) can check every ticket before
+   * taking an irreversible step such as calling Stripe.
    */
-  private validateTransition(
+  validateTransition(
     currentStatus: string,
     nextStatus: string,
     actorRoles: string[],
@@ -175,7 +187,9 @@ export class TicketsService {
 
   /**
    * Issue tickets for a paid order.
-   * Creates one Ticket record per OrderItem quantity unit.
+   * Creates one Ticket record per OrderItem quantity unit. Add-on lines
+   * issue no tickets; their keys go to `meta.addOns` of the first ticket of
+   * the ticket type they were bought with (read by access zones).
    * Returns the array of created tickets.
    *
    * @param orderId - The order to issue tickets for
@@ -184,7 +198,7 @@ export class TicketsService {
   async issueForOrder(
     orderId: string,
     options?: { isTestTicket?: boolean },
-  ): Promise<{ id: string; code: string; qrPayload: string }[]> {
+  ): Promise<{ id: string; code: string; qrPayload: string; ticketTypeId: string }[]> {
     const order = await this.prisma.order.findUnique({
       where: { id: orderId },
       include: { items: true },
@@ -192,13 +206,31 @@ export class TicketsService {
 
     if (!order) throw new NotFoundException(`Order ${orderId} not found`);
 
-    const issued: { id: string; code: string; qrPayload: string }[] = [];
+    const issued: { id: string; code: string; qrPayload: string; ticketTypeId: string }[] = [];
 
+    const ticketItems = order.items.filter(
+      (item): item is typeof item & { ticketTypeId: string } => !!item.ticketTypeId,
+    );
+    const addOnsByType = new Map<string, string[]>();
     for (const item of order.items) {
+      const addOn = orderItemAddOn(item.meta);
+      if (!addOn) continue;
+      const typeId = ticketItems.some((t) => t.ticketTypeId === addOn.forTicketTypeId)
+        ? addOn.forTicketTypeId!
+        : ticketItems[0]?.ticketTypeId;
+      if (typeId) addOnsByType.set(typeId, [...(addOnsByType.get(typeId) ?? []), addOn.key]);
+    }
+
+    for (const item of ticketItems) {
       for (let i = 0; i < item.quantity; i++) {
         const code = this.generateTicketCode();
-        const ticketMeta = options?.isTestTicket
-          ? { isTestTicket: true }
+        const addOns = addOnsByType.get(item.ticketTypeId);
+        if (addOns) addOnsByType.delete(item.ticketTypeId);
+        const ticketMeta = options?.isTestTicket || addOns
+          ? {
+              ...(options?.isTestTicket ? { isTestTicket: true } : {}),
+              ...(addOns ? { addOns } : {}),
+            }
           : undefined;
         const ticket = await this.prisma.ticket.create({
           data: {
@@ -217,6 +249,7 @@ export class TicketsService {
           id: ticket.id,
           code: ticket.code,
           qrPayload: this.buildQrPayload(ticket.code, order.eventId),
+          ticketTypeId: item.ticketTypeId,
         });
       }
 
@@ -227,6 +260,9 @@ export class TicketsService {
       });
     }
 
+    // Seats are now counted in `sold` — give back the checkout reservation
+    await this.ticketHolds.convertForOrder(order.id);
+
     this.logger.log(
       `Issued ${issued.length} ticket(s) for order ${order.orderNumber}`,
     );
@@ -274,6 +310,30 @@ export class TicketsService {
     });
   }
 
+  /**
+   * Tickets a person may see and manage: those they hold, plus those on
+   * orders they paid for (gifted tickets not yet passed on). Transferred and
+   * voided rows are left out — their codes no longer scan.
+   */
+  async findForHolder(eventId: string, email: string) {
+    const normalized = normalizeEmail(email);
+    return this.prisma.ticket.findMany({
+      where: {
+        eventId,
+        status: { in: ['valid', 'used'] },
+        OR: [
+          { attendee: { email: normalized } },
+          { order: { customerEmail: normalized } },
+        ],
+      },
+      include: {
+        ticketType: { select: { name: true } },
+        attendee: { select: { firstName: true, lastName: true, email: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
   async findByOrder(orderId: string) {
     return this.prisma.ticket.findMany({
       where: { orderId },
@@ -332,6 +392,15 @@ export class TicketsService {
       data: { status: 'voided', meta: updatedMeta },
     });
 
+    // The seat goes back on sale — or to the head of the waitlist
+    await this.prisma.ticketType.update({
+      where: { id: ticket.ticketTypeId },
+      data: { sold: { decrement: 1 } },
+    });
+    this.waitlist
+      .promote(ticket.ticketTypeId)
+      .catch((err) => this.logger.error(`Waitlist promotion failed after void: ${err}`));
+
     this.audit.log({
       eventId,
       action: AuditAction.TICKET_VOIDED,
@@ -355,14 +424,15 @@ export class TicketsService {
   }
 
   async voidByOrder(orderId: string) {
-    // Get ticket counts per ticket type before voiding (to decrement sold)
+    // Get ticket counts per ticket type before voiding (to decrement sold).
+    // Transferred tickets were replaced by a new row and hold no seat.
     const ticketsToVoid = await this.prisma.ticket.findMany({
-      where: { orderId, status: { not: 'voided' } },
+      where: { orderId, status: { notIn: ['voided', 'transferred'] } },
       select: { ticketTypeId: true },
     });
 
     const result = await this.prisma.ticket.updateMany({
-      where: { orderId, status: { not: 'voided' } },
+      where: { orderId, status: { notIn: ['voided', 'transferred'] } },
       data: { status: 'voided' },
     });
 
@@ -376,12 +446,104 @@ export class TicketsService {
         where: { id: ttId },
         data: { sold: { decrement: count } },
       });
+      this.waitlist
+        .promote(ttId)
+        .catch((err) => this.logger.error(`Waitlist promotion failed after void: ${err}`));
     }
 
     this.logger.log(`Voided ${result.count} ticket(s) for order ${orderId}`);
     return result;
   }
 
+  /**
+   * Replace a ticket with a fresh one held by another attendee (transfer).
+   *
+   * The old row becomes `transferred` — terminal, so its QR code no longer
+   * scans — and the new row gets a new code (hence a new HMAC) while keeping
+   * the order and ticket type, so `sold` is unchanged. Both rows point at
+   * each other through `meta` for the audit trail.
+   */
+  async reissue(
+    id: string,
+    eventId: string,
+    attendeeId: string,
+    detail: Record<string, unknown>,
+  ): Promise<{ id: string; code: string; qrPayload: string; previousCode: string }> {
+    const ticket = await this.findOne(id, eventId);
+    this.validateTransition(ticket.status, 'transferred', []);
+
+    const code = this.generateTicketCode();
+    const transferredAt = new Date().toISOString();
+    const {
+      voidReason: _voidReason,
+      voidedAt: _voidedAt,
+      ...carriedMeta
+    } = (ticket.meta ?? {}) as Record<string, unknown>;
+
+    const reissued = await this.prisma.$transaction(async (tx) => {
+      const replacement = await tx.ticket.create({
+        data: {
+          eventId: ticket.eventId,
+          orgId: ticket.orgId,
+          ticketTypeId: ticket.ticketTypeId,
+          orderId: ticket.orderId,
+          attendeeId,
+          code,
+          status: 'valid',
+          meta: { ...carriedMeta, transferredFromTicketId: id, transferredAt } as any,
+        },
+      });
+      // Status guard: a concurrent check-in or second transfer loses here
+      const { count } = await tx.ticket.updateMany({
+        where: { id, status: 'valid' },
+        data: {
+          status: 'transferred',
+          meta: {
+            ...((ticket.meta ?? {}) as Record<string, unknown>),
+            transferredToTicketId: replacement.id,
+            transferredAt,
+          } as any,
+        },
+      });
+      if (count === 0) {
+        throw new ConflictException('Ticket changed while transferring — please retry');
+      }
+      return replacement;
+    });
+
+    this.audit.log({
+      eventId,
+      action: AuditAction.TICKET_TRANSFERRED,
+      entity: 'ticket',
+      entityId: id,
+      detail: {
+        ...detail,
+        code: ticket.code,
+        newTicketId: reissued.id,
+        newCode: reissued.code,
+        fromAttendeeId: ticket.attendeeId,
+        toAttendeeId: attendeeId,
+      },
+    });
+
+    const qrPayload = this.buildQrPayload(reissued.code, eventId);
+    this.outgoingWebhooks
+      .dispatch(ticket.orgId, eventId, 'ticket.transferred', {
+        ticketId: id,
+        ticketCode: ticket.code,
+        newTicketId: reissued.id,
+        newTicketCode: reissued.code,
+        qrPayload,
+        orderId: ticket.orderId,
+        eventId,
+      })
+      .catch((err) =>
+        this.logger.error(`Webhook dispatch failed for ticket.transferred: ${err}`),
+      );
+
+    return { id: reissued.id, code: reissued.code, qrPayload, previousCode: ticket.code };
+  }
+
   /**
    * Mark a ticket as checked in. Validates that the ticket is in `valid` state
    * before updating to `used`. Used by the check-in module after QR validation.
@@ -16,7 +16,14 @@ import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import { JwtPayload } from '../auth/auth.service';
-import { UsersService, UserWithRoles, getHighestRoleLevel, getRoleLevel } from './users.service';
+import { TwoFactorService } from '../auth/two-factor.service';
+import {
+  UsersService,
+  UserWithRoles,
+  EventRoleGrant,
+  getHighestRoleLevel,
+  getRoleLevel,
+} from './users.service';
 import {
   IsString,
   IsEmail,
@@ -76,10 +83,21 @@ class UpdateUserDto {
   active?: boolean;
 }
 
+class GrantEventRoleDto {
+  @IsString()
+  eventId!: string;
+
+  @IsString()
+  role!: string;
+}
+
 @Controller('users')
 @UseGuards(AuthGuard('jwt'), RolesGuard)
 export class UsersController {
-  constructor(private readonly usersService: UsersService) {}
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly twoFactor: TwoFactorService,
+  ) {}
 
   /**
    * GET /api/users
@@ -226,4 +244,61 @@ export class UsersController {
     }
     return this.usersService.activate(id);
   }
+
+  /**
+   * POST /api/users/:id/event-roles
+   * Grant a role for a single event (Super Admin / Admin with hierarchy check).
+   */
+  @Post(':id/event-roles')
+  @Roles('super_admin', 'admin')
+  @HttpCode(HttpStatus.CREATED)
+  async grantEventRole(
+    @Param('id') id: string,
+    @Body() dto: GrantEventRoleDto,
+    @CurrentUser() actor: JwtPayload,
+  ): Promise<EventRoleGrant> {
+    await this.assertCanManage(id, actor);
+    if (getRoleLevel(dto.role) <= getHighestRoleLevel(actor.roles)) {
+      throw new ForbiddenException('Cannot assign roles at or above your own level');
+    }
+    return this.usersService.grantEventRole(id, dto.eventId, dto.role, actor.sub);
+  }
+
+  /**
+   * DELETE /api/users/:id/event-roles/:grantId
+   * Revoke an event-scoped grant (Super Admin / Admin with hierarchy check).
+   */
+  @Delete(':id/event-roles/:grantId')
+  @Roles('super_admin', 'admin')
+  async revokeEventRole(
+    @Param('id') id: string,
+    @Param('grantId') grantId: string,
+    @CurrentUser() actor: JwtPayload,
+  ) {
+    await this.assertCanManage(id, actor);
+    return this.usersService.revokeEventRole(id, grantId, actor.sub);
+  }
+
+  /**
+   * POST /api/users/:id/2fa/reset
+   * Remove a user's 2FA enrolment, e.g. after a lost device
+   * (Super Admin / Admin with hierarchy check).
+   */
+  @Post(':id/2fa/reset')
+  @Roles('super_admin', 'admin')
+  @HttpCode(HttpStatus.OK)
+  async resetTwoFactor(
+    @Param('id') id: string,
+    @CurrentUser() actor: JwtPayload,
+  ) {
+    await this.assertCanManage(id, actor);
+    return this.twoFactor.reset(id, actor.sub);
+  }
+
+  private async assertCanManage(id: string, actor: JwtPayload) {
+    const target = await this.usersService.findOne(id);
+    if (getHighestRoleLevel(target.roles) <= getHighestRoleLevel(actor.roles)) {
+      throw new ForbiddenException('Cannot change access for a user at or above your own level');
+    }
+  }
 }
@@ -6,6 +6,7 @@ import {
   Logger,
 } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
+import { AuditLogService, AuditAction } from '../audit-log/audit-log.service';
 import * as bcrypt from 'bcrypt';
 
 /**
@@ -21,6 +22,8 @@ export const VALID_ROLES = [
   'event_admin',         // Manages events, attendees, check-ins (org-scoped)
   'staff',               // Check-in ops + attendee assistance (org-scoped)
   'scanner',             // QR scan + check-in, kiosk/device accounts (org-scoped)
+  'gate_staff',          // Door scanning only (usually granted per event)
+  'box_office',          // On-site sales + cash drawer (usually granted per event)
   'volunteer',           // Read-only event view (org-scoped)
   'exhibitor',           // Booth data, lead capture, badge scanning (org-scoped)
   'sponsor',             // Branding assets, impression analytics (org-scoped)
@@ -41,6 +44,8 @@ export const ROLE_HIERARCHY: Record<string, number> = {
   event_admin: 2,
   staff: 3,
   scanner: 3,
+  gate_staff: 3,
+  box_office: 3,
   volunteer: 3,
   exhibitor: 3,
   sponsor: 3,
@@ -59,6 +64,14 @@ export function getHighestRoleLevel(roles: string[]): number {
   return Math.min(...roles.map(getRoleLevel));
 }
 
+/**
+ * Roles that may be granted for a single event. Platform and org-level roles
+ * (super_admin, admin, organization_admin) only make sense globally.
+ */
+export const EVENT_SCOPED_ROLES: readonly string[] = VALID_ROLES.filter(
+  (r) => !['super_admin', 'admin', 'organization_admin'].includes(r),
+);
+
 /** Validate a set of role strings and throw 400 if any are unknown. */
 function validateRoles(roles: string[]): void {
   const invalid = roles.filter((r) => !(VALID_ROLES as readonly string[]).includes(r));
@@ -69,16 +82,35 @@ function validateRoles(roles: string[]): void {
   }
 }
 
+function toEventRoleGrants(
+  roles: Array<{ id: string; eventId: string | null; role: string; event: { name: string } | null }>,
+): EventRoleGrant[] {
+  return roles
+    .filter((r) => r.eventId)
+    .map((r) => ({ id: r.id, eventId: r.eventId!, eventName: r.event?.name ?? '', role: r.role }));
+}
+
+export interface EventRoleGrant {
+  id: string;
+  eventId: string;
+  eventName: string;
+  role: string;
+}
+
 export interface UserWithRoles {
   id: string;
   email: string;
   displayName: string;
+  /** Global and org-scoped roles (carried in the JWT). */
   roles: string[];
+  /** Roles granted for a single event only. */
+  eventRoles: EventRoleGrant[];
   orgId: string | null;
   wpUserId: number | null;
   emailConfirmedAt: Date | null;
   active: boolean;
   lastLoginAt: Date | null;
+  twoFactorEnabled: boolean;
   createdAt: Date;
 }
 
@@ -86,14 +118,17 @@ export interface UserWithRoles {
 export class UsersService {
   private readonly logger = new Logger(UsersService.name);
 
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly audit: AuditLogService,
+  ) {}
 
   /**
    * List all users with their roles.
    */
   async findAll(): Promise<UserWithRoles[]> {
     const users = await this.prisma.user.findMany({
-      include: { roles: true },
+      include: { roles: { include: { event: { select: { name: true } } } } },
       orderBy: { createdAt: 'desc' },
     });
 
@@ -101,12 +136,14 @@ export class UsersService {
       id: u.id,
       email: u.email,
       displayName: u.displayName,
-      roles: u.roles.map((r) => r.role),
+      roles: u.roles.filter((r) => !r.eventId).map((r) => r.role),
+      eventRoles: toEventRoleGrants(u.roles),
       orgId: u.roles.find((r) => r.orgId)?.orgId ?? null,
       wpUserId: u.wpUserId,
       emailConfirmedAt: u.emailConfirmedAt,
       active: u.active,
       lastLoginAt: u.lastLoginAt,
+      twoFactorEnabled: !!u.totpEnabledAt,
       createdAt: u.createdAt,
     }));
   }
@@ -117,7 +154,7 @@ export class UsersService {
   async findOne(id: string): Promise<UserWithRoles> {
     const user = await this.prisma.user.findUnique({
       where: { id },
-      include: { roles: true },
+      include: { roles: { include: { event: { select: { name: true } } } } },
     });
 
     if (!user) throw new NotFoundException('User not found');
@@ -126,12 +163,14 @@ export class UsersService {
       id: user.id,
       email: user.email,
       displayName: user.displayName,
-      roles: user.roles.map((r) => r.role),
+      roles: user.roles.filter((r) => !r.eventId).map((r) => r.role),
+      eventRoles: toEventRoleGrants(user.roles),
       orgId: user.roles.find((r) => r.orgId)?.orgId ?? null,
       wpUserId: user.wpUserId,
       emailConfirmedAt: user.emailConfirmedAt,
       active: user.active,
       lastLoginAt: user.lastLoginAt,
+      twoFactorEnabled: !!user.totpEnabledAt,
       createdAt: user.createdAt,
     };
   }
@@ -186,11 +225,13 @@ export class UsersService {
       email: user.email,
       displayName: user.displayName,
       roles: data.roles,
+      eventRoles: [],
       orgId: data.orgId ?? null,
       wpUserId: null,
       emailConfirmedAt: user.emailConfirmedAt,
       active: user.active,
       lastLoginAt: null,
+      twoFactorEnabled: false,
       createdAt: user.createdAt,
     };
   }
@@ -211,7 +252,7 @@ export class UsersService {
   ): Promise<UserWithRoles> {
     const user = await this.prisma.user.findUnique({
       where: { id },
-      include: { roles: true },
+      include: { roles: { include: { event: { select: { name: true } } } } },
     });
     if (!user) throw new NotFoundException('User not found');
 
@@ -230,11 +271,11 @@ export class UsersService {
     });
 
     // Update roles if provided
-    let finalRoles = user.roles.map((r) => r.role);
+    let finalRoles = user.roles.filter((r) => !r.eventId).map((r) => r.role);
     if (data.roles !== undefined) {
       validateRoles(data.roles);
-      // Replace all roles (delete existing, insert new)
-      await this.prisma.userRole.deleteMany({ where: { userId: id } });
+      // Replace all global/org roles (delete existing, insert new); event grants are kept
+      await this.prisma.userRole.deleteMany({ where: { userId: id, eventId: null } });
       for (const role of data.roles) {
         await this.prisma.userRole.create({
           data: {
@@ -253,15 +294,85 @@ export class UsersService {
       email: updated.email,
       displayName: updated.displayName,
       roles: finalRoles,
+      eventRoles: toEventRoleGrants(user.roles),
       orgId: data.orgId ?? user.roles.find((r) => r.orgId)?.orgId ?? null,
       wpUserId: updated.wpUserId,
       emailConfirmedAt: updated.emailConfirmedAt,
       active: updated.active,
       lastLoginAt: updated.lastLoginAt,
+      twoFactorEnabled: !!updated.totpEnabledAt,
       createdAt: updated.createdAt,
     };
   }
 
+  /**
+   * Grant a role for a single event. The grant is checked by RolesGuard on
+   * routes that carry the event ID and is not part of the user's JWT.
+   */
+  async grantEventRole(
+    userId: string,
+    eventId: string,
+    role: string,
+    actorUserId: string,
+  ): Promise<EventRoleGrant> {
+    if (!EVENT_SCOPED_ROLES.includes(role)) {
+      throw new BadRequestException(
+        `Role "${role}" cannot be granted per event. Valid roles: ${EVENT_SCOPED_ROLES.join(', ')}`,
+      );
+    }
+    const [user, event] = await Promise.all([
+      this.prisma.user.findUnique({ where: { id: userId }, select: { id: true } }),
+      this.prisma.event.findUnique({ where: { id: eventId }, select: { id: true, name: true } }),
+    ]);
+    if (!user) throw new NotFoundException('User not found');
+    if (!event) throw new NotFoundException('Event not found');
+
+    const existing = await this.prisma.userRole.findFirst({ where: { userId, eventId, role } });
+    if (existing) {
+      throw new ConflictException(`User already has ${role} for ${event.name}`);
+    }
+
+    const grant = await this.prisma.userRole.create({
+      data: { userId, eventId, orgId: null, role },
+    });
+
+    this.audit.log({
+      eventId,
+      userId: actorUserId,
+      action: AuditAction.USER_EVENT_ROLE_GRANTED,
+      entity: 'user',
+      entityId: userId,
+      detail: { role },
+    });
+    this.logger.log(`Granted ${role} on event ${eventId} to ${userId}`);
+
+    return { id: grant.id, eventId, eventName: event.name, role };
+  }
+
+  /**
+   * Revoke an event-scoped grant.
+   */
+  async revokeEventRole(userId: string, grantId: string, actorUserId: string): Promise<{ success: boolean }> {
+    const grant = await this.prisma.userRole.findFirst({
+      where: { id: grantId, userId, eventId: { not: null } },
+    });
+    if (!grant) throw new NotFoundException('Event role not found');
+
+    await this.prisma.userRole.delete({ where: { id: grantId } });
+
+    this.audit.log({
+      eventId: grant.eventId!,
+      userId: actorUserId,
+      action: AuditAction.USER_EVENT_ROLE_REVOKED,
+      entity: 'user',
+      entityId: userId,
+      detail: { role: grant.role },
+    });
+    this.logger.log(`Revoked ${grant.role} on event ${grant.eventId} from ${userId}`);
+
+    return { success: true };
+  }
+
   /**
    * Deactivate a user (soft-delete — preserves audit trail).
    */
@@ -319,7 +430,7 @@ export class UsersService {
           active: true,
           lastLoginAt: { gte: fifteenMinAgo },
         },
-        include: { roles: true },
+        include: { roles: { where: { eventId: null } } },
         orderBy: { lastLoginAt: 'desc' },
       }),
       // Last 50 login events from audit log
@@ -355,7 +466,7 @@ export class UsersService {
     const userRolesMap = new Map<string, string[]>();
     if (userIds.length > 0) {
       const userRoles = await this.prisma.userRole.findMany({
-        where: { userId: { in: userIds } },
+        where: { userId: { in: userIds }, eventId: null },
         select: { userId: true, role: true },
       });
       for (const ur of userRoles) {
@@ -390,12 +501,14 @@ export class UsersService {
       event_admin:         { label: 'Event Admin',         description: 'Manage events, attendees, check-ins' },
       staff:               { label: 'Staff',               description: 'Check-in ops, attendee assistance' },
       scanner:             { label: 'Scanner',             description: 'QR scan + check-in (kiosk/device)' },
+      gate_staff:          { label: 'Gate Staff',          description: 'Door scanning for assigned events' },
+      box_office:          { label: 'Box Office',          description: 'On-site ticket sales and cash drawer' },
       volunteer:           { label: 'Volunteer',           description: 'Check-in scanning only' },
       exhibitor:           { label: 'Exhibitor',           description: 'Booth data, lead capture, badge scanning' },
       sponsor:             { label: 'Sponsor',             description: 'Branding assets, impression analytics' },
       partner:             { label: 'Partner',             description: 'Limited analytics, co-branding' },
       attendee:            { label: 'Attendee',            description: 'Own ticket, schedule, badge' },
     };
-    return VALID_ROLES.map((r) => ({ value: r, ...meta[r] }));
+    return VALID_ROLES.map((r) => ({ value: r, ...meta[r], eventScoped: EVENT_SCOPED_ROLES.includes(r) }));
   }
 }
@@ -0,0 +1,125 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  Body,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import {
+  IsEmail,
+  IsInt,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { RateLimit } from '../common/guards/rate-limit.guard';
+import { WaitlistService } from './waitlist.service';
+
+class JoinWaitlistDto {
+  @IsString()
+  @IsNotEmpty()
+  ticketTypeId: string;
+
+  @IsEmail()
+  email: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  firstName?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  lastName?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  quantity?: number;
+
+  @IsOptional()
+  @IsObject()
+  formData?: Record<string, unknown>;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(10)
+  locale?: string;
+
+  /** Page the offer link sends the visitor back to (the widget host page). */
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  returnUrl: string;
+}
+
+/**
+ * Admin view of the waitlist queue: list, promote out of order, skip.
+ */
+@Controller('events/:eventId/waitlist')
+@UseGuards(AuthGuard('jwt'), RolesGuard)
+export class WaitlistController {
+  constructor(private readonly waitlistService: WaitlistService) {}
+
+  @Get()
+  @Roles('event_admin', 'admin', 'super_admin')
+  findAll(
+    @Param('eventId') eventId: string,
+    @Query('ticketTypeId') ticketTypeId?: string,
+  ) {
+    return this.waitlistService.findByEvent(eventId, ticketTypeId);
+  }
+
+  @Post(':id/promote')
+  @Roles('event_admin', 'admin', 'super_admin')
+  promote(@Param('eventId') eventId: string, @Param('id') id: string) {
+    return this.waitlistService.promoteEntry(id, eventId);
+  }
+
+  @Post(':id/skip')
+  @Roles('event_admin', 'admin', 'super_admin')
+  skip(@Param('eventId') eventId: string, @Param('id') id: string) {
+    return this.waitlistService.skipEntry(id, eventId);
+  }
+}
+
+/**
+ * Public endpoints for the Client widget: join a sold-out ticket type's
+ * waitlist, and resolve/decline the offer link sent by email.
+ */
+@Controller('public/waitlist')
+export class WaitlistPublicController {
+  constructor(private readonly waitlistService: WaitlistService) {}
+
+  /** POST /api/public/waitlist/events/:eventId */
+  @Post('events/:eventId')
+  @RateLimit({ limit: 10, windowSec: 60 })
+  join(@Param('eventId') eventId: string, @Body() dto: JoinWaitlistDto) {
+    return this.waitlistService.join(eventId, dto);
+  }
+
+  /** GET /api/public/waitlist/offers/:token */
+  @Get('offers/:token')
+  @RateLimit({ limit: 30, windowSec: 60 })
+  getOffer(@Param('token') token: string) {
+    return this.waitlistService.getOffer(token);
+  }
+
+  /** POST /api/public/waitlist/offers/:token/decline */
+  @Post('offers/:token/decline')
+  @RateLimit({ limit: 10, windowSec: 60 })
+  decline(@Param('token') token: string) {
+    return this.waitlistService.declineOffer(token);
+  }
+}
@@ -0,0 +1,18 @@
+import { Module, forwardRef } from '@nestjs/common';
+import { WaitlistService } from './waitlist.service';
+import { WaitlistController, WaitlistPublicController } from './waitlist.controller';
+import { TicketHoldsModule } from '../ticket-holds/ticket-holds.module';
+import { EmailModule } from '../email/email.module';
+import { SettingsModule } from '../settings/settings.module';
+
+/**
+ * Waitlist — queue for sold-out ticket types, offer emails and the
+ * expiry/promotion sweep (@Interval, enabled by ScheduleModule in AppModule).
+ */
+@Module({
+  imports: [TicketHoldsModule, EmailModule, forwardRef(() => SettingsModule)],
+  controllers: [WaitlistController, WaitlistPublicController],
+  providers: [WaitlistService],
+  exports: [WaitlistService],
+})
+export class WaitlistModule {}
@@ -0,0 +1,87 @@
+import { WaitlistService } from './waitlist.service';
+
+/**
+ * The queue must be fair: offers go out strictly in join order and stop at
+ * the first entry that no longer fits, and a lapsed offer hands its seats to
+ * the next person. Built via Object.create so only the collaborators touched
+ * need faking.
+ */
+describe('WaitlistService', () => {
+  const entry = (id: string, quantity: number, status = 'waiting') => ({
+    id,
+    eventId: 'evt-1',
+    ticketTypeId: 'tt-1',
+    email: `${id}@example.com`,
+    firstName: null,
+    lastName: null,
+    quantity,
+    returnUrl: 'https://example.com/tickets',
+    status,
+  });
+
+  function makeService(queue: any[], freeSeats: number): any {
+    const service: any = Object.create(WaitlistService.prototype);
+    let free = freeSeats;
+    service.prisma = {
+      waitlistEntry: {
+        findFirst: jest.fn(async () => queue.find((e) => e.status === 'waiting') ?? null),
+        findMany: jest.fn(async ({ where }: any) =>
+          queue.filter((e) => e.status === where.status),
+        ),
+        updateMany: jest.fn(async ({ where, data }: any) => {
+          const row = queue.find((e) => e.id === where.id && e.status === where.status);
+          if (!row) return { count: 0 };
+          Object.assign(row, data);
+          return { count: 1 };
+        }),
+      },
+      ticketType: {
+        findUnique: jest.fn().mockResolvedValue({ name: 'Day', event: { name: 'Expo' } }),
+      },
+    };
+    service.ticketHolds = {
+      reserveUnits: jest.fn(async (_id: string, qty: number) => {
+        if (free < qty) return false;
+        free -= qty;
+        return true;
+      }),
+      releaseUnits: jest.fn(async (_id: string, qty: number) => {
+        free += qty;
+      }),
+    };
+    service.settings = { resolve: jest.fn().mockResolvedValue('24') };
+    service.email = { sendWaitlistOffer: jest.fn().mockResolvedValue(true) };
+    service.audit = { log: jest.fn() };
+    service.logger = { log: jest.fn(), error: jest.fn() };
+    return service;
+  }
+
+  it('offers seats in join order and stops at the first entry that does not fit', async () => {
+    const queue = [entry('a', 1), entry('b', 2), entry('c', 1)];
+    const service = makeService(queue, 2);
+
+    const offered = await service.promote('tt-1');
+
+    // b needs 2 but only 1 is left — c must not jump the queue
+    expect(offered).toBe(1);
+    expect(queue.map((e) => e.status)).toEqual(['offered', 'waiting', 'waiting']);
+    expect(service.email.sendWaitlistOffer).toHaveBeenCalledTimes(1);
+    const [, mail] = service.email.sendWaitlistOffer.mock.calls[0];
+    expect(mail.offerUrl).toMatch(/^https:\/\/example\.com\/tickets\?sratix_waitlist=[0-9a-f-]{36}$/);
+  });
+
+  it('rolls an expired offer over to the next entry', async () => {
+    const queue = [
+      { ...entry('a', 2, 'offered'), offerExpiresAt: new Date(Date.now() - 1000) },
+      entry('b', 2),
+    ];
+    const service = makeService(queue, 0);
+
+    await service.sweep();
+
+    expect(queue[0].status).toBe('expired');
+    expect(service.ticketHolds.releaseUnits).toHaveBeenCalledWith('tt-1', 2);
+    expect(queue[1].status).toBe('offered');
+    expect(queue[1]).toHaveProperty('offerToken');
+  });
+});
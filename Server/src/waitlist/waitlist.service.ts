@@ -0,0 +1,493 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
+import { randomBytes } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { TicketHoldsService } from '../ticket-holds/ticket-holds.service';
+import { SettingsService } from '../settings/settings.service';
+import { EmailService } from '../email/email.service';
+import { AuditLogService, AuditAction } from '../audit-log/audit-log.service';
+import { EVENT_TIME_ZONE } from '../common/event-date.util';
+import { normalizeEmail } from '../common/email.util';
+
+/** Default offer window when `waitlist_offer_hours` is unset or invalid. */
+const DEFAULT_OFFER_HOURS = 24;
+const MIN_OFFER_HOURS = 1;
+const MAX_OFFER_HOURS = 168;
+
+/** Entries still in the queue (a visitor can hold one per ticket type). */
+const OPEN_STATUSES = ['waiting', 'offered'];
+
+type WaitlistEntryRow = {
+  id: string;
+  eventId: string;
+  ticketTypeId: string;
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+  quantity: number;
+  returnUrl: string;
+  status: string;
+};
+
+/**
+ * Waitlist Service — per-ticket-type queue for sold-out tickets.
+ *
+ * Lifecycle of an entry:
+ *   waiting → offered  : capacity freed up (promote) or an admin promoted it
+ *   offered → claimed  : checkout started through the offer link
+ *   offered → expired  : offer window elapsed — rolls over to the next entry
+ *   offered → declined : visitor declined via the offer link — rolls over
+ *   waiting/offered → skipped : admin skipped the entry
+ *
+ * An offer reserves its seats through TicketType.held (TicketHoldsService
+ * .reserveUnits), so freed capacity goes to the queue rather than back on
+ * public sale. At checkout the reserved units are handed to the order's hold.
+ *
+ * Promotion runs immediately when capacity is freed (ticket voided, order
+ * refunded or cancelled, quantity raised) and from a periodic sweep that
+ * also expires lapsed offers and catches seats returned by expired
+ * checkout holds.
+ */
+@Injectable()
+export class WaitlistService {
+  private readonly logger = new Logger(WaitlistService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly ticketHolds: TicketHoldsService,
+    private readonly settings: SettingsService,
+    private readonly email: EmailService,
+    private readonly audit: AuditLogService,
+  ) {}
+
+  /** Resolve the configured offer window in hours (clamped to 1–168). */
+  async getOfferHours(): Promise<number> {
+    const raw = await this.settings.resolve('waitlist_offer_hours', String(DEFAULT_OFFER_HOURS));
+    const parsed = parseInt(raw, 10);
+    if (isNaN(parsed)) return DEFAULT_OFFER_HOURS;
+    return Math.min(MAX_OFFER_HOURS, Math.max(MIN_OFFER_HOURS, parsed));
+  }
+
+  // ─── Public ───────────────────────────────────────────────────────
+
+  /**
+   * Join the waitlist of a sold-out ticket type. Joining twice with the
+   * same email returns the existing entry instead of queueing again.
+   */
+  async join(
+    eventId: string,
+    input: {
+      ticketTypeId: string;
+      email: string;
+      firstName?: string;
+      lastName?: string;
+      quantity?: number;
+      formData?: Record<string, unknown>;
+      locale?: string;
+      returnUrl: string;
+    },
+  ) {
+    const tt = await this.prisma.ticketType.findFirst({
+      where: { id: input.ticketTypeId, eventId },
+      select: {
+        id: true, name: true, status: true, category: true,
+        quantity: true, sold: true, held: true, maxPerOrder: true,
+        event: { select: { name: true, status: true } },
+      },
+    });
+    if (!tt || tt.event.status !== 'published' || !['active', 'sold_out'].includes(tt.status)) {
+      throw new NotFoundException('Ticket type not found or unavailable');
+    }
+    if (tt.category === 'exhibitor') {
+      throw new BadRequestException('Exhibitor tickets have no waitlist');
+    }
+
+    const quantity = input.quantity ?? 1;
+    if (quantity > tt.maxPerOrder) {
+      throw new BadRequestException(`Maximum ${tt.maxPerOrder} ticket(s) per order for this ticket type`);
+    }
+    const available = tt.quantity !== null ? Math.max(0, tt.quantity - tt.sold - tt.held) : null;
+    if (available === null || available >= quantity) {
+      throw new BadRequestException('Tickets are still available — no need to join the waitlist');
+    }
+
+    let returnUrl: string;
+    try {
+      const url = new URL(input.returnUrl);
+      if (url.protocol !== 'https:' && url.protocol !== 'http:') throw new Error();
+      url.searchParams.delete('sratix_waitlist');
+      returnUrl = url.toString();
+    } catch {
+      throw new BadRequestException('Invalid return URL');
+    }
+
+    const email = normalizeEmail(input.email);
+    const existing = await this.prisma.waitlistEntry.findFirst({
+      where: { ticketTypeId: tt.id, email, status: { in: OPEN_STATUSES } },
+    });
+    if (existing) {
+      return {
+        id: existing.id,
+        status: existing.status,
+        position: await this.positionOf(existing),
+      };
+    }
+
+    const entry = await this.prisma.waitlistEntry.create({
+      data: {
+        eventId,
+        ticketTypeId: tt.id,
+        email,
+        firstName: input.firstName ?? null,
+        lastName: input.lastName ?? null,
+        quantity,
+        formData: (input.formData ?? undefined) as any,
+        locale: input.locale ?? null,
+        returnUrl,
+      },
+    });
+    const position = await this.positionOf(entry);
+
+    this.audit.log({
+      eventId,
+      action: AuditAction.WAITLIST_JOINED,
+      entity: 'waitlist_entry',
+      entityId: entry.id,
+      detail: { ticketTypeId: tt.id, email, quantity, position },
+    });
+
+    this.email
+      .sendWaitlistJoined(email, {
+        name: this.displayName(entry),
+        eventName: tt.event.name,
+        ticketTypeName: tt.name,
+        quantity,
+        position,
+      })
+      .catch((err) =>
+        this.logger.error(`Failed to send waitlist confirmation for entry ${entry.id}: ${err}`),
+      );
+
+    return { id: entry.id, status: entry.status, position };
+  }
+
+  /** Details of a live offer, for the widget to start the checkout. */
+  async getOffer(token: string) {
+    const entry = await this.prisma.waitlistEntry.findUnique({
+      where: { offerToken: token },
+      include: { ticketType: { select: { name: true } } },
+    });
+    if (!entry || entry.status !== 'offered' || !entry.offerExpiresAt || entry.offerExpiresAt < new Date()) {
+      throw new NotFoundException('Waitlist offer not found or expired');
+    }
+    return {
+      eventId: entry.eventId,
+      ticketTypeId: entry.ticketTypeId,
+      ticketTypeName: entry.ticketType.name,
+      quantity: entry.quantity,
+      email: entry.email,
+      firstName: entry.firstName,
+      lastName: entry.lastName,
+      expiresAt: entry.offerExpiresAt,
+    };
+  }
+
+  /** Visitor turned the offer down — the seats go to the next entry. */
+  async declineOffer(token: string): Promise<{ declined: true }> {
+    const entry = await this.prisma.waitlistEntry.findUnique({ where: { offerToken: token } });
+    if (!entry || !(await this.closeOffer(entry, 'declined'))) {
+      throw new NotFoundException('Waitlist offer not found or expired');
+    }
+    await this.promote(entry.ticketTypeId);
+    return { declined: true };
+  }
+
+  // ─── Checkout ─────────────────────────────────────────────────────
+
+  /**
+   * Resolve an offer token presented at checkout. Throws when the link is
+   * unknown, for another event, already used or lapsed.
+   */
+  async findLiveOffer(token: string, eventId: string) {
+    const entry = await this.prisma.waitlistEntry.findUnique({ where: { offerToken: token } });
+    if (
+      !entry ||
+      entry.eventId !== eventId ||
+      entry.status !== 'offered' ||
+      !entry.offerExpiresAt ||
+      entry.offerExpiresAt < new Date()
+    ) {
+      throw new BadRequestException('This waitlist offer has expired or is no longer valid');
+    }
+    return entry;
+  }
+
+  /**
+   * Mark an offer as used by `orderId`. The status guard makes this the
+   * single winner against the expiry sweep: once claimed, the reserved
+   * units belong to the order's hold.
+   */
+  async claimOffer(entryId: string, orderId: string): Promise<void> {
+    const { count } = await this.prisma.waitlistEntry.updateMany({
+      where: { id: entryId, status: 'offered' },
+      data: { status: 'claimed', orderId },
+    });
+    if (count === 0) {
+      throw new BadRequestException('This waitlist offer has expired or is no longer valid');
+    }
+    const entry = await this.prisma.waitlistEntry.findUnique({ where: { id: entryId } });
+    if (entry) {
+      this.audit.log({
+        eventId: entry.eventId,
+        action: AuditAction.WAITLIST_CLAIMED,
+        entity: 'waitlist_entry',
+        entityId: entryId,
+        detail: { orderId },
+      });
+    }
+  }
+
+  /** Undo `claimOffer` when the checkout failed before the hold was taken. */
+  async reopenOffer(entryId: string): Promise<void> {
+    await this.prisma.waitlistEntry.updateMany({
+      where: { id: entryId, status: 'claimed' },
+      data: { status: 'offered', orderId: null },
+    });
+  }
+
+  /**
+   * Return offered units the buyer did not take (bought fewer than offered)
+   * and pass them on.
+   */
+  async releaseSurplus(entry: { ticketTypeId: string; quantity: number }, usedQuantity: number) {
+    const surplus = entry.quantity - usedQuantity;
+    if (surplus <= 0) return;
+    await this.ticketHolds.releaseUnits(entry.ticketTypeId, surplus);
+    await this.promote(entry.ticketTypeId);
+  }
+
+  // ─── Promotion ────────────────────────────────────────────────────
+
+  /**
+   * Offer free capacity to the front of the queue, strictly in join order:
+   * stops at the first entry that no longer fits, so a larger request is
+   * not starved by later, smaller ones.
+   *
+   * @returns number of offers made
+   */
+  async promote(ticketTypeId: string): Promise<number> {
+    let offered = 0;
+    for (;;) {
+      const next = await this.prisma.waitlistEntry.findFirst({
+        where: { ticketTypeId, status: 'waiting' },
+        orderBy: { createdAt: 'asc' },
+      });
+      if (!next) break;
+      const result = await this.offer(next);
+      if (result === 'no_capacity') break;
+      if (result === 'offered') offered++;
+    }
+    return offered;
+  }
+
+  /**
+   * Periodic sweep: expire lapsed offers (rolling their seats over) and
+   * promote every queue that has capacity again.
+   */
+  @Interval('waitlist-sweep', 60_000)
+  async sweep(): Promise<void> {
+    try {
+      const stale = await this.prisma.waitlistEntry.findMany({
+        where: { status: 'offered', offerExpiresAt: { lt: new Date() } },
+      });
+      for (const entry of stale) {
+        await this.closeOffer(entry, 'expired');
+      }
+
+      const queues = await this.prisma.waitlistEntry.findMany({
+        where: { status: 'waiting' },
+        select: { ticketTypeId: true },
+        distinct: ['ticketTypeId'],
+      });
+      for (const { ticketTypeId } of queues) {
+        await this.promote(ticketTypeId);
+      }
+    } catch (err) {
+      this.logger.error(
+        `Waitlist sweep failed: ${err instanceof Error ? err.message : String(err)}`,
+      );
+    }
+  }
+
+  // ─── Admin ────────────────────────────────────────────────────────
+
+  async findByEvent(eventId: string, ticketTypeId?: string) {
+    return this.prisma.waitlistEntry.findMany({
+      where: { eventId, ...(ticketTypeId ? { ticketTypeId } : {}) },
+      include: { ticketType: { select: { name: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /** Offer seats to a specific waiting entry, regardless of its position. */
+  async promoteEntry(id: string, eventId: string) {
+    const entry = await this.findEntry(id, eventId);
+    if (entry.status !== 'waiting') {
+      throw new BadRequestException(`Entry is ${entry.status} — only waiting entries can be promoted`);
+    }
+    const result = await this.offer(entry);
+    if (result === 'no_capacity') {
+      throw new BadRequestException(
+        'Not enough free capacity for this entry — raise the ticket type quantity first',
+      );
+    }
+    return this.findEntry(id, eventId);
+  }
+
+  /** Take an entry out of the queue; a live offer rolls over to the next entry. */
+  async skipEntry(id: string, eventId: string) {
+    const entry = await this.findEntry(id, eventId);
+    if (entry.status === 'offered') {
+      await this.closeOffer(entry, 'skipped');
+      await this.promote(entry.ticketTypeId);
+    } else if (entry.status === 'waiting') {
+      await this.prisma.waitlistEntry.updateMany({
+        where: { id, status: 'waiting' },
+        data: { status: 'skipped' },
+      });
+      this.audit.log({
+        eventId,
+        action: AuditAction.WAITLIST_SKIPPED,
+        entity: 'waitlist_entry',
+        entityId: id,
+        detail: { email: entry.email },
+      });
+    } else {
+      throw new BadRequestException(`Entry is ${entry.status} — cannot skip`);
+    }
+    return this.findEntry(id, eventId);
+  }
+
+  // ─── Internals ────────────────────────────────────────────────────
+
+  private async findEntry(id: string, eventId: string) {
+    const entry = await this.prisma.waitlistEntry.findFirst({
+      where: { id, eventId },
+      include: { ticketType: { select: { name: true } } },
+    });
+    if (!entry) throw new NotFoundException(`Waitlist entry ${id} not found`);
+    return entry;
+  }
+
+  /**
+   * Reserve the entry's seats and send its offer. `raced` means another
+   * promotion flipped the entry first (its seats were given back).
+   */
+  private async offer(entry: WaitlistEntryRow): Promise<'offered' | 'no_capacity' | 'raced'> {
+    if (!(await this.ticketHolds.reserveUnits(entry.ticketTypeId, entry.quantity))) {
+      return 'no_capacity';
+    }
+
+    const offerHours = await this.getOfferHours();
+    const offerToken = this.buildOfferToken();
+    const offerExpiresAt = new Date(Date.now() + offerHours * 3_600_000);
+    const { count } = await this.prisma.waitlistEntry.updateMany({
+      where: { id: entry.id, status: 'waiting' },
+      data: { status: 'offered', offerToken, offeredAt: new Date(), offerExpiresAt },
+    });
+    if (count === 0) {
+      await this.ticketHolds.releaseUnits(entry.ticketTypeId, entry.quantity);
+      return 'raced';
+    }
+
+    this.logger.log(
+      `Offered ${entry.quantity} seat(s) of ticket type ${entry.ticketTypeId} to waitlist entry ${entry.id}`,
+    );
+    this.audit.log({
+      eventId: entry.eventId,
+      action: AuditAction.WAITLIST_OFFERED,
+      entity: 'waitlist_entry',
+      entityId: entry.id,
+      detail: { email: entry.email, quantity: entry.quantity, offerExpiresAt: offerExpiresAt.toISOString() },
+    });
+
+    const tt = await this.prisma.ticketType.findUnique({
+      where: { id: entry.ticketTypeId },
+      select: { name: true, event: { select: { name: true } } },
+    });
+    const offerUrl = new URL(entry.returnUrl);
+    offerUrl.searchParams.set('sratix_waitlist', offerToken);
+    this.email
+      .sendWaitlistOffer(entry.email, {
+        name: this.displayName(entry),
+        eventName: tt?.event.name ?? 'Event',
+        ticketTypeName: tt?.name ?? 'Ticket',
+        quantity: entry.quantity,
+        offerUrl: offerUrl.toString(),
+        expiresAtFormatted: offerExpiresAt.toLocaleString('en-CH', {
+          timeZone: EVENT_TIME_ZONE,
+          day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit',
+        }),
+      })
+      .catch((err) =>
+        this.logger.error(`Failed to send waitlist offer for entry ${entry.id}: ${err}`),
+      );
+
+    return 'offered';
+  }
+
+  /**
+   * End a live offer and give its reserved seats back. Only the caller that
+   * wins the status guard releases the units. Rolling over to the next entry
+   * is left to the caller (`promote`).
+   */
+  private async closeOffer(
+    entry: WaitlistEntryRow,
+    status: 'expired' | 'declined' | 'skipped',
+  ): Promise<boolean> {
+    const { count } = await this.prisma.waitlistEntry.updateMany({
+      where: { id: entry.id, status: 'offered' },
+      data: { status },
+    });
+    if (count === 0) return false;
+
+    await this.ticketHolds.releaseUnits(entry.ticketTypeId, entry.quantity);
+    this.audit.log({
+      eventId: entry.eventId,
+      action: status === 'skipped' ? AuditAction.WAITLIST_SKIPPED : AuditAction.WAITLIST_OFFER_EXPIRED,
+      entity: 'waitlist_entry',
+      entityId: entry.id,
+      detail: { email: entry.email, quantity: entry.quantity, reason: status },
+    });
+    return true;
+  }
+
+  /** 1-based position among the entries still waiting for the same ticket type. */
+  private async positionOf(entry: { ticketTypeId: string; createdAt: Date; status: string }) {
+    if (entry.status !== 'waiting') return 0;
+    return this.prisma.waitlistEntry.count({
+      where: { ticketTypeId: entry.ticketTypeId, status: 'waiting', createdAt: { lte: entry.createdAt } },
+    });
+  }
+
+  private displayName(entry: { firstName: string | null; lastName: string | null }): string {
+    return [entry.firstName, entry.lastName].filter(Boolean).join(' ') || 'there';
+  }
+
+  /** UUID v4-shaped random token (same format as invoice links). */
+  private buildOfferToken(): string {
+    const hex = randomBytes(16).toString('hex');
+    return [
+      hex.slice(0, 8),
+      hex.slice(8, 12),
+      '4' + hex.slice(13, 16),
+      ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16) + hex.slice(17, 20),
+      hex.slice(20, 32),
+    ].join('-');
+  }
+}
@@ -109,6 +109,9 @@
   // Page paths from event settings (populated on ticket load)
   var pagePaths = {};
 
+  // Event offers pay-by-invoice (bank transfer) at checkout (from public-info)
+  var invoicePaymentAvailable = false;
+
   // ─── Ticket card icons (self-contained SVG with per-icon viewBox) ─────────────
 
   const TICKET_ICONS = {
@@ -331,9 +334,12 @@
     });
     const body = await res.json().catch(() => ({}));
     if (!res.ok) {
-      var friendly = friendlyValidationMessage(body.message);
+      var fieldErrors = formFieldErrorMessage(body.errors);
+      var friendly = fieldErrors || friendlyValidationMessage(body.message);
       var fallback = Array.isArray(body.message) ? body.message.join(' ') : body.message;
-      throw new Error(friendly || fallback || `SRAtix API error: ${res.status}`);
+      var error = new Error(friendly || fallback || `SRAtix API error: ${res.status}`);
+      if (Array.isArray(body.errors)) error.fieldErrors = body.errors;
+      throw error;
     }
     return body;
   }
@@ -357,6 +363,18 @@
     return parts.join(' ');
   }
 
+  /**
+   * Join the localized form field errors (`{ fieldId, code, params, message }`)
+   * returned by the forms API into one line in the visitor's locale.
+   */
+  function formFieldErrorMessage(errors) {
+    if (!Array.isArray(errors) || errors.length === 0) return null;
+    var locale = (typeof sratixI18n !== 'undefined' && sratixI18n.getLocale) ? sratixI18n.getLocale() : 'en';
+    return errors.map(function (e) {
+      return (e.message && (e.message[locale] || e.message.en)) || e.code;
+    }).join(' ');
+  }
+
   /** Resolve a relative URL (e.g. /uploads/...) against the server origin. */
   function resolveApiUrl(path) {
     if (!path) return '';
@@ -375,9 +393,29 @@
     // Live traffic: someone opened the registration page.
     trackFunnel('landing');
 
+    // Save and resume: bring back answers from an earlier visit
+    resumeCheckoutDrafts();
+
     const eventId = container.dataset.eventId || EVENT_ID;
     const layout = container.dataset.layout || 'cards';
 
+    // Waitlist offer link (?sratix_waitlist=<token>): the seats are already
+    // reserved for this person, so skip the role choice and member gate.
+    const offerToken = new URLSearchParams(window.location.search).get('sratix_waitlist');
+    if (offerToken && !_waitlistOffer) {
+      try {
+        _waitlistOffer = await apiFetch('public/waitlist/offers/' + encodeURIComponent(offerToken));
+        _waitlistOffer.token = offerToken;
+      } catch (err) {
+        renderWaitlistOfferInvalid(container);
+        return;
+      }
+    }
+    if (_waitlistOffer && _waitlistOffer.eventId === eventId) {
+      if (!getRole()) setRole('visitor');
+      return loadAndRenderTickets(container, eventId, layout, getMemberSession());
+    }
+
     // Step 1: Role choice (visitor vs exhibitor)
     const role = getRole();
     if (!role) {
@@ -431,6 +469,7 @@
       if (publicInfo.pagePaths) {
         pagePaths = publicInfo.pagePaths;
       }
+      invoicePaymentAvailable = !!publicInfo.invoicePayment;
 
       if (!ticketTypes || ticketTypes.length === 0) {
         container.innerHTML = `<a href="#" data-action="change-role" class="sratix-back-to-gate">${escHtml(t('roleChoice.changeRole'))}</a>`
@@ -481,6 +520,10 @@
       html += renderTicketCards(ticketTypes, layout, memberSession, role);
       container.innerHTML = html;
       bindSelectButtons(container, eventId, ticketTypes);
+      if (_waitlistOffer) {
+        const offeredTt = ticketTypes.find(function (item) { return item.id === _waitlistOffer.ticketTypeId; });
+        if (offeredTt) openQuantityModal(eventId, offeredTt);
+      }
       // Bind "change member type" link
       const changeBtn = container.querySelector('[data-action="change-member"]');
       if (changeBtn) {
@@ -951,7 +994,8 @@
   }
 
   function renderCard(tt, memberSession) {
-    const soldOut = tt.soldOut || (tt.available !== null && tt.available <= 0);
+    const offer = waitlistOfferFor(tt);
+    const soldOut = !offer && (tt.soldOut || (tt.available !== null && tt.available <= 0));
     const isBundled = !!(tt.membershipTier && tt.sraWpProductId);
     const hideBundlePitch = isActiveSraMember(memberSession);
 
@@ -985,11 +1029,16 @@
     }
 
     // ── Availability + action ──
-    const availHtml = tt.available !== null && !soldOut
-      ? `<span class="sratix-avail">${escHtml(t('tickets.remaining', { n: tt.available }))}</span>`
+    const availHtml = offer
+      ? `<span class="sratix-avail">${escHtml(t('waitlist.reserved', { n: offer.quantity }))}</span>`
+      : tt.available !== null && !soldOut
+        ? `<span class="sratix-avail">${escHtml(t('tickets.remaining', { n: tt.available }))}</span>`
+        : '';
+    const waitlistBtn = tt.category !== 'exhibitor'
+      ? `<button class="sratix-btn sratix-btn--outline sratix-btn--waitlist" data-action="waitlist" data-ticket-type-id="${escAttr(tt.id)}">${escHtml(t('waitlist.join'))}</button>`
       : '';
     const btn = soldOut
-      ? `<span class="sratix-badge sratix-badge--sold-out">${escHtml(t('tickets.soldOut'))}</span>`
+      ? `<span class="sratix-badge sratix-badge--sold-out">${escHtml(t('tickets.soldOut'))}</span>${waitlistBtn}`
       : `<button class="sratix-btn sratix-btn--primary" data-action="select" data-ticket-type-id="${escAttr(tt.id)}">${escHtml(t('tickets.select'))}</button>`;
 
     const iconHtml = getTicketIcon(tt);
@@ -1028,15 +1077,22 @@
         }
       });
     });
+    container.querySelectorAll('[data-action="waitlist"]').forEach((btn) => {
+      btn.addEventListener('click', () => {
+        const tt = ticketTypes.find((item) => item.id === btn.dataset.ticketTypeId);
+        if (tt) openWaitlistModal(eventId, tt);
+      });
+    });
   }
 
   // ─── Quantity modal (Stage A) ─────────────────────────────────────────────────
 
   function openQuantityModal(eventId, tt) {
     _draftTicketTypeId = tt.id;
+    const offer = waitlistOfferFor(tt);
     const maxQty = Math.min(
       tt.maxPerOrder || 10,
-      tt.available !== null ? tt.available : 99,
+      offer ? offer.quantity : (tt.available !== null ? tt.available : 99),
     );
     const modal = createModalShell('sratix-modal-qty');
 
@@ -1045,6 +1101,7 @@
         <button class="sratix-modal-close" aria-label="${escAttr(t('modal.close'))}">&times;</button>
         <h2 class="sratix-modal-title">${escHtml(tt.name)}</h2>
         <div class="sratix-modal-body">
+          ${offer ? `<p class="sratix-info sratix-waitlist-offer-note">${escHtml(t('waitlist.offerNote', { n: offer.quantity, expires: formatOfferExpiry(offer.expiresAt) }))}</p>` : ''}
           <div class="sratix-qty-row">
             <span class="sratix-label">${escHtml(t('qty.quantity'))}</span>
             <div class="sratix-qty-stepper">
@@ -1449,7 +1506,7 @@
     document.body.appendChild(modal);
 
     var formEl = modal.querySelector('#sratix-attendee-form');
-    setSratixFormCtx(formEl, { sraMembership: !!(tt && tt.membershipTier && !flowCtx.membershipOptOut) });
+    setSratixFormCtx(formEl, { sraMembership: !!(tt && tt.membershipTier && !flowCtx.membershipOptOut), ticketType: tt });
 
     // ── Pre-fill from WP user context ──
     if (!useCustomForm) {
@@ -1669,6 +1726,19 @@
     // Default invoice language to current widget locale
     var currentLang = (typeof LANG !== 'undefined' && LANG) || 'en';
 
+    // Pay-by-invoice choice (paid orders only, when the event offers it)
+    var offerInvoice = invoicePaymentAvailable && finalPrice > 0;
+    var payByInvoice = offerInvoice && flowCtx.paymentMethod === 'invoice';
+    var paymentMethodHtml = !offerInvoice ? '' : ''
+      + '<div class="sratix-field" style="margin-top:12px">'
+      +   '<label class="sratix-label">' + escHtml(t('billing.paymentMethod')) + '</label>'
+      +   '<div class="sratix-radio-group">'
+      +     '<label class="sratix-radio-label"><input type="radio" name="sratix-bill-method" value="card"' + (payByInvoice ? '' : ' checked') + ' /> ' + escHtml(t('billing.payByCard')) + '</label>'
+      +     '<label class="sratix-radio-label"><input type="radio" name="sratix-bill-method" value="invoice"' + (payByInvoice ? ' checked' : '') + ' /> ' + escHtml(t('billing.payByInvoice')) + '</label>'
+      +   '</div>'
+      +   '<p class="sratix-field-hint" id="sratix-bill-method-hint"' + (payByInvoice ? '' : ' style="display:none"') + '>' + escHtml(t('billing.payByInvoiceHint')) + '</p>'
+      + '</div>';
+
     var langOptions = [
       { value: 'en', label: 'English' },
       { value: 'fr', label: 'Français' },
@@ -1753,6 +1823,7 @@
       +           '</div>'
       +         '</div>'
       +       '</div>'
+      +       paymentMethodHtml
       // Invoice/email language follows the active widget locale
       +       '<input type="hidden" id="sratix-bill-lang" value="' + escAttr(currentLang) + '" />'
       +       '<p class="sratix-error-msg" id="sratix-billing-error" style="display:none"></p>'
@@ -1760,7 +1831,7 @@
       +   '</div>'
       +   '<div class="sratix-modal-footer">'
       +     '<button class="sratix-btn sratix-btn--ghost" id="sratix-billing-back">' + escHtml(t('billing.back')) + '</button>'
-      +     '<button class="sratix-btn sratix-btn--primary" id="sratix-billing-submit">' + escHtml(t('billing.continueToPay')) + '</button>'
+      +     '<button class="sratix-btn sratix-btn--primary" id="sratix-billing-submit">' + escHtml(t(payByInvoice ? 'billing.placeOrder' : 'billing.continueToPay')) + '</button>'
       +   '</div>'
       + '</div>';
 
@@ -1808,6 +1879,18 @@
     var submitBtn = modal.querySelector('#sratix-billing-submit');
     var errorEl = modal.querySelector('#sratix-billing-error');
 
+    var selectedMethod = function () {
+      var checked = modal.querySelector('input[name="sratix-bill-method"]:checked');
+      return checked ? checked.value : 'card';
+    };
+    modal.querySelectorAll('input[name="sratix-bill-method"]').forEach(function (radio) {
+      radio.addEventListener('change', function () {
+        var invoice = selectedMethod() === 'invoice';
+        modal.querySelector('#sratix-bill-method-hint').style.display = invoice ? '' : 'none';
+        submitBtn.textContent = t(invoice ? 'billing.placeOrder' : 'billing.continueToPay');
+      });
+    });
+
     submitBtn.addEventListener('click', function () {
       errorEl.style.display = 'none';
 
@@ -1860,6 +1943,7 @@
         bankAccount: billBank || undefined,
       };
       flowCtx.invoiceLanguage = invoiceLang;
+      flowCtx.paymentMethod = offerInvoice ? selectedMethod() : undefined;
 
       closeModal();
       submitCheckout(flowCtx);
@@ -1908,6 +1992,9 @@
         cancelUrl: window.location.href,
       };
 
+      var offer = waitlistOfferFor(tt);
+      if (offer) payload.waitlistToken = offer.token;
+
       if (flowCtx.formSchemaId && flowCtx.formData) {
         payload.formSchemaId = flowCtx.formSchemaId;
         payload.formData = flowCtx.formData;
@@ -1935,6 +2022,9 @@
       if (flowCtx.invoiceLanguage) {
         payload.invoiceLanguage = flowCtx.invoiceLanguage;
       }
+      if (flowCtx.paymentMethod === 'invoice') {
+        payload.paymentMethod = 'invoice';
+      }
 
       var result = await apiFetch('payments/checkout/public', {
         method: 'POST',
@@ -1946,7 +2036,7 @@
       // Purchase succeeded — clear the draft
       clearDraft(tt.id);
 
-      if (result.free) {
+      if (result.free || result.invoice) {
         window.location.href = result.successUrl;
       } else if (result.checkoutUrl) {
         window.location.href = result.checkoutUrl;
@@ -1976,25 +2066,80 @@
 
   function evalConditions(conditions, answers) {
     if (!conditions || conditions.length === 0) return true;
-    return conditions.every(function (rule) {
-      var actual = answers[rule.field];
-      switch (rule.operator) {
-        case 'eq':   return looseEq(actual, rule.value);
-        case 'neq':  return !looseEq(actual, rule.value);
-        case 'not_empty': return !isEmptyVal(actual);
-        case 'empty':     return isEmptyVal(actual);
-        case 'contains':
-          if (Array.isArray(actual)) return actual.indexOf(rule.value) !== -1;
-          if (typeof actual === 'string' && typeof rule.value === 'string')
-            return actual.toLowerCase().indexOf(rule.value.toLowerCase()) !== -1;
-          return false;
-        case 'in':
-          if (!Array.isArray(rule.value)) return false;
-          if (Array.isArray(actual)) return actual.some(function (v) { return rule.value.indexOf(v) !== -1; });
-          return rule.value.indexOf(actual) !== -1;
-        default: return true;
+    return conditions.every(function (node) { return evalCondNode(node, answers); });
+  }
+  function evalCondNode(node, answers) {
+    if (!node || typeof node !== 'object') return true;
+    if ('field' in node) return evalCondRule(node, answers);
+    if (Array.isArray(node.all)) return node.all.every(function (n) { return evalCondNode(n, answers); });
+    if (Array.isArray(node.any)) {
+      return node.any.length === 0 || node.any.some(function (n) { return evalCondNode(n, answers); });
+    }
+    if (node.not) return !evalCondNode(node.not, answers);
+    return true;
+  }
+  function evalCondRule(rule, answers) {
+    var actual = answers[rule.field];
+    switch (rule.operator) {
+      case 'eq':   return looseEq(actual, rule.value);
+      case 'neq':  return !looseEq(actual, rule.value);
+      case 'not_empty': return !isEmptyVal(actual);
+      case 'empty':     return isEmptyVal(actual);
+      case 'contains':
+        if (Array.isArray(actual)) return actual.indexOf(rule.value) !== -1;
+        if (typeof actual === 'string' && typeof rule.value === 'string')
+          return actual.toLowerCase().indexOf(rule.value.toLowerCase()) !== -1;
+        return false;
+      case 'in':
+        if (!Array.isArray(rule.value)) return false;
+        if (Array.isArray(actual)) return actual.some(function (v) { return rule.value.indexOf(v) !== -1; });
+        return rule.value.indexOf(actual) !== -1;
+      case 'gt': case 'gte': case 'lt': case 'lte': {
+        var cmp = condCompare(actual, rule.value);
+        if (cmp === null) return false;
+        if (rule.operator === 'gt') return cmp > 0;
+        if (rule.operator === 'gte') return cmp >= 0;
+        if (rule.operator === 'lt') return cmp < 0;
+        return cmp <= 0;
+      }
+      case 'between': {
+        if (!Array.isArray(rule.value) || rule.value.length !== 2) return false;
+        var low = condCompare(actual, rule.value[0]);
+        var high = condCompare(actual, rule.value[1]);
+        return low !== null && high !== null && low >= 0 && high <= 0;
+      }
+      case 'before': case 'after': {
+        var ta = condTime(actual), tb = condTime(rule.value);
+        if (ta === null || tb === null) return false;
+        return rule.operator === 'before' ? ta < tb : ta > tb;
+      }
+      case 'matches': {
+        var re;
+        if (typeof rule.value !== 'string' || !rule.value || isEmptyVal(actual)) return false;
+        try { re = new RegExp(rule.value, 'i'); } catch (e) { return false; }
+        return (Array.isArray(actual) ? actual : [actual]).some(function (v) {
+          return (typeof v === 'string' || typeof v === 'number') && re.test(String(v));
+        });
       }
-    });
+      default: return true;
+    }
+  }
+  function condNumber(v) {
+    if (typeof v === 'number') return isFinite(v) ? v : null;
+    if (typeof v === 'string' && v.trim() !== '') { var n = Number(v); return isFinite(n) ? n : null; }
+    return null;
+  }
+  function condTime(v) {
+    if (typeof v !== 'string' || !/^\d{4}-\d{2}-\d{2}/.test(v)) return null;
+    var t = Date.parse(v);
+    return isNaN(t) ? null : t;
+  }
+  function condCompare(a, b) {
+    var na = condNumber(a), nb = condNumber(b);
+    if (na !== null && nb !== null) return na - nb;
+    var ta = condTime(a), tb = condTime(b);
+    if (ta !== null && tb !== null) return ta - tb;
+    return null;
   }
   function looseEq(a, b) {
     if (a === b) return true;
@@ -2068,6 +2213,19 @@
     return label[locale] || label.en || label[Object.keys(label)[0]] || '';
   }
 
+  /**
+   * Option label with its add-on price, if the option is priced (charged
+   * on top of the ticket at checkout). `html` wraps the price in a span.
+   */
+  function optionText(o, html) {
+    var text = resolveLabel(o.label);
+    if (!(o.priceCents > 0)) return html ? escHtml(text) : text;
+    var price = '+ ' + formatPrice(o.priceCents);
+    return html
+      ? escHtml(text) + ' <span class="sratix-option-price">' + escHtml(price) + '</span>'
+      : text + ' (' + price + ')';
+  }
+
   /**
    * Render a checkbox dropdown (multi-select with optional hierarchy).
    * @param {string} id       The DOM id prefix for the field
@@ -2093,7 +2251,7 @@
         });
         h += '</div>';
       } else {
-        h += '<label class="sratix-msd-item"><input type="checkbox" name="' + escAttr(id) + '" value="' + escAttr(o.value) + '" /> ' + escHtml(resolveLabel(o.label)) + '</label>';
+        h += '<label class="sratix-msd-item"><input type="checkbox" name="' + escAttr(id) + '" value="' + escAttr(o.value) + '" /> ' + optionText(o, true) + '</label>';
       }
     });
     h += '</div></div>';
@@ -2175,7 +2333,7 @@
       case 'canton':
         var opts = '<option value="">' + escHtml(ph || t('reg.form.selectPlaceholder')) + '</option>';
         (field.options || []).forEach(function (o) {
-          opts += '<option value="' + escAttr(o.value) + '">' + escHtml(resolveLabel(o.label)) + '</option>';
+          opts += '<option value="' + escAttr(o.value) + '">' + escHtml(optionText(o, false)) + '</option>';
         });
         html = '<select class="sratix-input sratix-select-empty" id="' + escAttr(id) + '" data-field-id="' + escAttr(field.id) + '">' + opts + '</select>';
         break;
@@ -2187,7 +2345,7 @@
         html = '<div class="sratix-radio-group' + (slug === 'attendee_sector' ? ' sratix-sector-picker' : '') + '" data-field-id="' + escAttr(field.id) + '">';
         (field.options || []).forEach(function (o, idx) {
           var rid = id + '-' + idx;
-          html += '<label class="sratix-radio-label"><input type="radio" name="' + escAttr(id) + '" value="' + escAttr(o.value) + '" id="' + escAttr(rid) + '" /> ' + escHtml(resolveLabel(o.label)) + '</label>';
+          html += '<label class="sratix-radio-label"><input type="radio" name="' + escAttr(id) + '" value="' + escAttr(o.value) + '" id="' + escAttr(rid) + '" /> ' + optionText(o, true) + '</label>';
         });
         html += '</div>';
         break;
@@ -2201,7 +2359,7 @@
             html += '<input type="checkbox" name="' + escAttr(id) + '" value="' + escAttr(o.value) + '" id="' + escAttr(cid) + '" />';
             html += '<span class="sratix-toggle-track"><span class="sratix-toggle-thumb"></span></span>';
             html += '</span>';
-            html += '<span class="sratix-toggle-text">' + escHtml(resolveLabel(o.label)) + '</span>';
+            html += '<span class="sratix-toggle-text">' + optionText(o, true) + '</span>';
             html += '</label>';
           });
           html += '</div>';
@@ -2335,8 +2493,9 @@
   }
 
   /**
-   * Read virtual/context fields (like `_is_sra_membership_ticket`) from form dataset.
-   * Set via `setSratixFormCtx(formEl, { sraMembership: bool })` at modal creation.
+   * Read virtual/context fields (`_is_sra_membership_ticket`, `_ticket_type`,
+   * `_member_group`, … — see CONTEXT_FIELDS in common/conditions.ts) from the
+   * form dataset. Set via `setSratixFormCtx(formEl, ctx)` at modal creation.
    */
   function getVirtualFields(form) {
     var v = {};
@@ -2344,16 +2503,34 @@
       if (form.dataset.sratixSraMembership != null) {
         v._is_sra_membership_ticket = form.dataset.sratixSraMembership === 'true';
       }
+      if (form.dataset.sratixCondCtx) {
+        try { Object.assign(v, JSON.parse(form.dataset.sratixCondCtx)); } catch (e) { /* ignore */ }
+      }
     }
     return v;
   }
 
-  /** Set virtual context on a form element for condition evaluation. */
+  /**
+   * Set virtual context on a form element for condition evaluation.
+   * `ctx.ticketType` adds the ticket type and category; the member group,
+   * tier and partner come from the current member session.
+   */
   function setSratixFormCtx(form, ctx) {
     if (!form || !form.dataset) return;
     if (ctx && typeof ctx.sraMembership !== 'undefined') {
       form.dataset.sratixSraMembership = ctx.sraMembership ? 'true' : 'false';
     }
+    var cond = {};
+    var tt = ctx && ctx.ticketType;
+    if (tt && tt.id) cond._ticket_type = tt.id;
+    if (tt && tt.category) cond._ticket_category = tt.category;
+    var session = getMemberSession();
+    if (session && session.memberGroup && session.memberGroup !== 'none') {
+      cond._member_group = session.memberGroup;
+      if (session.tier) cond._membership_tier = session.tier;
+      if (session.partnerId) cond._partner = session.partnerId;
+    }
+    form.dataset.sratixCondCtx = JSON.stringify(cond);
   }
 
   /**
@@ -3760,7 +3937,7 @@
     document.body.appendChild(modal);
 
     var formEl = modal.querySelector('#sratix-reg-form');
-    setSratixFormCtx(formEl, { sraMembership: !!(tt && tt.membershipTier && !membershipOptOut) });
+    setSratixFormCtx(formEl, { sraMembership: !!(tt && tt.membershipTier && !membershipOptOut), ticketType: tt });
 
     // ── Pre-fill from WP user context ──
     if (!useCustomForm) {
@@ -4310,7 +4487,7 @@
           // Wire condition visibility
           if (schemaFields.some(function (f) { return f.conditions && f.conditions.length > 0; })) {
             var formEl = modal.querySelector('.sratix-form-fields') || modal;
-            setSratixFormCtx(formEl, { sraMembership: !!(tt && tt.membershipTier) });
+            setSratixFormCtx(formEl, { sraMembership: !!(tt && tt.membershipTier), ticketType: tt });
             formEl.addEventListener('input', function () {
               var snap = collectDynamicAnswers(formEl, schemaFields, {});
               applyConditionVisibility(formEl, schemaFields, snap);
@@ -4326,7 +4503,7 @@
             applyDynamicOverrides(formEl, schemaFields, initSnap);
           } else if (schemaFields) {
             var formEl = modal.querySelector('.sratix-form-fields') || modal;
-            setSratixFormCtx(formEl, { sraMembership: !!(tt && tt.membershipTier) });
+            setSratixFormCtx(formEl, { sraMembership: !!(tt && tt.membershipTier), ticketType: tt });
             formEl.addEventListener('input', function () {
               var snap = collectDynamicAnswers(formEl, schemaFields, {});
               applyDynamicOverrides(formEl, schemaFields, snap);
@@ -4636,12 +4813,140 @@
     renderWizard();
   }
 
+  // ─── Waitlist ─────────────────────────────────────────────────────────────────
+  // Sold-out ticket types offer a "Join waitlist" form. When seats free up the
+  // server emails a time-limited link back to this page (?sratix_waitlist=…);
+  // the offer is resolved in initTicketsWidget and its token sent at checkout.
+
+  var _waitlistOffer = null;
+
+  /** The active waitlist offer, if it is for this ticket type. */
+  function waitlistOfferFor(tt) {
+    return _waitlistOffer && tt && _waitlistOffer.ticketTypeId === tt.id ? _waitlistOffer : null;
+  }
+
+  function formatOfferExpiry(iso) {
+    try {
+      return new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+    } catch (e) {
+      return iso;
+    }
+  }
+
+  function renderWaitlistOfferInvalid(container) {
+    container.innerHTML = `<p class="sratix-error">${escHtml(t('waitlist.offerInvalid'))}</p>`
+      + `<a href="#" data-action="waitlist-continue" class="sratix-back-to-gate">${escHtml(t('waitlist.showTickets'))}</a>`;
+    container.querySelector('[data-action="waitlist-continue"]').addEventListener('click', function (e) {
+      e.preventDefault();
+      var url = new URL(window.location.href);
+      url.searchParams.delete('sratix_waitlist');
+      window.history.replaceState(null, '', url.toString());
+      initTicketsWidget();
+    });
+  }
+
+  function openWaitlistModal(eventId, tt) {
+    const maxQty = tt.maxPerOrder || 10;
+    const modal = createModalShell('sratix-modal-waitlist');
+
+    modal.innerHTML = `
+      <div class="sratix-modal-box">
+        <button class="sratix-modal-close" aria-label="${escAttr(t('modal.close'))}">&times;</button>
+        <h2 class="sratix-modal-title">${escHtml(t('waitlist.title', { name: tt.name }))}</h2>
+        <div class="sratix-modal-body" id="sratix-waitlist-body">
+          <p class="sratix-waitlist-intro">${escHtml(t('waitlist.intro'))}</p>
+          <div class="sratix-field">
+            <label class="sratix-label" for="sratix-wl-email">${escHtml(t('reg.email'))} *</label>
+            <input class="sratix-input" id="sratix-wl-email" type="email" autocomplete="email" value="${escAttr(config.userEmail || '')}" />
+          </div>
+          <div class="sratix-field">
+            <label class="sratix-label" for="sratix-wl-first">${escHtml(t('reg.firstName'))}</label>
+            <input class="sratix-input" id="sratix-wl-first" type="text" autocomplete="given-name" value="${escAttr(config.userFirstName || '')}" />
+          </div>
+          <div class="sratix-field">
+            <label class="sratix-label" for="sratix-wl-last">${escHtml(t('reg.lastName'))}</label>
+            <input class="sratix-input" id="sratix-wl-last" type="text" autocomplete="family-name" value="${escAttr(config.userLastName || '')}" />
+          </div>
+          <div class="sratix-field">
+            <label class="sratix-label" for="sratix-wl-qty">${escHtml(t('qty.quantity'))}</label>
+            <input class="sratix-input" id="sratix-wl-qty" type="number" min="1" max="${maxQty}" value="1" />
+          </div>
+          <p class="sratix-error" id="sratix-wl-error" style="display:none"></p>
+        </div>
+        <div class="sratix-modal-footer" id="sratix-waitlist-footer">
+          <button class="sratix-btn sratix-btn--ghost" id="sratix-wl-cancel">${escHtml(t('qty.cancel'))}</button>
+          <button class="sratix-btn sratix-btn--primary" id="sratix-wl-submit">${escHtml(t('waitlist.submit'))}</button>
+        </div>
+      </div>
+    `;
+
+    document.body.appendChild(modal);
+
+    const errorEl = modal.querySelector('#sratix-wl-error');
+    const submitBtn = modal.querySelector('#sratix-wl-submit');
+
+    modal.querySelector('#sratix-wl-cancel').addEventListener('click', closeModal);
+    modal.querySelector('.sratix-modal-close').addEventListener('click', closeModal);
+    bindModalBackdropClose(modal);
+
+    submitBtn.addEventListener('click', async () => {
+      errorEl.style.display = 'none';
+      const email = modal.querySelector('#sratix-wl-email').value.trim();
+      const qty = parseInt(modal.querySelector('#sratix-wl-qty').value, 10);
+      if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+        errorEl.textContent = t('waitlist.errEmail');
+        errorEl.style.display = '';
+        return;
+      }
+      if (!(qty >= 1 && qty <= maxQty)) {
+        errorEl.textContent = t('qty.rangeError', { max: maxQty });
+        errorEl.style.display = '';
+        return;
+      }
+
+      submitBtn.disabled = true;
+      try {
+        const result = await apiFetch(`public/waitlist/events/${eventId}`, {
+          method: 'POST',
+          body: {
+            ticketTypeId: tt.id,
+            email: email,
+            firstName: modal.querySelector('#sratix-wl-first').value.trim() || undefined,
+            lastName: modal.querySelector('#sratix-wl-last').value.trim() || undefined,
+            quantity: qty,
+            locale: (typeof sratixI18n !== 'undefined') ? sratixI18n.getLocale() : 'en',
+            returnUrl: window.location.href,
+          },
+        });
+        modal.querySelector('#sratix-waitlist-body').innerHTML =
+          `<p class="sratix-info">${escHtml(
+            result.status === 'offered'
+              ? t('waitlist.alreadyOffered', { email: email })
+              : t('waitlist.joined', { position: result.position, email: email }),
+          )}</p>`;
+        modal.querySelector('#sratix-waitlist-footer').innerHTML =
+          `<button class="sratix-btn sratix-btn--primary" id="sratix-wl-done">${escHtml(t('modal.close'))}</button>`;
+        modal.querySelector('#sratix-wl-done').addEventListener('click', closeModal);
+      } catch (err) {
+        errorEl.textContent = err.message || t('waitlist.error');
+        errorEl.style.display = '';
+        submitBtn.disabled = false;
+      }
+    });
+
+    requestAnimationFrame(() => modal.classList.add('sratix-modal--visible'));
+  }
+
   // ─── Success banner ───────────────────────────────────────────────────────────
 
   function injectSuccessBanner() {
     const params = new URLSearchParams(window.location.search);
     const orderNumber = params.get('sratix_order');
     const isTestMode  = params.get('sratix_test') === '1';
+    // Pay-by-invoice: order placed, tickets follow once the transfer arrives
+    const isInvoice   = params.get('sratix_invoice') === '1';
+    const titleText   = isInvoice ? t('invoiceConfirmation.title') : t('success.title');
+    const noteText    = isInvoice ? t('invoiceConfirmation.emailNote') : t('success.checkEmail');
 
     const banner = document.createElement('div');
     banner.className = 'sratix-success-banner' + (isTestMode ? ' sratix-success-banner--test' : '');
@@ -4653,9 +4958,9 @@
       banner.innerHTML = `
         <span class="sratix-success-icon">✓</span>
         <div class="sratix-success-text">
-          <strong>${escHtml(t('success.title'))}</strong> <small style="opacity:.6">[TEST]</small>
+          <strong>${escHtml(titleText)}</strong> <small style="opacity:.6">[TEST]</small>
           ${orderNumber ? `<span> — ${escHtml(t('success.order', { number: orderNumber }))}</span>` : ''}
-          <br>${escHtml(t('success.checkEmail'))}
+          <br>${escHtml(noteText)}
         </div>
         <button class="sratix-success-close" aria-label="${escAttr(t('success.dismiss'))}">&times;</button>
       `;
@@ -4664,9 +4969,9 @@
       banner.innerHTML = `
         <span class="sratix-success-icon">✓</span>
         <div class="sratix-success-text">
-          <strong>${escHtml(t('success.title'))}</strong>
+          <strong>${escHtml(titleText)}</strong>
           ${orderNumber ? `<span> — ${escHtml(t('success.order', { number: orderNumber }))}</span>` : ''}
-          <br>${escHtml(t('success.checkEmail'))}
+          <br>${escHtml(noteText)}
         </div>
         <button class="sratix-success-close" aria-label="${escAttr(t('success.dismiss'))}">&times;</button>
       `;
@@ -4690,6 +4995,7 @@
     url.searchParams.delete('sratix_success');
     url.searchParams.delete('sratix_order');
     url.searchParams.delete('sratix_test');
+    url.searchParams.delete('sratix_invoice');
     window.history.replaceState(null, '', url.toString());
   }
 
@@ -4771,6 +5077,10 @@
       }
 
       container.innerHTML = `<div class="sratix-my-tickets">${tickets.map(renderTicketRow).join('')}</div>`;
+      container.querySelectorAll('.sratix-ticket-transfer').forEach((btn) => {
+        const ticket = tickets.find((tk) => tk.id === btn.dataset.ticketId);
+        btn.addEventListener('click', () => openTransferModal(ticket, authRes.accessToken));
+      });
     } catch (err) {
       console.error('[SRAtix] Failed to load tickets:', err);
       container.innerHTML = `<p class="sratix-error">${escHtml(t('myTickets.loadError'))}</p>`;
@@ -4789,10 +5099,96 @@
         <div class="sratix-ticket-name">${escHtml(ticket.ticketType?.name ?? t('myTickets.ticket'))}</div>
         <div class="sratix-ticket-code">${escHtml(ticket.code)}</div>
         <span class="sratix-badge ${statusClass}">${escHtml(ticket.status.replace('_', ' '))}</span>
+        ${ticket.status === 'valid'
+          ? `<button class="sratix-btn sratix-btn--ghost sratix-ticket-transfer" data-ticket-id="${escAttr(ticket.id)}">${escHtml(t('transfer.button'))}</button>`
+          : ''}
       </div>
     </div>`;
   }
 
+  /**
+   * Hand a ticket to someone else. The server reissues it with a new code,
+   * so on success the list is reloaded — the old QR must disappear.
+   */
+  function openTransferModal(ticket, accessToken) {
+    const modal = createModalShell('sratix-modal-transfer');
+
+    modal.innerHTML = `
+      <div class="sratix-modal-box">
+        <button class="sratix-modal-close" aria-label="${escAttr(t('modal.close'))}">&times;</button>
+        <h2 class="sratix-modal-title">${escHtml(t('transfer.title'))}</h2>
+        <div class="sratix-modal-body" id="sratix-transfer-body">
+          <p class="sratix-transfer-intro">${escHtml(t('transfer.intro', { name: ticket.ticketType?.name ?? t('myTickets.ticket') }))}</p>
+          <div class="sratix-field">
+            <label class="sratix-label" for="sratix-tr-email">${escHtml(t('reg.email'))} *</label>
+            <input class="sratix-input" id="sratix-tr-email" type="email" autocomplete="off" />
+          </div>
+          <div class="sratix-field">
+            <label class="sratix-label" for="sratix-tr-first">${escHtml(t('reg.firstName'))} *</label>
+            <input class="sratix-input" id="sratix-tr-first" type="text" autocomplete="off" />
+          </div>
+          <div class="sratix-field">
+            <label class="sratix-label" for="sratix-tr-last">${escHtml(t('reg.lastName'))} *</label>
+            <input class="sratix-input" id="sratix-tr-last" type="text" autocomplete="off" />
+          </div>
+          <p class="sratix-transfer-warning">${escHtml(t('transfer.warning'))}</p>
+          <p class="sratix-error" id="sratix-tr-error" style="display:none"></p>
+        </div>
+        <div class="sratix-modal-footer" id="sratix-transfer-footer">
+          <button class="sratix-btn sratix-btn--ghost" id="sratix-tr-cancel">${escHtml(t('qty.cancel'))}</button>
+          <button class="sratix-btn sratix-btn--primary" id="sratix-tr-submit">${escHtml(t('transfer.submit'))}</button>
+        </div>
+      </div>
+    `;
+
+    document.body.appendChild(modal);
+
+    const errorEl = modal.querySelector('#sratix-tr-error');
+    const submitBtn = modal.querySelector('#sratix-tr-submit');
+
+    modal.querySelector('#sratix-tr-cancel').addEventListener('click', closeModal);
+    modal.querySelector('.sratix-modal-close').addEventListener('click', closeModal);
+    bindModalBackdropClose(modal);
+
+    submitBtn.addEventListener('click', async () => {
+      errorEl.style.display = 'none';
+      const email = modal.querySelector('#sratix-tr-email').value.trim();
+      const firstName = modal.querySelector('#sratix-tr-first').value.trim();
+      const lastName = modal.querySelector('#sratix-tr-last').value.trim();
+      if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+        errorEl.textContent = t('transfer.errEmail');
+        errorEl.style.display = '';
+        return;
+      }
+      if (!firstName || !lastName) {
+        errorEl.textContent = t('transfer.errName');
+        errorEl.style.display = '';
+        return;
+      }
+
+      submitBtn.disabled = true;
+      try {
+        await apiFetch(`tickets/${encodeURIComponent(ticket.id)}/transfer?eventId=${EVENT_ID}`, {
+          method: 'POST',
+          headers: { Authorization: `Bearer ${accessToken}` },
+          body: { email: email, firstName: firstName, lastName: lastName },
+        });
+        modal.querySelector('#sratix-transfer-body').innerHTML =
+          `<p class="sratix-info">${escHtml(t('transfer.done', { email: email }))}</p>`;
+        modal.querySelector('#sratix-transfer-footer').innerHTML =
+          `<button class="sratix-btn sratix-btn--primary" id="sratix-tr-done">${escHtml(t('modal.close'))}</button>`;
+        modal.querySelector('#sratix-tr-done').addEventListener('click', closeModal);
+        initMyTicketsWidget();
+      } catch (err) {
+        errorEl.textContent = err.message || t('transfer.error');
+        errorEl.style.display = '';
+        submitBtn.disabled = false;
+      }
+    });
+
+    requestAnimationFrame(() => modal.classList.add('sratix-modal--visible'));
+  }
+
   // ─── Schedule widget (v1: from Event.meta.schedule) ──────────────────────────
 
   async function initScheduleWidget() {
@@ -4854,6 +5250,8 @@
       var existing = loadDraft(ttId) || {};
       Object.keys(patch).forEach(function (k) { existing[k] = patch[k]; });
       sessionStorage.setItem(draftKey(ttId), JSON.stringify(existing));
+      _serverDrafts[ttId] = existing;
+      syncServerDrafts(false);
     } catch (e) { /* quota exceeded or private mode — ignore */ }
   }
 
@@ -4868,6 +5266,104 @@
   function clearDraft(ttId) {
     if (!ttId) return;
     try { sessionStorage.removeItem(draftKey(ttId)); } catch (e) {}
+    delete _serverDrafts[ttId];
+    syncServerDrafts(true);
+  }
+
+  // ─── Server-side drafts (save and resume) ────────────────────────────────────
+  // sessionStorage dies with the tab, so drafts are mirrored to the server
+  // under a random draft id kept in localStorage. A visitor who closes the tab
+  // finds their answers again on the next visit. The id is the only key to the
+  // draft and is forgotten once the checkout goes through; the server purges
+  // abandoned drafts after its retention window.
+
+  var DRAFT_ID_KEY = 'sratix_draft_id_' + EVENT_ID;
+  var _serverDrafts = {};          // ticket-type id → draft, as stored on the server
+  var _serverDraftDirty = false;
+  var _serverDraftTimer = null;
+
+  function serverDraftId(create) {
+    try {
+      var id = localStorage.getItem(DRAFT_ID_KEY);
+      if (!id && create && window.crypto && crypto.getRandomValues) {
+        var bytes = new Uint8Array(24);
+        crypto.getRandomValues(bytes);
+        id = Array.from(bytes, function (b) { return ('0' + b.toString(16)).slice(-2); }).join('');
+        localStorage.setItem(DRAFT_ID_KEY, id);
+      }
+      return id;
+    } catch (e) { return null; }
+  }
+
+  function serverDraftPath(id) {
+    return 'public/drafts/' + encodeURIComponent(EVENT_ID) + '/' + encodeURIComponent(id);
+  }
+
+  /** Push pending draft changes — debounced, or right away (before navigating). */
+  function syncServerDrafts(immediate) {
+    _serverDraftDirty = true;
+    clearTimeout(_serverDraftTimer);
+    if (!immediate) {
+      _serverDraftTimer = setTimeout(function () { syncServerDrafts(true); }, 1500);
+      return;
+    }
+    var empty = Object.keys(_serverDrafts).length === 0;
+    var id = serverDraftId(!empty);
+    _serverDraftDirty = false;
+    if (!id) return;
+    try {
+      // keepalive lets the request finish while the page unloads / redirects
+      fetch(API_BASE + '/' + serverDraftPath(id), {
+        method: empty ? 'DELETE' : 'PUT',
+        headers: empty ? {} : { 'Content-Type': 'application/json' },
+        body: empty ? undefined : JSON.stringify({ data: _serverDrafts }),
+        keepalive: true,
+        credentials: 'omit',
+      }).catch(function () {});
+      if (empty) localStorage.removeItem(DRAFT_ID_KEY);
+    } catch (e) { /* best-effort — the sessionStorage copy still works */ }
+  }
+
+  /** Load this browser's server draft into sessionStorage (tab drafts win). */
+  async function restoreServerDrafts() {
+    var id = serverDraftId(false);
+    if (!id) return;
+    try {
+      var res = await apiFetch(serverDraftPath(id));
+      var data = (res && res.data) || {};
+      Object.keys(data).forEach(function (ttId) {
+        if (!_serverDrafts[ttId]) _serverDrafts[ttId] = loadDraft(ttId) || data[ttId];
+        if (!loadDraft(ttId)) sessionStorage.setItem(draftKey(ttId), JSON.stringify(data[ttId]));
+      });
+      if (!res || !res.data) localStorage.removeItem(DRAFT_ID_KEY);
+    } catch (e) { /* no draft, expired or offline — start fresh */ }
+  }
+
+  var _autosaveTimer = null;
+  var _draftsResumed = false;
+
+  /**
+   * Once per page: restore the server draft, then autosave the open checkout
+   * modal while the visitor types (and when the page goes away).
+   */
+  function resumeCheckoutDrafts() {
+    if (_draftsResumed) return;
+    _draftsResumed = true;
+    restoreServerDrafts();
+
+    function queue(e) {
+      var modal = e.target && e.target.closest ? e.target.closest('.sratix-modal') : null;
+      if (!modal) return;
+      clearTimeout(_autosaveTimer);
+      _autosaveTimer = setTimeout(function () { snapshotModalToDraft(modal); }, 800);
+    }
+    document.addEventListener('input', queue);
+    document.addEventListener('change', queue);
+    window.addEventListener('pagehide', function () {
+      var modal = document.querySelector('.sratix-modal');
+      if (modal) snapshotModalToDraft(modal);
+      if (_serverDraftDirty) syncServerDrafts(true);
+    });
   }
 
   /** Snapshot whichever modal is currently open and save to draft. */
@@ -5102,6 +5598,7 @@
       return url.toString();
     }
     const url = new URL(window.location.href);
+    url.searchParams.delete('sratix_waitlist');
     url.searchParams.set('sratix_success', '1');
     if (category === 'exhibitor') {
       url.searchParams.set('sratix_type', 'exhibitor');
@@ -5522,12 +6019,19 @@
           + '</div>'
         : '';
 
+      var draftBanner = data.draftSavedAt
+        ? '<div class="sratix-info-banner" style="margin-bottom:16px;padding:12px 14px;border-radius:8px;border-left:4px solid var(--sratix-accent,#6366f1);background:rgba(99,102,241,.08)">'
+          + '<p style="margin:0;font-size:13px;line-height:1.5">' + escHtml(t('reg.draftRestored')) + '</p>'
+          + '</div>'
+        : '';
+
       var submitLabel = isUpdate ? t('reg.updateDetails') : t('reg.completeRegistration');
 
       var formHtml = ''
         + '<h2 class="sratix-modal-title">' + escHtml(event.name || 'Event Registration') + '</h2>'
         + (ticketTypeName ? '<p class="sratix-modal-subtitle">' + escHtml(ticketTypeName) + '</p>' : '')
         + statusBanner
+        + draftBanner
         + '<p style="margin-bottom:20px;opacity:0.7;">' + escHtml(isStaffPass ? t('reg.staffNote') : (isUpdate ? t('reg.updateSubtitle') : t('reg.completeSubtitle'))) + '</p>'
         + '<form id="sratix-areg-form" novalidate>'
         +   formBodyHtml
@@ -5627,8 +6131,37 @@
         initMapListingUi(formEl, schemaFields);
       }
 
+      // Save and resume: autosave unvalidated answers while typing; the server
+      // hands them back (in savedFormData / attendee) on the next visit.
+      var regDraftTimer = null;
+      function saveRegistrationDraft() {
+        var draftBody;
+        if (useCustomForm) {
+          draftBody = { formData: collectDynamicAnswers(formEl, schemaFields, {}) };
+        } else {
+          draftBody = {};
+          [['first-name', 'firstName'], ['last-name', 'lastName'], ['phone', 'phone'], ['company', 'company']].forEach(function (pair) {
+            var el = container.querySelector('#sratix-areg-' + pair[0]);
+            if (el && !el.readOnly) draftBody[pair[1]] = el.value;
+          });
+        }
+        fetch(apiUrl + '/public/register/' + encodeURIComponent(token) + '/draft', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(draftBody),
+          keepalive: true,
+        }).catch(function () { /* best-effort */ });
+      }
+      function queueRegistrationDraft() {
+        clearTimeout(regDraftTimer);
+        regDraftTimer = setTimeout(saveRegistrationDraft, 1500);
+      }
+      formEl.addEventListener('input', queueRegistrationDraft);
+      formEl.addEventListener('change', queueRegistrationDraft);
+
       formEl.addEventListener('submit', async function(e) {
         e.preventDefault();
+        clearTimeout(regDraftTimer);
         var errorEl = container.querySelector('#sratix-areg-error');
         errorEl.style.display = 'none';
         var submitBtn = e.target.querySelector('button[type="submit"]');
@@ -7695,6 +8228,7 @@
   function renderExhibitorConfirmation() {
     var params = new URLSearchParams(window.location.search);
     var orderNumber = params.get('sratix_order') || '';
+    var isInvoice = params.get('sratix_invoice') === '1';
 
     // Create confirmation container — no polling needed, provisioning happens server-side
     var container = document.createElement('div');
@@ -7704,14 +8238,14 @@
       '<div class="sratix-confirmation-card">' +
         '<div class="sratix-confirmation-header">' +
           '<span class="sratix-confirmation-icon">✓</span>' +
-          '<h2>' + escHtml(t('exhibitorConfirmation.title')) + '</h2>' +
+          '<h2>' + escHtml(isInvoice ? t('invoiceConfirmation.title') : t('exhibitorConfirmation.title')) + '</h2>' +
           '<p>' + escHtml(t('exhibitorConfirmation.subtitle')) +
             (orderNumber ? ' ' + escHtml(t('exhibitorConfirmation.orderNumber')) + ' <strong>' + escHtml(orderNumber) + '</strong>' : '') +
           '</p>' +
         '</div>' +
         '<div id="sratix-confirmation-body">' +
           '<div class="sratix-confirmation-ready">' +
-            '<p class="sratix-confirmation-note">' + escHtml(t('exhibitorConfirmation.emailNote')) + '</p>' +
+            '<p class="sratix-confirmation-note">' + escHtml(isInvoice ? t('invoiceConfirmation.emailNote') : t('exhibitorConfirmation.emailNote')) + '</p>' +
             '<div class="sratix-confirmation-actions">' +
               '<button class="sratix-btn sratix-btn-secondary sratix-confirmation-dismiss">' +
                 escHtml(t('exhibitorConfirmation.dismiss')) +
@@ -7736,6 +8270,7 @@
     cleanUrl.searchParams.delete('sratix_success');
     cleanUrl.searchParams.delete('sratix_order');
     cleanUrl.searchParams.delete('sratix_test');
+    cleanUrl.searchParams.delete('sratix_invoice');
     cleanUrl.searchParams.delete('sratix_type');
     cleanUrl.searchParams.delete('sratix_email');
     window.history.replaceState(null, '', cleanUrl.toString());
@@ -7751,6 +8286,7 @@
   function renderVisitorConfirmation() {
     var params = new URLSearchParams(window.location.search);
     var orderNumber = params.get('sratix_order') || '';
+    var isInvoice = params.get('sratix_invoice') === '1';
 
     var container = document.createElement('div');
     container.className = 'sratix-exhibitor-confirmation'; // reuse exhibitor confirmation styles
@@ -7759,14 +8295,14 @@
       '<div class="sratix-confirmation-card">' +
         '<div class="sratix-confirmation-header">' +
           '<span class="sratix-confirmation-icon">✓</span>' +
-          '<h2>' + escHtml(t('visitorConfirmation.title')) + '</h2>' +
+          '<h2>' + escHtml(isInvoice ? t('invoiceConfirmation.title') : t('visitorConfirmation.title')) + '</h2>' +
           '<p>' + escHtml(t('visitorConfirmation.subtitle')) +
             (orderNumber ? ' ' + escHtml(t('visitorConfirmation.orderNumber')) + ' <strong>' + escHtml(orderNumber) + '</strong>' : '') +
           '</p>' +
         '</div>' +
         '<div id="sratix-confirmation-body">' +
           '<div class="sratix-confirmation-ready">' +
-            '<p class="sratix-confirmation-note">' + escHtml(t('visitorConfirmation.emailNote')) + '</p>' +
+            '<p class="sratix-confirmation-note">' + escHtml(isInvoice ? t('invoiceConfirmation.emailNote') : t('visitorConfirmation.emailNote')) + '</p>' +
             '<div class="sratix-confirmation-actions">' +
               '<button class="sratix-btn sratix-btn-secondary sratix-confirmation-dismiss">' +
                 escHtml(t('visitorConfirmation.dismiss')) +
@@ -7791,6 +8327,7 @@
     cleanUrl.searchParams.delete('sratix_success');
     cleanUrl.searchParams.delete('sratix_order');
     cleanUrl.searchParams.delete('sratix_test');
+    cleanUrl.searchParams.delete('sratix_invoice');
     cleanUrl.searchParams.delete('sratix_type');
     window.history.replaceState(null, '', cleanUrl.toString());
 
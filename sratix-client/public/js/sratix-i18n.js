@@ -28,6 +28,20 @@ const sratixI18n = (function () {
       'tickets.sraMembership':   'SRA membership',
       'tickets.includesMembership': 'Incl. {price} {tier} membership (1 year)',
 
+      // Waitlist
+      'waitlist.join':             'Join waitlist',
+      'waitlist.title':            'Waitlist — {name}',
+      'waitlist.intro':            'This ticket is sold out. Leave your email and we will send you a purchase link as soon as a seat frees up. The link is reserved for you for a limited time.',
+      'waitlist.submit':           'Join waitlist',
+      'waitlist.joined':           'You are on the waitlist (position {position}). We will email {email} when a seat frees up.',
+      'waitlist.alreadyOffered':   'Seats are already reserved for you — check {email} for your purchase link.',
+      'waitlist.errEmail':         'Please enter a valid email address.',
+      'waitlist.error':            'Could not join the waitlist. Please try again.',
+      'waitlist.reserved':         '{n} reserved for you',
+      'waitlist.offerNote':        'Your waitlist seats: up to {n} ticket(s), reserved until {expires}.',
+      'waitlist.offerInvalid':     'This waitlist link has expired or was already used.',
+      'waitlist.showTickets':      'Show tickets',
+
       // Quantity modal
       'qty.title':               '{name}',
       'qty.quantity':            'Quantity',
@@ -97,6 +111,11 @@ const sratixI18n = (function () {
       'billing.back':            '\u2190 Back',
       'billing.continueToPay':   'Continue to payment \u2192',
       'billing.companyHide':     'Hide company fields',
+      'billing.paymentMethod':   'Payment method',
+      'billing.payByCard':       'Card (online payment)',
+      'billing.payByInvoice':    'Invoice (bank transfer)',
+      'billing.payByInvoiceHint': 'You will receive an invoice with a QR-bill by email. Your tickets are reserved until the due date and issued once the payment has arrived.',
+      'billing.placeOrder':      'Place order \u2192',
 
       // Registration (legacy / recipient registration)
       'reg.title':               'Complete your registration',
@@ -126,6 +145,7 @@ const sratixI18n = (function () {
       'reg.staffNote':           'You\'ve been added as booth staff. Confirm your details below to receive your pass.',
       'reg.updateSubtitle':      'You can update your details below.',
       'reg.updateInfoNote':      'You have already registered. You can review and update your details here.',
+      'reg.draftRestored':       'We restored the answers you had started. Check them and complete your registration.',
       'reg.updateSuccessTitle':  'Details updated',
       'reg.updateSuccessMsg':    'Your registration details have been updated successfully.',
       'reg.completeSuccessTitle':'Registration complete!',
@@ -150,6 +170,8 @@ const sratixI18n = (function () {
       'success.title':           'Registration complete!',
       'success.order':           'Order #{number}',
       'success.checkEmail':      'Check your email for your ticket confirmation.',
+      'invoiceConfirmation.title': 'Order received',
+      'invoiceConfirmation.emailNote': 'We have emailed you the invoice with a QR-bill. Your tickets will be sent as soon as your payment has arrived.',
       'success.dismiss':         'Dismiss',
       'success.testTitle':       'TEST MODE — Registration complete!',
       'success.testDone':        'Tickets issued & emails sent. The following SRA-side actions were simulated (not executed):',
@@ -165,6 +187,17 @@ const sratixI18n = (function () {
       'myTickets.loadError':     'Unable to load your tickets. Please try again later.',
       'myTickets.ticket':        'Ticket',
 
+      // Ticket transfer (My Tickets)
+      'transfer.button':         'Transfer',
+      'transfer.title':          'Transfer ticket',
+      'transfer.intro':          'Give your {name} ticket to someone else. They will receive an email with a link to register.',
+      'transfer.warning':        'Your current QR code stops working as soon as the transfer is done.',
+      'transfer.submit':         'Transfer ticket',
+      'transfer.errEmail':       'Please enter a valid email address.',
+      'transfer.errName':        'Please enter the first and last name.',
+      'transfer.done':           'The ticket has been transferred to {email}.',
+      'transfer.error':          'The ticket could not be transferred. Please try again.',
+
       // Schedule
       'schedule.comingSoon':     'Event schedule will be published soon.',
 
@@ -439,6 +472,20 @@ const sratixI18n = (function () {
       'tickets.sraMembership':   'Adhésion SRA',
       'tickets.includesMembership': 'Incl. {price} adhésion {tier} (1 an)',
 
+      // Waitlist
+      'waitlist.join':             'Liste d\'attente',
+      'waitlist.title':            'Liste d\'attente — {name}',
+      'waitlist.intro':            'Ce billet est épuisé. Laissez votre e-mail et nous vous enverrons un lien d\'achat dès qu\'une place se libère. Le lien vous est réservé pour une durée limitée.',
+      'waitlist.submit':           'M\'inscrire',
+      'waitlist.joined':           'Vous êtes sur la liste d\'attente (position {position}). Nous écrirons à {email} dès qu\'une place se libère.',
+      'waitlist.alreadyOffered':   'Des places vous sont déjà réservées — consultez {email} pour votre lien d\'achat.',
+      'waitlist.errEmail':         'Veuillez saisir une adresse e-mail valide.',
+      'waitlist.error':            'Impossible de rejoindre la liste d\'attente. Veuillez réessayer.',
+      'waitlist.reserved':         '{n} réservé(s) pour vous',
+      'waitlist.offerNote':        'Vos places de la liste d\'attente : jusqu\'à {n} billet(s), réservées jusqu\'au {expires}.',
+      'waitlist.offerInvalid':     'Ce lien de liste d\'attente a expiré ou a déjà été utilisé.',
+      'waitlist.showTickets':      'Voir les billets',
+
       'qty.title':               '{name}',
       'qty.quantity':            'Quantité',
       'qty.decrease':            'Diminuer',
@@ -501,6 +548,11 @@ const sratixI18n = (function () {
       'billing.countryRequired': 'Veuillez sélectionner un pays.',
       'billing.back':            '\u2190 Retour',
       'billing.companyHide':     'Masquer les champs entreprise',
+      'billing.paymentMethod':   'Mode de paiement',
+      'billing.payByCard':       'Carte (paiement en ligne)',
+      'billing.payByInvoice':    'Facture (virement bancaire)',
+      'billing.payByInvoiceHint': 'Vous recevrez par e-mail une facture avec QR-facture. Vos billets sont réservés jusqu\'à l\'échéance et émis dès réception du paiement.',
+      'billing.placeOrder':      'Passer la commande \u2192',
       'billing.continueToPay':   'Continuer vers le paiement \u2192',
 
       // Membership opt-out
@@ -535,6 +587,7 @@ const sratixI18n = (function () {
       'reg.staffNote':           'Vous avez été ajouté comme personnel de stand. Confirmez vos informations ci-dessous pour recevoir votre billet.',
       'reg.updateSubtitle':      'Vous pouvez mettre à jour vos informations ci-dessous.',
       'reg.updateInfoNote':      'Vous êtes déjà inscrit(e). Vous pouvez consulter et modifier vos informations ici.',
+      'reg.draftRestored':       'Nous avons restauré les réponses que vous aviez commencées. Vérifiez-les et finalisez votre inscription.',
       'reg.updateSuccessTitle':  'Informations mises à jour',
       'reg.updateSuccessMsg':    'Vos informations d\'inscription ont été mises à jour avec succès.',
       'reg.completeSuccessTitle':'Inscription terminée !',
@@ -560,6 +613,8 @@ const sratixI18n = (function () {
       'success.title':           'Inscription réussie !',
       'success.order':           'Commande n°{number}',
       'success.checkEmail':      'Vérifiez votre e-mail pour la confirmation du billet.',
+      'invoiceConfirmation.title': 'Commande reçue',
+      'invoiceConfirmation.emailNote': 'Nous vous avons envoyé la facture avec QR-facture par e-mail. Vos billets vous seront envoyés dès réception de votre paiement.',
       'success.dismiss':         'Fermer',
       'success.testTitle':       'MODE TEST — Inscription réussie !',
       'success.testDone':        'Billets émis et e-mails envoyés. Les actions SRA suivantes ont été simulées (non exécutées) :',
@@ -574,6 +629,17 @@ const sratixI18n = (function () {
       'myTickets.loadError':     'Impossible de charger vos billets. Veuillez réessayer.',
       'myTickets.ticket':        'Billet',
 
+      // Ticket transfer (My Tickets)
+      'transfer.button':         'Transférer',
+      'transfer.title':          'Transférer le billet',
+      'transfer.intro':          'Donnez votre billet {name} à une autre personne. Elle recevra un e-mail avec un lien pour s\'inscrire.',
+      'transfer.warning':        'Votre code QR actuel cesse de fonctionner dès que le transfert est effectué.',
+      'transfer.submit':         'Transférer le billet',
+      'transfer.errEmail':       'Veuillez saisir une adresse e-mail valide.',
+      'transfer.errName':        'Veuillez saisir le prénom et le nom.',
+      'transfer.done':           'Le billet a été transféré à {email}.',
+      'transfer.error':          'Le billet n\'a pas pu être transféré. Veuillez réessayer.',
+
       'schedule.comingSoon':     'Le programme sera publié prochainement.',
 
       'memberGate.title':          'Êtes-vous membre SRA ?',
@@ -839,6 +905,20 @@ const sratixI18n = (function () {
       'tickets.sraMembership':   'SRA-Mitgliedschaft',
       'tickets.includesMembership': 'Inkl. {price} {tier}-Mitgliedschaft (1 Jahr)',
 
+      // Waitlist
+      'waitlist.join':             'Auf die Warteliste',
+      'waitlist.title':            'Warteliste — {name}',
+      'waitlist.intro':            'Dieses Ticket ist ausverkauft. Hinterlassen Sie Ihre E-Mail-Adresse und wir senden Ihnen einen Kauflink, sobald ein Platz frei wird. Der Link ist für begrenzte Zeit für Sie reserviert.',
+      'waitlist.submit':           'Eintragen',
+      'waitlist.joined':           'Sie stehen auf der Warteliste (Position {position}). Wir schreiben an {email}, sobald ein Platz frei wird.',
+      'waitlist.alreadyOffered':   'Für Sie sind bereits Plätze reserviert — Ihren Kauflink finden Sie unter {email}.',
+      'waitlist.errEmail':         'Bitte geben Sie eine gültige E-Mail-Adresse ein.',
+      'waitlist.error':            'Eintrag in die Warteliste fehlgeschlagen. Bitte versuchen Sie es erneut.',
+      'waitlist.reserved':         '{n} für Sie reserviert',
+      'waitlist.offerNote':        'Ihre Wartelisten-Plätze: bis zu {n} Ticket(s), reserviert bis {expires}.',
+      'waitlist.offerInvalid':     'Dieser Wartelisten-Link ist abgelaufen oder wurde bereits verwendet.',
+      'waitlist.showTickets':      'Tickets anzeigen',
+
       'qty.title':               '{name}',
       'qty.quantity':            'Anzahl',
       'qty.decrease':            'Verringern',
@@ -901,6 +981,11 @@ const sratixI18n = (function () {
       'billing.countryRequired': 'Bitte wählen Sie ein Land.',
       'billing.back':            '\u2190 Zurück',
       'billing.companyHide':     'Firmenfelder ausblenden',
+      'billing.paymentMethod':   'Zahlungsart',
+      'billing.payByCard':       'Karte (Online-Zahlung)',
+      'billing.payByInvoice':    'Rechnung (Banküberweisung)',
+      'billing.payByInvoiceHint': 'Sie erhalten eine Rechnung mit QR-Einzahlungsschein per E-Mail. Ihre Tickets sind bis zum Fälligkeitsdatum reserviert und werden nach Zahlungseingang ausgestellt.',
+      'billing.placeOrder':      'Bestellung abschicken \u2192',
       'billing.continueToPay':   'Weiter zur Zahlung \u2192',
 
       // Membership opt-out
@@ -935,6 +1020,7 @@ const sratixI18n = (function () {
       'reg.staffNote':           'Sie wurden als Standpersonal hinzugefügt. Bestätigen Sie unten Ihre Angaben, um Ihren Pass zu erhalten.',
       'reg.updateSubtitle':      'Sie können Ihre Angaben unten aktualisieren.',
       'reg.updateInfoNote':      'Sie sind bereits angemeldet. Sie können Ihre Angaben hier überprüfen und aktualisieren.',
+      'reg.draftRestored':       'Wir haben Ihre begonnenen Angaben wiederhergestellt. Bitte prüfen Sie sie und schliessen Sie Ihre Anmeldung ab.',
       'reg.updateSuccessTitle':  'Angaben aktualisiert',
       'reg.updateSuccessMsg':    'Ihre Anmeldedaten wurden erfolgreich aktualisiert.',
       'reg.completeSuccessTitle':'Anmeldung abgeschlossen!',
@@ -960,6 +1046,8 @@ const sratixI18n = (function () {
       'success.title':           'Anmeldung erfolgreich!',
       'success.order':           'Bestellung Nr. {number}',
       'success.checkEmail':      'Prüfen Sie Ihr E-Mail-Postfach für die Ticketbestätigung.',
+      'invoiceConfirmation.title': 'Bestellung erhalten',
+      'invoiceConfirmation.emailNote': 'Wir haben Ihnen die Rechnung mit QR-Einzahlungsschein per E-Mail gesendet. Ihre Tickets erhalten Sie, sobald Ihre Zahlung eingegangen ist.',
       'success.dismiss':         'Schliessen',
       'success.testTitle':       'TESTMODUS — Anmeldung erfolgreich!',
       'success.testDone':        'Tickets ausgestellt & E-Mails versendet. Die folgenden SRA-Aktionen wurden simuliert (nicht ausgeführt):',
@@ -974,6 +1062,17 @@ const sratixI18n = (function () {
       'myTickets.loadError':     'Ihre Tickets konnten nicht geladen werden. Bitte versuchen Sie es erneut.',
       'myTickets.ticket':        'Ticket',
 
+      // Ticket transfer (My Tickets)
+      'transfer.button':         'Übertragen',
+      'transfer.title':          'Ticket übertragen',
+      'transfer.intro':          'Geben Sie Ihr Ticket {name} an eine andere Person weiter. Sie erhält eine E-Mail mit einem Link zur Registrierung.',
+      'transfer.warning':        'Ihr bisheriger QR-Code wird ungültig, sobald die Übertragung abgeschlossen ist.',
+      'transfer.submit':         'Ticket übertragen',
+      'transfer.errEmail':       'Bitte geben Sie eine gültige E-Mail-Adresse ein.',
+      'transfer.errName':        'Bitte geben Sie Vor- und Nachnamen ein.',
+      'transfer.done':           'Das Ticket wurde an {email} übertragen.',
+      'transfer.error':          'Das Ticket konnte nicht übertragen werden. Bitte versuchen Sie es erneut.',
+
       'schedule.comingSoon':     'Das Veranstaltungsprogramm wird in Kürze veröffentlicht.',
 
       'memberGate.title':          'Sind Sie SRA-Mitglied?',
@@ -1239,6 +1338,20 @@ const sratixI18n = (function () {
       'tickets.sraMembership':   'Adesione SRA',
       'tickets.includesMembership': 'Incl. {price} adesione {tier} (1 anno)',
 
+      // Waitlist
+      'waitlist.join':             'Lista d\'attesa',
+      'waitlist.title':            'Lista d\'attesa — {name}',
+      'waitlist.intro':            'Questo biglietto è esaurito. Lascia la tua e-mail e ti invieremo un link d\'acquisto non appena si libera un posto. Il link è riservato a te per un tempo limitato.',
+      'waitlist.submit':           'Iscrivimi',
+      'waitlist.joined':           'Sei in lista d\'attesa (posizione {position}). Scriveremo a {email} non appena si libera un posto.',
+      'waitlist.alreadyOffered':   'Ci sono già posti riservati per te — controlla {email} per il link d\'acquisto.',
+      'waitlist.errEmail':         'Inserisci un indirizzo e-mail valido.',
+      'waitlist.error':            'Impossibile iscriversi alla lista d\'attesa. Riprova.',
+      'waitlist.reserved':         '{n} riservato/i per te',
+      'waitlist.offerNote':        'I tuoi posti dalla lista d\'attesa: fino a {n} biglietto/i, riservati fino al {expires}.',
+      'waitlist.offerInvalid':     'Questo link della lista d\'attesa è scaduto o è già stato utilizzato.',
+      'waitlist.showTickets':      'Mostra biglietti',
+
       'qty.title':               '{name}',
       'qty.quantity':            'Quantità',
       'qty.decrease':            'Diminuisci',
@@ -1301,6 +1414,11 @@ const sratixI18n = (function () {
       'billing.countryRequired': 'Seleziona un paese.',
       'billing.back':            '\u2190 Indietro',
       'billing.companyHide':     'Nascondi campi azienda',
+      'billing.paymentMethod':   'Metodo di pagamento',
+      'billing.payByCard':       'Carta (pagamento online)',
+      'billing.payByInvoice':    'Fattura (bonifico bancario)',
+      'billing.payByInvoiceHint': 'Riceverai via e-mail una fattura con QR-fattura. I tuoi biglietti sono riservati fino alla scadenza ed emessi all\'arrivo del pagamento.',
+      'billing.placeOrder':      'Invia ordine \u2192',
       'billing.continueToPay':   'Continua al pagamento \u2192',
 
       // Membership opt-out
@@ -1335,6 +1453,7 @@ const sratixI18n = (function () {
       'reg.staffNote':           'Sei stato aggiunto come personale dello stand. Conferma i tuoi dati qui sotto per ricevere il tuo pass.',
       'reg.updateSubtitle':      'Puoi aggiornare i tuoi dati qui sotto.',
       'reg.updateInfoNote':      'Sei già registrato/a. Puoi consultare e modificare i tuoi dati qui.',
+      'reg.draftRestored':       'Abbiamo ripristinato le risposte che avevi iniziato. Controllale e completa la registrazione.',
       'reg.updateSuccessTitle':  'Dati aggiornati',
       'reg.updateSuccessMsg':    'I tuoi dati di registrazione sono stati aggiornati con successo.',
       'reg.completeSuccessTitle':'Registrazione completata!',
@@ -1360,6 +1479,8 @@ const sratixI18n = (function () {
       'success.title':           'Registrazione completata!',
       'success.order':           'Ordine n. {number}',
       'success.checkEmail':      'Controlla la tua e-mail per la conferma del biglietto.',
+      'invoiceConfirmation.title': 'Ordine ricevuto',
+      'invoiceConfirmation.emailNote': 'Ti abbiamo inviato via e-mail la fattura con QR-fattura. I tuoi biglietti ti saranno inviati non appena riceveremo il pagamento.',
       'success.dismiss':         'Chiudi',
       'success.testTitle':       'MODALITÀ TEST — Registrazione completata!',
       'success.testDone':        'Biglietti emessi ed e-mail inviate. Le seguenti azioni SRA sono state simulate (non eseguite):',
@@ -1374,6 +1495,17 @@ const sratixI18n = (function () {
       'myTickets.loadError':     'Impossibile caricare i tuoi biglietti. Riprova più tardi.',
       'myTickets.ticket':        'Biglietto',
 
+      // Ticket transfer (My Tickets)
+      'transfer.button':         'Trasferisci',
+      'transfer.title':          'Trasferisci biglietto',
+      'transfer.intro':          'Cedi il tuo biglietto {name} a un\'altra persona. Riceverà un\'email con un link per registrarsi.',
+      'transfer.warning':        'Il tuo codice QR attuale smette di funzionare non appena il trasferimento è completato.',
+      'transfer.submit':         'Trasferisci biglietto',
+      'transfer.errEmail':       'Inserisci un indirizzo email valido.',
+      'transfer.errName':        'Inserisci nome e cognome.',
+      'transfer.done':           'Il biglietto è stato trasferito a {email}.',
+      'transfer.error':          'Impossibile trasferire il biglietto. Riprova.',
+
       'schedule.comingSoon':     'Il programma dell\'evento sarà pubblicato a breve.',
 
       'memberGate.title':          'Sei un membro SRA?',
@@ -1639,6 +1771,20 @@ const sratixI18n = (function () {
       'tickets.sraMembership':   'SRA 會員',
       'tickets.includesMembership': '含 {price} {tier} 會籍 (1 年)',
 
+      // Waitlist
+      'waitlist.join':             '加入候補',
+      'waitlist.title':            '候補名單 — {name}',
+      'waitlist.intro':            '此票種已售罄。留下您的電子郵件，一旦有名額釋出，我們會寄送購票連結給您。連結會在限定時間內為您保留。',
+      'waitlist.submit':           '加入候補',
+      'waitlist.joined':           '您已加入候補名單（第 {position} 位）。有名額釋出時，我們會寄信至 {email}。',
+      'waitlist.alreadyOffered':   '已為您保留名額 — 請至 {email} 查看購票連結。',
+      'waitlist.errEmail':         '請輸入有效的電子郵件地址。',
+      'waitlist.error':            '無法加入候補名單，請再試一次。',
+      'waitlist.reserved':         '已為您保留 {n} 張',
+      'waitlist.offerNote':        '您的候補名額：最多 {n} 張，保留至 {expires}。',
+      'waitlist.offerInvalid':     '此候補連結已過期或已被使用。',
+      'waitlist.showTickets':      '查看票券',
+
       'qty.title':               '{name}',
       'qty.quantity':            '數量',
       'qty.decrease':            '減少',
@@ -1701,6 +1847,11 @@ const sratixI18n = (function () {
       'billing.countryRequired': '請選擇國家。',
       'billing.back':            '\u2190 返回',
       'billing.companyHide':     '隱藏公司欄位',
+      'billing.paymentMethod':   '付款方式',
+      'billing.payByCard':       '信用卡（線上付款）',
+      'billing.payByInvoice':    '發票（銀行轉帳）',
+      'billing.payByInvoiceHint': '您將透過電子郵件收到附 QR 帳單的發票。門票會保留至付款期限，並於收到款項後發出。',
+      'billing.placeOrder':      '送出訂單 \u2192',
       'billing.continueToPay':   '繼續付款 \u2192',
 
       // Membership opt-out
@@ -1735,6 +1886,7 @@ const sratixI18n = (function () {
       'reg.staffNote':           '您已被新增為攤位工作人員。請在下方確認您的資料以取得您的通行證。',
       'reg.updateSubtitle':      '您可以在下方更新您的資料。',
       'reg.updateInfoNote':      '您已報名。您可以在此查看和更新您的資料。',
+      'reg.draftRestored':       '我們已恢復您先前填寫的答案。請檢查後完成報名。',
       'reg.updateSuccessTitle':  '資料已更新',
       'reg.updateSuccessMsg':    '您的報名資料已成功更新。',
       'reg.completeSuccessTitle':'報名完成！',
@@ -1760,6 +1912,8 @@ const sratixI18n = (function () {
       'success.title':           '報名完成！',
       'success.order':           '訂單 #{number}',
       'success.checkEmail':      '請查收電子信箱以確認票券。',
+      'invoiceConfirmation.title': '已收到訂單',
+      'invoiceConfirmation.emailNote': '我們已透過電子郵件寄出附 QR 帳單的發票。收到款項後將立即寄送您的門票。',
       'success.dismiss':         '關閉',
       'success.testTitle':       '測試模式 — 報名完成！',
       'success.testDone':        '票券已發出、電子郵件已寄送。以下 SRA 操作僅為模擬（未實際執行）：',
@@ -1774,6 +1928,17 @@ const sratixI18n = (function () {
       'myTickets.loadError':     '無法載入您的票券，請稍後再試。',
       'myTickets.ticket':        '票券',
 
+      // Ticket transfer (My Tickets)
+      'transfer.button':         '轉讓',
+      'transfer.title':          '轉讓票券',
+      'transfer.intro':          '將您的 {name} 票券轉讓給他人。對方將收到一封附有註冊連結的電子郵件。',
+      'transfer.warning':        '轉讓完成後,您目前的 QR 碼將立即失效。',
+      'transfer.submit':         '轉讓票券',
+      'transfer.errEmail':       '請輸入有效的電子郵件地址。',
+      'transfer.errName':        '請輸入名字與姓氏。',
+      'transfer.done':           '票券已轉讓給 {email}。',
+      'transfer.error':          '無法轉讓票券,請再試一次。',
+
       'schedule.comingSoon':     '活動議程即將公布。',
 
       'memberGate.title':          '您是 SRA 會員嗎？',